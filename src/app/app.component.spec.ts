@@ -5,6 +5,8 @@ import { UserPreferences } from './models/pregnancy.models';
 import { StorageService } from './services/storage/storage.service';
 import { ThemeService } from './services/theme/theme.service';
 import { PregnancyCalculatorService } from './services/pregnancy-calculator/pregnancy-calculator.service';
+import { DataRepository } from './services/data-store/data-repository';
+import { InMemoryDataRepository } from './services/data-store/in-memory-data-repository';
 
 /**
  * Unit tests for AppComponent
@@ -29,6 +31,9 @@ xdescribe('AppComponent', () => {
     mockStorageService = jasmine.createSpyObj('StorageService', [
       'getPreferences',
       'getCurrentPreferences',
+      'getProfileRegistry',
+      'hasMigrationFailed',
+      'reload',
       'savePreferences',
       'updateThemeColor',
       'updateViewMode',
@@ -45,6 +50,14 @@ xdescribe('AppComponent', () => {
     // Setup default behavior
     mockStorageService.getPreferences.and.returnValue(of(mockPreferences));
     mockStorageService.getCurrentPreferences.and.returnValue(mockPreferences);
+    mockStorageService.getProfileRegistry.and.returnValue(
+      of({
+        activeProfileId: 'profile-1',
+        profiles: [
+          { id: 'profile-1', name: '', archived: false, createdAt: '2024-01-01T00:00:00.000Z' },
+        ],
+      })
+    );
     mockThemeService.getCurrentTheme.and.returnValue(of('neutral'));
 
     await TestBed.configureTestingModule({
@@ -53,6 +66,7 @@ xdescribe('AppComponent', () => {
         { provide: StorageService, useValue: mockStorageService },
         { provide: ThemeService, useValue: mockThemeService },
         { provide: PregnancyCalculatorService, useValue: mockPregnancyCalculatorService },
+        { provide: DataRepository, useClass: InMemoryDataRepository },
       ],
     }).compileComponents();
 
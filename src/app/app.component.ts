@@ -10,6 +10,23 @@ import {
   PregnancyDay,
   PregnancySummary,
   AppState,
+  UltrasoundDatingScan,
+  BiometryEntry,
+  GuidelineProfile,
+  DateFormat,
+  Language,
+  LeaveSettings,
+  BirthRecord,
+  PostpartumDay,
+  PostpartumSummary,
+  NewbornSummary,
+  CycleSummary,
+  AppMode,
+  Profile,
+  StorageQuota,
+  PassphraseFormMode,
+  PassphraseFormValue,
+  BackupError,
 } from './models/pregnancy.models';
 
 import { SetupComponent } from './components/setup/setup.component';
@@ -20,7 +37,25 @@ import { HeaderComponent } from './components/header/header.component';
 import { StorageService } from './services/storage/storage.service';
 import { ThemeService } from './services/theme/theme.service';
 import { PregnancyCalculatorService } from './services/pregnancy-calculator/pregnancy-calculator.service';
-import { parseLocalDate } from './utilities/parse-date';
+import { ClockService } from './services/clock/clock.service';
+import { DateFormatService } from './services/date-format/date-format.service';
+import { DatePreviewComponent } from './components/date-preview/date-preview.component';
+import { PostpartumViewComponent } from './components/postpartum-view/postpartum-view.component';
+import { PostpartumTimelineComponent } from './components/postpartum-timeline/postpartum-timeline.component';
+import { PostpartumService } from './services/postpartum/postpartum.service';
+import { WellBabyTimelineComponent } from './components/well-baby-timeline/well-baby-timeline.component';
+import { NewbornService } from './services/newborn/newborn.service';
+import { CycleTrackerComponent } from './components/cycle-tracker/cycle-tracker.component';
+import { CycleTrackingService } from './services/cycle-tracking/cycle-tracking.service';
+import { DataStoreService } from './services/data-store/data-store.service';
+import { EncryptionService } from './services/encryption/encryption.service';
+import { BackupService } from './services/backup/backup.service';
+import { PassphraseFormComponent } from './components/passphrase-form/passphrase-form.component';
+import { BackupRestoreComponent } from './components/backup-restore/backup-restore.component';
+import { I18nService } from './services/i18n/i18n.service';
+import { TranslatePipe } from './pipes/translate/translate.pipe';
+import { MessageKey } from './i18n/messages.en';
+import { downloadFile } from './utilities/download-file';
 
 /**
  * Main application component that orchestrates the pregnancy calendar app
@@ -36,6 +71,14 @@ import { parseLocalDate } from './utilities/parse-date';
     TableViewComponent,
     FloatingNavigationComponent,
     HeaderComponent,
+    DatePreviewComponent,
+    PostpartumViewComponent,
+    PostpartumTimelineComponent,
+    WellBabyTimelineComponent,
+    CycleTrackerComponent,
+    PassphraseFormComponent,
+    BackupRestoreComponent,
+    TranslatePipe,
   ],
   templateUrl: './app.component.html',
   styleUrls: ['./app.component.scss'],
@@ -53,28 +96,69 @@ export class AppComponent implements OnInit, OnDestroy {
   /** Pregnancy summary data observable */
   pregnancySummary$: Observable<PregnancySummary | null>;
 
+  /** Postpartum timeline data observable */
+  postpartumDays$: Observable<PostpartumDay[] | null>;
+
+  /** Postpartum summary data observable */
+  postpartumSummary$: Observable<PostpartumSummary | null>;
+
+  /** Newborn age and well-baby timeline observable */
+  newbornSummary$: Observable<NewbornSummary | null>;
+
+  /** Cycle tracking summary observable (before conception) */
+  cycleSummary$: Observable<CycleSummary | null>;
+
+  /** Browser storage usage observable */
+  storageQuota$: Observable<StorageQuota | null>;
+
   /** Internal state management */
   private appStateSubject = new BehaviorSubject<Partial<AppState>>({});
   private currentAppState: AppState = {
     preferences: null,
+    profiles: [],
+    activeProfile: null,
     currentView: 'summary',
+    mode: 'pregnancy',
+    showPregnancyArchive: false,
+    isEncrypted: this.encryptionService.isEnabled(),
+    isLocked: false,
+    passphraseFormMode: null,
+    passphraseError: null,
+    backupPreview: null,
     isLoading: true,
     error: null,
     isInitialized: false,
+    previewDate: null,
+    today: this.clockService.today(),
   };
 
   constructor(
     private storageService: StorageService,
     private themeService: ThemeService,
-    private pregnancyCalculatorService: PregnancyCalculatorService
+    private pregnancyCalculatorService: PregnancyCalculatorService,
+    private clockService: ClockService,
+    private dateFormatService: DateFormatService,
+    private i18nService: I18nService,
+    private postpartumService: PostpartumService,
+    private newbornService: NewbornService,
+    private cycleTrackingService: CycleTrackingService,
+    private dataStoreService: DataStoreService,
+    private encryptionService: EncryptionService,
+    private backupService: BackupService
   ) {
     // Initialize observables
     this.appState$ = this.createAppStateObservable();
     this.pregnancyDays$ = this.createPregnancyDaysObservable();
     this.pregnancySummary$ = this.createPregnancySummaryObservable();
+    this.postpartumDays$ = this.createPostpartumDaysObservable();
+    this.postpartumSummary$ = this.createPostpartumSummaryObservable();
+    this.newbornSummary$ = this.createNewbornSummaryObservable();
+    this.cycleSummary$ = this.createCycleSummaryObservable();
+    this.storageQuota$ = this.dataStoreService.getQuota();
   }
 
   ngOnInit(): void {
+    this.watchEncryptedSaves();
     this.initializeApplication();
   }
 
@@ -94,16 +178,18 @@ export class AppComponent implements OnInit, OnDestroy {
     const success = this.storageService.savePreferences(preferences);
     if (success) {
       this.themeService.setTheme(preferences.themeColor);
+      this.dateFormatService.setDateFormat(preferences.dateFormat);
+      this.i18nService.setLanguage(preferences.language);
       this.updateAppState({
         preferences,
         isInitialized: true,
         isLoading: false,
         currentView: preferences.viewMode,
       });
-      this.announceToScreenReader('Pregnancy calendar setup completed successfully');
+      this.announceToScreenReader(this.i18nService.translate('app.setupComplete'));
     } else {
       this.updateAppState({
-        error: 'Failed to save your preferences. Please try again.',
+        error: this.i18nService.translate('app.savePreferencesFailed'),
         isLoading: false,
       });
     }
@@ -116,7 +202,11 @@ export class AppComponent implements OnInit, OnDestroy {
   onViewChange(viewMode: ViewMode): void {
     this.updateAppState({ currentView: viewMode });
     this.storageService.updateViewMode(viewMode);
-    this.announceToScreenReader(`Switched to ${viewMode} view`);
+    this.announceToScreenReader(
+      this.i18nService.translate(
+        viewMode === 'table' ? 'app.switchedToTable' : 'app.switchedToSummary'
+      )
+    );
   }
 
   /**
@@ -134,26 +224,506 @@ export class AppComponent implements OnInit, OnDestroy {
       this.updateAppState({ preferences: updatedPreferences });
     }
 
-    this.announceToScreenReader(`Theme changed to ${themeColor}`);
+    const themeLabel =
+      this.themeService.getAvailableThemes().find(theme => theme.value === themeColor)?.label ??
+      themeColor;
+    this.announceToScreenReader(
+      this.i18nService.translate('app.themeChanged', { theme: themeLabel })
+    );
+  }
+
+  /**
+   * Handles dating ultrasound changes from the summary view
+   * @param datingScan - New dating scan, or null to remove it
+   */
+  onDatingScanChange(datingScan: UltrasoundDatingScan | null): void {
+    const currentPreferences = this.currentAppState.preferences;
+    if (!currentPreferences) {
+      return;
+    }
+
+    const updatedPreferences = { ...currentPreferences, datingScan: datingScan ?? undefined };
+    if (!this.storageService.savePreferences(updatedPreferences)) {
+      this.updateAppState({ error: this.i18nService.translate('app.datingScanFailed') });
+      return;
+    }
+
+    this.updateAppState({ preferences: updatedPreferences });
+    this.announceToScreenReader(
+      this.i18nService.translate(datingScan ? 'app.datingScanSaved' : 'app.datingScanRemoved')
+    );
+  }
+
+  /**
+   * Handles changes to the growth scan biometry log
+   * @param biometry - Updated biometry log
+   */
+  onBiometryChange(biometry: BiometryEntry[]): void {
+    const currentPreferences = this.currentAppState.preferences;
+    if (!currentPreferences) {
+      return;
+    }
+
+    const updatedPreferences = { ...currentPreferences, biometry };
+    if (!this.storageService.savePreferences(updatedPreferences)) {
+      this.updateAppState({ error: this.i18nService.translate('app.growthScanFailed') });
+      return;
+    }
+
+    this.updateAppState({ preferences: updatedPreferences });
+    this.announceToScreenReader(this.i18nService.translate('app.growthScansUpdated'));
+  }
+
+  /**
+   * Handles a change of prenatal care guideline for the appointment schedule
+   * @param guidelineProfile - Selected guideline profile
+   */
+  onGuidelineProfileChange(guidelineProfile: GuidelineProfile): void {
+    const currentPreferences = this.currentAppState.preferences;
+    if (!currentPreferences) {
+      return;
+    }
+
+    const updatedPreferences = { ...currentPreferences, guidelineProfile };
+    if (!this.storageService.savePreferences(updatedPreferences)) {
+      this.updateAppState({ error: this.i18nService.translate('app.guidelineFailed') });
+      return;
+    }
+
+    this.updateAppState({ preferences: updatedPreferences });
+    this.announceToScreenReader(this.i18nService.translate('app.scheduleUpdated'));
+  }
+
+  /**
+   * Handles changes to the maternity leave plan
+   * @param leave - New leave settings, or null to remove the plan
+   */
+  onLeaveChange(leave: LeaveSettings | null): void {
+    const currentPreferences = this.currentAppState.preferences;
+    if (!currentPreferences) {
+      return;
+    }
+
+    const updatedPreferences = { ...currentPreferences, leave: leave ?? undefined };
+    if (!this.storageService.savePreferences(updatedPreferences)) {
+      this.updateAppState({ error: this.i18nService.translate('app.leavePlanFailed') });
+      return;
+    }
+
+    this.updateAppState({ preferences: updatedPreferences });
+    this.announceToScreenReader(
+      this.i18nService.translate(leave ? 'app.leavePlanSaved' : 'app.leavePlanRemoved')
+    );
+  }
+
+  /**
+   * Handles recording, editing or removing the birth
+   * Recording a birth switches the app into postpartum tracking
+   * @param birth - Birth details, or null to remove the record
+   */
+  onBirthChange(birth: BirthRecord | null): void {
+    const currentPreferences = this.currentAppState.preferences;
+    if (!currentPreferences) {
+      return;
+    }
+
+    const updatedPreferences = { ...currentPreferences, birth: birth ?? undefined };
+    if (!this.storageService.savePreferences(updatedPreferences)) {
+      this.updateAppState({ error: this.i18nService.translate('app.birthFailed') });
+      return;
+    }
+
+    this.updateAppState({ preferences: updatedPreferences, showPregnancyArchive: false });
+    this.announceToScreenReader(
+      this.i18nService.translate(birth ? 'app.birthSaved' : 'app.birthRemoved')
+    );
+  }
+
+  /**
+   * Handles changes to the period log while trying to conceive
+   * @param periodLog - Updated period start dates
+   */
+  onPeriodLogChange(periodLog: string[]): void {
+    const currentPreferences = this.currentAppState.preferences;
+    if (!currentPreferences) {
+      return;
+    }
+
+    const updatedPreferences = { ...currentPreferences, periodLog };
+    if (!this.storageService.savePreferences(updatedPreferences)) {
+      this.updateAppState({ error: this.i18nService.translate('app.periodLogFailed') });
+      return;
+    }
+
+    this.updateAppState({ preferences: updatedPreferences });
+    this.announceToScreenReader(this.i18nService.translate('app.periodLogUpdated'));
+  }
+
+  /**
+   * Switches from cycle tracking to the pregnancy calendar
+   * The latest logged period and the average cycle length date the pregnancy
+   */
+  onPregnancyConfirmed(): void {
+    const currentPreferences = this.currentAppState.preferences;
+    if (!currentPreferences) {
+      return;
+    }
+
+    const updatedPreferences =
+      this.cycleTrackingService.createPregnancyPreferences(currentPreferences);
+    if (!this.storageService.savePreferences(updatedPreferences)) {
+      this.updateAppState({ error: this.i18nService.translate('app.pregnancyStartFailed') });
+      return;
+    }
+
+    this.updateAppState({ preferences: updatedPreferences, currentView: 'summary' });
+    this.announceToScreenReader(this.i18nService.translate('app.pregnancyStarted'));
+  }
+
+  /**
+   * Switches between the postpartum timeline and the pregnancy archive
+   * @param showArchive - Whether to show the pregnancy calendar
+   */
+  onPregnancyArchiveToggle(showArchive: boolean): void {
+    this.updateAppState({ showPregnancyArchive: showArchive });
+    this.announceToScreenReader(
+      this.i18nService.translate(showArchive ? 'app.showingArchive' : 'app.showingPostpartum')
+    );
+  }
+
+  /**
+   * Handles date format changes from the header
+   * @param dateFormat - New date format to show dates in
+   */
+  onDateFormatChange(dateFormat: DateFormat): void {
+    const currentPreferences = this.currentAppState.preferences;
+    if (!currentPreferences) {
+      return;
+    }
+
+    const updatedPreferences = { ...currentPreferences, dateFormat };
+    if (!this.storageService.savePreferences(updatedPreferences)) {
+      this.updateAppState({ error: this.i18nService.translate('app.dateFormatFailed') });
+      return;
+    }
+
+    this.dateFormatService.setDateFormat(dateFormat);
+    this.updateAppState({ preferences: updatedPreferences });
+    this.announceToScreenReader(
+      this.i18nService.translate('app.datesShownAs', {
+        date: this.dateFormatService.format(this.clockService.today()),
+      })
+    );
+  }
+
+  /**
+   * Handles display language changes from the header
+   * @param language - New language to show the app in
+   */
+  onLanguageChange(language: Language): void {
+    const currentPreferences = this.currentAppState.preferences;
+    if (!currentPreferences) {
+      return;
+    }
+
+    const updatedPreferences = { ...currentPreferences, language };
+    if (!this.storageService.savePreferences(updatedPreferences)) {
+      this.updateAppState({ error: this.i18nService.translate('app.languageFailed') });
+      return;
+    }
+
+    this.i18nService.setLanguage(language);
+    this.updateAppState({ preferences: updatedPreferences });
+    this.announceToScreenReader(
+      this.i18nService.translate('app.languageChanged', {
+        language: this.i18nService.getLanguageLabel(language),
+      })
+    );
+  }
+
+  /**
+   * Creates a profile from the header and switches to it
+   * @param name - Display name of the new profile
+   */
+  onProfileCreate(name: string): void {
+    if (!this.storageService.createProfile(name)) {
+      this.updateAppState({ error: this.i18nService.translate('app.profileFailed') });
+      return;
+    }
+
+    this.resetProfileView();
+    this.announceToScreenReader(this.i18nService.translate('app.profileCreated', { name }));
+  }
+
+  /**
+   * Switches to another profile from the header
+   * @param profileId - Identifier of the profile to switch to
+   */
+  onProfileSwitch(profileId: string): void {
+    if (!this.storageService.switchProfile(profileId)) {
+      this.updateAppState({ error: this.i18nService.translate('app.profileFailed') });
+      return;
+    }
+
+    this.resetProfileView();
+    this.announceToScreenReader(
+      this.i18nService.translate('app.profileSwitched', {
+        name: this.getProfileName(this.storageService.getActiveProfile()),
+      })
+    );
+  }
+
+  /**
+   * Renames the active profile
+   * @param name - New display name
+   */
+  onProfileRename(name: string): void {
+    const profile = this.currentAppState.activeProfile;
+    if (!profile) {
+      return;
+    }
+
+    if (!this.storageService.renameProfile(profile.id, name)) {
+      this.updateAppState({ error: this.i18nService.translate('app.profileFailed') });
+      return;
+    }
+
+    this.announceToScreenReader(this.i18nService.translate('app.profileRenamed', { name }));
+  }
+
+  /**
+   * Archives the active profile's completed pregnancy or brings it back
+   * @param archived - Whether the profile is archived
+   */
+  onProfileArchive(archived: boolean): void {
+    const profile = this.currentAppState.activeProfile;
+    if (!profile) {
+      return;
+    }
+
+    if (!this.storageService.setProfileArchived(profile.id, archived)) {
+      this.updateAppState({ error: this.i18nService.translate('app.profileFailed') });
+      return;
+    }
+
+    this.announceToScreenReader(
+      this.i18nService.translate(archived ? 'app.profileArchived' : 'app.profileRestored', {
+        name: this.getProfileName(profile),
+      })
+    );
+  }
+
+  /**
+   * Deletes the active profile after confirmation and switches to a remaining one
+   */
+  onProfileDelete(): void {
+    const profile = this.currentAppState.activeProfile;
+    if (!profile) {
+      return;
+    }
+
+    const name = this.getProfileName(profile);
+    if (!confirm(this.i18nService.translate('app.profileDeleteConfirm', { name }))) {
+      return;
+    }
+
+    if (!this.storageService.deleteProfile(profile.id)) {
+      this.updateAppState({ error: this.i18nService.translate('app.profileFailed') });
+      return;
+    }
+
+    // Preferences are gone; journals, logs and media are removed in the background
+    void this.dataStoreService.deleteProfileData(profile.id);
+
+    this.resetProfileView();
+    this.announceToScreenReader(this.i18nService.translate('app.profileDeleted', { name }));
+  }
+
+  /**
+   * Opens the passphrase form from the header, or switches the lock screen between
+   * the passphrase and the recovery key
+   * @param mode - Purpose of the form
+   */
+  onPassphraseFormOpen(mode: PassphraseFormMode): void {
+    this.updateAppState({ passphraseFormMode: mode, passphraseError: null });
+  }
+
+  /**
+   * Closes the passphrase form without changes
+   */
+  onPassphraseFormCancel(): void {
+    this.updateAppState({ passphraseFormMode: null, passphraseError: null });
+  }
+
+  /**
+   * Handles the passphrase form for its current purpose
+   * Unlocking loads the decrypted data; the other purposes return to the calendar
+   * @param value - Values entered in the form
+   */
+  async onPassphraseSubmit(value: PassphraseFormValue): Promise<void> {
+    const mode = this.currentAppState.passphraseFormMode;
+    if (!mode) {
+      return;
+    }
+
+    this.updateAppState({ isLoading: true, passphraseError: null });
+    const error = await this.applyPassphraseForm(mode, value);
+    if (error) {
+      this.updateAppState({
+        isEncrypted: this.encryptionService.isEnabled(),
+        isLoading: false,
+        passphraseError: this.i18nService.translate(error),
+      });
+      return;
+    }
+
+    this.updateAppState({
+      isEncrypted: this.encryptionService.isEnabled(),
+      isLocked: false,
+      passphraseFormMode: null,
+      isLoading: false,
+    });
+    if (mode === 'unlock' || mode === 'recover') {
+      this.storageService.reload();
+      this.initializeApplication();
+    }
+
+    const announcements: Record<PassphraseFormMode, MessageKey> = {
+      unlock: 'app.unlocked',
+      recover: 'app.unlocked',
+      enable: 'app.encryptionEnabled',
+      change: 'app.passphraseChanged',
+      disable: 'app.encryptionDisabled',
+    };
+    this.announceToScreenReader(this.i18nService.translate(announcements[mode]));
+  }
+
+  /**
+   * Downloads the recovery key file of the encrypted data
+   */
+  async onRecoveryKeyDownload(): Promise<void> {
+    try {
+      const recoveryKeyFile = await this.encryptionService.createRecoveryKeyFile();
+      downloadFile(recoveryKeyFile, 'pregnancy-calendar-recovery-key.json', 'application/json');
+    } catch (error) {
+      console.error('Failed to create the recovery key file:', error);
+      this.updateAppState({ error: this.i18nService.translate('app.recoveryKeyFailed') });
+      return;
+    }
+
+    this.announceToScreenReader(this.i18nService.translate('app.recoveryKeyDownloaded'));
+  }
+
+  /**
+   * Locks the encrypted data until the passphrase is entered again
+   */
+  onAppLock(): void {
+    this.encryptionService.lock();
+    this.storageService.reload();
+    this.resetProfileView();
+    this.updateAppState({
+      isLocked: true,
+      isInitialized: false,
+      passphraseFormMode: 'unlock',
+      passphraseError: null,
+    });
+    this.announceToScreenReader(this.i18nService.translate('app.locked'));
+  }
+
+  /**
+   * Downloads a backup file of the stored preferences, profiles and records
+   */
+  async onBackupDownload(): Promise<void> {
+    if (this.currentAppState.isLocked) {
+      this.updateAppState({ error: this.i18nService.translate('app.backupLocked') });
+      return;
+    }
+
+    try {
+      const backupFile = await this.backupService.createBackupFile();
+      const date = this.dateFormatService.formatForFilename(this.clockService.systemNow());
+      downloadFile(backupFile, `pregnancy-calendar-backup-${date}.json`, 'application/json');
+    } catch (error) {
+      console.error('Failed to create the backup file:', error);
+      this.updateAppState({ error: this.i18nService.translate('app.backupFailed') });
+      return;
+    }
+
+    this.announceToScreenReader(this.i18nService.translate('app.backupDownloaded'));
+  }
+
+  /**
+   * Checks a backup file and previews what restoring it changes
+   * @param fileText - Contents of the backup file
+   */
+  async onBackupRestore(fileText: string): Promise<void> {
+    // Locked data cannot be compared or replaced
+    if (this.currentAppState.isLocked) {
+      this.updateAppState({ error: this.i18nService.translate('app.backupLocked') });
+      return;
+    }
+
+    const { preview, error } = await this.backupService.readBackupFile(fileText);
+    if (!preview) {
+      const errors: Record<BackupError, MessageKey> = {
+        malformed: 'backup.malformed',
+        'newer-version': 'backup.newerVersion',
+        'checksum-mismatch': 'backup.checksumMismatch',
+        'invalid-data': 'backup.invalidData',
+      };
+      this.updateAppState({ error: this.i18nService.translate(errors[error]) });
+      return;
+    }
+
+    this.updateAppState({ backupPreview: preview, passphraseFormMode: null, error: null });
+  }
+
+  /**
+   * Restores the previewed backup, replacing the stored preferences, profiles and records
+   */
+  async onBackupRestoreConfirm(): Promise<void> {
+    const preview = this.currentAppState.backupPreview;
+    if (!preview) {
+      return;
+    }
+
+    if (!(await this.backupService.restoreBackup(preview))) {
+      this.updateAppState({
+        backupPreview: null,
+        error: this.i18nService.translate('app.backupRestoreFailed'),
+      });
+      return;
+    }
+
+    this.resetProfileView();
+    this.updateAppState({ backupPreview: null });
+    this.announceToScreenReader(this.i18nService.translate('app.backupRestored'));
+  }
+
+  /**
+   * Closes the backup preview without restoring
+   */
+  onBackupRestoreCancel(): void {
+    this.updateAppState({ backupPreview: null });
   }
 
   /**
    * Handles preferences reset request
    */
   onPreferencesReset(): void {
-    const confirmReset = confirm(
-      'Are you sure you want to reset all preferences? This will clear your pregnancy data and return to the setup screen.'
-    );
+    const confirmReset = confirm(this.i18nService.translate('app.resetConfirm'));
 
     if (confirmReset) {
       this.storageService.clearPreferences();
+      this.clockService.clearPreviewDate();
       this.updateAppState({
         preferences: null,
         isInitialized: false,
         currentView: 'summary',
+        showPregnancyArchive: false,
         error: null,
       });
-      this.announceToScreenReader('Preferences have been reset');
+      this.announceToScreenReader(this.i18nService.translate('app.resetDone'));
     }
   }
 
@@ -164,7 +734,9 @@ export class AppComponent implements OnInit, OnDestroy {
   onExportRequested(exportFormat: 'pdf' | 'excel'): void {
     // This will be handled by the floating navigation component
     // Just announce the action to screen readers
-    this.announceToScreenReader(`Exporting pregnancy calendar as ${exportFormat.toUpperCase()}`);
+    this.announceToScreenReader(
+      this.i18nService.translate('app.exporting', { format: exportFormat.toUpperCase() })
+    );
   }
 
   /**
@@ -172,6 +744,7 @@ export class AppComponent implements OnInit, OnDestroy {
    */
   onRetry(): void {
     this.updateAppState({ error: null, isLoading: true });
+    this.storageService.reload();
     this.initializeApplication();
   }
 
@@ -180,6 +753,23 @@ export class AppComponent implements OnInit, OnDestroy {
    * @private
    */
   private initializeApplication(): void {
+    // Encrypted data is not read until the passphrase is entered
+    if (this.encryptionService.isLocked()) {
+      this.updateAppState({ isLocked: true, passphraseFormMode: 'unlock', isLoading: false });
+      return;
+    }
+
+    // Saved data that could not be upgraded is kept as is and not loaded
+    if (this.storageService.hasMigrationFailed()) {
+      this.updateAppState({
+        error: this.i18nService.translate('app.storageMigrationFailed'),
+        isLoading: false,
+      });
+      return;
+    }
+
+    void this.dataStoreService.refreshQuota();
+
     this.storageService
       .getPreferences()
       .pipe(takeUntil(this.destroy$))
@@ -188,6 +778,8 @@ export class AppComponent implements OnInit, OnDestroy {
           if (preferences) {
             // User has existing preferences
             this.themeService.setTheme(preferences.themeColor);
+            this.dateFormatService.setDateFormat(preferences.dateFormat);
+            this.i18nService.setLanguage(preferences.language);
             this.updateAppState({
               preferences,
               isInitialized: true,
@@ -208,13 +800,90 @@ export class AppComponent implements OnInit, OnDestroy {
         error: error => {
           console.error('Failed to initialize application:', error);
           this.updateAppState({
-            error: 'Failed to load your preferences. Please refresh the page.',
+            error: this.i18nService.translate('app.loadPreferencesFailed'),
             isLoading: false,
           });
         },
       });
   }
 
+  /**
+   * Shows an error while changes to the encrypted data could not be saved
+   * The error is cleared once a later change is saved, which saves the missed ones too
+   * @private
+   */
+  private watchEncryptedSaves(): void {
+    this.encryptionService
+      .getSaveFailed()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(saveFailed => {
+        const message = this.i18nService.translate('app.encryptedSaveFailed');
+        if (saveFailed) {
+          this.updateAppState({ error: message });
+        } else if (this.currentAppState.error === message) {
+          this.updateAppState({ error: null });
+        }
+      });
+  }
+
+  /**
+   * Applies the passphrase form for its purpose
+   * Records in the data store are encrypted after turning encryption on, and decrypted
+   * before turning it off so none are left unreadable
+   * @param mode - Purpose of the form
+   * @param value - Values entered in the form
+   * @returns Promise resolving with the message key of the error, or null on success
+   * @private
+   */
+  private async applyPassphraseForm(
+    mode: PassphraseFormMode,
+    value: PassphraseFormValue
+  ): Promise<MessageKey | null> {
+    switch (mode) {
+      case 'unlock':
+        return (await this.encryptionService.unlock(value.passphrase))
+          ? null
+          : 'lock.wrongPassphrase';
+      case 'recover':
+        return (await this.encryptionService.recover(value.recoveryKey, value.newPassphrase))
+          ? null
+          : 'lock.invalidRecoveryKey';
+      case 'enable':
+        if (!(await this.encryptionService.enable(value.newPassphrase))) {
+          return 'lock.encryptionFailed';
+        }
+        if (await this.dataStoreService.rewriteRecords(true)) {
+          return null;
+        }
+        // Encryption is not reported as on while records are unencrypted, so it is turned back
+        // off once any records already encrypted are decrypted again
+        if (await this.dataStoreService.rewriteRecords(false)) {
+          await this.encryptionService.disable();
+        }
+        return 'lock.encryptionFailed';
+      case 'change':
+        return (await this.encryptionService.changePassphrase(
+          value.passphrase,
+          value.newPassphrase
+        ))
+          ? null
+          : 'lock.wrongPassphrase';
+      case 'disable':
+        if (!(await this.encryptionService.verifyPassphrase(value.passphrase))) {
+          return 'lock.wrongPassphrase';
+        }
+        if (
+          (await this.dataStoreService.rewriteRecords(false)) &&
+          (await this.encryptionService.disable())
+        ) {
+          return null;
+        }
+        // Encryption stays on, so any records already decrypted are encrypted again
+        await this.dataStoreService.rewriteRecords(true);
+        return 'lock.encryptionFailed';
+    }
+  }
+
   /**
    * Creates the main application state observable
    * @private
@@ -223,13 +892,22 @@ export class AppComponent implements OnInit, OnDestroy {
     return combineLatest([
       this.storageService.getPreferences(),
       this.appStateSubject.asObservable().pipe(startWith(null)),
+      this.clockService.getPreviewDate(),
+      this.clockService.getToday(),
+      this.storageService.getProfileRegistry(),
     ]).pipe(
-      map(([preferences, stateUpdates]) => {
+      map(([preferences, stateUpdates, previewDate, today, registry]) => {
         this.currentAppState = {
           ...this.currentAppState,
           preferences,
           ...stateUpdates,
+          previewDate,
+          today,
+          profiles: registry.profiles,
+          activeProfile:
+            registry.profiles.find(profile => profile.id === registry.activeProfileId) ?? null,
         };
+        this.currentAppState.mode = this.getAppMode(this.currentAppState.preferences);
         return this.currentAppState;
       }),
       takeUntil(this.destroy$)
@@ -248,8 +926,11 @@ export class AppComponent implements OnInit, OnDestroy {
         }
 
         try {
-          const lmpDate = parseLocalDate(state.preferences.lmpDate);
-          return this.pregnancyCalculatorService.generatePregnancyCalendar(lmpDate);
+          const lmpDate = this.pregnancyCalculatorService.getGestationalLmp(state.preferences);
+          return this.pregnancyCalculatorService.generatePregnancyCalendar(
+            lmpDate,
+            state.preferences
+          );
         } catch (error) {
           console.error('Failed to generate pregnancy calendar:', error);
           return null;
@@ -270,8 +951,11 @@ export class AppComponent implements OnInit, OnDestroy {
         }
 
         try {
-          const lmpDate = parseLocalDate(state.preferences.lmpDate);
-          return this.pregnancyCalculatorService.generatePregnancySummary(lmpDate);
+          const lmpDate = this.pregnancyCalculatorService.getGestationalLmp(state.preferences);
+          return this.pregnancyCalculatorService.generatePregnancySummary(
+            lmpDate,
+            state.preferences
+          );
         } catch (error) {
           console.error('Failed to generate pregnancy summary:', error);
           return null;
@@ -280,6 +964,104 @@ export class AppComponent implements OnInit, OnDestroy {
     );
   }
 
+  /**
+   * Creates the postpartum timeline observable
+   * @private
+   */
+  private createPostpartumDaysObservable(): Observable<PostpartumDay[] | null> {
+    return this.appState$.pipe(
+      map(state => {
+        const birth = state.preferences?.birth;
+        return birth ? this.postpartumService.generatePostpartumTimeline(birth) : null;
+      })
+    );
+  }
+
+  /**
+   * Creates the postpartum summary observable
+   * @private
+   */
+  private createPostpartumSummaryObservable(): Observable<PostpartumSummary | null> {
+    return this.appState$.pipe(
+      map(state => {
+        const preferences = state.preferences;
+        if (!preferences?.birth) {
+          return null;
+        }
+
+        try {
+          const lmpDate = this.pregnancyCalculatorService.getGestationalLmp(preferences);
+          return this.postpartumService.generatePostpartumSummary(preferences.birth, lmpDate);
+        } catch (error) {
+          console.error('Failed to generate postpartum summary:', error);
+          return null;
+        }
+      })
+    );
+  }
+
+  /**
+   * Creates the cycle tracking summary observable
+   * @returns Observable of cycle predictions, or null outside preconception tracking
+   * @private
+   */
+  private createCycleSummaryObservable(): Observable<CycleSummary | null> {
+    return this.appState$.pipe(
+      map(state => {
+        if (state.mode !== 'preconception' || !state.preferences) {
+          return null;
+        }
+
+        try {
+          return this.cycleTrackingService.generateCycleSummary(state.preferences);
+        } catch (error) {
+          console.error('Failed to generate cycle summary:', error);
+          return null;
+        }
+      })
+    );
+  }
+
+  /**
+   * Works out what the app is tracking from the stored preferences
+   * @param preferences - User preferences
+   * @returns Postpartum once a birth is recorded, preconception while no pregnancy is dated
+   * @private
+   */
+  private getAppMode(preferences: UserPreferences | null): AppMode {
+    if (preferences?.birth) {
+      return 'postpartum';
+    }
+    if (preferences && !preferences.lmpDate && preferences.periodLog) {
+      return 'preconception';
+    }
+    return 'pregnancy';
+  }
+
+  /**
+   * Creates the newborn summary observable
+   * @returns Observable of newborn age and well-baby timeline, or null before the birth
+   * @private
+   */
+  private createNewbornSummaryObservable(): Observable<NewbornSummary | null> {
+    return this.appState$.pipe(
+      map(state => {
+        const preferences = state.preferences;
+        if (!preferences?.birth) {
+          return null;
+        }
+
+        try {
+          const lmpDate = this.pregnancyCalculatorService.getGestationalLmp(preferences);
+          return this.newbornService.generateNewbornSummary(preferences.birth, lmpDate);
+        } catch (error) {
+          console.error('Failed to generate newborn summary:', error);
+          return null;
+        }
+      })
+    );
+  }
+
   /**
    * Updates the application state
    * @param updates - Partial state updates to apply
@@ -289,6 +1071,26 @@ export class AppComponent implements OnInit, OnDestroy {
     this.appStateSubject.next(updates);
   }
 
+  /**
+   * Resets the view state that belongs to the previous profile
+   * The preview date and pregnancy archive toggle do not carry over to another profile
+   * @private
+   */
+  private resetProfileView(): void {
+    this.clockService.clearPreviewDate();
+    this.updateAppState({ showPregnancyArchive: false, error: null });
+  }
+
+  /**
+   * Gets the display name of a profile
+   * @param profile - Profile to name
+   * @returns Profile name, or the default name for an unnamed profile
+   * @private
+   */
+  private getProfileName(profile: Profile | null): string {
+    return profile?.name || this.i18nService.translate('profile.unnamed');
+  }
+
   /**
    * Announces messages to screen readers
    * @param message - Message to announce
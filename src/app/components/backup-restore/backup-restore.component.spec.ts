@@ -0,0 +1,62 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { BackupRestoreComponent } from './backup-restore.component';
+import { BackupPreview } from '../../models/pregnancy.models';
+
+describe('BackupRestoreComponent', () => {
+  let component: BackupRestoreComponent;
+  let fixture: ComponentFixture<BackupRestoreComponent>;
+  const preview: BackupPreview = {
+    createdAt: '2025-03-01T10:00:00.000Z',
+    current: {
+      profileCount: 1,
+      lmpDate: '2025-02-01',
+      themeColor: 'boy',
+      logEntryCount: 0,
+      recordCounts: { journal: 3, healthLog: 0, media: 1 },
+    },
+    backup: {
+      profileCount: 1,
+      lmpDate: '2025-01-01',
+      themeColor: 'boy',
+      logEntryCount: 2,
+      recordCounts: { journal: 2, healthLog: 0, media: 1 },
+    },
+    data: {},
+    records: { journal: [], healthLog: [], media: [] },
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [BackupRestoreComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(BackupRestoreComponent);
+    component = fixture.componentInstance;
+    component.preview = preview;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should mark the values restoring changes', () => {
+    expect(component.getRows().map(row => [row.label, row.isChanged])).toEqual([
+      ['backup.lmpDate', true],
+      ['backup.theme', false],
+      ['backup.logEntries', true],
+      ['backup.journalEntries', true],
+      ['backup.healthLogEntries', false],
+      ['backup.mediaItems', false],
+      ['backup.profiles', false],
+    ]);
+    expect(component.getRows()[0].backup).toBe('01/01/2025');
+  });
+
+  it('should show every value as changed when nothing is stored yet', () => {
+    component.preview = { ...preview, current: null };
+
+    expect(component.getRows().every(row => row.isChanged && row.current === 'Not set')).toBeTrue();
+  });
+});
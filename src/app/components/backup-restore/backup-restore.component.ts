@@ -0,0 +1,107 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { BackupPreview, BackupSummary } from '../../models/pregnancy.models';
+import { MessageKey } from '../../i18n/messages.en';
+import { DateFormatService } from '../../services/date-format/date-format.service';
+import { I18nService } from '../../services/i18n/i18n.service';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
+import { parseLocalDate } from '../../utilities/parse-date';
+
+/** One compared value of the restore preview */
+interface BackupPreviewRow {
+  label: MessageKey;
+  current: string;
+  backup: string;
+  isChanged: boolean;
+}
+
+/**
+ * Backup restore component
+ * Shows what restoring a checked backup file changes and asks to confirm it
+ */
+@Component({
+  selector: 'app-backup-restore',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './backup-restore.component.html',
+  styleUrls: ['./backup-restore.component.scss'],
+})
+export class BackupRestoreComponent {
+  @Input() preview: BackupPreview | null = null;
+  @Output() restoreConfirm = new EventEmitter<void>();
+  @Output() restoreCancel = new EventEmitter<void>();
+
+  constructor(
+    private dateFormatService: DateFormatService,
+    private i18nService: I18nService
+  ) {}
+
+  /**
+   * Gets the creation date of the backup
+   * @returns Date in the user's date format
+   */
+  getBackupDate(): string {
+    return this.preview ? this.dateFormatService.format(new Date(this.preview.createdAt)) : '';
+  }
+
+  /**
+   * Compares the stored data now with the data after restoring
+   * @returns Compared values, in display order
+   */
+  getRows(): BackupPreviewRow[] {
+    if (!this.preview) {
+      return [];
+    }
+
+    const { current, backup } = this.preview;
+    const row = (
+      label: MessageKey,
+      describe: (summary: BackupSummary) => string
+    ): BackupPreviewRow => {
+      const currentValue = current ? describe(current) : this.i18nService.translate('backup.none');
+      const backupValue = describe(backup);
+      return {
+        label,
+        current: currentValue,
+        backup: backupValue,
+        isChanged: currentValue !== backupValue,
+      };
+    };
+
+    return [
+      row('backup.lmpDate', summary => this.formatLmpDate(summary.lmpDate)),
+      row('backup.theme', summary => this.i18nService.translate(`theme.${summary.themeColor}`)),
+      row('backup.logEntries', summary => String(summary.logEntryCount)),
+      row('backup.journalEntries', summary => String(summary.recordCounts.journal)),
+      row('backup.healthLogEntries', summary => String(summary.recordCounts.healthLog)),
+      row('backup.mediaItems', summary => String(summary.recordCounts.media)),
+      row('backup.profiles', summary => String(summary.profileCount)),
+    ];
+  }
+
+  /**
+   * Confirms the restore
+   */
+  confirm(): void {
+    this.restoreConfirm.emit();
+  }
+
+  /**
+   * Closes the preview without restoring
+   */
+  cancel(): void {
+    this.restoreCancel.emit();
+  }
+
+  /**
+   * Formats a last menstrual period date
+   * @param lmpDate - Date (YYYY-MM-DD), empty when not set
+   * @returns Date in the user's date format, or a placeholder when not set
+   * @private
+   */
+  private formatLmpDate(lmpDate: string): string {
+    return lmpDate
+      ? this.dateFormatService.format(parseLocalDate(lmpDate))
+      : this.i18nService.translate('backup.none');
+  }
+}
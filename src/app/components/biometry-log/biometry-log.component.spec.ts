@@ -0,0 +1,68 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { BiometryLogComponent } from './biometry-log.component';
+
+describe('BiometryLogComponent', () => {
+  let component: BiometryLogComponent;
+  let fixture: ComponentFixture<BiometryLogComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [BiometryLogComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(BiometryLogComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should emit the log with the new scan on submit', () => {
+    const emitSpy = spyOn(component.biometryChange, 'emit');
+
+    component.startAdding();
+    component.biometryForm.patchValue({
+      scanDate: '2025-01-10',
+      hcMm: 180,
+      acMm: 160,
+      flMm: 33,
+    });
+    component.onSubmit();
+
+    expect(emitSpy).toHaveBeenCalledWith([
+      jasmine.objectContaining({ scanDate: '2025-01-10', hcMm: 180, acMm: 160, flMm: 33 }),
+    ]);
+  });
+
+  it('should not emit without abdominal circumference and femur length', () => {
+    const emitSpy = spyOn(component.biometryChange, 'emit');
+
+    component.startAdding();
+    component.biometryForm.patchValue({ scanDate: '2025-01-10', hcMm: 180 });
+    component.onSubmit();
+
+    expect(emitSpy).not.toHaveBeenCalled();
+  });
+
+  it('should ask which baby a scan belongs to for twins', () => {
+    component.preferences = {
+      lmpDate: '2025-01-01',
+      plurality: 'twins',
+      themeColor: 'neutral',
+      viewMode: 'summary',
+    };
+
+    expect(component.isMultiple()).toBe(true);
+    expect(component.getBabyLabels()).toEqual(['Baby A', 'Baby B']);
+  });
+
+  it('should format percentiles as ordinals', () => {
+    expect(component.formatPercentile(1)).toBe('1st');
+    expect(component.formatPercentile(12)).toBe('12th');
+    expect(component.formatPercentile(43)).toBe('43rd');
+    expect(component.formatPercentile(undefined)).toBe('—');
+  });
+});
@@ -0,0 +1,238 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  AbstractControl,
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  ValidationErrors,
+  ValidatorFn,
+  Validators,
+} from '@angular/forms';
+import { BiometryEntry, BiometryResult, UserPreferences } from '../../models/pregnancy.models';
+import { PregnancyCalculatorService } from '../../services/pregnancy-calculator/pregnancy-calculator.service';
+import { ClockService } from '../../services/clock/clock.service';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { I18nService } from '../../services/i18n/i18n.service';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
+
+/**
+ * Biometry log component
+ * Collects growth scan measurements (BPD, HC, AC, FL) and shows their
+ * percentiles and the estimated fetal weight
+ */
+@Component({
+  selector: 'app-biometry-log',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, TranslatePipe],
+  templateUrl: './biometry-log.component.html',
+  styleUrls: ['./biometry-log.component.scss'],
+})
+export class BiometryLogComponent {
+  @Input() preferences: UserPreferences | null = null;
+  @Input() results: BiometryResult[] = [];
+  @Output() biometryChange = new EventEmitter<BiometryEntry[]>();
+
+  /** Accepted measurement ranges in millimeters */
+  readonly measurementRanges = {
+    bpdMm: { min: 10, max: 110 },
+    hcMm: { min: 50, max: 400 },
+    acMm: { min: 50, max: 450 },
+    flMm: { min: 5, max: 90 },
+  };
+
+  biometryForm: FormGroup;
+  isAdding = false;
+  submitError: string | null = null;
+  maxScanDate: string = '';
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private pregnancyCalculatorService: PregnancyCalculatorService,
+    private clockService: ClockService,
+    private i18nService: I18nService
+  ) {
+    this.maxScanDate = this.clockService.calendarToday().toString();
+    this.biometryForm = this.createForm();
+  }
+
+  /**
+   * Checks whether the pregnancy has more than one baby
+   * @returns Boolean indicating if a baby must be chosen for each scan
+   */
+  isMultiple(): boolean {
+    return this.getBabyLabels().length > 1;
+  }
+
+  /**
+   * Gets the labels of the babies in the pregnancy
+   * @returns Baby labels (e.g. "Baby A", "Baby B")
+   */
+  getBabyLabels(): string[] {
+    return this.pregnancyCalculatorService.getBabyLabels(this.preferences?.plurality);
+  }
+
+  /**
+   * Gets the name of a baby in the display language
+   * @param label - Stored baby label (e.g. "Baby A")
+   * @returns Translated baby label
+   */
+  getBabyDisplayLabel(label: string): string {
+    return this.pregnancyCalculatorService.getBabyDisplayLabel(label);
+  }
+
+  /**
+   * Opens an empty scan form
+   */
+  startAdding(): void {
+    this.biometryForm.reset({ babyLabel: this.isMultiple() ? this.getBabyLabels()[0] : null });
+    this.submitError = null;
+    this.isAdding = true;
+  }
+
+  /**
+   * Closes the form without saving
+   */
+  cancelAdding(): void {
+    this.submitError = null;
+    this.isAdding = false;
+  }
+
+  /**
+   * Removes a scan from the log
+   * @param id - Identifier of the entry to remove
+   */
+  removeEntry(id: string): void {
+    const entries = this.preferences?.biometry ?? [];
+    this.biometryChange.emit(entries.filter(entry => entry.id !== id));
+  }
+
+  /**
+   * Formats a percentile as an ordinal in the display language (e.g. "45th")
+   * @param percentile - Percentile value
+   * @returns Ordinal percentile, or a dash when unavailable
+   */
+  formatPercentile(percentile?: number): string {
+    if (percentile === undefined) {
+      return '—';
+    }
+
+    return this.i18nService.translate('biometry.percentile', { count: percentile });
+  }
+
+  /**
+   * Checks if a form field is invalid and has been touched
+   * @param fieldName - Name of the form field
+   * @returns Boolean indicating if field should show error state
+   */
+  isFieldInvalid(fieldName: string): boolean {
+    const field = this.biometryForm.get(fieldName);
+    return !!(field && field.invalid && (field.dirty || field.touched));
+  }
+
+  /**
+   * Handles form submission
+   */
+  onSubmit(): void {
+    if (this.biometryForm.invalid) {
+      this.biometryForm.markAllAsTouched();
+      return;
+    }
+
+    const formValue = this.biometryForm.value;
+    const entry: BiometryEntry = {
+      id: crypto.randomUUID(),
+      scanDate: formValue.scanDate,
+      acMm: Number(formValue.acMm),
+      flMm: Number(formValue.flMm),
+    };
+    if (this.isMultiple()) {
+      entry.babyLabel = formValue.babyLabel;
+    }
+    if (this.hasValue(formValue.bpdMm)) {
+      entry.bpdMm = Number(formValue.bpdMm);
+    }
+    if (this.hasValue(formValue.hcMm)) {
+      entry.hcMm = Number(formValue.hcMm);
+    }
+
+    // Check the scan against the current dating before saving it
+    if (this.preferences) {
+      try {
+        this.pregnancyCalculatorService.assessBiometry(
+          this.pregnancyCalculatorService.getGestationalLmp(this.preferences),
+          entry
+        );
+      } catch (error) {
+        this.submitError =
+          error instanceof Error
+            ? error.message
+            : this.i18nService.translate('validation.invalidScan');
+        return;
+      }
+    }
+
+    this.submitError = null;
+    this.isAdding = false;
+    this.biometryChange.emit([...(this.preferences?.biometry ?? []), entry]);
+  }
+
+  /**
+   * Track by function for biometry results
+   * @param index - Array index
+   * @param result - BiometryResult object
+   * @returns Unique identifier
+   */
+  trackByEntryId(index: number, result: BiometryResult): string {
+    return result.entry.id;
+  }
+
+  /**
+   * Creates the reactive form with validation
+   * @returns FormGroup instance
+   * @private
+   */
+  private createForm(): FormGroup {
+    const rangeValidators = (range: { min: number; max: number }): ValidatorFn[] => [
+      Validators.min(range.min),
+      Validators.max(range.max),
+    ];
+
+    return this.formBuilder.group({
+      scanDate: ['', [Validators.required, this.scanDateValidator.bind(this)]],
+      babyLabel: [null],
+      bpdMm: [null, rangeValidators(this.measurementRanges.bpdMm)],
+      hcMm: [null, rangeValidators(this.measurementRanges.hcMm)],
+      acMm: [null, [Validators.required, ...rangeValidators(this.measurementRanges.acMm)]],
+      flMm: [null, [Validators.required, ...rangeValidators(this.measurementRanges.flMm)]],
+    });
+  }
+
+  /**
+   * Checks whether an optional numeric form value was entered
+   * @param value - Form value
+   * @returns Boolean indicating if a value is present
+   * @private
+   */
+  private hasValue(value: unknown): boolean {
+    return value !== null && value !== undefined && value !== '';
+  }
+
+  /**
+   * Custom validator rejecting scan dates in the future
+   * @param control - Form control to validate
+   * @returns Validation error object (with the message key to show) or null
+   * @private
+   */
+  private scanDateValidator(control: AbstractControl): ValidationErrors | null {
+    if (!control.value) {
+      return null; // Let required validator handle empty values
+    }
+
+    if (CalendarDate.parse(control.value).isAfter(this.clockService.calendarToday())) {
+      return { futureDate: { messageKey: 'validation.futureScanDate' } };
+    }
+
+    return null;
+  }
+}
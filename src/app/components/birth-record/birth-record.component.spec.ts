@@ -0,0 +1,53 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { BirthRecordComponent } from './birth-record.component';
+
+describe('BirthRecordComponent', () => {
+  let component: BirthRecordComponent;
+  let fixture: ComponentFixture<BirthRecordComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [BirthRecordComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(BirthRecordComponent);
+    component = fixture.componentInstance;
+    component.preferences = { lmpDate: '2025-03-01', themeColor: 'neutral', viewMode: 'summary' };
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should emit the birth details on submit', () => {
+    const emitSpy = spyOn(component.birthChange, 'emit');
+
+    component.startEditing();
+    component.birthForm.patchValue({
+      deliveryDate: '2025-12-01',
+      birthType: 'caesarean',
+      birthWeight: 3400,
+      birthLength: '',
+    });
+    component.onSubmit();
+
+    expect(emitSpy).toHaveBeenCalledWith({
+      deliveryDate: '2025-12-01',
+      birthType: 'caesarean',
+      birthWeightGrams: 3400,
+    });
+  });
+
+  it('should reject a delivery date before the pregnancy started', () => {
+    const emitSpy = spyOn(component.birthChange, 'emit');
+
+    component.startEditing();
+    component.birthForm.patchValue({ deliveryDate: '2025-02-01' });
+    component.onSubmit();
+
+    expect(emitSpy).not.toHaveBeenCalled();
+    expect(component.birthForm.get('deliveryDate')?.errors?.['beforePregnancy']).toBeTruthy();
+  });
+});
@@ -0,0 +1,194 @@
+import { Component, Input, Output, EventEmitter, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  AbstractControl,
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  ValidationErrors,
+  Validators,
+} from '@angular/forms';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { BirthRecord, BirthType, UserPreferences } from '../../models/pregnancy.models';
+import { PostpartumService } from '../../services/postpartum/postpartum.service';
+import { PregnancyCalculatorService } from '../../services/pregnancy-calculator/pregnancy-calculator.service';
+import { ClockService } from '../../services/clock/clock.service';
+import { I18nService } from '../../services/i18n/i18n.service';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
+
+/**
+ * Birth record component
+ * Records the delivery, which switches the app into postpartum tracking
+ */
+@Component({
+  selector: 'app-birth-record',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, TranslatePipe],
+  templateUrl: './birth-record.component.html',
+  styleUrls: ['./birth-record.component.scss'],
+})
+export class BirthRecordComponent implements OnDestroy {
+  @Input() preferences: UserPreferences | null = null;
+  @Output() birthChange = new EventEmitter<BirthRecord | null>();
+
+  /** Subject for component cleanup */
+  private destroy$ = new Subject<void>();
+
+  birthForm: FormGroup;
+  isEditing = false;
+  maxDeliveryDate: string = '';
+  birthWeightRange = { min: 200, max: 7000 };
+  birthLengthRange = { min: 20, max: 65 };
+  availableBirthTypes: Array<{ value: BirthType; label: string }> = [];
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private postpartumService: PostpartumService,
+    private pregnancyCalculatorService: PregnancyCalculatorService,
+    private clockService: ClockService,
+    private i18nService: I18nService
+  ) {
+    this.maxDeliveryDate = this.clockService.calendarToday().toString();
+    this.birthForm = this.createForm();
+
+    // Option labels are translated, so rebuild them whenever the language changes
+    this.i18nService
+      .getLanguage()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.availableBirthTypes = this.postpartumService.getAvailableBirthTypes();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Checks whether a birth has been recorded
+   * @returns Boolean indicating if birth details are stored
+   */
+  hasBirth(): boolean {
+    return !!this.preferences?.birth;
+  }
+
+  /**
+   * Opens the form, pre-filled with the stored birth when there is one
+   */
+  startEditing(): void {
+    const birth = this.preferences?.birth;
+
+    this.birthForm.reset({
+      deliveryDate: birth?.deliveryDate ?? this.maxDeliveryDate,
+      birthType: birth?.birthType ?? 'vaginal',
+      birthWeight: birth?.birthWeightGrams ?? null,
+      birthLength: birth?.birthLengthCm ?? null,
+    });
+    this.isEditing = true;
+  }
+
+  /**
+   * Closes the form without saving
+   */
+  cancelEditing(): void {
+    this.isEditing = false;
+  }
+
+  /**
+   * Removes the birth record after confirmation, returning to pregnancy tracking
+   */
+  removeBirth(): void {
+    if (!confirm(this.i18nService.translate('birth.removeConfirm'))) {
+      return;
+    }
+
+    this.isEditing = false;
+    this.birthChange.emit(null);
+  }
+
+  /**
+   * Checks if a form field is invalid and has been touched
+   * @param fieldName - Name of the form field
+   * @returns Boolean indicating if field should show error state
+   */
+  isFieldInvalid(fieldName: string): boolean {
+    const field = this.birthForm.get(fieldName);
+    return !!(field && field.invalid && (field.dirty || field.touched));
+  }
+
+  /**
+   * Handles form submission
+   */
+  onSubmit(): void {
+    if (this.birthForm.invalid) {
+      this.birthForm.markAllAsTouched();
+      return;
+    }
+
+    const formValue = this.birthForm.value;
+    const birth: BirthRecord = {
+      deliveryDate: formValue.deliveryDate,
+      birthType: formValue.birthType,
+    };
+    if (formValue.birthWeight !== null && formValue.birthWeight !== '') {
+      birth.birthWeightGrams = Number(formValue.birthWeight);
+    }
+    if (formValue.birthLength !== null && formValue.birthLength !== '') {
+      birth.birthLengthCm = Number(formValue.birthLength);
+    }
+
+    this.isEditing = false;
+    this.birthChange.emit(birth);
+  }
+
+  /**
+   * Creates the reactive form with validation
+   * @returns FormGroup instance
+   * @private
+   */
+  private createForm(): FormGroup {
+    return this.formBuilder.group({
+      deliveryDate: ['', [Validators.required, this.deliveryDateValidator.bind(this)]],
+      birthType: ['vaginal' as BirthType, Validators.required],
+      birthWeight: [
+        null,
+        [Validators.min(this.birthWeightRange.min), Validators.max(this.birthWeightRange.max)],
+      ],
+      birthLength: [
+        null,
+        [Validators.min(this.birthLengthRange.min), Validators.max(this.birthLengthRange.max)],
+      ],
+    });
+  }
+
+  /**
+   * Custom validator keeping the delivery date between the start of the pregnancy and today
+   * @param control - Form control to validate
+   * @returns Validation error object (with the message key to show) or null
+   * @private
+   */
+  private deliveryDateValidator(control: AbstractControl): ValidationErrors | null {
+    if (!control.value) {
+      return null; // Let required validator handle empty values
+    }
+
+    const deliveryDate = CalendarDate.parse(control.value);
+    if (deliveryDate.isAfter(this.clockService.calendarToday())) {
+      return { futureDate: { messageKey: 'validation.futureDeliveryDate' } };
+    }
+
+    if (this.preferences) {
+      const lmpDate = CalendarDate.fromDate(
+        this.pregnancyCalculatorService.getGestationalLmp(this.preferences)
+      );
+      if (!deliveryDate.isAfter(lmpDate)) {
+        return { beforePregnancy: { messageKey: 'validation.deliveryBeforePregnancy' } };
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,66 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { CycleTrackerComponent } from './cycle-tracker.component';
+import { ClockService } from '../../services/clock/clock.service';
+import { UserPreferences } from '../../models/pregnancy.models';
+
+describe('CycleTrackerComponent', () => {
+  let component: CycleTrackerComponent;
+  let fixture: ComponentFixture<CycleTrackerComponent>;
+  const preferences: UserPreferences = {
+    lmpDate: '',
+    periodLog: ['2025-01-03', '2025-01-31'],
+    themeColor: 'neutral',
+    viewMode: 'summary',
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [CycleTrackerComponent],
+    }).compileComponents();
+
+    TestBed.inject(ClockService).setPreviewDate(new Date(2025, 2, 16));
+
+    fixture = TestBed.createComponent(CycleTrackerComponent);
+    component = fixture.componentInstance;
+    component.preferences = preferences;
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    TestBed.inject(ClockService).clearPreviewDate();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should add a logged period in date order', () => {
+    const emitted: string[][] = [];
+    component.periodLogChange.subscribe(periodLog => emitted.push(periodLog));
+
+    component.periodForm.setValue({ startDate: '2025-03-02' });
+    component.onSubmit();
+
+    expect(emitted).toEqual([['2025-01-03', '2025-01-31', '2025-03-02']]);
+  });
+
+  it('should reject future and already logged dates', () => {
+    component.periodForm.setValue({ startDate: '2025-01-31' });
+    expect(component.periodForm.get('startDate')?.errors?.['duplicate']).toBeTruthy();
+
+    component.periodForm.setValue({ startDate: '2025-04-01' });
+    expect(component.periodForm.get('startDate')?.errors?.['futureDate']).toBeTruthy();
+  });
+
+  it('should keep at least one logged period', () => {
+    const emitted: string[][] = [];
+    component.periodLogChange.subscribe(periodLog => emitted.push(periodLog));
+    component.preferences = { ...preferences, periodLog: ['2025-01-31'] };
+
+    component.removePeriod('2025-01-31');
+
+    expect(component.canRemovePeriod()).toBeFalse();
+    expect(emitted).toEqual([]);
+  });
+});
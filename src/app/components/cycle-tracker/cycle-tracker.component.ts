@@ -0,0 +1,145 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  AbstractControl,
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  ValidationErrors,
+  Validators,
+} from '@angular/forms';
+import {
+  CycleSummary,
+  LoggedPeriod,
+  PredictedCycle,
+  UserPreferences,
+} from '../../models/pregnancy.models';
+import { ClockService } from '../../services/clock/clock.service';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
+
+/**
+ * Cycle tracker component
+ * Shown before conception: logs period start dates, shows the predicted period,
+ * ovulation and fertile window, and hands over to the pregnancy calendar
+ */
+@Component({
+  selector: 'app-cycle-tracker',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, TranslatePipe],
+  templateUrl: './cycle-tracker.component.html',
+  styleUrls: ['./cycle-tracker.component.scss'],
+})
+export class CycleTrackerComponent {
+  @Input() summary: CycleSummary | null = null;
+  @Input() preferences: UserPreferences | null = null;
+  @Output() periodLogChange = new EventEmitter<string[]>();
+  @Output() pregnancyConfirmed = new EventEmitter<void>();
+
+  periodForm: FormGroup;
+  maxPeriodDate: string = '';
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private clockService: ClockService
+  ) {
+    this.maxPeriodDate = this.clockService.calendarToday().toString();
+    this.periodForm = this.formBuilder.group({
+      startDate: ['', [Validators.required, this.startDateValidator.bind(this)]],
+    });
+  }
+
+  /**
+   * Checks whether a logged period can be removed
+   * @returns Boolean indicating if more than one period is logged
+   */
+  canRemovePeriod(): boolean {
+    return (this.preferences?.periodLog?.length ?? 0) > 1;
+  }
+
+  /**
+   * Removes a period from the log
+   * @param startDate - First day of the period to remove (YYYY-MM-DD)
+   */
+  removePeriod(startDate: string): void {
+    if (!this.canRemovePeriod()) {
+      return;
+    }
+
+    const periodLog = this.preferences?.periodLog ?? [];
+    this.periodLogChange.emit(periodLog.filter(date => date !== startDate));
+  }
+
+  /**
+   * Checks if a form field is invalid and has been touched
+   * @param fieldName - Name of the form field
+   * @returns Boolean indicating if field should show error state
+   */
+  isFieldInvalid(fieldName: string): boolean {
+    const field = this.periodForm.get(fieldName);
+    return !!(field && field.invalid && (field.dirty || field.touched));
+  }
+
+  /**
+   * Handles period form submission
+   */
+  onSubmit(): void {
+    if (this.periodForm.invalid) {
+      this.periodForm.markAllAsTouched();
+      return;
+    }
+
+    const startDate: string = this.periodForm.value.startDate;
+    this.periodForm.reset({ startDate: '' });
+    this.periodLogChange.emit([...(this.preferences?.periodLog ?? []), startDate].sort());
+  }
+
+  /**
+   * Starts the pregnancy calendar from the logged cycles
+   */
+  onPregnant(): void {
+    this.pregnancyConfirmed.emit();
+  }
+
+  /**
+   * Track by function for the logged periods list
+   * @param index - Array index
+   * @param period - Logged period
+   * @returns Unique identifier
+   */
+  trackByPeriod(index: number, period: LoggedPeriod): string {
+    return period.startDate;
+  }
+
+  /**
+   * Track by function for the predicted cycles table
+   * @param index - Array index
+   * @param cycle - Predicted cycle
+   * @returns Unique identifier
+   */
+  trackByCycle(index: number, cycle: PredictedCycle): string {
+    return cycle.formattedPeriodStart;
+  }
+
+  /**
+   * Custom validator rejecting future and already logged period dates
+   * @param control - Form control to validate
+   * @returns Validation error object (with the message key to show) or null
+   * @private
+   */
+  private startDateValidator(control: AbstractControl): ValidationErrors | null {
+    if (!control.value) {
+      return null; // Let required validator handle empty values
+    }
+
+    if (CalendarDate.parse(control.value).isAfter(this.clockService.calendarToday())) {
+      return { futureDate: { messageKey: 'validation.futureDate' } };
+    }
+
+    if (this.preferences?.periodLog?.includes(control.value)) {
+      return { duplicate: { messageKey: 'validation.periodAlreadyLogged' } };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,61 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { DatePreviewComponent } from './date-preview.component';
+import { ClockService } from '../../services/clock/clock.service';
+
+describe('DatePreviewComponent', () => {
+  let component: DatePreviewComponent;
+  let fixture: ComponentFixture<DatePreviewComponent>;
+  let clockService: ClockService;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DatePreviewComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(DatePreviewComponent);
+    component = fixture.componentInstance;
+    clockService = TestBed.inject(ClockService);
+    component.preferences = {
+      lmpDate: '2025-01-01',
+      themeColor: 'neutral',
+      viewMode: 'summary',
+    };
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    clockService.clearPreviewDate();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should limit the preview to the pregnancy calendar', () => {
+    expect(component.getMinDate()).toBe('2025-01-01');
+    expect(component.getMaxDate()).toBe('2025-10-28');
+  });
+
+  it('should preview the chosen date', () => {
+    component.onDateChange({ target: { value: '2025-05-21' } } as unknown as Event);
+
+    expect(clockService.getPreviewDateSync()).toEqual(new Date(2025, 4, 21));
+    expect(component.inputError).toBeNull();
+  });
+
+  it('should reject dates outside the pregnancy calendar', () => {
+    component.onDateChange({ target: { value: '2024-12-01' } } as unknown as Event);
+
+    expect(clockService.isPreviewing()).toBe(false);
+    expect(component.inputError).toBeTruthy();
+  });
+
+  it('should preview the due date and return to today', () => {
+    component.previewDueDate();
+    expect(clockService.getPreviewDateSync()).toEqual(new Date(2025, 9, 8));
+
+    component.backToToday();
+    expect(clockService.isPreviewing()).toBe(false);
+  });
+});
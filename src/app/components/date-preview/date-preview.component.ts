@@ -0,0 +1,173 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Observable } from 'rxjs';
+import { UserPreferences } from '../../models/pregnancy.models';
+import { ClockService } from '../../services/clock/clock.service';
+import { DateFormatService } from '../../services/date-format/date-format.service';
+import { PregnancyCalculatorService } from '../../services/pregnancy-calculator/pregnancy-calculator.service';
+import { formatLocalDate } from '../../utilities/parse-date';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { MessageKey } from '../../i18n/messages.en';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
+
+/**
+ * Date preview component
+ * Lets the user see the summary, header and calendar as of any date in the
+ * pregnancy, with a banner while previewing and a quick way back to today
+ */
+@Component({
+  selector: 'app-date-preview',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './date-preview.component.html',
+  styleUrls: ['./date-preview.component.scss'],
+})
+export class DatePreviewComponent {
+  @Input() preferences: UserPreferences | null = null;
+
+  previewDate$: Observable<Date | null>;
+  isPickerOpen = false;
+  /** Message key of the date input's validation error */
+  inputError: MessageKey | null = null;
+
+  constructor(
+    private clockService: ClockService,
+    private pregnancyCalculatorService: PregnancyCalculatorService,
+    private dateFormatService: DateFormatService
+  ) {
+    this.previewDate$ = this.clockService.getPreviewDate();
+  }
+
+  /**
+   * Gets the earliest date that can be previewed (the LMP)
+   * @returns Date string in YYYY-MM-DD format, or empty string without preferences
+   */
+  getMinDate(): string {
+    const range = this.getDateRange();
+    return range ? formatLocalDate(range.start) : '';
+  }
+
+  /**
+   * Gets the latest date that can be previewed (end of the calendar)
+   * @returns Date string in YYYY-MM-DD format, or empty string without preferences
+   */
+  getMaxDate(): string {
+    const range = this.getDateRange();
+    return range ? formatLocalDate(range.end) : '';
+  }
+
+  /**
+   * Formats a date for the date input
+   * @param date - Date to format
+   * @returns Date string in YYYY-MM-DD format
+   */
+  formatForInput(date: Date): string {
+    return formatLocalDate(date);
+  }
+
+  /**
+   * Formats a date in the user's date format
+   * @param date - Date to format
+   * @returns Formatted date string
+   */
+  formatDate(date: Date): string {
+    return this.dateFormatService.format(date);
+  }
+
+  /**
+   * Gets the gestational age on the previewed date
+   * @param date - Previewed date
+   * @returns Formatted gestational age, or empty string without preferences
+   */
+  getGestationalAge(date: Date): string {
+    if (!this.preferences?.lmpDate) {
+      return '';
+    }
+
+    return this.pregnancyCalculatorService.calculateGestationalAge(
+      this.pregnancyCalculatorService.getGestationalLmp(this.preferences),
+      date
+    ).formatted;
+  }
+
+  /**
+   * Opens the date picker
+   */
+  openPicker(): void {
+    this.inputError = null;
+    this.isPickerOpen = true;
+  }
+
+  /**
+   * Closes the date picker without previewing
+   */
+  closePicker(): void {
+    this.inputError = null;
+    this.isPickerOpen = false;
+  }
+
+  /**
+   * Previews the date chosen in the date input
+   * @param event - Change event from the date input
+   */
+  onDateChange(event: Event): void {
+    const value = (event.target as HTMLInputElement).value;
+    if (!value) {
+      return;
+    }
+
+    const date = CalendarDate.parse(value);
+    const range = this.getDateRange();
+    if (
+      range &&
+      (date.isBefore(CalendarDate.fromDate(range.start)) ||
+        date.isAfter(CalendarDate.fromDate(range.end)))
+    ) {
+      this.inputError = 'preview.outOfRange';
+      return;
+    }
+
+    this.inputError = null;
+    this.isPickerOpen = false;
+    this.clockService.setPreviewDate(date.toDate());
+  }
+
+  /**
+   * Previews the estimated due date
+   */
+  previewDueDate(): void {
+    if (!this.preferences?.lmpDate) {
+      return;
+    }
+
+    this.isPickerOpen = false;
+    this.clockService.setPreviewDate(
+      this.pregnancyCalculatorService.calculateDueDate(
+        this.pregnancyCalculatorService.getGestationalLmp(this.preferences)
+      )
+    );
+  }
+
+  /**
+   * Leaves preview mode and returns to today
+   */
+  backToToday(): void {
+    this.inputError = null;
+    this.clockService.clearPreviewDate();
+  }
+
+  /**
+   * Gets the date range covered by the pregnancy calendar
+   * @returns Start and end dates, or null without preferences
+   * @private
+   */
+  private getDateRange(): { start: Date; end: Date } | null {
+    if (!this.preferences?.lmpDate) {
+      return null;
+    }
+
+    return this.pregnancyCalculatorService.getCalendarDateRange(
+      this.pregnancyCalculatorService.getGestationalLmp(this.preferences)
+    );
+  }
+}
@@ -9,6 +9,9 @@ import {
   ExportFormat,
 } from '../../models/pregnancy.models';
 import { ExportService } from '../../services/export/export.service';
+import { ClockService } from '../../services/clock/clock.service';
+import { I18nService } from '../../services/i18n/i18n.service';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
 
 /**
  * Floating navigation component with view switching and export functionality
@@ -17,7 +20,7 @@ import { ExportService } from '../../services/export/export.service';
 @Component({
   selector: 'app-floating-navigation',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, TranslatePipe],
   template: `
     <div class="floating-nav">
       <div class="floating-nav__container">
@@ -29,10 +32,10 @@ import { ExportService } from '../../services/export/export.service';
             [class.floating-nav__button--active]="currentView === 'summary'"
             (click)="switchView('summary')"
             [attr.aria-pressed]="currentView === 'summary'"
-            aria-label="Switch to summary view"
+            [attr.aria-label]="'nav.summaryAria' | translate"
           >
             <span class="floating-nav__button-icon" aria-hidden="true">📊</span>
-            <span class="floating-nav__button-text">Summary</span>
+            <span class="floating-nav__button-text">{{ 'nav.summary' | translate }}</span>
           </button>
 
           <button
@@ -41,10 +44,10 @@ import { ExportService } from '../../services/export/export.service';
             [class.floating-nav__button--active]="currentView === 'table'"
             (click)="switchView('table')"
             [attr.aria-pressed]="currentView === 'table'"
-            aria-label="Switch to table view"
+            [attr.aria-label]="'nav.tableAria' | translate"
           >
             <span class="floating-nav__button-icon" aria-hidden="true">📅</span>
-            <span class="floating-nav__button-text">Calendar</span>
+            <span class="floating-nav__button-text">{{ 'nav.calendar' | translate }}</span>
           </button>
         </div>
 
@@ -56,14 +59,14 @@ import { ExportService } from '../../services/export/export.service';
             (click)="toggleExportMenu()"
             [attr.aria-expanded]="isExportMenuOpen"
             aria-haspopup="true"
-            aria-label="Export options"
+            [attr.aria-label]="'nav.exportAria' | translate"
             [disabled]="isExporting"
           >
             <span class="floating-nav__button-icon" aria-hidden="true">
               {{ isExporting ? '⏳' : '📤' }}
             </span>
             <span class="floating-nav__button-text">
-              {{ isExporting ? 'Exporting...' : 'Export' }}
+              {{ (isExporting ? 'nav.exporting' : 'nav.export') | translate }}
             </span>
           </button>
 
@@ -78,9 +81,13 @@ import { ExportService } from '../../services/export/export.service';
             >
               <span class="floating-nav__export-option-icon" aria-hidden="true">📄</span>
               <div class="floating-nav__export-option-info">
-                <span class="floating-nav__export-option-title">Export as PDF</span>
+                <span class="floating-nav__export-option-title">{{
+                  'nav.exportPdf' | translate
+                }}</span>
                 <span class="floating-nav__export-option-desc">
-                  Printable format (~{{ getEstimatedFileSize('pdf') }}KB)
+                  {{
+                    'nav.exportPdfDescription' | translate: { size: getEstimatedFileSize('pdf') }
+                  }}
                 </span>
               </div>
             </button>
@@ -94,9 +101,14 @@ import { ExportService } from '../../services/export/export.service';
             >
               <span class="floating-nav__export-option-icon" aria-hidden="true">📊</span>
               <div class="floating-nav__export-option-info">
-                <span class="floating-nav__export-option-title">Export as Excel</span>
+                <span class="floating-nav__export-option-title">{{
+                  'nav.exportExcel' | translate
+                }}</span>
                 <span class="floating-nav__export-option-desc">
-                  Spreadsheet format (~{{ getEstimatedFileSize('excel') }}KB)
+                  {{
+                    'nav.exportExcelDescription'
+                      | translate: { size: getEstimatedFileSize('excel') }
+                  }}
                 </span>
               </div>
             </button>
@@ -124,6 +136,7 @@ export class FloatingNavigationComponent {
   @Input() pregnancyDays: PregnancyDay[] | null = null;
   @Input() summary: PregnancySummary | null = null;
   @Input() preferences: UserPreferences | null = null;
+  @Input() profileName: string = '';
 
   @Output() viewChange = new EventEmitter<ViewMode>();
   @Output() exportRequested = new EventEmitter<ExportFormat>();
@@ -131,7 +144,11 @@ export class FloatingNavigationComponent {
   isExportMenuOpen = false;
   isExporting = false;
 
-  constructor(private exportService: ExportService) {}
+  constructor(
+    private exportService: ExportService,
+    private clockService: ClockService,
+    private i18nService: I18nService
+  ) {}
 
   /**
    * Switches between view modes
@@ -174,9 +191,11 @@ export class FloatingNavigationComponent {
       // Prepare export data
       const exportData: ExportData = {
         userPreferences: this.preferences,
+        profileName: this.profileName,
         summary: this.summary,
         pregnancyDays: this.pregnancyDays,
-        exportTimestamp: new Date(),
+        exportTimestamp: this.clockService.systemNow(),
+        asOfDate: this.clockService.getPreviewDateSync() ?? undefined,
         format: format,
       };
 
@@ -216,7 +235,7 @@ export class FloatingNavigationComponent {
       userPreferences: this.preferences,
       summary: this.summary,
       pregnancyDays: this.pregnancyDays,
-      exportTimestamp: new Date(),
+      exportTimestamp: this.clockService.systemNow(),
       format: format,
     };
 
@@ -230,7 +249,7 @@ export class FloatingNavigationComponent {
    */
   private showExportSuccess(format: ExportFormat): void {
     const formatLabel = format.toUpperCase();
-    const message = `✅ Successfully exported pregnancy calendar as ${formatLabel}!`;
+    const message = this.i18nService.translate('nav.exportSuccess', { format: formatLabel });
 
     // In a real app, this would use a toast/notification service
     // For now, we'll use a simple alert
@@ -246,7 +265,7 @@ export class FloatingNavigationComponent {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   private showExportError(format: ExportFormat, error: any): void {
     const formatLabel = format.toUpperCase();
-    const message = `❌ Failed to export as ${formatLabel}. Please try again.`;
+    const message = this.i18nService.translate('nav.exportFailed', { format: formatLabel });
 
     // In a real app, this would use a toast/notification service
     console.error('Export error details:', error);
@@ -1,6 +1,7 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 
 import { HeaderComponent } from './header.component';
+import { Profile } from '../../models/pregnancy.models';
 
 describe('HeaderComponent', () => {
   let component: HeaderComponent;
@@ -19,4 +20,59 @@ describe('HeaderComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('should emit the selected date format and close the settings menu', () => {
+    const emitSpy = spyOn(component.dateFormatChange, 'emit');
+    component.isSettingsOpen = true;
+
+    component.selectDateFormat('DD/MM/YYYY');
+
+    expect(emitSpy).toHaveBeenCalledWith('DD/MM/YYYY');
+    expect(component.isSettingsOpen).toBe(false);
+  });
+
+  it('should treat legacy preferences as the US date format', () => {
+    component.preferences = { lmpDate: '2025-01-01', themeColor: 'neutral', viewMode: 'summary' };
+    expect(component.getCurrentDateFormat()).toBe('MM/DD/YYYY');
+  });
+
+  it('should list archived profiles apart and only emit a switch to another profile', () => {
+    const profiles: Profile[] = [
+      { id: 'a', name: '', archived: false, createdAt: '2025-01-01T00:00:00.000Z' },
+      { id: 'b', name: 'Maria', archived: true, createdAt: '2025-02-01T00:00:00.000Z' },
+    ];
+    const emitSpy = spyOn(component.profileSwitch, 'emit');
+    component.profiles = profiles;
+    component.activeProfile = profiles[0];
+    component.isProfileMenuOpen = true;
+
+    component.selectProfile('a');
+    component.selectProfile('b');
+
+    expect(component.getCurrentProfiles()).toEqual([profiles[0]]);
+    expect(component.getArchivedProfiles()).toEqual([profiles[1]]);
+    expect(emitSpy.calls.allArgs()).toEqual([['b']]);
+    expect(component.isProfileMenuOpen).toBe(false);
+  });
+
+  it('should ask for a name before creating a profile', () => {
+    const emitSpy = spyOn(component.profileCreate, 'emit');
+    spyOn(window, 'prompt').and.returnValues('  Maria  ', '   ');
+
+    component.requestProfileCreate();
+    component.requestProfileCreate();
+
+    expect(emitSpy.calls.allArgs()).toEqual([['Maria']]);
+  });
+
+  it('should format the storage used and available', () => {
+    component.storageQuota = {
+      usageBytes: 5 * 1024 * 1024 + 300 * 1024,
+      quotaBytes: 2 * 1024 * 1024 * 1024,
+      isNearlyFull: false,
+      isExceeded: false,
+    };
+
+    expect(component.getStorageUsage()).toEqual({ used: '5.3 MB', total: '2.0 GB' });
+  });
 });
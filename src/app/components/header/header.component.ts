@@ -1,18 +1,32 @@
-import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { UserPreferences, ThemeColor } from '../../models/pregnancy.models';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import {
+  UserPreferences,
+  ThemeColor,
+  DateFormat,
+  Language,
+  TextDirection,
+  Profile,
+  StorageQuota,
+  PassphraseFormMode,
+} from '../../models/pregnancy.models';
 import { ThemeService } from '../../services/theme/theme.service';
-import { parseLocalDate } from '../../utilities/parse-date';
 import { PregnancyCalculatorService } from '../../services/pregnancy-calculator/pregnancy-calculator.service';
+import { ClockService } from '../../services/clock/clock.service';
+import { DateFormatService } from '../../services/date-format/date-format.service';
+import { I18nService } from '../../services/i18n/i18n.service';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
 
 /**
  * Application header component
- * Displays app title, theme selector, and settings
+ * Displays app title, profile switcher, theme selector, and settings
  */
 @Component({
   selector: 'app-header',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, TranslatePipe],
   templateUrl: './header.component.html',
   styleUrls: ['./header.component.scss'],
   host: {
@@ -20,10 +34,30 @@ import { PregnancyCalculatorService } from '../../services/pregnancy-calculator/
     '(document:keydown.escape)': 'closeAllDropdowns()',
   },
 })
-export class HeaderComponent {
+export class HeaderComponent implements OnDestroy {
   @Input() preferences: UserPreferences | null = null;
+  @Input() profiles: Profile[] = [];
+  @Input() activeProfile: Profile | null = null;
+  @Input() storageQuota: StorageQuota | null = null;
+  @Input() isEncrypted = false;
   @Output() themeColorChange = new EventEmitter<ThemeColor>();
   @Output() preferencesReset = new EventEmitter<void>();
+  @Output() dateFormatChange = new EventEmitter<DateFormat>();
+  @Output() languageChange = new EventEmitter<Language>();
+  @Output() profileCreate = new EventEmitter<string>();
+  @Output() profileSwitch = new EventEmitter<string>();
+  @Output() profileRename = new EventEmitter<string>();
+  @Output() profileArchive = new EventEmitter<boolean>();
+  @Output() profileDelete = new EventEmitter<void>();
+  @Output() passphraseFormOpen = new EventEmitter<PassphraseFormMode>();
+  @Output() recoveryKeyDownload = new EventEmitter<void>();
+  @Output() appLock = new EventEmitter<void>();
+  @Output() backupDownload = new EventEmitter<void>();
+  /** Contents of the backup file chosen to restore */
+  @Output() backupRestore = new EventEmitter<string>();
+
+  /** Subject for component cleanup */
+  private destroy$ = new Subject<void>();
 
   availableThemes: Array<{
     value: ThemeColor;
@@ -32,14 +66,41 @@ export class HeaderComponent {
     primaryColor: string;
   }> = [];
 
+  availableDateFormats: Array<{
+    value: DateFormat;
+    label: string;
+    description: string;
+    example: string;
+  }> = [];
+
+  availableLanguages: Array<{ value: Language; label: string; direction: TextDirection }> = [];
+
   isThemeSelectorOpen = false;
   isSettingsOpen = false;
+  isProfileMenuOpen = false;
 
   constructor(
     private themeService: ThemeService,
-    private pregnancyCalculatorService: PregnancyCalculatorService
+    private pregnancyCalculatorService: PregnancyCalculatorService,
+    private clockService: ClockService,
+    private dateFormatService: DateFormatService,
+    private i18nService: I18nService
   ) {
-    this.availableThemes = this.themeService.getAvailableThemes();
+    this.availableLanguages = this.i18nService.getAvailableLanguages();
+
+    // Option labels are translated, so rebuild them whenever the language changes
+    this.i18nService
+      .getLanguage()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.availableThemes = this.themeService.getAvailableThemes();
+        this.availableDateFormats = this.dateFormatService.getAvailableDateFormats();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
   }
 
   /**
@@ -50,10 +111,44 @@ export class HeaderComponent {
     if (!this.preferences?.lmpDate) return '';
 
     return this.pregnancyCalculatorService.calculateGestationalAge(
-      parseLocalDate(this.preferences.lmpDate)
+      this.pregnancyCalculatorService.getGestationalLmp(this.preferences),
+      this.clockService.now()
     ).formatted;
   }
 
+  /**
+   * Gets the date the app is being previewed as of
+   * @returns Preview date, or null when showing today
+   */
+  getPreviewDate(): Date | null {
+    return this.clockService.getPreviewDateSync();
+  }
+
+  /**
+   * Formats a date in the user's date format
+   * @param date - Date to format
+   * @returns Formatted date string
+   */
+  formatDate(date: Date): string {
+    return this.dateFormatService.format(date);
+  }
+
+  /**
+   * Gets the date format currently in use
+   * @returns Current date format
+   */
+  getCurrentDateFormat(): DateFormat {
+    return this.preferences?.dateFormat ?? this.dateFormatService.DEFAULT_DATE_FORMAT;
+  }
+
+  /**
+   * Gets the language currently in use
+   * @returns Current language
+   */
+  getCurrentLanguage(): Language {
+    return this.i18nService.getLanguageSync();
+  }
+
   /**
    * Gets the current theme's primary color
    * @returns CSS color value
@@ -64,12 +159,57 @@ export class HeaderComponent {
     return theme?.primaryColor || '#D4A574';
   }
 
+  /**
+   * Gets the profiles that are not archived
+   * @returns Current profiles in creation order
+   */
+  getCurrentProfiles(): Profile[] {
+    return this.profiles.filter(profile => !profile.archived);
+  }
+
+  /**
+   * Gets the archived profiles of completed pregnancies
+   * @returns Archived profiles in creation order
+   */
+  getArchivedProfiles(): Profile[] {
+    return this.profiles.filter(profile => profile.archived);
+  }
+
+  /**
+   * Checks whether the active profile can be deleted
+   * @returns Boolean indicating if another profile would remain
+   */
+  canDeleteProfile(): boolean {
+    return this.profiles.length > 1;
+  }
+
+  /**
+   * Gets the storage used and available, formatted for display
+   * @returns Formatted usage and quota
+   */
+  getStorageUsage(): { used: string; total: string } {
+    return {
+      used: this.formatBytes(this.storageQuota?.usageBytes ?? 0),
+      total: this.formatBytes(this.storageQuota?.quotaBytes ?? 0),
+    };
+  }
+
+  /**
+   * Toggles the profile switcher dropdown
+   */
+  toggleProfileMenu(): void {
+    this.isProfileMenuOpen = !this.isProfileMenuOpen;
+    this.isThemeSelectorOpen = false;
+    this.isSettingsOpen = false;
+  }
+
   /**
    * Toggles the theme selector dropdown
    */
   toggleThemeSelector(): void {
     this.isThemeSelectorOpen = !this.isThemeSelectorOpen;
     this.isSettingsOpen = false; // Close settings if open
+    this.isProfileMenuOpen = false;
   }
 
   /**
@@ -78,6 +218,71 @@ export class HeaderComponent {
   toggleSettings(): void {
     this.isSettingsOpen = !this.isSettingsOpen;
     this.isThemeSelectorOpen = false; // Close theme selector if open
+    this.isProfileMenuOpen = false;
+  }
+
+  /**
+   * Switches to another profile
+   * @param profileId - Identifier of the profile to switch to
+   */
+  selectProfile(profileId: string): void {
+    if (profileId !== this.activeProfile?.id) {
+      this.profileSwitch.emit(profileId);
+    }
+    this.isProfileMenuOpen = false;
+  }
+
+  /**
+   * Asks for a name and requests a new profile
+   */
+  requestProfileCreate(): void {
+    this.isProfileMenuOpen = false;
+
+    const name = prompt(this.i18nService.translate('header.profileNamePrompt'))?.trim();
+    if (name) {
+      this.profileCreate.emit(name);
+    }
+  }
+
+  /**
+   * Asks for a new name for the active profile
+   */
+  requestProfileRename(): void {
+    this.isProfileMenuOpen = false;
+
+    const name = prompt(
+      this.i18nService.translate('header.profileNamePrompt'),
+      this.activeProfile?.name ?? ''
+    )?.trim();
+    if (name && name !== this.activeProfile?.name) {
+      this.profileRename.emit(name);
+    }
+  }
+
+  /**
+   * Archives the active profile or brings it back from the archive
+   */
+  toggleProfileArchived(): void {
+    this.profileArchive.emit(!this.activeProfile?.archived);
+    this.isProfileMenuOpen = false;
+  }
+
+  /**
+   * Requests deletion of the active profile from parent component
+   */
+  requestProfileDelete(): void {
+    this.profileDelete.emit();
+    this.isProfileMenuOpen = false;
+  }
+
+  /**
+   * Track by function for the profile list
+   * @param index - Array index
+   * @param profile - Profile
+   * @returns Unique identifier
+   */
+  trackByProfile(index: number, profile: Profile): string {
+    return profile.id;
   }
 
   /**
@@ -89,6 +294,24 @@ export class HeaderComponent {
     this.isThemeSelectorOpen = false;
   }
 
+  /**
+   * Selects a new date format
+   * @param dateFormat - Date format to select
+   */
+  selectDateFormat(dateFormat: DateFormat): void {
+    this.dateFormatChange.emit(dateFormat);
+    this.isSettingsOpen = false;
+  }
+
+  /**
+   * Selects a new display language
+   * @param language - Language to select
+   */
+  selectLanguage(language: Language): void {
+    this.languageChange.emit(language);
+    this.isSettingsOpen = false;
+  }
+
   /**
    * Requests preferences reset from parent component
    */
@@ -98,35 +321,61 @@ export class HeaderComponent {
   }
 
   /**
-   * Shows help information
-   * @param event - Click event
+   * Requests the passphrase form to turn encryption on or off or change the passphrase
+   * @param mode - Purpose of the form
    */
-  showHelp(event: Event): void {
-    event.preventDefault();
-
-    const helpMessage = `
-Pregnancy Calendar Help
+  requestPassphraseForm(mode: PassphraseFormMode): void {
+    this.passphraseFormOpen.emit(mode);
+    this.isSettingsOpen = false;
+  }
 
-This application calculates your pregnancy timeline based on your Last Menstrual Period (LMP) date.
+  /**
+   * Requests a download of the recovery key file
+   */
+  requestRecoveryKeyDownload(): void {
+    this.recoveryKeyDownload.emit();
+    this.isSettingsOpen = false;
+  }
 
-Key Features:
-• Summary View: Overview of your current pregnancy status
-• Table View: Detailed day-by-day calendar with milestones
-• Export Options: Save your calendar as PDF or Excel
-• Theme Options: Choose colors that match your preference
+  /**
+   * Requests locking the encrypted data until the passphrase is entered again
+   */
+  requestAppLock(): void {
+    this.appLock.emit();
+    this.isSettingsOpen = false;
+  }
 
-Medical Disclaimer:
-All calculations are estimates based on standard 40-week pregnancy timelines. Individual pregnancies may vary. Always consult your healthcare provider for personalized medical advice.
+  /**
+   * Requests a download of the backup file
+   */
+  requestBackupDownload(): void {
+    this.backupDownload.emit();
+    this.isSettingsOpen = false;
+  }
 
-Navigation:
-• Use the floating buttons at the bottom to switch views and export data
-• Change themes using the theme selector in the header
-• Filter table view by month using the dropdown
+  /**
+   * Reads the backup file chosen to restore and requests its preview
+   * @param event - Change event of the file input
+   */
+  async onBackupFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Cleared so choosing the same file again is noticed
+    input.value = '';
+    this.isSettingsOpen = false;
+    if (file) {
+      this.backupRestore.emit(await file.text());
+    }
+  }
 
-For technical support or feedback, please contact your system administrator.
-    `.trim();
+  /**
+   * Shows help information
+   * @param event - Click event
+   */
+  showHelp(event: Event): void {
+    event.preventDefault();
 
-    alert(helpMessage);
+    alert(this.i18nService.translate('header.helpMessage'));
     this.isSettingsOpen = false;
   }
 
@@ -136,6 +385,7 @@ For technical support or feedback, please contact your system administrator.
   closeAllDropdowns(): void {
     this.isThemeSelectorOpen = false;
     this.isSettingsOpen = false;
+    this.isProfileMenuOpen = false;
   }
 
   /**
@@ -154,5 +404,27 @@ For technical support or feedback, please contact your system administrator.
     if (this.isSettingsOpen && !target.closest('.header__settings')) {
       this.isSettingsOpen = false;
     }
+
+    // Check if click is outside profile switcher
+    if (this.isProfileMenuOpen && !target.closest('.header__profile-switcher')) {
+      this.isProfileMenuOpen = false;
+    }
+  }
+
+  /**
+   * Formats a byte count in the largest unit that keeps it at 1 or more
+   * @param bytes - Byte count
+   * @returns Formatted size such as "12.3 MB"
+   * @private
+   */
+  private formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let size = bytes;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+      size /= 1024;
+      unit++;
+    }
+    return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
   }
 }
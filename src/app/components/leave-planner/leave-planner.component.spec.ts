@@ -0,0 +1,60 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { LeavePlannerComponent } from './leave-planner.component';
+
+describe('LeavePlannerComponent', () => {
+  let component: LeavePlannerComponent;
+  let fixture: ComponentFixture<LeavePlannerComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [LeavePlannerComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(LeavePlannerComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should emit new leave rules without the previous start date', () => {
+    const emitSpy = spyOn(component.leaveChange, 'emit');
+    component.preferences = {
+      lmpDate: '2025-03-01',
+      themeColor: 'neutral',
+      viewMode: 'summary',
+      leave: { jurisdiction: 'us-fmla', plannedStartDate: '2025-11-01' },
+    };
+
+    const select = document.createElement('select');
+    select.innerHTML = '<option value="uk-sml">UK</option><option value="">None</option>';
+    select.value = 'uk-sml';
+    component.onJurisdictionSelect({ target: select } as unknown as Event);
+    select.value = '';
+    component.onJurisdictionSelect({ target: select } as unknown as Event);
+
+    expect(emitSpy.calls.allArgs()).toEqual([[{ jurisdiction: 'uk-sml' }], [null]]);
+  });
+
+  it('should emit a chosen start date', () => {
+    const emitSpy = spyOn(component.leaveChange, 'emit');
+    component.preferences = {
+      lmpDate: '2025-03-01',
+      themeColor: 'neutral',
+      viewMode: 'summary',
+      leave: { jurisdiction: 'uk-sml' },
+    };
+
+    const input = document.createElement('input');
+    input.value = '2025-11-20';
+    component.onStartDateChange({ target: input } as unknown as Event);
+
+    expect(emitSpy).toHaveBeenCalledWith({
+      jurisdiction: 'uk-sml',
+      plannedStartDate: '2025-11-20',
+    });
+  });
+});
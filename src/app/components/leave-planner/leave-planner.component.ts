@@ -0,0 +1,142 @@
+import { Component, Input, Output, EventEmitter, OnDestroy } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import {
+  LeaveEvent,
+  LeaveEventType,
+  LeaveJurisdiction,
+  LeavePlan,
+  LeaveSettings,
+  UserPreferences,
+} from '../../models/pregnancy.models';
+import { LeavePlannerService } from '../../services/leave-planner/leave-planner.service';
+import { I18nService } from '../../services/i18n/i18n.service';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
+
+/**
+ * Leave planner component
+ * Picks the leave rules to follow and a start date, and shows the resulting leave dates
+ */
+@Component({
+  selector: 'app-leave-planner',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './leave-planner.component.html',
+  styleUrls: ['./leave-planner.component.scss'],
+})
+export class LeavePlannerComponent implements OnDestroy {
+  @Input() preferences: UserPreferences | null = null;
+  @Input() plan: LeavePlan | null = null;
+  @Output() leaveChange = new EventEmitter<LeaveSettings | null>();
+
+  /** Subject for component cleanup */
+  private destroy$ = new Subject<void>();
+
+  availableJurisdictions: Array<{
+    value: LeaveJurisdiction;
+    label: string;
+    description: string;
+  }> = [];
+
+  constructor(
+    private leavePlannerService: LeavePlannerService,
+    private i18nService: I18nService
+  ) {
+    // Option labels are translated, so rebuild them whenever the language changes
+    this.i18nService
+      .getLanguage()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.availableJurisdictions = this.leavePlannerService.getAvailableJurisdictions();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Gets the selected leave rules
+   * @returns Selected jurisdiction, or an empty string when no plan is set up
+   */
+  getSelectedJurisdiction(): LeaveJurisdiction | '' {
+    return this.preferences?.leave?.jurisdiction ?? '';
+  }
+
+  /**
+   * Checks whether the user picked their own start date
+   * @returns Boolean indicating if a planned start date is stored
+   */
+  hasCustomStart(): boolean {
+    return !!this.preferences?.leave?.plannedStartDate;
+  }
+
+  /**
+   * Gets the formatted date of one entry of the plan
+   * @param type - Which date of the plan to get
+   * @returns Formatted date, or an empty string when the plan has no such date
+   */
+  getFormattedDate(type: LeaveEventType): string {
+    return this.plan?.events.find(event => event.type === type)?.formatted ?? '';
+  }
+
+  /**
+   * Formats a plan date for a date input
+   * @param date - Plan date
+   * @returns Date in YYYY-MM-DD form
+   */
+  toInputDate(date: Date): string {
+    return CalendarDate.fromDate(date).toString();
+  }
+
+  /**
+   * Handles a change of leave rules
+   * Switching rules drops the chosen start date, which may not be allowed under the new rules
+   * @param event - Change event from the jurisdiction select
+   */
+  onJurisdictionSelect(event: Event): void {
+    const value = (event.target as HTMLSelectElement).value as LeaveJurisdiction | '';
+    if (value === this.getSelectedJurisdiction()) {
+      return;
+    }
+
+    this.leaveChange.emit(value ? { jurisdiction: value } : null);
+  }
+
+  /**
+   * Handles a change of planned start date
+   * @param event - Change event from the start date input
+   */
+  onStartDateChange(event: Event): void {
+    const jurisdiction = this.getSelectedJurisdiction();
+    const value = (event.target as HTMLInputElement).value;
+    if (!jurisdiction || !value) {
+      return;
+    }
+
+    this.leaveChange.emit({ jurisdiction, plannedStartDate: value });
+  }
+
+  /**
+   * Returns to the rule set's usual start date
+   */
+  resetStartDate(): void {
+    const jurisdiction = this.getSelectedJurisdiction();
+    if (jurisdiction) {
+      this.leaveChange.emit({ jurisdiction });
+    }
+  }
+
+  /**
+   * Track by function for leave dates list
+   * @param index - Array index
+   * @param event - Leave event
+   * @returns Unique identifier
+   */
+  trackByEvent(index: number, event: LeaveEvent): string {
+    return event.type;
+  }
+}
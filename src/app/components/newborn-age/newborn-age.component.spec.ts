@@ -0,0 +1,61 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { NewbornAgeComponent } from './newborn-age.component';
+import { NewbornSummary } from '../../models/pregnancy.models';
+
+describe('NewbornAgeComponent', () => {
+  let component: NewbornAgeComponent;
+  let fixture: ComponentFixture<NewbornAgeComponent>;
+
+  const summary: NewbornSummary = {
+    chronologicalAge: { days: 70, weeks: 10, months: 2 },
+    gestationalAgeAtBirth: '32 3/7 weeks',
+    isPreterm: true,
+    daysEarly: 53,
+    formattedDueDate: '03/01/2026',
+    correctedAge: { days: 17, weeks: 2, months: 0 },
+    postmenstrualAge: '42 3/7 weeks',
+    upcomingEvents: [],
+    events: [],
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [NewbornAgeComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(NewbornAgeComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show corrected and postmenstrual age for a preterm baby', () => {
+    component.summary = summary;
+    fixture.detectChanges();
+
+    const text = (fixture.nativeElement as HTMLElement).textContent ?? '';
+    expect(text).toContain('70 days');
+    expect(text).toContain('Corrected age');
+    expect(text).toContain('17 days');
+    expect(text).toContain('42 3/7 weeks');
+  });
+
+  it('should only show chronological age for a term baby', () => {
+    component.summary = {
+      ...summary,
+      isPreterm: false,
+      daysEarly: 0,
+      correctedAge: undefined,
+      postmenstrualAge: undefined,
+    };
+    fixture.detectChanges();
+
+    const text = (fixture.nativeElement as HTMLElement).textContent ?? '';
+    expect(text).toContain('2 months');
+    expect(text).not.toContain('Corrected age');
+  });
+});
@@ -0,0 +1,44 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { BabyAge, NewbornSummary, WellBabyEvent } from '../../models/pregnancy.models';
+import { MessageKey } from '../../i18n/messages.en';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
+
+/**
+ * Newborn age component
+ * Shows the baby's age in days, weeks and months, with corrected and postmenstrual age for
+ * babies born before 37 weeks, and the next well-baby visits and vaccinations
+ */
+@Component({
+  selector: 'app-newborn-age',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './newborn-age.component.html',
+  styleUrls: ['./newborn-age.component.scss'],
+})
+export class NewbornAgeComponent {
+  @Input() summary: NewbornSummary | null = null;
+
+  /**
+   * Gets the age units shown for an age, in display order
+   * @param age - Baby's age
+   * @returns Message keys with their counts
+   */
+  getAgeUnits(age: BabyAge): Array<{ key: MessageKey; count: number }> {
+    return [
+      { key: 'newborn.ageDays', count: age.days },
+      { key: 'newborn.ageWeeks', count: age.weeks },
+      { key: 'newborn.ageMonths', count: age.months },
+    ];
+  }
+
+  /**
+   * Track by function for well-baby events list
+   * @param index - Array index
+   * @param event - Well-baby event
+   * @returns Unique identifier
+   */
+  trackByEvent(index: number, event: WellBabyEvent): string {
+    return `${event.type}-${event.title}`;
+  }
+}
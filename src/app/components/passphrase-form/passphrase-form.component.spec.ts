@@ -0,0 +1,72 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { PassphraseFormComponent } from './passphrase-form.component';
+import { PassphraseFormValue } from '../../models/pregnancy.models';
+
+describe('PassphraseFormComponent', () => {
+  let component: PassphraseFormComponent;
+  let fixture: ComponentFixture<PassphraseFormComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [PassphraseFormComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(PassphraseFormComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should ask only for the passphrase when unlocking', () => {
+    const emitted: PassphraseFormValue[] = [];
+    component.passphraseSubmit.subscribe(value => emitted.push(value));
+
+    component.passphraseForm.patchValue({ passphrase: 'correct horse' });
+    component.onSubmit();
+
+    expect(emitted).toEqual([{ passphrase: 'correct horse', newPassphrase: '', recoveryKey: '' }]);
+  });
+
+  it('should require a confirmed new passphrase when turning encryption on', () => {
+    const emitted: PassphraseFormValue[] = [];
+    component.passphraseSubmit.subscribe(value => emitted.push(value));
+    component.mode = 'enable';
+    component.ngOnChanges();
+
+    component.passphraseForm.patchValue({ newPassphrase: 'short', confirmPassphrase: 'short' });
+    component.onSubmit();
+    expect(component.isFieldInvalid('newPassphrase')).toBeTrue();
+
+    component.passphraseForm.patchValue({
+      newPassphrase: 'battery staple',
+      confirmPassphrase: 'battery stapel',
+    });
+    component.onSubmit();
+    expect(component.isConfirmationMismatched()).toBeTrue();
+    expect(emitted).toEqual([]);
+
+    component.passphraseForm.patchValue({ confirmPassphrase: 'battery staple' });
+    component.onSubmit();
+    expect(emitted.map(value => value.newPassphrase)).toEqual(['battery staple']);
+  });
+
+  it('should require the recovery key file when recovering', () => {
+    const emitted: PassphraseFormValue[] = [];
+    component.passphraseSubmit.subscribe(value => emitted.push(value));
+    component.mode = 'recover';
+    component.ngOnChanges();
+
+    component.passphraseForm.patchValue({
+      newPassphrase: 'battery staple',
+      confirmPassphrase: 'battery staple',
+    });
+    component.onSubmit();
+
+    expect(component.isRecoveryKeyMissing).toBeTrue();
+    expect(emitted).toEqual([]);
+  });
+});
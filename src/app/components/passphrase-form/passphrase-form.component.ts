@@ -0,0 +1,184 @@
+import { Component, Input, Output, EventEmitter, OnChanges } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  AbstractControl,
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  ValidationErrors,
+  Validators,
+} from '@angular/forms';
+import { PassphraseFormMode, PassphraseFormValue } from '../../models/pregnancy.models';
+import { MessageKey } from '../../i18n/messages.en';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
+
+/**
+ * Passphrase form component
+ * Unlocks encrypted data on startup (the app lock), and turns encryption on or off,
+ * changes the passphrase or unlocks with the recovery key file
+ */
+@Component({
+  selector: 'app-passphrase-form',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, TranslatePipe],
+  templateUrl: './passphrase-form.component.html',
+  styleUrls: ['./passphrase-form.component.scss'],
+})
+export class PassphraseFormComponent implements OnChanges {
+  @Input() mode: PassphraseFormMode = 'unlock';
+  /** Error from the last submission, already translated */
+  @Input() error: string | null = null;
+  @Output() passphraseSubmit = new EventEmitter<PassphraseFormValue>();
+  @Output() modeChange = new EventEmitter<PassphraseFormMode>();
+  @Output() formCancel = new EventEmitter<void>();
+
+  /** Texts shown for each purpose of the form */
+  private readonly MODE_TEXTS: Record<
+    PassphraseFormMode,
+    { title: MessageKey; intro: MessageKey; submit: MessageKey }
+  > = {
+    unlock: { title: 'lock.unlockTitle', intro: 'lock.unlockIntro', submit: 'lock.unlock' },
+    recover: { title: 'lock.recoverTitle', intro: 'lock.recoverIntro', submit: 'lock.recover' },
+    enable: { title: 'lock.enableTitle', intro: 'lock.enableIntro', submit: 'lock.enable' },
+    change: { title: 'lock.changeTitle', intro: 'lock.changeIntro', submit: 'lock.change' },
+    disable: { title: 'lock.disableTitle', intro: 'lock.disableIntro', submit: 'lock.disable' },
+  };
+
+  passphraseForm: FormGroup;
+  minPassphraseLength = 8;
+  /** Contents of the chosen recovery key file */
+  recoveryKey = '';
+  isRecoveryKeyMissing = false;
+
+  constructor(private formBuilder: FormBuilder) {
+    this.passphraseForm = this.createForm();
+  }
+
+  ngOnChanges(): void {
+    this.passphraseForm = this.createForm();
+    this.recoveryKey = '';
+    this.isRecoveryKeyMissing = false;
+  }
+
+  /**
+   * Gets the title, introduction and submit label of the form's purpose
+   * @returns Message keys of the texts
+   */
+  getTexts(): { title: MessageKey; intro: MessageKey; submit: MessageKey } {
+    return this.MODE_TEXTS[this.mode];
+  }
+
+  /**
+   * Checks whether the form asks for the current passphrase
+   * @returns Boolean indicating if the passphrase field is shown
+   */
+  asksPassphrase(): boolean {
+    return this.mode === 'unlock' || this.mode === 'change' || this.mode === 'disable';
+  }
+
+  /**
+   * Checks whether the form asks for a new passphrase
+   * @returns Boolean indicating if the new passphrase fields are shown
+   */
+  asksNewPassphrase(): boolean {
+    return this.mode === 'enable' || this.mode === 'change' || this.mode === 'recover';
+  }
+
+  /**
+   * Checks if a form field is invalid and has been touched
+   * @param fieldName - Name of the form field
+   * @returns Boolean indicating if field should show error state
+   */
+  isFieldInvalid(fieldName: string): boolean {
+    const field = this.passphraseForm.get(fieldName);
+    return !!(field && field.invalid && (field.dirty || field.touched));
+  }
+
+  /**
+   * Checks whether the confirmation differs from the new passphrase
+   * @returns Boolean indicating if the mismatch error should show
+   */
+  isConfirmationMismatched(): boolean {
+    const confirmation = this.passphraseForm.get('confirmPassphrase');
+    return (
+      !!this.passphraseForm.errors?.['mismatch'] && !!(confirmation?.dirty || confirmation?.touched)
+    );
+  }
+
+  /**
+   * Reads the chosen recovery key file
+   * @param event - Change event of the file input
+   */
+  async onRecoveryFileSelected(event: Event): Promise<void> {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    this.recoveryKey = file ? await file.text() : '';
+    this.isRecoveryKeyMissing = !this.recoveryKey;
+  }
+
+  /**
+   * Handles form submission
+   */
+  onSubmit(): void {
+    this.isRecoveryKeyMissing = this.mode === 'recover' && !this.recoveryKey;
+    if (this.passphraseForm.invalid || this.isRecoveryKeyMissing) {
+      this.passphraseForm.markAllAsTouched();
+      return;
+    }
+
+    const formValue = this.passphraseForm.value;
+    this.passphraseSubmit.emit({
+      passphrase: formValue.passphrase,
+      newPassphrase: formValue.newPassphrase,
+      recoveryKey: this.recoveryKey,
+    });
+  }
+
+  /**
+   * Switches between unlocking with the passphrase and with the recovery key
+   * @param mode - Form purpose to switch to
+   */
+  switchMode(mode: PassphraseFormMode): void {
+    this.modeChange.emit(mode);
+  }
+
+  /**
+   * Closes the form without changes
+   */
+  cancel(): void {
+    this.formCancel.emit();
+  }
+
+  /**
+   * Creates the reactive form, requiring the fields the form's purpose asks for
+   * @returns FormGroup instance
+   * @private
+   */
+  private createForm(): FormGroup {
+    const newPassphraseValidators = this.asksNewPassphrase()
+      ? [Validators.required, Validators.minLength(this.minPassphraseLength)]
+      : [];
+
+    return this.formBuilder.group(
+      {
+        passphrase: ['', this.asksPassphrase() ? Validators.required : []],
+        newPassphrase: ['', newPassphraseValidators],
+        confirmPassphrase: ['', this.asksNewPassphrase() ? Validators.required : []],
+      },
+      { validators: this.confirmationValidator.bind(this) }
+    );
+  }
+
+  /**
+   * Group validator requiring the confirmation to repeat the new passphrase
+   * @param group - Form group to validate
+   * @returns Validation error object or null
+   * @private
+   */
+  private confirmationValidator(group: AbstractControl): ValidationErrors | null {
+    if (!this.asksNewPassphrase()) {
+      return null;
+    }
+    const { newPassphrase, confirmPassphrase } = group.value;
+    return newPassphrase === confirmPassphrase ? null : { mismatch: true };
+  }
+}
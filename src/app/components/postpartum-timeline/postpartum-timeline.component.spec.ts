@@ -0,0 +1,22 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { PostpartumTimelineComponent } from './postpartum-timeline.component';
+
+describe('PostpartumTimelineComponent', () => {
+  let component: PostpartumTimelineComponent;
+  let fixture: ComponentFixture<PostpartumTimelineComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [PostpartumTimelineComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(PostpartumTimelineComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,42 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { PostpartumDay } from '../../models/pregnancy.models';
+import { ClockService } from '../../services/clock/clock.service';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
+
+/**
+ * Postpartum timeline component
+ * Day-by-day table of the 12 weeks after the birth with their checkups and milestones
+ */
+@Component({
+  selector: 'app-postpartum-timeline',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './postpartum-timeline.component.html',
+  styleUrls: ['./postpartum-timeline.component.scss'],
+})
+export class PostpartumTimelineComponent {
+  @Input() postpartumDays: PostpartumDay[] | null = null;
+
+  constructor(private clockService: ClockService) {}
+
+  /**
+   * Checks whether a timeline day is today (or the preview date)
+   * @param day - Postpartum day
+   * @returns Boolean indicating if the day is today
+   */
+  isToday(day: PostpartumDay): boolean {
+    return CalendarDate.fromDate(day.date).equals(this.clockService.calendarToday());
+  }
+
+  /**
+   * Track by function for the timeline rows
+   * @param index - Array index
+   * @param day - Postpartum day
+   * @returns Unique identifier
+   */
+  trackByDay(index: number, day: PostpartumDay): number {
+    return day.dayAfterBirth;
+  }
+}
@@ -0,0 +1,22 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { PostpartumViewComponent } from './postpartum-view.component';
+
+describe('PostpartumViewComponent', () => {
+  let component: PostpartumViewComponent;
+  let fixture: ComponentFixture<PostpartumViewComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [PostpartumViewComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(PostpartumViewComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
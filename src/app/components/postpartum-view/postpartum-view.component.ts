@@ -0,0 +1,42 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  BirthRecord,
+  NewbornSummary,
+  PostpartumEvent,
+  PostpartumSummary,
+  UserPreferences,
+} from '../../models/pregnancy.models';
+import { BirthRecordComponent } from '../birth-record/birth-record.component';
+import { NewbornAgeComponent } from '../newborn-age/newborn-age.component';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
+
+/**
+ * Postpartum view component
+ * Shows the "fourth trimester" after a recorded birth: recovery progress, the current
+ * recovery stage and the checkups and milestones of the first 12 weeks, alongside the
+ * baby's age and next well-baby visits
+ */
+@Component({
+  selector: 'app-postpartum-view',
+  standalone: true,
+  imports: [CommonModule, BirthRecordComponent, NewbornAgeComponent, TranslatePipe],
+  templateUrl: './postpartum-view.component.html',
+  styleUrls: ['./postpartum-view.component.scss'],
+})
+export class PostpartumViewComponent {
+  @Input() summary: PostpartumSummary | null = null;
+  @Input() newborn: NewbornSummary | null = null;
+  @Input() preferences: UserPreferences | null = null;
+  @Output() birthChange = new EventEmitter<BirthRecord | null>();
+
+  /**
+   * Track by function for postpartum events list
+   * @param index - Array index
+   * @param event - Postpartum event
+   * @returns Unique identifier
+   */
+  trackByEvent(index: number, event: PostpartumEvent): string {
+    return `${event.dayAfterBirth}-${event.type}-${index}`;
+  }
+}
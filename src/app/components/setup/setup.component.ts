@@ -1,24 +1,48 @@
-import { Component, Output, EventEmitter, OnInit } from '@angular/core';
+import { Component, Output, EventEmitter, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormBuilder, FormGroup, Validators, ReactiveFormsModule } from '@angular/forms';
-import { UserPreferences, ThemeColor } from '../../models/pregnancy.models';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import {
+  UserPreferences,
+  ThemeColor,
+  DatingMethod,
+  PregnancyDating,
+  Plurality,
+  GuidelineProfile,
+  DateFormat,
+  Language,
+  TextDirection,
+  AppMode,
+} from '../../models/pregnancy.models';
 import { ThemeService } from '../../services/theme/theme.service';
-import { parseLocalDate } from '../../utilities/parse-date';
+import { PregnancyCalculatorService } from '../../services/pregnancy-calculator/pregnancy-calculator.service';
+import { ClockService } from '../../services/clock/clock.service';
+import { DateFormatService } from '../../services/date-format/date-format.service';
+import { I18nService } from '../../services/i18n/i18n.service';
+import { formatLocalDate } from '../../utilities/parse-date';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
 
 /**
  * Setup component for first-time users
- * Collects Last Menstrual Period date and user preferences
+ * Collects pregnancy dating information (LMP, conception, IVF transfer or
+ * early ultrasound) and user preferences, or the last period for users who
+ * are trying to conceive
  */
 @Component({
   selector: 'app-setup',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule],
+  imports: [CommonModule, ReactiveFormsModule, TranslatePipe],
   templateUrl: './setup.component.html',
   styleUrls: ['./setup.component.scss'],
 })
-export class SetupComponent implements OnInit {
+export class SetupComponent implements OnInit, OnDestroy {
   @Output() setupComplete = new EventEmitter<UserPreferences>();
 
+  /** Subject for component cleanup */
+  private destroy$ = new Subject<void>();
+
   setupForm: FormGroup;
   availableThemes: Array<{
     value: ThemeColor;
@@ -26,6 +50,30 @@ export class SetupComponent implements OnInit {
     description: string;
     primaryColor: string;
   }> = [];
+  availableDatingMethods: Array<{
+    value: DatingMethod;
+    label: string;
+    description: string;
+    dateLabel: string;
+  }> = [];
+  availablePluralities: Array<{ value: Plurality; label: string; babyCount: number }> = [];
+  availableGuidelineProfiles: Array<{
+    value: GuidelineProfile;
+    label: string;
+    description: string;
+  }> = [];
+  availableDateFormats: Array<{
+    value: DateFormat;
+    label: string;
+    description: string;
+    example: string;
+  }> = [];
+  availableLanguages: Array<{ value: Language; label: string; direction: TextDirection }> = [];
+  crownRumpLengthRange = { min: 0, max: 0 };
+  cycleLengthRanges = {
+    cycleLength: { min: 0, max: 0 },
+    lutealPhase: { min: 0, max: 0 },
+  };
 
   isSubmitting = false;
   maxLmpDate: string = '';
@@ -33,16 +81,86 @@ export class SetupComponent implements OnInit {
 
   constructor(
     private formBuilder: FormBuilder,
-    private themeService: ThemeService
+    private themeService: ThemeService,
+    private pregnancyCalculatorService: PregnancyCalculatorService,
+    private clockService: ClockService,
+    private dateFormatService: DateFormatService,
+    private i18nService: I18nService
   ) {
+    this.crownRumpLengthRange = this.pregnancyCalculatorService.getCrownRumpLengthRange();
+    this.cycleLengthRanges = this.pregnancyCalculatorService.getCycleLengthRanges();
     this.setupForm = this.createForm();
     this.setDateConstraints();
   }
 
   ngOnInit(): void {
-    this.availableThemes = this.themeService.getAvailableThemes();
-    // Set default theme for preview
+    this.availableLanguages = this.i18nService.getAvailableLanguages();
+    // Option labels are translated, so rebuild them whenever the language changes
+    this.i18nService
+      .getLanguage()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => this.loadOptions());
+
+    // Set default theme and language for preview
     this.onThemePreview('neutral');
+    this.onLanguagePreview(this.setupForm.get('language')?.value);
+    this.setupForm
+      .get('language')
+      ?.valueChanges.pipe(takeUntil(this.destroy$))
+      .subscribe((language: Language) => this.onLanguagePreview(language));
+
+    // Cycle tracking starts from the last period, so it always uses LMP dating
+    this.setupForm
+      .get('mode')
+      ?.valueChanges.pipe(takeUntil(this.destroy$))
+      .subscribe((mode: AppMode) => this.onModeChange(mode));
+
+    // Crown-rump length only applies to ultrasound dating, cycle details only to LMP dating
+    this.setupForm
+      .get('datingMethod')
+      ?.valueChanges.pipe(takeUntil(this.destroy$))
+      .subscribe((method: DatingMethod) => this.onDatingMethodChange(method));
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Gets the date input label for the selected dating method
+   * @returns Label text for the dating date input
+   */
+  getDatingDateLabel(): string {
+    const method = this.setupForm.get('datingMethod')?.value;
+    const option = this.availableDatingMethods.find(item => item.value === method);
+    return (
+      option?.dateLabel || this.i18nService.translateContent('Last Menstrual Period (LMP) Date')
+    );
+  }
+
+  /**
+   * Checks whether the user is setting up cycle tracking rather than a pregnancy
+   * @returns Boolean indicating if preconception tracking is selected
+   */
+  isPreconception(): boolean {
+    return this.setupForm.get('mode')?.value === 'preconception';
+  }
+
+  /**
+   * Checks whether the ultrasound crown-rump length field is required
+   * @returns Boolean indicating if ultrasound dating is selected
+   */
+  isUltrasoundDating(): boolean {
+    return this.setupForm.get('datingMethod')?.value === 'ultrasound-crl';
+  }
+
+  /**
+   * Checks whether the optional cycle details apply to the selected method
+   * @returns Boolean indicating if LMP dating is selected
+   */
+  isLmpDating(): boolean {
+    return this.setupForm.get('datingMethod')?.value === 'lmp';
   }
 
   /**
@@ -51,42 +169,110 @@ export class SetupComponent implements OnInit {
    */
   private createForm(): FormGroup {
     return this.formBuilder.group({
-      lmpDate: ['', [Validators.required, this.dateValidator.bind(this)]],
+      mode: ['pregnancy', Validators.required],
+      datingMethod: ['lmp', Validators.required],
+      datingDate: ['', [Validators.required, this.dateValidator.bind(this)]],
+      crownRumpLength: [
+        { value: null, disabled: true },
+        [
+          Validators.required,
+          Validators.min(this.crownRumpLengthRange.min),
+          Validators.max(this.crownRumpLengthRange.max),
+        ],
+      ],
+      cycleLength: [
+        null,
+        [
+          Validators.min(this.cycleLengthRanges.cycleLength.min),
+          Validators.max(this.cycleLengthRanges.cycleLength.max),
+        ],
+      ],
+      lutealPhase: [
+        null,
+        [
+          Validators.min(this.cycleLengthRanges.lutealPhase.min),
+          Validators.max(this.cycleLengthRanges.lutealPhase.max),
+        ],
+      ],
+      plurality: ['singleton', Validators.required],
+      guidelineProfile: ['acog', Validators.required],
+      dateFormat: [this.dateFormatService.DEFAULT_DATE_FORMAT, Validators.required],
+      language: [this.i18nService.detectLanguage(), Validators.required],
       themeColor: ['neutral', Validators.required],
       disclaimerAccepted: [false, Validators.requiredTrue],
     });
   }
 
   /**
-   * Sets minimum and maximum date constraints for LMP input
+   * Loads the translated option lists for the form's selects
    * @private
    */
-  private setDateConstraints(): void {
-    const today = parseLocalDate();
-    const oneYearAgo = parseLocalDate();
-    oneYearAgo.setFullYear(today.getFullYear() - 1);
+  private loadOptions(): void {
+    this.availableThemes = this.themeService.getAvailableThemes();
+    this.availableDatingMethods = this.pregnancyCalculatorService.getAvailableDatingMethods();
+    this.availablePluralities = this.pregnancyCalculatorService.getAvailablePluralities();
+    this.availableGuidelineProfiles =
+      this.pregnancyCalculatorService.getAvailableGuidelineProfiles();
+    this.availableDateFormats = this.dateFormatService.getAvailableDateFormats();
+  }
 
-    // Maximum LMP date is today (very early pregnancy)
-    this.maxLmpDate = this.formatDateForInput(today);
+  /**
+   * Switches to LMP dating when the user chooses to track cycles
+   * @param mode - Newly selected tracking mode
+   * @private
+   */
+  private onModeChange(mode: AppMode): void {
+    if (mode === 'preconception') {
+      this.setupForm.get('datingMethod')?.setValue('lmp');
+    }
+  }
 
-    // Minimum LMP date is one year ago (covers most pregnancy scenarios)
-    this.minLmpDate = this.formatDateForInput(oneYearAgo);
+  /**
+   * Enables or disables method-specific fields when the dating method changes
+   * @param method - Newly selected dating method
+   * @private
+   */
+  private onDatingMethodChange(method: DatingMethod): void {
+    this.toggleControl('crownRumpLength', method === 'ultrasound-crl');
+    this.toggleControl('cycleLength', method === 'lmp');
+    this.toggleControl('lutealPhase', method === 'lmp');
   }
 
   /**
-   * Formats date for HTML date input
-   * @param date - Date to format
-   * @returns Date string in YYYY-MM-DD format
+   * Enables a form control, or clears and disables it
+   * @param controlName - Name of the form control
+   * @param enabled - Whether the control should be enabled
    * @private
    */
-  private formatDateForInput(date: Date): string {
-    return date.toISOString().split('T')[0];
+  private toggleControl(controlName: string, enabled: boolean): void {
+    const control = this.setupForm.get(controlName);
+
+    if (enabled) {
+      control?.enable();
+    } else {
+      control?.reset();
+      control?.disable();
+    }
   }
 
   /**
-   * Custom validator for LMP date
+   * Sets minimum and maximum date constraints for the dating date input
+   * @private
+   */
+  private setDateConstraints(): void {
+    const today = this.clockService.calendarToday();
+
+    // Maximum dating date is today (very early pregnancy)
+    this.maxLmpDate = today.toString();
+
+    // Minimum dating date is one year ago (covers most pregnancy scenarios)
+    this.minLmpDate = today.addYears(-1).toString();
+  }
+
+  /**
+   * Custom validator for the dating reference date
    * @param control - Form control to validate
-   * @returns Validation error object or null
+   * @returns Validation error object (with the message key to show) or null
    * @private
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -95,22 +281,15 @@ export class SetupComponent implements OnInit {
       return null; // Let required validator handle empty values
     }
 
-    const selectedDate = parseLocalDate(control.value);
-    const today = parseLocalDate();
-    const oneYearAgo = parseLocalDate();
-    oneYearAgo.setFullYear(today.getFullYear() - 1);
+    const selectedDate = CalendarDate.parse(control.value);
+    const today = this.clockService.calendarToday();
 
-    // Reset time to compare dates only
-    selectedDate.setHours(0, 0, 0, 0);
-    today.setHours(23, 59, 59, 999); // Allow today
-    oneYearAgo.setHours(0, 0, 0, 0);
-
-    if (selectedDate > today) {
-      return { futureDate: { message: 'LMP date cannot be in the future' } };
+    if (selectedDate.isAfter(today)) {
+      return { futureDate: { messageKey: 'validation.futureDate' } };
     }
 
-    if (selectedDate < oneYearAgo) {
-      return { tooOld: { message: 'Please enter a more recent LMP date' } };
+    if (selectedDate.isBefore(today.addYears(-1))) {
+      return { tooOld: { messageKey: 'validation.tooOld' } };
     }
 
     return null;
@@ -127,7 +306,7 @@ export class SetupComponent implements OnInit {
   }
 
   /**
-   * Gets the error message for a form field
+   * Gets the error message for a form field in the display language
    * @param fieldName - Name of the form field
    * @returns Error message string
    */
@@ -137,11 +316,26 @@ export class SetupComponent implements OnInit {
 
     const errors = field.errors;
 
-    if (errors['required']) return 'This field is required';
-    if (errors['futureDate']) return errors['futureDate'].message;
-    if (errors['tooOld']) return errors['tooOld'].message;
+    if (errors['required']) return this.i18nService.translate('validation.required');
+    if (errors['futureDate']) return this.i18nService.translate(errors['futureDate'].messageKey);
+    if (errors['tooOld']) return this.i18nService.translate(errors['tooOld'].messageKey);
+    if (errors['min'] || errors['max']) {
+      return this.i18nService.translate('validation.range', this.getFieldRange(fieldName));
+    }
 
-    return 'Please enter a valid value';
+    return this.i18nService.translate('validation.invalid');
+  }
+
+  /**
+   * Gets the accepted numeric range for a form field
+   * @param fieldName - Name of the form field
+   * @returns Minimum and maximum accepted values
+   * @private
+   */
+  private getFieldRange(fieldName: string): { min: number; max: number } {
+    if (fieldName === 'cycleLength') return this.cycleLengthRanges.cycleLength;
+    if (fieldName === 'lutealPhase') return this.cycleLengthRanges.lutealPhase;
+    return this.crownRumpLengthRange;
   }
 
   /**
@@ -152,6 +346,14 @@ export class SetupComponent implements OnInit {
     this.themeService.setTheme(themeColor);
   }
 
+  /**
+   * Shows the app in the selected language while setting up
+   * @param language - Selected language
+   */
+  onLanguagePreview(language: Language): void {
+    this.i18nService.setLanguage(language);
+  }
+
   /**
    * Handles form submission
    */
@@ -167,18 +369,68 @@ export class SetupComponent implements OnInit {
     setTimeout(() => {
       const formValue = this.setupForm.value;
 
+      if (formValue.mode === 'preconception') {
+        this.setupComplete.emit(this.createPreconceptionPreferences());
+        this.isSubmitting = false;
+        return;
+      }
+
+      const dating: PregnancyDating = {
+        method: formValue.datingMethod,
+        referenceDate: formValue.datingDate,
+      };
+      if (dating.method === 'ultrasound-crl') {
+        dating.crownRumpLengthMm = Number(formValue.crownRumpLength);
+      }
+
       const preferences: UserPreferences = {
-        lmpDate: formValue.lmpDate,
+        lmpDate: formatLocalDate(this.pregnancyCalculatorService.calculateEquivalentLmp(dating)),
+        dating,
+        plurality: formValue.plurality,
+        guidelineProfile: formValue.guidelineProfile,
         themeColor: formValue.themeColor,
         viewMode: 'summary', // Default to summary view
-        dateFormat: 'MM/DD/YYYY',
+        dateFormat: formValue.dateFormat,
+        language: formValue.language,
       };
+      if (dating.method === 'lmp') {
+        if (formValue.cycleLength) {
+          preferences.cycleLengthDays = Number(formValue.cycleLength);
+        }
+        if (formValue.lutealPhase) {
+          preferences.lutealPhaseDays = Number(formValue.lutealPhase);
+        }
+      }
 
       this.setupComplete.emit(preferences);
       this.isSubmitting = false;
     }, 1000);
   }
 
+  /**
+   * Builds the preferences for cycle tracking, logging the last period as the first entry
+   * @returns User preferences without a pregnancy LMP
+   * @private
+   */
+  private createPreconceptionPreferences(): UserPreferences {
+    const formValue = this.setupForm.value;
+    const preferences: UserPreferences = {
+      lmpDate: '',
+      periodLog: [formValue.datingDate],
+      themeColor: formValue.themeColor,
+      viewMode: 'summary',
+      dateFormat: formValue.dateFormat,
+      language: formValue.language,
+    };
+    if (formValue.cycleLength) {
+      preferences.cycleLengthDays = Number(formValue.cycleLength);
+    }
+    if (formValue.lutealPhase) {
+      preferences.lutealPhaseDays = Number(formValue.lutealPhase);
+    }
+    return preferences;
+  }
+
   /**
    * Marks all form fields as touched to trigger validation display
    * @private
@@ -1,6 +1,25 @@
-import { Component, Input } from '@angular/core';
+import { Component, Input, Output, EventEmitter, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { PregnancySummary, UserPreferences } from '../../models/pregnancy.models';
+import { Subject } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import {
+  BiometryEntry,
+  BirthRecord,
+  GuidelineProfile,
+  KeyDate,
+  LeaveSettings,
+  PregnancySummary,
+  UltrasoundDatingScan,
+  UserPreferences,
+} from '../../models/pregnancy.models';
+import { UltrasoundRedatingComponent } from '../ultrasound-redating/ultrasound-redating.component';
+import { BiometryLogComponent } from '../biometry-log/biometry-log.component';
+import { LeavePlannerComponent } from '../leave-planner/leave-planner.component';
+import { BirthRecordComponent } from '../birth-record/birth-record.component';
+import { PregnancyCalculatorService } from '../../services/pregnancy-calculator/pregnancy-calculator.service';
+import { I18nService } from '../../services/i18n/i18n.service';
+import { MessageKey } from '../../i18n/messages.en';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
 
 /**
  * Summary view component that displays pregnancy overview
@@ -9,13 +28,83 @@ import { PregnancySummary, UserPreferences } from '../../models/pregnancy.models
 @Component({
   selector: 'app-summary-view',
   standalone: true,
-  imports: [CommonModule],
+  imports: [
+    CommonModule,
+    UltrasoundRedatingComponent,
+    BiometryLogComponent,
+    LeavePlannerComponent,
+    BirthRecordComponent,
+    TranslatePipe,
+  ],
   templateUrl: './summary-view.component.html',
   styleUrls: ['./summary-view.component.scss'],
 })
-export class SummaryViewComponent {
+export class SummaryViewComponent implements OnDestroy {
   @Input() summary: PregnancySummary | null = null;
   @Input() preferences: UserPreferences | null = null;
+  @Output() datingScanChange = new EventEmitter<UltrasoundDatingScan | null>();
+  @Output() biometryChange = new EventEmitter<BiometryEntry[]>();
+  @Output() guidelineProfileChange = new EventEmitter<GuidelineProfile>();
+  @Output() leaveChange = new EventEmitter<LeaveSettings | null>();
+  @Output() birthChange = new EventEmitter<BirthRecord | null>();
+
+  /** Subject for component cleanup */
+  private destroy$ = new Subject<void>();
+
+  availableGuidelineProfiles: Array<{
+    value: GuidelineProfile;
+    label: string;
+    description: string;
+  }> = [];
+
+  constructor(
+    private pregnancyCalculatorService: PregnancyCalculatorService,
+    private i18nService: I18nService
+  ) {
+    // Option labels are translated, so rebuild them whenever the language changes
+    this.i18nService
+      .getLanguage()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.availableGuidelineProfiles =
+          this.pregnancyCalculatorService.getAvailableGuidelineProfiles();
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Gets the prenatal care guideline the appointment schedule follows
+   * @returns Selected guideline profile (ACOG when not set)
+   */
+  getSelectedGuidelineProfile(): GuidelineProfile {
+    return this.preferences?.guidelineProfile ?? 'acog';
+  }
+
+  /**
+   * Gets the description of the selected prenatal care guideline
+   * @returns Guideline description
+   */
+  getGuidelineDescription(): string {
+    const selected = this.getSelectedGuidelineProfile();
+    return (
+      this.availableGuidelineProfiles.find(option => option.value === selected)?.description ?? ''
+    );
+  }
+
+  /**
+   * Handles a change of prenatal care guideline
+   * @param event - Change event from the guideline select
+   */
+  onGuidelineProfileSelect(event: Event): void {
+    const value = (event.target as HTMLSelectElement).value as GuidelineProfile;
+    if (value !== this.getSelectedGuidelineProfile()) {
+      this.guidelineProfileChange.emit(value);
+    }
+  }
 
   /**
    * Gets display-friendly trimester name
@@ -23,12 +112,12 @@ export class SummaryViewComponent {
    * @returns Formatted trimester name
    */
   getTrismesterDisplay(trimester: string): string {
-    const trimesterMap: { [key: string]: string } = {
-      first: 'First',
-      second: 'Second',
-      third: 'Third',
+    const trimesterMap: { [key: string]: MessageKey } = {
+      first: 'trimester.first',
+      second: 'trimester.second',
+      third: 'trimester.third',
     };
-    return trimesterMap[trimester] || 'Unknown';
+    return this.i18nService.translate(trimesterMap[trimester] ?? 'trimester.unknown');
   }
 
   /**
@@ -37,15 +126,12 @@ export class SummaryViewComponent {
    * @returns Description text
    */
   getTrimesterDescription(trimester: string): string {
-    const descriptions: { [key: string]: string } = {
-      first:
-        "The foundation stage of your pregnancy. Your baby's organs are forming and early development is crucial.",
-      second:
-        'Often called the "golden period" - you may feel more energetic and comfortable during these weeks.',
-      third:
-        'The final stretch! Your baby is growing rapidly and preparing for life outside the womb.',
+    const descriptions: { [key: string]: MessageKey } = {
+      first: 'summary.firstDescription',
+      second: 'summary.secondDescription',
+      third: 'summary.thirdDescription',
     };
-    return descriptions[trimester] || 'Important stage of your pregnancy journey.';
+    return this.i18nService.translate(descriptions[trimester] ?? 'summary.defaultDescription');
   }
 
   /**
@@ -54,30 +140,30 @@ export class SummaryViewComponent {
    * @returns Array of key features
    */
   getTrimesterFeatures(trimester: string): string[] {
-    const features: { [key: string]: string[] } = {
+    const features: { [key: string]: MessageKey[] } = {
       first: [
-        'Morning sickness may occur',
-        'Fatigue is common',
-        'Important organ development',
-        'First prenatal appointments',
-        'Folic acid supplementation crucial',
+        'summary.firstMorningSickness',
+        'summary.firstFatigue',
+        'summary.firstOrgans',
+        'summary.firstAppointments',
+        'summary.firstFolicAcid',
       ],
       second: [
-        'Energy levels typically improve',
-        'Baby movements may be felt',
-        'Anatomy scan around week 20',
-        'Gender may be determined',
-        'Belly starts to show more',
+        'summary.secondEnergy',
+        'summary.secondMovements',
+        'summary.secondAnatomyScan',
+        'summary.secondGender',
+        'summary.secondBelly',
       ],
       third: [
-        'Frequent doctor visits',
-        'Baby movements are strong',
-        'Prepare for delivery',
-        'Monitor for labor signs',
-        'Final preparations for baby',
+        'summary.thirdVisits',
+        'summary.thirdMovements',
+        'summary.thirdDelivery',
+        'summary.thirdLaborSigns',
+        'summary.thirdPreparations',
       ],
     };
-    return features[trimester] || [];
+    return (features[trimester] ?? []).map(key => this.i18nService.translate(key));
   }
 
   /**
@@ -99,4 +185,14 @@ export class SummaryViewComponent {
   trackByAppointment(index: number, appointment: string): string {
     return `appointment-${index}-${appointment.substring(0, 10)}`;
   }
+
+  /**
+   * Track by function for key dates list
+   * @param index - Array index
+   * @param keyDate - Key date
+   * @returns Unique identifier
+   */
+  trackByKeyDate(index: number, keyDate: KeyDate): string {
+    return keyDate.type;
+  }
 }
@@ -1,6 +1,8 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
 
 import { TableViewComponent } from './table-view.component';
+import { ClockService } from '../../services/clock/clock.service';
+import { PregnancyCalculatorService } from '../../services/pregnancy-calculator/pregnancy-calculator.service';
 
 describe('TableViewComponent', () => {
   let component: TableViewComponent;
@@ -19,4 +21,17 @@ describe('TableViewComponent', () => {
   it('should create', () => {
     expect(component).toBeTruthy();
   });
+
+  it('should highlight the previewed date', () => {
+    const clockService = TestBed.inject(ClockService);
+    const days = TestBed.inject(PregnancyCalculatorService).generatePregnancyCalendar(
+      new Date(2025, 0, 1)
+    );
+
+    clockService.setPreviewDate(new Date(2025, 4, 21));
+
+    expect(days.filter(day => component.isToday(day)).map(day => day.dayNumber)).toEqual([141]);
+    expect(component.getTodayLabel()).toBe('Preview');
+    clockService.clearPreviewDate();
+  });
 });
@@ -1,18 +1,29 @@
 import { Component, Input, OnInit, OnChanges, SimpleChanges } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { PregnancyDay, UserPreferences, MonthFilter } from '../../models/pregnancy.models';
+import {
+  PregnancyDay,
+  UserPreferences,
+  MonthFilter,
+  FetalStats,
+  FetalGrowthEstimate,
+} from '../../models/pregnancy.models';
 import { PregnancyCalculatorService } from '../../services/pregnancy-calculator/pregnancy-calculator.service';
-import { parseLocalDate } from '../../utilities/parse-date';
+import { ClockService } from '../../services/clock/clock.service';
+import { DateFormatService } from '../../services/date-format/date-format.service';
+import { I18nService } from '../../services/i18n/i18n.service';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { MessageKey } from '../../i18n/messages.en';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
 
 /**
  * Table view component that displays detailed pregnancy calendar
- * Shows all 280 days with filtering by month capability
+ * Shows every day through 42 6/7 weeks with filtering by month capability
  */
 @Component({
   selector: 'app-table-view',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, TranslatePipe],
   templateUrl: './table-view.component.html',
   styleUrls: ['./table-view.component.scss'],
 })
@@ -24,7 +35,12 @@ export class TableViewComponent implements OnInit, OnChanges {
   selectedMonthFilter: string = '';
   filteredDays: PregnancyDay[] = [];
 
-  constructor(private pregnancyCalculatorService: PregnancyCalculatorService) {}
+  constructor(
+    private pregnancyCalculatorService: PregnancyCalculatorService,
+    private clockService: ClockService,
+    private dateFormatService: DateFormatService,
+    private i18nService: I18nService
+  ) {}
 
   ngOnInit(): void {
     this.initializeData();
@@ -48,7 +64,7 @@ export class TableViewComponent implements OnInit, OnChanges {
     }
 
     // Generate month filters
-    const lmpDate = parseLocalDate(this.preferences.lmpDate);
+    const lmpDate = this.pregnancyCalculatorService.getGestationalLmp(this.preferences);
     this.monthFilters = this.pregnancyCalculatorService.generateMonthFilters(lmpDate);
 
     // Initialize filtered days
@@ -91,6 +107,26 @@ export class TableViewComponent implements OnInit, OnChanges {
     return this.monthFilters.find(filter => this.getFilterKey(filter) === this.selectedMonthFilter);
   }
 
+  /**
+   * Gets the date range of the selected month filter in the user's date format
+   * @returns Formatted date range, or empty string without a filter
+   */
+  getSelectedMonthRange(): string {
+    const selectedFilter = this.getSelectedMonthInfo();
+    return selectedFilter
+      ? this.dateFormatService.formatRange(selectedFilter.startDate, selectedFilter.endDate)
+      : '';
+  }
+
+  /**
+   * Gets the short weekday name of a pregnancy day
+   * @param day - PregnancyDay object
+   * @returns Weekday name (e.g. "Wed")
+   */
+  getWeekday(day: PregnancyDay): string {
+    return this.dateFormatService.formatWeekday(day.date);
+  }
+
   /**
    * Generates a unique key for month filter
    * @param filter - MonthFilter object
@@ -106,12 +142,29 @@ export class TableViewComponent implements OnInit, OnChanges {
    * @returns Formatted trimester name
    */
   getTrismesterDisplay(trimester: string): string {
-    const trimesterMap: { [key: string]: string } = {
-      first: '1st',
-      second: '2nd',
-      third: '3rd',
+    const trimesterMap: { [key: string]: MessageKey } = {
+      first: 'trimester.firstShort',
+      second: 'trimester.secondShort',
+      third: 'trimester.thirdShort',
     };
-    return trimesterMap[trimester] || '—';
+    return trimesterMap[trimester] ? this.i18nService.translate(trimesterMap[trimester]) : '—';
+  }
+
+  /**
+   * Gets display-friendly term category name
+   * @param termCategory - Term category identifier
+   * @returns Short term category name
+   */
+  getTermCategoryDisplay(termCategory: string): string {
+    const termCategoryMap: { [key: string]: MessageKey } = {
+      'early-term': 'term.earlyTerm',
+      'full-term': 'term.fullTerm',
+      'late-term': 'term.lateTerm',
+      'post-term': 'term.postTerm',
+    };
+    return termCategoryMap[termCategory]
+      ? this.i18nService.translate(termCategoryMap[termCategory])
+      : '';
   }
 
   /**
@@ -138,6 +191,55 @@ export class TableViewComponent implements OnInit, OnChanges {
     return this.filteredDays.filter(day => day.appointments && day.appointments.length > 0).length;
   }
 
+  /**
+   * Gets the display label for a fetal length measurement
+   * @param lengthType - How the length is measured
+   * @returns Short label for the length value
+   */
+  getLengthLabel(lengthType: FetalGrowthEstimate['lengthType']): string {
+    return this.i18nService.translate(
+      lengthType === 'crown-rump' ? 'table.crownRumpLength' : 'table.length'
+    );
+  }
+
+  /**
+   * Checks whether a day has separate size estimates for more than one baby
+   * @param day - PregnancyDay object
+   * @returns Boolean indicating if per-baby stats should be shown
+   */
+  hasMultipleBabies(day: PregnancyDay): boolean {
+    return (day.fetalStats?.length ?? 0) > 1;
+  }
+
+  /**
+   * Track by function for per-baby fetal stats
+   * @param index - Array index
+   * @param baby - FetalStats object
+   * @returns Unique identifier
+   */
+  trackByBabyLabel(index: number, baby: FetalStats): string {
+    return baby.babyLabel;
+  }
+
+  /**
+   * Checks whether a pregnancy day is today (or the previewed date)
+   * @param day - PregnancyDay object
+   * @returns Boolean indicating if the row should be highlighted
+   */
+  isToday(day: PregnancyDay): boolean {
+    return CalendarDate.fromDate(day.date).equals(this.clockService.calendarToday());
+  }
+
+  /**
+   * Gets the label for the highlighted day
+   * @returns "Preview" while previewing another date, otherwise "Today"
+   */
+  getTodayLabel(): string {
+    return this.i18nService.translate(
+      this.clockService.isPreviewing() ? 'table.preview' : 'table.today'
+    );
+  }
+
   /**
    * Track by function for pregnancy days
    * @param index - Array index
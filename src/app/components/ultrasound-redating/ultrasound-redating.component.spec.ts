@@ -0,0 +1,54 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { UltrasoundRedatingComponent } from './ultrasound-redating.component';
+
+describe('UltrasoundRedatingComponent', () => {
+  let component: UltrasoundRedatingComponent;
+  let fixture: ComponentFixture<UltrasoundRedatingComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [UltrasoundRedatingComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(UltrasoundRedatingComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should emit a CRL scan on submit', () => {
+    const emitSpy = spyOn(component.scanChange, 'emit');
+
+    component.scanForm.patchValue({ scanDate: '2025-01-10', crownRumpLength: 45 });
+    component.onSubmit();
+
+    expect(emitSpy).toHaveBeenCalledWith({ scanDate: '2025-01-10', crownRumpLengthMm: 45 });
+  });
+
+  it('should convert a reported gestational age to days', () => {
+    const emitSpy = spyOn(component.scanChange, 'emit');
+
+    component.scanForm.patchValue({
+      scanDate: '2025-01-10',
+      measurementType: 'gestational-age',
+      gestationalWeeks: 12,
+      gestationalDays: 3,
+    });
+    component.onSubmit();
+
+    expect(emitSpy).toHaveBeenCalledWith({ scanDate: '2025-01-10', gestationalAgeDays: 87 });
+  });
+
+  it('should not emit without a measurement', () => {
+    const emitSpy = spyOn(component.scanChange, 'emit');
+
+    component.scanForm.patchValue({ scanDate: '2025-01-10' });
+    component.onSubmit();
+
+    expect(emitSpy).not.toHaveBeenCalled();
+  });
+});
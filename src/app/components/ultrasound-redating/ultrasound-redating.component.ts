@@ -0,0 +1,199 @@
+import { Component, Input, Output, EventEmitter } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+  AbstractControl,
+  FormBuilder,
+  FormGroup,
+  ReactiveFormsModule,
+  ValidationErrors,
+  Validators,
+} from '@angular/forms';
+import {
+  RedatingAssessment,
+  UltrasoundDatingScan,
+  UserPreferences,
+} from '../../models/pregnancy.models';
+import { PregnancyCalculatorService } from '../../services/pregnancy-calculator/pregnancy-calculator.service';
+import { ClockService } from '../../services/clock/clock.service';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { I18nService } from '../../services/i18n/i18n.service';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
+
+/** How the scan result is entered */
+type ScanMeasurementType = 'crl' | 'gestational-age';
+
+/**
+ * Ultrasound re-dating component
+ * Collects a dating scan and shows whether it revised the estimated due date
+ */
+@Component({
+  selector: 'app-ultrasound-redating',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, TranslatePipe],
+  templateUrl: './ultrasound-redating.component.html',
+  styleUrls: ['./ultrasound-redating.component.scss'],
+})
+export class UltrasoundRedatingComponent {
+  @Input() preferences: UserPreferences | null = null;
+  @Input() assessment: RedatingAssessment | null = null;
+  @Output() scanChange = new EventEmitter<UltrasoundDatingScan | null>();
+
+  scanForm: FormGroup;
+  isEditing = false;
+  submitError: string | null = null;
+  maxScanDate: string = '';
+  crownRumpLengthRange = { min: 0, max: 0 };
+
+  constructor(
+    private formBuilder: FormBuilder,
+    private pregnancyCalculatorService: PregnancyCalculatorService,
+    private clockService: ClockService,
+    private i18nService: I18nService
+  ) {
+    this.crownRumpLengthRange = this.pregnancyCalculatorService.getCrownRumpLengthRange();
+    this.maxScanDate = this.clockService.calendarToday().toString();
+    this.scanForm = this.createForm();
+  }
+
+  /**
+   * Checks whether the scan form should be displayed
+   * @returns Boolean indicating if the form is visible
+   */
+  isFormVisible(): boolean {
+    return this.isEditing || !this.preferences?.datingScan;
+  }
+
+  /**
+   * Gets the selected measurement type
+   * @returns Selected measurement type
+   */
+  getMeasurementType(): ScanMeasurementType {
+    return this.scanForm.get('measurementType')?.value;
+  }
+
+  /**
+   * Opens the form pre-filled with the stored scan
+   */
+  startEditing(): void {
+    const scan = this.preferences?.datingScan;
+    const gestationalAgeDays = scan?.gestationalAgeDays;
+
+    this.scanForm.reset({
+      scanDate: scan?.scanDate ?? '',
+      measurementType: gestationalAgeDays !== undefined ? 'gestational-age' : 'crl',
+      crownRumpLength: scan?.crownRumpLengthMm ?? null,
+      gestationalWeeks:
+        gestationalAgeDays !== undefined ? Math.floor(gestationalAgeDays / 7) : null,
+      gestationalDays: gestationalAgeDays !== undefined ? gestationalAgeDays % 7 : null,
+    });
+    this.submitError = null;
+    this.isEditing = true;
+  }
+
+  /**
+   * Closes the form without saving
+   */
+  cancelEditing(): void {
+    this.submitError = null;
+    this.isEditing = false;
+  }
+
+  /**
+   * Removes the stored scan, returning to the original dating
+   */
+  removeScan(): void {
+    this.isEditing = false;
+    this.scanChange.emit(null);
+  }
+
+  /**
+   * Checks if a form field is invalid and has been touched
+   * @param fieldName - Name of the form field
+   * @returns Boolean indicating if field should show error state
+   */
+  isFieldInvalid(fieldName: string): boolean {
+    const field = this.scanForm.get(fieldName);
+    return !!(field && field.invalid && (field.dirty || field.touched));
+  }
+
+  /**
+   * Handles form submission
+   */
+  onSubmit(): void {
+    const formValue = this.scanForm.value;
+    const measurementType: ScanMeasurementType = formValue.measurementType;
+    const measurementMissing =
+      measurementType === 'crl'
+        ? formValue.crownRumpLength === null || formValue.crownRumpLength === ''
+        : formValue.gestationalWeeks === null || formValue.gestationalWeeks === '';
+
+    if (this.scanForm.invalid || measurementMissing) {
+      this.scanForm.markAllAsTouched();
+      return;
+    }
+
+    const scan: UltrasoundDatingScan = { scanDate: formValue.scanDate };
+    if (measurementType === 'crl') {
+      scan.crownRumpLengthMm = Number(formValue.crownRumpLength);
+    } else {
+      scan.gestationalAgeDays =
+        Number(formValue.gestationalWeeks) * 7 + Number(formValue.gestationalDays || 0);
+    }
+
+    // Check the scan against the current dating before saving it
+    if (this.preferences) {
+      try {
+        this.pregnancyCalculatorService.assessUltrasoundRedating(this.preferences, scan);
+      } catch (error) {
+        this.submitError =
+          error instanceof Error
+            ? error.message
+            : this.i18nService.translate('validation.invalidScan');
+        return;
+      }
+    }
+
+    this.submitError = null;
+    this.isEditing = false;
+    this.scanChange.emit(scan);
+  }
+
+  /**
+   * Creates the reactive form with validation
+   * @returns FormGroup instance
+   * @private
+   */
+  private createForm(): FormGroup {
+    return this.formBuilder.group({
+      scanDate: ['', [Validators.required, this.scanDateValidator.bind(this)]],
+      measurementType: ['crl' as ScanMeasurementType, Validators.required],
+      crownRumpLength: [
+        null,
+        [
+          Validators.min(this.crownRumpLengthRange.min),
+          Validators.max(this.crownRumpLengthRange.max),
+        ],
+      ],
+      gestationalWeeks: [null, [Validators.min(4), Validators.max(42)]],
+      gestationalDays: [null, [Validators.min(0), Validators.max(6)]],
+    });
+  }
+
+  /**
+   * Custom validator rejecting scan dates in the future
+   * @param control - Form control to validate
+   * @returns Validation error object (with the message key to show) or null
+   * @private
+   */
+  private scanDateValidator(control: AbstractControl): ValidationErrors | null {
+    if (!control.value) {
+      return null; // Let required validator handle empty values
+    }
+
+    if (CalendarDate.parse(control.value).isAfter(this.clockService.calendarToday())) {
+      return { futureDate: { messageKey: 'validation.futureScanDate' } };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,22 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { WellBabyTimelineComponent } from './well-baby-timeline.component';
+
+describe('WellBabyTimelineComponent', () => {
+  let component: WellBabyTimelineComponent;
+  let fixture: ComponentFixture<WellBabyTimelineComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [WellBabyTimelineComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(WellBabyTimelineComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
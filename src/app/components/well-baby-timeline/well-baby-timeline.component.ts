@@ -0,0 +1,38 @@
+import { Component, Input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { WellBabyEvent } from '../../models/pregnancy.models';
+import { TranslatePipe } from '../../pipes/translate/translate.pipe';
+
+/**
+ * Well-baby timeline component
+ * Table of the well-baby visits and vaccinations in the baby's first year
+ */
+@Component({
+  selector: 'app-well-baby-timeline',
+  standalone: true,
+  imports: [CommonModule, TranslatePipe],
+  templateUrl: './well-baby-timeline.component.html',
+  styleUrls: ['./well-baby-timeline.component.scss'],
+})
+export class WellBabyTimelineComponent {
+  @Input() events: WellBabyEvent[] | null = null;
+
+  /**
+   * Checks whether an event is the next one due
+   * @param event - Well-baby event
+   * @returns Boolean indicating if the event is the first one not yet past
+   */
+  isNext(event: WellBabyEvent): boolean {
+    return this.events?.find(candidate => !candidate.isPast) === event;
+  }
+
+  /**
+   * Track by function for the timeline rows
+   * @param index - Array index
+   * @param event - Well-baby event
+   * @returns Unique identifier
+   */
+  trackByEvent(index: number, event: WellBabyEvent): string {
+    return `${event.type}-${event.title}`;
+  }
+}
@@ -0,0 +1,618 @@
+import { ContentCatalog } from './messages.en';
+
+/**
+ * Arabic translations of the calculator's built-in content, keyed by the English text
+ */
+export const AR_CONTENT: ContentCatalog = {
+  // Re-dating bands
+  'up to 8 6/7 weeks': 'حتى 8 أسابيع و6 أيام',
+  '9 0/7 to 15 6/7 weeks': 'من 9 أسابيع إلى 15 أسبوعًا و6 أيام',
+  '16 0/7 to 21 6/7 weeks': 'من 16 إلى 21 أسبوعًا و6 أيام',
+  '22 0/7 to 27 6/7 weeks': 'من 22 إلى 27 أسبوعًا و6 أيام',
+  '28 0/7 weeks and beyond': '28 أسبوعًا فأكثر',
+
+  // Term categories
+  'Preterm (before 37 weeks)': 'قبل الأوان (قبل 37 أسبوعًا)',
+  'Early term (37 0/7 to 38 6/7 weeks)': 'تمام مبكر (من 37 إلى 38 أسبوعًا و6 أيام)',
+  'Full term (39 0/7 to 40 6/7 weeks)': 'تمام كامل (من 39 إلى 40 أسبوعًا و6 أيام)',
+  'Late term (41 0/7 to 41 6/7 weeks)': 'تمام متأخر (41 أسبوعًا إلى 41 أسبوعًا و6 أيام)',
+  'Post-term (42 0/7 weeks and beyond)': 'بعد التمام (42 أسبوعًا فأكثر)',
+  'Early term begins - baby is now considered term':
+    'بداية التمام المبكر - يُعد الطفل الآن مكتمل النمو',
+  'Full term begins - the best time for baby to be born':
+    'بداية التمام الكامل - أفضل وقت لولادة الطفل',
+  'Late term begins - extra monitoring and induction are usually offered':
+    'بداية التمام المتأخر - تُعرض عادةً مراقبة إضافية وتحريض الولادة',
+  'Post-term - induction is recommended if labor has not started':
+    'بعد التمام - يُوصى بتحريض الولادة إذا لم يبدأ المخاض',
+
+  // Pluralities
+  Singleton: 'حمل بطفل واحد',
+  Twins: 'توائم',
+  Triplets: 'ثلاثة توائم',
+  'Term birth window (37 0/7 to 41 6/7 weeks)':
+    'فترة الولادة في التمام (من 37 إلى 41 أسبوعًا و6 أيام)',
+  'Planned birth is usually offered from 36 weeks (monochorionic) or 37 weeks (dichorionic)':
+    'تُعرض الولادة المخطط لها عادةً من الأسبوع 36 (أحادية المشيماء) أو الأسبوع 37 (ثنائية المشيماء)',
+  'Most triplets are born before 35 weeks; planned birth is usually offered from 35 weeks':
+    'يولد معظم الثلاثة قبل الأسبوع 35؛ وتُعرض الولادة المخطط لها عادةً من الأسبوع 35',
+  Baby: 'الطفل',
+  'Baby A': 'الطفل أ',
+  'Baby B': 'الطفل ب',
+  'Baby C': 'الطفل ج',
+
+  // Care guidelines
+  'ACOG (United States)': 'ACOG (الولايات المتحدة)',
+  'Visits every 4 weeks until 28 weeks, every 2 weeks until 36 weeks, then weekly':
+    'زيارة كل 4 أسابيع حتى الأسبوع 28، وكل أسبوعين حتى الأسبوع 36، ثم أسبوعيًا',
+  'NICE (United Kingdom)': 'NICE (المملكة المتحدة)',
+  'NICE antenatal care guideline: 10 midwife appointments in a first pregnancy, 7 in later pregnancies':
+    'دليل NICE لرعاية الحمل: 10 مواعيد مع القابلة في الحمل الأول و7 في الحمل اللاحق',
+  'WHO ANC (International)': 'منظمة الصحة العالمية (دولي)',
+  'WHO antenatal care model: at least 8 contacts, with one ultrasound scan before 24 weeks':
+    'نموذج منظمة الصحة العالمية لرعاية الحمل: 8 زيارات على الأقل مع فحص بالموجات فوق الصوتية قبل الأسبوع 24',
+
+  // Dating methods
+  'Last menstrual period': 'آخر دورة شهرية',
+  'First day of your last period': 'اليوم الأول من آخر دورة شهرية',
+  'Last Menstrual Period (LMP) Date': 'تاريخ آخر دورة شهرية',
+  'Conception date': 'تاريخ الإخصاب',
+  'Known date of conception or ovulation': 'تاريخ معروف للإخصاب أو الإباضة',
+  'Conception Date': 'تاريخ الإخصاب',
+  'IVF transfer (day 3 embryo)': 'نقل أجنة أطفال الأنابيب (جنين اليوم 3)',
+  'Day-3 embryo transfer date': 'تاريخ نقل جنين اليوم 3',
+  'Embryo Transfer Date': 'تاريخ نقل الأجنة',
+  'IVF transfer (day 5 blastocyst)': 'نقل أجنة أطفال الأنابيب (كيسة أريمية اليوم 5)',
+  'Day-5 blastocyst transfer date': 'تاريخ نقل الكيسة الأريمية في اليوم 5',
+  'First-trimester ultrasound': 'فحص بالموجات فوق الصوتية في الثلث الأول',
+  'Crown-rump length (CRL) measured at an early scan':
+    'طول الجنين من الرأس إلى العجز (CRL) المقاس في فحص مبكر',
+  'Ultrasound Scan Date': 'تاريخ الفحص بالموجات فوق الصوتية',
+
+  // Milestones and notes
+  'End of first trimester': 'نهاية الثلث الأول',
+  'Anatomy scan': 'فحص التشوهات',
+  'Viability milestone': 'مرحلة القابلية للحياة',
+  'Third trimester begins': 'بداية الثلث الثالث',
+  'Rapid brain development': 'نمو سريع للدماغ',
+  'Early term begins': 'بداية التمام المبكر',
+  'Full term begins': 'بداية التمام الكامل',
+  'Due date': 'موعد الولادة',
+  'Late term begins': 'بداية التمام المتأخر',
+  'Post-term begins': 'بداية ما بعد التمام',
+  'Planned birth window opens': 'بداية فترة الولادة المخطط لها',
+  'Welcome to the second trimester!': 'مرحبًا بك في الثلث الثاني!',
+  'Welcome to the third trimester!': 'مرحبًا بك في الثلث الثالث!',
+  'Viability milestone reached - baby has survival chances if born now':
+    'بلوغ مرحلة القابلية للحياة - لدى الطفل فرص للبقاء إذا وُلد الآن',
+
+  // Key dates
+  'Estimated conception': 'الإخصاب التقديري',
+  'Conception date set by your dating method': 'تاريخ الإخصاب محدد بطريقة التأريخ التي اخترتِها',
+  'Conception most likely happens within 3 days of ovulation, about 2 weeks after your last period':
+    'يحدث الإخصاب غالبًا خلال 3 أيام من الإباضة، أي بعد نحو أسبوعين من آخر دورة شهرية',
+  'The second trimester begins the next day': 'يبدأ الثلث الثاني في اليوم التالي',
+  'Cruise travel cut-off': 'آخر موعد للسفر البحري',
+  'Most cruise lines do not carry passengers from 24 weeks':
+    'لا تقبل معظم شركات الرحلات البحرية الحوامل من الأسبوع 24',
+  'End of second trimester': 'نهاية الثلث الثاني',
+  'The third trimester begins the next day': 'يبدأ الثلث الثالث في اليوم التالي',
+  'Fit-to-fly letter': 'شهادة اللياقة للسفر جوًا',
+  'Many airlines ask for a letter from your doctor or midwife from 28 weeks':
+    'تطلب كثير من شركات الطيران شهادة من الطبيب أو القابلة من الأسبوع 28',
+  'Air travel cut-off': 'آخر موعد للسفر جوًا',
+  'Most airlines do not carry passengers from 37 weeks':
+    'لا تقبل معظم شركات الطيران الحوامل من الأسبوع 37',
+  'Most airlines do not carry passengers expecting twins or more from 32 weeks':
+    'لا تقبل معظم شركات الطيران الحوامل بتوأم أو أكثر من الأسبوع 32',
+  '39-week mark': 'الأسبوع 39',
+  'Planned induction or caesarean birth is usually not offered before 39 weeks without a medical reason':
+    'لا يُعرض عادةً تحريض الولادة أو القيصرية المخططة قبل الأسبوع 39 دون سبب طبي',
+  'The third trimester ends with birth; most babies arrive within 2 weeks of this date':
+    'ينتهي الثلث الثالث بالولادة؛ ويولد معظم الأطفال خلال أسبوعين من هذا التاريخ',
+
+  // Leave planner
+  'United States (FMLA)': 'الولايات المتحدة (FMLA)',
+  '12 weeks of unpaid, job-protected leave, used within 12 months of the birth; weeks taken before the birth count toward the 12':
+    '12 أسبوعًا من الإجازة غير المدفوعة مع حماية الوظيفة، تُستخدم خلال 12 شهرًا من الولادة؛ وتُحتسب الأسابيع المأخوذة قبل الولادة ضمن الـ12',
+  "Give your employer 30 days' notice before leave starts":
+    'أبلغي صاحب العمل قبل 30 يومًا من بدء الإجازة',
+  'United Kingdom (Statutory Maternity Leave)': 'المملكة المتحدة (إجازة الأمومة القانونية)',
+  '52 weeks of leave (39 weeks with Statutory Maternity Pay), starting no earlier than 11 weeks before the expected week of childbirth and no later than the day after the birth':
+    '52 أسبوعًا من الإجازة (39 أسبوعًا منها بأجر الأمومة القانوني)، تبدأ في موعد لا يسبق 11 أسبوعًا قبل أسبوع الولادة المتوقع ولا يتجاوز اليوم التالي للولادة',
+  'Tell your employer by the end of the 15th week before the expected week of childbirth, and at least 28 days before leave starts':
+    'أبلغي صاحب العمل قبل نهاية الأسبوع الخامس عشر السابق لأسبوع الولادة المتوقع، وقبل 28 يومًا على الأقل من بدء الإجازة',
+  'Germany (Mutterschutz)': 'ألمانيا (حماية الأمومة)',
+  'Maternity protection from 6 weeks before the due date until 8 weeks after the birth (12 weeks for multiples); you may choose to keep working until the birth':
+    'حماية الأمومة من 6 أسابيع قبل موعد الولادة حتى 8 أسابيع بعدها (12 أسبوعًا للتوائم)؛ ويمكنك اختيار مواصلة العمل حتى الولادة',
+  'No legal deadline; tell your employer as soon as you know you are pregnant so the protections apply':
+    'لا يوجد موعد قانوني؛ أبلغي صاحب العمل فور علمك بالحمل لتسري الحماية',
+
+  // Postpartum
+  'Vaginal birth': 'ولادة طبيعية',
+  'Assisted vaginal birth (forceps or vacuum)': 'ولادة طبيعية مساعدة (بالملقط أو الشفط)',
+  'Caesarean birth': 'ولادة قيصرية',
+  'Postnatal check before going home': 'فحص ما بعد الولادة قبل الخروج',
+  'Your bleeding, blood pressure, pain relief and feeding are checked before you leave hospital':
+    'يتم فحص النزيف وضغط الدم وتسكين الألم والرضاعة قبل مغادرة المستشفى',
+  'Midwife or nurse visit': 'زيارة القابلة أو الممرضة',
+  "A check of your recovery and the baby's feeding, weight and jaundice in the first days at home":
+    'فحص لتعافيك ولرضاعة الطفل ووزنه واليرقان في الأيام الأولى في المنزل',
+  'Milk usually comes in': 'يدرّ الحليب عادةً',
+  'Breast milk usually increases between days 2 and 5; breasts may feel full and tender':
+    'يزداد حليب الثدي عادةً بين اليومين 2 و5؛ وقد يبدو الثديان ممتلئين ومؤلمين',
+  'Caesarean wound check': 'فحص جرح القيصرية',
+  'Your wound is checked and any dressing or stitches removed, usually 5 to 10 days after the birth':
+    'يُفحص الجرح وتُزال الضمادة أو الغرز، عادةً بعد 5 إلى 10 أيام من الولادة',
+  'Baby blues usually ease': 'تخف كآبة ما بعد الولادة عادةً',
+  'Tearfulness and mood swings usually pass within 2 weeks; talk to your care provider if they last longer':
+    'يزول البكاء وتقلب المزاج عادةً خلال أسبوعين؛ تحدثي مع مقدم الرعاية إذا استمرا لفترة أطول',
+  'Early postpartum contact': 'تواصل مبكر بعد الولادة',
+  'Contact with your care provider within 3 weeks to check on recovery, mood and feeding':
+    'تواصل مع مقدم الرعاية خلال 3 أسابيع للاطمئنان على التعافي والمزاج والرضاعة',
+  'Stitches usually healed': 'تلتئم الغرز عادةً',
+  'Most stitches dissolve and tears heal within 2 to 3 weeks':
+    'تذوب معظم الغرز وتلتئم التمزقات خلال 2 إلى 3 أسابيع',
+  '6-week postnatal check': 'فحص ما بعد الولادة في الأسبوع السادس',
+  'A full check of your physical and emotional recovery, including blood pressure, healing, contraception and mood':
+    'فحص شامل لتعافيك الجسدي والنفسي، يشمل ضغط الدم والالتئام ومنع الحمل والمزاج',
+  'Bleeding has usually stopped': 'يتوقف النزيف عادةً',
+  'Postpartum bleeding (lochia) gradually lightens and usually stops by 6 weeks':
+    'يخف نزيف ما بعد الولادة (النفاس) تدريجيًا ويتوقف عادةً بحلول الأسبوع السادس',
+  'Back to driving and lifting': 'العودة إلى القيادة وحمل الأثقال',
+  'Most people can drive and lift normally again around 6 weeks after a caesarean, once comfortable':
+    'يمكن لمعظم الناس القيادة وحمل الأشياء بشكل طبيعي بعد نحو 6 أسابيع من القيصرية، عند الشعور بالراحة',
+  'Return to exercise': 'العودة إلى التمارين',
+  'After the 6-week check you can usually build back up to higher-impact exercise; keep up pelvic floor exercises':
+    'بعد فحص الأسبوع السادس يمكنك عادةً العودة تدريجيًا إلى التمارين الأكثر جهدًا؛ واستمري في تمارين قاع الحوض',
+  'Comprehensive postpartum visit': 'زيارة شاملة بعد الولادة',
+  'A full visit by 12 weeks covering recovery, mood, sleep, contraception and long-term health':
+    'زيارة شاملة قبل الأسبوع 12 تغطي التعافي والمزاج والنوم ومنع الحمل والصحة على المدى الطويل',
+  'End of the fourth trimester': 'نهاية الثلث الرابع',
+  "The 12-week postpartum timeline ends here; keep up your baby's well-child visits":
+    'ينتهي هنا جدول الأسابيع الـ12 بعد الولادة؛ واصلي زيارات متابعة صحة طفلك',
+  'Early recovery': 'التعافي المبكر',
+  'Rest as much as you can. Bleeding is heaviest now, milk comes in and the baby blues are common. Call your care provider about heavy bleeding, fever or severe pain.':
+    'استريحي قدر الإمكان. يكون النزيف في أشده الآن، ويدرّ الحليب، وكآبة ما بعد الولادة شائعة. اتصلي بمقدم الرعاية عند النزيف الشديد أو الحمى أو الألم الشديد.',
+  Healing: 'الالتئام',
+  'Bleeding lightens and stitches heal. Build up walking gradually and keep doing pelvic floor exercises ahead of the 6-week check.':
+    'يخف النزيف وتلتئم الغرز. زيدي المشي تدريجيًا واستمري في تمارين قاع الحوض قبل فحص الأسبوع السادس.',
+  'Getting back to routine': 'العودة إلى الروتين',
+  'Energy usually improves. Talk to your care provider if low mood, pain or leaking continue.':
+    'تتحسن الطاقة عادةً. تحدثي مع مقدم الرعاية إذا استمر انخفاض المزاج أو الألم أو التسرب.',
+
+  // Well-baby timeline
+  'Hepatitis B (dose 1)': 'التهاب الكبد B (الجرعة 1)',
+  'Given within 24 hours of birth': 'تُعطى خلال 24 ساعة من الولادة',
+  'Newborn examination': 'فحص المولود',
+  'A full check of the baby before going home, with newborn hearing and blood spot screening':
+    'فحص شامل للطفل قبل الخروج من المستشفى، مع فحص السمع وفحص بقعة الدم لحديثي الولادة',
+  'First-week check-up': 'فحص الأسبوع الأول',
+  'Weight, feeding and jaundice check 3 to 5 days after the birth':
+    'فحص الوزن والرضاعة واليرقان بعد 3 إلى 5 أيام من الولادة',
+  '1-month well-baby visit': 'زيارة متابعة عمر الشهر',
+  'Growth, feeding and sleep, and how the family is settling in':
+    'النمو والرضاعة والنوم، وكيف تتأقلم الأسرة',
+  'Hepatitis B (dose 2)': 'التهاب الكبد B (الجرعة 2)',
+  'Given between 1 and 2 months': 'تُعطى بين عمر الشهر والشهرين',
+  '2-month well-baby visit': 'زيارة متابعة عمر الشهرين',
+  'Growth and development check alongside the first routine vaccinations':
+    'فحص النمو والتطور مع أول التطعيمات الروتينية',
+  '2-month vaccinations': 'تطعيمات عمر الشهرين',
+  'DTaP, Hib, polio (IPV), pneumococcal (PCV) and rotavirus':
+    'الثلاثي البكتيري اللاخلوي (DTaP) والمستدمية النزلية (Hib) وشلل الأطفال (IPV) والمكورات الرئوية (PCV) والروتا',
+  '4-month well-baby visit': 'زيارة متابعة عمر 4 أشهر',
+  'Growth and development check, including rolling and head control':
+    'فحص النمو والتطور، بما في ذلك التقلب والتحكم في الرأس',
+  '4-month vaccinations': 'تطعيمات عمر 4 أشهر',
+  'Second doses of DTaP, Hib, polio (IPV), pneumococcal (PCV) and rotavirus':
+    'الجرعات الثانية من DTaP وHib وشلل الأطفال (IPV) والمكورات الرئوية (PCV) والروتا',
+  '6-month well-baby visit': 'زيارة متابعة عمر 6 أشهر',
+  'Growth and development check and advice on starting solid foods':
+    'فحص النمو والتطور ونصائح لبدء الأطعمة الصلبة',
+  '6-month vaccinations': 'تطعيمات عمر 6 أشهر',
+  'DTaP, Hib, pneumococcal (PCV) and rotavirus; polio and hepatitis B doses are due between 6 and 18 months':
+    'DTaP وHib والمكورات الرئوية (PCV) والروتا؛ وتُعطى جرعتا شلل الأطفال والتهاب الكبد B بين 6 و18 شهرًا',
+  'Flu vaccine': 'لقاح الإنفلونزا',
+  'Yearly flu vaccination can start at 6 months, with two doses 4 weeks apart the first season':
+    'يمكن بدء لقاح الإنفلونزا السنوي في عمر 6 أشهر، بجرعتين بينهما 4 أسابيع في الموسم الأول',
+  '9-month well-baby visit': 'زيارة متابعة عمر 9 أشهر',
+  'Growth check and a standard developmental screening': 'فحص النمو وتقييم معياري للتطور',
+  '12-month well-baby visit': 'زيارة متابعة عمر 12 شهرًا',
+  'Growth and development check, including a lead and anaemia screening':
+    'فحص النمو والتطور، بما في ذلك فحص الرصاص وفقر الدم',
+  '12-month vaccinations': 'تطعيمات عمر 12 شهرًا',
+  'MMR, chickenpox (varicella), hepatitis A and the pneumococcal (PCV) booster; the Hib booster is due between 12 and 15 months':
+    'الحصبة والنكاف والحصبة الألمانية (MMR) وجدري الماء والتهاب الكبد A والجرعة المعززة للمكورات الرئوية (PCV)؛ وتُعطى الجرعة المعززة من Hib بين 12 و15 شهرًا',
+
+  // Week 1
+  'Pregnancy dating begins with your last period': 'يبدأ حساب الحمل من آخر دورة شهرية',
+  'Your body prepares a new egg for release': 'يجهّز جسمك بويضة جديدة للإطلاق',
+  'The uterine lining is shed and rebuilt': 'تنفصل بطانة الرحم ثم تتجدد',
+  'Menstrual period': 'الدورة الشهرية',
+  'A good time to start folic acid if you have not already':
+    'وقت مناسب لبدء تناول حمض الفوليك إن لم تبدئي بعد',
+  // Week 2
+  'Ovulation approaches': 'اقتراب الإباضة',
+  'An egg matures in the ovary': 'تنضج بويضة في المبيض',
+  'Ovulation usually happens around day 14 of a 28-day cycle':
+    'تحدث الإباضة عادةً نحو اليوم 14 من دورة مدتها 28 يومًا',
+  'Cervical mucus becomes clear and stretchy': 'يصبح مخاط عنق الرحم شفافًا ومطاطيًا',
+  'Some people notice mild ovulation pain': 'تلاحظ بعض النساء ألمًا خفيفًا عند الإباضة',
+  // Week 3
+  'Fertilization and early cell division': 'الإخصاب والانقسامات الخلوية الأولى',
+  'Sperm fertilizes the egg in the fallopian tube': 'يُخصب الحيوان المنوي البويضة في قناة فالوب',
+  'The fertilized egg divides into a blastocyst': 'تنقسم البويضة المخصبة لتكوّن كيسة أريمية',
+  'No noticeable changes yet': 'لا تغيرات ملحوظة بعد',
+  'Light implantation spotting is possible': 'قد يحدث نزف خفيف عند الانغراس',
+  // Week 4
+  'Embryo implants in uterine wall': 'ينغرس الجنين في جدار الرحم',
+  'Poppy seed': 'بذرة خشخاش',
+  'Neural tube formation begins': 'يبدأ تكوّن الأنبوب العصبي',
+  'Heart starts to develop': 'يبدأ القلب بالتكوّن',
+  'Missed period': 'تأخر الدورة الشهرية',
+  'A home pregnancy test may turn positive': 'قد يظهر اختبار الحمل المنزلي إيجابيًا',
+  // Week 5
+  'Heart tube begins to beat': 'يبدأ الأنبوب القلبي بالنبض',
+  'Sesame seed': 'حبة سمسم',
+  'Primitive heart tube forms and starts beating': 'يتكوّن الأنبوب القلبي البدائي ويبدأ بالنبض',
+  'Brain and spinal cord start to form': 'يبدأ تكوّن الدماغ والحبل الشوكي',
+  'Breast tenderness': 'ألم في الثديين',
+  'Tiredness and frequent urination': 'تعب وكثرة التبول',
+  // Week 6
+  'Facial features begin to form': 'تبدأ ملامح الوجه بالتكوّن',
+  Lentil: 'حبة عدس',
+  'Heartbeat may be seen on ultrasound': 'قد تظهر نبضات القلب في الفحص',
+  'Eyes, nose and ears begin to form': 'تبدأ العينان والأنف والأذنان بالتكوّن',
+  'Nausea (morning sickness) often starts': 'يبدأ غثيان الصباح غالبًا',
+  'Heightened sense of smell': 'حاسة شم أقوى',
+  // Week 7
+  'Arms and legs begin to grow': 'تبدأ الذراعان والساقان بالنمو',
+  Blueberry: 'حبة توت أزرق',
+  'Arm and leg buds lengthen': 'تطول براعم الذراعين والساقين',
+  'Brain grows rapidly': 'ينمو الدماغ بسرعة',
+  'Food aversions or cravings': 'نفور من أطعمة أو اشتهاء لها',
+  'Increased saliva': 'زيادة اللعاب',
+  // Week 8
+  'All major organs have begun to form': 'بدأت جميع الأعضاء الرئيسية بالتكوّن',
+  Raspberry: 'حبة توت العليق',
+  'Limb buds appear': 'تظهر براعم الأطراف',
+  'Facial features developing': 'تتطور ملامح الوجه',
+  'Nausea may peak': 'قد يبلغ الغثيان ذروته',
+  'Bloating and mood swings': 'انتفاخ وتقلبات مزاجية',
+  // Week 9
+  'Embryo looks more human': 'يبدو الجنين أقرب إلى الشكل البشري',
+  Cherry: 'حبة كرز',
+  'Fingers and toes start to separate': 'تبدأ أصابع اليدين والقدمين بالانفصال',
+  'Tiny muscles allow the first movements': 'تسمح العضلات الصغيرة بالحركات الأولى',
+  'Waistline may start to thicken': 'قد يبدأ الخصر بالاتساع',
+  'Heartburn and constipation': 'حرقة المعدة والإمساك',
+  // Week 10
+  'Embryonic period ends - now a fetus': 'انتهاء المرحلة الجنينية المبكرة - أصبح جنينًا',
+  Strawberry: 'حبة فراولة',
+  'Vital organs are in place and begin to function': 'الأعضاء الحيوية في مكانها وتبدأ بالعمل',
+  'Tooth buds form': 'تتكوّن براعم الأسنان',
+  'Visible veins on breasts and belly': 'عروق ظاهرة على الثديين والبطن',
+  'Mood changes from rising hormones': 'تغيرات مزاجية بسبب ارتفاع الهرمونات',
+  // Week 11
+  'Bones begin to harden': 'تبدأ العظام بالتصلب',
+  Fig: 'حبة تين',
+  'Hands can open and close': 'يمكن لليدين أن تنفتحا وتنغلقا',
+  'Hair follicles form': 'تتكوّن بصيلات الشعر',
+  'Nausea may start to ease': 'قد يبدأ الغثيان بالتراجع',
+  'Increased appetite': 'زيادة الشهية',
+  // Week 12
+  'Fetus can make movements': 'يستطيع الجنين الحركة',
+  Plum: 'حبة برقوق',
+  'Reflexes develop': 'تتطور ردود الفعل',
+  'Kidneys start producing urine': 'تبدأ الكليتان بإنتاج البول',
+  'Risk of miscarriage drops': 'ينخفض خطر الإجهاض',
+  'Uterus rises above the pelvic bone': 'يرتفع الرحم فوق عظم الحوض',
+  // Week 13
+  'Last week of the first trimester': 'الأسبوع الأخير من الثلث الأول',
+  Lemon: 'حبة ليمون',
+  'Vocal cords develop': 'تتطور الحبال الصوتية',
+  'Intestines move into the abdomen': 'تنتقل الأمعاء إلى داخل البطن',
+  'Energy often returns': 'تعود الطاقة غالبًا',
+  'Less frequent urination as the uterus rises': 'يقل التبول مع ارتفاع الرحم',
+  // Week 14
+  'Facial expressions appear': 'تظهر تعابير الوجه',
+  Nectarine: 'حبة نكتارين',
+  'Can squint, frown and grimace': 'يستطيع تضييق عينيه والعبوس والتجهم',
+  'Fine hair (lanugo) starts to grow': 'يبدأ نمو شعر ناعم (الزغب)',
+  'Round ligament pain': 'ألم الرباط المدور',
+  'Second-trimester energy boost': 'نشاط متزايد في الثلث الثاني',
+  // Week 15
+  'Baby senses light': 'يشعر الطفل بالضوء',
+  Apple: 'تفاحة',
+  'Eyes sense light through closed lids': 'تستشعر العينان الضوء عبر الجفون المغلقة',
+  'Skeleton continues to harden': 'يستمر الهيكل العظمي بالتصلب',
+  'Nasal congestion': 'احتقان الأنف',
+  'Sensitive or bleeding gums': 'لثة حساسة أو نازفة',
+  // Week 16
+  'Baby can hear sounds from outside': 'يستطيع الطفل سماع الأصوات من الخارج',
+  Avocado: 'حبة أفوكادو',
+  'Hearing develops': 'يتطور السمع',
+  'Limbs are fully formed': 'اكتمل تكوّن الأطراف',
+  'Some feel the first flutters (quickening)': 'تشعر بعض النساء بأولى الرفرفات',
+  'Skin may glow from increased blood flow': 'قد تتوهج البشرة بسبب زيادة تدفق الدم',
+  // Week 17
+  'Fat stores begin to form': 'يبدأ تكوّن مخزون الدهون',
+  Pear: 'حبة كمثرى',
+  'Umbilical cord grows stronger': 'يزداد الحبل السري قوة',
+  'Sweat glands develop': 'تتطور الغدد العرقية',
+  'Growing appetite': 'شهية متزايدة',
+  'Balance changes as the belly grows': 'يتغير التوازن مع نمو البطن',
+  // Week 18
+  'Baby is active and stretching': 'الطفل نشيط ويتمدد',
+  'Bell pepper': 'فلفل رومي',
+  'Ears move into their final position': 'تنتقل الأذنان إلى موضعهما النهائي',
+  'Myelin begins to coat the nerves': 'يبدأ الميالين بتغليف الأعصاب',
+  'Movements become easier to notice': 'تصبح الحركات أسهل في الملاحظة',
+  'Backache may begin': 'قد يبدأ ألم الظهر',
+  // Week 19
+  'Protective vernix coats the skin': 'يغطي الطلاء الدهني الواقي الجلد',
+  Mango: 'حبة مانجو',
+  'Vernix caseosa forms': 'يتكوّن الطلاء الجبني',
+  'Senses of smell, taste, hearing and touch develop': 'تتطور حواس الشم والتذوق والسمع واللمس',
+  'Leg cramps': 'تشنجات الساقين',
+  'Dizziness when standing up quickly': 'دوار عند الوقوف بسرعة',
+  // Week 20
+  'Halfway point - anatomy scan time': 'منتصف الحمل - وقت فحص التشوهات',
+  Banana: 'موزة',
+  'Sex can be determined': 'يمكن تحديد الجنس',
+  'Taste buds develop': 'تتطور براعم التذوق',
+  'Top of the uterus reaches the navel': 'يصل أعلى الرحم إلى السرة',
+  'Appetite increases': 'تزداد الشهية',
+  // Week 21
+  'Baby swallows amniotic fluid': 'يبتلع الطفل السائل الأمنيوسي',
+  Carrot: 'جزرة',
+  'Digestive system practises swallowing': 'يتدرب الجهاز الهضمي على البلع',
+  'Sleep and wake cycles emerge': 'تظهر دورات النوم واليقظة',
+  'Stretch marks may appear': 'قد تظهر علامات التمدد',
+  'Varicose veins': 'الدوالي',
+  // Week 22
+  'Senses are sharpening': 'تزداد الحواس حدة',
+  Papaya: 'حبة بابايا',
+  'Lips, eyelids and eyebrows are distinct': 'تتضح الشفتان والجفنان والحاجبان',
+  'Grip gets stronger': 'تزداد قبضة اليد قوة',
+  'Braxton Hicks contractions may start': 'قد تبدأ انقباضات براكستون هيكس',
+  'Swollen feet': 'تورم القدمين',
+  // Week 23
+  'Rapid weight gain begins': 'تبدأ زيادة سريعة في الوزن',
+  Grapefruit: 'حبة جريب فروت',
+  'Blood vessels in the lungs develop': 'تتطور الأوعية الدموية في الرئتين',
+  'Baby may respond to familiar voices': 'قد يستجيب الطفل للأصوات المألوفة',
+  'Mild swelling of ankles and feet': 'تورم خفيف في الكاحلين والقدمين',
+  'Increased vaginal discharge': 'زيادة الإفرازات المهبلية',
+  // Week 24
+  'Viability milestone reached': 'بلوغ مرحلة القابلية للحياة',
+  'Corn on the cob': 'كوز ذرة',
+  'Lungs begin producing surfactant': 'تبدأ الرئتان بإنتاج المادة الفاعلة بالسطح',
+  'Hearing is well developed': 'السمع متطور جيدًا',
+  'Glucose screening is usually done between 24 and 28 weeks':
+    'يُجرى فحص السكر عادةً بين الأسبوعين 24 و28',
+  'Itchy skin over the belly': 'حكة في جلد البطن',
+  // Week 25
+  'Baby practises breathing movements': 'يتدرب الطفل على حركات التنفس',
+  Cauliflower: 'رأس قرنبيط',
+  'Nostrils open': 'تنفتح فتحتا الأنف',
+  'Hair gains color and texture': 'يكتسب الشعر لونًا وملمسًا',
+  'Trouble sleeping': 'صعوبة في النوم',
+  Heartburn: 'حرقة المعدة',
+  // Week 26
+  'Eyes begin to open': 'تبدأ العينان بالانفتاح',
+  'Head of lettuce': 'رأس خس',
+  'Brain activity for hearing and sight increases': 'يزداد نشاط الدماغ المرتبط بالسمع والبصر',
+  'Lungs continue to mature': 'تستمر الرئتان في النضج',
+  'Pelvic pressure': 'ضغط في الحوض',
+  'Blood pressure is checked for pre-eclampsia': 'يُقاس ضغط الدم للكشف عن تسمم الحمل',
+  // Week 27
+  'Last week of the second trimester': 'الأسبوع الأخير من الثلث الثاني',
+  Cabbage: 'رأس ملفوف',
+  'Brain is very active': 'الدماغ نشيط جدًا',
+  'Baby may get hiccups': 'قد يصاب الطفل بالفواق',
+  'Leg cramps and restless legs': 'تشنجات الساقين وتململهما',
+  'Shortness of breath': 'ضيق التنفس',
+  // Week 28
+  Eggplant: 'باذنجانة',
+  'Eyes can open': 'تستطيع العينان الانفتاح',
+  'Brain tissue increases rapidly': 'يزداد نسيج الدماغ بسرعة',
+  'Time to start counting kicks': 'حان وقت البدء بعدّ الركلات',
+  'Rh-negative mothers are usually offered anti-D':
+    'يُعرض عادةً على الأمهات سالبات العامل الريسوسي حقنة anti-D',
+  // Week 29
+  'Muscles and lungs keep maturing': 'تستمر العضلات والرئتان في النضج',
+  'Butternut squash': 'قرع عسلي',
+  'Head grows to make room for the brain': 'ينمو الرأس ليتسع للدماغ',
+  'Bones absorb more calcium': 'تمتص العظام مزيدًا من الكالسيوم',
+  'Constipation and hemorrhoids': 'الإمساك والبواسير',
+  'Increased tiredness': 'زيادة التعب',
+  // Week 30
+  'Bone marrow makes red blood cells': 'ينتج نخاع العظم خلايا الدم الحمراء',
+  Cucumber: 'خيارة',
+  'Bone marrow takes over red blood cell production': 'يتولى نخاع العظم إنتاج خلايا الدم الحمراء',
+  'Lanugo begins to disappear': 'يبدأ الزغب بالاختفاء',
+  'Mood swings': 'تقلبات مزاجية',
+  'Breathlessness as the uterus presses up': 'ضيق التنفس بسبب ضغط الرحم إلى الأعلى',
+  // Week 31
+  'All five senses are working': 'تعمل الحواس الخمس جميعها',
+  Coconut: 'جوزة هند',
+  'Baby turns head from side to side': 'يدير الطفل رأسه من جانب إلى آخر',
+  'Rapid weight gain continues': 'تستمر الزيادة السريعة في الوزن',
+  'Breasts may leak colostrum': 'قد يتسرب اللبأ من الثديين',
+  'Braxton Hicks contractions become more frequent': 'تصبح انقباضات براكستون هيكس أكثر تكرارًا',
+  // Week 32
+  'Rapid brain development continues': 'يستمر النمو السريع للدماغ',
+  Jicama: 'جيكاما',
+  'Bones harden': 'تتصلب العظام',
+  'Toenails and fingernails grow': 'تنمو أظافر اليدين والقدمين',
+  'Heartburn and indigestion': 'حرقة المعدة وعسر الهضم',
+  'Frequent urination returns': 'تعود كثرة التبول',
+  // Week 33
+  'Immune system strengthens': 'يقوى الجهاز المناعي',
+  Pineapple: 'حبة أناناس',
+  'Antibodies pass from mother to baby': 'تنتقل الأجسام المضادة من الأم إلى الطفل',
+  'Skull bones stay soft for birth': 'تبقى عظام الجمجمة لينة من أجل الولادة',
+  'Swelling of hands and feet': 'تورم اليدين والقدمين',
+  'Aches in the hips and pelvis': 'آلام في الوركين والحوض',
+  // Week 34
+  'Central nervous system matures': 'ينضج الجهاز العصبي المركزي',
+  Cantaloupe: 'شمامة',
+  'Lungs are almost mature': 'الرئتان على وشك النضج',
+  'Fingernails reach the fingertips': 'تصل الأظافر إلى أطراف الأصابع',
+  'Blurry vision can occur': 'قد يحدث تشوش في الرؤية',
+  Tiredness: 'التعب',
+  // Week 35
+  'Baby has less room to move': 'تقل المساحة المتاحة لحركة الطفل',
+  'Honeydew melon': 'بطيخ أصفر',
+  'Kidneys are fully developed': 'اكتمل نمو الكليتين',
+  'Liver can process some waste': 'يستطيع الكبد معالجة بعض الفضلات',
+  'Pressure on the bladder': 'ضغط على المثانة',
+  'Pelvic discomfort': 'انزعاج في الحوض',
+  // Week 36
+  'Baby is getting ready for birth': 'يستعد الطفل للولادة',
+  'Romaine lettuce': 'خس روماني',
+  'Immune system develops': 'يتطور الجهاز المناعي',
+  'Fat continues to accumulate': 'يستمر تراكم الدهون',
+  'Baby may drop lower (lightening)': 'قد ينزل الطفل إلى الأسفل',
+  'Prenatal visits become weekly': 'تصبح زيارات المتابعة أسبوعية',
+  // Week 37
+  'Lungs are nearly ready': 'الرئتان شبه جاهزتين',
+  'Swiss chard': 'حزمة سلق',
+  'Baby practises breathing, sucking and gripping': 'يتدرب الطفل على التنفس والمص والإمساك',
+  'Head may engage in the pelvis': 'قد ينزل الرأس في الحوض',
+  'Group B strep screening is often offered': 'يُعرض غالبًا فحص المكورات العقدية من المجموعة ب',
+  'Pelvic pressure as the head drops': 'ضغط في الحوض مع نزول الرأس',
+  // Week 38
+  'Early term - baby is considered term': 'تمام مبكر - يُعد الطفل مكتمل النمو',
+  Leek: 'كراث',
+  'Most lanugo has been shed': 'تساقط معظم الزغب',
+  'Vernix is shedding': 'يتساقط الطلاء الدهني',
+  'Loss of the mucus plug': 'نزول السدادة المخاطية',
+  'Nesting instinct': 'غريزة تجهيز العش',
+  // Week 39
+  'Organs are ready for life outside the womb': 'الأعضاء جاهزة للحياة خارج الرحم',
+  'Mini watermelon': 'بطيخة صغيرة',
+  'Fat layer helps regulate temperature': 'تساعد طبقة الدهون على تنظيم الحرارة',
+  'Brain continues growing rapidly': 'يستمر الدماغ في النمو بسرعة',
+  'Irregular practice contractions': 'انقباضات تمهيدية غير منتظمة',
+  'Swelling of feet and ankles': 'تورم القدمين والكاحلين',
+  // Week 40
+  'Full term - ready for birth': 'تمام كامل - جاهز للولادة',
+  'Small pumpkin': 'يقطينة صغيرة',
+  'Fully developed': 'مكتمل النمو',
+  'Ready for life outside the womb': 'جاهز للحياة خارج الرحم',
+  'Cervix softens and ripens': 'يلين عنق الرحم وينضج',
+  'Signs of labor can begin any day': 'قد تبدأ علامات المخاض في أي يوم',
+  // Week 41
+  'Due date week': 'أسبوع موعد الولادة',
+  Watermelon: 'بطيخة',
+  'Nails may extend past the fingertips': 'قد تتجاوز الأظافر أطراف الأصابع',
+  'Skin may start to look dry': 'قد يبدو الجلد جافًا',
+  'Only about 1 in 20 babies arrive on their due date':
+    'يولد طفل واحد تقريبًا من كل 20 طفلًا في موعد ولادته',
+  'A membrane sweep may be offered': 'قد يُعرض تحريك الأغشية',
+  // Week 42
+  'Late term - extra monitoring begins': 'تمام متأخر - تبدأ مراقبة إضافية',
+  Jackfruit: 'حبة جاك فروت',
+  'Placenta may work less efficiently': 'قد تقل كفاءة المشيمة',
+  'Amniotic fluid may decrease': 'قد يقل السائل الأمنيوسي',
+  "Extra monitoring of baby's well-being": 'مراقبة إضافية لصحة الطفل',
+  'Induction of labor is recommended': 'يُوصى بتحريض الولادة',
+
+  // Growth scans for multiples
+  'Growth Scan': 'فحص النمو',
+  'Ultrasound to check growth, fluid and well-being of each baby':
+    'فحص بالموجات فوق الصوتية للتحقق من نمو كل طفل والسائل وصحته',
+
+  // ACOG appointments
+  'First Prenatal Visit': 'أول زيارة متابعة حمل',
+  'Confirm pregnancy, medical history, initial tests':
+    'تأكيد الحمل والتاريخ الطبي والفحوصات الأولية',
+  'First Trimester Screening': 'فحص الثلث الأول',
+  'NT scan and blood work for genetic screening': 'قياس الشفافية القفوية وتحاليل دم للفحص الجيني',
+  'Routine Checkup': 'فحص روتيني',
+  'Blood pressure, weight, fundal height measurement': 'ضغط الدم والوزن وقياس ارتفاع قاع الرحم',
+  'Anatomy Scan': 'فحص التشوهات',
+  "Detailed ultrasound to check baby's development":
+    'فحص مفصل بالموجات فوق الصوتية لمتابعة نمو الطفل',
+  'Glucose Screening': 'فحص السكر',
+  'Test for gestational diabetes': 'اختبار سكري الحمل',
+  'Third Trimester Begin': 'بداية الثلث الثالث',
+  'Routine checkup, discuss birth plan': 'فحص روتيني ومناقشة خطة الولادة',
+  "Monitor baby's growth and position": 'متابعة نمو الطفل ووضعيته',
+  'Group B Strep Test': 'فحص المكورات العقدية من المجموعة ب',
+  'Screen for Group B Streptococcus bacteria': 'الكشف عن بكتيريا المكورات العقدية من المجموعة ب',
+  'Pre-delivery Checkup': 'فحص ما قبل الولادة',
+  'Check cervix, discuss delivery options': 'فحص عنق الرحم ومناقشة خيارات الولادة',
+  'Due Date Assessment': 'تقييم موعد الولادة',
+  'Evaluate if induction is needed': 'تقييم الحاجة إلى تحريض الولادة',
+  'Post-dates Monitoring': 'مراقبة تجاوز الموعد',
+  'Non-stress test and amniotic fluid check, usually twice weekly':
+    'اختبار عدم الإجهاد وفحص السائل الأمنيوسي، عادةً مرتين أسبوعيًا',
+  'Induction Discussion': 'مناقشة تحريض الولادة',
+  'Plan induction of labor before 42 weeks': 'التخطيط لتحريض الولادة قبل الأسبوع 42',
+  'Post-term Evaluation': 'تقييم ما بعد التمام',
+  'Induction recommended if labor has not started; continued fetal monitoring':
+    'يُوصى بتحريض الولادة إذا لم يبدأ المخاض؛ مع استمرار مراقبة الجنين',
+
+  // NICE appointments
+  'Booking Appointment': 'موعد التسجيل',
+  'Midwife booking: health history, blood and urine tests, screening choices':
+    'تسجيل لدى القابلة: التاريخ الصحي وتحاليل الدم والبول وخيارات الفحص',
+  'Dating Scan': 'فحص التأريخ',
+  'Ultrasound to confirm the due date, with combined screening if chosen':
+    'فحص بالموجات فوق الصوتية لتأكيد موعد الولادة، مع الفحص المشترك عند اختياره',
+  'Midwife Appointment': 'موعد مع القابلة',
+  'Review screening results, blood pressure and urine check':
+    'مراجعة نتائج الفحص وقياس ضغط الدم وتحليل البول',
+  'Anomaly Scan': 'فحص التشوهات الخلقية',
+  "Mid-pregnancy ultrasound to check baby's development":
+    'فحص منتصف الحمل بالموجات فوق الصوتية لمتابعة نمو الطفل',
+  'Glucose Tolerance Test': 'اختبار تحمل الجلوكوز',
+  'Offered if you have risk factors for gestational diabetes':
+    'يُعرض إذا كانت لديك عوامل خطر لسكري الحمل',
+  'Blood pressure, urine and fundal height (first pregnancy)':
+    'ضغط الدم والبول وارتفاع قاع الرحم (الحمل الأول)',
+  'Blood tests for anaemia and antibodies; anti-D if Rh negative':
+    'تحاليل دم لفقر الدم والأجسام المضادة؛ وحقنة anti-D عند سلبية العامل الريسوسي',
+  'Review blood results, blood pressure and fundal height (first pregnancy)':
+    'مراجعة نتائج الدم وضغط الدم وارتفاع قاع الرحم (الحمل الأول)',
+  'Blood pressure, urine and fundal height; discuss preparing for labour':
+    'ضغط الدم والبول وارتفاع قاع الرحم؛ ومناقشة الاستعداد للمخاض',
+  "Check baby's position; discuss labour, feeding and vitamin K":
+    'التحقق من وضعية الطفل؛ ومناقشة المخاض والرضاعة وفيتامين K',
+  'Blood pressure, urine and fundal height': 'ضغط الدم والبول وارتفاع قاع الرحم',
+  'Post-dates Appointment': 'موعد تجاوز الموعد',
+  'Membrane sweep offered and induction of labour discussed':
+    'عرض تحريك الأغشية ومناقشة تحريض الولادة',
+  'Induction of Labour': 'تحريض الولادة',
+  'Induction offered between 41 and 42 weeks': 'يُعرض تحريض الولادة بين الأسبوعين 41 و42',
+  'Post-term Monitoring': 'مراقبة ما بعد التمام',
+  'Increased monitoring if you choose to wait for labour': 'مراقبة مكثفة إذا اخترت انتظار المخاض',
+
+  // WHO appointments
+  'First ANC Contact': 'الزيارة الأولى لرعاية الحمل',
+  'History, examination, blood tests and counselling; iron and folic acid':
+    'التاريخ الطبي والفحص وتحاليل الدم والإرشاد؛ الحديد وحمض الفوليك',
+  'Ultrasound Scan': 'فحص بالموجات فوق الصوتية',
+  'One scan before 24 weeks to confirm dates and detect anomalies or multiples':
+    'فحص واحد قبل الأسبوع 24 لتأكيد التواريخ والكشف عن التشوهات أو تعدد الأجنة',
+  'ANC Contact 2': 'زيارة رعاية الحمل 2',
+  'ANC Contact 3': 'زيارة رعاية الحمل 3',
+  'ANC Contact 4': 'زيارة رعاية الحمل 4',
+  'ANC Contact 5': 'زيارة رعاية الحمل 5',
+  'ANC Contact 6': 'زيارة رعاية الحمل 6',
+  'ANC Contact 7': 'زيارة رعاية الحمل 7',
+  'ANC Contact 8': 'زيارة رعاية الحمل 8',
+  "Blood pressure, baby's growth and health check": 'ضغط الدم ونمو الطفل وفحص صحي',
+  "Blood pressure, baby's growth and anaemia check": 'ضغط الدم ونمو الطفل وفحص فقر الدم',
+  "Blood pressure, baby's growth and birth preparedness": 'ضغط الدم ونمو الطفل والاستعداد للولادة',
+  "Check baby's position and plan for birth": 'التحقق من وضعية الطفل والتخطيط للولادة',
+  'Review well-being; plan for induction if labour has not started by 41 weeks':
+    'مراجعة الحالة الصحية؛ والتخطيط لتحريض الولادة إذا لم يبدأ المخاض بحلول الأسبوع 41',
+  'Induction recommended from 41 weeks': 'يُوصى بتحريض الولادة من الأسبوع 41',
+  'Induction recommended if labour has not started; continued fetal monitoring':
+    'يُوصى بتحريض الولادة إذا لم يبدأ المخاض؛ مع استمرار مراقبة الجنين',
+};
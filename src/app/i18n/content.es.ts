@@ -0,0 +1,644 @@
+import { ContentCatalog } from './messages.en';
+
+/**
+ * Spanish translations of the calculator's built-in content, keyed by the English text
+ */
+export const ES_CONTENT: ContentCatalog = {
+  // Re-dating bands
+  'up to 8 6/7 weeks': 'hasta 8 6/7 semanas',
+  '9 0/7 to 15 6/7 weeks': '9 0/7 a 15 6/7 semanas',
+  '16 0/7 to 21 6/7 weeks': '16 0/7 a 21 6/7 semanas',
+  '22 0/7 to 27 6/7 weeks': '22 0/7 a 27 6/7 semanas',
+  '28 0/7 weeks and beyond': '28 0/7 semanas o más',
+
+  // Term categories
+  'Preterm (before 37 weeks)': 'Pretérmino (antes de 37 semanas)',
+  'Early term (37 0/7 to 38 6/7 weeks)': 'Término temprano (37 0/7 a 38 6/7 semanas)',
+  'Full term (39 0/7 to 40 6/7 weeks)': 'Término completo (39 0/7 a 40 6/7 semanas)',
+  'Late term (41 0/7 to 41 6/7 weeks)': 'Término tardío (41 0/7 a 41 6/7 semanas)',
+  'Post-term (42 0/7 weeks and beyond)': 'Postérmino (42 0/7 semanas o más)',
+  'Early term begins - baby is now considered term':
+    'Comienza el término temprano: el bebé ya se considera a término',
+  'Full term begins - the best time for baby to be born':
+    'Comienza el término completo: el mejor momento para que nazca el bebé',
+  'Late term begins - extra monitoring and induction are usually offered':
+    'Comienza el término tardío: se suele ofrecer más vigilancia y la inducción',
+  'Post-term - induction is recommended if labor has not started':
+    'Postérmino: se recomienda la inducción si el parto no ha comenzado',
+
+  // Pluralities
+  Singleton: 'Embarazo único',
+  Twins: 'Gemelos',
+  Triplets: 'Trillizos',
+  'Term birth window (37 0/7 to 41 6/7 weeks)':
+    'Periodo de parto a término (37 0/7 a 41 6/7 semanas)',
+  'Planned birth is usually offered from 36 weeks (monochorionic) or 37 weeks (dichorionic)':
+    'El parto programado suele ofrecerse desde las 36 semanas (monocoriales) o las 37 semanas (bicoriales)',
+  'Most triplets are born before 35 weeks; planned birth is usually offered from 35 weeks':
+    'La mayoría de los trillizos nacen antes de las 35 semanas; el parto programado suele ofrecerse desde las 35 semanas',
+  Baby: 'Bebé',
+  'Baby A': 'Bebé A',
+  'Baby B': 'Bebé B',
+  'Baby C': 'Bebé C',
+
+  // Care guidelines
+  'ACOG (United States)': 'ACOG (Estados Unidos)',
+  'Visits every 4 weeks until 28 weeks, every 2 weeks until 36 weeks, then weekly':
+    'Visitas cada 4 semanas hasta la semana 28, cada 2 semanas hasta la 36 y después semanales',
+  'NICE (United Kingdom)': 'NICE (Reino Unido)',
+  'NICE antenatal care guideline: 10 midwife appointments in a first pregnancy, 7 in later pregnancies':
+    'Guía de atención prenatal de NICE: 10 citas con la matrona en un primer embarazo y 7 en los siguientes',
+  'WHO ANC (International)': 'OMS (internacional)',
+  'WHO antenatal care model: at least 8 contacts, with one ultrasound scan before 24 weeks':
+    'Modelo de atención prenatal de la OMS: al menos 8 contactos, con una ecografía antes de las 24 semanas',
+
+  // Dating methods
+  'Last menstrual period': 'Última menstruación',
+  'First day of your last period': 'Primer día de tu última regla',
+  'Last Menstrual Period (LMP) Date': 'Fecha de la última menstruación (FUM)',
+  'Conception date': 'Fecha de concepción',
+  'Known date of conception or ovulation': 'Fecha conocida de concepción u ovulación',
+  'Conception Date': 'Fecha de concepción',
+  'IVF transfer (day 3 embryo)': 'Transferencia de FIV (embrión de día 3)',
+  'Day-3 embryo transfer date': 'Fecha de transferencia del embrión de día 3',
+  'Embryo Transfer Date': 'Fecha de transferencia del embrión',
+  'IVF transfer (day 5 blastocyst)': 'Transferencia de FIV (blastocisto de día 5)',
+  'Day-5 blastocyst transfer date': 'Fecha de transferencia del blastocisto de día 5',
+  'First-trimester ultrasound': 'Ecografía del primer trimestre',
+  'Crown-rump length (CRL) measured at an early scan':
+    'Longitud cráneo-caudal (LCC) medida en una ecografía temprana',
+  'Ultrasound Scan Date': 'Fecha de la ecografía',
+
+  // Milestones and notes
+  'End of first trimester': 'Fin del primer trimestre',
+  'Anatomy scan': 'Ecografía morfológica',
+  'Viability milestone': 'Hito de viabilidad',
+  'Third trimester begins': 'Comienza el tercer trimestre',
+  'Rapid brain development': 'Desarrollo cerebral rápido',
+  'Early term begins': 'Comienza el término temprano',
+  'Full term begins': 'Comienza el término completo',
+  'Due date': 'Fecha de parto',
+  'Late term begins': 'Comienza el término tardío',
+  'Post-term begins': 'Comienza el postérmino',
+  'Planned birth window opens': 'Se abre el periodo de parto programado',
+  'Welcome to the second trimester!': '¡Bienvenida al segundo trimestre!',
+  'Welcome to the third trimester!': '¡Bienvenida al tercer trimestre!',
+  'Viability milestone reached - baby has survival chances if born now':
+    'Hito de viabilidad alcanzado: el bebé tendría posibilidades de sobrevivir si naciera ahora',
+
+  // Key dates
+  'Estimated conception': 'Concepción estimada',
+  'Conception date set by your dating method':
+    'Fecha de concepción fijada por tu método de datación',
+  'Conception most likely happens within 3 days of ovulation, about 2 weeks after your last period':
+    'La concepción suele producirse en los 3 días alrededor de la ovulación, unas 2 semanas después de tu última regla',
+  'The second trimester begins the next day': 'El segundo trimestre empieza al día siguiente',
+  'Cruise travel cut-off': 'Límite para viajar en crucero',
+  'Most cruise lines do not carry passengers from 24 weeks':
+    'La mayoría de las navieras no aceptan pasajeras a partir de las 24 semanas',
+  'End of second trimester': 'Fin del segundo trimestre',
+  'The third trimester begins the next day': 'El tercer trimestre empieza al día siguiente',
+  'Fit-to-fly letter': 'Certificado para volar',
+  'Many airlines ask for a letter from your doctor or midwife from 28 weeks':
+    'Muchas aerolíneas piden un certificado de tu médico o matrona a partir de las 28 semanas',
+  'Air travel cut-off': 'Límite para viajar en avión',
+  'Most airlines do not carry passengers from 37 weeks':
+    'La mayoría de las aerolíneas no aceptan pasajeras a partir de las 37 semanas',
+  'Most airlines do not carry passengers expecting twins or more from 32 weeks':
+    'La mayoría de las aerolíneas no aceptan pasajeras con embarazo múltiple a partir de las 32 semanas',
+  '39-week mark': 'Semana 39',
+  'Planned induction or caesarean birth is usually not offered before 39 weeks without a medical reason':
+    'La inducción o la cesárea programadas no suelen ofrecerse antes de las 39 semanas sin un motivo médico',
+  'The third trimester ends with birth; most babies arrive within 2 weeks of this date':
+    'El tercer trimestre termina con el parto; la mayoría de los bebés nacen en las 2 semanas alrededor de esta fecha',
+
+  // Leave planner
+  'United States (FMLA)': 'Estados Unidos (FMLA)',
+  '12 weeks of unpaid, job-protected leave, used within 12 months of the birth; weeks taken before the birth count toward the 12':
+    '12 semanas de permiso no retribuido con el puesto protegido, a disfrutar en los 12 meses siguientes al parto; las semanas tomadas antes del parto cuentan dentro de las 12',
+  "Give your employer 30 days' notice before leave starts":
+    'Avisa a tu empresa con 30 días de antelación al inicio del permiso',
+  'United Kingdom (Statutory Maternity Leave)': 'Reino Unido (permiso de maternidad legal)',
+  '52 weeks of leave (39 weeks with Statutory Maternity Pay), starting no earlier than 11 weeks before the expected week of childbirth and no later than the day after the birth':
+    '52 semanas de permiso (39 con la prestación legal de maternidad), que empiezan como muy pronto 11 semanas antes de la semana prevista del parto y como muy tarde el día siguiente al parto',
+  'Tell your employer by the end of the 15th week before the expected week of childbirth, and at least 28 days before leave starts':
+    'Avisa a tu empresa antes del final de la 15.ª semana previa a la semana prevista del parto, y al menos 28 días antes del inicio del permiso',
+  'Germany (Mutterschutz)': 'Alemania (Mutterschutz)',
+  'Maternity protection from 6 weeks before the due date until 8 weeks after the birth (12 weeks for multiples); you may choose to keep working until the birth':
+    'Protección de la maternidad desde 6 semanas antes de la fecha prevista hasta 8 semanas después del parto (12 semanas en embarazos múltiples); puedes decidir seguir trabajando hasta el parto',
+  'No legal deadline; tell your employer as soon as you know you are pregnant so the protections apply':
+    'No hay plazo legal; avisa a tu empresa en cuanto sepas que estás embarazada para que se apliquen las protecciones',
+
+  // Postpartum
+  'Vaginal birth': 'Parto vaginal',
+  'Assisted vaginal birth (forceps or vacuum)': 'Parto vaginal instrumentado (fórceps o ventosa)',
+  'Caesarean birth': 'Cesárea',
+  'Postnatal check before going home': 'Revisión posparto antes del alta',
+  'Your bleeding, blood pressure, pain relief and feeding are checked before you leave hospital':
+    'Se revisan el sangrado, la tensión arterial, el control del dolor y la alimentación antes de salir del hospital',
+  'Midwife or nurse visit': 'Visita de la matrona o enfermera',
+  "A check of your recovery and the baby's feeding, weight and jaundice in the first days at home":
+    'Una revisión de tu recuperación y de la alimentación, el peso y la ictericia del bebé en los primeros días en casa',
+  'Milk usually comes in': 'Suele producirse la subida de la leche',
+  'Breast milk usually increases between days 2 and 5; breasts may feel full and tender':
+    'La leche materna suele aumentar entre los días 2 y 5; los pechos pueden notarse llenos y sensibles',
+  'Caesarean wound check': 'Revisión de la herida de la cesárea',
+  'Your wound is checked and any dressing or stitches removed, usually 5 to 10 days after the birth':
+    'Se revisa la herida y se retiran el apósito o los puntos, normalmente entre 5 y 10 días después del parto',
+  'Baby blues usually ease': 'La tristeza posparto suele remitir',
+  'Tearfulness and mood swings usually pass within 2 weeks; talk to your care provider if they last longer':
+    'El llanto fácil y los cambios de humor suelen pasar en 2 semanas; habla con tu profesional sanitario si duran más',
+  'Early postpartum contact': 'Contacto posparto temprano',
+  'Contact with your care provider within 3 weeks to check on recovery, mood and feeding':
+    'Contacto con tu profesional sanitario en las 3 primeras semanas para valorar la recuperación, el ánimo y la alimentación',
+  'Stitches usually healed': 'Los puntos suelen haber cicatrizado',
+  'Most stitches dissolve and tears heal within 2 to 3 weeks':
+    'La mayoría de los puntos se reabsorben y los desgarros cicatrizan en 2 o 3 semanas',
+  '6-week postnatal check': 'Revisión posparto de las 6 semanas',
+  'A full check of your physical and emotional recovery, including blood pressure, healing, contraception and mood':
+    'Una revisión completa de tu recuperación física y emocional, incluidos la tensión arterial, la cicatrización, la anticoncepción y el ánimo',
+  'Bleeding has usually stopped': 'El sangrado suele haber terminado',
+  'Postpartum bleeding (lochia) gradually lightens and usually stops by 6 weeks':
+    'El sangrado posparto (loquios) disminuye poco a poco y suele terminar hacia las 6 semanas',
+  'Back to driving and lifting': 'Volver a conducir y a cargar peso',
+  'Most people can drive and lift normally again around 6 weeks after a caesarean, once comfortable':
+    'La mayoría de las personas pueden volver a conducir y cargar peso con normalidad unas 6 semanas después de una cesárea, cuando se sienten cómodas',
+  'Return to exercise': 'Vuelta al ejercicio',
+  'After the 6-week check you can usually build back up to higher-impact exercise; keep up pelvic floor exercises':
+    'Tras la revisión de las 6 semanas normalmente puedes retomar poco a poco el ejercicio de mayor impacto; sigue con los ejercicios de suelo pélvico',
+  'Comprehensive postpartum visit': 'Visita posparto completa',
+  'A full visit by 12 weeks covering recovery, mood, sleep, contraception and long-term health':
+    'Una visita completa antes de las 12 semanas sobre la recuperación, el ánimo, el sueño, la anticoncepción y la salud a largo plazo',
+  'End of the fourth trimester': 'Fin del cuarto trimestre',
+  "The 12-week postpartum timeline ends here; keep up your baby's well-child visits":
+    'Aquí termina el seguimiento posparto de 12 semanas; continúa con las revisiones del niño sano de tu bebé',
+  'Early recovery': 'Recuperación inicial',
+  'Rest as much as you can. Bleeding is heaviest now, milk comes in and the baby blues are common. Call your care provider about heavy bleeding, fever or severe pain.':
+    'Descansa todo lo que puedas. Ahora el sangrado es más abundante, sube la leche y la tristeza posparto es frecuente. Llama a tu profesional sanitario si tienes un sangrado abundante, fiebre o dolor intenso.',
+  Healing: 'Cicatrización',
+  'Bleeding lightens and stitches heal. Build up walking gradually and keep doing pelvic floor exercises ahead of the 6-week check.':
+    'El sangrado disminuye y los puntos cicatrizan. Aumenta poco a poco los paseos y sigue con los ejercicios de suelo pélvico antes de la revisión de las 6 semanas.',
+  'Getting back to routine': 'Vuelta a la rutina',
+  'Energy usually improves. Talk to your care provider if low mood, pain or leaking continue.':
+    'La energía suele mejorar. Habla con tu profesional sanitario si el ánimo bajo, el dolor o las pérdidas de orina continúan.',
+
+  // Well-baby timeline
+  'Hepatitis B (dose 1)': 'Hepatitis B (1.ª dosis)',
+  'Given within 24 hours of birth': 'Se pone en las primeras 24 horas de vida',
+  'Newborn examination': 'Exploración del recién nacido',
+  'A full check of the baby before going home, with newborn hearing and blood spot screening':
+    'Revisión completa del bebé antes del alta, con la prueba de audición y la prueba del talón',
+  'First-week check-up': 'Revisión de la primera semana',
+  'Weight, feeding and jaundice check 3 to 5 days after the birth':
+    'Control de peso, alimentación e ictericia entre 3 y 5 días después del nacimiento',
+  '1-month well-baby visit': 'Revisión del mes',
+  'Growth, feeding and sleep, and how the family is settling in':
+    'Crecimiento, alimentación y sueño, y cómo se está adaptando la familia',
+  'Hepatitis B (dose 2)': 'Hepatitis B (2.ª dosis)',
+  'Given between 1 and 2 months': 'Se pone entre el primer y el segundo mes',
+  '2-month well-baby visit': 'Revisión de los 2 meses',
+  'Growth and development check alongside the first routine vaccinations':
+    'Control del crecimiento y el desarrollo junto con las primeras vacunas de rutina',
+  '2-month vaccinations': 'Vacunas de los 2 meses',
+  'DTaP, Hib, polio (IPV), pneumococcal (PCV) and rotavirus':
+    'DTPa, Hib, polio (VPI), neumococo (VNC) y rotavirus',
+  '4-month well-baby visit': 'Revisión de los 4 meses',
+  'Growth and development check, including rolling and head control':
+    'Control del crecimiento y el desarrollo, incluidos el volteo y el control de la cabeza',
+  '4-month vaccinations': 'Vacunas de los 4 meses',
+  'Second doses of DTaP, Hib, polio (IPV), pneumococcal (PCV) and rotavirus':
+    'Segundas dosis de DTPa, Hib, polio (VPI), neumococo (VNC) y rotavirus',
+  '6-month well-baby visit': 'Revisión de los 6 meses',
+  'Growth and development check and advice on starting solid foods':
+    'Control del crecimiento y el desarrollo y consejos para empezar con la alimentación complementaria',
+  '6-month vaccinations': 'Vacunas de los 6 meses',
+  'DTaP, Hib, pneumococcal (PCV) and rotavirus; polio and hepatitis B doses are due between 6 and 18 months':
+    'DTPa, Hib, neumococo (VNC) y rotavirus; las dosis de polio y hepatitis B se ponen entre los 6 y los 18 meses',
+  'Flu vaccine': 'Vacuna de la gripe',
+  'Yearly flu vaccination can start at 6 months, with two doses 4 weeks apart the first season':
+    'La vacuna anual de la gripe puede empezar a los 6 meses, con dos dosis separadas 4 semanas la primera temporada',
+  '9-month well-baby visit': 'Revisión de los 9 meses',
+  'Growth check and a standard developmental screening':
+    'Control del crecimiento y cribado estándar del desarrollo',
+  '12-month well-baby visit': 'Revisión de los 12 meses',
+  'Growth and development check, including a lead and anaemia screening':
+    'Control del crecimiento y el desarrollo, con cribado de plomo y anemia',
+  '12-month vaccinations': 'Vacunas de los 12 meses',
+  'MMR, chickenpox (varicella), hepatitis A and the pneumococcal (PCV) booster; the Hib booster is due between 12 and 15 months':
+    'Triple vírica, varicela, hepatitis A y refuerzo del neumococo (VNC); el refuerzo de Hib se pone entre los 12 y los 15 meses',
+
+  // Week 1
+  'Pregnancy dating begins with your last period':
+    'La datación del embarazo empieza con tu última regla',
+  'Your body prepares a new egg for release': 'Tu cuerpo prepara un nuevo óvulo para liberarlo',
+  'The uterine lining is shed and rebuilt': 'El revestimiento del útero se desprende y se renueva',
+  'Menstrual period': 'Menstruación',
+  'A good time to start folic acid if you have not already':
+    'Buen momento para empezar a tomar ácido fólico si aún no lo haces',
+  // Week 2
+  'Ovulation approaches': 'Se acerca la ovulación',
+  'An egg matures in the ovary': 'Un óvulo madura en el ovario',
+  'Ovulation usually happens around day 14 of a 28-day cycle':
+    'La ovulación suele producirse hacia el día 14 de un ciclo de 28 días',
+  'Cervical mucus becomes clear and stretchy': 'El moco cervical se vuelve claro y elástico',
+  'Some people notice mild ovulation pain': 'Algunas personas notan un leve dolor de ovulación',
+  // Week 3
+  'Fertilization and early cell division': 'Fecundación y primeras divisiones celulares',
+  'Sperm fertilizes the egg in the fallopian tube':
+    'El espermatozoide fecunda el óvulo en la trompa de Falopio',
+  'The fertilized egg divides into a blastocyst':
+    'El óvulo fecundado se divide hasta formar un blastocisto',
+  'No noticeable changes yet': 'Aún no hay cambios apreciables',
+  'Light implantation spotting is possible': 'Puede haber un ligero sangrado de implantación',
+  // Week 4
+  'Embryo implants in uterine wall': 'El embrión se implanta en la pared del útero',
+  'Poppy seed': 'Semilla de amapola',
+  'Neural tube formation begins': 'Comienza la formación del tubo neural',
+  'Heart starts to develop': 'El corazón empieza a desarrollarse',
+  'Missed period': 'Falta de la regla',
+  'A home pregnancy test may turn positive': 'Una prueba de embarazo casera puede dar positivo',
+  // Week 5
+  'Heart tube begins to beat': 'El tubo cardíaco empieza a latir',
+  'Sesame seed': 'Semilla de sésamo',
+  'Primitive heart tube forms and starts beating':
+    'Se forma el tubo cardíaco primitivo y empieza a latir',
+  'Brain and spinal cord start to form': 'El cerebro y la médula espinal empiezan a formarse',
+  'Breast tenderness': 'Sensibilidad en los pechos',
+  'Tiredness and frequent urination': 'Cansancio y ganas frecuentes de orinar',
+  // Week 6
+  'Facial features begin to form': 'Los rasgos faciales empiezan a formarse',
+  Lentil: 'Lenteja',
+  'Heartbeat may be seen on ultrasound': 'El latido puede verse en la ecografía',
+  'Eyes, nose and ears begin to form': 'Los ojos, la nariz y las orejas empiezan a formarse',
+  'Nausea (morning sickness) often starts': 'Suelen empezar las náuseas matutinas',
+  'Heightened sense of smell': 'Olfato más sensible',
+  // Week 7
+  'Arms and legs begin to grow': 'Los brazos y las piernas empiezan a crecer',
+  Blueberry: 'Arándano',
+  'Arm and leg buds lengthen': 'Los esbozos de brazos y piernas se alargan',
+  'Brain grows rapidly': 'El cerebro crece rápidamente',
+  'Food aversions or cravings': 'Aversiones o antojos de comida',
+  'Increased saliva': 'Más saliva',
+  // Week 8
+  'All major organs have begun to form': 'Todos los órganos principales han empezado a formarse',
+  Raspberry: 'Frambuesa',
+  'Limb buds appear': 'Aparecen los esbozos de las extremidades',
+  'Facial features developing': 'Se desarrollan los rasgos faciales',
+  'Nausea may peak': 'Las náuseas pueden alcanzar su punto máximo',
+  'Bloating and mood swings': 'Hinchazón y cambios de humor',
+  // Week 9
+  'Embryo looks more human': 'El embrión tiene un aspecto más humano',
+  Cherry: 'Cereza',
+  'Fingers and toes start to separate': 'Los dedos de manos y pies empiezan a separarse',
+  'Tiny muscles allow the first movements': 'Pequeños músculos permiten los primeros movimientos',
+  'Waistline may start to thicken': 'La cintura puede empezar a ensancharse',
+  'Heartburn and constipation': 'Ardor de estómago y estreñimiento',
+  // Week 10
+  'Embryonic period ends - now a fetus': 'Termina el periodo embrionario: ahora es un feto',
+  Strawberry: 'Fresa',
+  'Vital organs are in place and begin to function':
+    'Los órganos vitales están en su sitio y empiezan a funcionar',
+  'Tooth buds form': 'Se forman los brotes dentales',
+  'Visible veins on breasts and belly': 'Venas visibles en los pechos y el vientre',
+  'Mood changes from rising hormones': 'Cambios de humor por el aumento de las hormonas',
+  // Week 11
+  'Bones begin to harden': 'Los huesos empiezan a endurecerse',
+  Fig: 'Higo',
+  'Hands can open and close': 'Las manos pueden abrirse y cerrarse',
+  'Hair follicles form': 'Se forman los folículos pilosos',
+  'Nausea may start to ease': 'Las náuseas pueden empezar a remitir',
+  'Increased appetite': 'Más apetito',
+  // Week 12
+  'Fetus can make movements': 'El feto puede moverse',
+  Plum: 'Ciruela',
+  'Reflexes develop': 'Se desarrollan los reflejos',
+  'Kidneys start producing urine': 'Los riñones empiezan a producir orina',
+  'Risk of miscarriage drops': 'Disminuye el riesgo de aborto espontáneo',
+  'Uterus rises above the pelvic bone': 'El útero sube por encima del hueso pélvico',
+  // Week 13
+  'Last week of the first trimester': 'Última semana del primer trimestre',
+  Lemon: 'Limón',
+  'Vocal cords develop': 'Se desarrollan las cuerdas vocales',
+  'Intestines move into the abdomen': 'Los intestinos se colocan en el abdomen',
+  'Energy often returns': 'La energía suele volver',
+  'Less frequent urination as the uterus rises': 'Menos ganas de orinar a medida que el útero sube',
+  // Week 14
+  'Facial expressions appear': 'Aparecen las expresiones faciales',
+  Nectarine: 'Nectarina',
+  'Can squint, frown and grimace': 'Puede entrecerrar los ojos, fruncir el ceño y hacer muecas',
+  'Fine hair (lanugo) starts to grow': 'Empieza a crecer un vello fino (lanugo)',
+  'Round ligament pain': 'Dolor del ligamento redondo',
+  'Second-trimester energy boost': 'Aumento de energía del segundo trimestre',
+  // Week 15
+  'Baby senses light': 'El bebé percibe la luz',
+  Apple: 'Manzana',
+  'Eyes sense light through closed lids':
+    'Los ojos perciben la luz a través de los párpados cerrados',
+  'Skeleton continues to harden': 'El esqueleto sigue endureciéndose',
+  'Nasal congestion': 'Congestión nasal',
+  'Sensitive or bleeding gums': 'Encías sensibles o sangrantes',
+  // Week 16
+  'Baby can hear sounds from outside': 'El bebé puede oír sonidos del exterior',
+  Avocado: 'Aguacate',
+  'Hearing develops': 'Se desarrolla el oído',
+  'Limbs are fully formed': 'Las extremidades están completamente formadas',
+  'Some feel the first flutters (quickening)': 'Algunas notan los primeros aleteos',
+  'Skin may glow from increased blood flow':
+    'La piel puede verse más luminosa por el aumento del flujo sanguíneo',
+  // Week 17
+  'Fat stores begin to form': 'Empiezan a formarse las reservas de grasa',
+  Pear: 'Pera',
+  'Umbilical cord grows stronger': 'El cordón umbilical se fortalece',
+  'Sweat glands develop': 'Se desarrollan las glándulas sudoríparas',
+  'Growing appetite': 'Aumenta el apetito',
+  'Balance changes as the belly grows': 'El equilibrio cambia a medida que crece la tripa',
+  // Week 18
+  'Baby is active and stretching': 'El bebé está activo y se estira',
+  'Bell pepper': 'Pimiento',
+  'Ears move into their final position': 'Las orejas se colocan en su posición definitiva',
+  'Myelin begins to coat the nerves': 'La mielina empieza a recubrir los nervios',
+  'Movements become easier to notice': 'Los movimientos se notan con más facilidad',
+  'Backache may begin': 'Puede empezar el dolor de espalda',
+  // Week 19
+  'Protective vernix coats the skin': 'Una capa protectora (vérnix) recubre la piel',
+  Mango: 'Mango',
+  'Vernix caseosa forms': 'Se forma el vérnix caseoso',
+  'Senses of smell, taste, hearing and touch develop':
+    'Se desarrollan el olfato, el gusto, el oído y el tacto',
+  'Leg cramps': 'Calambres en las piernas',
+  'Dizziness when standing up quickly': 'Mareos al levantarse rápido',
+  // Week 20
+  'Halfway point - anatomy scan time': 'Mitad del embarazo: momento de la ecografía morfológica',
+  Banana: 'Plátano',
+  'Sex can be determined': 'Se puede determinar el sexo',
+  'Taste buds develop': 'Se desarrollan las papilas gustativas',
+  'Top of the uterus reaches the navel': 'La parte superior del útero llega al ombligo',
+  'Appetite increases': 'Aumenta el apetito',
+  // Week 21
+  'Baby swallows amniotic fluid': 'El bebé traga líquido amniótico',
+  Carrot: 'Zanahoria',
+  'Digestive system practises swallowing': 'El aparato digestivo practica la deglución',
+  'Sleep and wake cycles emerge': 'Aparecen ciclos de sueño y vigilia',
+  'Stretch marks may appear': 'Pueden aparecer estrías',
+  'Varicose veins': 'Varices',
+  // Week 22
+  'Senses are sharpening': 'Los sentidos se agudizan',
+  Papaya: 'Papaya',
+  'Lips, eyelids and eyebrows are distinct': 'Los labios, párpados y cejas se distinguen',
+  'Grip gets stronger': 'El agarre se hace más fuerte',
+  'Braxton Hicks contractions may start': 'Pueden empezar las contracciones de Braxton Hicks',
+  'Swollen feet': 'Pies hinchados',
+  // Week 23
+  'Rapid weight gain begins': 'Comienza un rápido aumento de peso',
+  Grapefruit: 'Pomelo',
+  'Blood vessels in the lungs develop': 'Se desarrollan los vasos sanguíneos de los pulmones',
+  'Baby may respond to familiar voices': 'El bebé puede reaccionar a voces conocidas',
+  'Mild swelling of ankles and feet': 'Ligera hinchazón de tobillos y pies',
+  'Increased vaginal discharge': 'Aumento del flujo vaginal',
+  // Week 24
+  'Viability milestone reached': 'Hito de viabilidad alcanzado',
+  'Corn on the cob': 'Mazorca de maíz',
+  'Lungs begin producing surfactant': 'Los pulmones empiezan a producir surfactante',
+  'Hearing is well developed': 'El oído está bien desarrollado',
+  'Glucose screening is usually done between 24 and 28 weeks':
+    'La prueba de glucosa suele hacerse entre las semanas 24 y 28',
+  'Itchy skin over the belly': 'Picor en la piel de la tripa',
+  // Week 25
+  'Baby practises breathing movements': 'El bebé practica movimientos respiratorios',
+  Cauliflower: 'Coliflor',
+  'Nostrils open': 'Se abren las fosas nasales',
+  'Hair gains color and texture': 'El pelo adquiere color y textura',
+  'Trouble sleeping': 'Dificultad para dormir',
+  Heartburn: 'Ardor de estómago',
+  // Week 26
+  'Eyes begin to open': 'Los ojos empiezan a abrirse',
+  'Head of lettuce': 'Lechuga',
+  'Brain activity for hearing and sight increases':
+    'Aumenta la actividad cerebral del oído y la vista',
+  'Lungs continue to mature': 'Los pulmones siguen madurando',
+  'Pelvic pressure': 'Presión en la pelvis',
+  'Blood pressure is checked for pre-eclampsia':
+    'Se controla la tensión arterial para detectar preeclampsia',
+  // Week 27
+  'Last week of the second trimester': 'Última semana del segundo trimestre',
+  Cabbage: 'Repollo',
+  'Brain is very active': 'El cerebro está muy activo',
+  'Baby may get hiccups': 'El bebé puede tener hipo',
+  'Leg cramps and restless legs': 'Calambres y piernas inquietas',
+  'Shortness of breath': 'Falta de aliento',
+  // Week 28
+  Eggplant: 'Berenjena',
+  'Eyes can open': 'Los ojos pueden abrirse',
+  'Brain tissue increases rapidly': 'El tejido cerebral aumenta rápidamente',
+  'Time to start counting kicks': 'Momento de empezar a contar las patadas',
+  'Rh-negative mothers are usually offered anti-D':
+    'A las madres Rh negativo se les suele ofrecer anti-D',
+  // Week 29
+  'Muscles and lungs keep maturing': 'Los músculos y los pulmones siguen madurando',
+  'Butternut squash': 'Calabaza',
+  'Head grows to make room for the brain': 'La cabeza crece para dar espacio al cerebro',
+  'Bones absorb more calcium': 'Los huesos absorben más calcio',
+  'Constipation and hemorrhoids': 'Estreñimiento y hemorroides',
+  'Increased tiredness': 'Más cansancio',
+  // Week 30
+  'Bone marrow makes red blood cells': 'La médula ósea produce glóbulos rojos',
+  Cucumber: 'Pepino',
+  'Bone marrow takes over red blood cell production':
+    'La médula ósea asume la producción de glóbulos rojos',
+  'Lanugo begins to disappear': 'El lanugo empieza a desaparecer',
+  'Mood swings': 'Cambios de humor',
+  'Breathlessness as the uterus presses up':
+    'Falta de aliento porque el útero presiona hacia arriba',
+  // Week 31
+  'All five senses are working': 'Los cinco sentidos funcionan',
+  Coconut: 'Coco',
+  'Baby turns head from side to side': 'El bebé gira la cabeza de un lado a otro',
+  'Rapid weight gain continues': 'Continúa el rápido aumento de peso',
+  'Breasts may leak colostrum': 'Los pechos pueden soltar calostro',
+  'Braxton Hicks contractions become more frequent':
+    'Las contracciones de Braxton Hicks son más frecuentes',
+  // Week 32
+  'Rapid brain development continues': 'Continúa el rápido desarrollo cerebral',
+  Jicama: 'Jícama',
+  'Bones harden': 'Los huesos se endurecen',
+  'Toenails and fingernails grow': 'Crecen las uñas de manos y pies',
+  'Heartburn and indigestion': 'Ardor de estómago e indigestión',
+  'Frequent urination returns': 'Vuelven las ganas frecuentes de orinar',
+  // Week 33
+  'Immune system strengthens': 'El sistema inmunitario se fortalece',
+  Pineapple: 'Piña',
+  'Antibodies pass from mother to baby': 'Los anticuerpos pasan de la madre al bebé',
+  'Skull bones stay soft for birth': 'Los huesos del cráneo siguen blandos para el parto',
+  'Swelling of hands and feet': 'Hinchazón de manos y pies',
+  'Aches in the hips and pelvis': 'Molestias en las caderas y la pelvis',
+  // Week 34
+  'Central nervous system matures': 'Madura el sistema nervioso central',
+  Cantaloupe: 'Melón cantalupo',
+  'Lungs are almost mature': 'Los pulmones están casi maduros',
+  'Fingernails reach the fingertips': 'Las uñas llegan a la punta de los dedos',
+  'Blurry vision can occur': 'Puede aparecer visión borrosa',
+  Tiredness: 'Cansancio',
+  // Week 35
+  'Baby has less room to move': 'El bebé tiene menos espacio para moverse',
+  'Honeydew melon': 'Melón',
+  'Kidneys are fully developed': 'Los riñones están completamente desarrollados',
+  'Liver can process some waste': 'El hígado puede procesar algunos desechos',
+  'Pressure on the bladder': 'Presión en la vejiga',
+  'Pelvic discomfort': 'Molestias pélvicas',
+  // Week 36
+  'Baby is getting ready for birth': 'El bebé se prepara para nacer',
+  'Romaine lettuce': 'Lechuga romana',
+  'Immune system develops': 'Se desarrolla el sistema inmunitario',
+  'Fat continues to accumulate': 'Sigue acumulándose grasa',
+  'Baby may drop lower (lightening)': 'El bebé puede descender (encajamiento)',
+  'Prenatal visits become weekly': 'Las visitas prenatales pasan a ser semanales',
+  // Week 37
+  'Lungs are nearly ready': 'Los pulmones están casi listos',
+  'Swiss chard': 'Acelga',
+  'Baby practises breathing, sucking and gripping':
+    'El bebé practica la respiración, la succión y el agarre',
+  'Head may engage in the pelvis': 'La cabeza puede encajarse en la pelvis',
+  'Group B strep screening is often offered':
+    'Se suele ofrecer la prueba del estreptococo del grupo B',
+  'Pelvic pressure as the head drops': 'Presión pélvica al descender la cabeza',
+  // Week 38
+  'Early term - baby is considered term': 'Término temprano: el bebé se considera a término',
+  Leek: 'Puerro',
+  'Most lanugo has been shed': 'Se ha desprendido casi todo el lanugo',
+  'Vernix is shedding': 'El vérnix se está desprendiendo',
+  'Loss of the mucus plug': 'Expulsión del tapón mucoso',
+  'Nesting instinct': 'Instinto de anidación',
+  // Week 39
+  'Organs are ready for life outside the womb':
+    'Los órganos están listos para la vida fuera del útero',
+  'Mini watermelon': 'Sandía pequeña',
+  'Fat layer helps regulate temperature': 'La capa de grasa ayuda a regular la temperatura',
+  'Brain continues growing rapidly': 'El cerebro sigue creciendo rápidamente',
+  'Irregular practice contractions': 'Contracciones de práctica irregulares',
+  'Swelling of feet and ankles': 'Hinchazón de pies y tobillos',
+  // Week 40
+  'Full term - ready for birth': 'Término completo: listo para nacer',
+  'Small pumpkin': 'Calabaza pequeña',
+  'Fully developed': 'Completamente desarrollado',
+  'Ready for life outside the womb': 'Listo para la vida fuera del útero',
+  'Cervix softens and ripens': 'El cuello uterino se ablanda y madura',
+  'Signs of labor can begin any day': 'Los signos de parto pueden aparecer cualquier día',
+  // Week 41
+  'Due date week': 'Semana de la fecha de parto',
+  Watermelon: 'Sandía',
+  'Nails may extend past the fingertips': 'Las uñas pueden sobresalir de la punta de los dedos',
+  'Skin may start to look dry': 'La piel puede empezar a verse seca',
+  'Only about 1 in 20 babies arrive on their due date':
+    'Solo 1 de cada 20 bebés nace en su fecha de parto',
+  'A membrane sweep may be offered': 'Puede ofrecerse un despegamiento de membranas',
+  // Week 42
+  'Late term - extra monitoring begins': 'Término tardío: comienza una vigilancia adicional',
+  Jackfruit: 'Yaca',
+  'Placenta may work less efficiently': 'La placenta puede funcionar peor',
+  'Amniotic fluid may decrease': 'El líquido amniótico puede disminuir',
+  "Extra monitoring of baby's well-being": 'Vigilancia adicional del bienestar del bebé',
+  'Induction of labor is recommended': 'Se recomienda la inducción del parto',
+
+  // Growth scans for multiples
+  'Growth Scan': 'Ecografía de crecimiento',
+  'Ultrasound to check growth, fluid and well-being of each baby':
+    'Ecografía para comprobar el crecimiento, el líquido y el bienestar de cada bebé',
+
+  // ACOG appointments
+  'First Prenatal Visit': 'Primera visita prenatal',
+  'Confirm pregnancy, medical history, initial tests':
+    'Confirmación del embarazo, historia clínica y primeras pruebas',
+  'First Trimester Screening': 'Cribado del primer trimestre',
+  'NT scan and blood work for genetic screening':
+    'Ecografía de translucencia nucal y análisis de sangre para el cribado genético',
+  'Routine Checkup': 'Revisión rutinaria',
+  'Blood pressure, weight, fundal height measurement':
+    'Tensión arterial, peso y medición de la altura uterina',
+  'Anatomy Scan': 'Ecografía morfológica',
+  "Detailed ultrasound to check baby's development":
+    'Ecografía detallada para comprobar el desarrollo del bebé',
+  'Glucose Screening': 'Prueba de glucosa',
+  'Test for gestational diabetes': 'Prueba de diabetes gestacional',
+  'Third Trimester Begin': 'Inicio del tercer trimestre',
+  'Routine checkup, discuss birth plan': 'Revisión rutinaria y plan de parto',
+  "Monitor baby's growth and position": 'Control del crecimiento y la posición del bebé',
+  'Group B Strep Test': 'Prueba del estreptococo del grupo B',
+  'Screen for Group B Streptococcus bacteria': 'Detección de la bacteria estreptococo del grupo B',
+  'Pre-delivery Checkup': 'Revisión previa al parto',
+  'Check cervix, discuss delivery options': 'Exploración del cuello uterino y opciones de parto',
+  'Due Date Assessment': 'Valoración en la fecha de parto',
+  'Evaluate if induction is needed': 'Valorar si es necesaria la inducción',
+  'Post-dates Monitoring': 'Control por embarazo prolongado',
+  'Non-stress test and amniotic fluid check, usually twice weekly':
+    'Monitorización fetal y control del líquido amniótico, normalmente dos veces por semana',
+  'Induction Discussion': 'Conversación sobre la inducción',
+  'Plan induction of labor before 42 weeks':
+    'Planificar la inducción del parto antes de las 42 semanas',
+  'Post-term Evaluation': 'Valoración postérmino',
+  'Induction recommended if labor has not started; continued fetal monitoring':
+    'Se recomienda la inducción si el parto no ha comenzado; vigilancia fetal continuada',
+
+  // NICE appointments
+  'Booking Appointment': 'Cita de inicio',
+  'Midwife booking: health history, blood and urine tests, screening choices':
+    'Cita con la matrona: historia de salud, análisis de sangre y orina, opciones de cribado',
+  'Dating Scan': 'Ecografía de datación',
+  'Ultrasound to confirm the due date, with combined screening if chosen':
+    'Ecografía para confirmar la fecha de parto, con cribado combinado si se elige',
+  'Midwife Appointment': 'Cita con la matrona',
+  'Review screening results, blood pressure and urine check':
+    'Revisión de los resultados del cribado, tensión arterial y análisis de orina',
+  'Anomaly Scan': 'Ecografía de anomalías',
+  "Mid-pregnancy ultrasound to check baby's development":
+    'Ecografía de mitad del embarazo para comprobar el desarrollo del bebé',
+  'Glucose Tolerance Test': 'Prueba de tolerancia a la glucosa',
+  'Offered if you have risk factors for gestational diabetes':
+    'Se ofrece si tienes factores de riesgo de diabetes gestacional',
+  'Blood pressure, urine and fundal height (first pregnancy)':
+    'Tensión arterial, orina y altura uterina (primer embarazo)',
+  'Blood tests for anaemia and antibodies; anti-D if Rh negative':
+    'Análisis de sangre de anemia y anticuerpos; anti-D si eres Rh negativo',
+  'Review blood results, blood pressure and fundal height (first pregnancy)':
+    'Revisión de los análisis, tensión arterial y altura uterina (primer embarazo)',
+  'Blood pressure, urine and fundal height; discuss preparing for labour':
+    'Tensión arterial, orina y altura uterina; preparación para el parto',
+  "Check baby's position; discuss labour, feeding and vitamin K":
+    'Comprobar la posición del bebé; hablar del parto, la alimentación y la vitamina K',
+  'Blood pressure, urine and fundal height': 'Tensión arterial, orina y altura uterina',
+  'Post-dates Appointment': 'Cita por embarazo prolongado',
+  'Membrane sweep offered and induction of labour discussed':
+    'Se ofrece despegamiento de membranas y se habla de la inducción del parto',
+  'Induction of Labour': 'Inducción del parto',
+  'Induction offered between 41 and 42 weeks': 'Inducción ofrecida entre las semanas 41 y 42',
+  'Post-term Monitoring': 'Control postérmino',
+  'Increased monitoring if you choose to wait for labour':
+    'Más vigilancia si decides esperar al parto',
+
+  // WHO appointments
+  'First ANC Contact': 'Primer contacto prenatal',
+  'History, examination, blood tests and counselling; iron and folic acid':
+    'Historia clínica, exploración, análisis de sangre y asesoramiento; hierro y ácido fólico',
+  'Ultrasound Scan': 'Ecografía',
+  'One scan before 24 weeks to confirm dates and detect anomalies or multiples':
+    'Una ecografía antes de las 24 semanas para confirmar las fechas y detectar anomalías o embarazos múltiples',
+  'ANC Contact 2': 'Contacto prenatal 2',
+  'ANC Contact 3': 'Contacto prenatal 3',
+  'ANC Contact 4': 'Contacto prenatal 4',
+  'ANC Contact 5': 'Contacto prenatal 5',
+  'ANC Contact 6': 'Contacto prenatal 6',
+  'ANC Contact 7': 'Contacto prenatal 7',
+  'ANC Contact 8': 'Contacto prenatal 8',
+  "Blood pressure, baby's growth and health check":
+    'Tensión arterial, crecimiento del bebé y control de salud',
+  "Blood pressure, baby's growth and anaemia check":
+    'Tensión arterial, crecimiento del bebé y control de anemia',
+  "Blood pressure, baby's growth and birth preparedness":
+    'Tensión arterial, crecimiento del bebé y preparación para el parto',
+  "Check baby's position and plan for birth":
+    'Comprobar la posición del bebé y planificar el parto',
+  'Review well-being; plan for induction if labour has not started by 41 weeks':
+    'Revisión del bienestar; planificar la inducción si el parto no ha comenzado a las 41 semanas',
+  'Induction recommended from 41 weeks': 'Se recomienda la inducción a partir de las 41 semanas',
+  'Induction recommended if labour has not started; continued fetal monitoring':
+    'Se recomienda la inducción si el parto no ha comenzado; vigilancia fetal continuada',
+};
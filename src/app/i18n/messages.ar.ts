@@ -0,0 +1,844 @@
+import { MessageCatalog } from './messages.en';
+
+/**
+ * Arabic interface messages
+ * Counted messages use Arabic's six plural categories (zero, one, two, few, many, other)
+ */
+export const AR_MESSAGES: MessageCatalog = {
+  // Shared labels
+  'common.cancel': 'إلغاء',
+  'common.scanDate': 'تاريخ الفحص',
+  'common.crownRumpLengthMm': 'طول الجنين من الرأس إلى العجز (مم)',
+  'common.careGuideline': 'دليل الرعاية',
+  'common.dateFormat': 'تنسيق التاريخ',
+  'common.language': 'اللغة',
+  'common.noData': 'لا تتوفر بيانات الحمل',
+  'common.week': 'الأسبوع {week}',
+  'common.weeks': 'الأسابيع {start}-{end}',
+
+  // Trimesters and term categories
+  'trimester.first': 'الأول',
+  'trimester.second': 'الثاني',
+  'trimester.third': 'الثالث',
+  'trimester.unknown': 'غير معروف',
+  'trimester.firstShort': 'الأول',
+  'trimester.secondShort': 'الثاني',
+  'trimester.thirdShort': 'الثالث',
+  'term.preterm': 'قبل الأوان',
+  'term.earlyTerm': 'تمام مبكر',
+  'term.fullTerm': 'تمام كامل',
+  'term.lateTerm': 'تمام متأخر',
+  'term.postTerm': 'بعد التمام',
+
+  // Validation
+  'validation.required': 'هذا الحقل مطلوب',
+  'validation.futureDate': 'لا يمكن أن يكون التاريخ في المستقبل',
+  'validation.futureScanDate': 'لا يمكن أن يكون تاريخ الفحص في المستقبل',
+  'validation.tooOld': 'يرجى إدخال تاريخ أحدث',
+  'validation.range': 'أدخلي قيمة بين {min} و{max}',
+  'validation.rangeMm': 'أدخلي قيمة بين {min} و{max} مم',
+  'validation.invalid': 'أدخلي قيمة صحيحة',
+  'validation.invalidScan': 'بيانات الفحص غير صحيحة',
+  'validation.futureDeliveryDate': 'لا يمكن أن يكون تاريخ الولادة في المستقبل',
+  'validation.deliveryBeforePregnancy': 'يجب أن يكون تاريخ الولادة بعد بداية الحمل',
+  'validation.periodAlreadyLogged': 'هذه الدورة مسجّلة بالفعل',
+  'validation.passphraseLength': 'استخدمي {min} أحرف على الأقل',
+  'validation.passphraseMismatch': 'عبارتا المرور غير متطابقتين',
+
+  // Themes and date formats
+  'theme.neutral': 'محايد',
+  'theme.neutralDescription': 'ألوان دافئة ومحايدة',
+  'theme.boy': 'ولد',
+  'theme.boyDescription': 'لمسات زرقاء هادئة',
+  'theme.girl': 'بنت',
+  'theme.girlDescription': 'لمسات وردية هادئة',
+  'dateFormat.us': 'أمريكي',
+  'dateFormat.usDescription': 'الشهر أولاً',
+  'dateFormat.dayFirst': 'اليوم أولاً',
+  'dateFormat.dayFirstDescription': 'مستخدم في المملكة المتحدة وأوروبا ومعظم دول العالم',
+  'dateFormat.iso': 'ISO',
+  'dateFormat.isoDescription': 'السنة أولاً، يُرتَّب حسب التاريخ',
+  'dateFormat.long': 'صيغة كاملة',
+  'dateFormat.longDescription': 'اسم الشهر مكتوب بالكامل',
+  'dateFormat.locale': 'الصيغة الإقليمية',
+  'dateFormat.localeDescription': 'الصيغة الإقليمية لمتصفحك',
+
+  // Calculator
+  'calc.gestationalAge': '{weeks} أسابيع و{days} أيام',
+  'calc.baby': 'الطفل',
+  'calc.babyLetter': 'الطفل {letter}',
+  'calc.datedOn': '{method} في {date}',
+  'calc.datedOnCrl': '{method} في {date} (CRL {crl} مم)',
+  'calc.dueDateRuleFixed': 'لا توجد (طريقة التأريخ تحدد تاريخ الإخصاب)',
+  'calc.dueDateRuleStandard': 'قاعدة نيجل القياسية (دورة {cycleLength} يومًا)',
+  'calc.dueDateRuleAdjusted':
+    'قاعدة نيجل المعدّلة: دورة {cycleLength} يومًا، طور أصفري {lutealPhase} يومًا ({adjustment} أيام)',
+  'calc.redatingCrlFixed':
+    'تم التأريخ بالفعل بفحص في الثلث الأول؛ الفحوصات اللاحقة لا تغيّر موعد الولادة.',
+  'calc.redatingIvfFixed':
+    'تأريخ أطفال الأنابيب هو الطريقة الأدق؛ الفحص بالموجات فوق الصوتية لا يغيّر موعد الولادة.',
+  'calc.redatingComparison':
+    'يختلف الفحص بالموجات فوق الصوتية عن التأريخ حسب {method} بمقدار {days} أيام عند {band} (الحد {threshold} أيام): {outcome}',
+  'calc.redatingRevised': 'تم تعديل موعد الولادة وفق الفحص بالموجات فوق الصوتية.',
+  'calc.redatingKept': 'تم الإبقاء على موعد الولادة الأصلي.',
+  'calc.redatingLateScan': 'التأريخ بفحص بعد الأسبوع 22 أقل موثوقية.',
+  'calc.plannedBirthWindow': 'تبدأ هذا الأسبوع فترة الولادة المخطط لها لـ{plurality}',
+  'calc.milestone': 'الأسبوع {week}: {description}',
+  'calc.appointment': '{type}: {description}',
+  'calc.appointmentInWindow': '{type} ({weeks}): {description}',
+  'calc.nextAppointment': '{weeks}: {type}',
+  'calc.gestationalAgeNotation': '{weeks} {days}/7 أسبوع',
+  'calc.keyDateOnwards': 'من {date} فصاعدًا',
+  'calc.leaveEvent': 'الإجازة: {label}',
+  'calc.monthFilter': {
+    zero: '{month} {year} (لا أيام)',
+    one: '{month} {year} (يوم واحد)',
+    two: '{month} {year} (يومان)',
+    few: '{month} {year} ({count} أيام)',
+    many: '{month} {year} ({count} يومًا)',
+    other: '{month} {year} ({count} يوم)',
+  },
+  'calc.errorScanBeforePregnancy': 'لا يمكن أن يكون تاريخ الفحص قبل بداية الحمل.',
+  'calc.errorScanMeasurement': 'يحتاج الفحص إلى طول الجنين من الرأس إلى العجز أو عمر الحمل.',
+  'calc.errorCrlRequired': 'طول الجنين من الرأس إلى العجز مطلوب للتأريخ بالموجات فوق الصوتية.',
+  'calc.errorCrlRange': 'يجب أن يكون طول الجنين من الرأس إلى العجز بين {min} و{max} مم.',
+  'calc.errorCycleLength': 'يجب أن يكون طول الدورة بين {min} و{max} يومًا.',
+  'calc.errorLutealPhase': 'يجب أن يكون الطور الأصفري بين {min} و{max} يومًا.',
+
+  // Header
+  'header.title': 'تقويم الحمل',
+  'header.preview': 'معاينة: {date}',
+  'header.themeButton': 'اختيار لون السمة',
+  'header.theme': 'السمة',
+  'header.themeOption': 'اختيار سمة {label}: {description}',
+  'header.settingsButton': 'فتح قائمة الإعدادات',
+  'header.settings': 'الإعدادات',
+  'header.dateFormatOption': 'تنسيق التاريخ {label}: {description}',
+  'header.profileButton': 'الملف الشخصي: {name}. تبديل الملفات الشخصية أو إدارتها',
+  'header.profiles': 'الملفات الشخصية',
+  'header.archivedProfiles': 'المؤرشفة',
+  'header.newProfile': 'ملف شخصي جديد',
+  'header.renameProfile': 'إعادة تسمية الملف الشخصي',
+  'header.archiveProfile': 'أرشفة هذا الحمل',
+  'header.restoreProfile': 'استعادة من الأرشيف',
+  'header.deleteProfile': 'حذف الملف الشخصي',
+  'header.profileNamePrompt': 'اسم الملف الشخصي (مثل اسم الأم أو الأب)',
+  'header.resetPreferences': 'إعادة ضبط التفضيلات',
+  'header.storage': 'التخزين',
+  'header.storageUsage': 'تم استخدام {used} من {total}',
+  'header.storageNearlyFull':
+    'التخزين ممتلئ تقريبًا. نزّلي نسخة احتياطية واحذفي الصور التي لم تعودي بحاجة إليها.',
+  'header.storageFull':
+    'التخزين ممتلئ ولم يُحفظ التغيير الأخير. احذفي الصور التي لم تعودي بحاجة إليها وحاولي مرة أخرى.',
+  'header.privacy': 'الخصوصية',
+  'header.enableEncryption': 'تشفير بياناتي',
+  'header.changePassphrase': 'تغيير عبارة المرور',
+  'header.downloadRecoveryKey': 'تنزيل مفتاح الاسترداد',
+  'header.lockNow': 'القفل الآن',
+  'header.disableEncryption': 'إيقاف التشفير',
+  'header.backup': 'النسخ الاحتياطي',
+  'header.downloadBackup': 'تنزيل نسخة احتياطية',
+  'header.restoreBackup': 'الاستعادة من ملف',
+  'header.help': 'المساعدة والمعلومات',
+  'header.helpMessage':
+    'مساعدة تقويم الحمل\n\n' +
+    'يحسب هذا التطبيق الجدول الزمني لحملك بناءً على تاريخ آخر دورة شهرية.\n\n' +
+    'الميزات الرئيسية:\n' +
+    '• عرض الملخص: حالة حملك الحالية\n' +
+    '• عرض الجدول: تقويم مفصل يومًا بيوم مع المراحل المهمة\n' +
+    '• التصدير: احفظي تقويمك بصيغة PDF أو Excel\n' +
+    '• السمات: اختاري الألوان التي تفضلينها\n' +
+    '• اللغة: بدّلي بين الإنجليزية والإسبانية والعربية من قائمة الإعدادات\n\n' +
+    'تنبيه طبي:\n' +
+    'جميع الحسابات تقديرات مبنية على حمل قياسي مدته 40 أسبوعًا. كل حمل مختلف. استشيري دائمًا مقدم الرعاية الصحية للحصول على نصيحة طبية شخصية.\n\n' +
+    'التنقل:\n' +
+    '• استخدمي الأزرار العائمة في الأسفل للتبديل بين العروض وتصدير البيانات\n' +
+    '• غيّري السمة من أداة الاختيار في الترويسة\n' +
+    '• صفّي عرض الجدول حسب الشهر من القائمة المنسدلة\n\n' +
+    'للدعم الفني أو الملاحظات، يرجى التواصل مع مسؤول النظام.',
+
+  // Setup
+  'setup.title': 'مرحبًا بك في تقويم الحمل',
+  'setup.description':
+    'لنجهّز متابعة حملك الشخصية. سنحسب كل شيء انطلاقًا من تاريخ آخر دورة شهرية أو الإخصاب أو نقل الأجنة في أطفال الأنابيب أو فحص مبكر بالموجات فوق الصوتية، وفق الإرشادات الطبية المعتمدة.',
+  'setup.datingMethod': 'كيف تم تأريخ حملك؟',
+  'setup.datingMethodHelp':
+    'استخدمي تاريخ آخر دورة شهرية إذا كنت تعرفينه. التأريخ بنقل الأجنة أو بفحص مبكر أدق إن توفر.',
+  'setup.datingDateHelp':
+    'نحوّل هذا التاريخ إلى تاريخ دورة مكافئ لحساب الجدول الزمني لحملك وموعد الولادة.',
+  'setup.cycleLength': 'متوسط طول الدورة (أيام)',
+  'setup.lutealPhase': 'طول الطور الأصفري (أيام)',
+  'setup.cycleHelp':
+    'اختياري. إذا لم تكن دوراتك 28 يومًا، يُعدَّل موعد الولادة بقاعدة نيجل المعدّلة. اتركيه فارغًا لاستخدام الدورة القياسية 28 يومًا.',
+  'setup.crownRumpLengthHelp':
+    'قياس CRL من تقرير الفحص. التأريخ في الثلث الأول صالح بين {min} و{max} مم.',
+  'setup.plurality': 'كم عدد الأطفال؟',
+  'setup.pluralityHelp': 'للتوائم والثلاثة فترة ولادة مخطط لها أبكر وفحوصات نمو إضافية.',
+  'setup.guidelineProfile': 'جدول المواعيد',
+  'setup.guidelineProfileHelp':
+    'اختاري دليل رعاية الحمل المتبع في بلدك. تُعرض المواعيد مع الأسابيع الموصى بها.',
+  'setup.dateFormatHelp':
+    'يُستخدم لجميع التواريخ في التطبيق والملفات المصدّرة. يمكنك تغييره لاحقًا من قائمة الإعدادات.',
+  'setup.languageHelp':
+    'تُستخدم لجميع النصوص في التطبيق والملفات المصدّرة. يمكنك تغييرها لاحقًا من قائمة الإعدادات.',
+  'setup.theme': 'اختاري السمة',
+  'setup.themeHelp': 'اختاري لونًا لتقويم حملك. يمكنك تغييره لاحقًا.',
+  'setup.disclaimerTitle': 'تنبيه طبي مهم',
+  'setup.disclaimerIntro': 'تقويم الحمل هذا للمعلومات فقط.',
+  'setup.disclaimerCalculations':
+    'جميع الحسابات مبنية على حمل قياسي مدته 40 أسبوعًا (280 يومًا)، ويمتد التقويم حتى الأسبوع 42',
+  'setup.disclaimerVariation': 'قد يختلف كل حمل كثيرًا عن هذه التقديرات',
+  'setup.disclaimerNoReplacement': 'هذه الأداة لا تغني عن الرعاية أو النصيحة الطبية المتخصصة',
+  'setup.disclaimerConsult': 'استشيري دائمًا مقدم الرعاية الصحية للحصول على إرشاد طبي شخصي',
+  'setup.disclaimerUrgent': 'اطلبي الرعاية الطبية فورًا عند أي مشكلة متعلقة بالحمل',
+  'setup.disclaimerAccept': 'أفهم هذا التنبيه الطبي وأوافق عليه',
+  'setup.disclaimerRequired': 'يجب الموافقة على التنبيه الطبي للمتابعة',
+  'setup.submit': 'ابدئي رحلة حملي',
+  'setup.submitting': 'جارٍ إعداد تقويمك...',
+  'setup.mode': 'ماذا تريدين أن تتابعي؟',
+  'setup.modePregnancy': 'أنا حامل',
+  'setup.modePreconception': 'أحاول الحمل',
+  'setup.modeHelp':
+    'تحاولين الحمل؟ سجّلي دوراتك الشهرية لمعرفة فترة الخصوبة، ثم انتقلي إلى تقويم الحمل بلمسة واحدة.',
+  'setup.lastPeriodHelp':
+    'أول يوم من آخر دورة شهرية. سجّلي الدورات التالية في متابعة الدورة لتحسين التوقعات.',
+  'setup.preconceptionCycleHelp':
+    'اختياري. يُستخدم للتوقعات إلى أن تسجّلي دورتين. اتركيه فارغًا لاستخدام الدورة القياسية 28 يومًا والطور الأصفري 14 يومًا.',
+  'setup.submitPreconception': 'ابدئي متابعة الدورة',
+  'setup.whyLmp': 'لماذا نحتاج تاريخ آخر دورة شهرية؟',
+  'setup.whyLmpIntro': 'تاريخ آخر دورة شهرية هو المعيار الطبي لحساب الجدول الزمني للحمل لأنه:',
+  'setup.whyLmpRemember': 'غالبًا أسهل في التذكر من تاريخ الإخصاب',
+  'setup.whyLmpStandard': 'معظم مقدمي الرعاية الصحية يستخدمون هذه الطريقة',
+  'setup.whyLmpAccurate': 'يعطي أدق حسابات لعمر الحمل',
+  'setup.whyLmpMilestones': 'جميع مراحل الحمل القياسية مبنية عليه',
+  'setup.whyLmpStart':
+    'يُحسب حملك من اليوم الأول لآخر دورة شهرية، مع أن الإخصاب يحدث عادةً بعد نحو أسبوعين.',
+  'setup.whyLmpOtherMethods':
+    'إذا خضعت لأطفال الأنابيب أو تم تأريخ حملك بفحص مبكر، فاختاري تلك الطريقة. نحسب تاريخ الدورة المكافئ: الإخصاب بعد 14 يومًا من الدورة، ونقل جنين اليوم الثالث بعد 17 يومًا، ونقل الكيسة الأريمية في اليوم الخامس بعد 19 يومًا. يستخدم التأريخ بالموجات فوق الصوتية طول الجنين من الرأس إلى العجز المقاس قبل الأسبوع 14.',
+
+  // Summary view
+  'summary.title': 'رحلة حملك',
+  'summary.subtitle': 'تابعي تقدمك والمراحل المهمة',
+  'summary.currentStatus': 'الحالة الحالية',
+  'summary.currentAge': 'عمر الحمل',
+  'summary.trimester': 'الثلث',
+  'summary.dueDate': 'موعد الولادة',
+  'summary.progress': 'تقدم الحمل',
+  'summary.progressAria': 'تقدم الحمل: اكتمل {percent} بالمئة',
+  'summary.daysCompleted': {
+    zero: 'لم يكتمل أي يوم',
+    one: 'اكتمل يوم واحد',
+    two: 'اكتمل يومان',
+    few: 'اكتملت {count} أيام',
+    many: 'اكتمل {count} يومًا',
+    other: 'اكتمل {count} يوم',
+  },
+  'summary.daysOverdue': {
+    zero: 'لا تأخير',
+    one: 'متأخر يومًا واحدًا',
+    two: 'متأخر يومين',
+    few: 'متأخر {count} أيام',
+    many: 'متأخر {count} يومًا',
+    other: 'متأخر {count} يوم',
+  },
+  'summary.daysRemaining': {
+    zero: 'لم يتبقَّ أي يوم',
+    one: 'تبقّى يوم واحد',
+    two: 'تبقّى يومان',
+    few: 'تبقّت {count} أيام',
+    many: 'تبقّى {count} يومًا',
+    other: 'تبقّى {count} يوم',
+  },
+  'summary.estimatedWeight': 'الوزن التقديري',
+  'summary.estimatedWeightEach': 'الوزن التقديري (لكل طفل)',
+  'summary.percentileRange': 'المئين 10–90: {low}–{high} {unit}',
+  'summary.crownRumpLength': 'الطول من الرأس إلى العجز',
+  'summary.estimatedLength': 'الطول التقديري',
+  'summary.datedBy': 'طريقة التأريخ:',
+  'summary.dueDateRule': 'قاعدة موعد الولادة:',
+  'summary.termStatus': 'حالة التمام:',
+  'summary.pregnancyType': 'نوع الحمل:',
+  'summary.careGuideline': 'دليل الرعاية:',
+  'summary.deliveryWindow': 'فترة الولادة:',
+  'summary.thisWeek': 'هذا الأسبوع: الأسبوع {week}',
+  'summary.sizeComparison': 'الحجم يعادل:',
+  'summary.babysDevelopment': 'نمو طفلك',
+  'summary.changesForYou': 'تغيرات لديك',
+  'summary.upcomingMilestones': 'المراحل القادمة',
+  'summary.noMilestones': 'أنت قريبة من نهاية الحمل! لم تتبقَّ مراحل رئيسية.',
+  'summary.nextAppointments': 'المواعيد القادمة',
+  'summary.noAppointments': 'لا توجد مواعيد مجدولة. راجعي مقدم الرعاية الصحية لمعرفة جدولك الشخصي.',
+  'summary.keyDates': 'التواريخ المهمة',
+  'summary.keyDatePassed': 'مضى',
+  'summary.trimesterTitle': 'الثلث {trimester}',
+  'summary.firstDescription':
+    'مرحلة الأساس في حملك. تتكون أعضاء طفلك ويكون النمو المبكر بالغ الأهمية.',
+  'summary.secondDescription':
+    'تُسمى غالبًا "الفترة الذهبية"؛ قد تشعرين بنشاط وراحة أكبر خلال هذه الأسابيع.',
+  'summary.thirdDescription': 'المرحلة الأخيرة! ينمو طفلك بسرعة ويستعد للحياة خارج الرحم.',
+  'summary.defaultDescription': 'مرحلة مهمة من حملك.',
+  'summary.firstMorningSickness': 'قد يظهر غثيان الصباح',
+  'summary.firstFatigue': 'التعب شائع',
+  'summary.firstOrgans': 'نمو الأعضاء الرئيسية',
+  'summary.firstAppointments': 'أولى مواعيد متابعة الحمل',
+  'summary.firstFolicAcid': 'حمض الفوليك ضروري',
+  'summary.secondEnergy': 'تتحسن الطاقة غالبًا',
+  'summary.secondMovements': 'قد تبدئين بالشعور بحركة الطفل',
+  'summary.secondAnatomyScan': 'فحص التشوهات نحو الأسبوع 20',
+  'summary.secondGender': 'يمكن معرفة جنس الطفل',
+  'summary.secondBelly': 'يبدأ البطن بالظهور أكثر',
+  'summary.thirdVisits': 'زيارات طبية متكررة',
+  'summary.thirdMovements': 'حركات الطفل قوية',
+  'summary.thirdDelivery': 'الاستعداد للولادة',
+  'summary.thirdLaborSigns': 'راقبي علامات المخاض',
+  'summary.thirdPreparations': 'التحضيرات الأخيرة للطفل',
+  'summary.importantReminders': 'تذكيرات مهمة',
+  'summary.reminderVitamins': 'تناولي فيتامينات الحمل يوميًا',
+  'summary.reminderHydration': 'حافظي على الترطيب (8-10 أكواب ماء)',
+  'summary.reminderRest': 'احصلي على قسط كافٍ من الراحة والنوم',
+  'summary.reminderAvoid': 'تجنبي الكحول والتدخين وبعض الأدوية',
+  'summary.reminderContact': 'تواصلي مع مقدم الرعاية الصحية عند أي استفسار',
+  'summary.disclaimerTitle': 'تنبيه طبي',
+  'summary.disclaimerText':
+    'هذه المعلومات للتثقيف فقط ومبنية على حسابات حمل قياسي مدته 40 أسبوعًا. كل حمل مختلف تمامًا. استشيري دائمًا مقدم الرعاية الصحية للحصول على نصيحة طبية شخصية ورعاية حمل مناسبة وعند أي قلق بشأن حملك.',
+  'summary.noDataDescription': 'يرجى إعداد بيانات حملك لعرض الملخص.',
+
+  // Dating ultrasound
+  'redating.title': 'فحص التأريخ بالموجات فوق الصوتية',
+  'redating.revised': 'تم تعديل موعد الولادة',
+  'redating.kept': 'تم الإبقاء على موعد الولادة الأصلي',
+  'redating.originalDueDate': 'موعد الولادة الأصلي',
+  'redating.ultrasoundDueDate': 'موعد الولادة حسب الفحص',
+  'redating.difference': 'الفرق',
+  'redating.differenceDays': {
+    zero: '{count} يوم',
+    one: 'يوم واحد',
+    two: 'يومان',
+    few: '{count} أيام',
+    many: '{count} يومًا',
+    other: '{count} يوم',
+  },
+  'redating.edit': 'تعديل الفحص',
+  'redating.remove': 'حذف الفحص',
+  'redating.intro':
+    'أدخلي فحص التأريخ للتحقق من موعد الولادة. لا يُعدَّل إلا إذا اختلف الفحص بأكثر من الحد المقبول لتلك المرحلة من الحمل.',
+  'redating.scanResult': 'نتيجة الفحص',
+  'redating.crlOption': 'الطول من الرأس إلى العجز (CRL)',
+  'redating.gestationalAgeOption': 'عمر الحمل حسب التقرير',
+  'redating.weeks': 'أسابيع',
+  'redating.days': 'أيام',
+  'redating.submit': 'التحقق من موعد الولادة',
+
+  // Growth scans
+  'biometry.title': 'فحوصات النمو',
+  'biometry.intro': 'سجّلي القياسات من تقرير فحص النمو لمعرفة مقارنتها بالأطفال في المرحلة نفسها.',
+  'biometry.estimatedWeight': 'الوزن التقديري',
+  'biometry.percentile': {
+    type: 'ordinal',
+    other: 'المئين {count}',
+  },
+  'biometry.removeAria': 'حذف فحص {date}',
+  'biometry.remove': 'حذف',
+  'biometry.add': 'إضافة فحص نمو',
+  'biometry.baby': 'الطفل',
+  'biometry.help':
+    'يحتاج تقدير الوزن إلى محيط البطن (AC) وطول عظم الفخذ (FL). إضافة القطر بين الجداريين (BPD) ومحيط الرأس (HC) تجعل التقدير أدق.',
+  'biometry.save': 'حفظ الفحص',
+
+  // Leave planner
+  'leave.title': 'مخطط الإجازة',
+  'leave.intro':
+    'اختاري قواعد مكان عملك لمعرفة متى يمكن أن تبدأ إجازة الأمومة، ومتى تبلغين صاحب العمل، ومتى تعودين.',
+  'leave.rules': 'قواعد الإجازة',
+  'leave.none': 'بدون خطة إجازة',
+  'leave.plannedStartInput': 'تاريخ البدء المخطط',
+  'leave.startRange': 'يمكن أن تبدأ الإجازة بين {earliest} و{latest}.',
+  'leave.useUsualStart': 'استخدام البدء المعتاد',
+  'leave.duration': {
+    zero: '{count} أسبوع إجازة',
+    one: 'أسبوع إجازة واحد',
+    two: 'أسبوعا إجازة',
+    few: '{count} أسابيع إجازة',
+    many: '{count} أسبوعًا إجازة',
+    other: '{count} أسبوع إجازة',
+  },
+  'leave.noticeRule': 'إبلاغ صاحب العمل',
+  'leave.length': 'مدة الإجازة',
+  'leave.disclaimer':
+    'هذه هي الحدود الدنيا القانونية. قد يمنحك عقدك أو القواعد المحلية أكثر؛ تحققي مع صاحب العمل.',
+  'leave.notificationDeadline': 'آخر موعد لإبلاغ صاحب العمل',
+  'leave.earliestStart': 'أبكر بدء',
+  'leave.plannedStart': 'البدء المخطط',
+  'leave.latestStart': 'آخر بدء',
+  'leave.returnDate': 'العودة إلى العمل',
+
+  // Birth record
+  'birth.title': 'الولادة',
+  'birth.intro':
+    'بعد وصول طفلك، سجّلي الولادة للانتقال إلى متابعة ما بعد الولادة. يبقى تقويم الحمل متاحًا كأرشيف.',
+  'birth.record': 'تسجيل الولادة',
+  'birth.deliveryDate': 'تاريخ الولادة',
+  'birth.type': 'نوع الولادة',
+  'birth.weight': 'الوزن عند الولادة (غ)',
+  'birth.length': 'الطول عند الولادة (سم)',
+  'birth.save': 'حفظ بيانات الولادة',
+  'birth.edit': 'تعديل بيانات الولادة',
+  'birth.remove': 'حذف سجل الولادة',
+  'birth.removeConfirm': 'هل تريدين حذف سجل الولادة والعودة إلى متابعة الحمل؟',
+
+  // Postpartum
+  'postpartum.title': 'الثلث الرابع',
+  'postpartum.weekAndDay': 'الأسبوع {week}، اليوم {day} بعد الولادة',
+  'postpartum.daysSinceBirth': {
+    zero: 'يوم الولادة',
+    one: 'يوم واحد منذ الولادة',
+    two: 'يومان منذ الولادة',
+    few: '{count} أيام منذ الولادة',
+    many: '{count} يومًا منذ الولادة',
+    other: '{count} يوم منذ الولادة',
+  },
+  'postpartum.progress': 'التقدم خلال أول 12 أسبوعًا',
+  'postpartum.complete': 'اكتمل جدول الأسابيع الـ12 بعد الولادة',
+  'postpartum.birthDetails': 'بيانات الولادة',
+  'postpartum.born': 'تاريخ الولادة',
+  'postpartum.birthType': 'نوع الولادة',
+  'postpartum.gestationalAgeAtBirth': 'عمر الحمل عند الولادة',
+  'postpartum.birthWeight': 'الوزن عند الولادة',
+  'postpartum.birthLength': 'الطول عند الولادة',
+  'postpartum.grams': '{weight} غ',
+  'postpartum.centimetres': '{length} سم',
+  'postpartum.stage': 'مرحلة التعافي',
+  'postpartum.upcoming': 'القادم',
+  'postpartum.noUpcoming': 'لا توجد فحوصات أو محطات أخرى في جدول الأسابيع الـ12',
+  'postpartum.timeline': 'جدول ما بعد الولادة',
+  'postpartum.checkup': 'فحص',
+  'postpartum.recovery': 'تعافٍ',
+  'postpartum.dayAfterBirth': 'اليوم {day}',
+  'postpartum.caption': 'جدول يومي للأسابيع الـ12 بعد الولادة',
+  'postpartum.dayColumn': 'اليوم',
+  'postpartum.dateColumn': 'التاريخ',
+  'postpartum.weekColumn': 'الأسبوع',
+  'postpartum.eventsColumn': 'الفحوصات والتعافي',
+  'postpartum.noTimeline': 'لا يتوفر جدول ما بعد الولادة',
+
+  // Newborn
+  'newborn.title': 'عمر الطفل',
+  'newborn.chronologicalAge': 'العمر',
+  'newborn.chronologicalAgeHelp': 'يُحسب من الولادة، وتتبع التطعيمات هذا العمر.',
+  'newborn.ageDays': {
+    zero: '{count} يوم',
+    one: 'يوم واحد',
+    two: 'يومان',
+    few: '{count} أيام',
+    many: '{count} يومًا',
+    other: '{count} يوم',
+  },
+  'newborn.ageWeeks': {
+    zero: '{count} أسبوع',
+    one: 'أسبوع واحد',
+    two: 'أسبوعان',
+    few: '{count} أسابيع',
+    many: '{count} أسبوعًا',
+    other: '{count} أسبوع',
+  },
+  'newborn.ageMonths': {
+    zero: '{count} شهر',
+    one: 'شهر واحد',
+    two: 'شهران',
+    few: '{count} أشهر',
+    many: '{count} شهرًا',
+    other: '{count} شهر',
+  },
+  'newborn.atBirth': 'عند الولادة',
+  'newborn.bornEarly': {
+    zero: 'وُلد في موعد الولادة المتوقع ({date})',
+    one: 'وُلد قبل موعد الولادة المتوقع ({date}) بيوم واحد',
+    two: 'وُلد قبل موعد الولادة المتوقع ({date}) بيومين',
+    few: 'وُلد قبل موعد الولادة المتوقع ({date}) بـ{count} أيام',
+    many: 'وُلد قبل موعد الولادة المتوقع ({date}) بـ{count} يومًا',
+    other: 'وُلد قبل موعد الولادة المتوقع ({date}) بـ{count} يوم',
+  },
+  'newborn.correctedAge': 'العمر المصحَّح',
+  'newborn.correctedAgeHelp':
+    'يُحسب من موعد الولادة المتوقع، ويُستخدم لمتابعة النمو والتطور حتى عمر السنتين تقريبًا.',
+  'newborn.beforeDueDate': 'يبدأ العمر المصحَّح في موعد الولادة المتوقع، {date}',
+  'newborn.postmenstrualAge': 'العمر بعد الحيض',
+  'newborn.postmenstrualAgeHelp': 'عمر الحمل عند الولادة مضافًا إليه الوقت منذ الولادة',
+  'newborn.upcoming': 'زيارات الطفل القادمة',
+  'newborn.noUpcoming': 'اكتملت كل زيارات وتطعيمات السنة الأولى',
+  'newborn.timeline': 'جدول زيارات الطفل في السنة الأولى',
+  'newborn.scheduleNote':
+    'وفق جداول الأكاديمية الأمريكية لطب الأطفال ومراكز السيطرة على الأمراض الأمريكية، وقد يختلف جدول بلدك. يُطعَّم الأطفال الخُدَّج حسب عمرهم الفعلي.',
+  'newborn.caption': 'زيارات الطفل والتطعيمات في السنة الأولى',
+  'newborn.ageColumn': 'العمر',
+  'newborn.dateColumn': 'التاريخ',
+  'newborn.eventColumn': 'زيارة أو تطعيم',
+  'newborn.detailsColumn': 'التفاصيل',
+  'newborn.visit': 'زيارة متابعة الطفل',
+  'newborn.vaccination': 'تطعيم',
+  'newborn.noTimeline': 'لا يتوفر جدول زيارات الطفل',
+
+  // Cycle tracking
+  'cycle.title': 'متابعة الدورة الشهرية',
+  'cycle.cycleDay': 'اليوم {day} من الدورة',
+  'cycle.predictions': 'هذه الدورة',
+  'cycle.fertileToday': 'أنتِ في فترة الخصوبة اليوم',
+  'cycle.nextPeriod': 'الدورة القادمة',
+  'cycle.daysUntilPeriod': {
+    zero: 'اليوم',
+    one: 'بعد يوم واحد',
+    two: 'بعد يومين',
+    few: 'بعد {count} أيام',
+    many: 'بعد {count} يومًا',
+    other: 'بعد {count} يوم',
+  },
+  'cycle.daysLate': {
+    zero: 'متأخرة {count} يوم',
+    one: 'متأخرة يومًا واحدًا',
+    two: 'متأخرة يومين',
+    few: 'متأخرة {count} أيام',
+    many: 'متأخرة {count} يومًا',
+    other: 'متأخرة {count} يوم',
+  },
+  'cycle.fertileWindow': 'فترة الخصوبة',
+  'cycle.dateRange': '{start} – {end}',
+  'cycle.ovulation': 'الإباضة المتوقعة',
+  'cycle.averageLength': 'طول الدورة',
+  'cycle.days': {
+    zero: '{count} يوم',
+    one: 'يوم واحد',
+    two: 'يومان',
+    few: '{count} أيام',
+    many: '{count} يومًا',
+    other: '{count} يوم',
+  },
+  'cycle.averageFromLog': {
+    zero: 'متوسط الدورات المسجّلة',
+    one: 'حسب آخر دورة مسجّلة',
+    two: 'متوسط آخر دورتين مسجّلتين',
+    few: 'متوسط آخر {count} دورات مسجّلة',
+    many: 'متوسط آخر {count} دورة مسجّلة',
+    other: 'متوسط آخر {count} دورة مسجّلة',
+  },
+  'cycle.averageUsual': 'طول دورتك المعتاد إلى أن تسجّلي دورتين',
+  'cycle.predictionNote':
+    'تفترض التوقعات حدوث الإباضة قبل الدورة التالية بطول الطور الأصفري. تختلف الدورات، لذا تعاملي معها كتقديرات.',
+  'cycle.pregnantIntro': 'اختبار إيجابي؟ ابدئي تقويم الحمل من آخر دورة شهرية في {date}.',
+  'cycle.pregnant': 'أنا حامل',
+  'cycle.periodLog': 'سجل الدورات',
+  'cycle.periodStart': 'أول يوم من الدورة',
+  'cycle.logPeriod': 'سجّلي الدورة',
+  'cycle.cycleLength': {
+    zero: 'دورة من {count} يوم',
+    one: 'دورة من يوم واحد',
+    two: 'دورة من يومين',
+    few: 'دورة من {count} أيام',
+    many: 'دورة من {count} يومًا',
+    other: 'دورة من {count} يوم',
+  },
+  'cycle.remove': 'حذف',
+  'cycle.removeAria': 'حذف الدورة التي بدأت في {date}',
+  'cycle.upcoming': 'الدورات القادمة',
+  'cycle.expectedPeriod': 'الدورة المتوقعة',
+
+  // Profiles
+  'profile.unnamed': 'حملي',
+
+  // App lock and encryption
+  'lock.unlockTitle': 'افتحي تقويمك',
+  'lock.unlockIntro': 'بياناتك مشفّرة على هذا الجهاز. أدخلي عبارة المرور لفتحها.',
+  'lock.recoverTitle': 'الفتح بمفتاح الاسترداد',
+  'lock.recoverIntro': 'اختاري ملف مفتاح الاسترداد وعيّني عبارة مرور جديدة.',
+  'lock.enableTitle': 'شفّري بياناتك',
+  'lock.enableIntro':
+    'سيتم تشفير تقويمك وسجلاتك وصورك على هذا الجهاز بعبارة مرور. ستحتاجين إليها في كل مرة تفتحين فيها التطبيق.',
+  'lock.enableWarning':
+    'إذا نسيتِ عبارة المرور، فلا يمكن فتح بياناتك إلا بملف مفتاح الاسترداد. نزّليه بعد تفعيل التشفير واحتفظي به في مكان آمن.',
+  'lock.changeTitle': 'تغيير عبارة المرور',
+  'lock.changeIntro': 'أدخلي عبارة المرور الحالية واختاري عبارة جديدة.',
+  'lock.disableTitle': 'إيقاف التشفير',
+  'lock.disableIntro': 'سيتم حفظ بياناتك دون تشفير على هذا الجهاز. أدخلي عبارة المرور للتأكيد.',
+  'lock.passphrase': 'عبارة المرور',
+  'lock.currentPassphrase': 'عبارة المرور الحالية',
+  'lock.newPassphrase': 'عبارة المرور الجديدة',
+  'lock.confirmPassphrase': 'تأكيد عبارة المرور',
+  'lock.recoveryKeyFile': 'ملف مفتاح الاسترداد',
+  'lock.unlock': 'فتح',
+  'lock.recover': 'الفتح وتعيين عبارة مرور',
+  'lock.enable': 'تشفير',
+  'lock.change': 'تغيير عبارة المرور',
+  'lock.disable': 'إيقاف التشفير',
+  'lock.useRecoveryKey': 'استخدام مفتاح الاسترداد',
+  'lock.backToPassphrase': 'استخدام عبارة المرور',
+  'lock.wrongPassphrase': 'عبارة المرور غير صحيحة.',
+  'lock.invalidRecoveryKey': 'ملف مفتاح الاسترداد هذا لا يطابق بياناتك.',
+  'lock.encryptionFailed': 'تعذر تحديث التشفير. يرجى المحاولة مرة أخرى.',
+
+  // Backup and restore
+  'backup.title': 'استعادة نسخة احتياطية',
+  'backup.intro': 'نسخة احتياطية بتاريخ {date}. راجعي ما سيتغير قبل استعادتها.',
+  'backup.current': 'الآن',
+  'backup.afterRestore': 'بعد الاستعادة',
+  'backup.lmpDate': 'آخر دورة',
+  'backup.theme': 'المظهر',
+  'backup.logEntries': 'الدورات والفحوصات المسجّلة',
+  'backup.journalEntries': 'مدخلات اليوميات',
+  'backup.healthLogEntries': 'السجلات الصحية',
+  'backup.mediaItems': 'الصور والملفات',
+  'backup.profiles': 'الملفات الشخصية',
+  'backup.none': 'غير محدد',
+  'backup.warning':
+    'تستبدل الاستعادة تفضيلاتك وملفاتك الشخصية ويومياتك وسجلاتك الصحية وصورك الحالية. يُفقد كل ما حُفظ بعد إنشاء النسخة الاحتياطية.',
+  'backup.restore': 'استعادة',
+  'backup.malformed': 'هذا الملف ليس نسخة احتياطية لتقويم الحمل.',
+  'backup.newerVersion':
+    'أُنشئت هذه النسخة الاحتياطية بإصدار أحدث من التطبيق. حدّثي التطبيق لاستعادتها.',
+  'backup.checksumMismatch': 'ملف النسخة الاحتياطية هذا تالف أو تم تغييره بعد إنشائه.',
+  'backup.invalidData': 'تحتوي هذه النسخة الاحتياطية على بيانات لا يمكن استعادتها.',
+
+  // Calendar table
+  'table.title': 'تقويم الحمل',
+  'table.subtitle': 'جدول زمني كامل حتى الأسبوع 42 مع المراحل والمواعيد',
+  'table.filterByMonth': 'التصفية حسب الشهر:',
+  'table.filterAria': 'تصفية تقويم الحمل حسب الشهر',
+  'table.allMonths': {
+    zero: 'كل الأشهر (لا أيام)',
+    one: 'كل الأشهر (يوم واحد)',
+    two: 'كل الأشهر (يومان)',
+    few: 'كل الأشهر ({count} أيام)',
+    many: 'كل الأشهر ({count} يومًا)',
+    other: 'كل الأشهر ({count} يوم)',
+  },
+  'table.showing': {
+    zero: 'لا أيام معروضة ({range})',
+    one: 'عرض يوم واحد ({range})',
+    two: 'عرض يومين ({range})',
+    few: 'عرض {count} أيام ({range})',
+    many: 'عرض {count} يومًا ({range})',
+    other: 'عرض {count} يوم ({range})',
+  },
+  'table.clearFilterAria': 'إزالة تصفية الشهر',
+  'table.clearFilter': 'إزالة التصفية',
+  'table.dayColumn': 'اليوم رقم',
+  'table.dateColumn': 'التاريخ',
+  'table.gestationalAgeColumn': 'عمر الحمل',
+  'table.trimesterColumn': 'الثلث',
+  'table.developmentColumn': 'النمو والملاحظات',
+  'table.fetalStatsColumn': 'قياسات الجنين',
+  'table.appointmentsColumn': 'المواعيد',
+  'table.day': 'اليوم {day}',
+  'table.today': 'اليوم',
+  'table.preview': 'معاينة',
+  'table.growthScan': 'فحص النمو',
+  'table.growthScanFor': 'فحص النمو لـ{baby}',
+  'table.scan': 'فحص',
+  'table.estimatedFetalWeight': 'الوزن التقديري {weight} غ',
+  'table.totalDays': 'إجمالي الأيام:',
+  'table.milestones': 'المراحل:',
+  'table.appointments': 'المواعيد:',
+  'table.legendTitle': 'دليل الأثلاث:',
+  'table.legendFirst': 'الثلث الأول (الأسابيع 1-12)',
+  'table.legendSecond': 'الثلث الثاني (الأسابيع 13-27)',
+  'table.legendThird': 'الثلث الثالث (الأسابيع 28-40)',
+  'table.noDataDescription': 'يرجى إعداد بيانات حملك لعرض التقويم المفصل.',
+  'table.weight': 'الوزن:',
+  'table.crownRumpLength': 'CRL',
+  'table.length': 'الطول',
+  'table.range': 'المئين 10–90: {low}–{high} {unit}',
+
+  // As-of date preview
+  'preview.title': 'وضع المعاينة',
+  'preview.showing': 'عرض حملك بتاريخ {date}',
+  'preview.date': 'تاريخ المعاينة',
+  'preview.backToToday': 'العودة إلى اليوم',
+  'preview.open': 'معاينة تاريخ آخر',
+  'preview.showAsOf': 'عرض حملي بتاريخ',
+  'preview.dueDate': 'موعد الولادة',
+  'preview.outOfRange': 'اختاري تاريخًا بين آخر دورة شهرية والأسبوع 42 واليوم 6',
+
+  // Floating navigation
+  'nav.summaryAria': 'التبديل إلى عرض الملخص',
+  'nav.summary': 'الملخص',
+  'nav.tableAria': 'التبديل إلى عرض الجدول',
+  'nav.calendar': 'التقويم',
+  'nav.exportAria': 'خيارات التصدير',
+  'nav.exporting': 'جارٍ التصدير...',
+  'nav.export': 'تصدير',
+  'nav.exportPdf': 'تصدير بصيغة PDF',
+  'nav.exportPdfDescription': 'صيغة قابلة للطباعة (~{size} كيلوبايت)',
+  'nav.exportExcel': 'تصدير بصيغة Excel',
+  'nav.exportExcelDescription': 'صيغة جدول بيانات (~{size} كيلوبايت)',
+  'nav.exportSuccess': '✅ تم تصدير تقويم الحمل بصيغة {format}!',
+  'nav.exportFailed': '❌ تعذر التصدير بصيغة {format}. يرجى المحاولة مرة أخرى.',
+
+  // Application shell
+  'app.loading': 'جارٍ تحميل بيانات تقويم الحمل',
+  'app.errorTitle': 'حدث خطأ ما',
+  'app.retry': 'إعادة المحاولة',
+  'app.setupComplete': 'تم إعداد تقويم الحمل بنجاح',
+  'app.savePreferencesFailed': 'تعذر حفظ تفضيلاتك. يرجى المحاولة مرة أخرى.',
+  'app.loadPreferencesFailed': 'تعذر تحميل تفضيلاتك. يرجى تحديث الصفحة.',
+  'app.storageMigrationFailed':
+    'تعذر ترقية بياناتك المحفوظة لهذا الإصدار من التطبيق. تم الاحتفاظ بها دون تغيير؛ يرجى المحاولة مرة أخرى أو تحديث التطبيق.',
+  'app.switchedToSummary': 'تم التبديل إلى عرض الملخص',
+  'app.switchedToTable': 'تم التبديل إلى عرض الجدول',
+  'app.themeChanged': 'تم تغيير السمة إلى {theme}',
+  'app.datingScanSaved': 'تم حفظ فحص التأريخ والتحقق من موعد الولادة',
+  'app.datingScanRemoved': 'تم حذف فحص التأريخ',
+  'app.datingScanFailed': 'تعذر حفظ فحص التأريخ. يرجى المحاولة مرة أخرى.',
+  'app.growthScansUpdated': 'تم تحديث فحوصات النمو',
+  'app.growthScanFailed': 'تعذر حفظ فحص النمو. يرجى المحاولة مرة أخرى.',
+  'app.scheduleUpdated': 'تم تحديث جدول المواعيد',
+  'app.guidelineFailed': 'تعذر حفظ دليل الرعاية. يرجى المحاولة مرة أخرى.',
+  'app.leavePlanSaved': 'تم تحديث خطة الإجازة',
+  'app.leavePlanRemoved': 'تمت إزالة خطة الإجازة',
+  'app.leavePlanFailed': 'تعذّر حفظ خطة الإجازة. يرجى المحاولة مرة أخرى.',
+  'app.birthSaved': 'تم تسجيل الولادة. تتم الآن متابعة أسابيع ما بعد الولادة.',
+  'app.birthRemoved': 'تم حذف سجل الولادة. العودة إلى متابعة الحمل.',
+  'app.birthFailed': 'تعذّر حفظ سجل الولادة. يرجى المحاولة مرة أخرى.',
+  'app.modeSwitch': 'اختاري ما يُعرض',
+  'app.modePostpartum': 'ما بعد الولادة',
+  'app.modeArchive': 'أرشيف الحمل',
+  'app.archiveNotice': 'أنتِ تشاهدين تقويم حملك كأرشيف.',
+  'app.showingPostpartum': 'عرض جدول ما بعد الولادة',
+  'app.showingArchive': 'عرض أرشيف الحمل',
+  'app.periodLogUpdated': 'تم تحديث سجل الدورات',
+  'app.periodLogFailed': 'تعذّر حفظ سجل الدورات. يُرجى المحاولة مرة أخرى.',
+  'app.pregnancyStarted': 'بدأ تقويم الحمل من آخر دورة شهرية',
+  'app.pregnancyStartFailed': 'تعذّر بدء تقويم الحمل. يُرجى المحاولة مرة أخرى.',
+  'app.datesShownAs': 'تُعرض التواريخ الآن بالشكل {date}',
+  'app.dateFormatFailed': 'تعذر حفظ تنسيق التاريخ. يرجى المحاولة مرة أخرى.',
+  'app.languageChanged': 'تم تغيير اللغة إلى {language}',
+  'app.languageFailed': 'تعذر حفظ اللغة. يرجى المحاولة مرة أخرى.',
+  'app.resetConfirm':
+    'هل أنت متأكدة من إعادة ضبط جميع التفضيلات؟ سيؤدي ذلك إلى مسح بيانات حملك والعودة إلى شاشة الإعداد.',
+  'app.resetDone': 'تمت إعادة ضبط التفضيلات',
+  'app.exporting': 'جارٍ تصدير تقويم الحمل بصيغة {format}',
+  'app.profileCreated': 'تم إنشاء الملف الشخصي {name}',
+  'app.profileSwitched': 'تم التبديل إلى {name}',
+  'app.profileRenamed': 'تمت إعادة تسمية الملف الشخصي إلى {name}',
+  'app.profileArchived': 'تم نقل {name} إلى الأرشيف',
+  'app.profileRestored': 'تمت استعادة {name} من الأرشيف',
+  'app.profileDeleteConfirm':
+    'هل تريد حذف الملف الشخصي "{name}" وجميع بياناته؟ لا يمكن التراجع عن ذلك.',
+  'app.profileDeleted': 'تم حذف الملف الشخصي {name}',
+  'app.profileFailed': 'تعذر تحديث ملفاتك الشخصية. يرجى المحاولة مرة أخرى.',
+  'app.unlocked': 'تم فتح التقويم',
+  'app.locked': 'تم قفل التقويم',
+  'app.encryptionEnabled': 'بياناتك مشفّرة الآن',
+  'app.encryptionDisabled': 'تم إيقاف التشفير',
+  'app.passphraseChanged': 'تم تغيير عبارة المرور',
+  'app.recoveryKeyDownloaded': 'تم تنزيل مفتاح الاسترداد',
+  'app.recoveryKeyFailed': 'تعذر إنشاء مفتاح الاسترداد. يرجى المحاولة مرة أخرى.',
+  'app.encryptedSaveFailed':
+    'تعذر حفظ تغييراتك الأخيرة، مثلًا لأن مساحة التخزين ممتلئة. ستفقدينها إذا أغلقتِ التطبيق.',
+  'app.backupDownloaded': 'تم تنزيل النسخة الاحتياطية',
+  'app.backupFailed': 'تعذر إنشاء النسخة الاحتياطية. يرجى المحاولة مرة أخرى.',
+  'app.backupRestored': 'تمت استعادة النسخة الاحتياطية',
+  'app.backupRestoreFailed': 'تعذرت استعادة النسخة الاحتياطية. لم تتغير بياناتك.',
+  'app.backupLocked': 'افتحي تقويمك قبل إنشاء نسخة احتياطية أو استعادتها.',
+
+  // PDF and Excel exports
+  'export.title': 'تقويم الحمل',
+  'export.generatedOn': 'تاريخ الإنشاء: {date}',
+  'export.previewAsOf': 'معاينة بتاريخ: {date}',
+  'export.profile': 'الملف الشخصي: {name}',
+  'export.profileLabel': 'الملف الشخصي',
+  'export.summary': 'ملخص الحمل',
+  'export.previewAsOfLabel': 'معاينة بتاريخ',
+  'export.currentGestationalAge': 'عمر الحمل الحالي',
+  'export.currentTrimester': 'الثلث الحالي',
+  'export.daysCompleted': 'الأيام المكتملة',
+  'export.daysRemaining': 'الأيام المتبقية',
+  'export.daysOverdue': 'أيام التأخير',
+  'export.termStatus': 'حالة التمام',
+  'export.progress': 'التقدم',
+  'export.progressPercentage': 'نسبة التقدم',
+  'export.estimatedDueDate': 'موعد الولادة المتوقع',
+  'export.datedBy': 'طريقة التأريخ',
+  'export.dueDateRule': 'قاعدة موعد الولادة',
+  'export.pregnancyType': 'نوع الحمل',
+  'export.careGuideline': 'دليل الرعاية',
+  'export.deliveryWindow': 'فترة الولادة',
+  'export.estimatedFetalWeight': 'الوزن التقديري للجنين',
+  'export.estimatedFetalLength': 'الطول التقديري للجنين',
+  'export.estimatedFetalWeightGrams': 'الوزن التقديري للجنين (غ)',
+  'export.estimatedFetalLengthCm': 'الطول التقديري للجنين (سم)',
+  'export.weightRange': '{p50} غ (المئين 10-90: {p10}-{p90} غ)',
+  'export.lengthRange': '{p50} سم (المئين 10-90: {p10}-{p90} سم)',
+  'export.thisWeek': 'هذا الأسبوع (الأسبوع {week})',
+  'export.sizeComparison': 'الحجم يعادل',
+  'export.babysDevelopment': 'نمو طفلك',
+  'export.changesForYou': 'تغيرات لديك',
+  'export.originalDueDate': 'موعد الولادة الأصلي',
+  'export.ultrasoundDueDate': 'موعد الولادة حسب الفحص',
+  'export.redating': 'إعادة التأريخ',
+  'export.upcomingMilestones': 'المراحل القادمة',
+  'export.nextAppointments': 'المواعيد القادمة',
+  'export.keyDates': 'التواريخ المهمة',
+  'export.keyDateLine': '{label}: {date} ({age})',
+  'export.leavePlan': 'خطة الإجازة',
+  'export.leaveRules': 'قواعد الإجازة',
+  'export.leaveLength': 'مدة الإجازة',
+  'export.employerNotice': 'إبلاغ صاحب العمل',
+  'export.disclaimer':
+    'تنبيه طبي: هذا التقويم مبني على حسابات حمل قياسي مدته 40 أسبوعًا من آخر دورة شهرية. جميع التواريخ والمراحل تقديرية فقط. كل حمل مختلف. استشيري دائمًا مقدم الرعاية الصحية للحصول على نصيحة طبية شخصية ومتابعة مناسبة للحمل.',
+  'export.calendar': 'تقويم الحمل',
+  'export.day': 'اليوم',
+  'export.date': 'التاريخ',
+  'export.week': 'الأسبوع',
+  'export.trimester': 'الثلث',
+  'export.development': 'النمو',
+  'export.weekAndDay': '{week} أ {day} ي',
+  'export.weeklyDevelopment': 'النمو أسبوعًا بأسبوع',
+  'export.weekHeading': 'الأسبوع {week} (من {date}): {description}',
+  'export.sizeComparisonDetail': 'الحجم يعادل: {size}',
+  'export.babyDetail': 'الطفل: {items}',
+  'export.youDetail': 'أنت: {items}',
+  'export.summarySheet': 'الملخص',
+  'export.calendarSheet': 'التقويم',
+  'export.appointmentsSheet': 'المواعيد',
+  'export.milestonesSheet': 'المراحل',
+  'export.growthScansSheet': 'فحوصات النمو',
+  'export.keyDatesSheet': 'التواريخ المهمة',
+  'export.leaveSheet': 'خطة الإجازة',
+  'export.dayNumber': 'رقم اليوم',
+  'export.gestationalWeek': 'أسبوع الحمل',
+  'export.dayOfWeek': 'يوم الأسبوع',
+  'export.gestationalAge': 'عمر الحمل',
+  'export.month': 'الشهر',
+  'export.year': 'السنة',
+  'export.termCategory': 'فئة التمام',
+  'export.fetalWeight10th': 'وزن الجنين المئين 10 (غ)',
+  'export.fetalWeight50th': 'وزن الجنين المئين 50 (غ)',
+  'export.fetalWeight90th': 'وزن الجنين المئين 90 (غ)',
+  'export.lengthType': 'نوع الطول',
+  'export.fetalLength10th': 'طول الجنين المئين 10 (سم)',
+  'export.fetalLength50th': 'طول الجنين المئين 50 (سم)',
+  'export.fetalLength90th': 'طول الجنين المئين 90 (سم)',
+  'export.crownRump': 'من الرأس إلى العجز',
+  'export.crownHeel': 'من الرأس إلى الكعب',
+  'export.from': 'من',
+  'export.to': 'إلى',
+  'export.weeks': 'الأسابيع',
+  'export.appointment': 'الموعد',
+  'export.keyDate': 'التاريخ المهم',
+  'export.description': 'الوصف',
+  'export.leave': 'الإجازة',
+  'export.developmentMilestone': 'مرحلة النمو',
+  'export.keyDevelopments': 'أبرز التطورات',
+  'export.maternalChanges': 'تغيرات الأم',
+  'export.baby': 'الطفل',
+  'export.measurementMm': '{label} (مم)',
+  'export.measurementPercentile': 'مئين {label}',
+  'export.weightPercentile': 'مئين الوزن',
+  'export.formula': 'المعادلة',
+  'export.preview': {
+    zero: 'لا يتضمن التصدير أي يوم من بيانات تقويم الحمل',
+    one: 'يتضمن التصدير يومًا واحدًا من بيانات تقويم الحمل',
+    two: 'يتضمن التصدير يومين من بيانات تقويم الحمل',
+    few: 'يتضمن التصدير {count} أيام من بيانات تقويم الحمل',
+    many: 'يتضمن التصدير {count} يومًا من بيانات تقويم الحمل',
+    other: 'يتضمن التصدير {count} يوم من بيانات تقويم الحمل',
+  },
+};
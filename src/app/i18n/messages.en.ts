@@ -0,0 +1,800 @@
+/**
+ * English interface messages, the source catalog every other language translates
+ * Placeholders in braces (e.g. "{date}") are filled in by I18nService.translate
+ */
+
+/** Message with one form per plural category of the count it is shown with */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  /** Form used for counts without a more specific form */
+  other: string;
+  /** Pick forms by ordinal ("1st", "2nd") rather than cardinal plural rules */
+  type?: Intl.PluralRuleType;
+};
+
+/** Catalog entry: plain text, or plural forms chosen by the "count" parameter */
+export type Message = string | PluralMessage;
+
+export const EN_MESSAGES = {
+  // Shared labels
+  'common.cancel': 'Cancel',
+  'common.scanDate': 'Scan Date',
+  'common.crownRumpLengthMm': 'Crown-Rump Length (mm)',
+  'common.careGuideline': 'Care guideline',
+  'common.dateFormat': 'Date format',
+  'common.language': 'Language',
+  'common.noData': 'No Pregnancy Data Available',
+  'common.week': 'Week {week}',
+  'common.weeks': 'Weeks {start}-{end}',
+
+  // Trimesters and term categories
+  'trimester.first': 'First',
+  'trimester.second': 'Second',
+  'trimester.third': 'Third',
+  'trimester.unknown': 'Unknown',
+  'trimester.firstShort': '1st',
+  'trimester.secondShort': '2nd',
+  'trimester.thirdShort': '3rd',
+  'term.preterm': 'Preterm',
+  'term.earlyTerm': 'Early term',
+  'term.fullTerm': 'Full term',
+  'term.lateTerm': 'Late term',
+  'term.postTerm': 'Post-term',
+
+  // Validation
+  'validation.required': 'This field is required',
+  'validation.futureDate': 'Date cannot be in the future',
+  'validation.futureScanDate': 'Scan date cannot be in the future',
+  'validation.tooOld': 'Please enter a more recent date',
+  'validation.range': 'Enter a value between {min} and {max}',
+  'validation.rangeMm': 'Enter a value between {min} and {max} mm',
+  'validation.invalid': 'Please enter a valid value',
+  'validation.invalidScan': 'Invalid scan details',
+  'validation.futureDeliveryDate': 'Delivery date cannot be in the future',
+  'validation.deliveryBeforePregnancy': 'Delivery date must be after the start of the pregnancy',
+  'validation.periodAlreadyLogged': 'This period is already logged',
+  'validation.passphraseLength': 'Use at least {min} characters',
+  'validation.passphraseMismatch': 'The passphrases do not match',
+
+  // Themes and date formats
+  'theme.neutral': 'Neutral',
+  'theme.neutralDescription': 'Warm, gender-neutral tones',
+  'theme.boy': 'Boy',
+  'theme.boyDescription': 'Soft blue accents',
+  'theme.girl': 'Girl',
+  'theme.girlDescription': 'Gentle pink accents',
+  'dateFormat.us': 'US',
+  'dateFormat.usDescription': 'Month first',
+  'dateFormat.dayFirst': 'Day first',
+  'dateFormat.dayFirstDescription': 'Used in the UK, Europe and most of the world',
+  'dateFormat.iso': 'ISO',
+  'dateFormat.isoDescription': 'Year first, sorts in date order',
+  'dateFormat.long': 'Long form',
+  'dateFormat.longDescription': 'Month name written out',
+  'dateFormat.locale': 'Locale default',
+  'dateFormat.localeDescription': "Your browser's regional format",
+
+  // Calculator
+  'calc.gestationalAge': '{weeks} weeks {days} days',
+  'calc.baby': 'Baby',
+  'calc.babyLetter': 'Baby {letter}',
+  'calc.datedOn': '{method} on {date}',
+  'calc.datedOnCrl': '{method} on {date} (CRL {crl} mm)',
+  'calc.dueDateRuleFixed': 'None (dating method fixes conception date)',
+  'calc.dueDateRuleStandard': "Standard Naegele's rule ({cycleLength}-day cycle)",
+  'calc.dueDateRuleAdjusted':
+    "Adjusted Naegele's rule: {cycleLength}-day cycle, {lutealPhase}-day luteal phase ({adjustment} days)",
+  'calc.redatingCrlFixed':
+    'Already dated by a first-trimester ultrasound; later scans do not change the due date.',
+  'calc.redatingIvfFixed':
+    'IVF dating is the most accurate method; ultrasound does not change the due date.',
+  'calc.redatingComparison':
+    'Ultrasound differs from {method} dating by {days} days at {band} (threshold {threshold} days): {outcome}',
+  'calc.redatingRevised': 'due date revised to the ultrasound.',
+  'calc.redatingKept': 'original due date kept.',
+  'calc.redatingLateScan': 'Dating by a scan after 22 weeks is less reliable.',
+  'calc.plannedBirthWindow': 'Planned birth window for {plurality} begins this week',
+  'calc.milestone': 'Week {week}: {description}',
+  'calc.appointment': '{type}: {description}',
+  'calc.appointmentInWindow': '{type} ({weeks}): {description}',
+  'calc.nextAppointment': '{weeks}: {type}',
+  'calc.gestationalAgeNotation': '{weeks} {days}/7 weeks',
+  'calc.keyDateOnwards': '{date} onwards',
+  'calc.leaveEvent': 'Leave: {label}',
+  'calc.monthFilter': {
+    one: '{month} {year} ({count} day)',
+    other: '{month} {year} ({count} days)',
+  },
+  'calc.errorScanBeforePregnancy': 'Scan date cannot be before the start of the pregnancy.',
+  'calc.errorScanMeasurement': 'A crown-rump length or gestational age is required for the scan.',
+  'calc.errorCrlRequired': 'Crown-rump length is required for ultrasound dating.',
+  'calc.errorCrlRange': 'Crown-rump length must be between {min} and {max} mm.',
+  'calc.errorCycleLength': 'Cycle length must be between {min} and {max} days.',
+  'calc.errorLutealPhase': 'Luteal phase must be between {min} and {max} days.',
+
+  // Header
+  'header.title': 'Pregnancy Calendar',
+  'header.preview': 'Preview: {date}',
+  'header.themeButton': 'Select theme color',
+  'header.theme': 'Theme',
+  'header.themeOption': 'Select {label} theme: {description}',
+  'header.settingsButton': 'Open settings menu',
+  'header.settings': 'Settings',
+  'header.dateFormatOption': '{label} date format: {description}',
+  'header.profileButton': 'Profile: {name}. Switch or manage profiles',
+  'header.profiles': 'Profiles',
+  'header.archivedProfiles': 'Archived',
+  'header.newProfile': 'New profile',
+  'header.renameProfile': 'Rename profile',
+  'header.archiveProfile': 'Archive this pregnancy',
+  'header.restoreProfile': 'Restore from archive',
+  'header.deleteProfile': 'Delete profile',
+  'header.profileNamePrompt': "Profile name (for example, the parent's name)",
+  'header.resetPreferences': 'Reset Preferences',
+  'header.storage': 'Storage',
+  'header.storageUsage': '{used} of {total} used',
+  'header.storageNearlyFull':
+    'Storage is almost full. Download a backup and remove photos you no longer need.',
+  'header.storageFull':
+    'Storage is full and the last change was not saved. Remove photos you no longer need and try again.',
+  'header.privacy': 'Privacy',
+  'header.enableEncryption': 'Encrypt my data',
+  'header.changePassphrase': 'Change passphrase',
+  'header.downloadRecoveryKey': 'Download recovery key',
+  'header.lockNow': 'Lock now',
+  'header.disableEncryption': 'Turn off encryption',
+  'header.backup': 'Backup',
+  'header.downloadBackup': 'Download backup',
+  'header.restoreBackup': 'Restore from file',
+  'header.help': 'Help & Info',
+  'header.helpMessage':
+    'Pregnancy Calendar Help\n\n' +
+    'This application calculates your pregnancy timeline based on your Last Menstrual Period (LMP) date.\n\n' +
+    'Key Features:\n' +
+    '• Summary View: Overview of your current pregnancy status\n' +
+    '• Table View: Detailed day-by-day calendar with milestones\n' +
+    '• Export Options: Save your calendar as PDF or Excel\n' +
+    '• Theme Options: Choose colors that match your preference\n' +
+    '• Language: Switch between English, Spanish and Arabic in the settings menu\n\n' +
+    'Medical Disclaimer:\n' +
+    'All calculations are estimates based on standard 40-week pregnancy timelines. Individual pregnancies may vary. Always consult your healthcare provider for personalized medical advice.\n\n' +
+    'Navigation:\n' +
+    '• Use the floating buttons at the bottom to switch views and export data\n' +
+    '• Change themes using the theme selector in the header\n' +
+    '• Filter table view by month using the dropdown\n\n' +
+    'For technical support or feedback, please contact your system administrator.',
+
+  // Setup
+  'setup.title': 'Welcome to Your Pregnancy Calendar',
+  'setup.description':
+    "Let's set up your personalized pregnancy journey tracker. We'll calculate everything from your Last Menstrual Period (LMP), conception, IVF transfer or early ultrasound date using standard medical guidelines.",
+  'setup.datingMethod': 'How was your pregnancy dated?',
+  'setup.datingMethodHelp':
+    'Use your LMP if you know it. IVF transfer or early ultrasound dating is more precise when available.',
+  'setup.datingDateHelp':
+    'We convert this date into an equivalent LMP date to calculate your pregnancy timeline and due date.',
+  'setup.cycleLength': 'Average Cycle Length (days)',
+  'setup.lutealPhase': 'Luteal Phase Length (days)',
+  'setup.cycleHelp':
+    "Optional. If your cycles are not 28 days long, your due date is shifted using the adjusted Naegele's rule. Leave blank to use the standard 28-day cycle.",
+  'setup.crownRumpLengthHelp':
+    'The CRL from your scan report. First-trimester dating is valid between {min} and {max} mm.',
+  'setup.plurality': 'How many babies?',
+  'setup.pluralityHelp':
+    'Twins and triplets have an earlier planned birth window and extra growth scans.',
+  'setup.guidelineProfile': 'Appointment schedule',
+  'setup.guidelineProfileHelp':
+    'Choose the prenatal care guideline used where you live. Appointments are shown with the weeks they are recommended in.',
+  'setup.dateFormatHelp':
+    'Used for every date in the app and in exported files. You can change this later from the settings menu.',
+  'setup.languageHelp':
+    'Used for all text in the app and in exported files. You can change this later from the settings menu.',
+  'setup.theme': 'Choose Your Theme',
+  'setup.themeHelp': 'Select a color theme for your pregnancy calendar. You can change this later.',
+  'setup.disclaimerTitle': 'Important Medical Disclaimer',
+  'setup.disclaimerIntro': 'This pregnancy calendar is for informational purposes only.',
+  'setup.disclaimerCalculations':
+    'All calculations are based on a standard 40-week (280-day) pregnancy, with the calendar continuing to 42 weeks',
+  'setup.disclaimerVariation': 'Individual pregnancies may vary significantly from these estimates',
+  'setup.disclaimerNoReplacement': 'This tool does not replace professional medical care or advice',
+  'setup.disclaimerConsult':
+    'Always consult with your healthcare provider for personalized medical guidance',
+  'setup.disclaimerUrgent': 'Seek immediate medical attention for any pregnancy-related concerns',
+  'setup.disclaimerAccept': 'I understand and acknowledge this medical disclaimer',
+  'setup.disclaimerRequired': 'You must acknowledge the medical disclaimer to continue',
+  'setup.submit': 'Start My Pregnancy Journey',
+  'setup.submitting': 'Setting up your calendar...',
+  'setup.mode': 'What would you like to track?',
+  'setup.modePregnancy': "I'm pregnant",
+  'setup.modePreconception': 'Trying to conceive',
+  'setup.modeHelp':
+    'Trying to conceive? Log your periods to see your fertile window, then switch to the pregnancy calendar with one tap.',
+  'setup.lastPeriodHelp':
+    'The first day of your last period. Log later periods in the cycle tracker to improve the predictions.',
+  'setup.preconceptionCycleHelp':
+    'Optional. Used for predictions until you have logged two periods. Leave blank to use the standard 28-day cycle and 14-day luteal phase.',
+  'setup.submitPreconception': 'Start Cycle Tracking',
+  'setup.whyLmp': 'Why do we need your LMP date?',
+  'setup.whyLmpIntro':
+    'The Last Menstrual Period (LMP) date is the medical standard for calculating pregnancy timelines because:',
+  'setup.whyLmpRemember': "It's typically easier to remember than conception date",
+  'setup.whyLmpStandard': 'Most medical professionals use this method',
+  'setup.whyLmpAccurate': 'It provides the most accurate gestational age calculations',
+  'setup.whyLmpMilestones': 'All standard pregnancy milestones are based on LMP dating',
+  'setup.whyLmpStart':
+    'Your pregnancy is calculated as starting from the first day of your LMP, even though conception typically occurs about 2 weeks later.',
+  'setup.whyLmpOtherMethods':
+    'If you used IVF or were dated by an early scan, choose that method instead. We work out the equivalent LMP date: conception is 14 days after LMP, a day-3 embryo transfer 17 days and a day-5 blastocyst transfer 19 days. Ultrasound dating uses the crown-rump length measured before 14 weeks.',
+
+  // Summary view
+  'summary.title': 'Your Pregnancy Journey',
+  'summary.subtitle': 'Track your progress and important milestones',
+  'summary.currentStatus': 'Current Status',
+  'summary.currentAge': 'Current Age',
+  'summary.trimester': 'Trimester',
+  'summary.dueDate': 'Due Date',
+  'summary.progress': 'Pregnancy Progress',
+  'summary.progressAria': 'Pregnancy progress: {percent} percent complete',
+  'summary.daysCompleted': {
+    one: '{count} day completed',
+    other: '{count} days completed',
+  },
+  'summary.daysOverdue': {
+    one: '{count} day overdue',
+    other: '{count} days overdue',
+  },
+  'summary.daysRemaining': {
+    one: '{count} day remaining',
+    other: '{count} days remaining',
+  },
+  'summary.estimatedWeight': 'Estimated Weight',
+  'summary.estimatedWeightEach': 'Estimated Weight (each baby)',
+  'summary.percentileRange': '10th–90th percentile: {low}–{high} {unit}',
+  'summary.crownRumpLength': 'Crown-Rump Length',
+  'summary.estimatedLength': 'Estimated Length',
+  'summary.datedBy': 'Dated by:',
+  'summary.dueDateRule': 'Due date rule:',
+  'summary.termStatus': 'Term status:',
+  'summary.pregnancyType': 'Pregnancy type:',
+  'summary.careGuideline': 'Care guideline:',
+  'summary.deliveryWindow': 'Delivery window:',
+  'summary.thisWeek': 'This Week: Week {week}',
+  'summary.sizeComparison': 'Size comparison:',
+  'summary.babysDevelopment': "Baby's development",
+  'summary.changesForYou': 'Changes for you',
+  'summary.upcomingMilestones': 'Upcoming Milestones',
+  'summary.noMilestones':
+    "You're near the end of your pregnancy journey! No major milestones remaining.",
+  'summary.nextAppointments': 'Next Appointments',
+  'summary.noAppointments':
+    'No scheduled appointments found. Consult your healthcare provider for your personalized schedule.',
+  'summary.keyDates': 'Key Dates',
+  'summary.keyDatePassed': 'Passed',
+  'summary.trimesterTitle': '{trimester} Trimester',
+  'summary.firstDescription':
+    "The foundation stage of your pregnancy. Your baby's organs are forming and early development is crucial.",
+  'summary.secondDescription':
+    'Often called the "golden period" - you may feel more energetic and comfortable during these weeks.',
+  'summary.thirdDescription':
+    'The final stretch! Your baby is growing rapidly and preparing for life outside the womb.',
+  'summary.defaultDescription': 'Important stage of your pregnancy journey.',
+  'summary.firstMorningSickness': 'Morning sickness may occur',
+  'summary.firstFatigue': 'Fatigue is common',
+  'summary.firstOrgans': 'Important organ development',
+  'summary.firstAppointments': 'First prenatal appointments',
+  'summary.firstFolicAcid': 'Folic acid supplementation crucial',
+  'summary.secondEnergy': 'Energy levels typically improve',
+  'summary.secondMovements': 'Baby movements may be felt',
+  'summary.secondAnatomyScan': 'Anatomy scan around week 20',
+  'summary.secondGender': 'Gender may be determined',
+  'summary.secondBelly': 'Belly starts to show more',
+  'summary.thirdVisits': 'Frequent doctor visits',
+  'summary.thirdMovements': 'Baby movements are strong',
+  'summary.thirdDelivery': 'Prepare for delivery',
+  'summary.thirdLaborSigns': 'Monitor for labor signs',
+  'summary.thirdPreparations': 'Final preparations for baby',
+  'summary.importantReminders': 'Important Reminders',
+  'summary.reminderVitamins': 'Take prenatal vitamins daily',
+  'summary.reminderHydration': 'Stay hydrated (8-10 glasses of water)',
+  'summary.reminderRest': 'Get adequate rest and sleep',
+  'summary.reminderAvoid': 'Avoid alcohol, smoking, and certain medications',
+  'summary.reminderContact': 'Contact your healthcare provider with concerns',
+  'summary.disclaimerTitle': 'Medical Disclaimer',
+  'summary.disclaimerText':
+    'This information is for educational purposes only and based on standard 40-week pregnancy calculations. Individual pregnancies vary significantly. Always consult your healthcare provider for personalized medical advice, proper prenatal care, and any pregnancy-related concerns.',
+  'summary.noDataDescription': 'Please set up your pregnancy information to view your summary.',
+
+  // Dating ultrasound
+  'redating.title': 'Dating Ultrasound',
+  'redating.revised': 'Due date revised',
+  'redating.kept': 'Original due date kept',
+  'redating.originalDueDate': 'Original due date',
+  'redating.ultrasoundDueDate': 'Ultrasound due date',
+  'redating.difference': 'Difference',
+  'redating.differenceDays': {
+    one: '{count} day',
+    other: '{count} days',
+  },
+  'redating.edit': 'Edit Scan',
+  'redating.remove': 'Remove Scan',
+  'redating.intro':
+    'Enter a dating scan to check your due date. It is revised only when the scan differs by more than the accepted threshold for that stage of pregnancy.',
+  'redating.scanResult': 'Scan Result',
+  'redating.crlOption': 'Crown-rump length (CRL)',
+  'redating.gestationalAgeOption': 'Gestational age on report',
+  'redating.weeks': 'Weeks',
+  'redating.days': 'Days',
+  'redating.submit': 'Check Due Date',
+
+  // Growth scans
+  'biometry.title': 'Growth Scans',
+  'biometry.intro':
+    'Log the measurements from a growth scan report to see how they compare with other babies at the same stage.',
+  'biometry.estimatedWeight': 'Est. weight',
+  'biometry.percentile': {
+    type: 'ordinal',
+    one: '{count}st',
+    two: '{count}nd',
+    few: '{count}rd',
+    other: '{count}th',
+  },
+  'biometry.removeAria': 'Remove scan from {date}',
+  'biometry.remove': 'Remove',
+  'biometry.add': 'Add Growth Scan',
+  'biometry.baby': 'Baby',
+  'biometry.help':
+    'Abdominal circumference (AC) and femur length (FL) are needed to estimate weight. Adding the biparietal diameter (BPD) and head circumference (HC) makes the estimate more accurate.',
+  'biometry.save': 'Save Scan',
+
+  // Leave planner
+  'leave.title': 'Leave Planner',
+  'leave.intro':
+    'Choose the rules where you work to see when your maternity leave can start, when to tell your employer and when you would return.',
+  'leave.rules': 'Leave rules',
+  'leave.none': 'No leave plan',
+  'leave.plannedStartInput': 'Planned start date',
+  'leave.startRange': 'Leave can start between {earliest} and {latest}.',
+  'leave.useUsualStart': 'Use usual start',
+  'leave.duration': {
+    one: '{count} week of leave',
+    other: '{count} weeks of leave',
+  },
+  'leave.noticeRule': 'Telling your employer',
+  'leave.length': 'Length of leave',
+  'leave.disclaimer':
+    'These are statutory minimums. Your contract or local rules may give you more; check with your employer.',
+  'leave.notificationDeadline': 'Deadline to tell your employer',
+  'leave.earliestStart': 'Earliest start',
+  'leave.plannedStart': 'Planned start',
+  'leave.latestStart': 'Latest start',
+  'leave.returnDate': 'Return to work',
+
+  // Birth record
+  'birth.title': 'Birth',
+  'birth.intro':
+    'Once your baby has arrived, record the birth to switch to postpartum tracking. Your pregnancy calendar stays available as an archive.',
+  'birth.record': 'Record the birth',
+  'birth.deliveryDate': 'Delivery date',
+  'birth.type': 'Type of birth',
+  'birth.weight': 'Birth weight (g)',
+  'birth.length': 'Birth length (cm)',
+  'birth.save': 'Save birth details',
+  'birth.edit': 'Edit birth details',
+  'birth.remove': 'Remove birth record',
+  'birth.removeConfirm': 'Remove the birth record and go back to pregnancy tracking?',
+
+  // Postpartum
+  'postpartum.title': 'Fourth Trimester',
+  'postpartum.weekAndDay': 'Week {week}, day {day} after the birth',
+  'postpartum.daysSinceBirth': {
+    one: '{count} day since the birth',
+    other: '{count} days since the birth',
+  },
+  'postpartum.progress': 'Progress through the first 12 weeks',
+  'postpartum.complete': 'The 12-week postpartum timeline is complete',
+  'postpartum.birthDetails': 'Birth Details',
+  'postpartum.born': 'Born',
+  'postpartum.birthType': 'Type of birth',
+  'postpartum.gestationalAgeAtBirth': 'Gestational age at birth',
+  'postpartum.birthWeight': 'Birth weight',
+  'postpartum.birthLength': 'Birth length',
+  'postpartum.grams': '{weight} g',
+  'postpartum.centimetres': '{length} cm',
+  'postpartum.stage': 'Recovery Stage',
+  'postpartum.upcoming': 'Coming Up',
+  'postpartum.noUpcoming': 'No more checkups or milestones in the 12-week timeline',
+  'postpartum.timeline': 'Postpartum Timeline',
+  'postpartum.checkup': 'Checkup',
+  'postpartum.recovery': 'Recovery',
+  'postpartum.dayAfterBirth': 'Day {day}',
+  'postpartum.caption': 'Day-by-day timeline of the 12 weeks after the birth',
+  'postpartum.dayColumn': 'Day',
+  'postpartum.dateColumn': 'Date',
+  'postpartum.weekColumn': 'Week',
+  'postpartum.eventsColumn': 'Checkups & Recovery',
+  'postpartum.noTimeline': 'No Postpartum Timeline Available',
+
+  // Newborn
+  'newborn.title': "Baby's Age",
+  'newborn.chronologicalAge': 'Age',
+  'newborn.chronologicalAgeHelp': 'Counted from the birth. Vaccinations follow this age.',
+  'newborn.ageDays': {
+    one: '{count} day',
+    other: '{count} days',
+  },
+  'newborn.ageWeeks': {
+    one: '{count} week',
+    other: '{count} weeks',
+  },
+  'newborn.ageMonths': {
+    one: '{count} month',
+    other: '{count} months',
+  },
+  'newborn.atBirth': 'At birth',
+  'newborn.bornEarly': {
+    one: 'Born {count} day before the due date ({date})',
+    other: 'Born {count} days before the due date ({date})',
+  },
+  'newborn.correctedAge': 'Corrected age',
+  'newborn.correctedAgeHelp':
+    'Counted from the due date. Use it for growth and developmental milestones until about age 2.',
+  'newborn.beforeDueDate': 'Corrected age starts on the due date, {date}',
+  'newborn.postmenstrualAge': 'Postmenstrual age',
+  'newborn.postmenstrualAgeHelp': 'Gestational age at birth plus the time since the birth',
+  'newborn.upcoming': 'Next Well-Baby Visits',
+  'newborn.noUpcoming': 'All the first-year visits and vaccinations are done',
+  'newborn.timeline': 'First-Year Well-Baby Timeline',
+  'newborn.scheduleNote':
+    "Based on the US AAP and CDC schedules; your country's schedule may differ. Premature babies are vaccinated by chronological age.",
+  'newborn.caption': 'Well-baby visits and vaccinations in the first year',
+  'newborn.ageColumn': 'Age',
+  'newborn.dateColumn': 'Date',
+  'newborn.eventColumn': 'Visit or vaccination',
+  'newborn.detailsColumn': 'Details',
+  'newborn.visit': 'Well-baby visit',
+  'newborn.vaccination': 'Vaccination',
+  'newborn.noTimeline': 'No Well-Baby Timeline Available',
+
+  // Cycle tracking
+  'cycle.title': 'Cycle Tracking',
+  'cycle.cycleDay': 'Cycle day {day}',
+  'cycle.predictions': 'This Cycle',
+  'cycle.fertileToday': 'You are in your fertile window today',
+  'cycle.nextPeriod': 'Next period',
+  'cycle.daysUntilPeriod': {
+    one: 'In {count} day',
+    other: 'In {count} days',
+  },
+  'cycle.daysLate': {
+    one: '{count} day late',
+    other: '{count} days late',
+  },
+  'cycle.fertileWindow': 'Fertile window',
+  'cycle.dateRange': '{start} – {end}',
+  'cycle.ovulation': 'Predicted ovulation',
+  'cycle.averageLength': 'Cycle length',
+  'cycle.days': {
+    one: '{count} day',
+    other: '{count} days',
+  },
+  'cycle.averageFromLog': {
+    one: 'From your last logged cycle',
+    other: 'Average of your last {count} logged cycles',
+  },
+  'cycle.averageUsual': 'Your usual cycle length until two periods are logged',
+  'cycle.predictionNote':
+    'Predictions assume ovulation one luteal phase before the next period. Cycles vary, so treat them as estimates.',
+  'cycle.pregnantIntro':
+    'Positive test? Start the pregnancy calendar from your last period on {date}.',
+  'cycle.pregnant': "I'm pregnant",
+  'cycle.periodLog': 'Period Log',
+  'cycle.periodStart': 'First day of period',
+  'cycle.logPeriod': 'Log period',
+  'cycle.cycleLength': '{count}-day cycle',
+  'cycle.remove': 'Remove',
+  'cycle.removeAria': 'Remove the period starting {date}',
+  'cycle.upcoming': 'Upcoming Cycles',
+  'cycle.expectedPeriod': 'Expected period',
+
+  // Profiles
+  'profile.unnamed': 'My pregnancy',
+
+  // App lock and encryption
+  'lock.unlockTitle': 'Unlock your calendar',
+  'lock.unlockIntro': 'Your data is encrypted on this device. Enter your passphrase to open it.',
+  'lock.recoverTitle': 'Unlock with recovery key',
+  'lock.recoverIntro': 'Choose your recovery key file and set a new passphrase.',
+  'lock.enableTitle': 'Encrypt your data',
+  'lock.enableIntro':
+    'Your calendar, logs and photos will be encrypted on this device with a passphrase. You will need it every time you open the app.',
+  'lock.enableWarning':
+    'If you forget your passphrase, your data can only be unlocked with the recovery key file. Download it after turning encryption on and keep it somewhere safe.',
+  'lock.changeTitle': 'Change passphrase',
+  'lock.changeIntro': 'Enter your current passphrase and choose a new one.',
+  'lock.disableTitle': 'Turn off encryption',
+  'lock.disableIntro':
+    'Your data will be stored unencrypted on this device. Enter your passphrase to confirm.',
+  'lock.passphrase': 'Passphrase',
+  'lock.currentPassphrase': 'Current passphrase',
+  'lock.newPassphrase': 'New passphrase',
+  'lock.confirmPassphrase': 'Confirm passphrase',
+  'lock.recoveryKeyFile': 'Recovery key file',
+  'lock.unlock': 'Unlock',
+  'lock.recover': 'Unlock and set passphrase',
+  'lock.enable': 'Encrypt',
+  'lock.change': 'Change passphrase',
+  'lock.disable': 'Turn off encryption',
+  'lock.useRecoveryKey': 'Use recovery key',
+  'lock.backToPassphrase': 'Use passphrase',
+  'lock.wrongPassphrase': 'That passphrase is not correct.',
+  'lock.invalidRecoveryKey': 'This recovery key file does not match your data.',
+  'lock.encryptionFailed': 'Failed to update encryption. Please try again.',
+
+  // Backup and restore
+  'backup.title': 'Restore backup',
+  'backup.intro': 'Backup from {date}. Check what will change before restoring it.',
+  'backup.current': 'Now',
+  'backup.afterRestore': 'After restoring',
+  'backup.lmpDate': 'Last period',
+  'backup.theme': 'Theme',
+  'backup.logEntries': 'Logged periods and scans',
+  'backup.journalEntries': 'Journal entries',
+  'backup.healthLogEntries': 'Health log entries',
+  'backup.mediaItems': 'Photos and files',
+  'backup.profiles': 'Profiles',
+  'backup.none': 'Not set',
+  'backup.warning':
+    'Restoring replaces your current preferences, profiles, journals, health logs and photos. Anything saved since the backup was made is lost.',
+  'backup.restore': 'Restore',
+  'backup.malformed': 'This file is not a pregnancy calendar backup.',
+  'backup.newerVersion':
+    'This backup was made by a newer version of the app. Update the app to restore it.',
+  'backup.checksumMismatch': 'This backup file is damaged or was changed after it was made.',
+  'backup.invalidData': 'This backup contains data that cannot be restored.',
+
+  // Calendar table
+  'table.title': 'Pregnancy Calendar',
+  'table.subtitle': 'Complete timeline to 42 weeks with milestones and appointments',
+  'table.filterByMonth': 'Filter by Month:',
+  'table.filterAria': 'Filter pregnancy calendar by month',
+  'table.allMonths': {
+    one: 'All Months ({count} day)',
+    other: 'All Months ({count} days)',
+  },
+  'table.showing': {
+    one: 'Showing {count} day ({range})',
+    other: 'Showing {count} days ({range})',
+  },
+  'table.clearFilterAria': 'Clear month filter',
+  'table.clearFilter': 'Clear Filter',
+  'table.dayColumn': 'Day #',
+  'table.dateColumn': 'Date',
+  'table.gestationalAgeColumn': 'Gestational Age',
+  'table.trimesterColumn': 'Trimester',
+  'table.developmentColumn': 'Development & Notes',
+  'table.fetalStatsColumn': 'Fetal Stats',
+  'table.appointmentsColumn': 'Appointments',
+  'table.day': 'Day {day}',
+  'table.today': 'Today',
+  'table.preview': 'Preview',
+  'table.growthScan': 'Growth scan',
+  'table.growthScanFor': 'Growth scan for {baby}',
+  'table.scan': 'Scan',
+  'table.estimatedFetalWeight': 'EFW {weight}g',
+  'table.totalDays': 'Total Days:',
+  'table.milestones': 'Milestones:',
+  'table.appointments': 'Appointments:',
+  'table.legendTitle': 'Trimester Legend:',
+  'table.legendFirst': 'First Trimester (Weeks 1-12)',
+  'table.legendSecond': 'Second Trimester (Weeks 13-27)',
+  'table.legendThird': 'Third Trimester (Weeks 28-40)',
+  'table.noDataDescription':
+    'Please set up your pregnancy information to view the detailed calendar.',
+  'table.weight': 'Weight:',
+  'table.crownRumpLength': 'CRL',
+  'table.length': 'Length',
+  'table.range': '10th–90th: {low}–{high}{unit}',
+
+  // As-of date preview
+  'preview.title': 'Preview mode',
+  'preview.showing': 'Showing your pregnancy as of {date}',
+  'preview.date': 'Preview date',
+  'preview.backToToday': 'Back to today',
+  'preview.open': 'Preview another date',
+  'preview.showAsOf': 'Show my pregnancy as of',
+  'preview.dueDate': 'Due date',
+  'preview.outOfRange': 'Choose a date between your LMP and 42 6/7 weeks',
+
+  // Floating navigation
+  'nav.summaryAria': 'Switch to summary view',
+  'nav.summary': 'Summary',
+  'nav.tableAria': 'Switch to table view',
+  'nav.calendar': 'Calendar',
+  'nav.exportAria': 'Export options',
+  'nav.exporting': 'Exporting...',
+  'nav.export': 'Export',
+  'nav.exportPdf': 'Export as PDF',
+  'nav.exportPdfDescription': 'Printable format (~{size}KB)',
+  'nav.exportExcel': 'Export as Excel',
+  'nav.exportExcelDescription': 'Spreadsheet format (~{size}KB)',
+  'nav.exportSuccess': '✅ Successfully exported pregnancy calendar as {format}!',
+  'nav.exportFailed': '❌ Failed to export as {format}. Please try again.',
+
+  // Application shell
+  'app.loading': 'Loading pregnancy calendar data',
+  'app.errorTitle': 'Something went wrong',
+  'app.retry': 'Try Again',
+  'app.setupComplete': 'Pregnancy calendar setup completed successfully',
+  'app.savePreferencesFailed': 'Failed to save your preferences. Please try again.',
+  'app.loadPreferencesFailed': 'Failed to load your preferences. Please refresh the page.',
+  'app.storageMigrationFailed':
+    'Your saved data could not be upgraded for this version of the app. It has been kept unchanged; please try again or update the app.',
+  'app.switchedToSummary': 'Switched to summary view',
+  'app.switchedToTable': 'Switched to table view',
+  'app.themeChanged': 'Theme changed to {theme}',
+  'app.datingScanSaved': 'Dating scan saved and due date checked',
+  'app.datingScanRemoved': 'Dating scan removed',
+  'app.datingScanFailed': 'Failed to save your dating scan. Please try again.',
+  'app.growthScansUpdated': 'Growth scans updated',
+  'app.growthScanFailed': 'Failed to save your growth scan. Please try again.',
+  'app.scheduleUpdated': 'Appointment schedule updated',
+  'app.guidelineFailed': 'Failed to save your care guideline. Please try again.',
+  'app.leavePlanSaved': 'Leave plan updated',
+  'app.leavePlanRemoved': 'Leave plan removed',
+  'app.leavePlanFailed': 'Failed to save your leave plan. Please try again.',
+  'app.birthSaved': 'Birth recorded. Now following the postpartum weeks.',
+  'app.birthRemoved': 'Birth record removed. Back to pregnancy tracking.',
+  'app.birthFailed': 'Failed to save the birth record. Please try again.',
+  'app.modeSwitch': 'Choose what to show',
+  'app.modePostpartum': 'Postpartum',
+  'app.modeArchive': 'Pregnancy archive',
+  'app.archiveNotice': 'You are looking at your pregnancy calendar as an archive.',
+  'app.showingPostpartum': 'Showing the postpartum timeline',
+  'app.showingArchive': 'Showing the pregnancy archive',
+  'app.periodLogUpdated': 'Period log updated',
+  'app.periodLogFailed': 'Failed to save the period log. Please try again.',
+  'app.pregnancyStarted': 'Pregnancy calendar started from your last period',
+  'app.pregnancyStartFailed': 'Failed to start the pregnancy calendar. Please try again.',
+  'app.datesShownAs': 'Dates now shown as {date}',
+  'app.dateFormatFailed': 'Failed to save your date format. Please try again.',
+  'app.languageChanged': 'Language changed to {language}',
+  'app.languageFailed': 'Failed to save your language. Please try again.',
+  'app.resetConfirm':
+    'Are you sure you want to reset all preferences? This will clear your pregnancy data and return to the setup screen.',
+  'app.resetDone': 'Preferences have been reset',
+  'app.exporting': 'Exporting pregnancy calendar as {format}',
+  'app.profileCreated': 'Profile {name} created',
+  'app.profileSwitched': 'Switched to {name}',
+  'app.profileRenamed': 'Profile renamed to {name}',
+  'app.profileArchived': '{name} moved to the archive',
+  'app.profileRestored': '{name} restored from the archive',
+  'app.profileDeleteConfirm':
+    'Delete the profile "{name}" and all of its data? This cannot be undone.',
+  'app.profileDeleted': 'Profile {name} deleted',
+  'app.profileFailed': 'Failed to update your profiles. Please try again.',
+  'app.unlocked': 'Calendar unlocked',
+  'app.locked': 'Calendar locked',
+  'app.encryptionEnabled': 'Your data is now encrypted',
+  'app.encryptionDisabled': 'Encryption turned off',
+  'app.passphraseChanged': 'Passphrase changed',
+  'app.recoveryKeyDownloaded': 'Recovery key downloaded',
+  'app.recoveryKeyFailed': 'Failed to create the recovery key. Please try again.',
+  'app.encryptedSaveFailed':
+    'Your latest changes could not be saved, for example because storage is full. They will be lost if you close the app.',
+  'app.backupDownloaded': 'Backup downloaded',
+  'app.backupFailed': 'Failed to create the backup. Please try again.',
+  'app.backupRestored': 'Backup restored',
+  'app.backupRestoreFailed': 'Failed to restore the backup. Your data was not changed.',
+  'app.backupLocked': 'Unlock your calendar before backing it up or restoring a backup.',
+
+  // PDF and Excel exports
+  'export.title': 'Pregnancy Calendar',
+  'export.generatedOn': 'Generated on: {date}',
+  'export.previewAsOf': 'Preview as of: {date}',
+  'export.profile': 'Profile: {name}',
+  'export.profileLabel': 'Profile',
+  'export.summary': 'Pregnancy Summary',
+  'export.previewAsOfLabel': 'Preview As Of',
+  'export.currentGestationalAge': 'Current Gestational Age',
+  'export.currentTrimester': 'Current Trimester',
+  'export.daysCompleted': 'Days Completed',
+  'export.daysRemaining': 'Days Remaining',
+  'export.daysOverdue': 'Days Overdue',
+  'export.termStatus': 'Term Status',
+  'export.progress': 'Progress',
+  'export.progressPercentage': 'Progress Percentage',
+  'export.estimatedDueDate': 'Estimated Due Date',
+  'export.datedBy': 'Dated By',
+  'export.dueDateRule': 'Due Date Rule',
+  'export.pregnancyType': 'Pregnancy Type',
+  'export.careGuideline': 'Care Guideline',
+  'export.deliveryWindow': 'Delivery Window',
+  'export.estimatedFetalWeight': 'Estimated Fetal Weight',
+  'export.estimatedFetalLength': 'Estimated Fetal Length',
+  'export.estimatedFetalWeightGrams': 'Estimated Fetal Weight (g)',
+  'export.estimatedFetalLengthCm': 'Estimated Fetal Length (cm)',
+  'export.weightRange': '{p50} g (10th-90th: {p10}-{p90} g)',
+  'export.lengthRange': '{p50} cm (10th-90th: {p10}-{p90} cm)',
+  'export.thisWeek': 'This Week (Week {week})',
+  'export.sizeComparison': 'Size Comparison',
+  'export.babysDevelopment': "Baby's Development",
+  'export.changesForYou': 'Changes for You',
+  'export.originalDueDate': 'Original Due Date',
+  'export.ultrasoundDueDate': 'Ultrasound Due Date',
+  'export.redating': 'Re-dating',
+  'export.upcomingMilestones': 'Upcoming Milestones',
+  'export.nextAppointments': 'Next Appointments',
+  'export.keyDates': 'Key Dates',
+  'export.keyDateLine': '{label}: {date} ({age})',
+  'export.leavePlan': 'Leave Plan',
+  'export.leaveRules': 'Leave Rules',
+  'export.leaveLength': 'Leave Length',
+  'export.employerNotice': 'Employer Notice',
+  'export.disclaimer':
+    'MEDICAL DISCLAIMER: This calendar is based on standard 40-week pregnancy calculations from your Last Menstrual Period (LMP). All dates and milestones are estimates only. Individual pregnancies may vary. Always consult with your healthcare provider for personalized medical advice and accurate pregnancy monitoring.',
+  'export.calendar': 'Pregnancy Calendar',
+  'export.day': 'Day',
+  'export.date': 'Date',
+  'export.week': 'Week',
+  'export.trimester': 'Trimester',
+  'export.development': 'Development',
+  'export.weekAndDay': '{week}w {day}d',
+  'export.weeklyDevelopment': 'Week-by-Week Development',
+  'export.weekHeading': 'Week {week} (from {date}): {description}',
+  'export.sizeComparisonDetail': 'Size comparison: {size}',
+  'export.babyDetail': 'Baby: {items}',
+  'export.youDetail': 'You: {items}',
+  'export.summarySheet': 'Summary',
+  'export.calendarSheet': 'Calendar',
+  'export.appointmentsSheet': 'Appointments',
+  'export.milestonesSheet': 'Milestones',
+  'export.growthScansSheet': 'Growth Scans',
+  'export.keyDatesSheet': 'Key Dates',
+  'export.leaveSheet': 'Leave Plan',
+  'export.dayNumber': 'Day Number',
+  'export.gestationalWeek': 'Gestational Week',
+  'export.dayOfWeek': 'Day of Week',
+  'export.gestationalAge': 'Gestational Age',
+  'export.month': 'Month',
+  'export.year': 'Year',
+  'export.termCategory': 'Term Category',
+  'export.fetalWeight10th': 'Fetal Weight 10th (g)',
+  'export.fetalWeight50th': 'Fetal Weight 50th (g)',
+  'export.fetalWeight90th': 'Fetal Weight 90th (g)',
+  'export.lengthType': 'Length Type',
+  'export.fetalLength10th': 'Fetal Length 10th (cm)',
+  'export.fetalLength50th': 'Fetal Length 50th (cm)',
+  'export.fetalLength90th': 'Fetal Length 90th (cm)',
+  'export.crownRump': 'Crown-rump',
+  'export.crownHeel': 'Crown-heel',
+  'export.from': 'From',
+  'export.to': 'To',
+  'export.weeks': 'Weeks',
+  'export.appointment': 'Appointment',
+  'export.keyDate': 'Key Date',
+  'export.description': 'Description',
+  'export.leave': 'Leave',
+  'export.developmentMilestone': 'Development Milestone',
+  'export.keyDevelopments': 'Key Developments',
+  'export.maternalChanges': 'Maternal Changes',
+  'export.baby': 'Baby',
+  'export.measurementMm': '{label} (mm)',
+  'export.measurementPercentile': '{label} Percentile',
+  'export.weightPercentile': 'Weight Percentile',
+  'export.formula': 'Formula',
+  'export.preview': {
+    one: 'Export includes {count} day of pregnancy calendar data',
+    other: 'Export includes {count} days of pregnancy calendar data',
+  },
+} satisfies Record<string, Message>;
+
+/** Key of an interface message */
+export type MessageKey = keyof typeof EN_MESSAGES;
+
+/** Complete set of interface messages for one language */
+export type MessageCatalog = Record<MessageKey, Message>;
+
+/**
+ * Translations of the calculator's built-in content (development, appointments,
+ * labels), keyed by the English text. Missing entries fall back to English.
+ */
+export type ContentCatalog = Record<string, string>;
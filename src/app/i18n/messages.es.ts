@@ -0,0 +1,787 @@
+import { MessageCatalog } from './messages.en';
+
+/**
+ * Spanish interface messages
+ */
+export const ES_MESSAGES: MessageCatalog = {
+  // Shared labels
+  'common.cancel': 'Cancelar',
+  'common.scanDate': 'Fecha de la ecografía',
+  'common.crownRumpLengthMm': 'Longitud cráneo-caudal (mm)',
+  'common.careGuideline': 'Guía de atención',
+  'common.dateFormat': 'Formato de fecha',
+  'common.language': 'Idioma',
+  'common.noData': 'No hay datos del embarazo',
+  'common.week': 'Semana {week}',
+  'common.weeks': 'Semanas {start}-{end}',
+
+  // Trimesters and term categories
+  'trimester.first': 'Primer',
+  'trimester.second': 'Segundo',
+  'trimester.third': 'Tercer',
+  'trimester.unknown': 'Desconocido',
+  'trimester.firstShort': '1.º',
+  'trimester.secondShort': '2.º',
+  'trimester.thirdShort': '3.º',
+  'term.preterm': 'Pretérmino',
+  'term.earlyTerm': 'Término temprano',
+  'term.fullTerm': 'Término completo',
+  'term.lateTerm': 'Término tardío',
+  'term.postTerm': 'Postérmino',
+
+  // Validation
+  'validation.required': 'Este campo es obligatorio',
+  'validation.futureDate': 'La fecha no puede ser futura',
+  'validation.futureScanDate': 'La fecha de la ecografía no puede ser futura',
+  'validation.tooOld': 'Introduce una fecha más reciente',
+  'validation.range': 'Introduce un valor entre {min} y {max}',
+  'validation.rangeMm': 'Introduce un valor entre {min} y {max} mm',
+  'validation.invalid': 'Introduce un valor válido',
+  'validation.invalidScan': 'Datos de la ecografía no válidos',
+  'validation.futureDeliveryDate': 'La fecha del parto no puede ser futura',
+  'validation.deliveryBeforePregnancy':
+    'La fecha del parto debe ser posterior al inicio del embarazo',
+  'validation.periodAlreadyLogged': 'Esta regla ya está registrada',
+  'validation.passphraseLength': 'Usa al menos {min} caracteres',
+  'validation.passphraseMismatch': 'Las frases de contraseña no coinciden',
+
+  // Themes and date formats
+  'theme.neutral': 'Neutro',
+  'theme.neutralDescription': 'Tonos cálidos y neutros',
+  'theme.boy': 'Niño',
+  'theme.boyDescription': 'Detalles en azul suave',
+  'theme.girl': 'Niña',
+  'theme.girlDescription': 'Detalles en rosa suave',
+  'dateFormat.us': 'EE. UU.',
+  'dateFormat.usDescription': 'Mes primero',
+  'dateFormat.dayFirst': 'Día primero',
+  'dateFormat.dayFirstDescription': 'Usado en el Reino Unido, Europa y casi todo el mundo',
+  'dateFormat.iso': 'ISO',
+  'dateFormat.isoDescription': 'Año primero, se ordena por fecha',
+  'dateFormat.long': 'Formato largo',
+  'dateFormat.longDescription': 'Nombre del mes completo',
+  'dateFormat.locale': 'Formato regional',
+  'dateFormat.localeDescription': 'El formato regional de tu navegador',
+
+  // Calculator
+  'calc.gestationalAge': '{weeks} semanas {days} días',
+  'calc.baby': 'Bebé',
+  'calc.babyLetter': 'Bebé {letter}',
+  'calc.datedOn': '{method} el {date}',
+  'calc.datedOnCrl': '{method} el {date} (LCC {crl} mm)',
+  'calc.dueDateRuleFixed': 'Ninguna (el método de datación fija la fecha de concepción)',
+  'calc.dueDateRuleStandard': 'Regla de Naegele estándar (ciclo de {cycleLength} días)',
+  'calc.dueDateRuleAdjusted':
+    'Regla de Naegele ajustada: ciclo de {cycleLength} días, fase lútea de {lutealPhase} días ({adjustment} días)',
+  'calc.redatingCrlFixed':
+    'Ya datado por una ecografía del primer trimestre; las ecografías posteriores no cambian la fecha de parto.',
+  'calc.redatingIvfFixed':
+    'La datación por FIV es el método más preciso; la ecografía no cambia la fecha de parto.',
+  'calc.redatingComparison':
+    'La ecografía difiere de la datación por {method} en {days} días a las {band} (umbral de {threshold} días): {outcome}',
+  'calc.redatingRevised': 'fecha de parto corregida según la ecografía.',
+  'calc.redatingKept': 'se mantiene la fecha de parto original.',
+  'calc.redatingLateScan':
+    'La datación por una ecografía después de las 22 semanas es menos fiable.',
+  'calc.plannedBirthWindow': 'Esta semana comienza el periodo de parto programado para {plurality}',
+  'calc.milestone': 'Semana {week}: {description}',
+  'calc.appointment': '{type}: {description}',
+  'calc.appointmentInWindow': '{type} ({weeks}): {description}',
+  'calc.nextAppointment': '{weeks}: {type}',
+  'calc.gestationalAgeNotation': '{weeks} {days}/7 semanas',
+  'calc.keyDateOnwards': 'Desde el {date}',
+  'calc.leaveEvent': 'Permiso: {label}',
+  'calc.monthFilter': {
+    one: '{month} {year} ({count} día)',
+    other: '{month} {year} ({count} días)',
+  },
+  'calc.errorScanBeforePregnancy':
+    'La fecha de la ecografía no puede ser anterior al inicio del embarazo.',
+  'calc.errorScanMeasurement':
+    'La ecografía necesita una longitud cráneo-caudal o una edad gestacional.',
+  'calc.errorCrlRequired':
+    'La longitud cráneo-caudal es obligatoria para la datación por ecografía.',
+  'calc.errorCrlRange': 'La longitud cráneo-caudal debe estar entre {min} y {max} mm.',
+  'calc.errorCycleLength': 'La duración del ciclo debe estar entre {min} y {max} días.',
+  'calc.errorLutealPhase': 'La fase lútea debe estar entre {min} y {max} días.',
+
+  // Header
+  'header.title': 'Calendario de embarazo',
+  'header.preview': 'Vista previa: {date}',
+  'header.themeButton': 'Seleccionar color del tema',
+  'header.theme': 'Tema',
+  'header.themeOption': 'Seleccionar tema {label}: {description}',
+  'header.settingsButton': 'Abrir menú de ajustes',
+  'header.settings': 'Ajustes',
+  'header.dateFormatOption': 'Formato de fecha {label}: {description}',
+  'header.profileButton': 'Perfil: {name}. Cambiar o gestionar perfiles',
+  'header.profiles': 'Perfiles',
+  'header.archivedProfiles': 'Archivados',
+  'header.newProfile': 'Nuevo perfil',
+  'header.renameProfile': 'Cambiar nombre del perfil',
+  'header.archiveProfile': 'Archivar este embarazo',
+  'header.restoreProfile': 'Recuperar del archivo',
+  'header.deleteProfile': 'Eliminar perfil',
+  'header.profileNamePrompt': 'Nombre del perfil (por ejemplo, el nombre de la madre o el padre)',
+  'header.resetPreferences': 'Restablecer preferencias',
+  'header.storage': 'Almacenamiento',
+  'header.storageUsage': '{used} de {total} usados',
+  'header.storageNearlyFull':
+    'El almacenamiento está casi lleno. Descarga una copia de seguridad y elimina las fotos que ya no necesites.',
+  'header.storageFull':
+    'El almacenamiento está lleno y el último cambio no se guardó. Elimina las fotos que ya no necesites e inténtalo de nuevo.',
+  'header.privacy': 'Privacidad',
+  'header.enableEncryption': 'Cifrar mis datos',
+  'header.changePassphrase': 'Cambiar frase de contraseña',
+  'header.downloadRecoveryKey': 'Descargar clave de recuperación',
+  'header.lockNow': 'Bloquear ahora',
+  'header.disableEncryption': 'Desactivar cifrado',
+  'header.backup': 'Copia de seguridad',
+  'header.downloadBackup': 'Descargar copia de seguridad',
+  'header.restoreBackup': 'Restaurar desde archivo',
+  'header.help': 'Ayuda e información',
+  'header.helpMessage':
+    'Ayuda del calendario de embarazo\n\n' +
+    'Esta aplicación calcula la cronología de tu embarazo a partir de la fecha de tu última menstruación (FUM).\n\n' +
+    'Funciones principales:\n' +
+    '• Vista de resumen: estado actual de tu embarazo\n' +
+    '• Vista de tabla: calendario detallado día a día con hitos\n' +
+    '• Exportación: guarda tu calendario en PDF o Excel\n' +
+    '• Temas: elige los colores que prefieras\n' +
+    '• Idioma: cambia entre inglés, español y árabe en el menú de ajustes\n\n' +
+    'Aviso médico:\n' +
+    'Todos los cálculos son estimaciones basadas en un embarazo estándar de 40 semanas. Cada embarazo es diferente. Consulta siempre a tu profesional sanitario para recibir consejo médico personalizado.\n\n' +
+    'Navegación:\n' +
+    '• Usa los botones flotantes de la parte inferior para cambiar de vista y exportar datos\n' +
+    '• Cambia el tema con el selector de la cabecera\n' +
+    '• Filtra la vista de tabla por mes con el desplegable\n\n' +
+    'Para soporte técnico o comentarios, contacta con el administrador del sistema.',
+
+  // Setup
+  'setup.title': 'Bienvenida a tu calendario de embarazo',
+  'setup.description':
+    'Vamos a configurar tu seguimiento personalizado del embarazo. Calcularemos todo a partir de la fecha de tu última menstruación (FUM), de la concepción, de la transferencia de FIV o de una ecografía temprana, siguiendo las guías médicas habituales.',
+  'setup.datingMethod': '¿Cómo se ha datado tu embarazo?',
+  'setup.datingMethodHelp':
+    'Usa tu FUM si la conoces. La datación por transferencia de FIV o por ecografía temprana es más precisa si está disponible.',
+  'setup.datingDateHelp':
+    'Convertimos esta fecha en una FUM equivalente para calcular la cronología de tu embarazo y la fecha de parto.',
+  'setup.cycleLength': 'Duración media del ciclo (días)',
+  'setup.lutealPhase': 'Duración de la fase lútea (días)',
+  'setup.cycleHelp':
+    'Opcional. Si tus ciclos no duran 28 días, la fecha de parto se ajusta con la regla de Naegele modificada. Déjalo en blanco para usar el ciclo estándar de 28 días.',
+  'setup.crownRumpLengthHelp':
+    'La LCC de tu informe ecográfico. La datación del primer trimestre es válida entre {min} y {max} mm.',
+  'setup.plurality': '¿Cuántos bebés?',
+  'setup.pluralityHelp':
+    'Los gemelos y trillizos tienen un periodo de parto programado más temprano y ecografías de crecimiento adicionales.',
+  'setup.guidelineProfile': 'Calendario de citas',
+  'setup.guidelineProfileHelp':
+    'Elige la guía de atención prenatal de tu país. Las citas se muestran con las semanas en las que se recomiendan.',
+  'setup.dateFormatHelp':
+    'Se usa para todas las fechas de la aplicación y de los archivos exportados. Puedes cambiarlo más tarde en el menú de ajustes.',
+  'setup.languageHelp':
+    'Se usa para todo el texto de la aplicación y de los archivos exportados. Puedes cambiarlo más tarde en el menú de ajustes.',
+  'setup.theme': 'Elige tu tema',
+  'setup.themeHelp':
+    'Selecciona un tema de color para tu calendario de embarazo. Puedes cambiarlo más tarde.',
+  'setup.disclaimerTitle': 'Aviso médico importante',
+  'setup.disclaimerIntro': 'Este calendario de embarazo es solo informativo.',
+  'setup.disclaimerCalculations':
+    'Todos los cálculos se basan en un embarazo estándar de 40 semanas (280 días), y el calendario continúa hasta las 42 semanas',
+  'setup.disclaimerVariation': 'Cada embarazo puede diferir mucho de estas estimaciones',
+  'setup.disclaimerNoReplacement':
+    'Esta herramienta no sustituye la atención ni el consejo médico profesional',
+  'setup.disclaimerConsult':
+    'Consulta siempre a tu profesional sanitario para recibir orientación médica personalizada',
+  'setup.disclaimerUrgent':
+    'Busca atención médica inmediata ante cualquier problema relacionado con el embarazo',
+  'setup.disclaimerAccept': 'Entiendo y acepto este aviso médico',
+  'setup.disclaimerRequired': 'Debes aceptar el aviso médico para continuar',
+  'setup.submit': 'Empezar mi embarazo',
+  'setup.submitting': 'Preparando tu calendario...',
+  'setup.mode': '¿Qué quieres seguir?',
+  'setup.modePregnancy': 'Estoy embarazada',
+  'setup.modePreconception': 'Buscando embarazo',
+  'setup.modeHelp':
+    '¿Buscando embarazo? Registra tus reglas para ver tu ventana fértil y pasa al calendario del embarazo con un solo toque.',
+  'setup.lastPeriodHelp':
+    'El primer día de tu última regla. Registra las siguientes en el seguimiento del ciclo para mejorar las predicciones.',
+  'setup.preconceptionCycleHelp':
+    'Opcional. Se usa para las predicciones hasta que registres dos reglas. Déjalo en blanco para usar el ciclo estándar de 28 días y la fase lútea de 14 días.',
+  'setup.submitPreconception': 'Empezar el seguimiento del ciclo',
+  'setup.whyLmp': '¿Por qué necesitamos la fecha de tu FUM?',
+  'setup.whyLmpIntro':
+    'La fecha de la última menstruación (FUM) es el estándar médico para calcular la cronología del embarazo porque:',
+  'setup.whyLmpRemember': 'Suele ser más fácil de recordar que la fecha de concepción',
+  'setup.whyLmpStandard': 'La mayoría de los profesionales sanitarios usan este método',
+  'setup.whyLmpAccurate': 'Ofrece los cálculos de edad gestacional más precisos',
+  'setup.whyLmpMilestones': 'Todos los hitos estándar del embarazo se basan en la FUM',
+  'setup.whyLmpStart':
+    'Tu embarazo se cuenta desde el primer día de tu FUM, aunque la concepción suele producirse unas 2 semanas después.',
+  'setup.whyLmpOtherMethods':
+    'Si te sometiste a FIV o te dataron con una ecografía temprana, elige ese método. Calculamos la FUM equivalente: la concepción es 14 días después de la FUM, una transferencia de embrión de día 3, 17 días, y una de blastocisto de día 5, 19 días. La datación por ecografía usa la longitud cráneo-caudal medida antes de las 14 semanas.',
+
+  // Summary view
+  'summary.title': 'Tu embarazo',
+  'summary.subtitle': 'Sigue tu progreso y los hitos importantes',
+  'summary.currentStatus': 'Estado actual',
+  'summary.currentAge': 'Edad gestacional',
+  'summary.trimester': 'Trimestre',
+  'summary.dueDate': 'Fecha de parto',
+  'summary.progress': 'Progreso del embarazo',
+  'summary.progressAria': 'Progreso del embarazo: {percent} por ciento completado',
+  'summary.daysCompleted': {
+    one: '{count} día completado',
+    other: '{count} días completados',
+  },
+  'summary.daysOverdue': {
+    one: '{count} día de retraso',
+    other: '{count} días de retraso',
+  },
+  'summary.daysRemaining': {
+    one: 'Queda {count} día',
+    other: 'Quedan {count} días',
+  },
+  'summary.estimatedWeight': 'Peso estimado',
+  'summary.estimatedWeightEach': 'Peso estimado (cada bebé)',
+  'summary.percentileRange': 'Percentil 10–90: {low}–{high} {unit}',
+  'summary.crownRumpLength': 'Longitud cráneo-caudal',
+  'summary.estimatedLength': 'Longitud estimada',
+  'summary.datedBy': 'Datado por:',
+  'summary.dueDateRule': 'Regla de la fecha de parto:',
+  'summary.termStatus': 'Estado del término:',
+  'summary.pregnancyType': 'Tipo de embarazo:',
+  'summary.careGuideline': 'Guía de atención:',
+  'summary.deliveryWindow': 'Periodo de parto:',
+  'summary.thisWeek': 'Esta semana: semana {week}',
+  'summary.sizeComparison': 'Tamaño comparable a:',
+  'summary.babysDevelopment': 'Desarrollo del bebé',
+  'summary.changesForYou': 'Cambios para ti',
+  'summary.upcomingMilestones': 'Próximos hitos',
+  'summary.noMilestones': '¡Estás cerca del final de tu embarazo! No quedan hitos importantes.',
+  'summary.nextAppointments': 'Próximas citas',
+  'summary.noAppointments':
+    'No hay citas programadas. Consulta a tu profesional sanitario para conocer tu calendario personalizado.',
+  'summary.keyDates': 'Fechas clave',
+  'summary.keyDatePassed': 'Pasada',
+  'summary.trimesterTitle': '{trimester} trimestre',
+  'summary.firstDescription':
+    'La etapa de base de tu embarazo. Los órganos de tu bebé se están formando y el desarrollo temprano es fundamental.',
+  'summary.secondDescription':
+    'A menudo llamado el "periodo dorado": es posible que te sientas con más energía y más cómoda durante estas semanas.',
+  'summary.thirdDescription':
+    '¡La recta final! Tu bebé crece rápidamente y se prepara para la vida fuera del útero.',
+  'summary.defaultDescription': 'Una etapa importante de tu embarazo.',
+  'summary.firstMorningSickness': 'Pueden aparecer náuseas matutinas',
+  'summary.firstFatigue': 'El cansancio es habitual',
+  'summary.firstOrgans': 'Desarrollo de órganos importantes',
+  'summary.firstAppointments': 'Primeras citas prenatales',
+  'summary.firstFolicAcid': 'El ácido fólico es fundamental',
+  'summary.secondEnergy': 'La energía suele mejorar',
+  'summary.secondMovements': 'Puedes empezar a notar los movimientos del bebé',
+  'summary.secondAnatomyScan': 'Ecografía morfológica hacia la semana 20',
+  'summary.secondGender': 'Se puede conocer el sexo',
+  'summary.secondBelly': 'La tripa empieza a notarse más',
+  'summary.thirdVisits': 'Visitas médicas frecuentes',
+  'summary.thirdMovements': 'Los movimientos del bebé son fuertes',
+  'summary.thirdDelivery': 'Prepárate para el parto',
+  'summary.thirdLaborSigns': 'Vigila los signos de parto',
+  'summary.thirdPreparations': 'Últimos preparativos para el bebé',
+  'summary.importantReminders': 'Recordatorios importantes',
+  'summary.reminderVitamins': 'Toma vitaminas prenatales cada día',
+  'summary.reminderHydration': 'Mantente hidratada (8-10 vasos de agua)',
+  'summary.reminderRest': 'Descansa y duerme lo suficiente',
+  'summary.reminderAvoid': 'Evita el alcohol, el tabaco y ciertos medicamentos',
+  'summary.reminderContact': 'Consulta tus dudas con tu profesional sanitario',
+  'summary.disclaimerTitle': 'Aviso médico',
+  'summary.disclaimerText':
+    'Esta información es solo educativa y se basa en los cálculos de un embarazo estándar de 40 semanas. Cada embarazo es muy diferente. Consulta siempre a tu profesional sanitario para recibir consejo médico personalizado, una atención prenatal adecuada y ante cualquier duda sobre tu embarazo.',
+  'summary.noDataDescription': 'Configura los datos de tu embarazo para ver tu resumen.',
+
+  // Dating ultrasound
+  'redating.title': 'Ecografía de datación',
+  'redating.revised': 'Fecha de parto corregida',
+  'redating.kept': 'Se mantiene la fecha de parto original',
+  'redating.originalDueDate': 'Fecha de parto original',
+  'redating.ultrasoundDueDate': 'Fecha de parto por ecografía',
+  'redating.difference': 'Diferencia',
+  'redating.differenceDays': {
+    one: '{count} día',
+    other: '{count} días',
+  },
+  'redating.edit': 'Editar ecografía',
+  'redating.remove': 'Eliminar ecografía',
+  'redating.intro':
+    'Introduce una ecografía de datación para comprobar tu fecha de parto. Solo se corrige cuando la ecografía difiere más que el umbral aceptado para esa etapa del embarazo.',
+  'redating.scanResult': 'Resultado de la ecografía',
+  'redating.crlOption': 'Longitud cráneo-caudal (LCC)',
+  'redating.gestationalAgeOption': 'Edad gestacional del informe',
+  'redating.weeks': 'Semanas',
+  'redating.days': 'Días',
+  'redating.submit': 'Comprobar fecha de parto',
+
+  // Growth scans
+  'biometry.title': 'Ecografías de crecimiento',
+  'biometry.intro':
+    'Registra las medidas de un informe de ecografía de crecimiento para ver cómo se comparan con otros bebés en la misma etapa.',
+  'biometry.estimatedWeight': 'Peso est.',
+  'biometry.percentile': {
+    type: 'ordinal',
+    other: 'P{count}',
+  },
+  'biometry.removeAria': 'Eliminar la ecografía del {date}',
+  'biometry.remove': 'Eliminar',
+  'biometry.add': 'Añadir ecografía de crecimiento',
+  'biometry.baby': 'Bebé',
+  'biometry.help':
+    'Para estimar el peso se necesitan la circunferencia abdominal (AC) y la longitud del fémur (FL). Añadir el diámetro biparietal (BPD) y la circunferencia cefálica (HC) hace la estimación más precisa.',
+  'biometry.save': 'Guardar ecografía',
+
+  // Leave planner
+  'leave.title': 'Planificador del permiso',
+  'leave.intro':
+    'Elige las normas de tu lugar de trabajo para ver cuándo puede empezar tu permiso de maternidad, cuándo avisar a tu empresa y cuándo te reincorporarías.',
+  'leave.rules': 'Normas del permiso',
+  'leave.none': 'Sin plan de permiso',
+  'leave.plannedStartInput': 'Fecha de inicio prevista',
+  'leave.startRange': 'El permiso puede empezar entre el {earliest} y el {latest}.',
+  'leave.useUsualStart': 'Usar el inicio habitual',
+  'leave.duration': {
+    one: '{count} semana de permiso',
+    other: '{count} semanas de permiso',
+  },
+  'leave.noticeRule': 'Aviso a tu empresa',
+  'leave.length': 'Duración del permiso',
+  'leave.disclaimer':
+    'Son los mínimos legales. Tu contrato o las normas locales pueden darte más; consúltalo con tu empresa.',
+  'leave.notificationDeadline': 'Plazo para avisar a tu empresa',
+  'leave.earliestStart': 'Inicio más temprano',
+  'leave.plannedStart': 'Inicio previsto',
+  'leave.latestStart': 'Inicio más tardío',
+  'leave.returnDate': 'Vuelta al trabajo',
+
+  // Birth record
+  'birth.title': 'Parto',
+  'birth.intro':
+    'Cuando haya nacido tu bebé, registra el parto para pasar al seguimiento posparto. Tu calendario de embarazo seguirá disponible como archivo.',
+  'birth.record': 'Registrar el parto',
+  'birth.deliveryDate': 'Fecha del parto',
+  'birth.type': 'Tipo de parto',
+  'birth.weight': 'Peso al nacer (g)',
+  'birth.length': 'Talla al nacer (cm)',
+  'birth.save': 'Guardar datos del parto',
+  'birth.edit': 'Editar datos del parto',
+  'birth.remove': 'Eliminar registro del parto',
+  'birth.removeConfirm': '¿Eliminar el registro del parto y volver al seguimiento del embarazo?',
+
+  // Postpartum
+  'postpartum.title': 'Cuarto trimestre',
+  'postpartum.weekAndDay': 'Semana {week}, día {day} después del parto',
+  'postpartum.daysSinceBirth': {
+    one: '{count} día desde el parto',
+    other: '{count} días desde el parto',
+  },
+  'postpartum.progress': 'Progreso en las primeras 12 semanas',
+  'postpartum.complete': 'El seguimiento posparto de 12 semanas ha terminado',
+  'postpartum.birthDetails': 'Datos del parto',
+  'postpartum.born': 'Nacimiento',
+  'postpartum.birthType': 'Tipo de parto',
+  'postpartum.gestationalAgeAtBirth': 'Edad gestacional al nacer',
+  'postpartum.birthWeight': 'Peso al nacer',
+  'postpartum.birthLength': 'Talla al nacer',
+  'postpartum.grams': '{weight} g',
+  'postpartum.centimetres': '{length} cm',
+  'postpartum.stage': 'Etapa de recuperación',
+  'postpartum.upcoming': 'Próximamente',
+  'postpartum.noUpcoming': 'No quedan revisiones ni hitos en el seguimiento de 12 semanas',
+  'postpartum.timeline': 'Seguimiento posparto',
+  'postpartum.checkup': 'Revisión',
+  'postpartum.recovery': 'Recuperación',
+  'postpartum.dayAfterBirth': 'Día {day}',
+  'postpartum.caption': 'Seguimiento día a día de las 12 semanas posteriores al parto',
+  'postpartum.dayColumn': 'Día',
+  'postpartum.dateColumn': 'Fecha',
+  'postpartum.weekColumn': 'Semana',
+  'postpartum.eventsColumn': 'Revisiones y recuperación',
+  'postpartum.noTimeline': 'No hay seguimiento posparto disponible',
+
+  // Newborn
+  'newborn.title': 'Edad del bebé',
+  'newborn.chronologicalAge': 'Edad',
+  'newborn.chronologicalAgeHelp': 'Contada desde el nacimiento. Las vacunas siguen esta edad.',
+  'newborn.ageDays': {
+    one: '{count} día',
+    other: '{count} días',
+  },
+  'newborn.ageWeeks': {
+    one: '{count} semana',
+    other: '{count} semanas',
+  },
+  'newborn.ageMonths': {
+    one: '{count} mes',
+    other: '{count} meses',
+  },
+  'newborn.atBirth': 'Al nacer',
+  'newborn.bornEarly': {
+    one: 'Nació {count} día antes de la fecha prevista ({date})',
+    other: 'Nació {count} días antes de la fecha prevista ({date})',
+  },
+  'newborn.correctedAge': 'Edad corregida',
+  'newborn.correctedAgeHelp':
+    'Contada desde la fecha prevista de parto. Úsala para el crecimiento y el desarrollo hasta los 2 años aproximadamente.',
+  'newborn.beforeDueDate': 'La edad corregida empieza en la fecha prevista, el {date}',
+  'newborn.postmenstrualAge': 'Edad posmenstrual',
+  'newborn.postmenstrualAgeHelp': 'Edad gestacional al nacer más el tiempo desde el nacimiento',
+  'newborn.upcoming': 'Próximas revisiones del bebé',
+  'newborn.noUpcoming': 'Ya se han hecho todas las revisiones y vacunas del primer año',
+  'newborn.timeline': 'Revisiones del primer año',
+  'newborn.scheduleNote':
+    'Según los calendarios de la AAP y los CDC de EE. UU.; el de tu país puede ser distinto. Los bebés prematuros se vacunan según su edad cronológica.',
+  'newborn.caption': 'Revisiones del bebé y vacunas del primer año',
+  'newborn.ageColumn': 'Edad',
+  'newborn.dateColumn': 'Fecha',
+  'newborn.eventColumn': 'Revisión o vacuna',
+  'newborn.detailsColumn': 'Detalles',
+  'newborn.visit': 'Revisión del bebé',
+  'newborn.vaccination': 'Vacuna',
+  'newborn.noTimeline': 'No hay calendario de revisiones disponible',
+
+  // Cycle tracking
+  'cycle.title': 'Seguimiento del ciclo',
+  'cycle.cycleDay': 'Día {day} del ciclo',
+  'cycle.predictions': 'Este ciclo',
+  'cycle.fertileToday': 'Hoy estás en tu ventana fértil',
+  'cycle.nextPeriod': 'Próxima regla',
+  'cycle.daysUntilPeriod': {
+    one: 'Dentro de {count} día',
+    other: 'Dentro de {count} días',
+  },
+  'cycle.daysLate': {
+    one: '{count} día de retraso',
+    other: '{count} días de retraso',
+  },
+  'cycle.fertileWindow': 'Ventana fértil',
+  'cycle.dateRange': '{start} – {end}',
+  'cycle.ovulation': 'Ovulación prevista',
+  'cycle.averageLength': 'Duración del ciclo',
+  'cycle.days': {
+    one: '{count} día',
+    other: '{count} días',
+  },
+  'cycle.averageFromLog': {
+    one: 'Según tu último ciclo registrado',
+    other: 'Media de tus últimos {count} ciclos registrados',
+  },
+  'cycle.averageUsual': 'Tu duración habitual hasta que registres dos reglas',
+  'cycle.predictionNote':
+    'Las predicciones suponen que la ovulación ocurre una fase lútea antes de la siguiente regla. Los ciclos varían, así que tómalas como estimaciones.',
+  'cycle.pregnantIntro':
+    '¿Test positivo? Empieza el calendario del embarazo desde tu última regla, el {date}.',
+  'cycle.pregnant': 'Estoy embarazada',
+  'cycle.periodLog': 'Registro de reglas',
+  'cycle.periodStart': 'Primer día de la regla',
+  'cycle.logPeriod': 'Registrar regla',
+  'cycle.cycleLength': {
+    one: 'Ciclo de {count} día',
+    other: 'Ciclo de {count} días',
+  },
+  'cycle.remove': 'Eliminar',
+  'cycle.removeAria': 'Eliminar la regla que empezó el {date}',
+  'cycle.upcoming': 'Próximos ciclos',
+  'cycle.expectedPeriod': 'Regla prevista',
+
+  // Profiles
+  'profile.unnamed': 'Mi embarazo',
+
+  // App lock and encryption
+  'lock.unlockTitle': 'Desbloquea tu calendario',
+  'lock.unlockIntro':
+    'Tus datos están cifrados en este dispositivo. Introduce tu frase de contraseña para abrirlos.',
+  'lock.recoverTitle': 'Desbloquear con clave de recuperación',
+  'lock.recoverIntro':
+    'Elige tu archivo de clave de recuperación y crea una nueva frase de contraseña.',
+  'lock.enableTitle': 'Cifra tus datos',
+  'lock.enableIntro':
+    'Tu calendario, registros y fotos se cifrarán en este dispositivo con una frase de contraseña. La necesitarás cada vez que abras la aplicación.',
+  'lock.enableWarning':
+    'Si olvidas tu frase de contraseña, solo podrás desbloquear tus datos con el archivo de clave de recuperación. Descárgalo después de activar el cifrado y guárdalo en un lugar seguro.',
+  'lock.changeTitle': 'Cambiar frase de contraseña',
+  'lock.changeIntro': 'Introduce tu frase de contraseña actual y elige una nueva.',
+  'lock.disableTitle': 'Desactivar cifrado',
+  'lock.disableIntro':
+    'Tus datos se guardarán sin cifrar en este dispositivo. Introduce tu frase de contraseña para confirmar.',
+  'lock.passphrase': 'Frase de contraseña',
+  'lock.currentPassphrase': 'Frase de contraseña actual',
+  'lock.newPassphrase': 'Nueva frase de contraseña',
+  'lock.confirmPassphrase': 'Confirmar frase de contraseña',
+  'lock.recoveryKeyFile': 'Archivo de clave de recuperación',
+  'lock.unlock': 'Desbloquear',
+  'lock.recover': 'Desbloquear y crear frase',
+  'lock.enable': 'Cifrar',
+  'lock.change': 'Cambiar frase de contraseña',
+  'lock.disable': 'Desactivar cifrado',
+  'lock.useRecoveryKey': 'Usar clave de recuperación',
+  'lock.backToPassphrase': 'Usar frase de contraseña',
+  'lock.wrongPassphrase': 'La frase de contraseña no es correcta.',
+  'lock.invalidRecoveryKey': 'Este archivo de clave de recuperación no corresponde a tus datos.',
+  'lock.encryptionFailed': 'No se pudo actualizar el cifrado. Inténtalo de nuevo.',
+
+  // Backup and restore
+  'backup.title': 'Restaurar copia de seguridad',
+  'backup.intro': 'Copia de seguridad del {date}. Revisa qué cambiará antes de restaurarla.',
+  'backup.current': 'Ahora',
+  'backup.afterRestore': 'Después de restaurar',
+  'backup.lmpDate': 'Última regla',
+  'backup.theme': 'Tema',
+  'backup.logEntries': 'Reglas y ecografías registradas',
+  'backup.journalEntries': 'Entradas del diario',
+  'backup.healthLogEntries': 'Registros de salud',
+  'backup.mediaItems': 'Fotos y archivos',
+  'backup.profiles': 'Perfiles',
+  'backup.none': 'Sin definir',
+  'backup.warning':
+    'Al restaurar se reemplazan tus preferencias, perfiles, diarios, registros de salud y fotos actuales. Se pierde todo lo guardado después de hacer la copia de seguridad.',
+  'backup.restore': 'Restaurar',
+  'backup.malformed': 'Este archivo no es una copia de seguridad del calendario de embarazo.',
+  'backup.newerVersion':
+    'Esta copia de seguridad se hizo con una versión más reciente de la aplicación. Actualiza la aplicación para restaurarla.',
+  'backup.checksumMismatch':
+    'Este archivo de copia de seguridad está dañado o se modificó después de crearse.',
+  'backup.invalidData': 'Esta copia de seguridad contiene datos que no se pueden restaurar.',
+
+  // Calendar table
+  'table.title': 'Calendario de embarazo',
+  'table.subtitle': 'Cronología completa hasta las 42 semanas con hitos y citas',
+  'table.filterByMonth': 'Filtrar por mes:',
+  'table.filterAria': 'Filtrar el calendario de embarazo por mes',
+  'table.allMonths': {
+    one: 'Todos los meses ({count} día)',
+    other: 'Todos los meses ({count} días)',
+  },
+  'table.showing': {
+    one: 'Mostrando {count} día ({range})',
+    other: 'Mostrando {count} días ({range})',
+  },
+  'table.clearFilterAria': 'Quitar filtro de mes',
+  'table.clearFilter': 'Quitar filtro',
+  'table.dayColumn': 'Día n.º',
+  'table.dateColumn': 'Fecha',
+  'table.gestationalAgeColumn': 'Edad gestacional',
+  'table.trimesterColumn': 'Trimestre',
+  'table.developmentColumn': 'Desarrollo y notas',
+  'table.fetalStatsColumn': 'Datos fetales',
+  'table.appointmentsColumn': 'Citas',
+  'table.day': 'Día {day}',
+  'table.today': 'Hoy',
+  'table.preview': 'Vista previa',
+  'table.growthScan': 'Ecografía de crecimiento',
+  'table.growthScanFor': 'Ecografía de crecimiento de {baby}',
+  'table.scan': 'Ecografía',
+  'table.estimatedFetalWeight': 'PFE {weight} g',
+  'table.totalDays': 'Días totales:',
+  'table.milestones': 'Hitos:',
+  'table.appointments': 'Citas:',
+  'table.legendTitle': 'Leyenda de trimestres:',
+  'table.legendFirst': 'Primer trimestre (semanas 1-12)',
+  'table.legendSecond': 'Segundo trimestre (semanas 13-27)',
+  'table.legendThird': 'Tercer trimestre (semanas 28-40)',
+  'table.noDataDescription': 'Configura los datos de tu embarazo para ver el calendario detallado.',
+  'table.weight': 'Peso:',
+  'table.crownRumpLength': 'LCC',
+  'table.length': 'Longitud',
+  'table.range': 'P10–P90: {low}–{high} {unit}',
+
+  // As-of date preview
+  'preview.title': 'Modo de vista previa',
+  'preview.showing': 'Mostrando tu embarazo a fecha de {date}',
+  'preview.date': 'Fecha de la vista previa',
+  'preview.backToToday': 'Volver a hoy',
+  'preview.open': 'Ver otra fecha',
+  'preview.showAsOf': 'Mostrar mi embarazo a fecha de',
+  'preview.dueDate': 'Fecha de parto',
+  'preview.outOfRange': 'Elige una fecha entre tu FUM y las 42 6/7 semanas',
+
+  // Floating navigation
+  'nav.summaryAria': 'Cambiar a la vista de resumen',
+  'nav.summary': 'Resumen',
+  'nav.tableAria': 'Cambiar a la vista de tabla',
+  'nav.calendar': 'Calendario',
+  'nav.exportAria': 'Opciones de exportación',
+  'nav.exporting': 'Exportando...',
+  'nav.export': 'Exportar',
+  'nav.exportPdf': 'Exportar como PDF',
+  'nav.exportPdfDescription': 'Formato imprimible (~{size} KB)',
+  'nav.exportExcel': 'Exportar como Excel',
+  'nav.exportExcelDescription': 'Formato de hoja de cálculo (~{size} KB)',
+  'nav.exportSuccess': '✅ ¡Calendario de embarazo exportado como {format}!',
+  'nav.exportFailed': '❌ No se pudo exportar como {format}. Inténtalo de nuevo.',
+
+  // Application shell
+  'app.loading': 'Cargando los datos del calendario de embarazo',
+  'app.errorTitle': 'Algo ha salido mal',
+  'app.retry': 'Reintentar',
+  'app.setupComplete': 'El calendario de embarazo se ha configurado correctamente',
+  'app.savePreferencesFailed': 'No se pudieron guardar tus preferencias. Inténtalo de nuevo.',
+  'app.loadPreferencesFailed': 'No se pudieron cargar tus preferencias. Recarga la página.',
+  'app.storageMigrationFailed':
+    'No se pudieron actualizar tus datos guardados para esta versión de la aplicación. Se han conservado sin cambios; inténtalo de nuevo o actualiza la aplicación.',
+  'app.switchedToSummary': 'Cambiado a la vista de resumen',
+  'app.switchedToTable': 'Cambiado a la vista de tabla',
+  'app.themeChanged': 'Tema cambiado a {theme}',
+  'app.datingScanSaved': 'Ecografía de datación guardada y fecha de parto comprobada',
+  'app.datingScanRemoved': 'Ecografía de datación eliminada',
+  'app.datingScanFailed': 'No se pudo guardar tu ecografía de datación. Inténtalo de nuevo.',
+  'app.growthScansUpdated': 'Ecografías de crecimiento actualizadas',
+  'app.growthScanFailed': 'No se pudo guardar tu ecografía de crecimiento. Inténtalo de nuevo.',
+  'app.scheduleUpdated': 'Calendario de citas actualizado',
+  'app.guidelineFailed': 'No se pudo guardar tu guía de atención. Inténtalo de nuevo.',
+  'app.leavePlanSaved': 'Plan de permiso actualizado',
+  'app.leavePlanRemoved': 'Plan de permiso eliminado',
+  'app.leavePlanFailed': 'No se pudo guardar tu plan de permiso. Inténtalo de nuevo.',
+  'app.birthSaved': 'Parto registrado. Ahora se siguen las semanas posparto.',
+  'app.birthRemoved': 'Registro del parto eliminado. De vuelta al seguimiento del embarazo.',
+  'app.birthFailed': 'No se pudo guardar el registro del parto. Inténtalo de nuevo.',
+  'app.modeSwitch': 'Elige qué mostrar',
+  'app.modePostpartum': 'Posparto',
+  'app.modeArchive': 'Archivo del embarazo',
+  'app.archiveNotice': 'Estás viendo el calendario de tu embarazo como archivo.',
+  'app.showingPostpartum': 'Mostrando el seguimiento posparto',
+  'app.showingArchive': 'Mostrando el archivo del embarazo',
+  'app.periodLogUpdated': 'Registro de reglas actualizado',
+  'app.periodLogFailed': 'No se pudo guardar el registro de reglas. Inténtalo de nuevo.',
+  'app.pregnancyStarted': 'Calendario del embarazo iniciado desde tu última regla',
+  'app.pregnancyStartFailed': 'No se pudo iniciar el calendario del embarazo. Inténtalo de nuevo.',
+  'app.datesShownAs': 'Las fechas se muestran ahora como {date}',
+  'app.dateFormatFailed': 'No se pudo guardar tu formato de fecha. Inténtalo de nuevo.',
+  'app.languageChanged': 'Idioma cambiado a {language}',
+  'app.languageFailed': 'No se pudo guardar tu idioma. Inténtalo de nuevo.',
+  'app.resetConfirm':
+    '¿Seguro que quieres restablecer todas las preferencias? Se borrarán los datos de tu embarazo y volverás a la pantalla de configuración.',
+  'app.resetDone': 'Se han restablecido las preferencias',
+  'app.exporting': 'Exportando el calendario de embarazo como {format}',
+  'app.profileCreated': 'Perfil {name} creado',
+  'app.profileSwitched': 'Cambiado a {name}',
+  'app.profileRenamed': 'Perfil renombrado como {name}',
+  'app.profileArchived': '{name} se ha movido al archivo',
+  'app.profileRestored': '{name} se ha recuperado del archivo',
+  'app.profileDeleteConfirm':
+    '¿Eliminar el perfil "{name}" y todos sus datos? Esta acción no se puede deshacer.',
+  'app.profileDeleted': 'Perfil {name} eliminado',
+  'app.profileFailed': 'No se pudieron actualizar tus perfiles. Inténtalo de nuevo.',
+  'app.unlocked': 'Calendario desbloqueado',
+  'app.locked': 'Calendario bloqueado',
+  'app.encryptionEnabled': 'Tus datos ahora están cifrados',
+  'app.encryptionDisabled': 'Cifrado desactivado',
+  'app.passphraseChanged': 'Frase de contraseña cambiada',
+  'app.recoveryKeyDownloaded': 'Clave de recuperación descargada',
+  'app.recoveryKeyFailed': 'No se pudo crear la clave de recuperación. Inténtalo de nuevo.',
+  'app.encryptedSaveFailed':
+    'No se pudieron guardar tus últimos cambios, por ejemplo porque el almacenamiento está lleno. Se perderán si cierras la aplicación.',
+  'app.backupDownloaded': 'Copia de seguridad descargada',
+  'app.backupFailed': 'No se pudo crear la copia de seguridad. Inténtalo de nuevo.',
+  'app.backupRestored': 'Copia de seguridad restaurada',
+  'app.backupRestoreFailed':
+    'No se pudo restaurar la copia de seguridad. Tus datos no se modificaron.',
+  'app.backupLocked': 'Desbloquea tu calendario antes de hacer o restaurar una copia de seguridad.',
+
+  // PDF and Excel exports
+  'export.title': 'Calendario de embarazo',
+  'export.generatedOn': 'Generado el: {date}',
+  'export.previewAsOf': 'Vista previa a fecha de: {date}',
+  'export.profile': 'Perfil: {name}',
+  'export.profileLabel': 'Perfil',
+  'export.summary': 'Resumen del embarazo',
+  'export.previewAsOfLabel': 'Vista previa a fecha de',
+  'export.currentGestationalAge': 'Edad gestacional actual',
+  'export.currentTrimester': 'Trimestre actual',
+  'export.daysCompleted': 'Días completados',
+  'export.daysRemaining': 'Días restantes',
+  'export.daysOverdue': 'Días de retraso',
+  'export.termStatus': 'Estado del término',
+  'export.progress': 'Progreso',
+  'export.progressPercentage': 'Porcentaje de progreso',
+  'export.estimatedDueDate': 'Fecha probable de parto',
+  'export.datedBy': 'Datado por',
+  'export.dueDateRule': 'Regla de la fecha de parto',
+  'export.pregnancyType': 'Tipo de embarazo',
+  'export.careGuideline': 'Guía de atención',
+  'export.deliveryWindow': 'Periodo de parto',
+  'export.estimatedFetalWeight': 'Peso fetal estimado',
+  'export.estimatedFetalLength': 'Longitud fetal estimada',
+  'export.estimatedFetalWeightGrams': 'Peso fetal estimado (g)',
+  'export.estimatedFetalLengthCm': 'Longitud fetal estimada (cm)',
+  'export.weightRange': '{p50} g (P10-P90: {p10}-{p90} g)',
+  'export.lengthRange': '{p50} cm (P10-P90: {p10}-{p90} cm)',
+  'export.thisWeek': 'Esta semana (semana {week})',
+  'export.sizeComparison': 'Tamaño comparable a',
+  'export.babysDevelopment': 'Desarrollo del bebé',
+  'export.changesForYou': 'Cambios para ti',
+  'export.originalDueDate': 'Fecha de parto original',
+  'export.ultrasoundDueDate': 'Fecha de parto por ecografía',
+  'export.redating': 'Redatación',
+  'export.upcomingMilestones': 'Próximos hitos',
+  'export.nextAppointments': 'Próximas citas',
+  'export.keyDates': 'Fechas clave',
+  'export.keyDateLine': '{label}: {date} ({age})',
+  'export.leavePlan': 'Plan de permiso',
+  'export.leaveRules': 'Normas del permiso',
+  'export.leaveLength': 'Duración del permiso',
+  'export.employerNotice': 'Aviso a la empresa',
+  'export.disclaimer':
+    'AVISO MÉDICO: Este calendario se basa en los cálculos de un embarazo estándar de 40 semanas desde tu última menstruación (FUM). Todas las fechas e hitos son solo estimaciones. Cada embarazo es diferente. Consulta siempre a tu profesional sanitario para recibir consejo médico personalizado y un seguimiento adecuado del embarazo.',
+  'export.calendar': 'Calendario de embarazo',
+  'export.day': 'Día',
+  'export.date': 'Fecha',
+  'export.week': 'Semana',
+  'export.trimester': 'Trimestre',
+  'export.development': 'Desarrollo',
+  'export.weekAndDay': '{week}s {day}d',
+  'export.weeklyDevelopment': 'Desarrollo semana a semana',
+  'export.weekHeading': 'Semana {week} (desde el {date}): {description}',
+  'export.sizeComparisonDetail': 'Tamaño comparable a: {size}',
+  'export.babyDetail': 'Bebé: {items}',
+  'export.youDetail': 'Tú: {items}',
+  'export.summarySheet': 'Resumen',
+  'export.calendarSheet': 'Calendario',
+  'export.appointmentsSheet': 'Citas',
+  'export.milestonesSheet': 'Hitos',
+  'export.growthScansSheet': 'Ecografías de crecimiento',
+  'export.keyDatesSheet': 'Fechas clave',
+  'export.leaveSheet': 'Plan de permiso',
+  'export.dayNumber': 'Número de día',
+  'export.gestationalWeek': 'Semana gestacional',
+  'export.dayOfWeek': 'Día de la semana',
+  'export.gestationalAge': 'Edad gestacional',
+  'export.month': 'Mes',
+  'export.year': 'Año',
+  'export.termCategory': 'Categoría de término',
+  'export.fetalWeight10th': 'Peso fetal P10 (g)',
+  'export.fetalWeight50th': 'Peso fetal P50 (g)',
+  'export.fetalWeight90th': 'Peso fetal P90 (g)',
+  'export.lengthType': 'Tipo de longitud',
+  'export.fetalLength10th': 'Longitud fetal P10 (cm)',
+  'export.fetalLength50th': 'Longitud fetal P50 (cm)',
+  'export.fetalLength90th': 'Longitud fetal P90 (cm)',
+  'export.crownRump': 'Cráneo-caudal',
+  'export.crownHeel': 'Cráneo-talón',
+  'export.from': 'Desde',
+  'export.to': 'Hasta',
+  'export.weeks': 'Semanas',
+  'export.appointment': 'Cita',
+  'export.keyDate': 'Fecha clave',
+  'export.description': 'Descripción',
+  'export.leave': 'Permiso',
+  'export.developmentMilestone': 'Hito del desarrollo',
+  'export.keyDevelopments': 'Desarrollos clave',
+  'export.maternalChanges': 'Cambios maternos',
+  'export.baby': 'Bebé',
+  'export.measurementMm': '{label} (mm)',
+  'export.measurementPercentile': 'Percentil {label}',
+  'export.weightPercentile': 'Percentil de peso',
+  'export.formula': 'Fórmula',
+  'export.preview': {
+    one: 'La exportación incluye {count} día de datos del calendario de embarazo',
+    other: 'La exportación incluye {count} días de datos del calendario de embarazo',
+  },
+};
@@ -15,18 +15,738 @@ export type ExportFormat = 'pdf' | 'excel';
 /** Trimester classification based on gestational age */
 export type Trimester = 'first' | 'second' | 'third';
 
+/** ACOG term classification by gestational age (birth timing categories) */
+export type TermCategory = 'preterm' | 'early-term' | 'full-term' | 'late-term' | 'post-term';
+
+/** Method used to establish the pregnancy dating */
+export type DatingMethod = 'lmp' | 'conception' | 'ivf-day3' | 'ivf-day5' | 'ultrasound-crl';
+
+/** Number of babies carried in the pregnancy */
+export type Plurality = 'singleton' | 'twins' | 'triplets';
+
+/** Prenatal care guideline the appointment schedule follows (US, UK or WHO) */
+export type GuidelineProfile = 'acog' | 'nice' | 'who';
+
+/** How dates are shown in the app, exports and filenames */
+export type DateFormat = 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD' | 'long' | 'locale';
+
+/** Languages the app and its exports are translated into */
+export type Language = 'en' | 'es' | 'ar';
+
+/** Writing direction of a language */
+export type TextDirection = 'ltr' | 'rtl';
+
+/** Maternity leave rule sets the leave planner supports */
+export type LeaveJurisdiction = 'us-fmla' | 'uk-sml' | 'de-mutterschutz';
+
+/** Dates in a leave plan that are marked on the calendar */
+export type LeaveEventType =
+  | 'notification-deadline'
+  | 'earliest-start'
+  | 'planned-start'
+  | 'latest-start'
+  | 'return';
+
+/** How the baby was delivered */
+export type BirthType = 'vaginal' | 'assisted-vaginal' | 'caesarean';
+
+/** Whether the app is tracking cycles before conception, the pregnancy or the postpartum weeks */
+export type AppMode = 'preconception' | 'pregnancy' | 'postpartum';
+
+/** Kinds of entries on the postpartum timeline */
+export type PostpartumEventType = 'checkup' | 'recovery';
+
+/** Kinds of entries on the well-baby timeline */
+export type WellBabyEventType = 'visit' | 'vaccination';
+
+/** Writing systems the PDF export embeds a font for */
+export type PdfScript = 'latin' | 'greek' | 'cyrillic' | 'hebrew' | 'arabic' | 'devanagari' | 'cjk';
+
+/**
+ * Dating information entered by the user
+ * Every method is converted into an equivalent LMP date for calculations
+ */
+export interface PregnancyDating {
+  /** Method used to date the pregnancy */
+  method: DatingMethod;
+  /** Reference date for the method (LMP, conception, transfer or scan date) */
+  referenceDate: string; // ISO date string
+  /** Crown-rump length in millimeters (first-trimester ultrasound only) */
+  crownRumpLengthMm?: number;
+}
+
+/**
+ * Dating ultrasound entered after setup to check the due date
+ * Either the crown-rump length or the gestational age reported by the scan is required
+ */
+export interface UltrasoundDatingScan {
+  /** Date the scan was performed */
+  scanDate: string; // ISO date string
+  /** Crown-rump length in millimeters */
+  crownRumpLengthMm?: number;
+  /** Gestational age reported on the scan, in total days */
+  gestationalAgeDays?: number;
+}
+
+/** Standard ultrasound biometry measurements */
+export type BiometryParameter = 'bpd' | 'hc' | 'ac' | 'fl';
+
+/**
+ * Biometry measurements from one growth scan report
+ * Abdominal circumference and femur length are required to estimate fetal weight
+ */
+export interface BiometryEntry {
+  /** Unique identifier of the entry */
+  id: string;
+  /** Date the scan was performed */
+  scanDate: string; // ISO date string
+  /** Baby the measurements belong to (multiple pregnancies only) */
+  babyLabel?: string;
+  /** Biparietal diameter in millimeters */
+  bpdMm?: number;
+  /** Head circumference in millimeters */
+  hcMm?: number;
+  /** Abdominal circumference in millimeters */
+  acMm: number;
+  /** Femur length in millimeters */
+  flMm: number;
+}
+
+/**
+ * One biometry measurement compared with the reference for its gestational age
+ */
+export interface BiometryMeasurementResult {
+  /** Measured parameter */
+  parameter: BiometryParameter;
+  /** Display label (e.g. "HC") */
+  label: string;
+  /** Measured value in millimeters */
+  valueMm: number;
+  /** Percentile for the gestational age (undefined outside the reference range) */
+  percentile?: number;
+}
+
+/**
+ * Interpreted biometry scan: measurement percentiles and estimated fetal weight
+ */
+export interface BiometryResult {
+  /** Stored scan entry */
+  entry: BiometryEntry;
+  /** Formatted scan date */
+  formattedScanDate: string;
+  /** Display label of the baby the scan is for (multiples only) */
+  babyLabel?: string;
+  /** Gestational age on the scan date in format "X weeks Y days" */
+  gestationalAge: string;
+  /** Gestational age on the scan date in days */
+  gestationalAgeDays: number;
+  /** Measurement percentiles */
+  measurements: BiometryMeasurementResult[];
+  /** Estimated fetal weight in grams */
+  estimatedFetalWeight: number;
+  /** Estimated fetal weight percentile (undefined outside the reference range) */
+  weightPercentile?: number;
+  /** Formula used for the estimated fetal weight */
+  weightFormula: string;
+}
+
+/**
+ * Outcome of comparing a dating ultrasound with the current dating
+ * Follows ACOG discrepancy thresholds by gestational-age band
+ */
+export interface RedatingAssessment {
+  /** Due date from the original dating method */
+  originalDueDate: Date;
+  /** Formatted original due date */
+  formattedOriginalDueDate: string;
+  /** Due date implied by the ultrasound */
+  ultrasoundDueDate: Date;
+  /** Formatted ultrasound due date */
+  formattedUltrasoundDueDate: string;
+  /** Best obstetric estimate of the due date */
+  bestEstimateDueDate: Date;
+  /** Ultrasound due date minus original due date, in days */
+  discrepancyDays: number;
+  /** Maximum accepted discrepancy for the gestational-age band (null when not applicable) */
+  thresholdDays: number | null;
+  /** Whether the pregnancy was re-dated to the ultrasound */
+  redated: boolean;
+  /** Explanation of the decision */
+  reason: string;
+}
+
+/**
+ * Leave planner choices
+ */
+export interface LeaveSettings {
+  /** Rule set the plan follows */
+  jurisdiction: LeaveJurisdiction;
+  /** Chosen first day of leave; absent to use the rule set's usual start */
+  plannedStartDate?: string; // ISO date string
+}
+
+/**
+ * One date in a leave plan
+ */
+export interface LeaveEvent {
+  /** Which date of the plan this is */
+  type: LeaveEventType;
+  /** Display label */
+  label: string;
+  /** Calendar date */
+  date: Date;
+  /** Formatted date */
+  formatted: string;
+}
+
+/**
+ * Leave dates worked out from the due date under a jurisdiction's rules
+ */
+export interface LeavePlan {
+  /** Rule set the plan follows */
+  jurisdiction: LeaveJurisdiction;
+  /** Display label of the rule set (e.g. "United Kingdom (Statutory Maternity Leave)") */
+  label: string;
+  /** Summary of the rules the dates are based on */
+  description: string;
+  /** First day leave may start */
+  earliestStart: Date;
+  /** Last day leave may start */
+  latestStart: Date;
+  /** Chosen first day of leave, kept between the earliest and latest start */
+  plannedStart: Date;
+  /** Last day to tell the employer; absent where the law sets no deadline */
+  notificationDeadline?: Date;
+  /** How and when the employer must be told */
+  notificationRule: string;
+  /** First day back at work after the full leave */
+  returnDate: Date;
+  /** Length of the full leave in weeks */
+  durationWeeks: number;
+  /** Plan dates in calendar order */
+  events: LeaveEvent[];
+}
+
+/**
+ * Details of the birth, recorded once the baby has arrived
+ */
+export interface BirthRecord {
+  /** Delivery date as YYYY-MM-DD */
+  deliveryDate: string;
+  /** How the baby was delivered */
+  birthType: BirthType;
+  /** Birth weight in grams (first baby for multiples) */
+  birthWeightGrams?: number;
+  /** Birth length in centimetres (first baby for multiples) */
+  birthLengthCm?: number;
+}
+
+/**
+ * Checkup or recovery milestone on the postpartum timeline
+ */
+export interface PostpartumEvent {
+  /** Checkup or recovery milestone */
+  type: PostpartumEventType;
+  /** Display title */
+  title: string;
+  /** What to expect */
+  description: string;
+  /** Days after the birth (the birth day is day 0) */
+  dayAfterBirth: number;
+  /** Calendar date */
+  date: Date;
+  /** Date formatted with the user's date format */
+  formatted: string;
+  /** Whether the date is before today */
+  isPast: boolean;
+}
+
+/**
+ * One day of the 12-week postpartum timeline
+ */
+export interface PostpartumDay {
+  /** Days after the birth (the birth day is day 0) */
+  dayAfterBirth: number;
+  /** Calendar date */
+  date: Date;
+  /** Date formatted with the user's date format */
+  formattedDate: string;
+  /** Postpartum week (1-12) */
+  postpartumWeek: number;
+  /** Day within the postpartum week (1-7) */
+  dayOfWeek: number;
+  /** Checkups and recovery milestones falling on this day */
+  events: PostpartumEvent[];
+}
+
+/**
+ * Postpartum ("fourth trimester") summary as of today
+ */
+export interface PostpartumSummary {
+  /** Delivery date */
+  deliveryDate: Date;
+  /** Delivery date formatted with the user's date format */
+  formattedDeliveryDate: string;
+  /** Display label of the birth type */
+  birthTypeLabel: string;
+  /** Birth weight in grams */
+  birthWeightGrams?: number;
+  /** Birth length in centimetres */
+  birthLengthCm?: number;
+  /** Gestational age on the delivery date */
+  gestationalAgeAtBirth: string;
+  /** Days since the birth (0 on the birth day) */
+  daysSinceBirth: number;
+  /** Current postpartum week (1-12, capped at 12) */
+  postpartumWeek: number;
+  /** Day within the current postpartum week (1-7) */
+  postpartumDayOfWeek: number;
+  /** Progress through the 12-week timeline (0-100) */
+  progressPercentage: number;
+  /** Whether the 12-week timeline has ended */
+  isTimelineComplete: boolean;
+  /** Title of the current recovery stage */
+  stageTitle: string;
+  /** What to expect in the current recovery stage */
+  stageDescription: string;
+  /** Next checkups and milestones */
+  upcomingEvents: PostpartumEvent[];
+  /** Every checkup and milestone of the timeline */
+  events: PostpartumEvent[];
+}
+
+/**
+ * Age of the baby counted in whole days, weeks and calendar months
+ */
+export interface BabyAge {
+  /** Whole days */
+  days: number;
+  /** Whole weeks */
+  weeks: number;
+  /** Whole calendar months */
+  months: number;
+}
+
+/**
+ * Well-baby visit or vaccination in the first year
+ */
+export interface WellBabyEvent {
+  /** Visit or vaccination */
+  type: WellBabyEventType;
+  /** Display title */
+  title: string;
+  /** What happens */
+  description: string;
+  /** Chronological age the event is due at (e.g. "2 months") */
+  ageLabel: string;
+  /** Calendar date */
+  date: Date;
+  /** Date formatted with the user's date format */
+  formatted: string;
+  /** Whether the date is before today */
+  isPast: boolean;
+}
+
+/**
+ * Newborn age and first-year well-baby timeline as of today
+ */
+export interface NewbornSummary {
+  /** Age counted from the delivery date */
+  chronologicalAge: BabyAge;
+  /** Gestational age on the delivery date */
+  gestationalAgeAtBirth: string;
+  /** Whether the baby was born before 37 weeks */
+  isPreterm: boolean;
+  /** Days between the birth and the due date (0 when born on or after it) */
+  daysEarly: number;
+  /** Due date formatted with the user's date format */
+  formattedDueDate: string;
+  /** Age counted from the due date (preterm babies, once the due date has passed) */
+  correctedAge?: BabyAge;
+  /** Gestational age at birth plus chronological age (preterm babies only) */
+  postmenstrualAge?: string;
+  /** Next well-baby visits and vaccinations */
+  upcomingEvents: WellBabyEvent[];
+  /** Every visit and vaccination of the first year */
+  events: WellBabyEvent[];
+}
+
+/**
+ * Predicted menstrual cycle while trying to conceive
+ */
+export interface PredictedCycle {
+  /** Predicted first day of the period */
+  periodStart: Date;
+  /** Period start formatted with the user's date format */
+  formattedPeriodStart: string;
+  /** Predicted ovulation day */
+  ovulation: Date;
+  /** Ovulation day formatted with the user's date format */
+  formattedOvulation: string;
+  /** First day of the fertile window (5 days before ovulation) */
+  fertileWindowStart: Date;
+  /** Fertile window start formatted with the user's date format */
+  formattedFertileWindowStart: string;
+  /** Last day of the fertile window (the ovulation day) */
+  fertileWindowEnd: Date;
+  /** Fertile window end formatted with the user's date format */
+  formattedFertileWindowEnd: string;
+}
+
+/**
+ * Logged period in the cycle history
+ */
+export interface LoggedPeriod {
+  /** First day of the period as YYYY-MM-DD */
+  startDate: string;
+  /** First day formatted with the user's date format */
+  formatted: string;
+  /** Days until the next logged period (absent for the latest period) */
+  cycleLengthDays?: number;
+}
+
+/**
+ * Cycle tracking summary as of today
+ */
+export interface CycleSummary {
+  /** First day of the latest logged period */
+  lastPeriodStart: Date;
+  /** Latest period start formatted with the user's date format */
+  formattedLastPeriodStart: string;
+  /** Day of the current cycle (the period's first day is day 1) */
+  cycleDay: number;
+  /** Cycle length the predictions use */
+  averageCycleLength: number;
+  /** Logged cycles the average is based on (0 when the usual or standard length is used) */
+  loggedCycleCount: number;
+  /** Luteal phase length the predictions use */
+  lutealPhaseDays: number;
+  /** Days until the next predicted period (0 once it is due) */
+  daysUntilNextPeriod: number;
+  /** Whether the predicted period is overdue without being logged */
+  isPeriodLate: boolean;
+  /** Days the predicted period is overdue (0 unless it is late) */
+  daysLate: number;
+  /** Whether today is in the predicted fertile window */
+  isFertileToday: boolean;
+  /** The current cycle followed by the next predicted cycles */
+  predictions: PredictedCycle[];
+  /** Logged periods, newest first */
+  periods: LoggedPeriod[];
+}
+
 /**
  * User preferences stored in localStorage
  */
 export interface UserPreferences {
-  /** Last Menstrual Period date - basis for all calculations */
+  /**
+   * Last Menstrual Period date (or equivalent LMP) - basis for all calculations
+   * Empty while tracking cycles before conception
+   */
   lmpDate: string; // ISO date string
+  /** How the pregnancy was dated; absent for legacy LMP-only preferences */
+  dating?: PregnancyDating;
+  /** Average menstrual cycle length in days (LMP dating or cycle tracking, defaults to 28) */
+  cycleLengthDays?: number;
+  /** Luteal phase length in days (LMP dating or cycle tracking, defaults to 14) */
+  lutealPhaseDays?: number;
+  /** First days of the periods logged before conception (YYYY-MM-DD, oldest first) */
+  periodLog?: string[];
+  /** Dating ultrasound used to confirm or revise the due date */
+  datingScan?: UltrasoundDatingScan;
+  /** Growth scan biometry log */
+  biometry?: BiometryEntry[];
+  /** Number of babies; absent for legacy preferences (singleton) */
+  plurality?: Plurality;
+  /** Prenatal care guideline for appointments; absent for legacy preferences (ACOG) */
+  guidelineProfile?: GuidelineProfile;
+  /** Leave planner choices; absent until a leave plan is set up */
+  leave?: LeaveSettings;
+  /** Birth details; absent while the pregnancy is ongoing */
+  birth?: BirthRecord;
   /** Selected theme color */
   themeColor: ThemeColor;
   /** Preferred view mode */
   viewMode: ViewMode;
-  /** Date format preference (future enhancement) */
-  dateFormat?: string;
+  /** Date format preference; absent for legacy preferences (MM/DD/YYYY) */
+  dateFormat?: DateFormat;
+  /** Display language; absent for legacy preferences (English) */
+  language?: Language;
+}
+
+/**
+ * Named profile tracking one pregnancy, with its own preferences and logs
+ */
+export interface Profile {
+  /** Unique identifier, also naming the profile's storage namespace */
+  id: string;
+  /** Display name; empty for the profile created from data saved before profiles existed */
+  name: string;
+  /** Whether the pregnancy is completed and archived */
+  archived: boolean;
+  /** Creation timestamp (ISO) */
+  createdAt: string;
+}
+
+/**
+ * Profiles of the installation and the one in use, stored in localStorage
+ */
+export interface ProfileRegistry {
+  /** Identifier of the profile in use */
+  activeProfileId: string;
+  /** All profiles, in creation order */
+  profiles: Profile[];
+}
+
+/**
+ * Data encrypted with AES-GCM, stored as base64 text
+ */
+export interface EncryptedPayload {
+  /** Initialization vector, unique per encryption */
+  iv: string;
+  /** Ciphertext including the authentication tag */
+  data: string;
+}
+
+/**
+ * Wrapped data key stored in localStorage while encryption is on
+ * The data key encrypts the stored data; a key derived from the passphrase encrypts the
+ * data key, so changing the passphrase only re-encrypts the data key
+ */
+export interface EncryptionEnvelope {
+  /** Envelope format version */
+  version: 1;
+  /** PBKDF2-SHA-256 parameters of the passphrase-derived key */
+  kdf: { iterations: number; salt: string };
+  /** Raw data key encrypted with the passphrase-derived key */
+  wrappedKey: EncryptedPayload;
+}
+
+/**
+ * Recovery key file, holding the data key to unlock without the passphrase
+ */
+export interface RecoveryKeyFile {
+  /** File type marker */
+  type: 'pregnancy-calendar-recovery-key';
+  /** File format version */
+  version: 1;
+  /** Creation timestamp (ISO) */
+  createdAt: string;
+  /** Raw data key (base64) */
+  key: string;
+}
+
+/**
+ * Purpose of the passphrase form
+ */
+export type PassphraseFormMode = 'unlock' | 'recover' | 'enable' | 'change' | 'disable';
+
+/**
+ * Values entered in the passphrase form; fields the mode does not ask for are empty
+ */
+export interface PassphraseFormValue {
+  /** Current passphrase */
+  passphrase: string;
+  /** New passphrase */
+  newPassphrase: string;
+  /** Contents of the recovery key file */
+  recoveryKey: string;
+}
+
+/**
+ * Backup file of the app's stored preferences, profiles and data store records
+ */
+export interface BackupFile {
+  /** File type marker */
+  type: 'pregnancy-calendar-backup';
+  /** File format version */
+  version: number;
+  /** Storage schema version the data follows */
+  schemaVersion: number;
+  /** Creation timestamp (ISO) */
+  createdAt: string;
+  /** SHA-256 of the data and records as JSON (hex) */
+  checksum: string;
+  /** Stored values by localStorage key */
+  data: Record<string, string>;
+  /** Records of the data store */
+  records: BackupRecords;
+}
+
+/**
+ * Data store records as written to a backup file: unencrypted, with file contents as base64
+ */
+export interface BackupRecords {
+  journal: JournalEntry[];
+  healthLog: HealthLogEntry[];
+  media: (Omit<MediaItem, 'data'> & { data: string })[];
+}
+
+/**
+ * Why a backup file cannot be restored
+ */
+export type BackupError = 'malformed' | 'newer-version' | 'checksum-mismatch' | 'invalid-data';
+
+/**
+ * What stored data holds, compared before a backup replaces it
+ */
+export interface StorageSummary {
+  /** Number of profiles */
+  profileCount: number;
+  /** Last menstrual period of the active profile (YYYY-MM-DD), empty when not set */
+  lmpDate: string;
+  /** Theme of the active profile */
+  themeColor: ThemeColor;
+  /** Logged periods and growth scans across profiles */
+  logEntryCount: number;
+}
+
+/**
+ * What stored data and the data store hold, compared before a backup replaces them
+ */
+export interface BackupSummary extends StorageSummary {
+  /** Records in each object store of the data store, across profiles */
+  recordCounts: Record<DataStoreName, number>;
+}
+
+/**
+ * Checked backup file, waiting to be restored
+ */
+export interface BackupPreview {
+  /** Creation timestamp of the backup (ISO) */
+  createdAt: string;
+  /** Stored data now, or null when there is none to compare */
+  current: BackupSummary | null;
+  /** Stored data after restoring */
+  backup: BackupSummary;
+  /** Stored values to restore by localStorage key */
+  data: Record<string, string>;
+  /** Data store records to restore */
+  records: DataStoreContents;
+}
+
+/**
+ * Result of reading a backup file
+ */
+export type BackupReadResult =
+  | { preview: BackupPreview; error: null }
+  | { preview: null; error: BackupError };
+
+/**
+ * Fields shared by every record kept in the IndexedDB data store
+ */
+export interface DataRecord {
+  /** Unique identifier */
+  id: string;
+  /** Profile the record belongs to */
+  profileId: string;
+  /** Calendar date the record is about (YYYY-MM-DD) */
+  date: string;
+  /** Pregnancy day the date falls on; absent before conception and after the birth */
+  pregnancyDay?: number;
+  /** Creation timestamp (ISO) */
+  createdAt: string;
+  /** Last update timestamp (ISO) */
+  updatedAt: string;
+  /** Encrypted contents while encryption is on; the other content fields are then absent */
+  sealed?: SealedContent;
+}
+
+/**
+ * Record contents encrypted with the data key
+ */
+export interface SealedContent {
+  /** Content fields other than files, as encrypted JSON */
+  fields: EncryptedPayload;
+  /** File fields, encrypted separately to keep them binary */
+  files: Record<string, { iv: string; type: string; data: Blob }>;
+}
+
+/**
+ * Daily note written by the user
+ */
+export interface JournalEntry extends DataRecord {
+  /** Note text */
+  text: string;
+}
+
+/**
+ * Health measures that can be logged
+ */
+export type HealthMetric = 'weight' | 'blood-pressure' | 'glucose' | 'kick-count' | 'symptom';
+
+/**
+ * Health measure logged for a day
+ */
+export interface HealthLogEntry extends DataRecord {
+  /** Measure logged */
+  metric: HealthMetric;
+  /** Measured value (kg, systolic mmHg, mmol/L or kick count); absent for symptoms */
+  value?: number;
+  /** Second measured value (diastolic mmHg) */
+  secondaryValue?: number;
+  /** Free-text note, or the symptom described */
+  note?: string;
+}
+
+/**
+ * Photo or other file attached to a day
+ */
+export interface MediaItem extends DataRecord {
+  /** MIME type of the file */
+  mimeType: string;
+  /** File contents */
+  data: Blob;
+  /** File size in bytes */
+  sizeBytes: number;
+  /** Optional caption */
+  caption?: string;
+}
+
+/**
+ * Record type kept in each object store of the data store
+ */
+export interface DataStoreRecords {
+  journal: JournalEntry;
+  healthLog: HealthLogEntry;
+  media: MediaItem;
+}
+
+/**
+ * Object store of the data store
+ */
+export type DataStoreName = keyof DataStoreRecords;
+
+/**
+ * Records of every object store of the data store
+ */
+export type DataStoreContents = { [S in DataStoreName]: DataStoreRecords[S][] };
+
+/**
+ * Query of one profile's records, by date or by pregnancy day
+ * Without a range, all of the profile's records are returned
+ */
+export interface DataQuery {
+  /** Profile the records belong to */
+  profileId: string;
+  /** Inclusive date range (YYYY-MM-DD), results ordered by date */
+  date?: { from: string; to: string };
+  /** Inclusive pregnancy day range, results ordered by pregnancy day */
+  pregnancyDay?: { from: number; to: number };
+}
+
+/**
+ * Browser storage usage of the origin, covering the data store
+ */
+export interface StorageQuota {
+  /** Bytes used */
+  usageBytes: number;
+  /** Bytes available to the origin */
+  quotaBytes: number;
+  /** Whether usage is close enough to the quota to warn the user */
+  isNearlyFull: boolean;
+  /** Whether a write was refused because the quota was exceeded */
+  isExceeded: boolean;
 }
 
 /**
@@ -34,11 +754,11 @@ export interface UserPreferences {
  * Contains all calculated information for a specific day in pregnancy
  */
 export interface PregnancyDay {
-  /** Absolute day number (1-280) */
+  /** Absolute day number (1-301, continuing past the due date into post-term) */
   dayNumber: number;
   /** Calendar date for this pregnancy day */
   date: Date;
-  /** Formatted date string (MM/DD/YYYY) */
+  /** Date formatted with the user's date format */
   formattedDate: string;
   /** Gestational week (1-40) */
   gestationalWeek: number;
@@ -54,18 +774,122 @@ export interface PregnancyDay {
   monthName: string;
   /** Trimester classification */
   trimester: Trimester;
+  /** Term classification (preterm until 37 weeks) */
+  termCategory: TermCategory;
   /** Fetal development milestone for this day (if any) */
   developmentMilestone?: string;
-  /** Estimated fetal weight in grams */
+  /** Week-by-week development content (first day of each week only) */
+  weeklyDevelopment?: FetalDevelopment;
+  /** Estimated fetal weight in grams (50th percentile) */
   estimatedFetalWeight?: number;
-  /** Estimated fetal length in centimeters */
+  /** Estimated fetal length in centimeters (50th percentile) */
   estimatedFetalLength?: number;
+  /** Growth reference percentiles (from 10 weeks; per baby for multiples) */
+  fetalGrowth?: FetalGrowthEstimate;
+  /** Estimated size of each baby (one entry per baby; empty before size data is available) */
+  fetalStats?: FetalStats[];
+  /** Growth scans performed on this day */
+  biometry?: BiometryResult[];
   /** Recommended appointments or checkups */
   appointments?: string[];
+  /** Leave plan dates falling on this day */
+  leaveEvents?: string[];
   /** Important notes or reminders */
   notes?: string[];
 }
 
+/**
+ * 10th, 50th and 90th percentile values of a growth measurement
+ */
+export interface PercentileBand {
+  /** 10th percentile */
+  p10: number;
+  /** 50th percentile (median) */
+  p50: number;
+  /** 90th percentile */
+  p90: number;
+}
+
+/**
+ * Reference fetal size for a gestational day
+ * Weight follows the Hadlock in-utero standard; length is crown-rump before
+ * 14 weeks and crown-heel afterwards
+ */
+export interface FetalGrowthEstimate {
+  /** Weight percentiles in grams */
+  weightGrams: PercentileBand;
+  /** Length percentiles in centimeters */
+  lengthCm: PercentileBand;
+  /** How the length is measured */
+  lengthType: 'crown-rump' | 'crown-heel';
+}
+
+/**
+ * Estimated size of one baby on a given day
+ */
+export interface FetalStats {
+  /** Display label for the baby (e.g. "Baby A") */
+  babyLabel: string;
+  /** Estimated fetal weight in grams (50th percentile) */
+  estimatedWeight?: number;
+  /** Estimated fetal length in centimeters (50th percentile) */
+  estimatedLength?: number;
+  /** Percentile bands for this baby */
+  growth?: FetalGrowthEstimate;
+}
+
+/**
+ * Window in which birth is expected or planned for the pregnancy's plurality
+ */
+export interface DeliveryWindow {
+  /** First day of the window */
+  start: Date;
+  /** Last day of the window */
+  end: Date;
+  /** Formatted date range */
+  formatted: string;
+  /** Guidance the window is based on */
+  description: string;
+}
+
+/** Key pregnancy dates listed in the summary and exports */
+export type KeyDateType =
+  | 'conception'
+  | 'first-trimester-end'
+  | 'second-trimester-end'
+  | 'viability'
+  | 'cruise-cutoff'
+  | 'air-travel-letter'
+  | 'air-travel-cutoff'
+  | 'early-term'
+  | 'thirty-nine-weeks'
+  | 'full-term'
+  | 'due-date'
+  | 'late-term'
+  | 'post-term';
+
+/**
+ * Calendar date, or date window, of a pregnancy milestone
+ */
+export interface KeyDate {
+  /** Which key date this is */
+  type: KeyDateType;
+  /** Display label */
+  label: string;
+  /** Guidance the date is based on */
+  description: string;
+  /** Date, or first day of the window */
+  start: Date;
+  /** Last day of the window; absent for single dates and open-ended windows */
+  end?: Date;
+  /** Formatted date or date range */
+  formatted: string;
+  /** Gestational age on the start date (e.g. "24 0/7 weeks") */
+  gestationalAge: string;
+  /** Whether the date (or whole window) is before today */
+  isPast: boolean;
+}
+
 /**
  * Summary information about the current pregnancy status
  */
@@ -76,14 +900,42 @@ export interface PregnancySummary {
   currentTrimester: Trimester;
   /** Days completed in pregnancy */
   daysCompleted: number;
-  /** Days remaining until due date */
+  /** Days remaining until due date (0 once the due date has passed) */
   daysRemaining: number;
+  /** Days past the due date (0 until the due date has passed) */
+  daysOverdue: number;
+  /** Current term classification */
+  termCategory: TermCategory;
+  /** Display label for the current term classification */
+  termCategoryLabel: string;
   /** Percentage of pregnancy completed */
   progressPercentage: number;
-  /** Estimated due date */
+  /** Estimated due date (best obstetric estimate) */
   estimatedDueDate: Date;
   /** Formatted estimated due date */
   formattedDueDate: string;
+  /** Description of the dating method the due date is based on */
+  datingMethod: string;
+  /** Description of the cycle-length adjustment applied to the due date */
+  dueDateAdjustment: string;
+  /** Ultrasound re-dating outcome, when a dating scan has been entered */
+  redating?: RedatingAssessment;
+  /** Reference size of each baby today (from 10 weeks) */
+  currentGrowth?: FetalGrowthEstimate;
+  /** Development content for the current week of pregnancy */
+  currentWeekDevelopment?: FetalDevelopment;
+  /** Growth scan biometry results, oldest first */
+  biometry: BiometryResult[];
+  /** Pregnancy type label (singleton, twins or triplets) */
+  plurality: string;
+  /** Label of the prenatal care guideline the appointments follow */
+  guidelineProfile: string;
+  /** Expected or planned delivery window */
+  deliveryWindow: DeliveryWindow;
+  /** Key dates in calendar order, from conception to post-term */
+  keyDates: KeyDate[];
+  /** Leave plan, when one has been set up */
+  leavePlan?: LeavePlan;
   /** Key upcoming milestones */
   upcomingMilestones: string[];
   /** Next scheduled appointments */
@@ -121,20 +973,20 @@ export interface FetalDevelopment {
   description: string;
   /** Estimated size comparison */
   sizeComparison?: string;
-  /** Estimated weight range in grams */
-  weightRange?: { min: number; max: number };
-  /** Estimated length range in centimeters */
-  lengthRange?: { min: number; max: number };
   /** Key developments for this week */
   keyDevelopments: string[];
+  /** Common changes for the mother this week */
+  maternalChanges: string[];
 }
 
 /**
  * Appointment schedule data
  */
 export interface AppointmentSchedule {
-  /** Gestational week for the appointment */
+  /** Gestational week for the appointment (first week of the recommended window) */
   week: number;
+  /** Last week of the recommended window; absent when the visit has a single week */
+  endWeek?: number;
   /** Type of appointment */
   appointmentType: string;
   /** Description of what happens during appointment */
@@ -149,12 +1001,16 @@ export interface AppointmentSchedule {
 export interface ExportData {
   /** User preferences at time of export */
   userPreferences: UserPreferences;
+  /** Display name of the profile being exported */
+  profileName?: string;
   /** Pregnancy summary */
   summary: PregnancySummary;
   /** All pregnancy days data */
   pregnancyDays: PregnancyDay[];
   /** Export timestamp */
   exportTimestamp: Date;
+  /** Date the summary was calculated for, when previewing another date */
+  asOfDate?: Date;
   /** Export format */
   format: ExportFormat;
 }
@@ -165,12 +1021,34 @@ export interface ExportData {
 export interface AppState {
   /** User preferences */
   preferences: UserPreferences | null;
+  /** Profiles of the installation */
+  profiles: Profile[];
+  /** Profile in use */
+  activeProfile: Profile | null;
   /** Current view mode */
   currentView: ViewMode;
+  /** Pregnancy or postpartum tracking, following whether a birth is recorded */
+  mode: AppMode;
+  /** Whether the pregnancy calendar is shown as an archive in postpartum mode */
+  showPregnancyArchive: boolean;
+  /** Whether stored data is encrypted with a passphrase */
+  isEncrypted: boolean;
+  /** Whether encrypted data is waiting for the passphrase */
+  isLocked: boolean;
+  /** Passphrase form shown instead of the calendar, or null */
+  passphraseFormMode: PassphraseFormMode | null;
+  /** Error shown on the passphrase form */
+  passphraseError: string | null;
+  /** Backup file waiting for the restore to be confirmed */
+  backupPreview: BackupPreview | null;
   /** Loading state */
   isLoading: boolean;
   /** Error state */
   error: string | null;
   /** Whether data has been initialized */
   isInitialized: boolean;
+  /** Date the app is previewed as of, or null when showing today */
+  previewDate: Date | null;
+  /** Day the app is showing, refreshed when the local date rolls over */
+  today: Date;
 }
@@ -0,0 +1,31 @@
+import { TestBed } from '@angular/core/testing';
+
+import { TranslatePipe } from './translate.pipe';
+import { I18nService } from '../../services/i18n/i18n.service';
+
+describe('TranslatePipe', () => {
+  let pipe: TranslatePipe;
+  let i18nService: I18nService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    i18nService = TestBed.inject(I18nService);
+    i18nService.setLanguage('en');
+    pipe = new TranslatePipe(i18nService);
+  });
+
+  afterEach(() => {
+    i18nService.setLanguage('en');
+  });
+
+  it('should translate keys in the current language', () => {
+    expect(pipe.transform('summary.title')).toBe('Your Pregnancy Journey');
+
+    i18nService.setLanguage('es');
+    expect(pipe.transform('summary.title')).toBe('Tu embarazo');
+  });
+
+  it('should pass parameters through to the message', () => {
+    expect(pipe.transform('summary.daysCompleted', { count: 3 })).toBe('3 days completed');
+  });
+});
@@ -0,0 +1,27 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { MessageKey } from '../../i18n/messages.en';
+import { I18nService, MessageParams } from '../../services/i18n/i18n.service';
+
+/**
+ * Translate pipe
+ * Shows an interface message in the current language (e.g. {{ 'summary.title' | translate }})
+ * Impure so templates update as soon as the language changes
+ */
+@Pipe({
+  name: 'translate',
+  standalone: true,
+  pure: false,
+})
+export class TranslatePipe implements PipeTransform {
+  constructor(private i18nService: I18nService) {}
+
+  /**
+   * Translates a message key
+   * @param key - Message key
+   * @param params - Values for the message's placeholders
+   * @returns Translated text
+   */
+  transform(key: MessageKey, params?: MessageParams): string {
+    return this.i18nService.translate(key, params);
+  }
+}
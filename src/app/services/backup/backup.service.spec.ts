@@ -0,0 +1,152 @@
+import { TestBed } from '@angular/core/testing';
+
+import { BackupService } from './backup.service';
+import { StorageService } from '../storage/storage.service';
+import { ClockService } from '../clock/clock.service';
+import { DataStoreService } from '../data-store/data-store.service';
+import { DataRepository } from '../data-store/data-repository';
+import { InMemoryDataRepository } from '../data-store/in-memory-data-repository';
+import { BackupFile } from '../../models/pregnancy.models';
+
+describe('BackupService', () => {
+  let service: BackupService;
+  let storageService: StorageService;
+  let dataStoreService: DataStoreService;
+  let repository: InMemoryDataRepository;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    repository = new InMemoryDataRepository();
+    TestBed.configureTestingModule({
+      providers: [{ provide: DataRepository, useValue: repository }],
+    });
+    storageService = TestBed.inject(StorageService);
+    dataStoreService = TestBed.inject(DataStoreService);
+    service = TestBed.inject(BackupService);
+    storageService.savePreferences({
+      lmpDate: '2025-01-01',
+      themeColor: 'girl',
+      viewMode: 'summary',
+      periodLog: ['2024-11-06', '2024-12-04'],
+    });
+    await dataStoreService.saveRecord('journal', { date: '2025-02-20', text: 'First kick' });
+    await dataStoreService.saveRecord('media', {
+      date: '2025-02-20',
+      mimeType: 'image/png',
+      data: new Blob(['scan'], { type: 'image/png' }),
+      sizeBytes: 4,
+    });
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should preview and restore a backup', async () => {
+    spyOn(TestBed.inject(ClockService), 'systemNow').and.returnValue(
+      new Date('2025-03-01T10:00:00.000Z')
+    );
+    const fileText = await service.createBackupFile();
+    storageService.savePreferences({ lmpDate: '2025-02-01', themeColor: 'boy', viewMode: 'table' });
+    await dataStoreService.saveRecord('journal', { date: '2025-02-27', text: 'Hiccups' });
+    await dataStoreService.saveRecord('healthLog', { date: '2025-02-27', metric: 'weight' });
+
+    const { preview, error } = await service.readBackupFile(fileText);
+
+    expect(error).toBeNull();
+    expect(preview?.createdAt).toBe('2025-03-01T10:00:00.000Z');
+    expect(preview?.current).toEqual({
+      profileCount: 1,
+      lmpDate: '2025-02-01',
+      themeColor: 'boy',
+      logEntryCount: 0,
+      recordCounts: { journal: 2, healthLog: 1, media: 1 },
+    });
+    expect(preview?.backup).toEqual({
+      profileCount: 1,
+      lmpDate: '2025-01-01',
+      themeColor: 'girl',
+      logEntryCount: 2,
+      recordCounts: { journal: 1, healthLog: 0, media: 1 },
+    });
+    // Nothing changes until the restore is confirmed
+    expect(storageService.getCurrentPreferences()?.lmpDate).toBe('2025-02-01');
+
+    expect(preview && (await service.restoreBackup(preview))).toBe(true);
+    expect(storageService.getCurrentPreferences()?.lmpDate).toBe('2025-01-01');
+    const journal = await dataStoreService.getRecordsByDate('journal', '2025-01-01', '2025-12-31');
+    expect(journal.map(entry => entry.text)).toEqual(['First kick']);
+    const media = await dataStoreService.getRecordsByDate('media', '2025-01-01', '2025-12-31');
+    expect(await media[0].data.text()).toBe('scan');
+    expect(media[0].data.type).toBe('image/png');
+  });
+
+  it('should delete the records of profiles the backup does not have', async () => {
+    const fileText = await service.createBackupFile();
+    storageService.createProfile('Maria');
+    const profileId = storageService.getActiveProfile()?.id ?? '';
+    await dataStoreService.saveRecord('journal', { date: '2025-02-27', text: 'Hiccups' });
+    const { preview } = await service.readBackupFile(fileText);
+
+    expect(preview && (await service.restoreBackup(preview))).toBe(true);
+    expect(
+      await repository.transaction(['journal'], 'readonly', transaction =>
+        transaction.query('journal', { profileId })
+      )
+    ).toEqual([]);
+    expect(await dataStoreService.countRecords()).toEqual({ journal: 1, healthLog: 0, media: 1 });
+  });
+
+  it('should put the previous profiles back when the records cannot be restored', async () => {
+    const fileText = await service.createBackupFile();
+    storageService.createProfile('Maria');
+    const { preview } = await service.readBackupFile(fileText);
+    spyOn(dataStoreService, 'replaceRecords').and.resolveTo(false);
+
+    expect(preview && (await service.restoreBackup(preview))).toBe(false);
+    expect(storageService.getActiveProfile()?.name).toBe('Maria');
+  });
+
+  it('should reject files that are not backups', async () => {
+    expect((await service.readBackupFile('not json')).error).toBe('malformed');
+    expect((await service.readBackupFile('null')).error).toBe('malformed');
+    expect((await service.readBackupFile('{"type":"pregnancy-calendar-recovery-key"}')).error).toBe(
+      'malformed'
+    );
+  });
+
+  it('should reject backups from a newer version of the app', async () => {
+    const file: BackupFile = JSON.parse(await service.createBackupFile());
+
+    expect((await service.readBackupFile(JSON.stringify({ ...file, version: 2 }))).error).toBe(
+      'newer-version'
+    );
+    expect(
+      (await service.readBackupFile(JSON.stringify({ ...file, schemaVersion: 99 }))).error
+    ).toBe('newer-version');
+  });
+
+  it('should reject changed or invalid data', async () => {
+    const file: BackupFile = JSON.parse(await service.createBackupFile());
+    const data = { ...file.data, pregnancy_calendar_profiles: '{"profiles":[]}' };
+
+    expect((await service.readBackupFile(JSON.stringify({ ...file, data }))).error).toBe(
+      'checksum-mismatch'
+    );
+
+    const checksum = await service['computeChecksum'](data, file.records);
+    expect((await service.readBackupFile(JSON.stringify({ ...file, data, checksum }))).error).toBe(
+      'invalid-data'
+    );
+
+    const records = { ...file.records, media: [{ ...file.records.media[0], data: '%' }] };
+    const recordsChecksum = await service['computeChecksum'](file.data, records);
+    expect(
+      (
+        await service.readBackupFile(
+          JSON.stringify({ ...file, records, checksum: recordsChecksum })
+        )
+      ).error
+    ).toBe('invalid-data');
+  });
+});
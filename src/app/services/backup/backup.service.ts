@@ -0,0 +1,278 @@
+import { Injectable } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import {
+  BackupError,
+  BackupFile,
+  BackupPreview,
+  BackupReadResult,
+  BackupRecords,
+  DataStoreContents,
+  DataStoreName,
+} from '../../models/pregnancy.models';
+import { StorageService } from '../storage/storage.service';
+import { ClockService } from '../clock/clock.service';
+import { DataStoreService } from '../data-store/data-store.service';
+
+/**
+ * Service responsible for backup files of the stored preferences and profiles, and of the
+ * journals, health logs and media in the data store
+ * Backups are versioned JSON files with a checksum of their data; restoring one is
+ * checked and previewed before anything is replaced
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class BackupService {
+  /** File type marker of backup files */
+  private readonly FILE_TYPE = 'pregnancy-calendar-backup';
+
+  /** Backup file format version written by this version of the app */
+  private readonly FILE_VERSION = 1;
+
+  /** Fields every data store record has as text */
+  private readonly RECORD_TEXT_FIELDS = ['id', 'profileId', 'date', 'createdAt', 'updatedAt'];
+
+  /** Checks of the content fields of the records in each object store */
+  private readonly RECORD_CHECKS: Record<
+    DataStoreName,
+    (record: Record<string, unknown>) => boolean
+  > = {
+    journal: record => typeof record['text'] === 'string',
+    healthLog: record => typeof record['metric'] === 'string',
+    media: record => typeof record['mimeType'] === 'string' && typeof record['data'] === 'string',
+  };
+
+  constructor(
+    private storageService: StorageService,
+    private clockService: ClockService,
+    private dataStoreService: DataStoreService
+  ) {}
+
+  /**
+   * Creates a backup file of the stored data and the data store records
+   * While encryption is on, the backup holds the decrypted values
+   * @returns Promise resolving with the file contents (JSON)
+   * @throws Error when the data store records cannot be read
+   */
+  async createBackupFile(): Promise<string> {
+    const data: Record<string, string> = {};
+    Object.entries(this.storageService.exportStorageData()).forEach(([key, value]) => {
+      if (typeof value === 'string') {
+        data[key] = value;
+      }
+    });
+
+    const contents = await this.dataStoreService.exportRecords();
+    if (!contents) {
+      throw new Error('The data store records could not be read.');
+    }
+    const records: BackupRecords = {
+      journal: contents.journal,
+      healthLog: contents.healthLog,
+      media: await Promise.all(
+        contents.media.map(async item => ({
+          ...item,
+          data: this.toBase64(new Uint8Array(await item.data.arrayBuffer())),
+        }))
+      ),
+    };
+
+    const file: BackupFile = {
+      type: this.FILE_TYPE,
+      version: this.FILE_VERSION,
+      schemaVersion: this.storageService.getSchemaVersion(),
+      createdAt: this.clockService.systemNow().toISOString(),
+      checksum: await this.computeChecksum(data, records),
+      data,
+      records,
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Reads and checks a backup file, previewing what restoring it changes
+   * @param fileText - Contents of the backup file
+   * @returns Promise resolving with the preview, or why the file cannot be restored
+   */
+  async readBackupFile(fileText: string): Promise<BackupReadResult> {
+    let file: Partial<BackupFile> | null;
+    try {
+      file = JSON.parse(fileText);
+    } catch {
+      return this.reject('malformed');
+    }
+
+    if (!file || file.type !== this.FILE_TYPE || typeof file.version !== 'number') {
+      return this.reject('malformed');
+    }
+    // Checked before the other fields, which a newer file format may lay out differently
+    if (file.version > this.FILE_VERSION) {
+      return this.reject('newer-version');
+    }
+    if (
+      typeof file.schemaVersion !== 'number' ||
+      typeof file.createdAt !== 'string' ||
+      typeof file.checksum !== 'string' ||
+      !file.data ||
+      typeof file.data !== 'object' ||
+      !file.records ||
+      typeof file.records !== 'object'
+    ) {
+      return this.reject('malformed');
+    }
+    if (file.schemaVersion > this.storageService.getSchemaVersion()) {
+      return this.reject('newer-version');
+    }
+    if ((await this.computeChecksum(file.data, file.records)) !== file.checksum) {
+      return this.reject('checksum-mismatch');
+    }
+
+    const backup = this.storageService.summarizeStorageData(file.data);
+    const records = this.decodeRecords(file.records);
+    if (!backup || !records) {
+      return this.reject('invalid-data');
+    }
+
+    const current = this.storageService.getStorageSummary();
+    const currentCounts = current && (await this.dataStoreService.countRecords());
+    return {
+      preview: {
+        createdAt: file.createdAt,
+        current: current && currentCounts ? { ...current, recordCounts: currentCounts } : null,
+        backup: { ...backup, recordCounts: this.countRecords(records) },
+        data: file.data,
+        records,
+      },
+      error: null,
+    };
+  }
+
+  /**
+   * Restores a checked backup, replacing the stored preferences and profiles and the data
+   * store records; records of profiles that no longer exist afterwards are deleted
+   * When the records cannot be replaced, the previous preferences and profiles are put back
+   * @param preview - Preview returned by readBackupFile
+   * @returns Promise resolving with a boolean indicating success/failure
+   */
+  async restoreBackup(preview: BackupPreview): Promise<boolean> {
+    const previousData = this.storageService.exportStorageData();
+    const { profiles } = await firstValueFrom(this.storageService.getProfileRegistry());
+    if (!this.storageService.importStorageData(preview.data)) {
+      return false;
+    }
+
+    const previousProfileIds = profiles.map(profile => profile.id);
+    if (await this.dataStoreService.replaceRecords(preview.records, previousProfileIds)) {
+      return true;
+    }
+    // The records are left as they were, so the profiles they belong to are put back
+    this.storageService.importStorageData(previousData);
+    return false;
+  }
+
+  /**
+   * Computes the checksum of backup data
+   * @param data - Stored values by localStorage key
+   * @param records - Data store records as written to the file
+   * @returns Promise resolving with the SHA-256 of the data and records as JSON (hex)
+   * @private
+   */
+  private async computeChecksum(
+    data: Record<string, string>,
+    records: BackupRecords
+  ): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(JSON.stringify({ data, records }))
+    );
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Checks the data store records of a backup file and decodes their files
+   * @param records - Records as written to the file
+   * @returns Records to restore, or null when any record is invalid
+   * @private
+   */
+  private decodeRecords(records: BackupRecords): DataStoreContents | null {
+    const stores = Object.keys(this.RECORD_CHECKS) as DataStoreName[];
+    const isValid = stores.every(store => {
+      const storeRecords: unknown = records[store];
+      return (
+        Array.isArray(storeRecords) &&
+        storeRecords.every(
+          (record: Record<string, unknown> | null) =>
+            typeof record === 'object' &&
+            record !== null &&
+            this.RECORD_TEXT_FIELDS.every(field => typeof record[field] === 'string') &&
+            ['undefined', 'number'].includes(typeof record['pregnancyDay']) &&
+            record['sealed'] === undefined &&
+            this.RECORD_CHECKS[store](record)
+        )
+      );
+    });
+    if (!isValid) {
+      return null;
+    }
+
+    try {
+      return {
+        journal: records.journal,
+        healthLog: records.healthLog,
+        media: records.media.map(item => ({
+          ...item,
+          data: new Blob([this.fromBase64(item.data)], { type: item.mimeType }),
+        })),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Counts the records in each object store
+   * @param records - Records by object store
+   * @returns Number of records by object store
+   * @private
+   */
+  private countRecords(records: DataStoreContents): Record<DataStoreName, number> {
+    return {
+      journal: records.journal.length,
+      healthLog: records.healthLog.length,
+      media: records.media.length,
+    };
+  }
+
+  /**
+   * Encodes bytes as base64 text
+   * @param bytes - Bytes to encode
+   * @returns Base64 text
+   * @private
+   */
+  private toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+    return btoa(binary);
+  }
+
+  /**
+   * Decodes base64 text
+   * @param text - Base64 text
+   * @returns Decoded bytes
+   * @throws DOMException when the text is not base64
+   * @private
+   */
+  private fromBase64(text: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(text), character => character.charCodeAt(0));
+  }
+
+  /**
+   * Creates the result of a backup file that cannot be restored
+   * @param error - Why the file cannot be restored
+   * @returns Read result without a preview
+   * @private
+   */
+  private reject(error: BackupError): BackupReadResult {
+    return { preview: null, error };
+  }
+}
@@ -0,0 +1,106 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ClockService } from './clock.service';
+
+describe('ClockService', () => {
+  let service: ClockService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ClockService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should use the system clock when not previewing', () => {
+    spyOn(service, 'systemNow').and.returnValue(new Date(2025, 4, 20, 15, 30));
+
+    expect(service.isPreviewing()).toBe(false);
+    expect(service.now()).toEqual(new Date(2025, 4, 20, 15, 30));
+    expect(service.today()).toEqual(new Date(2025, 4, 20));
+  });
+
+  it('should report the preview date as today while previewing', () => {
+    service.setPreviewDate(new Date(2025, 7, 1, 18, 45));
+
+    expect(service.isPreviewing()).toBe(true);
+    expect(service.today()).toEqual(new Date(2025, 7, 1));
+    expect(service.getPreviewDateSync()).toEqual(new Date(2025, 7, 1));
+  });
+
+  it('should return to today when the preview is cleared', () => {
+    const emitted: Array<Date | null> = [];
+    service.getPreviewDate().subscribe(date => emitted.push(date));
+
+    service.setPreviewDate(new Date(2025, 7, 1));
+    service.clearPreviewDate();
+
+    expect(service.isPreviewing()).toBe(false);
+    expect(emitted).toEqual([null, new Date(2025, 7, 1), null]);
+  });
+
+  describe('day changes', () => {
+    let systemNow: jasmine.Spy;
+
+    beforeEach(() => {
+      systemNow = spyOn(service, 'systemNow').and.returnValue(new Date(2025, 4, 20, 23, 59));
+    });
+
+    it('should count the milliseconds until local midnight', () => {
+      expect(service.getMillisecondsUntilMidnight()).toBe(60 * 1000);
+    });
+
+    it('should emit today on subscription', () => {
+      const emitted: Date[] = [];
+      const subscription = service.getToday().subscribe(date => emitted.push(date));
+
+      expect(emitted).toEqual([new Date(2025, 4, 20)]);
+      subscription.unsubscribe();
+    });
+
+    it('should emit the new day when the window regains focus after midnight', () => {
+      const emitted: Date[] = [];
+      const subscription = service.getToday().subscribe(date => emitted.push(date));
+
+      systemNow.and.returnValue(new Date(2025, 4, 21, 7, 0));
+      window.dispatchEvent(new Event('focus'));
+
+      expect(emitted).toEqual([new Date(2025, 4, 20), new Date(2025, 4, 21)]);
+      subscription.unsubscribe();
+    });
+
+    it('should emit the new day when the page becomes visible after midnight', () => {
+      const emitted: Date[] = [];
+      const subscription = service.getToday().subscribe(date => emitted.push(date));
+
+      systemNow.and.returnValue(new Date(2025, 4, 21, 0, 5));
+      document.dispatchEvent(new Event('visibilitychange'));
+
+      expect(emitted).toEqual([new Date(2025, 4, 20), new Date(2025, 4, 21)]);
+      subscription.unsubscribe();
+    });
+
+    it('should not emit again while the day is unchanged', () => {
+      const emitted: Date[] = [];
+      const subscription = service.getToday().subscribe(date => emitted.push(date));
+
+      window.dispatchEvent(new Event('focus'));
+      document.dispatchEvent(new Event('visibilitychange'));
+
+      expect(emitted.length).toBe(1);
+      subscription.unsubscribe();
+    });
+
+    it('should emit the preview date when previewing', () => {
+      const emitted: Date[] = [];
+      const subscription = service.getToday().subscribe(date => emitted.push(date));
+
+      service.setPreviewDate(new Date(2025, 9, 1));
+
+      expect(emitted).toEqual([new Date(2025, 4, 20), new Date(2025, 9, 1)]);
+      subscription.unsubscribe();
+    });
+  });
+});
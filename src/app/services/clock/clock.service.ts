@@ -0,0 +1,141 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, defer, fromEvent, merge, timer } from 'rxjs';
+import { distinctUntilChanged, map, repeat, shareReplay, startWith } from 'rxjs/operators';
+import { CalendarDate } from '../../utilities/calendar-date';
+
+/** Delay after local midnight before the new day is read, so the clock has surely rolled over */
+const MIDNIGHT_GRACE_MS = 1000;
+
+/**
+ * Service providing the current date and time to the rest of the application
+ * Supports an "as of" preview date so the app can be viewed as it will look on any day
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ClockService {
+  /** Preview date subject (null when showing today) */
+  private previewDateSubject = new BehaviorSubject<Date | null>(null);
+
+  /** Shared stream of the app's current day */
+  private today$: Observable<Date> = this.createTodayObservable();
+
+  /**
+   * Gets the preview date as an Observable
+   * @returns Observable of the preview date, or null when showing today
+   */
+  getPreviewDate(): Observable<Date | null> {
+    return this.previewDateSubject.asObservable();
+  }
+
+  /**
+   * Gets the app's current day as an Observable
+   * Emits again at local midnight, when the page becomes visible or the window
+   * regains focus after the day has changed, and when the preview date changes
+   * @returns Observable of the date the app should treat as today
+   */
+  getToday(): Observable<Date> {
+    return this.today$;
+  }
+
+  /**
+   * Gets the preview date synchronously
+   * @returns Preview date, or null when showing today
+   */
+  getPreviewDateSync(): Date | null {
+    return this.previewDateSubject.value;
+  }
+
+  /**
+   * Checks whether the app is previewing another date
+   * @returns Boolean indicating if a preview date is set
+   */
+  isPreviewing(): boolean {
+    return this.previewDateSubject.value !== null;
+  }
+
+  /**
+   * Shows the app as of another date
+   * @param date - Date to preview (time of day is ignored)
+   */
+  setPreviewDate(date: Date): void {
+    this.previewDateSubject.next(CalendarDate.fromDate(date).toDate());
+  }
+
+  /**
+   * Returns the app to today
+   */
+  clearPreviewDate(): void {
+    this.previewDateSubject.next(null);
+  }
+
+  /**
+   * Gets the current date and time, or the preview date when previewing
+   * @returns Date the app should treat as now
+   */
+  now(): Date {
+    const previewDate = this.previewDateSubject.value;
+    return previewDate ? new Date(previewDate) : this.systemNow();
+  }
+
+  /**
+   * Gets today's date at local midnight, or the preview date when previewing
+   * @returns Date the app should treat as today
+   */
+  today(): Date {
+    return this.calendarToday().toDate();
+  }
+
+  /**
+   * Gets today's calendar date, or the preview date when previewing
+   * @returns Calendar date the app should treat as today
+   */
+  calendarToday(): CalendarDate {
+    return CalendarDate.fromDate(this.now());
+  }
+
+  /**
+   * Gets the real date and time, ignoring any preview date
+   * The only place the application reads the system clock
+   * @returns Current system date and time
+   */
+  systemNow(): Date {
+    return new Date();
+  }
+
+  /**
+   * Gets the number of milliseconds until the next local midnight
+   * @returns Milliseconds until the system clock reaches the next day
+   */
+  getMillisecondsUntilMidnight(): number {
+    const now = this.systemNow();
+    const nextMidnight = CalendarDate.fromDate(now).addDays(1).toDate();
+    return nextMidnight.getTime() - now.getTime();
+  }
+
+  /**
+   * Creates the day-change stream
+   * The midnight timer is rescheduled after each firing so it follows clock and
+   * daylight saving changes; visibility and focus events catch up after the
+   * device has slept through midnight
+   * @returns Observable of today's date, emitting only when the day changes
+   * @private
+   */
+  private createTodayObservable(): Observable<Date> {
+    const midnight$ = defer(() =>
+      timer(this.getMillisecondsUntilMidnight() + MIDNIGHT_GRACE_MS)
+    ).pipe(repeat());
+
+    return merge(
+      midnight$,
+      fromEvent(document, 'visibilitychange'),
+      fromEvent(window, 'focus'),
+      this.previewDateSubject
+    ).pipe(
+      startWith(null),
+      map(() => this.today()),
+      distinctUntilChanged((previous, current) => previous.getTime() === current.getTime()),
+      shareReplay({ bufferSize: 1, refCount: true })
+    );
+  }
+}
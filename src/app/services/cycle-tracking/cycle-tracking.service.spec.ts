@@ -0,0 +1,107 @@
+import { TestBed } from '@angular/core/testing';
+
+import { CycleTrackingService } from './cycle-tracking.service';
+import { ClockService } from '../clock/clock.service';
+import { PregnancyCalculatorService } from '../pregnancy-calculator/pregnancy-calculator.service';
+import { UserPreferences } from '../../models/pregnancy.models';
+
+describe('CycleTrackingService', () => {
+  let service: CycleTrackingService;
+  let clockService: ClockService;
+  const preferences: UserPreferences = {
+    lmpDate: '',
+    periodLog: ['2025-01-03', '2025-01-31', '2025-03-02'],
+    themeColor: 'neutral',
+    viewMode: 'summary',
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(CycleTrackingService);
+    clockService = TestBed.inject(ClockService);
+  });
+
+  afterEach(() => {
+    clockService.clearPreviewDate();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should average the logged cycles, skipping lengths outside the cycle range', () => {
+    expect(service.getLoggedCycleLengths(preferences.periodLog ?? [])).toEqual([28, 30]);
+    expect(service.getAverageCycleLength(preferences)).toEqual({ days: 29, cycleCount: 2 });
+
+    // A 91-day gap is most likely a missed log rather than a real cycle
+    const withGap = { ...preferences, periodLog: [...(preferences.periodLog ?? []), '2025-06-01'] };
+    expect(service.getAverageCycleLength(withGap)).toEqual({ days: 29, cycleCount: 2 });
+  });
+
+  it('should fall back to the usual or standard cycle length with one logged period', () => {
+    const single = { ...preferences, periodLog: ['2025-03-02'] };
+
+    expect(service.getAverageCycleLength(single)).toEqual({ days: 28, cycleCount: 0 });
+    expect(service.getAverageCycleLength({ ...single, cycleLengthDays: 32 })).toEqual({
+      days: 32,
+      cycleCount: 0,
+    });
+  });
+
+  it('should predict the next period, ovulation and fertile window', () => {
+    clockService.setPreviewDate(new Date(2025, 2, 16));
+
+    const summary = service.generateCycleSummary(preferences);
+
+    expect(summary?.cycleDay).toBe(15);
+    expect(summary?.averageCycleLength).toBe(29);
+    expect(summary?.predictions.length).toBe(3);
+    expect(summary?.predictions[0].periodStart).toEqual(new Date(2025, 2, 31));
+    expect(summary?.predictions[0].ovulation).toEqual(new Date(2025, 2, 17));
+    expect(summary?.predictions[0].fertileWindowStart).toEqual(new Date(2025, 2, 12));
+    expect(summary?.predictions[1].periodStart).toEqual(new Date(2025, 3, 29));
+    expect(summary?.isFertileToday).toBeTrue();
+    expect(summary?.daysUntilNextPeriod).toBe(15);
+    expect(summary?.isPeriodLate).toBeFalse();
+    expect(summary?.periods.map(period => period.cycleLengthDays)).toEqual([undefined, 30, 28]);
+  });
+
+  it('should flag a late period', () => {
+    clockService.setPreviewDate(new Date(2025, 3, 3));
+
+    const summary = service.generateCycleSummary(preferences);
+
+    expect(summary?.isPeriodLate).toBeTrue();
+    expect(summary?.daysLate).toBe(3);
+    expect(summary?.daysUntilNextPeriod).toBe(0);
+    expect(summary?.isFertileToday).toBeFalse();
+  });
+
+  it('should return no summary without a logged period', () => {
+    expect(service.generateCycleSummary({ ...preferences, periodLog: [] })).toBeNull();
+  });
+
+  it('should date the pregnancy from the latest period and the logged cycle length', () => {
+    const calculator = TestBed.inject(PregnancyCalculatorService);
+
+    const pregnancy = service.createPregnancyPreferences(preferences);
+
+    expect(pregnancy.lmpDate).toBe('2025-03-02');
+    expect(pregnancy.dating).toEqual({ method: 'lmp', referenceDate: '2025-03-02' });
+    expect(pregnancy.cycleLengthDays).toBe(29);
+    expect(pregnancy.periodLog).toBeUndefined();
+    expect(calculator.calculateDueDate(calculator.getGestationalLmp(pregnancy))).toEqual(
+      new Date(2025, 11, 8)
+    );
+  });
+
+  it('should keep the standard cycle when only one period is logged', () => {
+    const pregnancy = service.createPregnancyPreferences({
+      ...preferences,
+      periodLog: ['2025-03-02'],
+    });
+
+    expect(pregnancy.cycleLengthDays).toBeUndefined();
+    expect(() => service.createPregnancyPreferences({ ...preferences, periodLog: [] })).toThrow();
+  });
+});
@@ -0,0 +1,189 @@
+import { Injectable } from '@angular/core';
+import {
+  CycleSummary,
+  LoggedPeriod,
+  PredictedCycle,
+  UserPreferences,
+} from '../../models/pregnancy.models';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { PregnancyCalculatorService } from '../pregnancy-calculator/pregnancy-calculator.service';
+import { ClockService } from '../clock/clock.service';
+import { DateFormatService } from '../date-format/date-format.service';
+
+/**
+ * Service for tracking menstrual cycles before conception
+ * Predicts ovulation one luteal phase before the next period and a 6-day fertile window
+ * ending on the ovulation day (Wilcox et al., NEJM 1995), and hands the logged cycles
+ * over to LMP dating once the user is pregnant
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class CycleTrackingService {
+  /** Standard cycle length used when no cycles are logged */
+  private readonly STANDARD_CYCLE_LENGTH_DAYS = 28;
+
+  /** Standard luteal phase length */
+  private readonly STANDARD_LUTEAL_PHASE_DAYS = 14;
+
+  /** Days of the fertile window before the ovulation day */
+  private readonly FERTILE_DAYS_BEFORE_OVULATION = 5;
+
+  /** Most recent logged cycles the average cycle length is based on */
+  private readonly RECENT_CYCLE_COUNT = 6;
+
+  /** Number of cycles predicted, including the current one */
+  private readonly PREDICTED_CYCLE_COUNT = 3;
+
+  constructor(
+    private pregnancyCalculatorService: PregnancyCalculatorService,
+    private clockService: ClockService,
+    private dateFormatService: DateFormatService
+  ) {}
+
+  /**
+   * Gets the cycle lengths between consecutive logged periods
+   * @param periodLog - Logged period start dates (YYYY-MM-DD)
+   * @returns Cycle lengths in days, oldest first
+   */
+  getLoggedCycleLengths(periodLog: string[]): number[] {
+    const starts = this.sortPeriodLog(periodLog).map(date => CalendarDate.parse(date));
+    return starts.slice(1).map((start, index) => starts[index].daysUntil(start));
+  }
+
+  /**
+   * Gets the cycle length predictions are based on
+   * Averages the most recent logged cycles, skipping lengths outside the accepted cycle range
+   * (usually a missed log); falls back to the usual cycle length given at setup
+   * @param preferences - User preferences holding the period log
+   * @returns Average cycle length in whole days and the number of cycles it is based on
+   */
+  getAverageCycleLength(preferences: UserPreferences): { days: number; cycleCount: number } {
+    const range = this.pregnancyCalculatorService.getCycleLengthRanges().cycleLength;
+    const cycles = this.getLoggedCycleLengths(preferences.periodLog ?? [])
+      .filter(length => length >= range.min && length <= range.max)
+      .slice(-this.RECENT_CYCLE_COUNT);
+
+    if (cycles.length === 0) {
+      return {
+        days: preferences.cycleLengthDays ?? this.STANDARD_CYCLE_LENGTH_DAYS,
+        cycleCount: 0,
+      };
+    }
+
+    const total = cycles.reduce((sum, length) => sum + length, 0);
+    return { days: Math.round(total / cycles.length), cycleCount: cycles.length };
+  }
+
+  /**
+   * Generates the cycle summary as of the clock's current date
+   * @param preferences - User preferences holding the period log
+   * @returns CycleSummary object, or null when no period is logged
+   */
+  generateCycleSummary(preferences: UserPreferences): CycleSummary | null {
+    const periodLog = this.sortPeriodLog(preferences.periodLog ?? []);
+    if (periodLog.length === 0) {
+      return null;
+    }
+
+    const lastPeriodStart = CalendarDate.parse(periodLog[periodLog.length - 1]);
+    const today = this.clockService.calendarToday();
+    const average = this.getAverageCycleLength(preferences);
+    const lutealPhaseDays = preferences.lutealPhaseDays ?? this.STANDARD_LUTEAL_PHASE_DAYS;
+    const predictions = this.predictCycles(lastPeriodStart, average.days, lutealPhaseDays);
+    const currentCycle = predictions[0];
+    const fertileWindowStart = CalendarDate.fromDate(currentCycle.fertileWindowStart);
+    const fertileWindowEnd = CalendarDate.fromDate(currentCycle.fertileWindowEnd);
+    const daysUntilNextPeriod = today.daysUntil(CalendarDate.fromDate(currentCycle.periodStart));
+    const cycleLengths = this.getLoggedCycleLengths(periodLog);
+
+    return {
+      lastPeriodStart: lastPeriodStart.toDate(),
+      formattedLastPeriodStart: this.dateFormatService.format(lastPeriodStart.toDate()),
+      cycleDay: lastPeriodStart.daysUntil(today) + 1,
+      averageCycleLength: average.days,
+      loggedCycleCount: average.cycleCount,
+      lutealPhaseDays,
+      daysUntilNextPeriod: Math.max(0, daysUntilNextPeriod),
+      isPeriodLate: daysUntilNextPeriod < 0,
+      daysLate: Math.max(0, -daysUntilNextPeriod),
+      isFertileToday: !today.isBefore(fertileWindowStart) && !today.isAfter(fertileWindowEnd),
+      predictions,
+      periods: periodLog
+        .map(
+          (startDate, index): LoggedPeriod => ({
+            startDate,
+            formatted: this.dateFormatService.format(CalendarDate.parse(startDate).toDate()),
+            cycleLengthDays: cycleLengths[index],
+          })
+        )
+        .reverse(),
+    };
+  }
+
+  /**
+   * Builds the pregnancy preferences once the user is pregnant
+   * The latest logged period becomes the LMP and the logged average the cycle length,
+   * so the due date uses the adjusted Naegele's rule without asking again
+   * @param preferences - User preferences holding the period log
+   * @returns Preferences dated by LMP, without the period log
+   * @throws Error when no period is logged
+   */
+  createPregnancyPreferences(preferences: UserPreferences): UserPreferences {
+    const periodLog = this.sortPeriodLog(preferences.periodLog ?? []);
+    if (periodLog.length === 0) {
+      throw new Error('No period has been logged.');
+    }
+
+    const lmpDate = periodLog[periodLog.length - 1];
+    const average = this.getAverageCycleLength(preferences);
+    return {
+      ...preferences,
+      lmpDate,
+      dating: { method: 'lmp', referenceDate: lmpDate },
+      cycleLengthDays: average.cycleCount > 0 ? average.days : preferences.cycleLengthDays,
+      periodLog: undefined,
+    };
+  }
+
+  /**
+   * Predicts the current and following cycles from the latest period
+   * @param lastPeriodStart - First day of the latest logged period
+   * @param cycleLength - Cycle length in days
+   * @param lutealPhaseDays - Luteal phase length in days
+   * @returns Predicted cycles, each ending with the next period
+   * @private
+   */
+  private predictCycles(
+    lastPeriodStart: CalendarDate,
+    cycleLength: number,
+    lutealPhaseDays: number
+  ): PredictedCycle[] {
+    return Array.from({ length: this.PREDICTED_CYCLE_COUNT }, (_, index) => {
+      const periodStart = lastPeriodStart.addDays(cycleLength * (index + 1));
+      const ovulation = periodStart.addDays(-lutealPhaseDays);
+      const fertileWindowStart = ovulation.addDays(-this.FERTILE_DAYS_BEFORE_OVULATION);
+
+      return {
+        periodStart: periodStart.toDate(),
+        formattedPeriodStart: this.dateFormatService.format(periodStart.toDate()),
+        ovulation: ovulation.toDate(),
+        formattedOvulation: this.dateFormatService.format(ovulation.toDate()),
+        fertileWindowStart: fertileWindowStart.toDate(),
+        formattedFertileWindowStart: this.dateFormatService.format(fertileWindowStart.toDate()),
+        fertileWindowEnd: ovulation.toDate(),
+        formattedFertileWindowEnd: this.dateFormatService.format(ovulation.toDate()),
+      };
+    });
+  }
+
+  /**
+   * Sorts a period log oldest first, dropping duplicate dates
+   * @param periodLog - Logged period start dates (YYYY-MM-DD)
+   * @returns Sorted unique dates
+   * @private
+   */
+  private sortPeriodLog(periodLog: string[]): string[] {
+    return [...new Set(periodLog)].sort();
+  }
+}
@@ -0,0 +1,73 @@
+import { Injectable } from '@angular/core';
+import { DataQuery, DataStoreName, DataStoreRecords } from '../../models/pregnancy.models';
+import { IndexedDbDataRepository } from './indexed-db-data-repository';
+import { InMemoryDataRepository } from './in-memory-data-repository';
+
+/**
+ * Whether a transaction only reads or also writes
+ */
+export type DataTransactionMode = 'readonly' | 'readwrite';
+
+/**
+ * Operations available inside a transaction
+ * Only await these operations inside the transaction's work, so IndexedDB keeps it open
+ */
+export interface DataTransaction {
+  /**
+   * Gets a record by identifier
+   * @param store - Object store to read
+   * @param id - Record identifier
+   * @returns The record, or undefined when none has the identifier
+   */
+  get<S extends DataStoreName>(store: S, id: string): Promise<DataStoreRecords[S] | undefined>;
+
+  /**
+   * Adds a record or replaces the one with the same identifier
+   * @param store - Object store to write
+   * @param record - Record to store
+   */
+  put<S extends DataStoreName>(store: S, record: DataStoreRecords[S]): Promise<void>;
+
+  /**
+   * Deletes a record by identifier, doing nothing when none has the identifier
+   * @param store - Object store to write
+   * @param id - Record identifier
+   */
+  delete(store: DataStoreName, id: string): Promise<void>;
+
+  /**
+   * Gets one profile's records through the date or pregnancy day index
+   * @param store - Object store to read
+   * @param query - Profile and optional date or pregnancy day range
+   * @returns Matching records in index order
+   */
+  query<S extends DataStoreName>(store: S, query: DataQuery): Promise<DataStoreRecords[S][]>;
+}
+
+/**
+ * Repository for journals, health logs and media
+ * Backed by IndexedDB, falling back to memory only when the browser has no IndexedDB
+ * (private browsing in some browsers); specs provide InMemoryDataRepository themselves
+ */
+@Injectable({
+  providedIn: 'root',
+  useFactory: (): DataRepository =>
+    typeof indexedDB === 'undefined'
+      ? new InMemoryDataRepository()
+      : new IndexedDbDataRepository(indexedDB),
+})
+export abstract class DataRepository {
+  /**
+   * Runs work in one transaction over the given object stores
+   * All writes are committed together when the work resolves, and none when it rejects
+   * @param stores - Object stores the work uses
+   * @param mode - Whether the work writes
+   * @param work - Work to run, using only the transaction's operations
+   * @returns Promise resolving with the work's result once committed
+   */
+  abstract transaction<T>(
+    stores: DataStoreName[],
+    mode: DataTransactionMode,
+    work: (transaction: DataTransaction) => Promise<T>
+  ): Promise<T>;
+}
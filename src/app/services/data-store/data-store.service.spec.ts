@@ -0,0 +1,239 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+
+import { DataStoreService } from './data-store.service';
+import { DataRepository } from './data-repository';
+import { InMemoryDataRepository } from './in-memory-data-repository';
+import { StorageService } from '../storage/storage.service';
+import { EncryptionService } from '../encryption/encryption.service';
+import { JournalEntry, Profile } from '../../models/pregnancy.models';
+
+describe('DataStoreService', () => {
+  let service: DataStoreService;
+  let repository: InMemoryDataRepository;
+  let mockStorageService: jasmine.SpyObj<StorageService>;
+  const profile: Profile = {
+    id: 'profile-1',
+    name: 'First',
+    archived: false,
+    createdAt: '2025-01-01T00:00:00.000Z',
+  };
+  const otherProfile: Profile = { ...profile, id: 'profile-2', name: 'Second' };
+
+  beforeEach(() => {
+    repository = new InMemoryDataRepository();
+    mockStorageService = jasmine.createSpyObj('StorageService', [
+      'getActiveProfile',
+      'getProfileRegistry',
+    ]);
+    mockStorageService.getActiveProfile.and.returnValue(profile);
+    mockStorageService.getProfileRegistry.and.returnValue(
+      of({ activeProfileId: profile.id, profiles: [profile, otherProfile] })
+    );
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: DataRepository, useValue: repository },
+        { provide: StorageService, useValue: mockStorageService },
+      ],
+    });
+    service = TestBed.inject(DataStoreService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should stamp new records and keep the creation time on update', async () => {
+    const created = await service.saveRecord('journal', {
+      date: '2025-03-10',
+      pregnancyDay: 68,
+      text: 'First scan',
+    });
+
+    expect(created?.id).toBeTruthy();
+    expect(created?.profileId).toBe('profile-1');
+
+    const createdAt = created?.createdAt;
+    const updated = await service.saveRecord('journal', {
+      id: created?.id,
+      date: '2025-03-10',
+      pregnancyDay: 68,
+      text: 'First scan, all well',
+    });
+
+    expect(updated?.id).toBe(created?.id);
+    expect(updated?.createdAt).toBe(createdAt);
+    expect(await service.getRecordsByDate('journal', '2025-03-10', '2025-03-10')).toEqual([
+      jasmine.objectContaining({ text: 'First scan, all well' }),
+    ]);
+  });
+
+  it("should list the active profile's records by date and by pregnancy day", async () => {
+    await service.saveRecord('healthLog', {
+      date: '2025-03-12',
+      pregnancyDay: 70,
+      metric: 'weight',
+      value: 64.2,
+    });
+    await service.saveRecord('healthLog', {
+      date: '2025-03-05',
+      pregnancyDay: 63,
+      metric: 'weight',
+      value: 63.8,
+    });
+    await service.saveRecord('healthLog', { date: '2025-02-01', metric: 'symptom', note: 'Tired' });
+
+    mockStorageService.getActiveProfile.and.returnValue(otherProfile);
+    await service.saveRecord('healthLog', {
+      date: '2025-03-06',
+      pregnancyDay: 64,
+      metric: 'weight',
+      value: 70,
+    });
+    mockStorageService.getActiveProfile.and.returnValue(profile);
+
+    const byDate = await service.getRecordsByDate('healthLog', '2025-03-01', '2025-03-31');
+    expect(byDate.map(entry => entry.value)).toEqual([63.8, 64.2]);
+
+    // Records without a pregnancy day are left out of the pregnancy day index
+    const byDay = await service.getRecordsByPregnancyDay('healthLog', 0, 280);
+    expect(byDay.map(entry => entry.pregnancyDay)).toEqual([63, 70]);
+  });
+
+  it('should commit nothing when a transaction fails', async () => {
+    await service.saveRecord('journal', { date: '2025-03-10', text: 'Kept' });
+
+    await expectAsync(
+      repository.transaction(['journal'], 'readwrite', async transaction => {
+        const [entry] = await transaction.query('journal', { profileId: 'profile-1' });
+        await transaction.delete('journal', entry.id);
+        throw new Error('Interrupted');
+      })
+    ).toBeRejectedWithError('Interrupted');
+
+    expect(await service.getRecordsByDate('journal', '2025-01-01', '2025-12-31')).toEqual([
+      jasmine.objectContaining({ text: 'Kept' }),
+    ]);
+  });
+
+  it("should delete a profile's records from every store", async () => {
+    await service.saveRecord('journal', { date: '2025-03-10', text: 'Note' });
+    await service.saveRecord('healthLog', { date: '2025-03-10', metric: 'kick-count', value: 10 });
+    mockStorageService.getActiveProfile.and.returnValue(otherProfile);
+    await service.saveRecord('journal', { date: '2025-03-10', text: 'Other note' });
+
+    expect(await service.deleteProfileData('profile-1')).toBe(true);
+
+    const remaining = await repository.transaction(
+      ['journal', 'healthLog'],
+      'readonly',
+      async transaction => [
+        ...(await transaction.query('journal', { profileId: 'profile-1' })),
+        ...(await transaction.query('healthLog', { profileId: 'profile-1' })),
+      ]
+    );
+    expect(remaining).toEqual([]);
+    expect(await service.getRecordsByDate('journal', '2025-03-10', '2025-03-10')).toEqual([
+      jasmine.objectContaining({ text: 'Other note' }),
+    ]);
+  });
+
+  it("should export every profile's records and replace them when restoring", async () => {
+    await service.saveRecord('journal', { date: '2025-03-10', text: 'Note' });
+    await service.saveRecord('media', {
+      date: '2025-03-10',
+      mimeType: 'image/png',
+      data: new Blob(['scan'], { type: 'image/png' }),
+      sizeBytes: 4,
+    });
+    mockStorageService.getActiveProfile.and.returnValue(otherProfile);
+    await service.saveRecord('healthLog', { date: '2025-03-10', metric: 'weight', value: 64 });
+    await repository.transaction(['journal'], 'readwrite', transaction =>
+      transaction.put('journal', {
+        id: 'deleted-profile-note',
+        profileId: 'deleted-profile',
+        date: '2025-03-10',
+        createdAt: '2025-03-10T00:00:00.000Z',
+        updatedAt: '2025-03-10T00:00:00.000Z',
+        text: 'Left behind',
+      })
+    );
+
+    const exported = await service.exportRecords();
+    expect(await service.countRecords()).toEqual({ journal: 1, healthLog: 1, media: 1 });
+    expect(exported?.journal.map(entry => entry.text)).toEqual(['Note']);
+    expect(await exported?.media[0].data.text()).toBe('scan');
+
+    const restoredNote: JournalEntry = {
+      id: 'restored-note',
+      profileId: 'profile-1',
+      date: '2025-03-11',
+      createdAt: '2025-03-11T00:00:00.000Z',
+      updatedAt: '2025-03-11T00:00:00.000Z',
+      text: 'Restored',
+    };
+    const unknownProfileNote = { ...restoredNote, id: 'other', profileId: 'unknown-profile' };
+    expect(
+      await service.replaceRecords(
+        { journal: [restoredNote, unknownProfileNote], healthLog: [], media: [] },
+        ['deleted-profile']
+      )
+    ).toBe(true);
+
+    const stored = await repository.transaction(
+      ['journal', 'healthLog', 'media'],
+      'readonly',
+      async transaction => [
+        ...(await transaction.query('journal', { profileId: 'profile-1' })),
+        ...(await transaction.query('journal', { profileId: 'deleted-profile' })),
+        ...(await transaction.query('journal', { profileId: 'unknown-profile' })),
+        ...(await transaction.query('healthLog', { profileId: 'profile-2' })),
+        ...(await transaction.query('media', { profileId: 'profile-1' })),
+      ]
+    );
+    expect(stored).toEqual([jasmine.objectContaining({ text: 'Restored' })]);
+  });
+
+  it('should keep record contents encrypted while encryption is on', async () => {
+    localStorage.clear();
+    const encryptionService = TestBed.inject(EncryptionService);
+    Object.assign(encryptionService, { PBKDF2_ITERATIONS: 1000 });
+    await service.saveRecord('journal', { date: '2025-03-10', pregnancyDay: 68, text: 'Before' });
+
+    await encryptionService.enable('correct horse');
+    expect(await service.rewriteRecords(true)).toBe(true);
+    await service.saveRecord('journal', { date: '2025-03-11', pregnancyDay: 69, text: 'After' });
+
+    const stored = await repository.transaction(['journal'], 'readonly', transaction =>
+      transaction.query('journal', { profileId: 'profile-1' })
+    );
+    expect(stored.every(entry => entry.text === undefined && !!entry.sealed)).toBeTrue();
+    expect(stored.map(entry => entry.pregnancyDay).sort()).toEqual([68, 69]);
+    expect(
+      (await service.getRecordsByPregnancyDay('journal', 0, 280)).map(entry => entry.text)
+    ).toEqual(['Before', 'After']);
+
+    expect(await service.rewriteRecords(false)).toBe(true);
+    await encryptionService.disable();
+    localStorage.clear();
+  });
+
+  it('should report an exceeded quota until a write succeeds', async () => {
+    spyOn(console, 'error');
+    const quotas: (boolean | undefined)[] = [];
+    service.getQuota().subscribe(quota => quotas.push(quota?.isExceeded));
+
+    const transaction = spyOn(repository, 'transaction').and.callFake(async () => {
+      throw new DOMException('Not enough space', 'QuotaExceededError');
+    });
+    expect(await service.saveRecord('journal', { date: '2025-03-10', text: 'Note' })).toBeNull();
+    expect(quotas[quotas.length - 1]).toBe(true);
+
+    transaction.and.callThrough();
+    expect(
+      await service.saveRecord('journal', { date: '2025-03-10', text: 'Note' })
+    ).not.toBeNull();
+    expect(quotas[quotas.length - 1]).toBeUndefined();
+  });
+});
@@ -0,0 +1,476 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable, firstValueFrom } from 'rxjs';
+import {
+  DataQuery,
+  DataRecord,
+  DataStoreContents,
+  DataStoreName,
+  DataStoreRecords,
+  SealedContent,
+  StorageQuota,
+} from '../../models/pregnancy.models';
+import { ClockService } from '../clock/clock.service';
+import { EncryptionService } from '../encryption/encryption.service';
+import { StorageService } from '../storage/storage.service';
+import { DataRepository, DataTransaction } from './data-repository';
+
+/**
+ * Record as written by a caller, before the data store stamps its identity and timestamps
+ * An identifier updates the existing record with that identifier
+ */
+export type NewDataRecord<S extends DataStoreName> = Omit<
+  DataStoreRecords[S],
+  'id' | 'profileId' | 'createdAt' | 'updatedAt'
+> & { id?: string };
+
+/**
+ * Service for the journals, health logs and media of the active profile
+ * Keeps them in the data repository (IndexedDB) rather than localStorage, which only
+ * holds preferences through StorageService, and tracks how much browser storage is used.
+ * While encryption is on, record contents are encrypted; the profile, dates and
+ * pregnancy day stay readable for the indexes.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DataStoreService {
+  /** Object stores holding profile data */
+  private readonly STORE_NAMES: DataStoreName[] = ['journal', 'healthLog', 'media'];
+
+  /** Fields kept unencrypted so records can be looked up through the indexes */
+  private readonly INDEXED_FIELDS: (keyof DataRecord)[] = [
+    'id',
+    'profileId',
+    'date',
+    'pregnancyDay',
+    'createdAt',
+    'updatedAt',
+  ];
+
+  /** Share of the quota used from which the user is warned */
+  private readonly NEARLY_FULL_RATIO = 0.9;
+
+  /** BehaviorSubject to emit storage quota changes to subscribers */
+  private quotaSubject = new BehaviorSubject<StorageQuota | null>(null);
+
+  /** Whether the last write was refused because the quota was exceeded */
+  private quotaExceeded = false;
+
+  constructor(
+    private repository: DataRepository,
+    private storageService: StorageService,
+    private clockService: ClockService,
+    private encryptionService: EncryptionService
+  ) {}
+
+  /**
+   * Gets the storage quota as an observable
+   * @returns Observable of the storage quota, or null before it is known or when the
+   * browser cannot estimate it
+   */
+  getQuota(): Observable<StorageQuota | null> {
+    return this.quotaSubject.asObservable();
+  }
+
+  /**
+   * Estimates the storage used by the app and emits it
+   * @returns Promise resolving with the storage quota, or null when it cannot be estimated
+   */
+  async refreshQuota(): Promise<StorageQuota | null> {
+    let quota: StorageQuota | null = null;
+
+    try {
+      const estimate = await navigator.storage?.estimate?.();
+      if (estimate?.quota) {
+        const usageBytes = estimate.usage ?? 0;
+        quota = {
+          usageBytes,
+          quotaBytes: estimate.quota,
+          isNearlyFull: this.quotaExceeded || usageBytes >= estimate.quota * this.NEARLY_FULL_RATIO,
+          isExceeded: this.quotaExceeded,
+        };
+      }
+    } catch (error) {
+      console.error('Failed to estimate storage usage:', error);
+    }
+
+    if (!quota && this.quotaExceeded) {
+      quota = { usageBytes: 0, quotaBytes: 0, isNearlyFull: true, isExceeded: true };
+    }
+
+    this.quotaSubject.next(quota);
+    return quota;
+  }
+
+  /**
+   * Adds a record for the active profile, or updates the one with the record's identifier
+   * Updates keep the record's profile and creation time
+   * @param store - Object store to write
+   * @param record - Record contents
+   * @returns Promise resolving with the saved record, or null on failure
+   */
+  async saveRecord<S extends DataStoreName>(
+    store: S,
+    record: NewDataRecord<S>
+  ): Promise<DataStoreRecords[S] | null> {
+    const profile = this.storageService.getActiveProfile();
+    if (!profile) {
+      return null;
+    }
+
+    try {
+      // Encrypt before the transaction, which IndexedDB commits as soon as it is left waiting
+      const content = this.encryptionService.isEnabled()
+        ? { sealed: await this.sealContent(record) }
+        : record;
+      const identity = await this.repository.transaction(
+        [store],
+        'readwrite',
+        async transaction => {
+          const existing = record.id ? await transaction.get(store, record.id) : undefined;
+          const now = this.clockService.systemNow().toISOString();
+          const identity: DataRecord = {
+            id: existing?.id ?? crypto.randomUUID(),
+            profileId: existing?.profileId ?? profile.id,
+            date: record.date,
+            pregnancyDay: record.pregnancyDay,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+          };
+          await transaction.put(store, { ...content, ...identity } as DataStoreRecords[S]);
+          return identity;
+        }
+      );
+      await this.onWriteSucceeded();
+      return { ...record, ...identity } as DataStoreRecords[S];
+    } catch (error) {
+      await this.onWriteFailed('Failed to save record to the data store:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Deletes a record
+   * @param store - Object store to write
+   * @param id - Record identifier
+   * @returns Promise resolving with a boolean indicating success/failure
+   */
+  async deleteRecord(store: DataStoreName, id: string): Promise<boolean> {
+    try {
+      await this.repository.transaction([store], 'readwrite', transaction =>
+        transaction.delete(store, id)
+      );
+      await this.onWriteSucceeded();
+      return true;
+    } catch (error) {
+      await this.onWriteFailed('Failed to delete record from the data store:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Gets the active profile's records dated within a range
+   * @param store - Object store to read
+   * @param from - First date (YYYY-MM-DD)
+   * @param to - Last date (YYYY-MM-DD)
+   * @returns Promise resolving with the records ordered by date, empty on failure
+   */
+  getRecordsByDate<S extends DataStoreName>(
+    store: S,
+    from: string,
+    to: string
+  ): Promise<DataStoreRecords[S][]> {
+    return this.queryActiveProfile(store, { date: { from, to } });
+  }
+
+  /**
+   * Gets the active profile's records within a range of pregnancy days
+   * @param store - Object store to read
+   * @param from - First pregnancy day
+   * @param to - Last pregnancy day
+   * @returns Promise resolving with the records ordered by pregnancy day, empty on failure
+   */
+  getRecordsByPregnancyDay<S extends DataStoreName>(
+    store: S,
+    from: number,
+    to: number
+  ): Promise<DataStoreRecords[S][]> {
+    return this.queryActiveProfile(store, { pregnancyDay: { from, to } });
+  }
+
+  /**
+   * Deletes every record of a profile, in one transaction over all object stores
+   * @param profileId - Identifier of the profile
+   * @returns Promise resolving with a boolean indicating success/failure
+   */
+  async deleteProfileData(profileId: string): Promise<boolean> {
+    try {
+      await this.repository.transaction(this.STORE_NAMES, 'readwrite', transaction =>
+        this.deleteProfileRecords(transaction, [profileId])
+      );
+      await this.onWriteSucceeded();
+      return true;
+    } catch (error) {
+      await this.onWriteFailed('Failed to delete profile data from the data store:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Rewrites every record encrypted or unencrypted, when encryption is turned on or off
+   * Records are read and written in two transactions, encrypting in between
+   * @param encrypt - Whether the records should be encrypted
+   * @returns Promise resolving with a boolean indicating success/failure
+   */
+  async rewriteRecords(encrypt: boolean): Promise<boolean> {
+    try {
+      const records = await this.readAllRecords();
+      const rewritten = await Promise.all(
+        records.map(async ({ store, record }) => ({
+          store,
+          record: await this.prepareRecord(await this.openRecord(record), encrypt),
+        }))
+      );
+
+      await this.repository.transaction(this.STORE_NAMES, 'readwrite', async transaction => {
+        for (const { store, record } of rewritten) {
+          await transaction.put(store, record as DataStoreRecords[DataStoreName]);
+        }
+      });
+      await this.onWriteSucceeded();
+      return true;
+    } catch (error) {
+      await this.onWriteFailed('Failed to rewrite records in the data store:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Counts the records of every profile in each object store
+   * @returns Promise resolving with the number of records by object store, or null on failure
+   */
+  async countRecords(): Promise<Record<DataStoreName, number> | null> {
+    try {
+      const counts: Record<DataStoreName, number> = { journal: 0, healthLog: 0, media: 0 };
+      (await this.readAllRecords()).forEach(({ store }) => counts[store]++);
+      return counts;
+    } catch (error) {
+      console.error('Failed to count records in the data store:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Gets the records of every profile, decrypted, for backups
+   * @returns Promise resolving with the records by object store, or null on failure
+   */
+  async exportRecords(): Promise<DataStoreContents | null> {
+    try {
+      const contents: DataStoreContents = { journal: [], healthLog: [], media: [] };
+      for (const { store, record } of await this.readAllRecords()) {
+        (contents[store] as DataRecord[]).push(await this.openRecord(record));
+      }
+      return contents;
+    } catch (error) {
+      console.error('Failed to export records from the data store:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Replaces the records of every profile with restored ones, in one transaction
+   * Restored records of profiles that do not exist are left out; while encryption is on,
+   * they are encrypted before they are written
+   * @param contents - Unencrypted records to write
+   * @param profileIds - Profiles that no longer exist whose records are deleted too
+   * @returns Promise resolving with a boolean indicating success/failure
+   */
+  async replaceRecords(contents: DataStoreContents, profileIds: string[]): Promise<boolean> {
+    try {
+      const { profiles } = await firstValueFrom(this.storageService.getProfileRegistry());
+      const existingIds = profiles.map(profile => profile.id);
+      const encrypt = this.encryptionService.isEnabled();
+      const records = await Promise.all(
+        this.STORE_NAMES.flatMap(store =>
+          (contents[store] as DataRecord[])
+            .filter(record => existingIds.includes(record.profileId))
+            .map(async record => ({ store, record: await this.prepareRecord(record, encrypt) }))
+        )
+      );
+
+      await this.repository.transaction(this.STORE_NAMES, 'readwrite', async transaction => {
+        await this.deleteProfileRecords(transaction, [...new Set([...existingIds, ...profileIds])]);
+        for (const { store, record } of records) {
+          await transaction.put(store, record as DataStoreRecords[DataStoreName]);
+        }
+      });
+      await this.onWriteSucceeded();
+      return true;
+    } catch (error) {
+      await this.onWriteFailed('Failed to replace records in the data store:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Reads the records of every profile, as stored
+   * @returns Promise resolving with the records and their object stores
+   * @private
+   */
+  private async readAllRecords(): Promise<
+    { store: DataStoreName; record: DataStoreRecords[DataStoreName] }[]
+  > {
+    const { profiles } = await firstValueFrom(this.storageService.getProfileRegistry());
+    return this.repository.transaction(this.STORE_NAMES, 'readonly', async transaction => {
+      const found: { store: DataStoreName; record: DataStoreRecords[DataStoreName] }[] = [];
+      for (const store of this.STORE_NAMES) {
+        for (const profile of profiles) {
+          const profileRecords = await transaction.query(store, { profileId: profile.id });
+          found.push(...profileRecords.map(record => ({ store, record })));
+        }
+      }
+      return found;
+    });
+  }
+
+  /**
+   * Deletes the records of profiles from every object store
+   * @param transaction - Read-write transaction over every object store
+   * @param profileIds - Identifiers of the profiles
+   * @returns Promise resolving once the records are deleted
+   * @private
+   */
+  private async deleteProfileRecords(
+    transaction: DataTransaction,
+    profileIds: string[]
+  ): Promise<void> {
+    for (const store of this.STORE_NAMES) {
+      for (const profileId of profileIds) {
+        const records = await transaction.query(store, { profileId });
+        for (const record of records) {
+          await transaction.delete(store, record.id);
+        }
+      }
+    }
+  }
+
+  /**
+   * Runs a query on the active profile's records
+   * @param store - Object store to read
+   * @param range - Date or pregnancy day range
+   * @returns Promise resolving with the matching records, empty on failure
+   * @private
+   */
+  private async queryActiveProfile<S extends DataStoreName>(
+    store: S,
+    range: Omit<DataQuery, 'profileId'>
+  ): Promise<DataStoreRecords[S][]> {
+    const profile = this.storageService.getActiveProfile();
+    if (!profile) {
+      return [];
+    }
+
+    try {
+      const records = await this.repository.transaction([store], 'readonly', transaction =>
+        transaction.query(store, { ...range, profileId: profile.id })
+      );
+      return await Promise.all(records.map(record => this.openRecord(record)));
+    } catch (error) {
+      console.error('Failed to read records from the data store:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Encrypts a record's contents, leaving out the indexed fields
+   * @param record - Record or new record contents
+   * @returns Promise resolving with the encrypted contents
+   * @private
+   */
+  private async sealContent(record: object): Promise<SealedContent> {
+    const fields: Record<string, unknown> = {};
+    const files: SealedContent['files'] = {};
+
+    for (const [name, value] of Object.entries(record)) {
+      if ((this.INDEXED_FIELDS as string[]).includes(name) || name === 'sealed') {
+        continue;
+      }
+      if (value instanceof Blob) {
+        files[name] = await this.encryptionService.encryptBlob(value);
+      } else {
+        fields[name] = value;
+      }
+    }
+
+    return { fields: await this.encryptionService.encryptText(JSON.stringify(fields)), files };
+  }
+
+  /**
+   * Decrypts a record's contents, when encrypted
+   * @param record - Record as stored
+   * @returns Promise resolving with the record and its contents
+   * @private
+   */
+  private async openRecord<R extends DataRecord>(record: R): Promise<R> {
+    const { sealed, ...indexed } = record;
+    if (!sealed) {
+      return record;
+    }
+
+    const fields = JSON.parse(await this.encryptionService.decryptText(sealed.fields));
+    const files: Record<string, Blob> = {};
+    for (const [name, file] of Object.entries(sealed.files)) {
+      files[name] = await this.encryptionService.decryptBlob(file);
+    }
+    return { ...indexed, ...fields, ...files };
+  }
+
+  /**
+   * Gets an unencrypted record as it is to be stored
+   * @param record - Unencrypted record
+   * @param encrypt - Whether the record's contents should be encrypted
+   * @returns Promise resolving with the record to store
+   * @private
+   */
+  private async prepareRecord(record: DataRecord, encrypt: boolean): Promise<DataRecord> {
+    return encrypt
+      ? { ...this.pickIndexedFields(record), sealed: await this.sealContent(record) }
+      : record;
+  }
+
+  /**
+   * Copies the fields kept unencrypted
+   * @param record - Record to copy from
+   * @returns Indexed fields of the record
+   * @private
+   */
+  private pickIndexedFields(record: DataRecord): DataRecord {
+    const { id, profileId, date, pregnancyDay, createdAt, updatedAt } = record;
+    return { id, profileId, date, pregnancyDay, createdAt, updatedAt };
+  }
+
+  /**
+   * Clears the quota exceeded state once a write succeeds and refreshes the quota
+   * @returns Promise resolving once the quota is refreshed
+   * @private
+   */
+  private async onWriteSucceeded(): Promise<void> {
+    this.quotaExceeded = false;
+    await this.refreshQuota();
+  }
+
+  /**
+   * Logs a failed write, noting when the browser refused it for lack of space
+   * @param message - Log message
+   * @param error - Error the write failed with
+   * @returns Promise resolving once the quota is refreshed
+   * @private
+   */
+  private async onWriteFailed(message: string, error: unknown): Promise<void> {
+    console.error(message, error);
+    if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+      this.quotaExceeded = true;
+      await this.refreshQuota();
+    }
+  }
+}
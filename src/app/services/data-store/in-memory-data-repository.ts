@@ -0,0 +1,128 @@
+import { DataQuery, DataStoreName, DataStoreRecords } from '../../models/pregnancy.models';
+import { DataRepository, DataTransaction, DataTransactionMode } from './data-repository';
+
+/**
+ * Record held by the in-memory repository, of any object store
+ */
+type StoredRecord = DataStoreRecords[DataStoreName];
+
+/**
+ * Data repository kept in memory, with the same ordering and transaction
+ * behaviour as IndexedDB
+ * Used when the browser has no IndexedDB, and as the fake data store in tests
+ */
+export class InMemoryDataRepository implements DataRepository {
+  /** Records of each object store by identifier */
+  private stores = new Map<DataStoreName, Map<string, StoredRecord>>();
+
+  /** Transactions run one at a time, like overlapping IndexedDB transactions */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Runs work in one transaction over the given object stores
+   * Writes go to copies of the stores, which replace them only when the work resolves
+   * @param stores - Object stores the work uses
+   * @param mode - Whether the work writes
+   * @param work - Work to run, using only the transaction's operations
+   * @returns Promise resolving with the work's result once committed
+   */
+  transaction<T>(
+    stores: DataStoreName[],
+    mode: DataTransactionMode,
+    work: (transaction: DataTransaction) => Promise<T>
+  ): Promise<T> {
+    const run = this.queue.then(() => this.runTransaction(stores, mode, work));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Runs a transaction's work against copies of its stores and commits them on success
+   * @param stores - Object stores the work uses
+   * @param mode - Whether the work writes
+   * @param work - Work to run
+   * @returns Promise resolving with the work's result
+   * @private
+   */
+  private async runTransaction<T>(
+    stores: DataStoreName[],
+    mode: DataTransactionMode,
+    work: (transaction: DataTransaction) => Promise<T>
+  ): Promise<T> {
+    const copies = new Map(
+      stores.map(store => [store, new Map(this.stores.get(store) ?? [])] as const)
+    );
+
+    const getStore = (store: DataStoreName, write: boolean): Map<string, StoredRecord> => {
+      const copy = copies.get(store);
+      if (!copy) {
+        throw new DOMException(`The ${store} store is not in the transaction.`, 'NotFoundError');
+      }
+      if (write && mode === 'readonly') {
+        throw new DOMException('The transaction is read-only.', 'ReadOnlyError');
+      }
+      return copy;
+    };
+
+    const result = await work({
+      get: async <S extends DataStoreName>(
+        store: S,
+        id: string
+      ): Promise<DataStoreRecords[S] | undefined> => {
+        const record = getStore(store, false).get(id) as DataStoreRecords[S] | undefined;
+        return record && { ...record };
+      },
+      put: async <S extends DataStoreName>(
+        store: S,
+        record: DataStoreRecords[S]
+      ): Promise<void> => {
+        getStore(store, true).set(record.id, { ...record });
+      },
+      delete: async (store: DataStoreName, id: string): Promise<void> => {
+        getStore(store, true).delete(id);
+      },
+      query: async <S extends DataStoreName>(
+        store: S,
+        query: DataQuery
+      ): Promise<DataStoreRecords[S][]> =>
+        this.queryRecords([...getStore(store, false).values()], query).map(
+          record => ({ ...record }) as DataStoreRecords[S]
+        ),
+    });
+
+    if (mode === 'readwrite') {
+      copies.forEach((copy, store) => this.stores.set(store, copy));
+    }
+    return result;
+  }
+
+  /**
+   * Filters and orders records the way the IndexedDB indexes do
+   * @param records - All records of a store
+   * @param query - Profile and optional date or pregnancy day range
+   * @returns Matching records ordered by index key, then identifier
+   * @private
+   */
+  private queryRecords(records: StoredRecord[], query: DataQuery): StoredRecord[] {
+    const byId = (a: StoredRecord, b: StoredRecord): number => (a.id < b.id ? -1 : 1);
+    const profileRecords = records.filter(record => record.profileId === query.profileId);
+
+    const { pregnancyDay, date } = query;
+    if (pregnancyDay) {
+      return profileRecords
+        .filter(
+          record =>
+            record.pregnancyDay !== undefined &&
+            record.pregnancyDay >= pregnancyDay.from &&
+            record.pregnancyDay <= pregnancyDay.to
+        )
+        .sort((a, b) => (a.pregnancyDay ?? 0) - (b.pregnancyDay ?? 0) || byId(a, b));
+    }
+    if (date) {
+      return profileRecords
+        .filter(record => record.date >= date.from && record.date <= date.to)
+        .sort((a, b) => a.date.localeCompare(b.date) || byId(a, b));
+    }
+    return profileRecords.sort(byId);
+  }
+}
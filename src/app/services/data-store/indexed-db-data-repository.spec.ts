@@ -0,0 +1,136 @@
+import { IndexedDbDataRepository } from './indexed-db-data-repository';
+import { JournalEntry } from '../../models/pregnancy.models';
+
+describe('IndexedDbDataRepository', () => {
+  const databaseName = 'pregnancy_calendar_spec';
+  let repository: IndexedDbDataRepository;
+
+  /** Creates a repository using the spec's database */
+  const createRepository = (databaseVersion = 1): IndexedDbDataRepository =>
+    Object.assign(new IndexedDbDataRepository(indexedDB), {
+      DATABASE_NAME: databaseName,
+      DATABASE_VERSION: databaseVersion,
+    });
+
+  /** Creates a journal entry */
+  const entry = (
+    id: string,
+    profileId: string,
+    date: string,
+    pregnancyDay?: number
+  ): JournalEntry => ({
+    id,
+    profileId,
+    date,
+    pregnancyDay,
+    createdAt: '2025-03-01T00:00:00.000Z',
+    updatedAt: '2025-03-01T00:00:00.000Z',
+    text: `Note ${id}`,
+  });
+
+  /** Completes an IndexedDB request */
+  const complete = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      request.onsuccess = (): void => resolve(request.result);
+      request.onerror = (): void => reject(request.error);
+    });
+
+  beforeEach(() => {
+    repository = createRepository();
+  });
+
+  afterEach(async () => {
+    // Open connections close themselves when the database is deleted
+    await complete(indexedDB.deleteDatabase(databaseName));
+  });
+
+  it('should put, get and delete records', async () => {
+    await repository.transaction(['journal'], 'readwrite', transaction =>
+      transaction.put('journal', entry('a', 'profile-1', '2025-03-10'))
+    );
+
+    expect(
+      await repository.transaction(['journal'], 'readonly', transaction =>
+        transaction.get('journal', 'a')
+      )
+    ).toEqual(entry('a', 'profile-1', '2025-03-10'));
+
+    await repository.transaction(['journal'], 'readwrite', transaction =>
+      transaction.delete('journal', 'a')
+    );
+
+    expect(
+      await repository.transaction(['journal'], 'readonly', transaction =>
+        transaction.get('journal', 'a')
+      )
+    ).toBeUndefined();
+  });
+
+  it("should list one profile's records by date and by pregnancy day", async () => {
+    await repository.transaction(['journal'], 'readwrite', async transaction => {
+      await transaction.put('journal', entry('a', 'profile-1', '2025-03-12', 70));
+      await transaction.put('journal', entry('b', 'profile-1', '2025-03-05', 63));
+      await transaction.put('journal', entry('c', 'profile-1', '2025-04-01', 90));
+      await transaction.put('journal', entry('d', 'profile-2', '2025-03-06', 64));
+    });
+
+    const results = await repository.transaction(['journal'], 'readonly', async transaction => ({
+      all: await transaction.query('journal', { profileId: 'profile-1' }),
+      byDate: await transaction.query('journal', {
+        profileId: 'profile-1',
+        date: { from: '2025-03-01', to: '2025-03-31' },
+      }),
+      byDay: await transaction.query('journal', {
+        profileId: 'profile-1',
+        pregnancyDay: { from: 60, to: 80 },
+      }),
+    }));
+
+    expect(results.all.map(record => record.id).sort()).toEqual(['a', 'b', 'c']);
+    expect(results.byDate.map(record => record.id)).toEqual(['b', 'a']);
+    expect(results.byDay.map(record => record.pregnancyDay)).toEqual([63, 70]);
+  });
+
+  it('should commit nothing when the work fails', async () => {
+    await expectAsync(
+      repository.transaction(['journal'], 'readwrite', async transaction => {
+        await transaction.put('journal', entry('a', 'profile-1', '2025-03-10'));
+        throw new Error('Interrupted');
+      })
+    ).toBeRejectedWithError('Interrupted');
+
+    expect(
+      await repository.transaction(['journal'], 'readonly', transaction =>
+        transaction.query('journal', { profileId: 'profile-1' })
+      )
+    ).toEqual([]);
+  });
+
+  it('should add missing object stores and indexes when upgrading, keeping records', async () => {
+    // A database from an older schema, with one store and no pregnancy day index
+    const request = indexedDB.open(databaseName, 1);
+    request.onupgradeneeded = (): void => {
+      const store = request.result.createObjectStore('journal', { keyPath: 'id' });
+      store.createIndex('profileId', 'profileId');
+      store.createIndex('date', ['profileId', 'date']);
+      store.put(entry('a', 'profile-1', '2025-03-10', 68));
+    };
+    (await complete(request)).close();
+
+    repository = createRepository(2);
+    const results = await repository.transaction(
+      ['journal', 'healthLog', 'media'],
+      'readonly',
+      async transaction => ({
+        journal: await transaction.query('journal', {
+          profileId: 'profile-1',
+          pregnancyDay: { from: 0, to: 280 },
+        }),
+        media: await transaction.query('media', { profileId: 'profile-1' }),
+      })
+    );
+
+    expect(results.journal.map(record => record.id)).toEqual(['a']);
+    expect(results.media).toEqual([]);
+  });
+});
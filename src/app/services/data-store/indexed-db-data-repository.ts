@@ -0,0 +1,193 @@
+import { DataQuery, DataStoreName, DataStoreRecords } from '../../models/pregnancy.models';
+import { DataRepository, DataTransaction, DataTransactionMode } from './data-repository';
+
+/**
+ * Index of an object store, keyed by profile so one profile's records are read together
+ */
+interface DataStoreIndex {
+  name: 'profileId' | 'date' | 'pregnancyDay';
+  keyPath: string | string[];
+}
+
+/**
+ * Data repository backed by IndexedDB
+ * Every object store holds records keyed by identifier, with indexes by profile,
+ * by profile and date, and by profile and pregnancy day
+ */
+export class IndexedDbDataRepository implements DataRepository {
+  /** Name of the IndexedDB database */
+  private readonly DATABASE_NAME = 'pregnancy_calendar';
+
+  /** Version of the database schema; bump it and extend upgrade() to change stores or indexes */
+  private readonly DATABASE_VERSION = 1;
+
+  /** Object stores of the database */
+  private readonly STORE_NAMES: DataStoreName[] = ['journal', 'healthLog', 'media'];
+
+  /** Indexes created on every object store */
+  private readonly INDEXES: DataStoreIndex[] = [
+    { name: 'profileId', keyPath: 'profileId' },
+    { name: 'date', keyPath: ['profileId', 'date'] },
+    { name: 'pregnancyDay', keyPath: ['profileId', 'pregnancyDay'] },
+  ];
+
+  /** Open connection, created on first use */
+  private database: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param factory - IndexedDB factory to open the database with
+   */
+  constructor(private factory: IDBFactory) {}
+
+  /**
+   * Runs work in one IndexedDB transaction over the given object stores
+   * The transaction is aborted when the work rejects; a write refused for lack of space
+   * rejects with a QuotaExceededError DOMException
+   * @param stores - Object stores the work uses
+   * @param mode - Whether the work writes
+   * @param work - Work to run, using only the transaction's operations
+   * @returns Promise resolving with the work's result once committed
+   */
+  async transaction<T>(
+    stores: DataStoreName[],
+    mode: DataTransactionMode,
+    work: (transaction: DataTransaction) => Promise<T>
+  ): Promise<T> {
+    const database = await this.open();
+    const transaction = database.transaction(stores, mode);
+    const completion = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = (): void => resolve();
+      transaction.onabort = (): void =>
+        reject(transaction.error ?? new Error('The transaction was aborted.'));
+    });
+
+    try {
+      const result = await work(this.createTransaction(transaction));
+      await completion;
+      return result;
+    } catch (error) {
+      completion.catch(() => undefined);
+      try {
+        transaction.abort();
+      } catch {
+        // The transaction already finished
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Opens the database once, creating or upgrading its object stores
+   * @returns Promise resolving with the open connection
+   * @private
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = this.factory.open(this.DATABASE_NAME, this.DATABASE_VERSION);
+        request.onupgradeneeded = (): void => this.upgrade(request);
+        request.onsuccess = (): void => {
+          const database = request.result;
+          // Let a newer version of the app open in another tab upgrade the database
+          database.onversionchange = (): void => {
+            database.close();
+            this.database = null;
+          };
+          resolve(database);
+        };
+        request.onerror = (): void => reject(request.error);
+        request.onblocked = (): void =>
+          reject(new Error('The data store is open in an older version of the app.'));
+      }).catch(error => {
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * Creates the object stores and indexes missing from the database
+   * @param request - Open request in its upgrade transaction
+   * @private
+   */
+  private upgrade(request: IDBOpenDBRequest): void {
+    const database = request.result;
+    const transaction = request.transaction;
+    if (!transaction) {
+      return;
+    }
+
+    for (const storeName of this.STORE_NAMES) {
+      const store = database.objectStoreNames.contains(storeName)
+        ? transaction.objectStore(storeName)
+        : database.createObjectStore(storeName, { keyPath: 'id' });
+
+      for (const index of this.INDEXES) {
+        if (!store.indexNames.contains(index.name)) {
+          store.createIndex(index.name, index.keyPath);
+        }
+      }
+    }
+  }
+
+  /**
+   * Wraps an IndexedDB transaction in the repository's transaction operations
+   * @param transaction - Active IndexedDB transaction
+   * @returns Transaction operations
+   * @private
+   */
+  private createTransaction(transaction: IDBTransaction): DataTransaction {
+    return {
+      get: <S extends DataStoreName>(
+        store: S,
+        id: string
+      ): Promise<DataStoreRecords[S] | undefined> =>
+        this.request(transaction.objectStore(store).get(id)),
+      put: <S extends DataStoreName>(store: S, record: DataStoreRecords[S]): Promise<void> =>
+        this.request(transaction.objectStore(store).put(record)).then(() => undefined),
+      delete: (store: DataStoreName, id: string): Promise<void> =>
+        this.request(transaction.objectStore(store).delete(id)),
+      query: <S extends DataStoreName>(
+        store: S,
+        query: DataQuery
+      ): Promise<DataStoreRecords[S][]> =>
+        this.request(this.getQueryIndex(transaction.objectStore(store), query)),
+    };
+  }
+
+  /**
+   * Starts reading the records matching a query from the index it uses
+   * @param store - Object store to read
+   * @param query - Profile and optional date or pregnancy day range
+   * @returns Request for the matching records in index order
+   * @private
+   */
+  private getQueryIndex(store: IDBObjectStore, query: DataQuery): IDBRequest {
+    const { profileId } = query;
+    if (query.pregnancyDay) {
+      const { from, to } = query.pregnancyDay;
+      return store
+        .index('pregnancyDay')
+        .getAll(IDBKeyRange.bound([profileId, from], [profileId, to]));
+    }
+    if (query.date) {
+      const { from, to } = query.date;
+      return store.index('date').getAll(IDBKeyRange.bound([profileId, from], [profileId, to]));
+    }
+    return store.index('profileId').getAll(IDBKeyRange.only(profileId));
+  }
+
+  /**
+   * Converts an IndexedDB request to a promise
+   * @param request - Pending request
+   * @returns Promise resolving with the request's result
+   * @private
+   */
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      request.onsuccess = (): void => resolve(request.result);
+      request.onerror = (): void => reject(request.error);
+    });
+  }
+}
@@ -0,0 +1,78 @@
+import { TestBed } from '@angular/core/testing';
+
+import { DateFormatService } from './date-format.service';
+
+describe('DateFormatService', () => {
+  let service: DateFormatService;
+  const date = new Date(2025, 9, 8, 22, 15);
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(DateFormatService);
+    service.setLocale('en-US');
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should default to the US format used by legacy preferences', () => {
+    expect(service.getDateFormatSync()).toBe('MM/DD/YYYY');
+    expect(service.format(date)).toBe('10/08/2025');
+  });
+
+  it('should format dates with each preset', () => {
+    expect(service.format(date, 'DD/MM/YYYY')).toBe('08/10/2025');
+    expect(service.format(date, 'YYYY-MM-DD')).toBe('2025-10-08');
+    expect(service.format(date, 'long')).toBe('October 8, 2025');
+    expect(service.format(date, 'locale')).toBe('10/8/2025');
+  });
+
+  it('should follow the locale for written-out dates', () => {
+    service.setLocale('en-GB');
+
+    expect(service.format(date, 'long')).toBe('8 October 2025');
+    expect(service.format(date, 'locale')).toBe('08/10/2025');
+  });
+
+  it('should apply the selected format to later calls', () => {
+    service.setDateFormat('YYYY-MM-DD');
+    expect(service.format(date)).toBe('2025-10-08');
+
+    service.setDateFormat(undefined);
+    expect(service.format(date)).toBe('10/08/2025');
+  });
+
+  it('should keep the field order of the format in filenames', () => {
+    expect(service.formatForFilename(date)).toBe('10-08-2025');
+
+    service.setDateFormat('DD/MM/YYYY');
+    expect(service.formatForFilename(date)).toBe('08-10-2025');
+
+    service.setDateFormat('YYYY-MM-DD');
+    expect(service.formatForFilename(date)).toBe('2025-10-08');
+
+    service.setLocale('en-GB');
+    service.setDateFormat('long');
+    expect(service.formatForFilename(date)).toBe('08-10-2025');
+  });
+
+  it('should list every preset with an example', () => {
+    const formats = service.getAvailableDateFormats();
+
+    expect(formats.map(format => format.value)).toEqual([
+      'MM/DD/YYYY',
+      'DD/MM/YYYY',
+      'YYYY-MM-DD',
+      'long',
+      'locale',
+    ]);
+    expect(formats[1].example).toBe('08/10/2025');
+  });
+
+  it('should recognise supported date formats only', () => {
+    expect(service.isDateFormat('long')).toBe(true);
+    expect(service.isDateFormat('toString')).toBe(false);
+    expect(service.isDateFormat(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,215 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { DateFormat } from '../../models/pregnancy.models';
+import { MessageKey } from '../../i18n/messages.en';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { I18nService } from '../i18n/i18n.service';
+
+/**
+ * Service responsible for showing dates in the user's chosen format
+ * The single place dates are turned into text for the UI, exports and filenames
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class DateFormatService {
+  /** Format used by legacy preferences that never chose one */
+  readonly DEFAULT_DATE_FORMAT: DateFormat = 'MM/DD/YYYY';
+
+  /** Current date format subject */
+  private dateFormatSubject = new BehaviorSubject<DateFormat>(this.DEFAULT_DATE_FORMAT);
+
+  /** Locale used by the long-form and locale default formats (follows the display language) */
+  private locale: string = 'en-US';
+
+  /** Message keys of the display labels for each date format preset */
+  private readonly DATE_FORMATS: Record<
+    DateFormat,
+    { label: MessageKey; description: MessageKey }
+  > = {
+    'MM/DD/YYYY': { label: 'dateFormat.us', description: 'dateFormat.usDescription' },
+    'DD/MM/YYYY': { label: 'dateFormat.dayFirst', description: 'dateFormat.dayFirstDescription' },
+    'YYYY-MM-DD': { label: 'dateFormat.iso', description: 'dateFormat.isoDescription' },
+    long: { label: 'dateFormat.long', description: 'dateFormat.longDescription' },
+    locale: { label: 'dateFormat.locale', description: 'dateFormat.localeDescription' },
+  };
+
+  /** Date shown as the example for each preset */
+  private readonly SAMPLE_DATE = CalendarDate.of(2025, 10, 8);
+
+  constructor(private i18nService: I18nService) {
+    // Written-out dates follow the display language
+    this.i18nService.getLanguage().subscribe(() => {
+      this.locale = this.i18nService.getLocale();
+    });
+  }
+
+  /**
+   * Gets the date format presets for selection
+   * @returns Array of presets with labels and an example date
+   */
+  getAvailableDateFormats(): Array<{
+    value: DateFormat;
+    label: string;
+    description: string;
+    example: string;
+  }> {
+    return (Object.keys(this.DATE_FORMATS) as DateFormat[]).map(value => ({
+      value,
+      label: this.i18nService.translate(this.DATE_FORMATS[value].label),
+      description: this.i18nService.translate(this.DATE_FORMATS[value].description),
+      example: this.format(this.SAMPLE_DATE.toDate(), value),
+    }));
+  }
+
+  /**
+   * Checks whether a value is a supported date format
+   * @param value - Value to check
+   * @returns Boolean indicating if the value is a date format preset
+   */
+  isDateFormat(value: unknown): value is DateFormat {
+    return typeof value === 'string' && Object.keys(this.DATE_FORMATS).includes(value);
+  }
+
+  /**
+   * Gets the current date format as an Observable
+   * @returns Observable of the current date format
+   */
+  getDateFormat(): Observable<DateFormat> {
+    return this.dateFormatSubject.asObservable();
+  }
+
+  /**
+   * Gets the current date format synchronously
+   * @returns Current date format
+   */
+  getDateFormatSync(): DateFormat {
+    return this.dateFormatSubject.value;
+  }
+
+  /**
+   * Sets the date format used everywhere dates are shown
+   * @param dateFormat - Date format to use (the default when absent)
+   */
+  setDateFormat(dateFormat: DateFormat | undefined): void {
+    this.dateFormatSubject.next(dateFormat ?? this.DEFAULT_DATE_FORMAT);
+  }
+
+  /**
+   * Gets the locale used for written-out dates
+   * @returns BCP 47 locale tag
+   */
+  getLocale(): string {
+    return this.locale;
+  }
+
+  /**
+   * Sets the locale used for written-out dates
+   * Overridden again by the next display language change
+   * @param locale - BCP 47 locale tag (e.g. "en-GB")
+   */
+  setLocale(locale: string): void {
+    this.locale = locale;
+  }
+
+  /**
+   * Formats a date in the user's date format
+   * @param date - Date to format (its local calendar date is shown)
+   * @param dateFormat - Format to use (defaults to the current format)
+   * @returns Formatted date string
+   */
+  format(date: Date, dateFormat: DateFormat = this.getDateFormatSync()): string {
+    const { year, month, day } = CalendarDate.fromDate(date);
+    const mm = this.pad(month);
+    const dd = this.pad(day);
+
+    switch (dateFormat) {
+      case 'DD/MM/YYYY':
+        return `${dd}/${mm}/${year}`;
+      case 'YYYY-MM-DD':
+        return `${year}-${mm}-${dd}`;
+      case 'long':
+        return new Intl.DateTimeFormat(this.locale, { dateStyle: 'long' }).format(date);
+      case 'locale':
+        return new Intl.DateTimeFormat(this.locale).format(date);
+      default:
+        return `${mm}/${dd}/${year}`;
+    }
+  }
+
+  /**
+   * Formats a date range in the user's date format
+   * @param start - First date of the range
+   * @param end - Last date of the range
+   * @returns Formatted range (e.g. "10/01/2025 - 10/31/2025")
+   */
+  formatRange(start: Date, end: Date): string {
+    return `${this.format(start)} - ${this.format(end)}`;
+  }
+
+  /**
+   * Gets the short weekday name of a date in the current locale
+   * @param date - Date to read
+   * @returns Weekday name (e.g. "Wed")
+   */
+  formatWeekday(date: Date): string {
+    return new Intl.DateTimeFormat(this.locale, { weekday: 'short' }).format(date);
+  }
+
+  /**
+   * Formats a date for use in a filename
+   * Keeps the day, month and year order of the user's format, separated by dashes
+   * @param date - Date to format
+   * @returns Filename-safe date string (e.g. "08-10-2025" for DD/MM/YYYY)
+   */
+  formatForFilename(date: Date): string {
+    const { year, month, day } = CalendarDate.fromDate(date);
+    const parts: Record<'year' | 'month' | 'day', string> = {
+      year: year.toString(),
+      month: this.pad(month),
+      day: this.pad(day),
+    };
+
+    return this.getFieldOrder()
+      .map(field => parts[field])
+      .join('-');
+  }
+
+  /**
+   * Gets the order of the day, month and year fields in the current format
+   * Written-out formats follow the locale's numeric order
+   * @returns Field names in display order
+   * @private
+   */
+  private getFieldOrder(): Array<'year' | 'month' | 'day'> {
+    switch (this.getDateFormatSync()) {
+      case 'MM/DD/YYYY':
+        return ['month', 'day', 'year'];
+      case 'DD/MM/YYYY':
+        return ['day', 'month', 'year'];
+      case 'YYYY-MM-DD':
+        return ['year', 'month', 'day'];
+      default:
+        return new Intl.DateTimeFormat(this.locale, {
+          year: 'numeric',
+          month: '2-digit',
+          day: '2-digit',
+        })
+          .formatToParts(this.SAMPLE_DATE.toDate())
+          .map(part => part.type)
+          .filter((type): type is 'year' | 'month' | 'day' =>
+            ['year', 'month', 'day'].includes(type)
+          );
+    }
+  }
+
+  /**
+   * Pads a month or day number to two digits
+   * @param value - Number to pad
+   * @returns Two-digit string
+   * @private
+   */
+  private pad(value: number): string {
+    return value.toString().padStart(2, '0');
+  }
+}
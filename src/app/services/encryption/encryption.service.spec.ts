@@ -0,0 +1,127 @@
+import { TestBed } from '@angular/core/testing';
+
+import { EncryptionService } from './encryption.service';
+import { ClockService } from '../clock/clock.service';
+
+describe('EncryptionService', () => {
+  let service: EncryptionService;
+  const preferencesKey = 'pregnancy_calendar_preferences';
+  const preferences = '{"lastMenstrualPeriod":"2025-01-01"}';
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(EncryptionService);
+    // Fewer PBKDF2 iterations keep the tests fast; the envelope records the count used
+    Object.assign(service, { PBKDF2_ITERATIONS: 1000 });
+    spyOn(console, 'error');
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should use localStorage while encryption is off', () => {
+    expect(service.isEnabled()).toBe(false);
+    expect(service.isLocked()).toBe(false);
+    expect(service.getStorage()).toBe(localStorage);
+  });
+
+  it('should move stored values into the encrypted vault', async () => {
+    localStorage.setItem(preferencesKey, preferences);
+    localStorage.setItem('unrelated_key', 'kept');
+
+    expect(await service.enable('correct horse')).toBe(true);
+
+    expect(service.isEnabled()).toBe(true);
+    expect(localStorage.getItem(preferencesKey)).toBeNull();
+    expect(localStorage.getItem('unrelated_key')).toBe('kept');
+    expect(localStorage.getItem('pregnancy_calendar_vault')).not.toContain('lastMenstrualPeriod');
+    expect(service.getStorage().getItem(preferencesKey)).toBe(preferences);
+  });
+
+  it('should stay locked until the correct passphrase is entered', async () => {
+    localStorage.setItem(preferencesKey, preferences);
+    await service.enable('correct horse');
+    service.lock();
+
+    expect(service.isLocked()).toBe(true);
+    expect(() => service.getStorage()).toThrowError('The encrypted data is locked.');
+    expect(await service.unlock('wrong horse')).toBe(false);
+    expect(service.isLocked()).toBe(true);
+
+    expect(await service.unlock('correct horse')).toBe(true);
+    expect(service.getStorage().getItem(preferencesKey)).toBe(preferences);
+  });
+
+  it('should change the passphrase without re-encrypting the data', async () => {
+    await service.enable('correct horse');
+    const vault = localStorage.getItem('pregnancy_calendar_vault');
+
+    expect(await service.changePassphrase('wrong horse', 'battery staple')).toBe(false);
+    expect(await service.changePassphrase('correct horse', 'battery staple')).toBe(true);
+
+    expect(localStorage.getItem('pregnancy_calendar_vault')).toBe(vault);
+    expect(await service.verifyPassphrase('correct horse')).toBe(false);
+    expect(await service.verifyPassphrase('battery staple')).toBe(true);
+  });
+
+  it('should unlock with the recovery key file and set a new passphrase', async () => {
+    spyOn(TestBed.inject(ClockService), 'systemNow').and.returnValue(
+      new Date('2025-03-01T10:00:00.000Z')
+    );
+    localStorage.setItem(preferencesKey, preferences);
+    await service.enable('correct horse');
+    const recoveryKeyFile = await service.createRecoveryKeyFile();
+    expect(JSON.parse(recoveryKeyFile).createdAt).toBe('2025-03-01T10:00:00.000Z');
+    service.lock();
+
+    expect(await service.recover('{"type":"other"}', 'battery staple')).toBe(false);
+    expect(await service.recover(recoveryKeyFile, 'battery staple')).toBe(true);
+
+    expect(service.getStorage().getItem(preferencesKey)).toBe(preferences);
+    expect(await service.verifyPassphrase('battery staple')).toBe(true);
+  });
+
+  it('should report a failed save of the encrypted copy until a later save succeeds', async () => {
+    await service.enable('correct horse');
+    const saveFailed: boolean[] = [];
+    service.getSaveFailed().subscribe(failed => saveFailed.push(failed));
+
+    const setItem = spyOn(Object.getPrototypeOf(localStorage) as Storage, 'setItem').and.throwError(
+      new DOMException('Not enough space', 'QuotaExceededError')
+    );
+    service.getStorage().setItem(preferencesKey, preferences);
+    await service['vaultWrites'];
+    expect(saveFailed[saveFailed.length - 1]).toBe(true);
+
+    setItem.and.callThrough();
+    service.getStorage().setItem(preferencesKey, preferences);
+    await service['vaultWrites'];
+    expect(saveFailed[saveFailed.length - 1]).toBe(false);
+  });
+
+  it('should write the current values back to localStorage when turned off', async () => {
+    await service.enable('correct horse');
+    service.getStorage().setItem(preferencesKey, preferences);
+
+    expect(await service.disable()).toBe(true);
+
+    expect(service.isEnabled()).toBe(false);
+    expect(localStorage.getItem(preferencesKey)).toBe(preferences);
+    expect(localStorage.getItem('pregnancy_calendar_vault')).toBeNull();
+  });
+
+  it('should encrypt and decrypt text and files with the data key', async () => {
+    await service.enable('correct horse');
+
+    const text = await service.encryptText('Felt the first kick');
+    expect(text.data).not.toContain('kick');
+    expect(await service.decryptText(text)).toBe('Felt the first kick');
+
+    const file = await service.encryptBlob(new Blob(['scan'], { type: 'image/png' }));
+    const decrypted = await service.decryptBlob(file);
+    expect(decrypted.type).toBe('image/png');
+    expect(await decrypted.text()).toBe('scan');
+  });
+});
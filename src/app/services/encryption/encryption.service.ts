@@ -0,0 +1,605 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import {
+  EncryptedPayload,
+  EncryptionEnvelope,
+  RecoveryKeyFile,
+} from '../../models/pregnancy.models';
+import { ClockService } from '../clock/clock.service';
+
+/**
+ * Key-value storage the app's data is kept in: localStorage, or the decrypted vault
+ */
+export type KeyValueStorage = Pick<
+  Storage,
+  'getItem' | 'setItem' | 'removeItem' | 'key' | 'length'
+>;
+
+/**
+ * Decrypted copy of the stored data, kept in memory while unlocked
+ * Every change is reported so the encrypted copy in localStorage is rewritten
+ */
+class VaultStorage implements KeyValueStorage {
+  constructor(
+    private entries: Map<string, string>,
+    private onChange: () => void
+  ) {}
+
+  /**
+   * Gets the number of stored values
+   * @returns Value count
+   */
+  get length(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Gets the key at a position
+   * @param index - Position of the key
+   * @returns Key, or null past the last value
+   */
+  key(index: number): string | null {
+    return [...this.entries.keys()][index] ?? null;
+  }
+
+  /**
+   * Gets a stored value
+   * @param key - Key of the value
+   * @returns Value, or null when none is stored
+   */
+  getItem(key: string): string | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  /**
+   * Stores a value
+   * @param key - Key of the value
+   * @param value - Value to store
+   */
+  setItem(key: string, value: string): void {
+    this.entries.set(key, String(value));
+    this.onChange();
+  }
+
+  /**
+   * Removes a stored value
+   * @param key - Key of the value
+   */
+  removeItem(key: string): void {
+    if (this.entries.delete(key)) {
+      this.onChange();
+    }
+  }
+
+  /**
+   * Copies the stored values
+   * @returns Stored values by key
+   */
+  toRecord(): Record<string, string> {
+    return Object.fromEntries(this.entries);
+  }
+}
+
+/**
+ * Service for the opt-in encryption of stored data with a passphrase
+ * A random AES-GCM data key encrypts the data; a key derived from the passphrase with
+ * PBKDF2 encrypts the data key. While encryption is on, localStorage only holds the wrapped
+ * data key and one encrypted copy of every other value, which is decrypted into memory on
+ * unlock and re-encrypted on each change.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class EncryptionService {
+  /** Prefix shared by every localStorage key of the app */
+  private readonly KEY_PREFIX = 'pregnancy_calendar_';
+
+  /** LocalStorage key of the wrapped data key; present while encryption is on */
+  private readonly ENVELOPE_KEY = 'pregnancy_calendar_encryption';
+
+  /** LocalStorage key of the encrypted copy of the app's other values */
+  private readonly VAULT_KEY = 'pregnancy_calendar_vault';
+
+  /** PBKDF2-SHA-256 iterations for new passphrases (OWASP Password Storage Cheat Sheet, 2023) */
+  private readonly PBKDF2_ITERATIONS = 600000;
+
+  /** PBKDF2 salt length in bytes */
+  private readonly SALT_BYTES = 16;
+
+  /** AES-GCM initialization vector length in bytes */
+  private readonly IV_BYTES = 12;
+
+  /** Data key while unlocked; kept after turning encryption off to read still-encrypted records */
+  private dataKey: CryptoKey | null = null;
+
+  /** Decrypted values while unlocked */
+  private vault: VaultStorage | null = null;
+
+  /** Pending writes of the encrypted copy, in order */
+  private vaultWrites: Promise<void> = Promise.resolve();
+
+  /** BehaviorSubject to emit whether the last write of the encrypted copy failed */
+  private saveFailedSubject = new BehaviorSubject<boolean>(false);
+
+  constructor(private clockService: ClockService) {}
+
+  /**
+   * Gets whether the encrypted copy could not be saved, as an observable
+   * Values changed since the last successful save are only kept in memory until a later
+   * change saves them, and are lost on reload
+   * @returns Observable emitting true after a failed save and false after a successful one
+   */
+  getSaveFailed(): Observable<boolean> {
+    return this.saveFailedSubject.asObservable();
+  }
+
+  /**
+   * Checks whether stored data is encrypted
+   * @returns boolean indicating if encryption is on
+   */
+  isEnabled(): boolean {
+    return localStorage.getItem(this.ENVELOPE_KEY) !== null;
+  }
+
+  /**
+   * Checks whether stored data is encrypted and waiting for the passphrase
+   * @returns boolean indicating if the data cannot be read yet
+   */
+  isLocked(): boolean {
+    return this.isEnabled() && !this.vault;
+  }
+
+  /**
+   * Gets the storage the app's values are read from and written to
+   * @returns localStorage, or the decrypted vault while encryption is on
+   * @throws Error while the data is locked
+   */
+  getStorage(): KeyValueStorage {
+    if (!this.isEnabled()) {
+      return localStorage;
+    }
+    if (!this.vault) {
+      throw new Error('The encrypted data is locked.');
+    }
+    return this.vault;
+  }
+
+  /**
+   * Turns encryption on, moving the app's stored values into the encrypted vault
+   * @param passphrase - Passphrase protecting the data key
+   * @returns Promise resolving with a boolean indicating success/failure
+   */
+  async enable(passphrase: string): Promise<boolean> {
+    if (this.isEnabled()) {
+      return false;
+    }
+
+    try {
+      const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, [
+        'encrypt',
+        'decrypt',
+      ]);
+      const entries = this.readPlainEntries();
+      const envelope = await this.createEnvelope(dataKey, passphrase);
+      const vault = await this.encrypt(dataKey, new TextEncoder().encode(JSON.stringify(entries)));
+
+      localStorage.setItem(this.VAULT_KEY, JSON.stringify(vault));
+      // The envelope switches encryption on, so it is written once the vault is in place
+      localStorage.setItem(this.ENVELOPE_KEY, JSON.stringify(envelope));
+      Object.keys(entries).forEach(key => localStorage.removeItem(key));
+
+      this.openVault(dataKey, entries);
+      return true;
+    } catch (error) {
+      console.error('Failed to turn on encryption:', error);
+      if (!this.isEnabled()) {
+        localStorage.removeItem(this.VAULT_KEY);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Unlocks the encrypted data with the passphrase
+   * @param passphrase - Passphrase protecting the data key
+   * @returns Promise resolving with false when the passphrase is wrong
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const dataKey = await this.unwrapDataKey(passphrase);
+    return !!dataKey && (await this.decryptVault(dataKey));
+  }
+
+  /**
+   * Unlocks the encrypted data with a recovery key file and sets a new passphrase
+   * @param recoveryKeyFile - Contents of the recovery key file
+   * @param newPassphrase - New passphrase protecting the data key
+   * @returns Promise resolving with false when the file does not unlock the data
+   */
+  async recover(recoveryKeyFile: string, newPassphrase: string): Promise<boolean> {
+    try {
+      const file: Partial<RecoveryKeyFile> = JSON.parse(recoveryKeyFile);
+      // The key is checked by decrypting the vault, so there must be one to decrypt
+      if (
+        file.type !== 'pregnancy-calendar-recovery-key' ||
+        typeof file.key !== 'string' ||
+        localStorage.getItem(this.VAULT_KEY) === null
+      ) {
+        return false;
+      }
+
+      const dataKey = await this.importDataKey(this.fromBase64(file.key));
+      if (!(await this.decryptVault(dataKey))) {
+        return false;
+      }
+
+      const envelope = await this.createEnvelope(dataKey, newPassphrase);
+      localStorage.setItem(this.ENVELOPE_KEY, JSON.stringify(envelope));
+      return true;
+    } catch (error) {
+      console.error('Failed to unlock with the recovery key:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Checks a passphrase against the wrapped data key
+   * @param passphrase - Passphrase to check
+   * @returns Promise resolving with a boolean indicating if the passphrase is correct
+   */
+  async verifyPassphrase(passphrase: string): Promise<boolean> {
+    return !!(await this.unwrapDataKey(passphrase));
+  }
+
+  /**
+   * Changes the passphrase, re-encrypting only the data key
+   * @param passphrase - Current passphrase
+   * @param newPassphrase - New passphrase
+   * @returns Promise resolving with false when the current passphrase is wrong
+   */
+  async changePassphrase(passphrase: string, newPassphrase: string): Promise<boolean> {
+    const dataKey = await this.unwrapDataKey(passphrase);
+    if (!dataKey) {
+      return false;
+    }
+
+    try {
+      const envelope = await this.createEnvelope(dataKey, newPassphrase);
+      localStorage.setItem(this.ENVELOPE_KEY, JSON.stringify(envelope));
+      return true;
+    } catch (error) {
+      console.error('Failed to change the passphrase:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Turns encryption off, writing the decrypted values back to localStorage
+   * @returns Promise resolving with a boolean indicating success/failure
+   */
+  async disable(): Promise<boolean> {
+    if (!this.vault) {
+      return false;
+    }
+
+    try {
+      await this.vaultWrites;
+      const entries = this.vault.toRecord();
+      Object.entries(entries).forEach(([key, value]) => localStorage.setItem(key, value));
+      localStorage.removeItem(this.ENVELOPE_KEY);
+      localStorage.removeItem(this.VAULT_KEY);
+      this.vault = null;
+      return true;
+    } catch (error) {
+      console.error('Failed to turn off encryption:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Forgets the data key and the decrypted values until the next unlock
+   */
+  lock(): void {
+    this.dataKey = null;
+    this.vault = null;
+  }
+
+  /**
+   * Creates the recovery key file of the unlocked data
+   * @returns Promise resolving with the file contents (JSON)
+   * @throws Error while the data is locked
+   */
+  async createRecoveryKeyFile(): Promise<string> {
+    const rawKey = await crypto.subtle.exportKey('raw', this.requireDataKey());
+    const file: RecoveryKeyFile = {
+      type: 'pregnancy-calendar-recovery-key',
+      version: 1,
+      createdAt: this.clockService.systemNow().toISOString(),
+      key: this.toBase64(new Uint8Array(rawKey)),
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Encrypts text with the data key
+   * @param text - Text to encrypt
+   * @returns Promise resolving with the encrypted text
+   * @throws Error while the data is locked
+   */
+  encryptText(text: string): Promise<EncryptedPayload> {
+    return this.encrypt(this.requireDataKey(), new TextEncoder().encode(text));
+  }
+
+  /**
+   * Decrypts text encrypted with the data key
+   * @param payload - Encrypted text
+   * @returns Promise resolving with the text
+   * @throws Error while the data is locked or when the payload was tampered with
+   */
+  async decryptText(payload: EncryptedPayload): Promise<string> {
+    return new TextDecoder().decode(await this.decrypt(this.requireDataKey(), payload));
+  }
+
+  /**
+   * Encrypts a file with the data key, keeping it binary
+   * @param blob - File to encrypt
+   * @returns Promise resolving with the encrypted file and its MIME type
+   * @throws Error while the data is locked
+   */
+  async encryptBlob(blob: Blob): Promise<{ iv: string; type: string; data: Blob }> {
+    const iv = crypto.getRandomValues(new Uint8Array(this.IV_BYTES));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.requireDataKey(),
+      await blob.arrayBuffer()
+    );
+    return { iv: this.toBase64(iv), type: blob.type, data: new Blob([data]) };
+  }
+
+  /**
+   * Decrypts a file encrypted with the data key
+   * @param file - Encrypted file and its MIME type
+   * @returns Promise resolving with the file
+   * @throws Error while the data is locked or when the file was tampered with
+   */
+  async decryptBlob(file: { iv: string; type: string; data: Blob }): Promise<Blob> {
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.fromBase64(file.iv) },
+      this.requireDataKey(),
+      await file.data.arrayBuffer()
+    );
+    return new Blob([data], { type: file.type });
+  }
+
+  /**
+   * Decrypts the vault into memory
+   * @param dataKey - Data key to decrypt with
+   * @returns Promise resolving with false when the key does not decrypt the vault
+   * @private
+   */
+  private async decryptVault(dataKey: CryptoKey): Promise<boolean> {
+    try {
+      const vaultJson = localStorage.getItem(this.VAULT_KEY);
+      const entries: Record<string, string> = vaultJson
+        ? JSON.parse(new TextDecoder().decode(await this.decrypt(dataKey, JSON.parse(vaultJson))))
+        : {};
+      this.openVault(dataKey, entries);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Keeps the data key and decrypted values in memory
+   * @param dataKey - Data key
+   * @param entries - Decrypted values by key
+   * @private
+   */
+  private openVault(dataKey: CryptoKey, entries: Record<string, string>): void {
+    this.dataKey = dataKey;
+    this.vault = new VaultStorage(new Map(Object.entries(entries)), () => this.writeVault());
+  }
+
+  /**
+   * Queues a write of the encrypted copy of the current values
+   * Every write holds all values, so a later write also saves what a failed one missed
+   * @private
+   */
+  private writeVault(): void {
+    const dataKey = this.dataKey;
+    const entries = this.vault?.toRecord();
+    if (!dataKey || !entries) {
+      return;
+    }
+
+    this.vaultWrites = this.vaultWrites
+      .then(async () => {
+        const vault = await this.encrypt(
+          dataKey,
+          new TextEncoder().encode(JSON.stringify(entries))
+        );
+        localStorage.setItem(this.VAULT_KEY, JSON.stringify(vault));
+        this.saveFailedSubject.next(false);
+      })
+      .catch(error => {
+        console.error('Failed to save encrypted data:', error);
+        this.saveFailedSubject.next(true);
+      });
+  }
+
+  /**
+   * Reads the app's unencrypted values from localStorage
+   * @returns Stored values by key
+   * @private
+   */
+  private readPlainEntries(): Record<string, string> {
+    const entries: Record<string, string> = {};
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      const value = key === null ? null : localStorage.getItem(key);
+      if (key?.startsWith(this.KEY_PREFIX) && value !== null) {
+        entries[key] = value;
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Wraps the data key with a key derived from a passphrase and a new salt
+   * @param dataKey - Data key to wrap
+   * @param passphrase - Passphrase to derive the wrapping key from
+   * @returns Promise resolving with the envelope to store
+   * @private
+   */
+  private async createEnvelope(
+    dataKey: CryptoKey,
+    passphrase: string
+  ): Promise<EncryptionEnvelope> {
+    const salt = crypto.getRandomValues(new Uint8Array(this.SALT_BYTES));
+    const wrappingKey = await this.deriveWrappingKey(passphrase, salt, this.PBKDF2_ITERATIONS);
+    const rawKey = await crypto.subtle.exportKey('raw', dataKey);
+
+    return {
+      version: 1,
+      kdf: { iterations: this.PBKDF2_ITERATIONS, salt: this.toBase64(salt) },
+      wrappedKey: await this.encrypt(wrappingKey, new Uint8Array(rawKey)),
+    };
+  }
+
+  /**
+   * Unwraps the data key with a passphrase
+   * @param passphrase - Passphrase to derive the wrapping key from
+   * @returns Promise resolving with the data key, or null when the passphrase is wrong
+   * @private
+   */
+  private async unwrapDataKey(passphrase: string): Promise<CryptoKey | null> {
+    try {
+      const envelope: EncryptionEnvelope | null = JSON.parse(
+        localStorage.getItem(this.ENVELOPE_KEY) ?? 'null'
+      );
+      if (envelope?.version !== 1) {
+        return null;
+      }
+
+      const wrappingKey = await this.deriveWrappingKey(
+        passphrase,
+        this.fromBase64(envelope.kdf.salt),
+        envelope.kdf.iterations
+      );
+      return await this.importDataKey(await this.decrypt(wrappingKey, envelope.wrappedKey));
+    } catch {
+      // AES-GCM authentication fails when the passphrase is wrong
+      return null;
+    }
+  }
+
+  /**
+   * Derives the key wrapping the data key from a passphrase
+   * @param passphrase - Passphrase, normalized so it derives the same key on every device
+   * @param salt - PBKDF2 salt
+   * @param iterations - PBKDF2 iterations
+   * @returns Promise resolving with the AES-GCM wrapping key
+   * @private
+   */
+  private async deriveWrappingKey(
+    passphrase: string,
+    salt: Uint8Array<ArrayBuffer>,
+    iterations: number
+  ): Promise<CryptoKey> {
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase.normalize('NFC')),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+    return crypto.subtle.deriveKey(
+      { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+      material,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  /**
+   * Imports a raw data key
+   * @param rawKey - Raw 256-bit key
+   * @returns Promise resolving with the extractable AES-GCM data key
+   * @private
+   */
+  private importDataKey(rawKey: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+    return crypto.subtle.importKey('raw', rawKey, { name: 'AES-GCM' }, true, [
+      'encrypt',
+      'decrypt',
+    ]);
+  }
+
+  /**
+   * Encrypts bytes with AES-GCM under a new initialization vector
+   * @param key - AES-GCM key
+   * @param bytes - Bytes to encrypt
+   * @returns Promise resolving with the encrypted payload
+   * @private
+   */
+  private async encrypt(key: CryptoKey, bytes: Uint8Array<ArrayBuffer>): Promise<EncryptedPayload> {
+    const iv = crypto.getRandomValues(new Uint8Array(this.IV_BYTES));
+    const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+    return { iv: this.toBase64(iv), data: this.toBase64(new Uint8Array(data)) };
+  }
+
+  /**
+   * Decrypts an AES-GCM payload
+   * @param key - AES-GCM key
+   * @param payload - Encrypted payload
+   * @returns Promise resolving with the decrypted bytes
+   * @throws DOMException when the key is wrong or the payload was tampered with
+   * @private
+   */
+  private async decrypt(
+    key: CryptoKey,
+    payload: EncryptedPayload
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: this.fromBase64(payload.iv) },
+      key,
+      this.fromBase64(payload.data)
+    );
+    return new Uint8Array(data);
+  }
+
+  /**
+   * Gets the data key of the unlocked data
+   * @returns Data key
+   * @throws Error while the data is locked
+   * @private
+   */
+  private requireDataKey(): CryptoKey {
+    if (!this.dataKey) {
+      throw new Error('The encrypted data is locked.');
+    }
+    return this.dataKey;
+  }
+
+  /**
+   * Encodes bytes as base64
+   * @param bytes - Bytes to encode
+   * @returns Base64 text
+   * @private
+   */
+  private toBase64(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+    return btoa(binary);
+  }
+
+  /**
+   * Decodes base64 text
+   * @param text - Base64 text
+   * @returns Decoded bytes
+   * @private
+   */
+  private fromBase64(text: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(text), character => character.charCodeAt(0));
+  }
+}
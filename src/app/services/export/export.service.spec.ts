@@ -1,6 +1,7 @@
 import { TestBed } from '@angular/core/testing';
 
 import { ExportService } from './export.service';
+import { ExportData, PregnancySummary } from '../../models/pregnancy.models';
 
 describe('ExportService', () => {
   let service: ExportService;
@@ -13,4 +14,22 @@ describe('ExportService', () => {
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  it('should name export files after the profile', () => {
+    const exportData: ExportData = {
+      userPreferences: { lmpDate: '2024-10-01', themeColor: 'neutral', viewMode: 'summary' },
+      profileName: "Maria's 2nd",
+      summary: { currentGestationalAge: '23w 4d' } as PregnancySummary,
+      pregnancyDays: [],
+      exportTimestamp: new Date(2025, 2, 15),
+      format: 'pdf',
+    };
+
+    expect(service['generateDefaultFilename'](exportData, 'pdf')).toBe(
+      'pregnancy-calendar-maria-s-2nd-23w-4d-03-15-2025.pdf'
+    );
+    expect(
+      service['generateDefaultFilename']({ ...exportData, profileName: undefined }, 'excel')
+    ).toBe('pregnancy-calendar-23w-4d-03-15-2025.xlsx');
+  });
 });
@@ -4,9 +4,18 @@ import * as XLSX from 'xlsx';
 import {
   ExportData,
   ExportFormat,
+  FetalGrowthEstimate,
+  KeyDate,
+  LeavePlan,
   PregnancyDay,
   PregnancySummary,
+  TermCategory,
+  Trimester,
 } from '../../models/pregnancy.models';
+import { MessageKey } from '../../i18n/messages.en';
+import { DateFormatService } from '../date-format/date-format.service';
+import { I18nService, MessageParams } from '../i18n/i18n.service';
+import { PdfFontService, PdfFontStyle } from '../pdf-font/pdf-font.service';
 
 /**
  * Service responsible for exporting pregnancy data to PDF and Excel formats
@@ -30,6 +39,34 @@ export class ExportService {
     height: 297, // A4 height in mm
   };
 
+  /** Message keys of the trimester names */
+  private readonly TRIMESTER_LABELS: Record<Trimester, MessageKey> = {
+    first: 'trimester.first',
+    second: 'trimester.second',
+    third: 'trimester.third',
+  };
+
+  /** Message keys of the short term category names */
+  private readonly TERM_CATEGORY_LABELS: Record<TermCategory, MessageKey> = {
+    preterm: 'term.preterm',
+    'early-term': 'term.earlyTerm',
+    'full-term': 'term.fullTerm',
+    'late-term': 'term.lateTerm',
+    'post-term': 'term.postTerm',
+  };
+
+  /** Message keys of the fetal length measurement names */
+  private readonly LENGTH_TYPE_LABELS: Record<FetalGrowthEstimate['lengthType'], MessageKey> = {
+    'crown-rump': 'export.crownRump',
+    'crown-heel': 'export.crownHeel',
+  };
+
+  constructor(
+    private dateFormatService: DateFormatService,
+    private i18nService: I18nService,
+    private pdfFontService: PdfFontService
+  ) {}
+
   /**
    * Exports pregnancy data in the specified format
    * @param exportData - Complete export data object
@@ -43,7 +80,7 @@ export class ExportService {
     filename?: string
   ): Promise<boolean> {
     try {
-      const defaultFilename = this.generateDefaultFilename(exportData.summary, format);
+      const defaultFilename = this.generateDefaultFilename(exportData, format);
       const finalFilename = filename || defaultFilename;
 
       if (format === 'pdf') {
@@ -68,31 +105,72 @@ export class ExportService {
       const pdf = new jsPDF('p', 'mm', 'a4');
       let yPosition = this.PDF_MARGINS.top;
 
+      // Embed fonts for every script in the data and the current language
+      await this.pdfFontService.registerFonts(pdf, [
+        JSON.stringify(exportData),
+        this.t('export.title'),
+        this.t('export.disclaimer'),
+      ]);
+
       // Add title
       pdf.setFontSize(20);
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('Pregnancy Calendar', this.PDF_MARGINS.left, yPosition);
+      this.writeText(pdf, this.t('export.title'), this.PDF_MARGINS.left, yPosition, 'bold');
       yPosition += 15;
 
-      // Add generation date
+      // Add profile name
       pdf.setFontSize(10);
-      pdf.setFont('helvetica', 'normal');
-      pdf.text(
-        `Generated on: ${exportData.exportTimestamp.toLocaleDateString()}`,
+      if (exportData.profileName) {
+        this.writeText(
+          pdf,
+          this.t('export.profile', { name: exportData.profileName }),
+          this.PDF_MARGINS.left,
+          yPosition
+        );
+        yPosition += 6;
+      }
+
+      // Add generation date
+      this.writeText(
+        pdf,
+        this.t('export.generatedOn', {
+          date: this.dateFormatService.format(exportData.exportTimestamp),
+        }),
         this.PDF_MARGINS.left,
         yPosition
       );
+      if (exportData.asOfDate) {
+        yPosition += 6;
+        this.writeText(
+          pdf,
+          this.t('export.previewAsOf', {
+            date: this.dateFormatService.format(exportData.asOfDate),
+          }),
+          this.PDF_MARGINS.left,
+          yPosition
+        );
+      }
       yPosition += 15;
 
       // Add summary section
       yPosition = this.addSummaryToPdf(pdf, exportData.summary, yPosition);
 
+      // Add key dates
+      yPosition = this.addKeyDatesToPdf(pdf, exportData.summary.keyDates, yPosition);
+
+      // Add leave plan
+      if (exportData.summary.leavePlan) {
+        yPosition = this.addLeavePlanToPdf(pdf, exportData.summary.leavePlan, yPosition);
+      }
+
       // Add disclaimer
       yPosition = this.addDisclaimerToPdf(pdf, yPosition);
 
       // Add pregnancy calendar table
       await this.addCalendarTableToPdf(pdf, exportData.pregnancyDays, yPosition);
 
+      // Add week-by-week development
+      this.addWeeklyDevelopmentToPdf(pdf, exportData.pregnancyDays);
+
       // Save the PDF
       pdf.save(filename);
       return true;
@@ -114,39 +192,87 @@ export class ExportService {
 
     // Section title
     pdf.setFontSize(16);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('Pregnancy Summary', this.PDF_MARGINS.left, yPosition);
+    this.writeText(pdf, this.t('export.summary'), this.PDF_MARGINS.left, yPosition, 'bold');
     yPosition += 10;
 
     // Summary details
     pdf.setFontSize(12);
-    pdf.setFont('helvetica', 'normal');
 
     const summaryItems = [
-      `Current Gestational Age: ${summary.currentGestationalAge}`,
-      `Current Trimester: ${summary.currentTrimester}`,
-      `Days Completed: ${summary.daysCompleted}`,
-      `Days Remaining: ${summary.daysRemaining}`,
-      `Progress: ${summary.progressPercentage}%`,
-      `Estimated Due Date: ${summary.formattedDueDate}`,
+      this.labelled('export.currentGestationalAge', summary.currentGestationalAge),
+      this.labelled(
+        'export.currentTrimester',
+        this.t(this.TRIMESTER_LABELS[summary.currentTrimester])
+      ),
+      this.labelled('export.daysCompleted', summary.daysCompleted),
+      this.labelled('export.daysRemaining', summary.daysRemaining),
+      this.labelled('export.daysOverdue', summary.daysOverdue),
+      this.labelled('export.termStatus', summary.termCategoryLabel),
+      this.labelled('export.progress', `${summary.progressPercentage}%`),
+      this.labelled('export.estimatedDueDate', summary.formattedDueDate),
+      this.labelled('export.datedBy', summary.datingMethod),
+      this.labelled('export.dueDateRule', summary.dueDateAdjustment),
+      this.labelled('export.pregnancyType', summary.plurality),
+      this.labelled('export.careGuideline', summary.guidelineProfile),
+      this.labelled('export.deliveryWindow', summary.deliveryWindow.formatted),
     ];
 
+    if (summary.currentGrowth) {
+      const { weightGrams, lengthCm } = summary.currentGrowth;
+      summaryItems.push(
+        this.labelled(
+          'export.estimatedFetalWeight',
+          this.t('export.weightRange', { ...weightGrams })
+        ),
+        this.labelled('export.estimatedFetalLength', this.t('export.lengthRange', { ...lengthCm }))
+      );
+    }
+
+    if (summary.currentWeekDevelopment) {
+      const week = summary.currentWeekDevelopment;
+      summaryItems.push(`${this.t('export.thisWeek', { week: week.week })}: ${week.description}`);
+      if (week.sizeComparison) {
+        summaryItems.push(this.labelled('export.sizeComparison', week.sizeComparison));
+      }
+      summaryItems.push(
+        this.labelled('export.babysDevelopment', week.keyDevelopments.join('; ')),
+        this.labelled('export.changesForYou', week.maternalChanges.join('; '))
+      );
+    }
+
+    if (summary.redating) {
+      summaryItems.push(
+        this.labelled('export.originalDueDate', summary.redating.formattedOriginalDueDate),
+        this.labelled('export.ultrasoundDueDate', summary.redating.formattedUltrasoundDueDate),
+        this.labelled('export.redating', summary.redating.reason)
+      );
+    }
+
+    const contentWidth = this.PDF_PAGE.width - this.PDF_MARGINS.left - this.PDF_MARGINS.right;
+
     summaryItems.forEach(item => {
-      pdf.text(item, this.PDF_MARGINS.left, yPosition);
-      yPosition += 7;
+      const lines = this.splitText(pdf, item, contentWidth);
+      lines.forEach(line => {
+        this.writeText(pdf, line, this.PDF_MARGINS.left, yPosition);
+        yPosition += 7;
+      });
     });
 
     yPosition += 5;
 
     // Upcoming milestones
     if (summary.upcomingMilestones.length > 0) {
-      pdf.setFont('helvetica', 'bold');
-      pdf.text('Upcoming Milestones:', this.PDF_MARGINS.left, yPosition);
+      this.writeText(
+        pdf,
+        `${this.t('export.upcomingMilestones')}:`,
+        this.PDF_MARGINS.left,
+        yPosition,
+        'bold'
+      );
       yPosition += 7;
 
-      pdf.setFont('helvetica', 'normal');
       summary.upcomingMilestones.forEach(milestone => {
-        pdf.text(`• ${milestone}`, this.PDF_MARGINS.left + 5, yPosition);
+        this.writeText(pdf, `• ${milestone}`, this.PDF_MARGINS.left + 5, yPosition);
         yPosition += 6;
       });
     }
@@ -154,6 +280,89 @@ export class ExportService {
     return yPosition + 10;
   }
 
+  /**
+   * Adds the key dates list to PDF, continuing on a new page when it runs out of room
+   * @param pdf - jsPDF instance
+   * @param keyDates - Key dates in calendar order
+   * @param startY - Starting Y position
+   * @returns New Y position after adding key dates
+   */
+  private addKeyDatesToPdf(pdf: jsPDF, keyDates: KeyDate[], startY: number): number {
+    const pageHeight = this.PDF_PAGE.height - this.PDF_MARGINS.bottom;
+    const contentWidth = this.PDF_PAGE.width - this.PDF_MARGINS.left - this.PDF_MARGINS.right;
+    let yPosition = startY;
+
+    if (yPosition + 30 > pageHeight) {
+      pdf.addPage();
+      yPosition = this.PDF_MARGINS.top;
+    }
+
+    pdf.setFontSize(14);
+    this.writeText(pdf, this.t('export.keyDates'), this.PDF_MARGINS.left, yPosition, 'bold');
+    yPosition += 10;
+
+    pdf.setFontSize(10);
+    keyDates.forEach(keyDate => {
+      const line = this.t('export.keyDateLine', {
+        label: keyDate.label,
+        date: keyDate.formatted,
+        age: keyDate.gestationalAge,
+      });
+      this.splitText(pdf, line, contentWidth).forEach(part => {
+        if (yPosition > pageHeight) {
+          pdf.addPage();
+          yPosition = this.PDF_MARGINS.top;
+        }
+        this.writeText(pdf, part, this.PDF_MARGINS.left, yPosition);
+        yPosition += 6;
+      });
+    });
+
+    return yPosition + 10;
+  }
+
+  /**
+   * Adds the maternity leave plan to PDF, continuing on a new page when it runs out of room
+   * @param pdf - jsPDF instance
+   * @param plan - Leave plan
+   * @param startY - Starting Y position
+   * @returns New Y position after adding the leave plan
+   */
+  private addLeavePlanToPdf(pdf: jsPDF, plan: LeavePlan, startY: number): number {
+    const pageHeight = this.PDF_PAGE.height - this.PDF_MARGINS.bottom;
+    const contentWidth = this.PDF_PAGE.width - this.PDF_MARGINS.left - this.PDF_MARGINS.right;
+    let yPosition = startY;
+
+    if (yPosition + 30 > pageHeight) {
+      pdf.addPage();
+      yPosition = this.PDF_MARGINS.top;
+    }
+
+    pdf.setFontSize(14);
+    this.writeText(pdf, this.t('export.leavePlan'), this.PDF_MARGINS.left, yPosition, 'bold');
+    yPosition += 10;
+
+    pdf.setFontSize(10);
+    const lines = [
+      this.labelled('export.leaveRules', plan.label),
+      this.labelled('export.leaveLength', this.t('leave.duration', { count: plan.durationWeeks })),
+      ...plan.events.map(event => `${event.label}: ${event.formatted}`),
+      this.labelled('export.employerNotice', plan.notificationRule),
+    ];
+    lines.forEach(line => {
+      this.splitText(pdf, line, contentWidth).forEach(part => {
+        if (yPosition > pageHeight) {
+          pdf.addPage();
+          yPosition = this.PDF_MARGINS.top;
+        }
+        this.writeText(pdf, part, this.PDF_MARGINS.left, yPosition);
+        yPosition += 6;
+      });
+    });
+
+    return yPosition + 10;
+  }
+
   /**
    * Adds medical disclaimer to PDF
    * @param pdf - jsPDF instance
@@ -164,17 +373,18 @@ export class ExportService {
     let yPosition = startY;
 
     pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'italic');
 
-    const disclaimer = [
-      'MEDICAL DISCLAIMER: This calendar is based on standard 40-week pregnancy calculations',
-      'from your Last Menstrual Period (LMP). All dates and milestones are estimates only.',
-      'Individual pregnancies may vary. Always consult with your healthcare provider for',
-      'personalized medical advice and accurate pregnancy monitoring.',
-    ];
+    const contentWidth = this.PDF_PAGE.width - this.PDF_MARGINS.left - this.PDF_MARGINS.right;
+    const disclaimer = this.splitText(pdf, this.t('export.disclaimer'), contentWidth, 'italic');
+
+    // Keep the disclaimer together on one page
+    if (yPosition + disclaimer.length * 4 > this.PDF_PAGE.height - this.PDF_MARGINS.bottom) {
+      pdf.addPage();
+      yPosition = this.PDF_MARGINS.top;
+    }
 
     disclaimer.forEach(line => {
-      pdf.text(line, this.PDF_MARGINS.left, yPosition);
+      this.writeText(pdf, line, this.PDF_MARGINS.left, yPosition, 'italic');
       yPosition += 4;
     });
 
@@ -197,29 +407,32 @@ export class ExportService {
     let yPosition = startY;
 
     // Table headers
-    const headers = ['Day', 'Date', 'Week', 'Trimester', 'Development'];
+    const headers = [
+      this.t('export.day'),
+      this.t('export.date'),
+      this.t('export.week'),
+      this.t('export.trimester'),
+      this.t('export.development'),
+    ];
     const colWidths = [15, 25, 20, 25, 95]; // Column widths in mm
 
     // Add table header
     pdf.setFontSize(14);
-    pdf.setFont('helvetica', 'bold');
-    pdf.text('Pregnancy Calendar', this.PDF_MARGINS.left, yPosition);
+    this.writeText(pdf, this.t('export.calendar'), this.PDF_MARGINS.left, yPosition, 'bold');
     yPosition += 10;
 
     // Add column headers
     pdf.setFontSize(10);
-    pdf.setFont('helvetica', 'bold');
     let xPosition = this.PDF_MARGINS.left;
 
     headers.forEach((header, index) => {
-      pdf.text(header, xPosition, yPosition);
+      this.writeText(pdf, header, xPosition, yPosition, 'bold');
       xPosition += colWidths[index];
     });
 
     yPosition += 8;
 
     // Add table rows
-    pdf.setFont('helvetica', 'normal');
     pdf.setFontSize(9);
 
     for (const day of pregnancyDays) {
@@ -235,22 +448,20 @@ export class ExportService {
       const rowData = [
         day.dayNumber.toString(),
         day.formattedDate,
-        `${day.gestationalWeek}w ${day.dayOfWeek}d`,
-        day.trimester,
-        day.developmentMilestone || day.appointments?.join('; ') || '',
+        this.t('export.weekAndDay', { week: day.gestationalWeek, day: day.dayOfWeek }),
+        this.t(this.TRIMESTER_LABELS[day.trimester]),
+        [...(day.leaveEvents ?? []), day.developmentMilestone || day.appointments?.join('; ')]
+          .filter(Boolean)
+          .join('; '),
       ];
 
       rowData.forEach((data, index) => {
         const maxWidth = colWidths[index] - 2; // Leave some padding
-        const lines = pdf.splitTextToSize(data, maxWidth);
+        const lines = this.splitText(pdf, data, maxWidth);
 
-        if (Array.isArray(lines)) {
-          lines.forEach((line: string, lineIndex: number) => {
-            pdf.text(line, xPosition, yPosition + lineIndex * 4);
-          });
-        } else {
-          pdf.text(lines, xPosition, yPosition);
-        }
+        lines.forEach((line, lineIndex) => {
+          this.writeText(pdf, line, xPosition, yPosition + lineIndex * 4);
+        });
 
         xPosition += colWidths[index];
       });
@@ -259,6 +470,113 @@ export class ExportService {
     }
   }
 
+  /**
+   * Adds week-by-week development content to PDF, starting on a new page
+   * @param pdf - jsPDF instance
+   * @param pregnancyDays - Array of pregnancy days
+   */
+  private addWeeklyDevelopmentToPdf(pdf: jsPDF, pregnancyDays: PregnancyDay[]): void {
+    const pageHeight = this.PDF_PAGE.height - this.PDF_MARGINS.bottom;
+    const contentWidth = this.PDF_PAGE.width - this.PDF_MARGINS.left - this.PDF_MARGINS.right;
+
+    pdf.addPage();
+    let yPosition = this.PDF_MARGINS.top;
+
+    pdf.setFontSize(14);
+    this.writeText(
+      pdf,
+      this.t('export.weeklyDevelopment'),
+      this.PDF_MARGINS.left,
+      yPosition,
+      'bold'
+    );
+    yPosition += 10;
+
+    pregnancyDays.forEach(day => {
+      const week = day.weeklyDevelopment;
+      if (!week) {
+        return;
+      }
+
+      const details = [
+        ...(week.sizeComparison
+          ? [this.t('export.sizeComparisonDetail', { size: week.sizeComparison })]
+          : []),
+        this.t('export.babyDetail', { items: week.keyDevelopments.join('; ') }),
+        this.t('export.youDetail', { items: week.maternalChanges.join('; ') }),
+      ];
+      pdf.setFontSize(9);
+      const detailLines = details.flatMap(detail => this.splitText(pdf, detail, contentWidth - 5));
+
+      // Keep each week together on one page
+      if (yPosition + 6 + detailLines.length * 5 > pageHeight) {
+        pdf.addPage();
+        yPosition = this.PDF_MARGINS.top;
+      }
+
+      pdf.setFontSize(10);
+      this.writeText(
+        pdf,
+        this.t('export.weekHeading', {
+          week: week.week,
+          date: day.formattedDate,
+          description: week.description,
+        }),
+        this.PDF_MARGINS.left,
+        yPosition,
+        'bold'
+      );
+      yPosition += 6;
+
+      pdf.setFontSize(9);
+      detailLines.forEach(line => {
+        this.writeText(pdf, line, this.PDF_MARGINS.left + 5, yPosition);
+        yPosition += 5;
+      });
+
+      yPosition += 3;
+    });
+  }
+
+  /**
+   * Draws one line of text in the font that covers its script
+   * @param pdf - jsPDF instance
+   * @param text - Text to draw
+   * @param x - X position in mm
+   * @param y - Y position in mm
+   * @param style - Font style
+   * @private
+   */
+  private writeText(
+    pdf: jsPDF,
+    text: string,
+    x: number,
+    y: number,
+    style: PdfFontStyle = 'normal'
+  ): void {
+    this.pdfFontService.setFont(pdf, text, style);
+    pdf.text(text, x, y);
+  }
+
+  /**
+   * Wraps text to a width, measured in the font that will draw it
+   * @param pdf - jsPDF instance
+   * @param text - Text to wrap
+   * @param maxWidth - Available width in mm
+   * @param style - Font style
+   * @returns Wrapped lines
+   * @private
+   */
+  private splitText(
+    pdf: jsPDF,
+    text: string,
+    maxWidth: number,
+    style: PdfFontStyle = 'normal'
+  ): string[] {
+    this.pdfFontService.setFont(pdf, text, style);
+    return pdf.splitTextToSize(text, maxWidth);
+  }
+
   /**
    * Exports pregnancy data to Excel format
    * @param exportData - Complete export data object
@@ -268,9 +586,17 @@ export class ExportService {
   private exportToExcel(exportData: ExportData, filename: string): boolean {
     try {
       const workbook = XLSX.utils.book_new();
+      if (this.i18nService.getDirection() === 'rtl') {
+        workbook.Workbook = { Views: [{ RTL: true }] };
+      }
 
       // Create summary worksheet
-      this.addSummaryWorksheet(workbook, exportData.summary);
+      this.addSummaryWorksheet(
+        workbook,
+        exportData.summary,
+        exportData.asOfDate,
+        exportData.profileName
+      );
 
       // Create calendar worksheet
       this.addCalendarWorksheet(workbook, exportData.pregnancyDays);
@@ -281,6 +607,17 @@ export class ExportService {
       // Create milestones worksheet
       this.addMilestonesWorksheet(workbook, exportData.pregnancyDays);
 
+      // Create key dates worksheet
+      this.addKeyDatesWorksheet(workbook, exportData.summary.keyDates);
+
+      // Create leave plan worksheet
+      if (exportData.summary.leavePlan) {
+        this.addLeavePlanWorksheet(workbook, exportData.summary.leavePlan);
+      }
+
+      // Create growth scan worksheet
+      this.addBiometryWorksheet(workbook, exportData.pregnancyDays);
+
       // Write the file
       XLSX.writeFile(workbook, filename);
       return true;
@@ -294,41 +631,81 @@ export class ExportService {
    * Adds summary worksheet to Excel workbook
    * @param workbook - XLSX workbook instance
    * @param summary - Pregnancy summary data
+   * @param asOfDate - Preview date the summary was calculated for (optional)
+   * @param profileName - Name of the exported profile (optional)
    */
-  private addSummaryWorksheet(workbook: XLSX.WorkBook, summary: PregnancySummary): void {
+  private addSummaryWorksheet(
+    workbook: XLSX.WorkBook,
+    summary: PregnancySummary,
+    asOfDate?: Date,
+    profileName?: string
+  ): void {
     const summaryData = [
-      ['Pregnancy Summary', ''],
-      ['Current Gestational Age', summary.currentGestationalAge],
-      ['Current Trimester', summary.currentTrimester],
-      ['Days Completed', summary.daysCompleted],
-      ['Days Remaining', summary.daysRemaining],
-      ['Progress Percentage', `${summary.progressPercentage}%`],
-      ['Estimated Due Date', summary.formattedDueDate],
+      [this.t('export.summary'), ''],
+      ...(profileName ? [[this.t('export.profileLabel'), profileName]] : []),
+      ...(asOfDate
+        ? [[this.t('export.previewAsOfLabel'), this.dateFormatService.format(asOfDate)]]
+        : []),
+      [this.t('export.currentGestationalAge'), summary.currentGestationalAge],
+      [this.t('export.currentTrimester'), this.t(this.TRIMESTER_LABELS[summary.currentTrimester])],
+      [this.t('export.daysCompleted'), summary.daysCompleted],
+      [this.t('export.daysRemaining'), summary.daysRemaining],
+      [this.t('export.daysOverdue'), summary.daysOverdue],
+      [this.t('export.termStatus'), summary.termCategoryLabel],
+      [this.t('export.progressPercentage'), `${summary.progressPercentage}%`],
+      [this.t('export.estimatedDueDate'), summary.formattedDueDate],
+      [this.t('export.datedBy'), summary.datingMethod],
+      [this.t('export.dueDateRule'), summary.dueDateAdjustment],
+      [this.t('export.pregnancyType'), summary.plurality],
+      [this.t('export.careGuideline'), summary.guidelineProfile],
+      [this.t('export.deliveryWindow'), summary.deliveryWindow.formatted],
+      ...(summary.currentGrowth
+        ? [
+            [this.t('export.estimatedFetalWeightGrams'), summary.currentGrowth.weightGrams.p50],
+            [this.t('export.estimatedFetalLengthCm'), summary.currentGrowth.lengthCm.p50],
+          ]
+        : []),
+      ...(summary.redating
+        ? [
+            [this.t('export.originalDueDate'), summary.redating.formattedOriginalDueDate],
+            [this.t('export.ultrasoundDueDate'), summary.redating.formattedUltrasoundDueDate],
+            [this.t('export.redating'), summary.redating.reason],
+          ]
+        : []),
       ['', ''],
-      ['Upcoming Milestones', ''],
+      [this.t('export.upcomingMilestones'), ''],
       ...summary.upcomingMilestones.map(milestone => ['', milestone]),
       ['', ''],
-      ['Next Appointments', ''],
+      [this.t('export.nextAppointments'), ''],
       ...summary.nextAppointments.map(appointment => ['', appointment]),
     ];
 
     const worksheet = XLSX.utils.aoa_to_sheet(summaryData);
     worksheet['!cols'] = [{ wch: 12 }, { wch: 10 }, { wch: 60 }];
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Milestones');
+    XLSX.utils.book_append_sheet(workbook, worksheet, this.t('export.summarySheet'));
   }
 
   /**
    * Generates default filename based on export data and format
-   * @param summary - Pregnancy summary data
+   * The profile name is included so exports of different pregnancies can be told apart
+   * @param exportData - Complete export data object
    * @param format - Export format
    * @returns Generated filename
    */
-  private generateDefaultFilename(summary: PregnancySummary, format: ExportFormat): string {
-    const today = new Date();
-    const dateStr = today.toISOString().split('T')[0]; // YYYY-MM-DD format
+  private generateDefaultFilename(exportData: ExportData, format: ExportFormat): string {
+    const dateStr = this.dateFormatService.formatForFilename(
+      exportData.asOfDate ?? exportData.exportTimestamp
+    );
     const extension = format === 'pdf' ? 'pdf' : 'xlsx';
+    const gestationalAge = exportData.summary.currentGestationalAge.replace(' ', '-');
+    const profile = (exportData.profileName ?? '')
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}]+/gu, '-')
+      .replace(/^-+|-+$/g, '');
+
+    const parts = ['pregnancy-calendar', profile, gestationalAge, dateStr].filter(part => part);
 
-    return `pregnancy-calendar-${summary.currentGestationalAge.replace(' ', '-')}-${dateStr}.${extension}`;
+    return `${parts.join('-')}.${extension}`;
   }
 
   /**
@@ -397,7 +774,7 @@ export class ExportService {
     const milestonesCount = exportData.pregnancyDays.filter(day => day.developmentMilestone).length;
 
     return {
-      summary: `Export includes ${exportData.pregnancyDays.length} days of pregnancy calendar data`,
+      summary: this.t('export.preview', { count: exportData.pregnancyDays.length }),
       totalDays: exportData.pregnancyDays.length,
       appointmentsCount,
       milestonesCount,
@@ -414,18 +791,27 @@ export class ExportService {
    * @param pregnancyDays - Array of pregnancy days
    */
   private addCalendarWorksheet(workbook: XLSX.WorkBook, pregnancyDays: PregnancyDay[]): void {
-    const headers = [
-      'Day Number',
-      'Date',
-      'Gestational Week',
-      'Day of Week',
-      'Gestational Age',
-      'Month',
-      'Year',
-      'Trimester',
-      'Fetal Weight (g)',
-      'Fetal Length (cm)',
-    ];
+    const headers = (
+      [
+        'export.dayNumber',
+        'export.date',
+        'export.gestationalWeek',
+        'export.dayOfWeek',
+        'export.gestationalAge',
+        'export.month',
+        'export.year',
+        'export.trimester',
+        'export.termCategory',
+        'export.fetalWeight10th',
+        'export.fetalWeight50th',
+        'export.fetalWeight90th',
+        'export.lengthType',
+        'export.fetalLength10th',
+        'export.fetalLength50th',
+        'export.fetalLength90th',
+        'export.leave',
+      ] satisfies MessageKey[]
+    ).map(key => this.t(key));
 
     const data = pregnancyDays.map(day => [
       day.dayNumber,
@@ -435,9 +821,16 @@ export class ExportService {
       day.gestationalAge,
       day.monthName,
       day.calendarYear,
-      day.trimester,
-      day.estimatedFetalWeight || '',
-      day.estimatedFetalLength || '',
+      this.t(this.TRIMESTER_LABELS[day.trimester]),
+      this.t(this.TERM_CATEGORY_LABELS[day.termCategory]),
+      day.fetalGrowth?.weightGrams.p10 ?? '',
+      day.fetalGrowth?.weightGrams.p50 ?? '',
+      day.fetalGrowth?.weightGrams.p90 ?? '',
+      day.fetalGrowth ? this.t(this.LENGTH_TYPE_LABELS[day.fetalGrowth.lengthType]) : '',
+      day.fetalGrowth?.lengthCm.p10 ?? '',
+      day.fetalGrowth?.lengthCm.p50 ?? '',
+      day.fetalGrowth?.lengthCm.p90 ?? '',
+      day.leaveEvents?.join('; ') ?? '',
     ]);
 
     const worksheetData = [headers, ...data];
@@ -453,33 +846,120 @@ export class ExportService {
       { wch: 12 },
       { wch: 8 },
       { wch: 12 },
-      { wch: 15 },
-      { wch: 15 },
+      { wch: 14 },
+      { wch: 18 },
+      { wch: 18 },
+      { wch: 18 },
+      { wch: 12 },
+      { wch: 20 },
+      { wch: 20 },
+      { wch: 20 },
+      { wch: 40 },
     ];
     worksheet['!cols'] = colWidths;
 
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Calendar');
+    XLSX.utils.book_append_sheet(workbook, worksheet, this.t('export.calendarSheet'));
   }
 
   /**
    * Adds appointments worksheet to Excel workbook
+   * Each appointment is listed once with the dates of its recommended window
    * @param workbook - XLSX workbook instance
    * @param pregnancyDays - Array of pregnancy days
    */
   private addAppointmentsWorksheet(workbook: XLSX.WorkBook, pregnancyDays: PregnancyDay[]): void {
-    const appointmentData: string[][] = [['Date', 'Week', 'Appointment']];
+    // Consecutive days with the same appointment form one window
+    const appointmentWindows: Array<{ appointment: string; from: PregnancyDay; to: PregnancyDay }> =
+      [];
+    const openWindows = new Map<string, (typeof appointmentWindows)[number]>();
 
     pregnancyDays.forEach(day => {
-      if (day.appointments && day.appointments.length > 0) {
-        day.appointments.forEach(appointment => {
-          appointmentData.push([day.formattedDate, `Week ${day.gestationalWeek}`, appointment]);
-        });
-      }
+      day.appointments?.forEach(appointment => {
+        const window = openWindows.get(appointment);
+        if (window && window.to.dayNumber === day.dayNumber - 1) {
+          window.to = day;
+        } else {
+          const newWindow = { appointment, from: day, to: day };
+          appointmentWindows.push(newWindow);
+          openWindows.set(appointment, newWindow);
+        }
+      });
+    });
+
+    const appointmentData: string[][] = [
+      [
+        this.t('export.from'),
+        this.t('export.to'),
+        this.t('export.weeks'),
+        this.t('export.appointment'),
+      ],
+    ];
+    appointmentWindows.forEach(({ appointment, from, to }) => {
+      appointmentData.push([
+        from.formattedDate,
+        to.formattedDate,
+        from.gestationalWeek === to.gestationalWeek
+          ? this.t('common.week', { week: from.gestationalWeek })
+          : this.t('common.weeks', { start: from.gestationalWeek, end: to.gestationalWeek }),
+        appointment,
+      ]);
     });
 
     const worksheet = XLSX.utils.aoa_to_sheet(appointmentData);
-    worksheet['!cols'] = [{ wch: 12 }, { wch: 10 }, { wch: 50 }];
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Appointments');
+    worksheet['!cols'] = [{ wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 60 }];
+    XLSX.utils.book_append_sheet(workbook, worksheet, this.t('export.appointmentsSheet'));
+  }
+
+  /**
+   * Adds key dates worksheet to Excel workbook
+   * @param workbook - XLSX workbook instance
+   * @param keyDates - Key dates in calendar order
+   */
+  private addKeyDatesWorksheet(workbook: XLSX.WorkBook, keyDates: KeyDate[]): void {
+    const keyDateData: string[][] = [
+      [
+        this.t('export.keyDate'),
+        this.t('export.from'),
+        this.t('export.to'),
+        this.t('export.gestationalAge'),
+        this.t('export.description'),
+      ],
+    ];
+
+    keyDates.forEach(keyDate => {
+      keyDateData.push([
+        keyDate.label,
+        this.dateFormatService.format(keyDate.start),
+        keyDate.end ? this.dateFormatService.format(keyDate.end) : '',
+        keyDate.gestationalAge,
+        keyDate.description,
+      ]);
+    });
+
+    const worksheet = XLSX.utils.aoa_to_sheet(keyDateData);
+    worksheet['!cols'] = [{ wch: 40 }, { wch: 12 }, { wch: 12 }, { wch: 16 }, { wch: 80 }];
+    XLSX.utils.book_append_sheet(workbook, worksheet, this.t('export.keyDatesSheet'));
+  }
+
+  /**
+   * Adds maternity leave plan worksheet to Excel workbook
+   * @param workbook - XLSX workbook instance
+   * @param plan - Leave plan
+   */
+  private addLeavePlanWorksheet(workbook: XLSX.WorkBook, plan: LeavePlan): void {
+    const leaveData: string[][] = [
+      [this.t('export.leaveRules'), plan.label],
+      [this.t('export.description'), plan.description],
+      [this.t('export.employerNotice'), plan.notificationRule],
+      [this.t('export.leaveLength'), this.t('leave.duration', { count: plan.durationWeeks })],
+      ['', ''],
+      [this.t('export.leavePlan'), this.t('export.date')],
+      ...plan.events.map(event => [event.label, event.formatted]),
+    ];
+
+    const worksheet = XLSX.utils.aoa_to_sheet(leaveData);
+    worksheet['!cols'] = [{ wch: 32 }, { wch: 100 }];
+    XLSX.utils.book_append_sheet(workbook, worksheet, this.t('export.leaveSheet'));
   }
 
   /**
@@ -488,20 +968,114 @@ export class ExportService {
    * @param pregnancyDays - Array of pregnancy days
    */
   private addMilestonesWorksheet(workbook: XLSX.WorkBook, pregnancyDays: PregnancyDay[]): void {
-    const milestoneData: string[][] = [['Date', 'Week', 'Development Milestone']];
+    const milestoneData: string[][] = [
+      [
+        this.t('export.date'),
+        this.t('export.week'),
+        this.t('export.developmentMilestone'),
+        this.t('export.sizeComparison'),
+        this.t('export.keyDevelopments'),
+        this.t('export.maternalChanges'),
+      ],
+    ];
 
     pregnancyDays.forEach(day => {
       if (day.developmentMilestone) {
         milestoneData.push([
           day.formattedDate,
-          `Week ${day.gestationalWeek}`,
+          this.t('common.week', { week: day.gestationalWeek }),
           day.developmentMilestone,
+          day.weeklyDevelopment?.sizeComparison ?? '',
+          day.weeklyDevelopment?.keyDevelopments.join('; ') ?? '',
+          day.weeklyDevelopment?.maternalChanges.join('; ') ?? '',
         ]);
       }
     });
 
     const worksheet = XLSX.utils.aoa_to_sheet(milestoneData);
-    worksheet['!cols'] = [{ wch: 12 }, { wch: 10 }, { wch: 50 }];
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Milestones');
+    worksheet['!cols'] = [
+      { wch: 12 },
+      { wch: 10 },
+      { wch: 50 },
+      { wch: 20 },
+      { wch: 60 },
+      { wch: 60 },
+    ];
+    XLSX.utils.book_append_sheet(workbook, worksheet, this.t('export.milestonesSheet'));
+  }
+
+  /**
+   * Adds growth scan biometry worksheet to Excel workbook
+   * @param workbook - XLSX workbook instance
+   * @param pregnancyDays - Array of pregnancy days
+   */
+  private addBiometryWorksheet(workbook: XLSX.WorkBook, pregnancyDays: PregnancyDay[]): void {
+    // Standard abbreviations, matched against the measurement labels
+    const parameters = ['BPD', 'HC', 'AC', 'FL'];
+    const biometryData: Array<Array<string | number>> = [
+      [
+        this.t('export.date'),
+        this.t('export.gestationalAge'),
+        this.t('export.baby'),
+        ...parameters.flatMap(label => [
+          this.t('export.measurementMm', { label }),
+          this.t('export.measurementPercentile', { label }),
+        ]),
+        this.t('export.estimatedFetalWeightGrams'),
+        this.t('export.weightPercentile'),
+        this.t('export.formula'),
+      ],
+    ];
+
+    pregnancyDays.forEach(day => {
+      day.biometry?.forEach(result => {
+        biometryData.push([
+          result.formattedScanDate,
+          result.gestationalAge,
+          result.babyLabel ?? '',
+          ...parameters.flatMap(label => {
+            const measurement = result.measurements.find(item => item.label === label);
+            return [measurement?.valueMm ?? '', measurement?.percentile ?? ''];
+          }),
+          result.estimatedFetalWeight,
+          result.weightPercentile ?? '',
+          result.weightFormula,
+        ]);
+      });
+    });
+
+    const worksheet = XLSX.utils.aoa_to_sheet(biometryData);
+    worksheet['!cols'] = [
+      { wch: 12 },
+      { wch: 18 },
+      { wch: 8 },
+      ...parameters.flatMap(() => [{ wch: 10 }, { wch: 14 }]),
+      { wch: 24 },
+      { wch: 18 },
+      { wch: 26 },
+    ];
+    XLSX.utils.book_append_sheet(workbook, worksheet, this.t('export.growthScansSheet'));
+  }
+
+  /**
+   * Translates an export label into the display language
+   * @param key - Message key
+   * @param params - Values for the message's placeholders
+   * @returns Translated text
+   * @private
+   */
+  private t(key: MessageKey, params?: MessageParams): string {
+    return this.i18nService.translate(key, params);
+  }
+
+  /**
+   * Formats a "Label: value" line for the PDF summary
+   * @param key - Message key of the label
+   * @param value - Value shown after the label
+   * @returns Labelled line
+   * @private
+   */
+  private labelled(key: MessageKey, value: string | number): string {
+    return `${this.t(key)}: ${value}`;
   }
 }
@@ -0,0 +1,93 @@
+import { TestBed } from '@angular/core/testing';
+
+import { FetalGrowthService } from './fetal-growth.service';
+
+describe('FetalGrowthService', () => {
+  let service: FetalGrowthService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(FetalGrowthService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should follow the Hadlock weight standard', () => {
+    expect(Math.round(service.getMedianWeight(20 * 7))).toBe(331);
+    expect(Math.round(service.getMedianWeight(40 * 7))).toBe(3619);
+  });
+
+  it('should return no estimate before 10 weeks', () => {
+    expect(service.estimateGrowth(69)).toBeUndefined();
+    expect(service.estimateGrowth(70)).toBeDefined();
+  });
+
+  it('should give an estimate for every gestational day', () => {
+    for (let day = 70; day <= 300; day++) {
+      const growth = service.estimateGrowth(day)!;
+      expect(growth.weightGrams.p10).toBeLessThan(growth.weightGrams.p50);
+      expect(growth.weightGrams.p50).toBeLessThan(growth.weightGrams.p90);
+    }
+  });
+
+  it('should increase weight from one day to the next', () => {
+    const today = service.estimateGrowth(200)!;
+    const tomorrow = service.estimateGrowth(201)!;
+    expect(tomorrow.weightGrams.p50).toBeGreaterThan(today.weightGrams.p50);
+  });
+
+  it('should switch from crown-rump to crown-heel length at 14 weeks', () => {
+    const early = service.estimateGrowth(12 * 7)!;
+    const later = service.estimateGrowth(14 * 7)!;
+    expect(early.lengthType).toBe('crown-rump');
+    expect(early.lengthCm.p50).toBeCloseTo(5.6, 1);
+    expect(later.lengthType).toBe('crown-heel');
+  });
+
+  it('should estimate a term crown-heel length of about 50 cm', () => {
+    const growth = service.estimateGrowth(40 * 7)!;
+    expect(growth.lengthCm.p50).toBeGreaterThan(48);
+    expect(growth.lengthCm.p50).toBeLessThan(54);
+  });
+
+  it('should scale weight by the weight factor', () => {
+    const singleton = service.estimateGrowth(36 * 7)!;
+    const reduced = service.estimateGrowth(36 * 7, 0.9)!;
+    expect(reduced.weightGrams.p50).toBeCloseTo(singleton.weightGrams.p50 * 0.9, -1);
+  });
+
+  describe('biometry', () => {
+    it('should estimate term weight with the four-parameter Hadlock formula', () => {
+      const estimate = service.estimateFetalWeight({ bpdMm: 94, hcMm: 346, acMm: 351, flMm: 77 });
+      expect(estimate.formula).toBe('Hadlock (BPD, HC, AC, FL)');
+      expect(estimate.grams).toBeGreaterThan(3600);
+      expect(estimate.grams).toBeLessThan(3800);
+    });
+
+    it('should fall back to the AC and FL formula', () => {
+      const estimate = service.estimateFetalWeight({ acMm: 351, flMm: 77 });
+      expect(estimate.formula).toBe('Hadlock (AC, FL)');
+    });
+
+    it('should place a measurement equal to the reference mean at the 50th percentile', () => {
+      // Hadlock FL at 20 weeks: -3.91 + 0.427 × 20 - 0.0034 × 400 = 3.27 cm
+      expect(service.getMeasurementPercentile('fl', 32.7, 20 * 7)).toBe(50);
+    });
+
+    it('should rank small and large measurements at the low and high percentiles', () => {
+      expect(service.getMeasurementPercentile('ac', 130, 20 * 7)!).toBeLessThan(10);
+      expect(service.getMeasurementPercentile('ac', 170, 20 * 7)!).toBeGreaterThan(90);
+    });
+
+    it('should not give a measurement percentile outside the reference range', () => {
+      expect(service.getMeasurementPercentile('hc', 60, 12 * 7)).toBeUndefined();
+    });
+
+    it('should give the weight percentile on the Hadlock standard', () => {
+      const median = service.getMedianWeight(30 * 7);
+      expect(service.getWeightPercentile(median, 30 * 7)).toBe(50);
+    });
+  });
+});
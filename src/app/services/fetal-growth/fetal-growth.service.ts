@@ -0,0 +1,261 @@
+import { Injectable } from '@angular/core';
+import {
+  BiometryEntry,
+  BiometryParameter,
+  FetalGrowthEstimate,
+  PercentileBand,
+} from '../../models/pregnancy.models';
+
+/**
+ * Service providing daily fetal growth reference curves
+ * Weight follows the Hadlock (1991) in-utero sonographic weight standard.
+ * Length is crown-rump length (Robinson & Fleming) before 14 weeks and
+ * crown-heel length derived from Hadlock femur length afterwards.
+ * Scan biometry is compared with Hadlock (1984) regressions and fetal weight is
+ * estimated with the Hadlock (1985) formulas.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class FetalGrowthService {
+  /** First gestational day covered by the growth reference (10 0/7 weeks) */
+  private readonly GROWTH_REFERENCE_START_DAYS = 70;
+
+  /** Gestational week from which length is measured crown to heel */
+  private readonly CROWN_HEEL_FROM_WEEKS = 14;
+
+  /** Days per week */
+  private readonly DAYS_PER_WEEK = 7;
+
+  /** Standard normal z-score of the 90th percentile */
+  private readonly Z_90TH_PERCENTILE = 1.2816;
+
+  /** Weight standard deviation as a fraction of the median (Hadlock 1991) */
+  private readonly WEIGHT_SD_FRACTION = 0.127;
+
+  /** Length standard deviation as a fraction of the median */
+  private readonly LENGTH_SD_FRACTION = 0.05;
+
+  /** Gestational weeks covered by the biometry reference */
+  private readonly BIOMETRY_RANGE_WEEKS = { min: 14, max: 42 };
+
+  /**
+   * Hadlock (1984) biometry regressions: mean value in centimeters by gestational
+   * age in weeks, with an approximate standard deviation as a fraction of the mean
+   */
+  private readonly BIOMETRY_REFERENCES: Record<
+    BiometryParameter,
+    { label: string; mean: (weeks: number) => number; sdFraction: number }
+  > = {
+    bpd: {
+      label: 'BPD',
+      mean: weeks => -3.08 + 0.41 * weeks - 0.000061 * weeks ** 3,
+      sdFraction: 0.04,
+    },
+    hc: {
+      label: 'HC',
+      mean: weeks => -11.48 + 1.56 * weeks - 0.0002548 * weeks ** 3,
+      sdFraction: 0.035,
+    },
+    ac: {
+      label: 'AC',
+      mean: weeks => -13.3 + 1.61 * weeks - 0.00998 * weeks ** 2,
+      sdFraction: 0.05,
+    },
+    fl: {
+      label: 'FL',
+      mean: weeks => -3.91 + 0.427 * weeks - 0.0034 * weeks ** 2,
+      sdFraction: 0.045,
+    },
+  };
+
+  /**
+   * Estimates the reference fetal size for a gestational day
+   * @param gestationalAgeDays - Gestational age in days
+   * @param weightFactor - Multiplier applied to weight (e.g. slower growth of multiples)
+   * @returns Weight and length percentile bands, or undefined before 10 weeks
+   */
+  estimateGrowth(
+    gestationalAgeDays: number,
+    weightFactor: number = 1
+  ): FetalGrowthEstimate | undefined {
+    if (gestationalAgeDays < this.GROWTH_REFERENCE_START_DAYS) {
+      return undefined;
+    }
+
+    const gestationalWeeks = gestationalAgeDays / this.DAYS_PER_WEEK;
+    const lengthType = gestationalWeeks < this.CROWN_HEEL_FROM_WEEKS ? 'crown-rump' : 'crown-heel';
+    const medianWeight = this.getMedianWeight(gestationalAgeDays) * weightFactor;
+    // Length scales with the cube root of weight
+    const medianLength =
+      (lengthType === 'crown-rump'
+        ? this.getCrownRumpLengthCm(gestationalAgeDays)
+        : this.getCrownHeelLengthCm(gestationalWeeks)) * Math.cbrt(weightFactor);
+
+    return {
+      weightGrams: this.toPercentileBand(medianWeight, this.WEIGHT_SD_FRACTION, 0),
+      lengthCm: this.toPercentileBand(medianLength, this.LENGTH_SD_FRACTION, 1),
+      lengthType,
+    };
+  }
+
+  /**
+   * Gets the median fetal weight from the Hadlock in-utero weight standard
+   * ln(EFW) = 0.578 + 0.332 GA - 0.00354 GA² (GA in weeks)
+   * @param gestationalAgeDays - Gestational age in days
+   * @returns Median weight in grams
+   */
+  getMedianWeight(gestationalAgeDays: number): number {
+    const gestationalWeeks = gestationalAgeDays / this.DAYS_PER_WEEK;
+    return Math.exp(0.578 + 0.332 * gestationalWeeks - 0.00354 * gestationalWeeks ** 2);
+  }
+
+  /**
+   * Estimates fetal weight from scan biometry (Hadlock 1985)
+   * Uses the most complete formula the available measurements allow
+   * @param entry - Biometry measurements (AC and FL required)
+   * @returns Estimated weight in grams and the formula used
+   */
+  estimateFetalWeight(entry: Pick<BiometryEntry, 'bpdMm' | 'hcMm' | 'acMm' | 'flMm'>): {
+    grams: number;
+    formula: string;
+  } {
+    // Hadlock formulas use centimeters
+    const ac = entry.acMm / 10;
+    const fl = entry.flMm / 10;
+    const bpd = entry.bpdMm !== undefined ? entry.bpdMm / 10 : undefined;
+    const hc = entry.hcMm !== undefined ? entry.hcMm / 10 : undefined;
+
+    let log10Weight: number;
+    let formula: string;
+
+    if (bpd !== undefined && hc !== undefined) {
+      log10Weight =
+        1.3596 - 0.00386 * ac * fl + 0.0064 * hc + 0.00061 * bpd * ac + 0.0424 * ac + 0.174 * fl;
+      formula = 'Hadlock (BPD, HC, AC, FL)';
+    } else if (hc !== undefined) {
+      log10Weight = 1.326 - 0.00326 * ac * fl + 0.0107 * hc + 0.0438 * ac + 0.158 * fl;
+      formula = 'Hadlock (HC, AC, FL)';
+    } else if (bpd !== undefined) {
+      log10Weight = 1.335 - 0.0034 * ac * fl + 0.0316 * bpd + 0.0457 * ac + 0.1623 * fl;
+      formula = 'Hadlock (BPD, AC, FL)';
+    } else {
+      log10Weight = 1.304 + 0.05281 * ac + 0.1938 * fl - 0.004 * ac * fl;
+      formula = 'Hadlock (AC, FL)';
+    }
+
+    return { grams: Math.round(10 ** log10Weight), formula };
+  }
+
+  /**
+   * Gets the percentile of a biometry measurement for the gestational age
+   * @param parameter - Measured parameter
+   * @param valueMm - Measured value in millimeters
+   * @param gestationalAgeDays - Gestational age on the scan date in days
+   * @returns Percentile (1-99), or undefined outside 14-42 weeks
+   */
+  getMeasurementPercentile(
+    parameter: BiometryParameter,
+    valueMm: number,
+    gestationalAgeDays: number
+  ): number | undefined {
+    const gestationalWeeks = gestationalAgeDays / this.DAYS_PER_WEEK;
+    if (
+      gestationalWeeks < this.BIOMETRY_RANGE_WEEKS.min ||
+      gestationalWeeks > this.BIOMETRY_RANGE_WEEKS.max
+    ) {
+      return undefined;
+    }
+
+    const reference = this.BIOMETRY_REFERENCES[parameter];
+    const meanMm = reference.mean(gestationalWeeks) * 10;
+    return this.toPercentile((valueMm / meanMm - 1) / reference.sdFraction);
+  }
+
+  /**
+   * Gets the percentile of an estimated fetal weight on the Hadlock weight standard
+   * @param grams - Estimated fetal weight in grams
+   * @param gestationalAgeDays - Gestational age on the scan date in days
+   * @returns Percentile (1-99), or undefined before 10 weeks
+   */
+  getWeightPercentile(grams: number, gestationalAgeDays: number): number | undefined {
+    if (gestationalAgeDays < this.GROWTH_REFERENCE_START_DAYS) {
+      return undefined;
+    }
+
+    const median = this.getMedianWeight(gestationalAgeDays);
+    return this.toPercentile((grams / median - 1) / this.WEIGHT_SD_FRACTION);
+  }
+
+  /**
+   * Gets the display label for a biometry parameter
+   * @param parameter - Biometry parameter
+   * @returns Abbreviated label (e.g. "BPD")
+   */
+  getBiometryLabel(parameter: BiometryParameter): string {
+    return this.BIOMETRY_REFERENCES[parameter].label;
+  }
+
+  /**
+   * Gets the median crown-rump length by inverting the Robinson & Fleming formula
+   * @param gestationalAgeDays - Gestational age in days
+   * @returns Crown-rump length in centimeters
+   * @private
+   */
+  private getCrownRumpLengthCm(gestationalAgeDays: number): number {
+    const crownRumpLengthMm = ((gestationalAgeDays - 23.73) / 8.052) ** 2;
+    return crownRumpLengthMm / 10;
+  }
+
+  /**
+   * Gets the median crown-heel length from the expected femur length
+   * Femur length inverts Hadlock's GA = 10.35 + 2.46 FL + 0.17 FL² (FL in cm);
+   * crown-heel length (cm) = 6.18 + 0.59 × FL (mm)
+   * @param gestationalWeeks - Gestational age in weeks
+   * @returns Crown-heel length in centimeters
+   * @private
+   */
+  private getCrownHeelLengthCm(gestationalWeeks: number): number {
+    const discriminant = 2.46 ** 2 - 4 * 0.17 * (10.35 - gestationalWeeks);
+    const femurLengthCm = (-2.46 + Math.sqrt(discriminant)) / (2 * 0.17);
+    return 6.18 + 0.59 * femurLengthCm * 10;
+  }
+
+  /**
+   * Converts a z-score to a whole percentile, capped to 1-99
+   * Uses the Abramowitz & Stegun approximation of the error function
+   * @param zScore - Standard normal z-score
+   * @returns Percentile between 1 and 99
+   * @private
+   */
+  private toPercentile(zScore: number): number {
+    const x = Math.abs(zScore) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const polynomial =
+      t *
+      (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+    const erf = 1 - polynomial * Math.exp(-x * x);
+    const cumulative = zScore >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+    return Math.min(99, Math.max(1, Math.round(cumulative * 100)));
+  }
+
+  /**
+   * Builds a 10th/50th/90th percentile band around a median
+   * @param median - Median value
+   * @param sdFraction - Standard deviation as a fraction of the median
+   * @param decimals - Decimal places to round to
+   * @returns Percentile band
+   * @private
+   */
+  private toPercentileBand(median: number, sdFraction: number, decimals: number): PercentileBand {
+    const spread = this.Z_90TH_PERCENTILE * sdFraction;
+    const factor = 10 ** decimals;
+    const round = (value: number): number => Math.round(value * factor) / factor;
+
+    return {
+      p10: round(median * (1 - spread)),
+      p50: round(median),
+      p90: round(median * (1 + spread)),
+    };
+  }
+}
@@ -0,0 +1,81 @@
+import { TestBed } from '@angular/core/testing';
+
+import { I18nService } from './i18n.service';
+
+describe('I18nService', () => {
+  let service: I18nService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(I18nService);
+    service.setLanguage('en');
+  });
+
+  afterEach(() => {
+    service.setLanguage('en');
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should translate messages and fill in placeholders', () => {
+    expect(service.translate('common.week', { week: 12 })).toBe('Week 12');
+
+    service.setLanguage('es');
+    expect(service.translate('common.week', { week: 12 })).toBe('Semana 12');
+
+    service.setLanguage('ar');
+    expect(service.translate('common.week', { week: 12 })).toBe('الأسبوع 12');
+  });
+
+  it('should pick plural forms by count', () => {
+    expect(service.translate('summary.daysRemaining', { count: 1 })).toBe('1 day remaining');
+    expect(service.translate('summary.daysRemaining', { count: 5 })).toBe('5 days remaining');
+    expect(service.translate('biometry.percentile', { count: 22 })).toBe('22nd');
+    expect(service.translate('biometry.percentile', { count: 13 })).toBe('13th');
+
+    service.setLanguage('ar');
+    expect(service.translate('summary.daysRemaining', { count: 2 })).toBe('تبقّى يومان');
+    expect(service.translate('summary.daysRemaining', { count: 5 })).toBe('تبقّت 5 أيام');
+    expect(service.translate('summary.daysRemaining', { count: 11 })).toBe('تبقّى 11 يومًا');
+  });
+
+  it('should translate built-in content and fall back to English', () => {
+    service.setLanguage('es');
+
+    expect(service.translateContent('Twins')).toBe('Gemelos');
+    expect(service.translateContent('Not in any catalog')).toBe('Not in any catalog');
+  });
+
+  it('should set the document language and direction', () => {
+    service.setLanguage('ar');
+
+    expect(service.getDirection()).toBe('rtl');
+    expect(document.documentElement.lang).toBe('ar');
+    expect(document.documentElement.dir).toBe('rtl');
+
+    service.setLanguage(undefined);
+
+    expect(service.getLanguageSync()).toBe('en');
+    expect(document.documentElement.dir).toBe('ltr');
+  });
+
+  it('should name months in the current language', () => {
+    expect(service.getMonthName(10)).toBe('October');
+
+    service.setLanguage('es');
+    expect(service.getMonthName(10)).toBe('Octubre');
+  });
+
+  it('should recognise supported languages only', () => {
+    expect(service.getAvailableLanguages().map(language => language.value)).toEqual([
+      'en',
+      'es',
+      'ar',
+    ]);
+    expect(service.isLanguage('ar')).toBe(true);
+    expect(service.isLanguage('fr')).toBe(false);
+    expect(service.isLanguage(undefined)).toBe(false);
+  });
+});
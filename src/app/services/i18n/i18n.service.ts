@@ -0,0 +1,218 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { Language, TextDirection } from '../../models/pregnancy.models';
+import { ContentCatalog, EN_MESSAGES, MessageCatalog, MessageKey } from '../../i18n/messages.en';
+import { ES_MESSAGES } from '../../i18n/messages.es';
+import { AR_MESSAGES } from '../../i18n/messages.ar';
+import { ES_CONTENT } from '../../i18n/content.es';
+import { AR_CONTENT } from '../../i18n/content.ar';
+
+/**
+ * Values that can be placed into a message's "{name}" placeholders
+ * Missing values (e.g. from a pipe given no input) leave the placeholder as is
+ */
+export type MessageParams = Record<string, string | number | null | undefined>;
+
+/**
+ * Service responsible for the display language
+ * Looks up interface messages and translations of the calculator's content,
+ * and sets the document language and text direction
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class I18nService {
+  /** Language used by legacy preferences that never chose one */
+  readonly DEFAULT_LANGUAGE: Language = 'en';
+
+  /** Display name, default locale, direction and catalogs of each language */
+  private readonly LANGUAGES: Record<
+    Language,
+    {
+      label: string;
+      locale: string;
+      direction: TextDirection;
+      messages: MessageCatalog;
+      content: ContentCatalog;
+    }
+  > = {
+    en: { label: 'English', locale: 'en-US', direction: 'ltr', messages: EN_MESSAGES, content: {} },
+    es: {
+      label: 'Español',
+      locale: 'es-ES',
+      direction: 'ltr',
+      messages: ES_MESSAGES,
+      content: ES_CONTENT,
+    },
+    ar: {
+      label: 'العربية',
+      locale: 'ar',
+      direction: 'rtl',
+      messages: AR_MESSAGES,
+      content: AR_CONTENT,
+    },
+  };
+
+  /** Current language subject */
+  private languageSubject = new BehaviorSubject<Language>(this.detectLanguage());
+
+  /**
+   * Gets the supported languages for selection
+   * @returns Array of languages with their own-language names
+   */
+  getAvailableLanguages(): Array<{ value: Language; label: string; direction: TextDirection }> {
+    return (Object.keys(this.LANGUAGES) as Language[]).map(value => ({
+      value,
+      label: this.LANGUAGES[value].label,
+      direction: this.LANGUAGES[value].direction,
+    }));
+  }
+
+  /**
+   * Checks whether a value is a supported language
+   * @param value - Value to check
+   * @returns Boolean indicating if the value is a language code
+   */
+  isLanguage(value: unknown): value is Language {
+    return typeof value === 'string' && Object.keys(this.LANGUAGES).includes(value);
+  }
+
+  /**
+   * Gets the current language as an Observable
+   * @returns Observable of the current language
+   */
+  getLanguage(): Observable<Language> {
+    return this.languageSubject.asObservable();
+  }
+
+  /**
+   * Gets the current language synchronously
+   * @returns Current language
+   */
+  getLanguageSync(): Language {
+    return this.languageSubject.value;
+  }
+
+  /**
+   * Sets the display language and applies its direction to the document
+   * @param language - Language to use (English when absent)
+   */
+  setLanguage(language: Language | undefined): void {
+    const nextLanguage = language ?? this.DEFAULT_LANGUAGE;
+
+    if (typeof document !== 'undefined') {
+      document.documentElement.lang = nextLanguage;
+      document.documentElement.dir = this.LANGUAGES[nextLanguage].direction;
+    }
+
+    this.languageSubject.next(nextLanguage);
+  }
+
+  /**
+   * Picks the supported language that best matches the browser
+   * @returns Browser language when supported, otherwise English
+   */
+  detectLanguage(): Language {
+    const browserLanguage = typeof navigator !== 'undefined' ? navigator.language : '';
+    const primarySubtag = (browserLanguage ?? '').split('-')[0].toLowerCase();
+    return this.isLanguage(primarySubtag) ? primarySubtag : this.DEFAULT_LANGUAGE;
+  }
+
+  /**
+   * Gets the locale used to format numbers and dates in the current language
+   * Keeps the browser's region when it speaks the same language (e.g. "es-MX")
+   * @returns BCP 47 locale tag
+   */
+  getLocale(): string {
+    const language = this.getLanguageSync();
+    const browserLocale = typeof navigator !== 'undefined' ? navigator.language : '';
+
+    if (browserLocale && browserLocale.split('-')[0].toLowerCase() === language) {
+      return browserLocale;
+    }
+
+    return this.LANGUAGES[language].locale;
+  }
+
+  /**
+   * Gets the text direction of the current language
+   * @returns "rtl" for right-to-left languages, otherwise "ltr"
+   */
+  getDirection(): TextDirection {
+    return this.LANGUAGES[this.getLanguageSync()].direction;
+  }
+
+  /**
+   * Gets the own-language name of a language
+   * @param language - Language code (defaults to the current language)
+   * @returns Display name (e.g. "Español")
+   */
+  getLanguageLabel(language: Language = this.getLanguageSync()): string {
+    return this.LANGUAGES[language].label;
+  }
+
+  /**
+   * Translates an interface message into the current language
+   * Plural messages pick their form from the "count" parameter
+   * @param key - Message key
+   * @param params - Values for the message's placeholders
+   * @returns Translated text, falling back to English
+   */
+  translate(key: MessageKey, params: MessageParams = {}): string {
+    const language = this.getLanguageSync();
+    const message = this.LANGUAGES[language].messages[key] ?? EN_MESSAGES[key];
+
+    if (message === undefined) {
+      return key;
+    }
+
+    let text: string;
+    if (typeof message === 'string') {
+      text = message;
+    } else {
+      const count = Number(params['count'] ?? 0);
+      const rule = new Intl.PluralRules(this.getLocale(), {
+        type: message.type ?? 'cardinal',
+      }).select(count);
+      text = message[rule] ?? message.other;
+    }
+
+    return this.interpolate(text, params);
+  }
+
+  /**
+   * Translates a piece of the calculator's built-in English content
+   * @param text - English text (e.g. a week description or appointment type)
+   * @returns Translated text, or the English text when no translation exists
+   */
+  translateContent(text: string): string {
+    return this.LANGUAGES[this.getLanguageSync()].content[text] ?? text;
+  }
+
+  /**
+   * Gets the name of a calendar month in the current language
+   * @param month - Month number (1-12)
+   * @returns Month name (e.g. "October", "octubre")
+   */
+  getMonthName(month: number): string {
+    const name = new Intl.DateTimeFormat(this.getLocale(), {
+      month: 'long',
+      timeZone: 'UTC',
+    }).format(new Date(Date.UTC(2000, month - 1, 1)));
+
+    return name.charAt(0).toLocaleUpperCase(this.getLocale()) + name.slice(1);
+  }
+
+  /**
+   * Fills "{name}" placeholders with parameter values
+   * @param text - Message text
+   * @param params - Placeholder values
+   * @returns Text with known placeholders replaced
+   * @private
+   */
+  private interpolate(text: string, params: MessageParams): string {
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      params[name] !== undefined && params[name] !== null ? String(params[name]) : placeholder
+    );
+  }
+}
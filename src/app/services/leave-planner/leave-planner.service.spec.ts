@@ -0,0 +1,95 @@
+import { TestBed } from '@angular/core/testing';
+
+import { LeavePlannerService } from './leave-planner.service';
+
+describe('LeavePlannerService', () => {
+  let service: LeavePlannerService;
+  // Saturday 6 December 2025; the UK expected week of childbirth starts Sunday 30 November
+  const dueDate = new Date(2025, 11, 6);
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(LeavePlannerService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should offer every jurisdiction', () => {
+    expect(service.getAvailableJurisdictions().map(option => option.value)).toEqual([
+      'us-fmla',
+      'uk-sml',
+      'de-mutterschutz',
+    ]);
+  });
+
+  describe('UK Statutory Maternity Leave', () => {
+    it('should start no earlier than 11 weeks before the expected week of childbirth', () => {
+      const plan = service.planLeave(dueDate, { jurisdiction: 'uk-sml' });
+
+      expect(plan.earliestStart).toEqual(new Date(2025, 8, 14));
+      expect(plan.latestStart).toEqual(new Date(2025, 11, 7));
+      expect(plan.plannedStart).toEqual(dueDate);
+      expect(plan.returnDate).toEqual(new Date(2026, 11, 5));
+      expect(plan.durationWeeks).toBe(52);
+    });
+
+    it('should set the notice deadline by the 15th week or 28 days before leave', () => {
+      const usual = service.planLeave(dueDate, { jurisdiction: 'uk-sml' });
+      expect(usual.notificationDeadline).toEqual(new Date(2025, 7, 23));
+
+      const early = service.planLeave(dueDate, {
+        jurisdiction: 'uk-sml',
+        plannedStartDate: '2025-09-14',
+      });
+      expect(early.notificationDeadline).toEqual(new Date(2025, 7, 17));
+    });
+  });
+
+  it('should give 12 weeks of FMLA leave with 30 days notice', () => {
+    const plan = service.planLeave(dueDate, { jurisdiction: 'us-fmla' });
+
+    expect(plan.earliestStart).toEqual(new Date(2025, 8, 13));
+    expect(plan.notificationDeadline).toEqual(new Date(2025, 10, 6));
+    expect(plan.returnDate).toEqual(new Date(2026, 1, 28));
+    expect(plan.durationWeeks).toBe(12);
+  });
+
+  it('should extend Mutterschutz after a multiple birth', () => {
+    const plan = service.planLeave(dueDate, { jurisdiction: 'de-mutterschutz' }, 'twins');
+
+    expect(plan.plannedStart).toEqual(new Date(2025, 9, 25));
+    expect(plan.returnDate).toEqual(new Date(2026, 1, 28));
+    expect(plan.durationWeeks).toBe(18);
+    expect(plan.notificationDeadline).toBeUndefined();
+    expect(plan.events.map(event => event.type)).not.toContain('notification-deadline');
+  });
+
+  it('should move a planned start outside the allowed range to the nearest allowed day', () => {
+    const tooEarly = service.planLeave(dueDate, {
+      jurisdiction: 'uk-sml',
+      plannedStartDate: '2025-06-01',
+    });
+    const tooLate = service.planLeave(dueDate, {
+      jurisdiction: 'de-mutterschutz',
+      plannedStartDate: '2026-01-10',
+    });
+
+    expect(tooEarly.plannedStart).toEqual(tooEarly.earliestStart);
+    expect(tooLate.plannedStart).toEqual(dueDate);
+  });
+
+  it('should list the plan dates in calendar order', () => {
+    const plan = service.planLeave(dueDate, { jurisdiction: 'uk-sml' });
+
+    expect(plan.events.map(event => event.type)).toEqual([
+      'notification-deadline',
+      'earliest-start',
+      'planned-start',
+      'latest-start',
+      'return',
+    ]);
+    expect(plan.events[1].formatted).toBe('09/14/2025');
+  });
+});
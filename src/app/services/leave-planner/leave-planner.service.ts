@@ -0,0 +1,222 @@
+import { Injectable } from '@angular/core';
+import {
+  LeaveEvent,
+  LeaveEventType,
+  LeaveJurisdiction,
+  LeavePlan,
+  LeaveSettings,
+  Plurality,
+} from '../../models/pregnancy.models';
+import { MessageKey } from '../../i18n/messages.en';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { DateFormatService } from '../date-format/date-format.service';
+import { I18nService } from '../i18n/i18n.service';
+
+/**
+ * Leave rules of one jurisdiction, worked out from the due date
+ */
+interface LeaveRuleSet {
+  /** Display label */
+  label: string;
+  /** Summary of the rules */
+  description: string;
+  /** How and when the employer must be told */
+  notificationRule: string;
+  /** First day leave may start */
+  earliestStart: (dueDate: CalendarDate) => CalendarDate;
+  /** Last day leave may start */
+  latestStart: (dueDate: CalendarDate) => CalendarDate;
+  /** Start used until the user picks one */
+  usualStart: (dueDate: CalendarDate) => CalendarDate;
+  /** Last day to tell the employer; absent where the law sets no deadline */
+  notificationDeadline?: (dueDate: CalendarDate, start: CalendarDate) => CalendarDate;
+  /** Length of the full leave in weeks */
+  durationWeeks: (multipleBirth: boolean) => number;
+  /** First day back at work after the full leave */
+  returnDate: (dueDate: CalendarDate, start: CalendarDate, multipleBirth: boolean) => CalendarDate;
+}
+
+/**
+ * Service that plans maternity leave around the due date
+ * Rule sets follow US FMLA, UK Statutory Maternity Leave and German Mutterschutz
+ * (as an EU example). They give the statutory dates only; employer policies and
+ * collective agreements may be more generous.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LeavePlannerService {
+  /** Days per week */
+  private readonly DAYS_PER_WEEK = 7;
+
+  /** Leave rules by jurisdiction */
+  private readonly LEAVE_RULES: Record<LeaveJurisdiction, LeaveRuleSet> = {
+    'us-fmla': {
+      label: 'United States (FMLA)',
+      description:
+        '12 weeks of unpaid, job-protected leave, used within 12 months of the birth; weeks taken before the birth count toward the 12',
+      notificationRule: "Give your employer 30 days' notice before leave starts",
+      earliestStart: dueDate => dueDate.addDays(-12 * this.DAYS_PER_WEEK),
+      latestStart: dueDate => dueDate.addYears(1).addDays(-12 * this.DAYS_PER_WEEK),
+      usualStart: dueDate => dueDate,
+      notificationDeadline: (dueDate, start) => start.addDays(-30),
+      durationWeeks: () => 12,
+      returnDate: (dueDate, start) => start.addDays(12 * this.DAYS_PER_WEEK),
+    },
+    'uk-sml': {
+      label: 'United Kingdom (Statutory Maternity Leave)',
+      description:
+        '52 weeks of leave (39 weeks with Statutory Maternity Pay), starting no earlier than 11 weeks before the expected week of childbirth and no later than the day after the birth',
+      notificationRule:
+        'Tell your employer by the end of the 15th week before the expected week of childbirth, and at least 28 days before leave starts',
+      earliestStart: dueDate =>
+        this.getUkExpectedWeekStart(dueDate).addDays(-11 * this.DAYS_PER_WEEK),
+      latestStart: dueDate => dueDate.addDays(1),
+      usualStart: dueDate => dueDate,
+      notificationDeadline: (dueDate, start) => {
+        const fifteenthWeekEnd = this.getUkExpectedWeekStart(dueDate).addDays(-99);
+        const noticePeriodEnd = start.addDays(-28);
+        return fifteenthWeekEnd.isBefore(noticePeriodEnd) ? fifteenthWeekEnd : noticePeriodEnd;
+      },
+      durationWeeks: () => 52,
+      returnDate: (dueDate, start) => start.addDays(52 * this.DAYS_PER_WEEK),
+    },
+    'de-mutterschutz': {
+      label: 'Germany (Mutterschutz)',
+      description:
+        'Maternity protection from 6 weeks before the due date until 8 weeks after the birth (12 weeks for multiples); you may choose to keep working until the birth',
+      notificationRule:
+        'No legal deadline; tell your employer as soon as you know you are pregnant so the protections apply',
+      earliestStart: dueDate => dueDate.addDays(-6 * this.DAYS_PER_WEEK),
+      latestStart: dueDate => dueDate,
+      usualStart: dueDate => dueDate.addDays(-6 * this.DAYS_PER_WEEK),
+      durationWeeks: multipleBirth => (multipleBirth ? 18 : 14),
+      returnDate: (dueDate, start, multipleBirth) =>
+        dueDate.addDays((multipleBirth ? 12 : 8) * this.DAYS_PER_WEEK),
+    },
+  };
+
+  /** Message keys of the plan date labels */
+  private readonly EVENT_LABELS: Record<LeaveEventType, MessageKey> = {
+    'notification-deadline': 'leave.notificationDeadline',
+    'earliest-start': 'leave.earliestStart',
+    'planned-start': 'leave.plannedStart',
+    'latest-start': 'leave.latestStart',
+    return: 'leave.returnDate',
+  };
+
+  constructor(
+    private dateFormatService: DateFormatService,
+    private i18nService: I18nService
+  ) {}
+
+  /**
+   * Gets the leave rule sets for selection
+   * @returns Jurisdiction options with labels and rule summaries
+   */
+  getAvailableJurisdictions(): Array<{
+    value: LeaveJurisdiction;
+    label: string;
+    description: string;
+  }> {
+    return (Object.keys(this.LEAVE_RULES) as LeaveJurisdiction[]).map(jurisdiction => ({
+      value: jurisdiction,
+      label: this.i18nService.translateContent(this.LEAVE_RULES[jurisdiction].label),
+      description: this.i18nService.translateContent(this.LEAVE_RULES[jurisdiction].description),
+    }));
+  }
+
+  /**
+   * Works out the leave dates for a due date
+   * A planned start outside the allowed range is moved to the nearest allowed day.
+   * @param dueDate - Estimated due date (see PregnancyCalculatorService.calculateDueDate)
+   * @param settings - Jurisdiction and chosen start date
+   * @param plurality - Number of babies (some rules give longer leave for multiples)
+   * @returns Leave plan with its dates in calendar order
+   */
+  planLeave(dueDate: Date, settings: LeaveSettings, plurality: Plurality = 'singleton'): LeavePlan {
+    const rules = this.LEAVE_RULES[settings.jurisdiction];
+    const multipleBirth = plurality !== 'singleton';
+    const due = CalendarDate.fromDate(dueDate);
+
+    const earliestStart = rules.earliestStart(due);
+    const latestStart = rules.latestStart(due);
+    const plannedStart = this.clamp(
+      settings.plannedStartDate
+        ? CalendarDate.parse(settings.plannedStartDate)
+        : rules.usualStart(due),
+      earliestStart,
+      latestStart
+    );
+    const notificationDeadline = rules.notificationDeadline?.(due, plannedStart);
+    const returnDate = rules.returnDate(due, plannedStart, multipleBirth);
+
+    const events: LeaveEvent[] = [
+      this.createEvent('earliest-start', earliestStart),
+      this.createEvent('planned-start', plannedStart),
+      this.createEvent('latest-start', latestStart),
+      this.createEvent('return', returnDate),
+    ];
+    if (notificationDeadline) {
+      events.unshift(this.createEvent('notification-deadline', notificationDeadline));
+    }
+
+    return {
+      jurisdiction: settings.jurisdiction,
+      label: this.i18nService.translateContent(rules.label),
+      description: this.i18nService.translateContent(rules.description),
+      earliestStart: earliestStart.toDate(),
+      latestStart: latestStart.toDate(),
+      plannedStart: plannedStart.toDate(),
+      notificationDeadline: notificationDeadline?.toDate(),
+      notificationRule: this.i18nService.translateContent(rules.notificationRule),
+      returnDate: returnDate.toDate(),
+      durationWeeks: rules.durationWeeks(multipleBirth),
+      events: events.sort((a, b) =>
+        CalendarDate.fromDate(a.date).compareTo(CalendarDate.fromDate(b.date))
+      ),
+    };
+  }
+
+  /**
+   * Builds one dated entry of a leave plan
+   * @param type - Which date of the plan it is
+   * @param date - Calendar date
+   * @returns Leave event with its label and formatted date
+   * @private
+   */
+  private createEvent(type: LeaveEventType, date: CalendarDate): LeaveEvent {
+    return {
+      type,
+      label: this.i18nService.translate(this.EVENT_LABELS[type]),
+      date: date.toDate(),
+      formatted: this.dateFormatService.format(date.toDate()),
+    };
+  }
+
+  /**
+   * Gets the first day of the UK expected week of childbirth
+   * The expected week runs Sunday to Saturday and contains the due date
+   * @param dueDate - Due date
+   * @returns Sunday starting the expected week of childbirth
+   * @private
+   */
+  private getUkExpectedWeekStart(dueDate: CalendarDate): CalendarDate {
+    return dueDate.addDays(-dueDate.dayOfWeek);
+  }
+
+  /**
+   * Keeps a date within a range
+   * @param date - Date to keep in range
+   * @param min - First allowed date
+   * @param max - Last allowed date
+   * @returns The date, or the nearest end of the range
+   * @private
+   */
+  private clamp(date: CalendarDate, min: CalendarDate, max: CalendarDate): CalendarDate {
+    if (date.isBefore(min)) {
+      return min;
+    }
+    return date.isAfter(max) ? max : date;
+  }
+}
@@ -0,0 +1,106 @@
+import { TestBed } from '@angular/core/testing';
+
+import { NewbornService } from './newborn.service';
+import { ClockService } from '../clock/clock.service';
+import { I18nService } from '../i18n/i18n.service';
+import { BirthRecord } from '../../models/pregnancy.models';
+import { ES_CONTENT } from '../../i18n/content.es';
+import { AR_CONTENT } from '../../i18n/content.ar';
+
+describe('NewbornService', () => {
+  let service: NewbornService;
+  let clockService: ClockService;
+  const lmpDate = new Date(2025, 2, 1); // Due date 2025-12-06
+  const termBirth: BirthRecord = { deliveryDate: '2025-12-01', birthType: 'vaginal' };
+  const pretermBirth: BirthRecord = { deliveryDate: '2025-10-15', birthType: 'caesarean' };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(NewbornService);
+    clockService = TestBed.inject(ClockService);
+  });
+
+  afterEach(() => {
+    clockService.clearPreviewDate();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should count age in whole days, weeks and calendar months', () => {
+    expect(service.calculateBabyAge(new Date(2025, 11, 1), new Date(2026, 1, 9))).toEqual({
+      days: 70,
+      weeks: 10,
+      months: 2,
+    });
+    expect(service.calculateBabyAge(new Date(2025, 11, 1), new Date(2025, 10, 20))).toEqual({
+      days: 0,
+      weeks: 0,
+      months: 0,
+    });
+  });
+
+  it('should schedule first-year visits and vaccinations by chronological age', () => {
+    const events = service.getWellBabyEvents(termBirth);
+    const firstWeek = events.find(event => event.title === 'First-week check-up');
+    const twoMonth = events.find(event => event.title === '2-month vaccinations');
+
+    expect(events.length).toBe(15);
+    expect(events[0].ageLabel).toBe('At birth');
+    expect(firstWeek?.date).toEqual(new Date(2025, 11, 5));
+    expect(firstWeek?.ageLabel).toBe('4 days');
+    expect(twoMonth?.date).toEqual(new Date(2026, 1, 1));
+    expect(twoMonth?.ageLabel).toBe('2 months');
+    expect(events[events.length - 1].date).toEqual(new Date(2026, 11, 1));
+  });
+
+  it('should only give chronological age for a baby born at term', () => {
+    clockService.setPreviewDate(new Date(2025, 11, 20));
+
+    const summary = service.generateNewbornSummary(termBirth, lmpDate);
+
+    expect(summary.isPreterm).toBeFalse();
+    expect(summary.gestationalAgeAtBirth).toBe('39 2/7 weeks');
+    expect(summary.chronologicalAge).toEqual({ days: 19, weeks: 2, months: 0 });
+    expect(summary.correctedAge).toBeUndefined();
+    expect(summary.postmenstrualAge).toBeUndefined();
+  });
+
+  it('should give postmenstrual age before a preterm baby reaches the due date', () => {
+    clockService.setPreviewDate(new Date(2025, 10, 20));
+
+    const summary = service.generateNewbornSummary(pretermBirth, lmpDate);
+
+    expect(summary.isPreterm).toBeTrue();
+    expect(summary.gestationalAgeAtBirth).toBe('32 4/7 weeks');
+    expect(summary.daysEarly).toBe(52);
+    expect(summary.chronologicalAge).toEqual({ days: 36, weeks: 5, months: 1 });
+    expect(summary.correctedAge).toBeUndefined();
+    expect(summary.postmenstrualAge).toBe('37 5/7 weeks');
+  });
+
+  it('should give corrected age once a preterm baby passes the due date', () => {
+    clockService.setPreviewDate(new Date(2026, 0, 10));
+
+    const summary = service.generateNewbornSummary(pretermBirth, lmpDate);
+
+    expect(summary.chronologicalAge).toEqual({ days: 87, weeks: 12, months: 2 });
+    expect(summary.correctedAge).toEqual({ days: 35, weeks: 5, months: 1 });
+    expect(summary.upcomingEvents.length).toBe(3);
+    expect(summary.upcomingEvents[0].title).toBe('4-month well-baby visit');
+  });
+
+  it('should have Spanish and Arabic translations for all well-baby content', () => {
+    const i18nService = TestBed.inject(I18nService);
+    const contentSpy = spyOn(i18nService, 'translateContent').and.callThrough();
+
+    service.getWellBabyEvents(termBirth);
+
+    const englishContent = new Set(contentSpy.calls.allArgs().map(([text]) => text));
+    const missing = [...englishContent].filter(text => !ES_CONTENT[text] || !AR_CONTENT[text]);
+
+    expect(englishContent.size).toBe(30);
+    expect(missing).toEqual([]);
+  });
+});
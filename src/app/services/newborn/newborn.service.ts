@@ -0,0 +1,263 @@
+import { Injectable } from '@angular/core';
+import {
+  BabyAge,
+  BirthRecord,
+  NewbornSummary,
+  WellBabyEvent,
+  WellBabyEventType,
+} from '../../models/pregnancy.models';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { PregnancyCalculatorService } from '../pregnancy-calculator/pregnancy-calculator.service';
+import { ClockService } from '../clock/clock.service';
+import { DateFormatService } from '../date-format/date-format.service';
+import { I18nService } from '../i18n/i18n.service';
+
+/**
+ * Well-baby visit or vaccination of the first-year schedule
+ */
+interface WellBabyScheduleEntry {
+  /** Chronological age in months the entry is due at */
+  months: number;
+  /** Extra days on top of the months (for the first-week visit) */
+  days?: number;
+  /** Visit or vaccination */
+  type: WellBabyEventType;
+  /** Display title */
+  title: string;
+  /** What happens */
+  description: string;
+}
+
+/**
+ * Service for the baby's age and first-year well-baby timeline
+ * Visits follow the AAP Bright Futures periodicity schedule and vaccinations the CDC
+ * child immunization schedule. Vaccinations are given by chronological age, including
+ * for premature babies; corrected age is used for growth and developmental milestones.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class NewbornService {
+  /** Days per week */
+  private readonly DAYS_PER_WEEK = 7;
+
+  /** Number of upcoming events shown in the summary */
+  private readonly UPCOMING_EVENT_COUNT = 3;
+
+  /** Well-baby visits and vaccinations, by chronological age */
+  private readonly SCHEDULE: WellBabyScheduleEntry[] = [
+    {
+      months: 0,
+      type: 'vaccination',
+      title: 'Hepatitis B (dose 1)',
+      description: 'Given within 24 hours of birth',
+    },
+    {
+      months: 0,
+      type: 'visit',
+      title: 'Newborn examination',
+      description:
+        'A full check of the baby before going home, with newborn hearing and blood spot screening',
+    },
+    {
+      months: 0,
+      days: 4,
+      type: 'visit',
+      title: 'First-week check-up',
+      description: 'Weight, feeding and jaundice check 3 to 5 days after the birth',
+    },
+    {
+      months: 1,
+      type: 'visit',
+      title: '1-month well-baby visit',
+      description: 'Growth, feeding and sleep, and how the family is settling in',
+    },
+    {
+      months: 1,
+      type: 'vaccination',
+      title: 'Hepatitis B (dose 2)',
+      description: 'Given between 1 and 2 months',
+    },
+    {
+      months: 2,
+      type: 'visit',
+      title: '2-month well-baby visit',
+      description: 'Growth and development check alongside the first routine vaccinations',
+    },
+    {
+      months: 2,
+      type: 'vaccination',
+      title: '2-month vaccinations',
+      description: 'DTaP, Hib, polio (IPV), pneumococcal (PCV) and rotavirus',
+    },
+    {
+      months: 4,
+      type: 'visit',
+      title: '4-month well-baby visit',
+      description: 'Growth and development check, including rolling and head control',
+    },
+    {
+      months: 4,
+      type: 'vaccination',
+      title: '4-month vaccinations',
+      description: 'Second doses of DTaP, Hib, polio (IPV), pneumococcal (PCV) and rotavirus',
+    },
+    {
+      months: 6,
+      type: 'visit',
+      title: '6-month well-baby visit',
+      description: 'Growth and development check and advice on starting solid foods',
+    },
+    {
+      months: 6,
+      type: 'vaccination',
+      title: '6-month vaccinations',
+      description:
+        'DTaP, Hib, pneumococcal (PCV) and rotavirus; polio and hepatitis B doses are due between 6 and 18 months',
+    },
+    {
+      months: 6,
+      type: 'vaccination',
+      title: 'Flu vaccine',
+      description:
+        'Yearly flu vaccination can start at 6 months, with two doses 4 weeks apart the first season',
+    },
+    {
+      months: 9,
+      type: 'visit',
+      title: '9-month well-baby visit',
+      description: 'Growth check and a standard developmental screening',
+    },
+    {
+      months: 12,
+      type: 'visit',
+      title: '12-month well-baby visit',
+      description: 'Growth and development check, including a lead and anaemia screening',
+    },
+    {
+      months: 12,
+      type: 'vaccination',
+      title: '12-month vaccinations',
+      description:
+        'MMR, chickenpox (varicella), hepatitis A and the pneumococcal (PCV) booster; the Hib booster is due between 12 and 15 months',
+    },
+  ];
+
+  constructor(
+    private pregnancyCalculatorService: PregnancyCalculatorService,
+    private clockService: ClockService,
+    private dateFormatService: DateFormatService,
+    private i18nService: I18nService
+  ) {}
+
+  /**
+   * Counts the baby's age between two dates
+   * @param from - Date the age counts from (birth or due date)
+   * @param to - Date the age is counted to
+   * @returns Whole days, weeks and months (zero when the second date is earlier)
+   */
+  calculateBabyAge(from: Date, to: Date): BabyAge {
+    const start = CalendarDate.fromDate(from);
+    const end = CalendarDate.fromDate(to);
+    const days = Math.max(0, start.daysUntil(end));
+
+    return {
+      days,
+      weeks: Math.floor(days / this.DAYS_PER_WEEK),
+      months: Math.max(0, start.monthsUntil(end)),
+    };
+  }
+
+  /**
+   * Gets the well-baby visits and vaccinations of the first year
+   * @param birth - Birth record
+   * @returns Events in calendar order
+   */
+  getWellBabyEvents(birth: BirthRecord): WellBabyEvent[] {
+    const deliveryDate = CalendarDate.parse(birth.deliveryDate);
+    const today = this.clockService.calendarToday();
+
+    return this.SCHEDULE.map(entry => {
+      const date = deliveryDate.addMonths(entry.months).addDays(entry.days ?? 0);
+      return {
+        type: entry.type,
+        title: this.i18nService.translateContent(entry.title),
+        description: this.i18nService.translateContent(entry.description),
+        ageLabel: this.getAgeLabel(entry),
+        date: date.toDate(),
+        formatted: this.dateFormatService.format(date.toDate()),
+        isPast: date.isBefore(today),
+      };
+    });
+  }
+
+  /**
+   * Generates the newborn summary as of the clock's current date
+   * Corrected age counts from the due date and postmenstrual age is the gestational age the
+   * baby would be now; both are given for babies born before 37 weeks
+   * @param birth - Birth record
+   * @param lmpDate - Gestational LMP date of the pregnancy (see getGestationalLmp)
+   * @returns NewbornSummary object with the baby's ages and well-baby timeline
+   */
+  generateNewbornSummary(birth: BirthRecord, lmpDate: Date): NewbornSummary {
+    const deliveryDate = CalendarDate.parse(birth.deliveryDate);
+    const dueDate = CalendarDate.fromDate(
+      this.pregnancyCalculatorService.calculateDueDate(lmpDate)
+    );
+    const today = this.clockService.calendarToday();
+    const ageAtBirth = this.pregnancyCalculatorService.calculateGestationalAge(
+      lmpDate,
+      deliveryDate.toDate()
+    );
+    const isPreterm =
+      this.pregnancyCalculatorService.getTermCategory(ageAtBirth.totalDays) === 'preterm';
+    const events = this.getWellBabyEvents(birth);
+
+    let correctedAge: BabyAge | undefined;
+    let postmenstrualAge: string | undefined;
+    if (isPreterm) {
+      const ageNow = this.pregnancyCalculatorService.calculateGestationalAge(
+        lmpDate,
+        today.toDate()
+      );
+      postmenstrualAge = this.i18nService.translate('calc.gestationalAgeNotation', {
+        weeks: ageNow.weeks,
+        days: ageNow.days,
+      });
+      if (!today.isBefore(dueDate)) {
+        correctedAge = this.calculateBabyAge(dueDate.toDate(), today.toDate());
+      }
+    }
+
+    return {
+      chronologicalAge: this.calculateBabyAge(deliveryDate.toDate(), today.toDate()),
+      gestationalAgeAtBirth: this.i18nService.translate('calc.gestationalAgeNotation', {
+        weeks: ageAtBirth.weeks,
+        days: ageAtBirth.days,
+      }),
+      isPreterm,
+      daysEarly: Math.max(0, deliveryDate.daysUntil(dueDate)),
+      formattedDueDate: this.dateFormatService.format(dueDate.toDate()),
+      correctedAge,
+      postmenstrualAge,
+      upcomingEvents: events.filter(event => !event.isPast).slice(0, this.UPCOMING_EVENT_COUNT),
+      events,
+    };
+  }
+
+  /**
+   * Gets the display label of the age a schedule entry is due at
+   * @param entry - Schedule entry
+   * @returns Label such as "At birth", "4 days" or "2 months"
+   * @private
+   */
+  private getAgeLabel(entry: WellBabyScheduleEntry): string {
+    if (entry.months > 0) {
+      return this.i18nService.translate('newborn.ageMonths', { count: entry.months });
+    }
+    if (entry.days) {
+      return this.i18nService.translate('newborn.ageDays', { count: entry.days });
+    }
+    return this.i18nService.translate('newborn.atBirth');
+  }
+}
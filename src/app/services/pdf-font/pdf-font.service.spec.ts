@@ -0,0 +1,104 @@
+import { TestBed } from '@angular/core/testing';
+import { jsPDF } from 'jspdf';
+
+import { PdfFontService } from './pdf-font.service';
+
+describe('PdfFontService', () => {
+  let service: PdfFontService;
+  let pdf: jasmine.SpyObj<jsPDF>;
+  let fonts: Record<string, string[]>;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PdfFontService);
+
+    fonts = { helvetica: ['normal', 'bold', 'italic'] };
+    pdf = jasmine.createSpyObj<jsPDF>('jsPDF', [
+      'addFileToVFS',
+      'addFont',
+      'getFontList',
+      'setFont',
+    ]);
+    pdf.addFont.and.callFake((file: string | URL, family: string) => {
+      fonts[family] = ['normal', 'bold'];
+      return family;
+    });
+    pdf.getFontList.and.callFake(() => fonts);
+  });
+
+  /**
+   * Answers font requests with a few bytes, failing for the listed files
+   * @param missing - File names to answer with 404
+   */
+  function serveFonts(missing: string[] = []): jasmine.Spy {
+    return spyOn(globalThis, 'fetch').and.callFake((input: RequestInfo | URL) => {
+      const url = String(input);
+      const status = missing.some(file => url.endsWith(file)) ? 404 : 200;
+      return Promise.resolve(new Response(new Uint8Array([0, 1, 0, 0]), { status }));
+    });
+  }
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should detect the scripts used in text', () => {
+    expect(service.detectScripts('Week 12')).toEqual(['latin']);
+    expect(service.detectScripts('Неделя 12')).toEqual(['cyrillic']);
+    expect(service.detectScripts('Εβδομάδα')).toEqual(['greek']);
+    expect(service.detectScripts('الأسبوع 12')).toEqual(['arabic']);
+    expect(service.detectScripts('שבוע')).toEqual(['hebrew']);
+    expect(service.detectScripts('सप्ताह')).toEqual(['devanagari']);
+    expect(service.detectScripts('第12周 / 12週目')).toEqual(['cjk']);
+  });
+
+  it('should embed only the base font for text it covers', async () => {
+    const fetchSpy = serveFonts();
+
+    const registered = await service.registerFonts(pdf, ['Week 12', 'Неделя', 'الأسبوع']);
+
+    expect(registered).toEqual(['DejaVuSans']);
+    expect(fetchSpy.calls.allArgs()).toEqual([
+      ['assets/fonts/DejaVuSans.ttf'],
+      ['assets/fonts/DejaVuSans-Bold.ttf'],
+    ]);
+    expect(pdf.addFileToVFS).toHaveBeenCalledWith('DejaVuSans.ttf', '\x00\x01\x00\x00');
+    expect((pdf.addFont as jasmine.Spy).calls.allArgs()).toEqual([
+      ['DejaVuSans.ttf', 'DejaVuSans', 'normal'],
+      ['DejaVuSans-Bold.ttf', 'DejaVuSans', 'bold'],
+    ]);
+  });
+
+  it('should embed script-specific fonts and pick them per line', async () => {
+    serveFonts();
+
+    await service.registerFonts(pdf, ['Week 12', 'सप्ताह 12']);
+
+    service.setFont(pdf, 'सप्ताह 12', 'bold');
+    expect(pdf.setFont).toHaveBeenCalledWith('NotoSansDevanagari', 'bold');
+
+    service.setFont(pdf, 'Week 12', 'italic');
+    expect(pdf.setFont).toHaveBeenCalledWith('DejaVuSans', 'normal');
+  });
+
+  it('should fetch each font file only once', async () => {
+    const fetchSpy = serveFonts();
+
+    await service.registerFonts(pdf, ['Week 12']);
+    await service.registerFonts(pdf, ['Week 12']);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to the built-in font when a font cannot be loaded', async () => {
+    serveFonts(['DejaVuSans-Bold.ttf']);
+    spyOn(console, 'warn');
+
+    const registered = await service.registerFonts(pdf, ['Неделя']);
+    service.setFont(pdf, 'Неделя', 'italic');
+
+    expect(registered).toEqual([]);
+    expect(console.warn).toHaveBeenCalled();
+    expect(pdf.setFont).toHaveBeenCalledWith('helvetica', 'italic');
+  });
+});
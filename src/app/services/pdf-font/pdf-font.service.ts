@@ -0,0 +1,204 @@
+import { Injectable } from '@angular/core';
+import { jsPDF } from 'jspdf';
+import { PdfScript } from '../../models/pregnancy.models';
+
+/** Font styles the PDF export uses */
+export type PdfFontStyle = 'normal' | 'bold' | 'italic';
+
+/** Bundled TrueType font family and the scripts it covers */
+interface PdfFontFamily {
+  /** Family name registered with jsPDF */
+  family: string;
+  /** Font files under the fonts asset folder, by style */
+  files: { normal: string; bold: string };
+  /** Scripts the family has glyphs for */
+  scripts: PdfScript[];
+}
+
+/**
+ * Service responsible for the fonts embedded in PDF exports
+ * jsPDF's built-in fonts only cover Latin-1, so text in other scripts is drawn
+ * with bundled TrueType fonts chosen by the script of each line
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PdfFontService {
+  /** Folder the font files are served from */
+  private readonly FONT_PATH = 'assets/fonts/';
+
+  /** Built-in font used when no bundled font could be loaded */
+  private readonly FALLBACK_FAMILY = 'helvetica';
+
+  /**
+   * Bundled font families, most specific first
+   * The first family is the base font used for every line it can draw
+   */
+  private readonly FONT_FAMILIES: PdfFontFamily[] = [
+    {
+      family: 'DejaVuSans',
+      files: { normal: 'DejaVuSans.ttf', bold: 'DejaVuSans-Bold.ttf' },
+      scripts: ['latin', 'greek', 'cyrillic', 'hebrew', 'arabic'],
+    },
+    {
+      family: 'NotoSansDevanagari',
+      files: { normal: 'NotoSansDevanagari-Regular.ttf', bold: 'NotoSansDevanagari-Bold.ttf' },
+      scripts: ['devanagari'],
+    },
+    {
+      family: 'NotoSansSC',
+      files: { normal: 'NotoSansSC-Regular.ttf', bold: 'NotoSansSC-Bold.ttf' },
+      scripts: ['cjk'],
+    },
+  ];
+
+  /** Characters of each script other than Latin */
+  private readonly SCRIPT_PATTERNS: Array<{ script: PdfScript; pattern: RegExp }> = [
+    { script: 'cjk', pattern: /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u },
+    { script: 'devanagari', pattern: /\p{Script=Devanagari}/u },
+    { script: 'arabic', pattern: /\p{Script=Arabic}/u },
+    { script: 'hebrew', pattern: /\p{Script=Hebrew}/u },
+    { script: 'cyrillic', pattern: /\p{Script=Cyrillic}/u },
+    { script: 'greek', pattern: /\p{Script=Greek}/u },
+  ];
+
+  /** Font file contents as binary strings, loaded once per session */
+  private fontFiles = new Map<string, Promise<string>>();
+
+  /**
+   * Detects the scripts used in a piece of text
+   * @param text - Text to inspect
+   * @returns Scripts found, with Latin for text without any other script
+   */
+  detectScripts(text: string): PdfScript[] {
+    const scripts = this.SCRIPT_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(
+      ({ script }) => script
+    );
+    return scripts.length > 0 ? scripts : ['latin'];
+  }
+
+  /**
+   * Loads and registers the fonts needed to draw the given text
+   * The base font is always embedded; other families only when their script appears.
+   * Fonts that fail to load are skipped, leaving their text in the fallback font.
+   * @param pdf - jsPDF instance to register the fonts with
+   * @param texts - All text the document will contain
+   * @returns Promise resolving to the registered family names
+   */
+  async registerFonts(pdf: jsPDF, texts: string[]): Promise<string[]> {
+    const scripts = new Set(texts.flatMap(text => this.detectScripts(text)));
+    const families = this.FONT_FAMILIES.filter(
+      (family, index) => index === 0 || family.scripts.some(script => scripts.has(script))
+    );
+
+    const registered: string[] = [];
+    for (const family of families) {
+      try {
+        const [normal, bold] = await Promise.all([
+          this.loadFontFile(family.files.normal),
+          this.loadFontFile(family.files.bold),
+        ]);
+        pdf.addFileToVFS(family.files.normal, normal);
+        pdf.addFileToVFS(family.files.bold, bold);
+        pdf.addFont(family.files.normal, family.family, 'normal');
+        pdf.addFont(family.files.bold, family.family, 'bold');
+        registered.push(family.family);
+      } catch (error) {
+        // Forget failed loads so a later export can try again
+        this.fontFiles.delete(family.files.normal);
+        this.fontFiles.delete(family.files.bold);
+        console.warn(`PDF font ${family.family} could not be loaded:`, error);
+      }
+    }
+
+    return registered;
+  }
+
+  /**
+   * Selects the font for a line of text, keeping the current size
+   * @param pdf - jsPDF instance with the fonts registered
+   * @param text - Text about to be drawn or measured
+   * @param style - Font style (italic falls back to normal for bundled fonts)
+   */
+  setFont(pdf: jsPDF, text: string, style: PdfFontStyle): void {
+    const family = this.getFamilyForText(pdf, text);
+
+    if (family === this.FALLBACK_FAMILY) {
+      pdf.setFont(family, style);
+    } else {
+      pdf.setFont(family, style === 'bold' ? 'bold' : 'normal');
+    }
+  }
+
+  /**
+   * Picks the registered family that covers the text's scripts
+   * @param pdf - jsPDF instance with the fonts registered
+   * @param text - Text to draw
+   * @returns Family name, or the fallback font when none is registered
+   * @private
+   */
+  private getFamilyForText(pdf: jsPDF, text: string): string {
+    const available = Object.keys(pdf.getFontList());
+    const registered = this.FONT_FAMILIES.filter(family => available.includes(family.family));
+    const scripts = this.detectScripts(text);
+
+    // Prefer a family for the line's most specific script, then the base font
+    const specific = registered
+      .slice(1)
+      .find(family => family.scripts.some(script => scripts.includes(script)));
+    const base = registered.find(family => family === this.FONT_FAMILIES[0]);
+
+    return specific?.family ?? base?.family ?? this.FALLBACK_FAMILY;
+  }
+
+  /**
+   * Returns a font file as a binary string, fetching it on first use
+   * @param filename - Font file name in the fonts asset folder
+   * @returns Promise resolving to the file contents
+   * @private
+   */
+  private loadFontFile(filename: string): Promise<string> {
+    let file = this.fontFiles.get(filename);
+
+    if (!file) {
+      file = this.fetchFontFile(filename);
+      this.fontFiles.set(filename, file);
+    }
+
+    return file;
+  }
+
+  /**
+   * Fetches a font file from the fonts asset folder
+   * @param filename - Font file name
+   * @returns Promise resolving to the file contents as a binary string
+   * @private
+   */
+  private async fetchFontFile(filename: string): Promise<string> {
+    const response = await fetch(`${this.FONT_PATH}${filename}`);
+
+    if (!response.ok) {
+      throw new Error(`${filename}: HTTP ${response.status}`);
+    }
+
+    return this.toBinaryString(await response.arrayBuffer());
+  }
+
+  /**
+   * Converts file contents to the binary string jsPDF's virtual file system expects
+   * @param buffer - File contents
+   * @returns Binary string with one character per byte
+   * @private
+   */
+  private toBinaryString(buffer: ArrayBuffer): string {
+    const bytes = new Uint8Array(buffer);
+    const chunkSize = 0x8000;
+    let binary = '';
+
+    for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+      binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
+    }
+
+    return binary;
+  }
+}
@@ -0,0 +1,102 @@
+import { TestBed } from '@angular/core/testing';
+
+import { PostpartumService } from './postpartum.service';
+import { ClockService } from '../clock/clock.service';
+import { I18nService } from '../i18n/i18n.service';
+import { BirthRecord, BirthType } from '../../models/pregnancy.models';
+import { ES_CONTENT } from '../../i18n/content.es';
+import { AR_CONTENT } from '../../i18n/content.ar';
+
+describe('PostpartumService', () => {
+  let service: PostpartumService;
+  let clockService: ClockService;
+  const lmpDate = new Date(2025, 2, 1);
+  const birth: BirthRecord = {
+    deliveryDate: '2025-12-01',
+    birthType: 'vaginal',
+    birthWeightGrams: 3400,
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PostpartumService);
+    clockService = TestBed.inject(ClockService);
+  });
+
+  afterEach(() => {
+    clockService.clearPreviewDate();
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should include the checkups and milestones for the birth type', () => {
+    const vaginal = service.getPostpartumEvents(birth).map(event => event.title);
+    const caesarean = service
+      .getPostpartumEvents({ ...birth, birthType: 'caesarean' })
+      .map(event => event.title);
+
+    expect(vaginal).toContain('Stitches usually healed');
+    expect(vaginal).not.toContain('Caesarean wound check');
+    expect(caesarean).toContain('Caesarean wound check');
+    expect(caesarean).toContain('6-week postnatal check');
+  });
+
+  it('should build a 12-week timeline starting on the delivery date', () => {
+    const timeline = service.generatePostpartumTimeline(birth);
+
+    expect(timeline.length).toBe(84);
+    expect(timeline[0].date).toEqual(new Date(2025, 11, 1));
+    expect(timeline[0].postpartumWeek).toBe(1);
+    expect(timeline[83].postpartumWeek).toBe(12);
+    expect(timeline[42].formattedDate).toBe('01/12/2026');
+    expect(timeline[42].events.map(event => event.title)).toContain('6-week postnatal check');
+  });
+
+  it('should summarise recovery as of today', () => {
+    clockService.setPreviewDate(new Date(2025, 11, 20));
+
+    const summary = service.generatePostpartumSummary(birth, lmpDate);
+
+    expect(summary.daysSinceBirth).toBe(19);
+    expect(summary.postpartumWeek).toBe(3);
+    expect(summary.postpartumDayOfWeek).toBe(6);
+    expect(summary.progressPercentage).toBe(23);
+    expect(summary.isTimelineComplete).toBeFalse();
+    expect(summary.stageTitle).toBe('Healing');
+    expect(summary.gestationalAgeAtBirth).toBe('39 2/7 weeks');
+    expect(summary.upcomingEvents[0].title).toBe('Early postpartum contact');
+  });
+
+  it('should complete the timeline after 12 weeks', () => {
+    clockService.setPreviewDate(new Date(2026, 3, 1));
+
+    const summary = service.generatePostpartumSummary(birth, lmpDate);
+
+    expect(summary.postpartumWeek).toBe(12);
+    expect(summary.progressPercentage).toBe(100);
+    expect(summary.isTimelineComplete).toBeTrue();
+    expect(summary.upcomingEvents).toEqual([]);
+  });
+
+  it('should have Spanish and Arabic translations for all postpartum content', () => {
+    const i18nService = TestBed.inject(I18nService);
+    const contentSpy = spyOn(i18nService, 'translateContent').and.callThrough();
+    const birthTypes: BirthType[] = ['vaginal', 'assisted-vaginal', 'caesarean'];
+
+    service.getAvailableBirthTypes();
+    birthTypes.forEach(birthType => {
+      [0, 20, 50].forEach(days => {
+        clockService.setPreviewDate(new Date(2025, 11, 1 + days));
+        service.generatePostpartumSummary({ ...birth, birthType }, lmpDate);
+      });
+    });
+
+    const englishContent = new Set(contentSpy.calls.allArgs().map(([text]) => text));
+    const missing = [...englishContent].filter(text => !ES_CONTENT[text] || !AR_CONTENT[text]);
+
+    expect(englishContent.size).toBeGreaterThan(25);
+    expect(missing).toEqual([]);
+  });
+});
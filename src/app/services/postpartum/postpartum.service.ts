@@ -0,0 +1,306 @@
+import { Injectable } from '@angular/core';
+import {
+  BirthRecord,
+  BirthType,
+  PostpartumDay,
+  PostpartumEvent,
+  PostpartumEventType,
+  PostpartumSummary,
+} from '../../models/pregnancy.models';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { PregnancyCalculatorService } from '../pregnancy-calculator/pregnancy-calculator.service';
+import { ClockService } from '../clock/clock.service';
+import { DateFormatService } from '../date-format/date-format.service';
+import { I18nService } from '../i18n/i18n.service';
+
+/**
+ * Checkup or recovery milestone of the postpartum schedule
+ */
+interface PostpartumScheduleEntry {
+  /** Days after the birth */
+  day: number;
+  /** Checkup or recovery milestone */
+  type: PostpartumEventType;
+  /** Display title */
+  title: string;
+  /** What to expect */
+  description: string;
+  /** Birth types the entry applies to; absent when it applies to every birth */
+  birthTypes?: BirthType[];
+}
+
+/**
+ * Recovery stage of the postpartum weeks
+ */
+interface PostpartumStage {
+  /** First postpartum week of the stage */
+  startWeek: number;
+  /** Display title */
+  title: string;
+  /** What to expect */
+  description: string;
+}
+
+/**
+ * Service for the 12 weeks after the birth (the "fourth trimester")
+ * Schedules follow ACOG Committee Opinion 736 (postpartum contact within 3 weeks and a
+ * comprehensive visit by 12 weeks) and NICE NG194 (the 6-8 week postnatal check)
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class PostpartumService {
+  /** Length of the postpartum timeline in days (12 weeks) */
+  private readonly TIMELINE_DAYS = 84;
+
+  /** Days per week */
+  private readonly DAYS_PER_WEEK = 7;
+
+  /** Number of upcoming events shown in the summary */
+  private readonly UPCOMING_EVENT_COUNT = 3;
+
+  /** Display labels of the birth types */
+  private readonly BIRTH_TYPE_LABELS: Record<BirthType, string> = {
+    vaginal: 'Vaginal birth',
+    'assisted-vaginal': 'Assisted vaginal birth (forceps or vacuum)',
+    caesarean: 'Caesarean birth',
+  };
+
+  /** Checkups and recovery milestones, by day after the birth */
+  private readonly SCHEDULE: PostpartumScheduleEntry[] = [
+    {
+      day: 1,
+      type: 'checkup',
+      title: 'Postnatal check before going home',
+      description:
+        'Your bleeding, blood pressure, pain relief and feeding are checked before you leave hospital',
+    },
+    {
+      day: 3,
+      type: 'checkup',
+      title: 'Midwife or nurse visit',
+      description:
+        "A check of your recovery and the baby's feeding, weight and jaundice in the first days at home",
+    },
+    {
+      day: 3,
+      type: 'recovery',
+      title: 'Milk usually comes in',
+      description:
+        'Breast milk usually increases between days 2 and 5; breasts may feel full and tender',
+    },
+    {
+      day: 10,
+      type: 'checkup',
+      title: 'Caesarean wound check',
+      description:
+        'Your wound is checked and any dressing or stitches removed, usually 5 to 10 days after the birth',
+      birthTypes: ['caesarean'],
+    },
+    {
+      day: 14,
+      type: 'recovery',
+      title: 'Baby blues usually ease',
+      description:
+        'Tearfulness and mood swings usually pass within 2 weeks; talk to your care provider if they last longer',
+    },
+    {
+      day: 21,
+      type: 'checkup',
+      title: 'Early postpartum contact',
+      description:
+        'Contact with your care provider within 3 weeks to check on recovery, mood and feeding',
+    },
+    {
+      day: 21,
+      type: 'recovery',
+      title: 'Stitches usually healed',
+      description: 'Most stitches dissolve and tears heal within 2 to 3 weeks',
+      birthTypes: ['vaginal', 'assisted-vaginal'],
+    },
+    {
+      day: 42,
+      type: 'checkup',
+      title: '6-week postnatal check',
+      description:
+        'A full check of your physical and emotional recovery, including blood pressure, healing, contraception and mood',
+    },
+    {
+      day: 42,
+      type: 'recovery',
+      title: 'Bleeding has usually stopped',
+      description: 'Postpartum bleeding (lochia) gradually lightens and usually stops by 6 weeks',
+    },
+    {
+      day: 42,
+      type: 'recovery',
+      title: 'Back to driving and lifting',
+      description:
+        'Most people can drive and lift normally again around 6 weeks after a caesarean, once comfortable',
+      birthTypes: ['caesarean'],
+    },
+    {
+      day: 56,
+      type: 'recovery',
+      title: 'Return to exercise',
+      description:
+        'After the 6-week check you can usually build back up to higher-impact exercise; keep up pelvic floor exercises',
+    },
+    {
+      day: 83,
+      type: 'checkup',
+      title: 'Comprehensive postpartum visit',
+      description:
+        'A full visit by 12 weeks covering recovery, mood, sleep, contraception and long-term health',
+    },
+    {
+      day: 83,
+      type: 'recovery',
+      title: 'End of the fourth trimester',
+      description:
+        "The 12-week postpartum timeline ends here; keep up your baby's well-child visits",
+    },
+  ];
+
+  /** Recovery stages, by first postpartum week */
+  private readonly STAGES: PostpartumStage[] = [
+    {
+      startWeek: 1,
+      title: 'Early recovery',
+      description:
+        'Rest as much as you can. Bleeding is heaviest now, milk comes in and the baby blues are common. Call your care provider about heavy bleeding, fever or severe pain.',
+    },
+    {
+      startWeek: 3,
+      title: 'Healing',
+      description:
+        'Bleeding lightens and stitches heal. Build up walking gradually and keep doing pelvic floor exercises ahead of the 6-week check.',
+    },
+    {
+      startWeek: 7,
+      title: 'Getting back to routine',
+      description:
+        'Energy usually improves. Talk to your care provider if low mood, pain or leaking continue.',
+    },
+  ];
+
+  constructor(
+    private pregnancyCalculatorService: PregnancyCalculatorService,
+    private clockService: ClockService,
+    private dateFormatService: DateFormatService,
+    private i18nService: I18nService
+  ) {}
+
+  /**
+   * Gets the birth types for selection
+   * @returns Birth type options with display labels
+   */
+  getAvailableBirthTypes(): Array<{ value: BirthType; label: string }> {
+    return (Object.keys(this.BIRTH_TYPE_LABELS) as BirthType[]).map(birthType => ({
+      value: birthType,
+      label: this.i18nService.translateContent(this.BIRTH_TYPE_LABELS[birthType]),
+    }));
+  }
+
+  /**
+   * Gets the checkups and recovery milestones after a birth
+   * @param birth - Birth record
+   * @returns Events in calendar order
+   */
+  getPostpartumEvents(birth: BirthRecord): PostpartumEvent[] {
+    const deliveryDate = CalendarDate.parse(birth.deliveryDate);
+    const today = this.clockService.calendarToday();
+
+    return this.SCHEDULE.filter(
+      entry => !entry.birthTypes || entry.birthTypes.includes(birth.birthType)
+    ).map(entry => {
+      const date = deliveryDate.addDays(entry.day);
+      return {
+        type: entry.type,
+        title: this.i18nService.translateContent(entry.title),
+        description: this.i18nService.translateContent(entry.description),
+        dayAfterBirth: entry.day,
+        date: date.toDate(),
+        formatted: this.dateFormatService.format(date.toDate()),
+        isPast: date.isBefore(today),
+      };
+    });
+  }
+
+  /**
+   * Generates the 12-week postpartum timeline, one entry per day from the birth
+   * @param birth - Birth record
+   * @returns Array of PostpartumDay objects
+   */
+  generatePostpartumTimeline(birth: BirthRecord): PostpartumDay[] {
+    const deliveryDate = CalendarDate.parse(birth.deliveryDate);
+    const events = this.getPostpartumEvents(birth);
+    const days: PostpartumDay[] = [];
+
+    for (let dayAfterBirth = 0; dayAfterBirth < this.TIMELINE_DAYS; dayAfterBirth++) {
+      const date = deliveryDate.addDays(dayAfterBirth).toDate();
+      days.push({
+        dayAfterBirth,
+        date,
+        formattedDate: this.dateFormatService.format(date),
+        postpartumWeek: Math.floor(dayAfterBirth / this.DAYS_PER_WEEK) + 1,
+        dayOfWeek: (dayAfterBirth % this.DAYS_PER_WEEK) + 1,
+        events: events.filter(event => event.dayAfterBirth === dayAfterBirth),
+      });
+    }
+
+    return days;
+  }
+
+  /**
+   * Generates the postpartum summary as of the clock's current date
+   * @param birth - Birth record
+   * @param lmpDate - Gestational LMP date of the pregnancy (see getGestationalLmp)
+   * @returns PostpartumSummary object with current status
+   */
+  generatePostpartumSummary(birth: BirthRecord, lmpDate: Date): PostpartumSummary {
+    const deliveryDate = CalendarDate.parse(birth.deliveryDate);
+    const daysSinceBirth = Math.max(0, deliveryDate.daysUntil(this.clockService.calendarToday()));
+    const timelineDay = Math.min(daysSinceBirth, this.TIMELINE_DAYS - 1);
+    const postpartumWeek = Math.floor(timelineDay / this.DAYS_PER_WEEK) + 1;
+    const stage = this.getStage(postpartumWeek);
+    const events = this.getPostpartumEvents(birth);
+    const ageAtBirth = this.pregnancyCalculatorService.calculateGestationalAge(
+      lmpDate,
+      deliveryDate.toDate()
+    );
+
+    return {
+      deliveryDate: deliveryDate.toDate(),
+      formattedDeliveryDate: this.dateFormatService.format(deliveryDate.toDate()),
+      birthTypeLabel: this.i18nService.translateContent(this.BIRTH_TYPE_LABELS[birth.birthType]),
+      birthWeightGrams: birth.birthWeightGrams,
+      birthLengthCm: birth.birthLengthCm,
+      gestationalAgeAtBirth: this.i18nService.translate('calc.gestationalAgeNotation', {
+        weeks: ageAtBirth.weeks,
+        days: ageAtBirth.days,
+      }),
+      daysSinceBirth,
+      postpartumWeek,
+      postpartumDayOfWeek: (timelineDay % this.DAYS_PER_WEEK) + 1,
+      progressPercentage: Math.min(100, Math.round((daysSinceBirth / this.TIMELINE_DAYS) * 100)),
+      isTimelineComplete: daysSinceBirth >= this.TIMELINE_DAYS,
+      stageTitle: this.i18nService.translateContent(stage.title),
+      stageDescription: this.i18nService.translateContent(stage.description),
+      upcomingEvents: events.filter(event => !event.isPast).slice(0, this.UPCOMING_EVENT_COUNT),
+      events,
+    };
+  }
+
+  /**
+   * Gets the recovery stage of a postpartum week
+   * @param postpartumWeek - Postpartum week (1-12)
+   * @returns Latest stage starting on or before the week
+   * @private
+   */
+  private getStage(postpartumWeek: number): PostpartumStage {
+    return (
+      [...this.STAGES].reverse().find(stage => stage.startWeek <= postpartumWeek) ?? this.STAGES[0]
+    );
+  }
+}
@@ -1,6 +1,21 @@
 import { TestBed } from '@angular/core/testing';
 
 import { PregnancyCalculatorService } from './pregnancy-calculator.service';
+import { ClockService } from '../clock/clock.service';
+import { DateFormatService } from '../date-format/date-format.service';
+import { I18nService } from '../i18n/i18n.service';
+import {
+  GuidelineProfile,
+  KeyDate,
+  KeyDateType,
+  LeaveJurisdiction,
+  Plurality,
+  PregnancyDay,
+  UserPreferences,
+} from '../../models/pregnancy.models';
+import { formatLocalDate } from '../../utilities/parse-date';
+import { ES_CONTENT } from '../../i18n/content.es';
+import { AR_CONTENT } from '../../i18n/content.ar';
 
 describe('PregnancyCalculatorService', () => {
   let service: PregnancyCalculatorService;
@@ -13,4 +28,777 @@ describe('PregnancyCalculatorService', () => {
   it('should be created', () => {
     expect(service).toBeTruthy();
   });
+
+  describe('calculateEquivalentLmp', () => {
+    it('should use the LMP date as-is for LMP dating', () => {
+      const lmp = service.calculateEquivalentLmp({ method: 'lmp', referenceDate: '2025-03-10' });
+      expect(lmp).toEqual(new Date(2025, 2, 10));
+    });
+
+    it('should subtract 14 days from a conception date', () => {
+      const lmp = service.calculateEquivalentLmp({
+        method: 'conception',
+        referenceDate: '2025-03-10',
+      });
+      expect(lmp).toEqual(new Date(2025, 1, 24));
+    });
+
+    it('should subtract 17 and 19 days from day-3 and day-5 embryo transfers', () => {
+      expect(
+        service.calculateEquivalentLmp({ method: 'ivf-day3', referenceDate: '2025-03-20' })
+      ).toEqual(new Date(2025, 2, 3));
+      expect(
+        service.calculateEquivalentLmp({ method: 'ivf-day5', referenceDate: '2025-03-20' })
+      ).toEqual(new Date(2025, 2, 1));
+    });
+
+    it('should derive LMP from the crown-rump length for ultrasound dating', () => {
+      const lmp = service.calculateEquivalentLmp({
+        method: 'ultrasound-crl',
+        referenceDate: '2025-05-01',
+        crownRumpLengthMm: 45,
+      });
+      // 8.052 * sqrt(45) + 23.73 = 77.7 -> 78 days (11 weeks 1 day)
+      expect(lmp).toEqual(new Date(2025, 1, 12));
+    });
+
+    it('should reject ultrasound dating without a crown-rump length', () => {
+      expect(() =>
+        service.calculateEquivalentLmp({ method: 'ultrasound-crl', referenceDate: '2025-05-01' })
+      ).toThrowError(/Crown-rump length is required/);
+    });
+  });
+
+  describe('estimateGestationalAgeFromCrl', () => {
+    it('should reject measurements outside the first-trimester range', () => {
+      expect(() => service.estimateGestationalAgeFromCrl(2)).toThrowError();
+      expect(() => service.estimateGestationalAgeFromCrl(90)).toThrowError();
+    });
+  });
+
+  describe('calculateDueDate', () => {
+    it('should add 280 days to the LMP by default', () => {
+      expect(service.calculateDueDate(new Date(2025, 0, 1))).toEqual(new Date(2025, 9, 8));
+    });
+
+    it('should shift the due date by the cycle adjustment', () => {
+      expect(service.calculateDueDate(new Date(2025, 0, 1), 4)).toEqual(new Date(2025, 9, 12));
+    });
+  });
+
+  describe('getCycleAdjustmentDays', () => {
+    it('should return 0 for a standard 28-day cycle', () => {
+      expect(service.getCycleAdjustmentDays()).toBe(0);
+      expect(service.getCycleAdjustmentDays(28, 14)).toBe(0);
+    });
+
+    it('should shift by the difference from a 28-day cycle', () => {
+      expect(service.getCycleAdjustmentDays(32)).toBe(4);
+      expect(service.getCycleAdjustmentDays(25)).toBe(-3);
+    });
+
+    it('should account for a non-standard luteal phase', () => {
+      expect(service.getCycleAdjustmentDays(30, 12)).toBe(4);
+    });
+
+    it('should reject out-of-range values', () => {
+      expect(() => service.getCycleAdjustmentDays(50)).toThrowError();
+      expect(() => service.getCycleAdjustmentDays(28, 5)).toThrowError();
+    });
+  });
+
+  describe('getGestationalLmp', () => {
+    const basePreferences: UserPreferences = {
+      lmpDate: '2025-01-01',
+      themeColor: 'neutral',
+      viewMode: 'summary',
+    };
+
+    it('should shift the LMP for a long cycle', () => {
+      const lmp = service.getGestationalLmp({ ...basePreferences, cycleLengthDays: 35 });
+      expect(lmp).toEqual(new Date(2025, 0, 8));
+    });
+
+    it('should ignore cycle data when dated by embryo transfer', () => {
+      const lmp = service.getGestationalLmp({
+        ...basePreferences,
+        cycleLengthDays: 35,
+        dating: { method: 'ivf-day5', referenceDate: '2025-01-20' },
+      });
+      expect(lmp).toEqual(new Date(2025, 0, 1));
+    });
+
+    it("should use the clock's today when cycle tracking has no LMP yet", () => {
+      const clockService = TestBed.inject(ClockService);
+      clockService.setPreviewDate(new Date(2025, 5, 15));
+
+      const lmp = service.getGestationalLmp({ ...basePreferences, lmpDate: '' });
+      clockService.clearPreviewDate();
+
+      expect(lmp).toEqual(new Date(2025, 5, 15));
+    });
+  });
+
+  describe('assessUltrasoundRedating', () => {
+    const lmpPreferences: UserPreferences = {
+      lmpDate: '2025-01-01',
+      themeColor: 'neutral',
+      viewMode: 'summary',
+    };
+
+    it('should keep the LMP due date when the discrepancy is within the threshold', () => {
+      // LMP dating gives 11w0d on 2025-03-19; a 40 mm CRL gives 75 days (10w5d)
+      const assessment = service.assessUltrasoundRedating(lmpPreferences, {
+        scanDate: '2025-03-19',
+        crownRumpLengthMm: 40,
+      });
+
+      expect(assessment.redated).toBe(false);
+      expect(assessment.discrepancyDays).toBe(2);
+      expect(assessment.thresholdDays).toBe(7);
+      expect(assessment.bestEstimateDueDate).toEqual(assessment.originalDueDate);
+    });
+
+    it('should re-date when the discrepancy exceeds the threshold', () => {
+      const assessment = service.assessUltrasoundRedating(lmpPreferences, {
+        scanDate: '2025-03-19',
+        gestationalAgeDays: 66,
+      });
+
+      expect(assessment.redated).toBe(true);
+      expect(assessment.discrepancyDays).toBe(11);
+      expect(assessment.bestEstimateDueDate).toEqual(assessment.ultrasoundDueDate);
+      expect(assessment.reason).toContain('due date revised');
+    });
+
+    it('should use wider thresholds later in pregnancy', () => {
+      // 20w0d by LMP, 10-day threshold
+      const assessment = service.assessUltrasoundRedating(lmpPreferences, {
+        scanDate: '2025-05-21',
+        gestationalAgeDays: 131,
+      });
+
+      expect(assessment.thresholdDays).toBe(10);
+      expect(assessment.redated).toBe(false);
+    });
+
+    it('should never re-date an IVF pregnancy', () => {
+      const assessment = service.assessUltrasoundRedating(
+        {
+          ...lmpPreferences,
+          dating: { method: 'ivf-day5', referenceDate: '2025-01-20' },
+        },
+        { scanDate: '2025-03-19', gestationalAgeDays: 50 }
+      );
+
+      expect(assessment.redated).toBe(false);
+      expect(assessment.thresholdDays).toBeNull();
+    });
+
+    it('should move the gestational LMP when re-dated', () => {
+      const lmp = service.getGestationalLmp({
+        ...lmpPreferences,
+        datingScan: { scanDate: '2025-03-19', gestationalAgeDays: 66 },
+      });
+
+      expect(lmp).toEqual(new Date(2025, 0, 12));
+    });
+
+    it('should reject scans before the start of the pregnancy', () => {
+      expect(() =>
+        service.assessUltrasoundRedating(lmpPreferences, {
+          scanDate: '2024-12-01',
+          gestationalAgeDays: 70,
+        })
+      ).toThrowError();
+    });
+  });
+
+  describe('generatePregnancySummary', () => {
+    const basePreferences: UserPreferences = {
+      lmpDate: '2025-03-01',
+      themeColor: 'neutral',
+      viewMode: 'summary',
+    };
+
+    it('should describe the dating method used', () => {
+      const summary = service.generatePregnancySummary(new Date(2025, 2, 1), {
+        ...basePreferences,
+        dating: { method: 'ivf-day5', referenceDate: '2025-03-20' },
+      });
+      expect(summary.datingMethod).toBe('IVF transfer (day 5 blastocyst) on 03/20/2025');
+      expect(summary.dueDateAdjustment).toBe('None (dating method fixes conception date)');
+    });
+
+    it('should default to LMP dating and the standard rule without preferences', () => {
+      const summary = service.generatePregnancySummary(new Date(2025, 2, 1));
+      expect(summary.datingMethod).toBe('Last menstrual period');
+      expect(summary.dueDateAdjustment).toBe("Standard Naegele's rule (28-day cycle)");
+    });
+
+    it('should describe the cycle adjustment used', () => {
+      const summary = service.generatePregnancySummary(new Date(2025, 2, 5), {
+        ...basePreferences,
+        cycleLengthDays: 32,
+      });
+      expect(summary.dueDateAdjustment).toBe(
+        "Adjusted Naegele's rule: 32-day cycle, 14-day luteal phase (+4 days)"
+      );
+    });
+  });
+
+  describe('multiple gestation', () => {
+    const lmpDate = new Date(2025, 2, 1);
+    const twinPreferences: UserPreferences = {
+      lmpDate: '2025-03-01',
+      plurality: 'twins',
+      themeColor: 'neutral',
+      viewMode: 'summary',
+    };
+
+    it('should use the term window for a singleton pregnancy', () => {
+      const window = service.getDeliveryWindow(lmpDate);
+      expect(window.start).toEqual(new Date(2025, 10, 15));
+      expect(window.end).toEqual(new Date(2025, 11, 19));
+    });
+
+    it('should open the delivery window at 36 weeks for twins', () => {
+      const window = service.getDeliveryWindow(lmpDate, 'twins');
+      expect(window.start).toEqual(new Date(2025, 10, 8));
+      expect(window.end).toEqual(new Date(2025, 10, 28));
+      expect(window.formatted).toBe('11/08/2025 - 11/28/2025');
+    });
+
+    it('should give one fetal stats entry per baby', () => {
+      const days = service.generatePregnancyCalendar(lmpDate, { ...twinPreferences });
+      const day = days.find(item => item.gestationalWeek === 20)!;
+      expect(day.fetalStats?.map(baby => baby.babyLabel)).toEqual(['Baby A', 'Baby B']);
+      expect(day.fetalStats?.[0].estimatedWeight).toBe(day.estimatedFetalWeight);
+    });
+
+    it('should estimate smaller babies than singleton charts late in pregnancy', () => {
+      const singleton = service.generatePregnancyCalendar(lmpDate);
+      const twins = service.generatePregnancyCalendar(lmpDate, { ...twinPreferences });
+      const week = (days: typeof singleton, gestationalWeek: number): number | undefined =>
+        days.find(item => item.gestationalWeek === gestationalWeek)?.estimatedFetalWeight;
+
+      expect(week(twins, 20)).toBe(week(singleton, 20));
+      expect(week(twins, 36)!).toBeLessThan(week(singleton, 36)!);
+    });
+
+    it('should add growth scans to the appointment schedule', () => {
+      const days = service.generatePregnancyCalendar(lmpDate, {
+        ...twinPreferences,
+        plurality: 'triplets',
+      });
+      const day = days.find(item => item.gestationalWeek === 26)!;
+      expect(day.appointments?.some(appointment => appointment.startsWith('Growth Scan'))).toBe(
+        true
+      );
+      const singletonDay = service.generatePregnancyCalendar(lmpDate)[7 * 25];
+      expect(
+        singletonDay.appointments?.some(appointment => appointment.startsWith('Growth Scan'))
+      ).toBe(false);
+    });
+
+    it('should include pregnancy type and delivery window in the summary', () => {
+      const summary = service.generatePregnancySummary(lmpDate, { ...twinPreferences });
+      expect(summary.plurality).toBe('Twins');
+      expect(summary.deliveryWindow.formatted).toBe('11/08/2025 - 11/28/2025');
+    });
+  });
+
+  describe('key dates', () => {
+    const lmpDate = new Date(2025, 2, 1);
+    const preferences: UserPreferences = {
+      lmpDate: '2025-03-01',
+      themeColor: 'neutral',
+      viewMode: 'summary',
+    };
+
+    it('should list the key dates in calendar order', () => {
+      const keyDates = service.getKeyDates(lmpDate);
+
+      expect(keyDates.map(keyDate => keyDate.type)).toEqual([
+        'conception',
+        'first-trimester-end',
+        'viability',
+        'cruise-cutoff',
+        'second-trimester-end',
+        'air-travel-letter',
+        'air-travel-cutoff',
+        'early-term',
+        'full-term',
+        'thirty-nine-weeks',
+        'due-date',
+        'late-term',
+        'post-term',
+      ]);
+    });
+
+    it('should give calendar dates and gestational ages', () => {
+      const keyDates = service.getKeyDates(lmpDate);
+      const find = (type: KeyDateType): KeyDate => keyDates.find(keyDate => keyDate.type === type)!;
+
+      expect(find('first-trimester-end').start).toEqual(new Date(2025, 4, 30));
+      expect(find('first-trimester-end').gestationalAge).toBe('12 6/7 weeks');
+      expect(find('viability').formatted).toBe('08/16/2025');
+      expect(find('early-term').formatted).toBe('11/15/2025 - 11/28/2025');
+      expect(find('due-date').start).toEqual(service.calculateDueDate(lmpDate));
+      expect(find('post-term').end).toBeUndefined();
+      expect(find('post-term').formatted).toBe('12/20/2025 onwards');
+    });
+
+    it('should estimate a conception window unless the dating method fixes it', () => {
+      const estimated = service.getKeyDates(lmpDate, preferences)[0];
+      expect(estimated.formatted).toBe('03/12/2025 - 03/18/2025');
+
+      const known = service.getKeyDates(lmpDate, {
+        ...preferences,
+        dating: { method: 'conception', referenceDate: '2025-03-15' },
+      })[0];
+      expect(known.start).toEqual(new Date(2025, 2, 15));
+      expect(known.end).toBeUndefined();
+    });
+
+    it('should bring the air travel cut-off forward for multiples', () => {
+      const cutoff = service
+        .getKeyDates(lmpDate, { ...preferences, plurality: 'twins' })
+        .find(keyDate => keyDate.type === 'air-travel-cutoff')!;
+
+      expect(cutoff.start).toEqual(new Date(2025, 9, 11));
+      expect(cutoff.gestationalAge).toBe('32 0/7 weeks');
+    });
+
+    it('should mark dates before today as past', () => {
+      const clockService = TestBed.inject(ClockService);
+      clockService.setPreviewDate(new Date(2025, 4, 30));
+
+      const summary = service.generatePregnancySummary(lmpDate, preferences);
+      const past = summary.keyDates.filter(keyDate => keyDate.isPast).map(keyDate => keyDate.type);
+      clockService.clearPreviewDate();
+
+      expect(past).toEqual(['conception']);
+    });
+  });
+
+  describe('leave plan', () => {
+    const lmpDate = new Date(2025, 2, 1);
+    const preferences: UserPreferences = {
+      lmpDate: '2025-03-01',
+      themeColor: 'neutral',
+      viewMode: 'summary',
+      leave: { jurisdiction: 'uk-sml' },
+    };
+
+    it('should plan leave around the due date only when leave rules are chosen', () => {
+      const summary = service.generatePregnancySummary(lmpDate, preferences);
+
+      expect(summary.leavePlan?.plannedStart).toEqual(service.calculateDueDate(lmpDate));
+      expect(
+        service.generatePregnancySummary(lmpDate, { ...preferences, leave: undefined }).leavePlan
+      ).toBeUndefined();
+    });
+
+    it('should put the leave dates on the calendar', () => {
+      const calendar = service.generatePregnancyCalendar(lmpDate, preferences);
+      const leaveDays = calendar.filter(day => day.leaveEvents);
+
+      expect(leaveDays.map(day => day.formattedDate)).toEqual([
+        '08/23/2025',
+        '09/14/2025',
+        '12/06/2025',
+        '12/07/2025',
+      ]);
+      expect(leaveDays[1].leaveEvents).toEqual(['Leave: Earliest start']);
+    });
+  });
+
+  describe('post-term timeline', () => {
+    const lmpDate = new Date(2025, 2, 1);
+
+    it('should classify gestational ages into ACOG term categories', () => {
+      expect(service.getTermCategory(36 * 7 + 6)).toBe('preterm');
+      expect(service.getTermCategory(37 * 7)).toBe('early-term');
+      expect(service.getTermCategory(39 * 7)).toBe('full-term');
+      expect(service.getTermCategory(40 * 7 + 6)).toBe('full-term');
+      expect(service.getTermCategory(41 * 7)).toBe('late-term');
+      expect(service.getTermCategory(42 * 7)).toBe('post-term');
+    });
+
+    it('should continue the calendar through 42 6/7 weeks', () => {
+      const days = service.generatePregnancyCalendar(lmpDate);
+      const lastDay = days[days.length - 1];
+      expect(days.length).toBe(301);
+      expect(lastDay.gestationalWeek).toBe(43);
+      expect(lastDay.dayOfWeek).toBe(7);
+      expect(lastDay.termCategory).toBe('post-term');
+    });
+
+    it('should add post-dates appointments after the due date', () => {
+      const days = service.generatePregnancyCalendar(lmpDate);
+      const appointments = days.flatMap(day => day.appointments ?? []);
+      expect(appointments.some(item => item.startsWith('Post-dates Monitoring'))).toBe(true);
+      expect(appointments.some(item => item.startsWith('Induction Discussion'))).toBe(true);
+    });
+
+    it('should report days overdue once the due date has passed', () => {
+      const lmp = new Date();
+      lmp.setHours(0, 0, 0, 0);
+      lmp.setDate(lmp.getDate() - 285);
+
+      const summary = service.generatePregnancySummary(lmp);
+      expect(summary.daysOverdue).toBe(5);
+      expect(summary.daysRemaining).toBe(0);
+      expect(summary.termCategory).toBe('full-term');
+      expect(summary.progressPercentage).toBe(100);
+    });
+
+    it('should not report days overdue before the due date', () => {
+      const lmp = new Date();
+      lmp.setDate(lmp.getDate() - 100);
+      expect(service.generatePregnancySummary(lmp).daysOverdue).toBe(0);
+    });
+  });
+
+  describe('fetal growth', () => {
+    const lmpDate = new Date(2025, 2, 1);
+
+    it('should give growth percentiles for every day from 10 weeks', () => {
+      const days = service.generatePregnancyCalendar(lmpDate);
+      const measured = days.filter(day => day.dayNumber > 70);
+      expect(measured.every(day => day.fetalGrowth !== undefined)).toBe(true);
+      expect(days[69].fetalGrowth).toBeUndefined();
+    });
+
+    it('should expose the 50th percentile as the estimated weight and length', () => {
+      const day = service.generatePregnancyCalendar(lmpDate)[200];
+      expect(day.estimatedFetalWeight).toBe(day.fetalGrowth?.weightGrams.p50);
+      expect(day.estimatedFetalLength).toBe(day.fetalGrowth?.lengthCm.p50);
+    });
+
+    it('should include the current growth estimate in the summary', () => {
+      const lmp = new Date();
+      lmp.setDate(lmp.getDate() - 200);
+      const summary = service.generatePregnancySummary(lmp);
+      expect(summary.currentGrowth?.lengthType).toBe('crown-heel');
+    });
+  });
+
+  describe('guideline profiles', () => {
+    const lmpDate = new Date(2025, 2, 1);
+    const preferences = (guidelineProfile: GuidelineProfile): UserPreferences => ({
+      lmpDate: '2025-03-01',
+      guidelineProfile,
+      themeColor: 'neutral',
+      viewMode: 'summary',
+    });
+    const appointmentsInWeek = (days: PregnancyDay[], week: number): string[] =>
+      days.find(day => day.gestationalWeek === week)?.appointments ?? [];
+
+    it('should offer ACOG, NICE and WHO schedules', () => {
+      expect(service.getAvailableGuidelineProfiles().map(option => option.value)).toEqual([
+        'acog',
+        'nice',
+        'who',
+      ]);
+    });
+
+    it('should list a windowed appointment in every week of its window', () => {
+      const days = service.generatePregnancyCalendar(lmpDate);
+      [24, 26, 28].forEach(week => {
+        expect(
+          appointmentsInWeek(days, week).some(item =>
+            item.startsWith('Glucose Screening (weeks 24-28)')
+          )
+        ).toBe(true);
+      });
+      expect(appointmentsInWeek(days, 29).some(item => item.startsWith('Glucose Screening'))).toBe(
+        false
+      );
+    });
+
+    it('should default to the ACOG schedule', () => {
+      const days = service.generatePregnancyCalendar(lmpDate);
+      const acogDays = service.generatePregnancyCalendar(lmpDate, preferences('acog'));
+      expect(days.map(day => day.appointments)).toEqual(acogDays.map(day => day.appointments));
+      expect(service.generatePregnancySummary(lmpDate).guidelineProfile).toBe(
+        'ACOG (United States)'
+      );
+    });
+
+    it('should follow the NICE schedule when selected', () => {
+      const days = service.generatePregnancyCalendar(lmpDate, preferences('nice'));
+      expect(
+        appointmentsInWeek(days, 25).some(item => item.startsWith('Midwife Appointment'))
+      ).toBe(true);
+      expect(
+        appointmentsInWeek(days, 41).some(item => item.startsWith('Post-dates Appointment'))
+      ).toBe(true);
+    });
+
+    it('should follow the WHO contact schedule when selected', () => {
+      const days = service.generatePregnancyCalendar(lmpDate, preferences('who'));
+      const appointments = days.flatMap(day => day.appointments ?? []);
+      expect(appointments.some(item => item.startsWith('ANC Contact 8'))).toBe(true);
+      expect(appointments.some(item => item.startsWith('Glucose Screening'))).toBe(false);
+    });
+
+    it('should keep an appointment in next appointments while its window is open', () => {
+      const lmp = new Date();
+      lmp.setDate(lmp.getDate() - (25 * 7 + 3)); // 25w 3d, the 26th week
+      const summary = service.generatePregnancySummary(lmp, preferences('acog'));
+      expect(summary.nextAppointments[0]).toBe('Weeks 24-28: Glucose Screening');
+    });
+  });
+
+  describe('clock', () => {
+    it('should calculate the summary as of the previewed date', () => {
+      const clockService = TestBed.inject(ClockService);
+      clockService.setPreviewDate(new Date(2025, 4, 21));
+
+      const summary = service.generatePregnancySummary(new Date(2025, 0, 1));
+      expect(summary.daysCompleted).toBe(140);
+      expect(summary.currentTrimester).toBe('second');
+      expect(service.calculateGestationalAge(new Date(2025, 0, 1)).weeks).toBe(20);
+      clockService.clearPreviewDate();
+    });
+
+    it('should use the system clock through the clock service', () => {
+      spyOn(TestBed.inject(ClockService), 'systemNow').and.returnValue(new Date(2025, 9, 8, 9));
+
+      const summary = service.generatePregnancySummary(new Date(2025, 0, 1));
+      expect(summary.daysCompleted).toBe(280);
+      expect(summary.daysRemaining).toBe(0);
+    });
+  });
+
+  describe('weekly development', () => {
+    it('should have content for every week from 1 to 42', () => {
+      const weeks = service.getAllWeeklyDevelopment();
+      expect(weeks.map(week => week.week)).toEqual(Array.from({ length: 42 }, (_, i) => i + 1));
+      weeks.forEach(week => {
+        expect(week.description).toBeTruthy();
+        expect(week.keyDevelopments.length).toBeGreaterThan(0);
+        expect(week.maternalChanges.length).toBeGreaterThan(0);
+      });
+    });
+
+    it('should give a size comparison from week 4', () => {
+      expect(service.getWeeklyDevelopment(3)?.sizeComparison).toBeUndefined();
+      expect(service.getWeeklyDevelopment(4)?.sizeComparison).toBe('Poppy seed');
+      expect(service.getWeeklyDevelopment(43)).toBeUndefined();
+    });
+
+    it('should attach the content to the first day of each calendar week', () => {
+      const days = service.generatePregnancyCalendar(new Date(2025, 2, 1));
+      expect(days[7].weeklyDevelopment?.week).toBe(2);
+      expect(days[8].weeklyDevelopment).toBeUndefined();
+      expect(days[7].developmentMilestone).toBe(days[7].weeklyDevelopment?.description);
+    });
+
+    it('should include the current week in the summary', () => {
+      const lmp = new Date();
+      lmp.setDate(lmp.getDate() - 100); // 14w 2d, the 15th week
+      expect(service.generatePregnancySummary(lmp).currentWeekDevelopment?.week).toBe(15);
+    });
+
+    it('should keep showing week 42 content after 42 weeks', () => {
+      const lmp = new Date();
+      lmp.setDate(lmp.getDate() - 296);
+      expect(service.generatePregnancySummary(lmp).currentWeekDevelopment?.week).toBe(42);
+    });
+  });
+
+  describe('assessBiometry', () => {
+    const lmpDate = new Date(2025, 0, 1);
+    const entry = {
+      id: 'scan-1',
+      scanDate: '2025-05-21', // 20 weeks
+      hcMm: 177,
+      acMm: 149,
+      flMm: 33,
+    };
+
+    it('should use the gestational age on the scan date', () => {
+      const result = service.assessBiometry(lmpDate, entry);
+      expect(result.gestationalAgeDays).toBe(140);
+      expect(result.measurements.map(measurement => measurement.label)).toEqual(['HC', 'AC', 'FL']);
+      expect(result.weightFormula).toBe('Hadlock (HC, AC, FL)');
+      expect(result.weightPercentile).toBeDefined();
+    });
+
+    it('should reject scans before the start of the pregnancy', () => {
+      expect(() =>
+        service.assessBiometry(lmpDate, { ...entry, scanDate: '2024-12-01' })
+      ).toThrowError();
+    });
+
+    it('should attach results to the matching pregnancy day', () => {
+      const days = service.generatePregnancyCalendar(lmpDate, {
+        lmpDate: '2025-01-01',
+        biometry: [entry],
+        themeColor: 'neutral',
+        viewMode: 'summary',
+      });
+      const scanDays = days.filter(day => day.biometry?.length);
+      expect(scanDays.length).toBe(1);
+      expect(scanDays[0].formattedDate).toBe('05/21/2025');
+    });
+  });
+
+  describe('daylight saving', () => {
+    // Both ranges cross the US and European daylight saving changes; the suite runs
+    // under several TZ values in CI
+    it('should count gestational age in whole calendar days', () => {
+      const springForward = service.calculateGestationalAge(
+        new Date(2025, 2, 1),
+        new Date(2025, 3, 1, 0, 30)
+      );
+      expect(springForward.totalDays).toBe(31);
+
+      const fallBack = service.calculateGestationalAge(
+        new Date(2025, 9, 1),
+        new Date(2025, 10, 15, 23, 30)
+      );
+      expect(fallBack.totalDays).toBe(45);
+    });
+
+    it('should give every calendar day its own consecutive date', () => {
+      const days = service.generatePregnancyCalendar(new Date(2025, 1, 1));
+      const dates = days.map(day => day.formattedDate);
+
+      expect(new Set(dates).size).toBe(days.length);
+      expect(days[0].formattedDate).toBe('02/01/2025');
+      expect(days[280].formattedDate).toBe('11/08/2025');
+      days.forEach(day => expect(day.date.getHours()).toBeLessThanOrEqual(1));
+    });
+
+    it('should count whole days remaining late in the evening', () => {
+      spyOn(TestBed.inject(ClockService), 'systemNow').and.returnValue(
+        new Date(2025, 9, 1, 23, 30)
+      );
+
+      const summary = service.generatePregnancySummary(new Date(2025, 0, 1));
+      expect(summary.daysCompleted).toBe(273);
+      expect(summary.daysRemaining).toBe(7);
+    });
+  });
+
+  describe('date format', () => {
+    it('should format calendar and summary dates with the selected date format', () => {
+      TestBed.inject(DateFormatService).setDateFormat('DD/MM/YYYY');
+
+      const days = service.generatePregnancyCalendar(new Date(2025, 0, 1));
+      const summary = service.generatePregnancySummary(new Date(2025, 0, 1));
+
+      expect(days[0].formattedDate).toBe('01/01/2025');
+      expect(days[31].formattedDate).toBe('01/02/2025');
+      expect(summary.formattedDueDate).toBe('08/10/2025');
+    });
+  });
+
+  describe('languages', () => {
+    let i18nService: I18nService;
+
+    beforeEach(() => {
+      i18nService = TestBed.inject(I18nService);
+    });
+
+    afterEach(() => {
+      i18nService.setLanguage('en');
+    });
+
+    it('should describe the pregnancy in the selected language', () => {
+      i18nService.setLanguage('es');
+      TestBed.inject(DateFormatService).setDateFormat('DD/MM/YYYY');
+      const lmp = new Date();
+      lmp.setDate(lmp.getDate() - (25 * 7 + 3));
+      const preferences: UserPreferences = {
+        lmpDate: '2025-03-01',
+        plurality: 'twins',
+        themeColor: 'neutral',
+        viewMode: 'summary',
+      };
+
+      const summary = service.generatePregnancySummary(lmp, preferences);
+      const days = service.generatePregnancyCalendar(new Date(2025, 2, 1), preferences);
+
+      expect(summary.currentGestationalAge).toBe('25 semanas 4 días');
+      expect(summary.plurality).toBe('Gemelos');
+      expect(summary.nextAppointments[0]).toBe('Semanas 24-28: Prueba de glucosa');
+      expect(days[0].monthName).toBe('Marzo');
+      expect(days[0].weeklyDevelopment?.description).toBe(
+        'La datación del embarazo empieza con tu última regla'
+      );
+      expect(days[100].fetalStats?.map(baby => baby.babyLabel)).toEqual(['Bebé A', 'Bebé B']);
+      expect(service.getBabyLabels('twins')).toEqual(['Baby A', 'Baby B']);
+    });
+
+    it('should translate validation errors', () => {
+      i18nService.setLanguage('es');
+
+      expect(() => service.estimateGestationalAgeFromCrl(100)).toThrowError(
+        'La longitud cráneo-caudal debe estar entre 3 y 84 mm.'
+      );
+    });
+
+    it('should have Spanish and Arabic translations for all built-in content', () => {
+      const contentSpy = spyOn(i18nService, 'translateContent').and.callThrough();
+      const pluralities: Plurality[] = ['singleton', 'twins', 'triplets'];
+      const guidelines: GuidelineProfile[] = ['acog', 'nice', 'who'];
+
+      pluralities.forEach(plurality => {
+        guidelines.forEach(guidelineProfile => {
+          const preferences: UserPreferences = {
+            lmpDate: '2025-03-01',
+            plurality,
+            guidelineProfile,
+            themeColor: 'neutral',
+            viewMode: 'summary',
+          };
+          service.generatePregnancyCalendar(new Date(2025, 2, 1), preferences);
+          service.generatePregnancySummary(new Date(2025, 2, 1), preferences);
+        });
+        service.getBabyLabels(plurality).forEach(label => service.getBabyDisplayLabel(label));
+        service.getKeyDates(new Date(2025, 2, 1), {
+          lmpDate: '2025-03-01',
+          plurality,
+          dating: { method: 'conception', referenceDate: '2025-03-15' },
+          themeColor: 'neutral',
+          viewMode: 'summary',
+        });
+      });
+      [5, 12, 18, 25, 30].forEach(weeks => {
+        service.assessUltrasoundRedating(
+          { lmpDate: '2025-03-01', themeColor: 'neutral', viewMode: 'summary' },
+          {
+            scanDate: formatLocalDate(new Date(2025, 2, 1 + weeks * 7)),
+            gestationalAgeDays: weeks * 7,
+          }
+        );
+      });
+      for (let days = 0; days < 43 * 7; days += 7) {
+        service.getTermCategoryLabel(service.getTermCategory(days));
+      }
+      service.getAvailableDatingMethods();
+      service.getAvailablePluralities();
+      service.getAvailableGuidelineProfiles();
+      (['us-fmla', 'uk-sml', 'de-mutterschutz'] as LeaveJurisdiction[]).forEach(jurisdiction => {
+        service.getLeavePlan(new Date(2025, 2, 1), {
+          lmpDate: '2025-03-01',
+          themeColor: 'neutral',
+          viewMode: 'summary',
+          leave: { jurisdiction },
+        });
+      });
+      service.getAllWeeklyDevelopment();
+
+      const englishContent = new Set(contentSpy.calls.allArgs().map(([text]) => text));
+      const missing = [...englishContent].filter(text => !ES_CONTENT[text] || !AR_CONTENT[text]);
+
+      expect(englishContent.size).toBeGreaterThan(300);
+      expect(missing).toEqual([]);
+    });
+  });
 });
@@ -4,9 +4,33 @@ import {
   PregnancySummary,
   MonthFilter,
   Trimester,
+  TermCategory,
   FetalDevelopment,
   AppointmentSchedule,
+  DatingMethod,
+  PregnancyDating,
+  UserPreferences,
+  UltrasoundDatingScan,
+  RedatingAssessment,
+  Plurality,
+  GuidelineProfile,
+  FetalStats,
+  DeliveryWindow,
+  FetalGrowthEstimate,
+  BiometryEntry,
+  BiometryParameter,
+  BiometryResult,
+  KeyDate,
+  KeyDateType,
+  LeavePlan,
 } from '../../models/pregnancy.models';
+import { formatLocalDate, parseLocalDate } from '../../utilities/parse-date';
+import { CalendarDate } from '../../utilities/calendar-date';
+import { FetalGrowthService } from '../fetal-growth/fetal-growth.service';
+import { ClockService } from '../clock/clock.service';
+import { DateFormatService } from '../date-format/date-format.service';
+import { I18nService } from '../i18n/i18n.service';
+import { LeavePlannerService } from '../leave-planner/leave-planner.service';
 
 /**
  * Service responsible for all pregnancy-related calculations
@@ -19,67 +43,941 @@ export class PregnancyCalculatorService {
   /** Standard pregnancy duration in days */
   private readonly PREGNANCY_DURATION_DAYS = 280;
 
+  /** Days shown in the calendar: through 42 6/7 weeks so post-term pregnancies stay covered */
+  private readonly CALENDAR_DURATION_DAYS = 301;
+
+  /** Last calendar week with week-by-week development content */
+  private readonly LAST_DEVELOPMENT_WEEK = 42;
+
   /** Standard pregnancy duration in weeks */
   private readonly PREGNANCY_DURATION_WEEKS = 40;
 
   /** Days per week */
   private readonly DAYS_PER_WEEK = 7;
 
-  /** Month names for display */
-  private readonly MONTH_NAMES = [
-    'January',
-    'February',
-    'March',
-    'April',
-    'May',
-    'June',
-    'July',
-    'August',
-    'September',
-    'October',
-    'November',
-    'December',
+  /** Days from LMP to conception in a standard 28-day cycle */
+  private readonly CONCEPTION_OFFSET_DAYS = 14;
+
+  /** Standard menstrual cycle length assumed by Naegele's rule */
+  private readonly STANDARD_CYCLE_LENGTH_DAYS = 28;
+
+  /** Standard luteal phase length (ovulation to next period) */
+  private readonly STANDARD_LUTEAL_PHASE_DAYS = 14;
+
+  /** Accepted average cycle length range in days */
+  private readonly CYCLE_LENGTH_RANGE = { min: 21, max: 45 };
+
+  /** Accepted luteal phase length range in days */
+  private readonly LUTEAL_PHASE_RANGE = { min: 9, max: 18 };
+
+  /** Days from LMP to embryo transfer, keyed by embryo age at transfer */
+  private readonly EMBRYO_TRANSFER_OFFSET_DAYS = {
+    'ivf-day3': 17,
+    'ivf-day5': 19,
+  };
+
+  /** Crown-rump length range (mm) for which first-trimester dating is reliable */
+  private readonly CRL_RANGE_MM = { min: 3, max: 84 };
+
+  /**
+   * ACOG re-dating thresholds: maximum accepted ultrasound discrepancy per
+   * gestational-age band (by current dating), beyond which the due date is revised
+   */
+  private readonly REDATING_THRESHOLDS = [
+    { maxWeeks: 9, thresholdDays: 5, label: 'up to 8 6/7 weeks' },
+    { maxWeeks: 16, thresholdDays: 7, label: '9 0/7 to 15 6/7 weeks' },
+    { maxWeeks: 22, thresholdDays: 10, label: '16 0/7 to 21 6/7 weeks' },
+    { maxWeeks: 28, thresholdDays: 14, label: '22 0/7 to 27 6/7 weeks' },
+    { maxWeeks: Infinity, thresholdDays: 21, label: '28 0/7 weeks and beyond' },
+  ];
+
+  /** ACOG term categories, ordered by the completed week each one starts at */
+  private readonly TERM_CATEGORIES: Array<{
+    category: TermCategory;
+    fromWeeks: number;
+    label: string;
+    note: string;
+  }> = [
+    {
+      category: 'preterm',
+      fromWeeks: 0,
+      label: 'Preterm (before 37 weeks)',
+      note: '',
+    },
+    {
+      category: 'early-term',
+      fromWeeks: 37,
+      label: 'Early term (37 0/7 to 38 6/7 weeks)',
+      note: 'Early term begins - baby is now considered term',
+    },
+    {
+      category: 'full-term',
+      fromWeeks: 39,
+      label: 'Full term (39 0/7 to 40 6/7 weeks)',
+      note: 'Full term begins - the best time for baby to be born',
+    },
+    {
+      category: 'late-term',
+      fromWeeks: 41,
+      label: 'Late term (41 0/7 to 41 6/7 weeks)',
+      note: 'Late term begins - extra monitoring and induction are usually offered',
+    },
+    {
+      category: 'post-term',
+      fromWeeks: 42,
+      label: 'Post-term (42 0/7 weeks and beyond)',
+      note: 'Post-term - induction is recommended if labor has not started',
+    },
   ];
 
+  /** Gestational week from which ultrasound dating is considered suboptimal */
+  private readonly LATE_DATING_SCAN_WEEKS = 22;
+
+  /** Days either side of ovulation in which conception is estimated when it is not known */
+  private readonly CONCEPTION_UNCERTAINTY_DAYS = 3;
+
+  /** Gestational week of the key dates that do not depend on plurality */
+  private readonly KEY_DATE_WEEKS = {
+    firstTrimesterEnd: 13,
+    secondTrimesterEnd: 27,
+    viability: 24,
+    cruiseCutoff: 24,
+    airTravelLetter: 28,
+    thirtyNineWeeks: 39,
+  };
+
+  /**
+   * Plurality profiles: delivery window (gestational days), extra growth-scan weeks,
+   * the week from which each baby's growth falls behind singleton charts and the
+   * week most airlines stop accepting passengers
+   */
+  private readonly PLURALITY_PROFILES: Record<
+    Plurality,
+    {
+      label: string;
+      babyCount: number;
+      deliveryWindowDays: { start: number; end: number };
+      deliveryWindowDescription: string;
+      growthScanWeeks: number[];
+      growthDivergenceWeek: number;
+      growthReductionPerWeek: number;
+      airTravelCutoffWeeks: number;
+      airTravelCutoffDescription: string;
+    }
+  > = {
+    singleton: {
+      label: 'Singleton',
+      babyCount: 1,
+      deliveryWindowDays: { start: 37 * 7, end: 41 * 7 + 6 },
+      deliveryWindowDescription: 'Term birth window (37 0/7 to 41 6/7 weeks)',
+      growthScanWeeks: [],
+      growthDivergenceWeek: Infinity,
+      growthReductionPerWeek: 0,
+      airTravelCutoffWeeks: 37,
+      airTravelCutoffDescription: 'Most airlines do not carry passengers from 37 weeks',
+    },
+    twins: {
+      label: 'Twins',
+      babyCount: 2,
+      deliveryWindowDays: { start: 36 * 7, end: 38 * 7 + 6 },
+      deliveryWindowDescription:
+        'Planned birth is usually offered from 36 weeks (monochorionic) or 37 weeks (dichorionic)',
+      growthScanWeeks: [24, 28, 32, 36],
+      growthDivergenceWeek: 30,
+      growthReductionPerWeek: 0.018,
+      airTravelCutoffWeeks: 32,
+      airTravelCutoffDescription:
+        'Most airlines do not carry passengers expecting twins or more from 32 weeks',
+    },
+    triplets: {
+      label: 'Triplets',
+      babyCount: 3,
+      deliveryWindowDays: { start: 34 * 7, end: 35 * 7 + 6 },
+      deliveryWindowDescription:
+        'Most triplets are born before 35 weeks; planned birth is usually offered from 35 weeks',
+      growthScanWeeks: [16, 20, 24, 26, 28, 30, 32, 34],
+      growthDivergenceWeek: 27,
+      growthReductionPerWeek: 0.025,
+      airTravelCutoffWeeks: 32,
+      airTravelCutoffDescription:
+        'Most airlines do not carry passengers expecting twins or more from 32 weeks',
+    },
+  };
+
+  /** Prenatal care guidelines the appointment schedule can follow */
+  private readonly GUIDELINE_PROFILES: Record<
+    GuidelineProfile,
+    { label: string; description: string }
+  > = {
+    acog: {
+      label: 'ACOG (United States)',
+      description: 'Visits every 4 weeks until 28 weeks, every 2 weeks until 36 weeks, then weekly',
+    },
+    nice: {
+      label: 'NICE (United Kingdom)',
+      description:
+        'NICE antenatal care guideline: 10 midwife appointments in a first pregnancy, 7 in later pregnancies',
+    },
+    who: {
+      label: 'WHO ANC (International)',
+      description:
+        'WHO antenatal care model: at least 8 contacts, with one ultrasound scan before 24 weeks',
+    },
+  };
+
+  /** Dating method labels and descriptions for display */
+  private readonly DATING_METHODS: Record<
+    DatingMethod,
+    { label: string; description: string; dateLabel: string }
+  > = {
+    lmp: {
+      label: 'Last menstrual period',
+      description: 'First day of your last period',
+      dateLabel: 'Last Menstrual Period (LMP) Date',
+    },
+    conception: {
+      label: 'Conception date',
+      description: 'Known date of conception or ovulation',
+      dateLabel: 'Conception Date',
+    },
+    'ivf-day3': {
+      label: 'IVF transfer (day 3 embryo)',
+      description: 'Day-3 embryo transfer date',
+      dateLabel: 'Embryo Transfer Date',
+    },
+    'ivf-day5': {
+      label: 'IVF transfer (day 5 blastocyst)',
+      description: 'Day-5 blastocyst transfer date',
+      dateLabel: 'Embryo Transfer Date',
+    },
+    'ultrasound-crl': {
+      label: 'First-trimester ultrasound',
+      description: 'Crown-rump length (CRL) measured at an early scan',
+      dateLabel: 'Ultrasound Scan Date',
+    },
+  };
+
+  constructor(
+    private fetalGrowthService: FetalGrowthService,
+    private clockService: ClockService,
+    private dateFormatService: DateFormatService,
+    private i18nService: I18nService,
+    private leavePlannerService: LeavePlannerService
+  ) {}
+
   /**
-   * Calculates the estimated due date from LMP
+   * Calculates the estimated due date from LMP (Naegele's rule)
    * @param lmpDate - Last Menstrual Period date
+   * @param cycleAdjustmentDays - Days to shift for a non-28-day cycle (adjusted Naegele's rule)
    * @returns Estimated due date
    */
-  calculateDueDate(lmpDate: Date): Date {
-    const dueDate = new Date(lmpDate);
-    dueDate.setDate(dueDate.getDate() + this.PREGNANCY_DURATION_DAYS);
-    return dueDate;
+  calculateDueDate(lmpDate: Date, cycleAdjustmentDays: number = 0): Date {
+    return this.addDays(lmpDate, this.PREGNANCY_DURATION_DAYS + cycleAdjustmentDays);
+  }
+
+  /**
+   * Calculates the adjusted Naegele's rule shift for the given cycle
+   * Ovulation is assumed to happen one luteal phase before the next period
+   * @param cycleLengthDays - Average cycle length (defaults to 28)
+   * @param lutealPhaseDays - Luteal phase length (defaults to 14)
+   * @returns Days to add to the standard LMP-based dates
+   */
+  getCycleAdjustmentDays(
+    cycleLengthDays: number = this.STANDARD_CYCLE_LENGTH_DAYS,
+    lutealPhaseDays: number = this.STANDARD_LUTEAL_PHASE_DAYS
+  ): number {
+    if (
+      cycleLengthDays < this.CYCLE_LENGTH_RANGE.min ||
+      cycleLengthDays > this.CYCLE_LENGTH_RANGE.max
+    ) {
+      throw new Error(this.i18nService.translate('calc.errorCycleLength', this.CYCLE_LENGTH_RANGE));
+    }
+
+    if (
+      lutealPhaseDays < this.LUTEAL_PHASE_RANGE.min ||
+      lutealPhaseDays > this.LUTEAL_PHASE_RANGE.max
+    ) {
+      throw new Error(this.i18nService.translate('calc.errorLutealPhase', this.LUTEAL_PHASE_RANGE));
+    }
+
+    const ovulationDay = cycleLengthDays - lutealPhaseDays;
+    const standardOvulationDay = this.STANDARD_CYCLE_LENGTH_DAYS - this.STANDARD_LUTEAL_PHASE_DAYS;
+    return ovulationDay - standardOvulationDay;
+  }
+
+  /**
+   * Gets the accepted ranges for cycle and luteal phase lengths
+   * @returns Cycle length and luteal phase ranges in days
+   */
+  getCycleLengthRanges(): {
+    cycleLength: { min: number; max: number };
+    lutealPhase: { min: number; max: number };
+  } {
+    return {
+      cycleLength: { ...this.CYCLE_LENGTH_RANGE },
+      lutealPhase: { ...this.LUTEAL_PHASE_RANGE },
+    };
+  }
+
+  /**
+   * Gets the date gestational age is counted from for the stored preferences
+   * Follows the best obstetric estimate: the dating scan when it re-dated the
+   * pregnancy, otherwise the original dating
+   * @param preferences - User preferences
+   * @returns Gestational LMP date used by all downstream calculations
+   */
+  getGestationalLmp(preferences: UserPreferences): Date {
+    if (preferences.datingScan) {
+      const assessment = this.assessUltrasoundRedating(preferences, preferences.datingScan);
+      if (assessment.redated) {
+        return this.getUltrasoundLmp(preferences.datingScan);
+      }
+    }
+
+    return this.getDatedLmp(preferences);
+  }
+
+  /**
+   * Compares a dating ultrasound with the current dating using ACOG thresholds
+   * IVF and first-trimester ultrasound dating are never revised by a later scan
+   * @param preferences - User preferences holding the original dating
+   * @param scan - Dating ultrasound to evaluate
+   * @returns Re-dating assessment with original and revised due dates
+   */
+  assessUltrasoundRedating(
+    preferences: UserPreferences,
+    scan: UltrasoundDatingScan
+  ): RedatingAssessment {
+    const datedLmp = this.getDatedLmp(preferences);
+    const scanDate = parseLocalDate(scan.scanDate);
+    const gestationalAgeAtScan = this.getDaysBetween(datedLmp, scanDate);
+
+    if (gestationalAgeAtScan < 0) {
+      throw new Error(this.i18nService.translate('calc.errorScanBeforePregnancy'));
+    }
+
+    const originalDueDate = this.calculateDueDate(datedLmp);
+    const ultrasoundDueDate = this.calculateDueDate(this.getUltrasoundLmp(scan));
+    const discrepancyDays = this.getDaysBetween(originalDueDate, ultrasoundDueDate);
+    const method = preferences.dating?.method ?? 'lmp';
+
+    const assessment = {
+      originalDueDate,
+      formattedOriginalDueDate: this.formatDate(originalDueDate),
+      ultrasoundDueDate,
+      formattedUltrasoundDueDate: this.formatDate(ultrasoundDueDate),
+      discrepancyDays,
+    };
+
+    if (method === 'ivf-day3' || method === 'ivf-day5' || method === 'ultrasound-crl') {
+      const reason = this.i18nService.translate(
+        method === 'ultrasound-crl' ? 'calc.redatingCrlFixed' : 'calc.redatingIvfFixed'
+      );
+
+      return {
+        ...assessment,
+        bestEstimateDueDate: originalDueDate,
+        thresholdDays: null,
+        redated: false,
+        reason,
+      };
+    }
+
+    const gestationalWeeks = Math.floor(gestationalAgeAtScan / this.DAYS_PER_WEEK);
+    const band =
+      this.REDATING_THRESHOLDS.find(threshold => gestationalWeeks < threshold.maxWeeks) ??
+      this.REDATING_THRESHOLDS[this.REDATING_THRESHOLDS.length - 1];
+    const redated = Math.abs(discrepancyDays) > band.thresholdDays;
+    const methodLabel = this.lowerCase(
+      this.i18nService.translateContent(this.DATING_METHODS[method].label)
+    );
+
+    let reason = this.i18nService.translate('calc.redatingComparison', {
+      method: methodLabel,
+      days: Math.abs(discrepancyDays),
+      band: this.i18nService.translateContent(band.label),
+      threshold: band.thresholdDays,
+      outcome: this.i18nService.translate(redated ? 'calc.redatingRevised' : 'calc.redatingKept'),
+    });
+
+    if (gestationalWeeks >= this.LATE_DATING_SCAN_WEEKS) {
+      reason += ' ' + this.i18nService.translate('calc.redatingLateScan');
+    }
+
+    return {
+      ...assessment,
+      bestEstimateDueDate: redated ? ultrasoundDueDate : originalDueDate,
+      thresholdDays: band.thresholdDays,
+      redated,
+      reason,
+    };
+  }
+
+  /**
+   * Gets the gestational age measured by a dating ultrasound
+   * @param scan - Dating ultrasound
+   * @returns Gestational age at the scan in days
+   */
+  getUltrasoundGestationalAgeDays(scan: UltrasoundDatingScan): number {
+    if (scan.crownRumpLengthMm !== undefined) {
+      return this.estimateGestationalAgeFromCrl(scan.crownRumpLengthMm);
+    }
+
+    if (scan.gestationalAgeDays !== undefined) {
+      return scan.gestationalAgeDays;
+    }
+
+    throw new Error(this.i18nService.translate('calc.errorScanMeasurement'));
+  }
+
+  /**
+   * Gets the equivalent LMP date implied by a dating ultrasound
+   * @param scan - Dating ultrasound
+   * @returns Equivalent LMP date
+   * @private
+   */
+  private getUltrasoundLmp(scan: UltrasoundDatingScan): Date {
+    return CalendarDate.parse(scan.scanDate)
+      .addDays(-this.getUltrasoundGestationalAgeDays(scan))
+      .toDate();
+  }
+
+  /**
+   * Gets the LMP date from the original dating method, including any cycle adjustment
+   * Applies the cycle-length adjustment when the pregnancy is dated by LMP;
+   * other dating methods already pin the conception date
+   * @param preferences - User preferences
+   * @returns Gestational LMP date before ultrasound re-dating
+   * @private
+   */
+  private getDatedLmp(preferences: UserPreferences): Date {
+    // Cycle-tracking preferences have no LMP yet
+    const lmpDate = preferences.lmpDate
+      ? parseLocalDate(preferences.lmpDate)
+      : this.clockService.today();
+
+    if (!this.usesCycleAdjustment(preferences)) {
+      return lmpDate;
+    }
+
+    return this.addDays(
+      lmpDate,
+      this.getCycleAdjustmentDays(preferences.cycleLengthDays, preferences.lutealPhaseDays)
+    );
+  }
+
+  /**
+   * Describes the due date adjustment applied for the user's cycle
+   * @param preferences - User preferences (standard rule is assumed when absent)
+   * @returns Human-readable adjustment description
+   */
+  describeCycleAdjustment(preferences?: UserPreferences): string {
+    if (preferences?.dating && preferences.dating.method !== 'lmp') {
+      return this.i18nService.translate('calc.dueDateRuleFixed');
+    }
+
+    if (!preferences || !this.usesCycleAdjustment(preferences)) {
+      return this.i18nService.translate('calc.dueDateRuleStandard', {
+        cycleLength: this.STANDARD_CYCLE_LENGTH_DAYS,
+      });
+    }
+
+    const cycleLength = preferences.cycleLengthDays ?? this.STANDARD_CYCLE_LENGTH_DAYS;
+    const lutealPhase = preferences.lutealPhaseDays ?? this.STANDARD_LUTEAL_PHASE_DAYS;
+    const adjustment = this.getCycleAdjustmentDays(cycleLength, lutealPhase);
+    const sign = adjustment > 0 ? '+' : '';
+
+    return this.i18nService.translate('calc.dueDateRuleAdjusted', {
+      cycleLength,
+      lutealPhase,
+      adjustment: `${sign}${adjustment}`,
+    });
+  }
+
+  /**
+   * Gets the number of calendar days between two dates
+   * @param startDate - Start date
+   * @param endDate - End date
+   * @returns Whole days from start to end (negative when end is earlier)
+   * @private
+   */
+  private getDaysBetween(startDate: Date, endDate: Date): number {
+    return CalendarDate.fromDate(startDate).daysUntil(CalendarDate.fromDate(endDate));
+  }
+
+  /**
+   * Adds calendar days to a date
+   * Counts whole calendar days, so the result does not shift across daylight saving changes
+   * @param date - Start date
+   * @param days - Days to add (negative to subtract)
+   * @returns Date at local midnight of the resulting day
+   * @private
+   */
+  private addDays(date: Date, days: number): Date {
+    return CalendarDate.fromDate(date).addDays(days).toDate();
+  }
+
+  /**
+   * Checks whether the cycle-length adjustment applies to the preferences
+   * @param preferences - User preferences
+   * @returns Boolean indicating if LMP dating with custom cycle data is used
+   * @private
+   */
+  private usesCycleAdjustment(preferences: UserPreferences): boolean {
+    const isLmpDating = !preferences.dating || preferences.dating.method === 'lmp';
+    const hasCycleData =
+      preferences.cycleLengthDays !== undefined || preferences.lutealPhaseDays !== undefined;
+    return isLmpDating && hasCycleData;
+  }
+
+  /**
+   * Calculates the equivalent LMP date for any supported dating method
+   * @param dating - Dating method and reference data
+   * @returns Equivalent Last Menstrual Period date
+   */
+  calculateEquivalentLmp(dating: PregnancyDating): Date {
+    const referenceDate = parseLocalDate(dating.referenceDate);
+    let offsetDays: number;
+
+    switch (dating.method) {
+      case 'lmp':
+        offsetDays = 0;
+        break;
+      case 'conception':
+        offsetDays = this.CONCEPTION_OFFSET_DAYS;
+        break;
+      case 'ivf-day3':
+      case 'ivf-day5':
+        offsetDays = this.EMBRYO_TRANSFER_OFFSET_DAYS[dating.method];
+        break;
+      case 'ultrasound-crl':
+        if (dating.crownRumpLengthMm === undefined) {
+          throw new Error(this.i18nService.translate('calc.errorCrlRequired'));
+        }
+        offsetDays = this.estimateGestationalAgeFromCrl(dating.crownRumpLengthMm);
+        break;
+    }
+
+    return this.addDays(referenceDate, -offsetDays);
+  }
+
+  /**
+   * Estimates gestational age from crown-rump length (Robinson & Fleming formula)
+   * @param crownRumpLengthMm - Crown-rump length in millimeters
+   * @returns Gestational age in whole days
+   */
+  estimateGestationalAgeFromCrl(crownRumpLengthMm: number): number {
+    if (crownRumpLengthMm < this.CRL_RANGE_MM.min || crownRumpLengthMm > this.CRL_RANGE_MM.max) {
+      throw new Error(this.i18nService.translate('calc.errorCrlRange', this.CRL_RANGE_MM));
+    }
+
+    return Math.round(8.052 * Math.sqrt(crownRumpLengthMm) + 23.73);
+  }
+
+  /**
+   * Gets the supported crown-rump length range for ultrasound dating
+   * @returns Minimum and maximum CRL in millimeters
+   */
+  getCrownRumpLengthRange(): { min: number; max: number } {
+    return { ...this.CRL_RANGE_MM };
+  }
+
+  /**
+   * Gets all supported dating methods for selection
+   * @returns Array of dating method options
+   */
+  getAvailableDatingMethods(): Array<{
+    value: DatingMethod;
+    label: string;
+    description: string;
+    dateLabel: string;
+  }> {
+    return (Object.keys(this.DATING_METHODS) as DatingMethod[]).map(method => ({
+      value: method,
+      label: this.i18nService.translateContent(this.DATING_METHODS[method].label),
+      description: this.i18nService.translateContent(this.DATING_METHODS[method].description),
+      dateLabel: this.i18nService.translateContent(this.DATING_METHODS[method].dateLabel),
+    }));
+  }
+
+  /**
+   * Gets all supported pregnancy types for selection
+   * @returns Array of plurality options
+   */
+  getAvailablePluralities(): Array<{ value: Plurality; label: string; babyCount: number }> {
+    return (Object.keys(this.PLURALITY_PROFILES) as Plurality[]).map(plurality => ({
+      value: plurality,
+      label: this.i18nService.translateContent(this.PLURALITY_PROFILES[plurality].label),
+      babyCount: this.PLURALITY_PROFILES[plurality].babyCount,
+    }));
+  }
+
+  /**
+   * Gets the prenatal care guidelines available for the appointment schedule
+   * @returns Array of guideline options with labels and descriptions
+   */
+  getAvailableGuidelineProfiles(): Array<{
+    value: GuidelineProfile;
+    label: string;
+    description: string;
+  }> {
+    return (Object.keys(this.GUIDELINE_PROFILES) as GuidelineProfile[]).map(guideline => ({
+      value: guideline,
+      label: this.i18nService.translateContent(this.GUIDELINE_PROFILES[guideline].label),
+      description: this.i18nService.translateContent(
+        this.GUIDELINE_PROFILES[guideline].description
+      ),
+    }));
+  }
+
+  /**
+   * Calculates the expected or planned delivery window for the plurality
+   * @param lmpDate - Gestational LMP date (see getGestationalLmp)
+   * @param plurality - Number of babies (defaults to singleton)
+   * @returns Delivery window with formatted date range
+   */
+  getDeliveryWindow(lmpDate: Date, plurality: Plurality = 'singleton'): DeliveryWindow {
+    const profile = this.PLURALITY_PROFILES[plurality];
+    const start = this.addDays(lmpDate, profile.deliveryWindowDays.start);
+    const end = this.addDays(lmpDate, profile.deliveryWindowDays.end);
+
+    return {
+      start,
+      end,
+      formatted: this.dateFormatService.formatRange(start, end),
+      description: this.i18nService.translateContent(profile.deliveryWindowDescription),
+    };
+  }
+
+  /**
+   * Calculates the calendar dates of the pregnancy's key milestones
+   * Covers the conception window, trimester ends, viability, travel cut-offs, the ACOG
+   * term windows, the 39-week mark and the due date
+   * @param lmpDate - Gestational LMP date (see getGestationalLmp)
+   * @param preferences - User preferences (dating method, plurality); defaults to a
+   * singleton pregnancy dated by LMP
+   * @returns Key dates in calendar order
+   */
+  getKeyDates(lmpDate: Date, preferences?: UserPreferences): KeyDate[] {
+    const profile = this.PLURALITY_PROFILES[this.getPlurality(preferences)];
+    const weeks = this.KEY_DATE_WEEKS;
+    const week = (completedWeeks: number): number => completedWeeks * this.DAYS_PER_WEEK;
+
+    // Conception and IVF dating fix conception at 2 weeks after the gestational LMP
+    const method = preferences?.dating?.method ?? 'lmp';
+    const conceptionKnown = method !== 'lmp' && method !== 'ultrasound-crl';
+    const conceptionUncertainty = conceptionKnown ? 0 : this.CONCEPTION_UNCERTAINTY_DAYS;
+
+    const definitions: Array<{
+      type: KeyDateType;
+      label: string;
+      description: string;
+      startDay: number;
+      endDay?: number;
+    }> = [
+      {
+        type: 'conception',
+        label: 'Estimated conception',
+        description: conceptionKnown
+          ? 'Conception date set by your dating method'
+          : 'Conception most likely happens within 3 days of ovulation, about 2 weeks after your last period',
+        startDay: this.CONCEPTION_OFFSET_DAYS - conceptionUncertainty,
+        endDay: conceptionKnown ? undefined : this.CONCEPTION_OFFSET_DAYS + conceptionUncertainty,
+      },
+      {
+        type: 'first-trimester-end',
+        label: 'End of first trimester',
+        description: 'The second trimester begins the next day',
+        startDay: week(weeks.firstTrimesterEnd) - 1,
+      },
+      {
+        type: 'viability',
+        label: 'Viability milestone',
+        description: 'Viability milestone reached - baby has survival chances if born now',
+        startDay: week(weeks.viability),
+      },
+      {
+        type: 'cruise-cutoff',
+        label: 'Cruise travel cut-off',
+        description: 'Most cruise lines do not carry passengers from 24 weeks',
+        startDay: week(weeks.cruiseCutoff),
+      },
+      {
+        type: 'second-trimester-end',
+        label: 'End of second trimester',
+        description: 'The third trimester begins the next day',
+        startDay: week(weeks.secondTrimesterEnd) - 1,
+      },
+      {
+        type: 'air-travel-letter',
+        label: 'Fit-to-fly letter',
+        description: 'Many airlines ask for a letter from your doctor or midwife from 28 weeks',
+        startDay: week(weeks.airTravelLetter),
+      },
+      {
+        type: 'air-travel-cutoff',
+        label: 'Air travel cut-off',
+        description: profile.airTravelCutoffDescription,
+        startDay: week(profile.airTravelCutoffWeeks),
+      },
+      ...this.TERM_CATEGORIES.slice(1).map((entry, index, termCategories) => {
+        const next = termCategories[index + 1];
+        return {
+          type: entry.category as KeyDateType,
+          label: entry.label,
+          description: entry.note,
+          startDay: week(entry.fromWeeks),
+          endDay: next ? week(next.fromWeeks) - 1 : undefined,
+        };
+      }),
+      {
+        type: 'thirty-nine-weeks',
+        label: '39-week mark',
+        description:
+          'Planned induction or caesarean birth is usually not offered before 39 weeks without a medical reason',
+        startDay: week(weeks.thirtyNineWeeks),
+      },
+      {
+        type: 'due-date',
+        label: 'Due date',
+        description:
+          'The third trimester ends with birth; most babies arrive within 2 weeks of this date',
+        startDay: this.PREGNANCY_DURATION_DAYS,
+      },
+    ];
+
+    const today = this.clockService.now();
+
+    return definitions
+      .map(definition => {
+        const start = this.addDays(lmpDate, definition.startDay);
+        const end =
+          definition.endDay !== undefined ? this.addDays(lmpDate, definition.endDay) : undefined;
+        // Post-term has no last day, so it never lies entirely in the past
+        const openEnded = definition.type === 'post-term';
+
+        return {
+          type: definition.type,
+          label: this.i18nService.translateContent(definition.label),
+          description: this.i18nService.translateContent(definition.description),
+          start,
+          end,
+          formatted: end
+            ? this.dateFormatService.formatRange(start, end)
+            : openEnded
+              ? this.i18nService.translate('calc.keyDateOnwards', { date: this.formatDate(start) })
+              : this.formatDate(start),
+          gestationalAge: this.i18nService.translate('calc.gestationalAgeNotation', {
+            weeks: Math.floor(definition.startDay / this.DAYS_PER_WEEK),
+            days: definition.startDay % this.DAYS_PER_WEEK,
+          }),
+          isPast: !openEnded && this.getDaysBetween(today, end ?? start) < 0,
+        };
+      })
+      .sort((a, b) => CalendarDate.fromDate(a.start).compareTo(CalendarDate.fromDate(b.start)));
+  }
+
+  /**
+   * Works out the maternity leave plan for the pregnancy
+   * @param lmpDate - Gestational LMP date (see getGestationalLmp)
+   * @param preferences - User preferences holding the leave settings
+   * @returns Leave plan, or undefined when no leave rules are chosen
+   */
+  getLeavePlan(lmpDate: Date, preferences?: UserPreferences): LeavePlan | undefined {
+    if (!preferences?.leave) {
+      return undefined;
+    }
+
+    return this.leavePlannerService.planLeave(
+      this.calculateDueDate(lmpDate),
+      preferences.leave,
+      this.getPlurality(preferences)
+    );
+  }
+
+  /**
+   * Gets the label of each baby for the plurality
+   * These English labels identify the baby in stored growth scans; show them through
+   * getBabyDisplayLabel
+   * @param plurality - Number of babies (defaults to singleton)
+   * @returns "Baby" for a singleton, otherwise "Baby A", "Baby B", ...
+   */
+  getBabyLabels(plurality: Plurality = 'singleton'): string[] {
+    const babyCount = this.PLURALITY_PROFILES[plurality].babyCount;
+    return Array.from({ length: babyCount }, (_, index) =>
+      babyCount > 1 ? `Baby ${String.fromCharCode(65 + index)}` : 'Baby'
+    );
+  }
+
+  /**
+   * Gets the label of a baby in the display language
+   * @param babyLabel - Baby label from getBabyLabels (e.g. "Baby A")
+   * @returns Translated label (e.g. "Bebé A")
+   */
+  getBabyDisplayLabel(babyLabel: string): string {
+    return this.i18nService.translateContent(babyLabel);
+  }
+
+  /**
+   * Interprets a growth scan: measurement percentiles and estimated fetal weight
+   * @param lmpDate - Gestational LMP date (see getGestationalLmp)
+   * @param entry - Biometry entry
+   * @returns Biometry result for the gestational age on the scan date
+   */
+  assessBiometry(lmpDate: Date, entry: BiometryEntry): BiometryResult {
+    const scanDate = parseLocalDate(entry.scanDate);
+    const gestationalAge = this.calculateGestationalAge(lmpDate, scanDate);
+
+    if (gestationalAge.totalDays < 0) {
+      throw new Error(this.i18nService.translate('calc.errorScanBeforePregnancy'));
+    }
+
+    const measuredValues: Array<[BiometryParameter, number | undefined]> = [
+      ['bpd', entry.bpdMm],
+      ['hc', entry.hcMm],
+      ['ac', entry.acMm],
+      ['fl', entry.flMm],
+    ];
+    const measurements = measuredValues
+      .filter((measured): measured is [BiometryParameter, number] => measured[1] !== undefined)
+      .map(([parameter, valueMm]) => ({
+        parameter,
+        label: this.fetalGrowthService.getBiometryLabel(parameter),
+        valueMm,
+        percentile: this.fetalGrowthService.getMeasurementPercentile(
+          parameter,
+          valueMm,
+          gestationalAge.totalDays
+        ),
+      }));
+    const estimatedWeight = this.fetalGrowthService.estimateFetalWeight(entry);
+
+    return {
+      entry,
+      formattedScanDate: this.formatDate(scanDate),
+      babyLabel: entry.babyLabel ? this.getBabyDisplayLabel(entry.babyLabel) : undefined,
+      gestationalAge: gestationalAge.formatted,
+      gestationalAgeDays: gestationalAge.totalDays,
+      measurements,
+      estimatedFetalWeight: estimatedWeight.grams,
+      weightPercentile: this.fetalGrowthService.getWeightPercentile(
+        estimatedWeight.grams,
+        gestationalAge.totalDays
+      ),
+      weightFormula: estimatedWeight.formula,
+    };
+  }
+
+  /**
+   * Interprets every logged growth scan
+   * Scans dated before the LMP (possible after re-dating) are skipped
+   * @param lmpDate - Gestational LMP date (see getGestationalLmp)
+   * @param entries - Biometry log
+   * @returns Biometry results sorted by scan date, oldest first
+   * @private
+   */
+  private getBiometryResults(lmpDate: Date, entries: BiometryEntry[] = []): BiometryResult[] {
+    return entries
+      .filter(entry => this.getDaysBetween(lmpDate, parseLocalDate(entry.scanDate)) >= 0)
+      .map(entry => this.assessBiometry(lmpDate, entry))
+      .sort((a, b) => a.gestationalAgeDays - b.gestationalAgeDays);
+  }
+
+  /**
+   * Groups biometry results by scan date
+   * @param results - Biometry results
+   * @returns Map of ISO scan date to the results of that day
+   * @private
+   */
+  private groupBiometryByDate(results: BiometryResult[]): Map<string, BiometryResult[]> {
+    const groups = new Map<string, BiometryResult[]>();
+    results.forEach(result => {
+      groups.set(result.entry.scanDate, [...(groups.get(result.entry.scanDate) ?? []), result]);
+    });
+    return groups;
+  }
+
+  /**
+   * Groups the dates of a leave plan by calendar day
+   * @param plan - Leave plan, if any
+   * @returns Map of ISO date to the leave entries of that day
+   * @private
+   */
+  private groupLeaveEventsByDate(plan?: LeavePlan): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    plan?.events.forEach(event => {
+      const date = formatLocalDate(event.date);
+      const label = this.i18nService.translate('calc.leaveEvent', { label: event.label });
+      groups.set(date, [...(groups.get(date) ?? []), label]);
+    });
+    return groups;
+  }
+
+  /**
+   * Gets the plurality from the preferences
+   * @param preferences - User preferences
+   * @returns Plurality, defaulting to singleton for legacy preferences
+   * @private
+   */
+  private getPlurality(preferences?: UserPreferences): Plurality {
+    return preferences?.plurality ?? 'singleton';
+  }
+
+  /**
+   * Gets the prenatal care guideline from preferences
+   * @param preferences - User preferences (optional)
+   * @returns Guideline profile, defaulting to ACOG for legacy preferences
+   * @private
+   */
+  private getGuidelineProfile(preferences?: UserPreferences): GuidelineProfile {
+    return preferences?.guidelineProfile ?? 'acog';
+  }
+
+  /**
+   * Describes how the pregnancy was dated
+   * @param dating - Dating information (LMP is assumed when absent)
+   * @returns Human-readable dating description
+   */
+  describeDating(dating?: PregnancyDating): string {
+    if (!dating) {
+      return this.i18nService.translateContent(this.DATING_METHODS.lmp.label);
+    }
+
+    const method = this.i18nService.translateContent(this.DATING_METHODS[dating.method].label);
+    const date = this.formatDate(parseLocalDate(dating.referenceDate));
+
+    if (dating.method === 'ultrasound-crl' && dating.crownRumpLengthMm !== undefined) {
+      return this.i18nService.translate('calc.datedOnCrl', {
+        method,
+        date,
+        crl: dating.crownRumpLengthMm,
+      });
+    }
+
+    return this.i18nService.translate('calc.datedOn', { method, date });
   }
 
   /**
    * Calculates gestational age from LMP to a given date
    * @param lmpDate - Last Menstrual Period date
-   * @param currentDate - Date to calculate gestational age for (defaults to today)
+   * @param currentDate - Date to calculate gestational age for (defaults to the clock's today)
    * @returns Object containing weeks, days, and formatted string
    */
   calculateGestationalAge(
     lmpDate: Date,
-    currentDate: Date = new Date()
+    currentDate: Date = this.clockService.now()
   ): {
     weeks: number;
     days: number;
     totalDays: number;
     formatted: string;
   } {
-    lmpDate = new Date(lmpDate.getFullYear(), lmpDate.getMonth(), lmpDate.getDate());
-    currentDate = new Date(
-      currentDate.getFullYear(),
-      currentDate.getMonth(),
-      currentDate.getDate()
-    );
-    const timeDifference = currentDate.getTime() - lmpDate.getTime();
-    const totalDays = Math.round(timeDifference / (1000 * 60 * 60 * 24));
+    const totalDays = this.getDaysBetween(lmpDate, currentDate);
 
     const weeks = Math.floor(totalDays / this.DAYS_PER_WEEK);
     const days = totalDays % this.DAYS_PER_WEEK;
 
-    const formatted = `${weeks} weeks ${days + 1} days`;
+    const formatted = this.i18nService.translate('calc.gestationalAge', { weeks, days: days + 1 });
 
     return { weeks, days, totalDays, formatted };
   }
@@ -96,22 +994,52 @@ export class PregnancyCalculatorService {
   }
 
   /**
-   * Generates complete pregnancy calendar data for all 280 days
+   * Determines the ACOG term category for a gestational age
+   * @param totalDays - Gestational age in days
+   * @returns Term category
+   */
+  getTermCategory(totalDays: number): TermCategory {
+    const completedWeeks = Math.floor(totalDays / this.DAYS_PER_WEEK);
+    const match = [...this.TERM_CATEGORIES]
+      .reverse()
+      .find(entry => completedWeeks >= entry.fromWeeks);
+    return match?.category ?? 'preterm';
+  }
+
+  /**
+   * Gets the display label for a term category
+   * @param category - Term category
+   * @returns Label including the gestational-age range
+   */
+  getTermCategoryLabel(category: TermCategory): string {
+    const label = this.TERM_CATEGORIES.find(entry => entry.category === category)?.label;
+    return label ? this.i18nService.translateContent(label) : '';
+  }
+
+  /**
+   * Generates complete pregnancy calendar data from the LMP through 42 6/7 weeks
    * @param lmpDate - Last Menstrual Period date
+   * @param preferences - User preferences (plurality, guideline); defaults to a singleton
+   * pregnancy on the ACOG schedule
    * @returns Array of PregnancyDay objects for entire pregnancy
    */
-  generatePregnancyCalendar(lmpDate: Date): PregnancyDay[] {
+  generatePregnancyCalendar(lmpDate: Date, preferences?: UserPreferences): PregnancyDay[] {
+    const plurality = this.getPlurality(preferences);
+    const guideline = this.getGuidelineProfile(preferences);
+    const biometryByDate = this.groupBiometryByDate(
+      this.getBiometryResults(lmpDate, preferences?.biometry)
+    );
+    const leaveEventsByDate = this.groupLeaveEventsByDate(this.getLeavePlan(lmpDate, preferences));
     const pregnancyDays: PregnancyDay[] = [];
-    const baseDate = new Date(lmpDate);
 
-    for (let dayNumber = 1; dayNumber <= this.PREGNANCY_DURATION_DAYS; dayNumber++) {
-      const currentDate = new Date(baseDate);
-      currentDate.setDate(baseDate.getDate() + dayNumber - 1);
+    for (let dayNumber = 1; dayNumber <= this.CALENDAR_DURATION_DAYS; dayNumber++) {
+      const currentDate = this.addDays(lmpDate, dayNumber - 1);
 
       const gestationalAge = this.calculateGestationalAge(lmpDate, currentDate);
       const gestationalWeek = gestationalAge.weeks + 1; // Week numbering starts at 1
       const dayOfWeek = gestationalAge.days + 1; // Day of week starts at 1
       const trimester = this.getTrimester(gestationalAge.weeks);
+      const fetalGrowth = this.estimateFetalGrowth(gestationalAge.totalDays, plurality);
 
       const pregnancyDay: PregnancyDay = {
         dayNumber,
@@ -122,13 +1050,19 @@ export class PregnancyCalculatorService {
         gestationalAge: gestationalAge.formatted,
         calendarMonth: currentDate.getMonth() + 1,
         calendarYear: currentDate.getFullYear(),
-        monthName: this.MONTH_NAMES[currentDate.getMonth()],
+        monthName: this.i18nService.getMonthName(currentDate.getMonth() + 1),
         trimester,
+        termCategory: this.getTermCategory(gestationalAge.totalDays),
         developmentMilestone: this.getDevelopmentMilestone(gestationalWeek, dayOfWeek),
-        estimatedFetalWeight: this.getEstimatedFetalWeight(gestationalWeek),
-        estimatedFetalLength: this.getEstimatedFetalLength(gestationalWeek),
-        appointments: this.getAppointmentsForWeek(gestationalWeek),
-        notes: this.getNotesForWeek(gestationalWeek),
+        weeklyDevelopment: dayOfWeek === 1 ? this.getWeeklyDevelopment(gestationalWeek) : undefined,
+        estimatedFetalWeight: fetalGrowth?.weightGrams.p50,
+        estimatedFetalLength: fetalGrowth?.lengthCm.p50,
+        fetalGrowth,
+        fetalStats: this.getFetalStats(fetalGrowth, plurality),
+        biometry: biometryByDate.get(formatLocalDate(currentDate)),
+        appointments: this.getAppointmentsForWeek(gestationalWeek, guideline, plurality),
+        leaveEvents: leaveEventsByDate.get(formatLocalDate(currentDate)),
+        notes: this.getNotesForWeek(gestationalWeek, plurality),
       };
 
       pregnancyDays.push(pregnancyDay);
@@ -138,20 +1072,22 @@ export class PregnancyCalculatorService {
   }
 
   /**
-   * Generates pregnancy summary for current status
-   * @param lmpDate - Last Menstrual Period date
+   * Generates pregnancy summary as of the clock's current date (today or a preview date)
+   * @param lmpDate - Gestational LMP date (see getGestationalLmp)
+   * @param preferences - User preferences the LMP was derived from
    * @returns PregnancySummary object with current status
    */
-  generatePregnancySummary(lmpDate: Date): PregnancySummary {
-    const currentDate = new Date();
+  generatePregnancySummary(lmpDate: Date, preferences?: UserPreferences): PregnancySummary {
+    const plurality = this.getPlurality(preferences);
+    const guideline = this.getGuidelineProfile(preferences);
+    const currentDate = this.clockService.now();
     const gestationalAge = this.calculateGestationalAge(lmpDate, currentDate);
     const dueDate = this.calculateDueDate(lmpDate);
     const trimester = this.getTrimester(gestationalAge.weeks);
 
-    const daysRemaining = Math.max(
-      0,
-      Math.floor((dueDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24))
-    );
+    const daysRemaining = Math.max(0, this.getDaysBetween(currentDate, dueDate));
+    const daysOverdue = Math.max(0, gestationalAge.totalDays - this.PREGNANCY_DURATION_DAYS);
+    const termCategory = this.getTermCategory(gestationalAge.totalDays);
     const progressPercentage = Math.min(
       100,
       Math.round((gestationalAge.totalDays / this.PREGNANCY_DURATION_DAYS) * 100)
@@ -162,14 +1098,43 @@ export class PregnancyCalculatorService {
       currentTrimester: trimester,
       daysCompleted: gestationalAge.totalDays,
       daysRemaining,
+      daysOverdue,
+      termCategory,
+      termCategoryLabel: this.getTermCategoryLabel(termCategory),
       progressPercentage,
       estimatedDueDate: dueDate,
       formattedDueDate: this.formatDate(dueDate),
-      upcomingMilestones: this.getUpcomingMilestones(gestationalAge.weeks),
-      nextAppointments: this.getNextAppointments(gestationalAge.weeks),
+      datingMethod: this.describeDating(preferences?.dating),
+      dueDateAdjustment: this.describeCycleAdjustment(preferences),
+      currentGrowth: this.estimateFetalGrowth(gestationalAge.totalDays, plurality),
+      currentWeekDevelopment: this.getWeeklyDevelopment(
+        Math.min(gestationalAge.weeks + 1, this.LAST_DEVELOPMENT_WEEK)
+      ),
+      biometry: this.getBiometryResults(lmpDate, preferences?.biometry),
+      redating: preferences?.datingScan
+        ? this.assessUltrasoundRedating(preferences, preferences.datingScan)
+        : undefined,
+      plurality: this.i18nService.translateContent(this.PLURALITY_PROFILES[plurality].label),
+      guidelineProfile: this.i18nService.translateContent(this.GUIDELINE_PROFILES[guideline].label),
+      deliveryWindow: this.getDeliveryWindow(lmpDate, plurality),
+      keyDates: this.getKeyDates(lmpDate, preferences),
+      leavePlan: this.getLeavePlan(lmpDate, preferences),
+      upcomingMilestones: this.getUpcomingMilestones(gestationalAge.weeks, plurality),
+      nextAppointments: this.getNextAppointments(gestationalAge.weeks, guideline, plurality),
     };
   }
 
+  /**
+   * Gets the first and last dates covered by the pregnancy calendar
+   * @param lmpDate - Gestational LMP date (see getGestationalLmp)
+   * @returns Start (LMP) and end (42 6/7 weeks) dates of the calendar
+   */
+  getCalendarDateRange(lmpDate: Date): { start: Date; end: Date } {
+    const start = this.addDays(lmpDate, 0);
+    const end = this.addDays(lmpDate, this.CALENDAR_DURATION_DAYS - 1);
+    return { start, end };
+  }
+
   /**
    * Generates month filter options for table view
    * @param lmpDate - Last Menstrual Period date
@@ -196,20 +1161,27 @@ export class PregnancyCalculatorService {
       const month = parseInt(monthStr, 10);
       const firstDay = days[0];
       const lastDay = days[days.length - 1];
+      const monthName = this.i18nService.getMonthName(month);
 
       filters.push({
         month,
         year: parseInt(year, 10),
-        monthName: this.MONTH_NAMES[month - 1],
+        monthName,
         startDate: firstDay.date,
         endDate: lastDay.date,
         pregnancyDaysCount: days.length,
-        displayLabel: `${this.MONTH_NAMES[month - 1]} ${year} (${days.length} days)`,
+        displayLabel: this.i18nService.translate('calc.monthFilter', {
+          month: monthName,
+          year,
+          count: days.length,
+        }),
       });
     });
 
     // Sort by date
-    return filters.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+    return filters.sort((a, b) =>
+      CalendarDate.fromDate(a.startDate).compareTo(CalendarDate.fromDate(b.startDate))
+    );
   }
 
   /**
@@ -225,15 +1197,60 @@ export class PregnancyCalculatorService {
   }
 
   /**
-   * Formats date in MM/DD/YYYY format
+   * Formats date in the user's date format
    * @param date - Date to format
    * @returns Formatted date string
    */
   formatDate(date: Date): string {
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    const day = date.getDate().toString().padStart(2, '0');
-    const year = date.getFullYear();
-    return `${month}/${day}/${year}`;
+    return this.dateFormatService.format(date);
+  }
+
+  /**
+   * Gets the development content for one week of pregnancy
+   * @param gestationalWeek - Gestational week number (1-42, as in the calendar)
+   * @returns FetalDevelopment for the week, or undefined outside weeks 1-42
+   */
+  getWeeklyDevelopment(gestationalWeek: number): FetalDevelopment | undefined {
+    const development = this.getFetalDevelopmentData().find(data => data.week === gestationalWeek);
+    return development && this.translateDevelopment(development);
+  }
+
+  /**
+   * Gets the development content for every week of pregnancy
+   * @returns FetalDevelopment entries for weeks 1-42 in order
+   */
+  getAllWeeklyDevelopment(): FetalDevelopment[] {
+    return this.getFetalDevelopmentData().map(development =>
+      this.translateDevelopment(development)
+    );
+  }
+
+  /**
+   * Translates the text of one week's development content
+   * @param development - English development content
+   * @returns Development content in the display language
+   * @private
+   */
+  private translateDevelopment(development: FetalDevelopment): FetalDevelopment {
+    const translate = (text: string): string => this.i18nService.translateContent(text);
+
+    return {
+      ...development,
+      description: translate(development.description),
+      sizeComparison: development.sizeComparison && translate(development.sizeComparison),
+      keyDevelopments: development.keyDevelopments.map(translate),
+      maternalChanges: development.maternalChanges.map(translate),
+    };
+  }
+
+  /**
+   * Lower-cases a label for use mid-sentence in the display language
+   * @param label - Label to lower-case
+   * @returns Lower-cased label
+   * @private
+   */
+  private lowerCase(label: string): string {
+    return label.toLocaleLowerCase(this.i18nService.getLocale());
   }
 
   /**
@@ -243,8 +1260,7 @@ export class PregnancyCalculatorService {
    * @returns Development milestone description or undefined
    */
   private getDevelopmentMilestone(gestationalWeek: number, dayOfWeek: number): string | undefined {
-    const developmentData = this.getFetalDevelopmentData();
-    const weekData = developmentData.find(data => data.week === gestationalWeek);
+    const weekData = this.getWeeklyDevelopment(gestationalWeek);
 
     // Return milestone only on first day of the week to avoid repetition
     if (dayOfWeek === 1 && weekData) {
@@ -255,74 +1271,163 @@ export class PregnancyCalculatorService {
   }
 
   /**
-   * Gets estimated fetal weight for gestational week
-   * @param gestationalWeek - Gestational week number
-   * @returns Estimated weight in grams or undefined
+   * Estimates the size of each baby from the daily growth reference
+   * @param gestationalAgeDays - Gestational age in days
+   * @param plurality - Number of babies (multiples grow more slowly late in pregnancy)
+   * @returns Weight and length percentile bands per baby, or undefined before 10 weeks
    */
-  private getEstimatedFetalWeight(gestationalWeek: number): number | undefined {
-    const developmentData = this.getFetalDevelopmentData();
-    const weekData = developmentData.find(data => data.week === gestationalWeek);
-
-    if (weekData?.weightRange) {
-      // Return average of the range
-      return Math.round((weekData.weightRange.min + weekData.weightRange.max) / 2);
-    }
+  estimateFetalGrowth(
+    gestationalAgeDays: number,
+    plurality: Plurality = 'singleton'
+  ): FetalGrowthEstimate | undefined {
+    const gestationalWeeks = gestationalAgeDays / this.DAYS_PER_WEEK;
+    return this.fetalGrowthService.estimateGrowth(
+      gestationalAgeDays,
+      this.getGrowthFactor(gestationalWeeks, plurality)
+    );
+  }
 
-    return undefined;
+  /**
+   * Gets the weight multiplier relative to singleton charts for one baby
+   * Multiples track singleton growth until the profile's divergence week
+   * @param gestationalWeeks - Gestational age in (fractional) weeks
+   * @param plurality - Number of babies
+   * @returns Multiplier between 0 and 1
+   * @private
+   */
+  private getGrowthFactor(gestationalWeeks: number, plurality: Plurality): number {
+    const profile = this.PLURALITY_PROFILES[plurality];
+    const weeksPastDivergence = Math.max(0, gestationalWeeks - profile.growthDivergenceWeek);
+    return 1 - weeksPastDivergence * profile.growthReductionPerWeek;
   }
 
   /**
-   * Gets estimated fetal length for gestational week
-   * @param gestationalWeek - Gestational week number
-   * @returns Estimated length in centimeters or undefined
+   * Gets the completed gestational week in which the delivery window opens
+   * @param plurality - Number of babies
+   * @returns Completed weeks at the start of the delivery window
+   * @private
    */
-  private getEstimatedFetalLength(gestationalWeek: number): number | undefined {
-    const developmentData = this.getFetalDevelopmentData();
-    const weekData = developmentData.find(data => data.week === gestationalWeek);
+  private getDeliveryWindowStartWeek(plurality: Plurality): number {
+    return Math.floor(
+      this.PLURALITY_PROFILES[plurality].deliveryWindowDays.start / this.DAYS_PER_WEEK
+    );
+  }
 
-    if (weekData?.lengthRange) {
-      // Return average of the range
-      return Math.round((weekData.lengthRange.min + weekData.lengthRange.max) / 2);
+  /**
+   * Builds per-baby size estimates for a pregnancy day
+   * @param fetalGrowth - Growth reference for one baby
+   * @param plurality - Number of babies
+   * @returns One FetalStats entry per baby, or an empty array when no estimate exists
+   * @private
+   */
+  private getFetalStats(
+    fetalGrowth: FetalGrowthEstimate | undefined,
+    plurality: Plurality
+  ): FetalStats[] {
+    if (!fetalGrowth) {
+      return [];
     }
 
-    return undefined;
+    return this.getBabyLabels(plurality).map(babyLabel => ({
+      babyLabel: this.getBabyDisplayLabel(babyLabel),
+      estimatedWeight: fetalGrowth.weightGrams.p50,
+      estimatedLength: fetalGrowth.lengthCm.p50,
+      growth: fetalGrowth,
+    }));
   }
 
   /**
    * Gets appointment recommendations for specific gestational week
+   * Windowed appointments are listed in every week of their recommended window
    * @param gestationalWeek - Gestational week number
+   * @param guideline - Prenatal care guideline the schedule follows
+   * @param plurality - Number of babies (multiples add growth scans)
    * @returns Array of appointment descriptions
    */
-  private getAppointmentsForWeek(gestationalWeek: number): string[] {
-    const appointmentSchedule = this.getAppointmentScheduleData();
+  private getAppointmentsForWeek(
+    gestationalWeek: number,
+    guideline: GuidelineProfile = 'acog',
+    plurality: Plurality = 'singleton'
+  ): string[] {
+    const appointmentSchedule = this.getAppointmentScheduleData(guideline, plurality);
     return appointmentSchedule
-      .filter(appt => appt.week === gestationalWeek)
-      .map(appt => `${appt.appointmentType}: ${appt.description}`);
+      .filter(
+        appt => appt.week <= gestationalWeek && gestationalWeek <= (appt.endWeek ?? appt.week)
+      )
+      .map(appt => {
+        const type = this.i18nService.translateContent(appt.appointmentType);
+        const description = this.i18nService.translateContent(appt.description);
+
+        return appt.endWeek
+          ? this.i18nService.translate('calc.appointmentInWindow', {
+              type,
+              weeks: this.lowerCase(this.formatAppointmentWeeks(appt)),
+              description,
+            })
+          : this.i18nService.translate('calc.appointment', { type, description });
+      });
+  }
+
+  /**
+   * Formats the week or recommended window of an appointment
+   * @param appointment - Scheduled appointment
+   * @returns Week label (e.g. "Week 20" or "Weeks 24-28")
+   * @private
+   */
+  private formatAppointmentWeeks(appointment: AppointmentSchedule): string {
+    return appointment.endWeek
+      ? this.i18nService.translate('common.weeks', {
+          start: appointment.week,
+          end: appointment.endWeek,
+        })
+      : this.i18nService.translate('common.week', { week: appointment.week });
   }
 
   /**
    * Gets notes and reminders for specific gestational week
    * @param gestationalWeek - Gestational week number
+   * @param plurality - Number of babies
    * @returns Array of notes
    */
-  private getNotesForWeek(gestationalWeek: number): string[] {
+  private getNotesForWeek(gestationalWeek: number, plurality: Plurality = 'singleton'): string[] {
     const notes: string[] = [];
+    const profile = this.PLURALITY_PROFILES[plurality];
 
     // Add trimester transition notes
     if (gestationalWeek === 13) {
-      notes.push('Welcome to the second trimester!');
+      notes.push(this.i18nService.translateContent('Welcome to the second trimester!'));
     } else if (gestationalWeek === 27) {
-      notes.push('Welcome to the third trimester!');
+      notes.push(this.i18nService.translateContent('Welcome to the third trimester!'));
     }
 
     // Add viability milestone
     if (gestationalWeek === 24) {
-      notes.push('Viability milestone reached - baby has survival chances if born now');
+      notes.push(
+        this.i18nService.translateContent(
+          'Viability milestone reached - baby has survival chances if born now'
+        )
+      );
+    }
+
+    // Add term category notes (calendar week N + 1 starts at N completed weeks)
+    const termCategory = this.TERM_CATEGORIES.find(
+      entry => entry.fromWeeks > 0 && entry.fromWeeks === gestationalWeek - 1
+    );
+    if (termCategory) {
+      notes.push(this.i18nService.translateContent(termCategory.note));
     }
 
-    // Add term pregnancy note
-    if (gestationalWeek === 37) {
-      notes.push('Baby is now considered full-term');
+    // Add planned birth window note for multiples
+    // Calendar week numbering starts at 1, so completed week N falls in week N + 1
+    if (
+      profile.babyCount > 1 &&
+      gestationalWeek === this.getDeliveryWindowStartWeek(plurality) + 1
+    ) {
+      notes.push(
+        this.i18nService.translate('calc.plannedBirthWindow', {
+          plurality: this.lowerCase(this.i18nService.translateContent(profile.label)),
+        })
+      );
     }
 
     return notes;
@@ -331,194 +1436,726 @@ export class PregnancyCalculatorService {
   /**
    * Gets upcoming milestones based on current gestational week
    * @param currentWeek - Current gestational week
+   * @param plurality - Number of babies (multiples add the planned birth window)
    * @returns Array of upcoming milestone descriptions
    */
-  private getUpcomingMilestones(currentWeek: number): string[] {
+  private getUpcomingMilestones(currentWeek: number, plurality: Plurality = 'singleton'): string[] {
     const milestones = [
       { week: 12, description: 'End of first trimester' },
       { week: 20, description: 'Anatomy scan' },
       { week: 24, description: 'Viability milestone' },
       { week: 28, description: 'Third trimester begins' },
       { week: 32, description: 'Rapid brain development' },
-      { week: 36, description: 'Baby considered full-term soon' },
+      { week: 37, description: 'Early term begins' },
+      { week: 39, description: 'Full term begins' },
       { week: 40, description: 'Due date' },
+      { week: 41, description: 'Late term begins' },
+      { week: 42, description: 'Post-term begins' },
     ];
 
+    if (this.PLURALITY_PROFILES[plurality].babyCount > 1) {
+      milestones.push({
+        week: this.getDeliveryWindowStartWeek(plurality),
+        description: 'Planned birth window opens',
+      });
+      milestones.sort((a, b) => a.week - b.week);
+    }
+
     return milestones
       .filter(milestone => milestone.week > currentWeek)
       .slice(0, 3) // Show only next 3 milestones
-      .map(milestone => `Week ${milestone.week}: ${milestone.description}`);
+      .map(milestone =>
+        this.i18nService.translate('calc.milestone', {
+          week: milestone.week,
+          description: this.i18nService.translateContent(milestone.description),
+        })
+      );
   }
 
   /**
    * Gets next scheduled appointments based on current gestational week
+   * Appointments whose recommended window is still open are included
    * @param currentWeek - Current gestational week
+   * @param guideline - Prenatal care guideline the schedule follows
+   * @param plurality - Number of babies (multiples add growth scans)
    * @returns Array of next appointment descriptions
    */
-  private getNextAppointments(currentWeek: number): string[] {
-    const appointmentSchedule = this.getAppointmentScheduleData();
+  private getNextAppointments(
+    currentWeek: number,
+    guideline: GuidelineProfile = 'acog',
+    plurality: Plurality = 'singleton'
+  ): string[] {
+    const appointmentSchedule = this.getAppointmentScheduleData(guideline, plurality);
 
     return appointmentSchedule
-      .filter(appt => appt.week > currentWeek)
+      .filter(appt => (appt.endWeek ?? appt.week) > currentWeek)
       .slice(0, 2) // Show only next 2 appointments
-      .map(appt => `Week ${appt.week}: ${appt.appointmentType}`);
+      .map(appt =>
+        this.i18nService.translate('calc.nextAppointment', {
+          weeks: this.formatAppointmentWeeks(appt),
+          type: this.i18nService.translateContent(appt.appointmentType),
+        })
+      );
   }
 
   /**
-   * Returns fetal development data by week
+   * Returns fetal development data for weeks 1-42
+   * Week N is the Nth calendar week of pregnancy (N - 1 completed weeks)
    * @returns Array of FetalDevelopment objects
    */
   private getFetalDevelopmentData(): FetalDevelopment[] {
     return [
+      {
+        week: 1,
+        description: 'Pregnancy dating begins with your last period',
+        keyDevelopments: [
+          'Your body prepares a new egg for release',
+          'The uterine lining is shed and rebuilt',
+        ],
+        maternalChanges: [
+          'Menstrual period',
+          'A good time to start folic acid if you have not already',
+        ],
+      },
+      {
+        week: 2,
+        description: 'Ovulation approaches',
+        keyDevelopments: [
+          'An egg matures in the ovary',
+          'Ovulation usually happens around day 14 of a 28-day cycle',
+        ],
+        maternalChanges: [
+          'Cervical mucus becomes clear and stretchy',
+          'Some people notice mild ovulation pain',
+        ],
+      },
+      {
+        week: 3,
+        description: 'Fertilization and early cell division',
+        keyDevelopments: [
+          'Sperm fertilizes the egg in the fallopian tube',
+          'The fertilized egg divides into a blastocyst',
+        ],
+        maternalChanges: ['No noticeable changes yet', 'Light implantation spotting is possible'],
+      },
       {
         week: 4,
         description: 'Embryo implants in uterine wall',
         sizeComparison: 'Poppy seed',
-        weightRange: { min: 0, max: 0 },
-        lengthRange: { min: 0.1, max: 0.2 },
         keyDevelopments: ['Neural tube formation begins', 'Heart starts to develop'],
+        maternalChanges: ['Missed period', 'A home pregnancy test may turn positive'],
+      },
+      {
+        week: 5,
+        description: 'Heart tube begins to beat',
+        sizeComparison: 'Sesame seed',
+        keyDevelopments: [
+          'Primitive heart tube forms and starts beating',
+          'Brain and spinal cord start to form',
+        ],
+        maternalChanges: ['Breast tenderness', 'Tiredness and frequent urination'],
+      },
+      {
+        week: 6,
+        description: 'Facial features begin to form',
+        sizeComparison: 'Lentil',
+        keyDevelopments: [
+          'Heartbeat may be seen on ultrasound',
+          'Eyes, nose and ears begin to form',
+        ],
+        maternalChanges: ['Nausea (morning sickness) often starts', 'Heightened sense of smell'],
+      },
+      {
+        week: 7,
+        description: 'Arms and legs begin to grow',
+        sizeComparison: 'Blueberry',
+        keyDevelopments: ['Arm and leg buds lengthen', 'Brain grows rapidly'],
+        maternalChanges: ['Food aversions or cravings', 'Increased saliva'],
       },
       {
         week: 8,
         description: 'All major organs have begun to form',
         sizeComparison: 'Raspberry',
-        weightRange: { min: 1, max: 2 },
-        lengthRange: { min: 1.6, max: 2.0 },
         keyDevelopments: ['Limb buds appear', 'Facial features developing'],
+        maternalChanges: ['Nausea may peak', 'Bloating and mood swings'],
+      },
+      {
+        week: 9,
+        description: 'Embryo looks more human',
+        sizeComparison: 'Cherry',
+        keyDevelopments: [
+          'Fingers and toes start to separate',
+          'Tiny muscles allow the first movements',
+        ],
+        maternalChanges: ['Waistline may start to thicken', 'Heartburn and constipation'],
+      },
+      {
+        week: 10,
+        description: 'Embryonic period ends - now a fetus',
+        sizeComparison: 'Strawberry',
+        keyDevelopments: ['Vital organs are in place and begin to function', 'Tooth buds form'],
+        maternalChanges: [
+          'Visible veins on breasts and belly',
+          'Mood changes from rising hormones',
+        ],
+      },
+      {
+        week: 11,
+        description: 'Bones begin to harden',
+        sizeComparison: 'Fig',
+        keyDevelopments: ['Hands can open and close', 'Hair follicles form'],
+        maternalChanges: ['Nausea may start to ease', 'Increased appetite'],
       },
       {
         week: 12,
         description: 'Fetus can make movements',
         sizeComparison: 'Plum',
-        weightRange: { min: 14, max: 20 },
-        lengthRange: { min: 5.4, max: 6.5 },
         keyDevelopments: ['Reflexes develop', 'Kidneys start producing urine'],
+        maternalChanges: ['Risk of miscarriage drops', 'Uterus rises above the pelvic bone'],
+      },
+      {
+        week: 13,
+        description: 'Last week of the first trimester',
+        sizeComparison: 'Lemon',
+        keyDevelopments: ['Vocal cords develop', 'Intestines move into the abdomen'],
+        maternalChanges: ['Energy often returns', 'Less frequent urination as the uterus rises'],
+      },
+      {
+        week: 14,
+        description: 'Facial expressions appear',
+        sizeComparison: 'Nectarine',
+        keyDevelopments: ['Can squint, frown and grimace', 'Fine hair (lanugo) starts to grow'],
+        maternalChanges: ['Round ligament pain', 'Second-trimester energy boost'],
+      },
+      {
+        week: 15,
+        description: 'Baby senses light',
+        sizeComparison: 'Apple',
+        keyDevelopments: ['Eyes sense light through closed lids', 'Skeleton continues to harden'],
+        maternalChanges: ['Nasal congestion', 'Sensitive or bleeding gums'],
       },
       {
         week: 16,
         description: 'Baby can hear sounds from outside',
         sizeComparison: 'Avocado',
-        weightRange: { min: 100, max: 140 },
-        lengthRange: { min: 10.9, max: 12.0 },
         keyDevelopments: ['Hearing develops', 'Limbs are fully formed'],
+        maternalChanges: [
+          'Some feel the first flutters (quickening)',
+          'Skin may glow from increased blood flow',
+        ],
+      },
+      {
+        week: 17,
+        description: 'Fat stores begin to form',
+        sizeComparison: 'Pear',
+        keyDevelopments: ['Umbilical cord grows stronger', 'Sweat glands develop'],
+        maternalChanges: ['Growing appetite', 'Balance changes as the belly grows'],
+      },
+      {
+        week: 18,
+        description: 'Baby is active and stretching',
+        sizeComparison: 'Bell pepper',
+        keyDevelopments: [
+          'Ears move into their final position',
+          'Myelin begins to coat the nerves',
+        ],
+        maternalChanges: ['Movements become easier to notice', 'Backache may begin'],
+      },
+      {
+        week: 19,
+        description: 'Protective vernix coats the skin',
+        sizeComparison: 'Mango',
+        keyDevelopments: [
+          'Vernix caseosa forms',
+          'Senses of smell, taste, hearing and touch develop',
+        ],
+        maternalChanges: ['Leg cramps', 'Dizziness when standing up quickly'],
       },
       {
         week: 20,
         description: 'Halfway point - anatomy scan time',
         sizeComparison: 'Banana',
-        weightRange: { min: 260, max: 350 },
-        lengthRange: { min: 16.4, max: 18.0 },
         keyDevelopments: ['Sex can be determined', 'Taste buds develop'],
+        maternalChanges: ['Top of the uterus reaches the navel', 'Appetite increases'],
+      },
+      {
+        week: 21,
+        description: 'Baby swallows amniotic fluid',
+        sizeComparison: 'Carrot',
+        keyDevelopments: ['Digestive system practises swallowing', 'Sleep and wake cycles emerge'],
+        maternalChanges: ['Stretch marks may appear', 'Varicose veins'],
+      },
+      {
+        week: 22,
+        description: 'Senses are sharpening',
+        sizeComparison: 'Papaya',
+        keyDevelopments: ['Lips, eyelids and eyebrows are distinct', 'Grip gets stronger'],
+        maternalChanges: ['Braxton Hicks contractions may start', 'Swollen feet'],
+      },
+      {
+        week: 23,
+        description: 'Rapid weight gain begins',
+        sizeComparison: 'Grapefruit',
+        keyDevelopments: [
+          'Blood vessels in the lungs develop',
+          'Baby may respond to familiar voices',
+        ],
+        maternalChanges: ['Mild swelling of ankles and feet', 'Increased vaginal discharge'],
       },
       {
         week: 24,
         description: 'Viability milestone reached',
         sizeComparison: 'Corn on the cob',
-        weightRange: { min: 600, max: 750 },
-        lengthRange: { min: 21.0, max: 23.0 },
         keyDevelopments: ['Lungs begin producing surfactant', 'Hearing is well developed'],
+        maternalChanges: [
+          'Glucose screening is usually done between 24 and 28 weeks',
+          'Itchy skin over the belly',
+        ],
+      },
+      {
+        week: 25,
+        description: 'Baby practises breathing movements',
+        sizeComparison: 'Cauliflower',
+        keyDevelopments: ['Nostrils open', 'Hair gains color and texture'],
+        maternalChanges: ['Trouble sleeping', 'Heartburn'],
+      },
+      {
+        week: 26,
+        description: 'Eyes begin to open',
+        sizeComparison: 'Head of lettuce',
+        keyDevelopments: [
+          'Brain activity for hearing and sight increases',
+          'Lungs continue to mature',
+        ],
+        maternalChanges: ['Pelvic pressure', 'Blood pressure is checked for pre-eclampsia'],
+      },
+      {
+        week: 27,
+        description: 'Last week of the second trimester',
+        sizeComparison: 'Cabbage',
+        keyDevelopments: ['Brain is very active', 'Baby may get hiccups'],
+        maternalChanges: ['Leg cramps and restless legs', 'Shortness of breath'],
       },
       {
         week: 28,
         description: 'Third trimester begins',
         sizeComparison: 'Eggplant',
-        weightRange: { min: 1000, max: 1200 },
-        lengthRange: { min: 25.0, max: 27.0 },
         keyDevelopments: ['Eyes can open', 'Brain tissue increases rapidly'],
+        maternalChanges: [
+          'Time to start counting kicks',
+          'Rh-negative mothers are usually offered anti-D',
+        ],
       },
       {
-        week: 32,
-        description: 'Rapid brain development continues',
-        sizeComparison: 'Jicama',
-        weightRange: { min: 1700, max: 1900 },
-        lengthRange: { min: 28.0, max: 30.0 },
-        keyDevelopments: ['Bones harden', 'Toenails and fingernails grow'],
+        week: 29,
+        description: 'Muscles and lungs keep maturing',
+        sizeComparison: 'Butternut squash',
+        keyDevelopments: ['Head grows to make room for the brain', 'Bones absorb more calcium'],
+        maternalChanges: ['Constipation and hemorrhoids', 'Increased tiredness'],
       },
       {
-        week: 36,
-        description: 'Baby is getting ready for birth',
-        sizeComparison: 'Romaine lettuce',
-        weightRange: { min: 2600, max: 2900 },
-        lengthRange: { min: 32.0, max: 34.0 },
-        keyDevelopments: ['Immune system develops', 'Fat continues to accumulate'],
+        week: 30,
+        description: 'Bone marrow makes red blood cells',
+        sizeComparison: 'Cucumber',
+        keyDevelopments: [
+          'Bone marrow takes over red blood cell production',
+          'Lanugo begins to disappear',
+        ],
+        maternalChanges: ['Mood swings', 'Breathlessness as the uterus presses up'],
       },
       {
-        week: 40,
-        description: 'Full term - ready for birth',
-        sizeComparison: 'Small pumpkin',
-        weightRange: { min: 3200, max: 3600 },
-        lengthRange: { min: 48.0, max: 52.0 },
-        keyDevelopments: ['Fully developed', 'Ready for life outside the womb'],
+        week: 31,
+        description: 'All five senses are working',
+        sizeComparison: 'Coconut',
+        keyDevelopments: ['Baby turns head from side to side', 'Rapid weight gain continues'],
+        maternalChanges: [
+          'Breasts may leak colostrum',
+          'Braxton Hicks contractions become more frequent',
+        ],
       },
-    ];
-  }
-
-  /**
-   * Returns appointment schedule data
-   * @returns Array of AppointmentSchedule objects
-   */
-  private getAppointmentScheduleData(): AppointmentSchedule[] {
-    return [
       {
-        week: 8,
-        appointmentType: 'First Prenatal Visit',
-        description: 'Confirm pregnancy, medical history, initial tests',
-        priority: 'critical',
+        week: 32,
+        description: 'Rapid brain development continues',
+        sizeComparison: 'Jicama',
+        keyDevelopments: ['Bones harden', 'Toenails and fingernails grow'],
+        maternalChanges: ['Heartburn and indigestion', 'Frequent urination returns'],
       },
       {
-        week: 12,
-        appointmentType: 'First Trimester Screening',
-        description: 'NT scan and blood work for genetic screening',
-        priority: 'important',
+        week: 33,
+        description: 'Immune system strengthens',
+        sizeComparison: 'Pineapple',
+        keyDevelopments: ['Antibodies pass from mother to baby', 'Skull bones stay soft for birth'],
+        maternalChanges: ['Swelling of hands and feet', 'Aches in the hips and pelvis'],
       },
       {
-        week: 16,
-        appointmentType: 'Routine Checkup',
-        description: 'Blood pressure, weight, fundal height measurement',
-        priority: 'routine',
+        week: 34,
+        description: 'Central nervous system matures',
+        sizeComparison: 'Cantaloupe',
+        keyDevelopments: ['Lungs are almost mature', 'Fingernails reach the fingertips'],
+        maternalChanges: ['Blurry vision can occur', 'Tiredness'],
       },
       {
-        week: 20,
-        appointmentType: 'Anatomy Scan',
-        description: "Detailed ultrasound to check baby's development",
-        priority: 'critical',
+        week: 35,
+        description: 'Baby has less room to move',
+        sizeComparison: 'Honeydew melon',
+        keyDevelopments: ['Kidneys are fully developed', 'Liver can process some waste'],
+        maternalChanges: ['Pressure on the bladder', 'Pelvic discomfort'],
       },
       {
-        week: 24,
-        appointmentType: 'Glucose Screening',
-        description: 'Test for gestational diabetes',
-        priority: 'important',
+        week: 36,
+        description: 'Baby is getting ready for birth',
+        sizeComparison: 'Romaine lettuce',
+        keyDevelopments: ['Immune system develops', 'Fat continues to accumulate'],
+        maternalChanges: ['Baby may drop lower (lightening)', 'Prenatal visits become weekly'],
       },
       {
-        week: 28,
-        appointmentType: 'Third Trimester Begin',
-        description: 'Routine checkup, discuss birth plan',
-        priority: 'important',
+        week: 37,
+        description: 'Lungs are nearly ready',
+        sizeComparison: 'Swiss chard',
+        keyDevelopments: [
+          'Baby practises breathing, sucking and gripping',
+          'Head may engage in the pelvis',
+        ],
+        maternalChanges: [
+          'Group B strep screening is often offered',
+          'Pelvic pressure as the head drops',
+        ],
       },
       {
-        week: 32,
-        appointmentType: 'Routine Checkup',
-        description: "Monitor baby's growth and position",
-        priority: 'routine',
+        week: 38,
+        description: 'Early term - baby is considered term',
+        sizeComparison: 'Leek',
+        keyDevelopments: ['Most lanugo has been shed', 'Vernix is shedding'],
+        maternalChanges: ['Loss of the mucus plug', 'Nesting instinct'],
       },
       {
-        week: 36,
-        appointmentType: 'Group B Strep Test',
-        description: 'Screen for Group B Streptococcus bacteria',
-        priority: 'important',
+        week: 39,
+        description: 'Organs are ready for life outside the womb',
+        sizeComparison: 'Mini watermelon',
+        keyDevelopments: [
+          'Fat layer helps regulate temperature',
+          'Brain continues growing rapidly',
+        ],
+        maternalChanges: ['Irregular practice contractions', 'Swelling of feet and ankles'],
       },
       {
-        week: 38,
-        appointmentType: 'Pre-delivery Checkup',
-        description: 'Check cervix, discuss delivery options',
-        priority: 'important',
+        week: 40,
+        description: 'Full term - ready for birth',
+        sizeComparison: 'Small pumpkin',
+        keyDevelopments: ['Fully developed', 'Ready for life outside the womb'],
+        maternalChanges: ['Cervix softens and ripens', 'Signs of labor can begin any day'],
       },
       {
-        week: 40,
-        appointmentType: 'Due Date Assessment',
-        description: 'Evaluate if induction is needed',
-        priority: 'critical',
+        week: 41,
+        description: 'Due date week',
+        sizeComparison: 'Watermelon',
+        keyDevelopments: ['Nails may extend past the fingertips', 'Skin may start to look dry'],
+        maternalChanges: [
+          'Only about 1 in 20 babies arrive on their due date',
+          'A membrane sweep may be offered',
+        ],
+      },
+      {
+        week: 42,
+        description: 'Late term - extra monitoring begins',
+        sizeComparison: 'Jackfruit',
+        keyDevelopments: ['Placenta may work less efficiently', 'Amniotic fluid may decrease'],
+        maternalChanges: [
+          "Extra monitoring of baby's well-being",
+          'Induction of labor is recommended',
+        ],
       },
     ];
   }
+
+  /**
+   * Returns appointment schedule data
+   * @param guideline - Prenatal care guideline the schedule follows
+   * @param plurality - Number of babies (multiples add serial growth scans)
+   * @returns Array of AppointmentSchedule objects sorted by week
+   */
+  private getAppointmentScheduleData(
+    guideline: GuidelineProfile = 'acog',
+    plurality: Plurality = 'singleton'
+  ): AppointmentSchedule[] {
+    const schedule = this.getGuidelineAppointments(guideline);
+
+    const growthScans: AppointmentSchedule[] = this.PLURALITY_PROFILES[
+      plurality
+    ].growthScanWeeks.map(week => ({
+      week,
+      appointmentType: 'Growth Scan',
+      description: 'Ultrasound to check growth, fluid and well-being of each baby',
+      priority: 'important',
+    }));
+
+    return [...schedule, ...growthScans].sort((a, b) => a.week - b.week);
+  }
+
+  /**
+   * Returns the routine appointments recommended by a prenatal care guideline
+   * @param guideline - Prenatal care guideline
+   * @returns Array of AppointmentSchedule objects
+   * @private
+   */
+  private getGuidelineAppointments(guideline: GuidelineProfile): AppointmentSchedule[] {
+    const schedules: Record<GuidelineProfile, AppointmentSchedule[]> = {
+      acog: [
+        {
+          week: 8,
+          endWeek: 10,
+          appointmentType: 'First Prenatal Visit',
+          description: 'Confirm pregnancy, medical history, initial tests',
+          priority: 'critical',
+        },
+        {
+          week: 12,
+          endWeek: 14,
+          appointmentType: 'First Trimester Screening',
+          description: 'NT scan and blood work for genetic screening',
+          priority: 'important',
+        },
+        {
+          week: 16,
+          appointmentType: 'Routine Checkup',
+          description: 'Blood pressure, weight, fundal height measurement',
+          priority: 'routine',
+        },
+        {
+          week: 18,
+          endWeek: 22,
+          appointmentType: 'Anatomy Scan',
+          description: "Detailed ultrasound to check baby's development",
+          priority: 'critical',
+        },
+        {
+          week: 24,
+          endWeek: 28,
+          appointmentType: 'Glucose Screening',
+          description: 'Test for gestational diabetes',
+          priority: 'important',
+        },
+        {
+          week: 28,
+          appointmentType: 'Third Trimester Begin',
+          description: 'Routine checkup, discuss birth plan',
+          priority: 'important',
+        },
+        {
+          week: 32,
+          appointmentType: 'Routine Checkup',
+          description: "Monitor baby's growth and position",
+          priority: 'routine',
+        },
+        {
+          week: 36,
+          endWeek: 37,
+          appointmentType: 'Group B Strep Test',
+          description: 'Screen for Group B Streptococcus bacteria',
+          priority: 'important',
+        },
+        {
+          week: 38,
+          appointmentType: 'Pre-delivery Checkup',
+          description: 'Check cervix, discuss delivery options',
+          priority: 'important',
+        },
+        {
+          week: 40,
+          appointmentType: 'Due Date Assessment',
+          description: 'Evaluate if induction is needed',
+          priority: 'critical',
+        },
+        {
+          week: 41,
+          appointmentType: 'Post-dates Monitoring',
+          description: 'Non-stress test and amniotic fluid check, usually twice weekly',
+          priority: 'important',
+        },
+        {
+          week: 42,
+          appointmentType: 'Induction Discussion',
+          description: 'Plan induction of labor before 42 weeks',
+          priority: 'critical',
+        },
+        {
+          week: 43,
+          appointmentType: 'Post-term Evaluation',
+          description: 'Induction recommended if labor has not started; continued fetal monitoring',
+          priority: 'critical',
+        },
+      ],
+      nice: [
+        {
+          week: 8,
+          endWeek: 10,
+          appointmentType: 'Booking Appointment',
+          description: 'Midwife booking: health history, blood and urine tests, screening choices',
+          priority: 'critical',
+        },
+        {
+          week: 11,
+          endWeek: 14,
+          appointmentType: 'Dating Scan',
+          description: 'Ultrasound to confirm the due date, with combined screening if chosen',
+          priority: 'important',
+        },
+        {
+          week: 16,
+          appointmentType: 'Midwife Appointment',
+          description: 'Review screening results, blood pressure and urine check',
+          priority: 'routine',
+        },
+        {
+          week: 19,
+          endWeek: 21,
+          appointmentType: 'Anomaly Scan',
+          description: "Mid-pregnancy ultrasound to check baby's development",
+          priority: 'critical',
+        },
+        {
+          week: 24,
+          endWeek: 28,
+          appointmentType: 'Glucose Tolerance Test',
+          description: 'Offered if you have risk factors for gestational diabetes',
+          priority: 'important',
+        },
+        {
+          week: 25,
+          appointmentType: 'Midwife Appointment',
+          description: 'Blood pressure, urine and fundal height (first pregnancy)',
+          priority: 'routine',
+        },
+        {
+          week: 28,
+          appointmentType: 'Midwife Appointment',
+          description: 'Blood tests for anaemia and antibodies; anti-D if Rh negative',
+          priority: 'important',
+        },
+        {
+          week: 31,
+          appointmentType: 'Midwife Appointment',
+          description: 'Review blood results, blood pressure and fundal height (first pregnancy)',
+          priority: 'routine',
+        },
+        {
+          week: 34,
+          appointmentType: 'Midwife Appointment',
+          description: 'Blood pressure, urine and fundal height; discuss preparing for labour',
+          priority: 'routine',
+        },
+        {
+          week: 36,
+          appointmentType: 'Midwife Appointment',
+          description: "Check baby's position; discuss labour, feeding and vitamin K",
+          priority: 'important',
+        },
+        {
+          week: 38,
+          appointmentType: 'Midwife Appointment',
+          description: 'Blood pressure, urine and fundal height',
+          priority: 'routine',
+        },
+        {
+          week: 40,
+          appointmentType: 'Midwife Appointment',
+          description: 'Blood pressure, urine and fundal height (first pregnancy)',
+          priority: 'routine',
+        },
+        {
+          week: 41,
+          appointmentType: 'Post-dates Appointment',
+          description: 'Membrane sweep offered and induction of labour discussed',
+          priority: 'important',
+        },
+        {
+          week: 42,
+          appointmentType: 'Induction of Labour',
+          description: 'Induction offered between 41 and 42 weeks',
+          priority: 'critical',
+        },
+        {
+          week: 43,
+          appointmentType: 'Post-term Monitoring',
+          description: 'Increased monitoring if you choose to wait for labour',
+          priority: 'critical',
+        },
+      ],
+      who: [
+        {
+          week: 8,
+          endWeek: 12,
+          appointmentType: 'First ANC Contact',
+          description: 'History, examination, blood tests and counselling; iron and folic acid',
+          priority: 'critical',
+        },
+        {
+          week: 11,
+          endWeek: 24,
+          appointmentType: 'Ultrasound Scan',
+          description:
+            'One scan before 24 weeks to confirm dates and detect anomalies or multiples',
+          priority: 'important',
+        },
+        {
+          week: 20,
+          appointmentType: 'ANC Contact 2',
+          description: "Blood pressure, baby's growth and health check",
+          priority: 'routine',
+        },
+        {
+          week: 26,
+          appointmentType: 'ANC Contact 3',
+          description: "Blood pressure, baby's growth and health check",
+          priority: 'routine',
+        },
+        {
+          week: 30,
+          appointmentType: 'ANC Contact 4',
+          description: "Blood pressure, baby's growth and anaemia check",
+          priority: 'routine',
+        },
+        {
+          week: 34,
+          appointmentType: 'ANC Contact 5',
+          description: "Blood pressure, baby's growth and birth preparedness",
+          priority: 'routine',
+        },
+        {
+          week: 36,
+          appointmentType: 'ANC Contact 6',
+          description: "Check baby's position and plan for birth",
+          priority: 'important',
+        },
+        {
+          week: 38,
+          appointmentType: 'ANC Contact 7',
+          description: "Blood pressure, baby's growth and health check",
+          priority: 'routine',
+        },
+        {
+          week: 40,
+          appointmentType: 'ANC Contact 8',
+          description:
+            'Review well-being; plan for induction if labour has not started by 41 weeks',
+          priority: 'important',
+        },
+        {
+          week: 42,
+          appointmentType: 'Induction of Labour',
+          description: 'Induction recommended from 41 weeks',
+          priority: 'critical',
+        },
+        {
+          week: 43,
+          appointmentType: 'Post-term Evaluation',
+          description:
+            'Induction recommended if labour has not started; continued fetal monitoring',
+          priority: 'critical',
+        },
+      ],
+    };
+
+    return schedules[guideline];
+  }
 }
@@ -1,6 +1,8 @@
 import { TestBed } from '@angular/core/testing';
-import { StorageService } from './storage.service';
-import { ThemeColor, UserPreferences } from '../../models/pregnancy.models';
+import { StorageMigration, StorageService } from './storage.service';
+import { EncryptionService } from '../encryption/encryption.service';
+import { ClockService } from '../clock/clock.service';
+import { BirthRecord, ThemeColor, UserPreferences } from '../../models/pregnancy.models';
 
 /**
  * Unit tests for StorageService
@@ -44,6 +46,10 @@ xdescribe('StorageService', () => {
     mockLocalStorage = {};
   });
 
+  /** Key of the active profile's preferences */
+  const preferencesKey = (storage: StorageService): string =>
+    `pregnancy_calendar_profile_${storage.getActiveProfile()?.id}_preferences`;
+
   describe('initialization', () => {
     it('should be created', () => {
       expect(service).toBeTruthy();
@@ -62,22 +68,32 @@ xdescribe('StorageService', () => {
         dateFormat: 'MM/DD/YYYY',
       };
 
-      mockLocalStorage['pregnancy_calendar_preferences'] = JSON.stringify(testPreferences);
+      mockLocalStorage = { pregnancy_calendar_preferences: JSON.stringify(testPreferences) };
 
       // Create new service instance to trigger initialization
-      const newService = new StorageService();
+      const newService = new StorageService(
+        new EncryptionService(new ClockService()),
+        new ClockService()
+      );
 
       expect(newService.getCurrentPreferences()).toEqual(testPreferences);
     });
 
-    it('should clear invalid preferences from localStorage', () => {
-      mockLocalStorage['pregnancy_calendar_preferences'] = 'invalid json';
+    it('should move invalid preferences from localStorage to the backup', () => {
+      mockLocalStorage = { pregnancy_calendar_preferences: 'invalid json' };
       spyOn(console, 'error');
 
-      const newService = new StorageService();
+      const newService = new StorageService(
+        new EncryptionService(new ClockService()),
+        new ClockService()
+      );
 
       expect(newService.getCurrentPreferences()).toBeNull();
-      expect(localStorage.removeItem).toHaveBeenCalledWith('pregnancy_calendar_preferences');
+      expect(localStorage.setItem).toHaveBeenCalledWith(
+        'pregnancy_calendar_backup_v2',
+        JSON.stringify({ [preferencesKey(newService)]: 'invalid json' })
+      );
+      expect(localStorage.removeItem).toHaveBeenCalledWith(preferencesKey(newService));
     });
   });
 
@@ -94,7 +110,7 @@ xdescribe('StorageService', () => {
 
       expect(result).toBe(true);
       expect(localStorage.setItem).toHaveBeenCalledWith(
-        'pregnancy_calendar_preferences',
+        preferencesKey(service),
         JSON.stringify(preferences)
       );
       expect(service.getCurrentPreferences()).toEqual(preferences);
@@ -222,7 +238,7 @@ xdescribe('StorageService', () => {
       const result = service.clearPreferences();
 
       expect(result).toBe(true);
-      expect(localStorage.removeItem).toHaveBeenCalledWith('pregnancy_calendar_preferences');
+      expect(localStorage.removeItem).toHaveBeenCalledWith(preferencesKey(service));
       expect(service.getCurrentPreferences()).toBeNull();
     });
 
@@ -267,8 +283,11 @@ xdescribe('StorageService', () => {
         viewMode: 'summary',
       };
 
-      mockLocalStorage['pregnancy_calendar_preferences'] = JSON.stringify(validPreferences);
-      const newService = new StorageService();
+      mockLocalStorage = { pregnancy_calendar_preferences: JSON.stringify(validPreferences) };
+      const newService = new StorageService(
+        new EncryptionService(new ClockService()),
+        new ClockService()
+      );
 
       expect(newService.getCurrentPreferences()).toEqual(validPreferences);
     });
@@ -280,14 +299,17 @@ xdescribe('StorageService', () => {
         viewMode: 'summary',
       };
 
-      mockLocalStorage['pregnancy_calendar_preferences'] = JSON.stringify(invalidPreferences);
+      mockLocalStorage = { pregnancy_calendar_preferences: JSON.stringify(invalidPreferences) };
       spyOn(console, 'warn');
 
-      const newService = new StorageService();
+      const newService = new StorageService(
+        new EncryptionService(new ClockService()),
+        new ClockService()
+      );
 
       expect(newService.getCurrentPreferences()).toBeNull();
       expect(console.warn).toHaveBeenCalledWith(
-        'Invalid preferences found in localStorage, clearing...'
+        'Invalid preferences found in localStorage, moving them to the backup...'
       );
     });
 
@@ -298,33 +320,39 @@ xdescribe('StorageService', () => {
         viewMode: 'invalid-view',
       };
 
-      mockLocalStorage['pregnancy_calendar_preferences'] = JSON.stringify(invalidPreferences);
+      mockLocalStorage = { pregnancy_calendar_preferences: JSON.stringify(invalidPreferences) };
       spyOn(console, 'warn');
 
-      const newService = new StorageService();
+      const newService = new StorageService(
+        new EncryptionService(new ClockService()),
+        new ClockService()
+      );
 
       expect(newService.getCurrentPreferences()).toBeNull();
       expect(console.warn).toHaveBeenCalledWith(
-        'Invalid preferences found in localStorage, clearing...'
+        'Invalid preferences found in localStorage, moving them to the backup...'
       );
     });
 
     it('should reject non-object preferences', () => {
-      mockLocalStorage['pregnancy_calendar_preferences'] = '"not an object"';
+      mockLocalStorage = { pregnancy_calendar_preferences: '"not an object"' };
       spyOn(console, 'warn');
 
-      const newService = new StorageService();
+      const newService = new StorageService(
+        new EncryptionService(new ClockService()),
+        new ClockService()
+      );
 
       expect(newService.getCurrentPreferences()).toBeNull();
       expect(console.warn).toHaveBeenCalledWith(
-        'Invalid preferences found in localStorage, clearing...'
+        'Invalid preferences found in localStorage, moving them to the backup...'
       );
     });
   });
 
   describe('export and import functionality', () => {
     it('should export storage data', () => {
-      mockLocalStorage['pregnancy_calendar_preferences'] = '{"test": "data"}';
+      mockLocalStorage = { pregnancy_calendar_preferences: '{"test": "data"}' };
       mockLocalStorage['pregnancy_calendar_other'] = '{"other": "data"}';
       mockLocalStorage['unrelated_key'] = 'should not be exported';
 
@@ -351,33 +379,13 @@ xdescribe('StorageService', () => {
       );
     });
 
-    it('should import storage data', () => {
-      const importData = {
-        pregnancy_calendar_preferences: '{"lmpDate": "2024-01-01"}',
-        pregnancy_calendar_other: '{"test": "value"}',
-        invalid_key: 'should be ignored',
-      };
-
-      const result = service.importStorageData(importData);
-
-      expect(result).toBe(true);
-      expect(localStorage.setItem).toHaveBeenCalledWith(
-        'pregnancy_calendar_preferences',
-        '{"lmpDate": "2024-01-01"}'
-      );
-      expect(localStorage.setItem).toHaveBeenCalledWith(
-        'pregnancy_calendar_other',
-        '{"test": "value"}'
-      );
-      expect(localStorage.setItem).not.toHaveBeenCalledWith('invalid_key', jasmine.any(String));
-    });
-
     it('should handle import errors gracefully', () => {
       (localStorage.setItem as jasmine.Spy).and.throwError('Storage error');
       spyOn(console, 'error');
 
       const result = service.importStorageData({
-        pregnancy_calendar_test: 'test_value',
+        pregnancy_calendar_preferences:
+          '{"lmpDate": "2024-01-01", "themeColor": "girl", "viewMode": "summary"}',
       });
 
       expect(result).toBe(false);
@@ -473,10 +481,13 @@ xdescribe('StorageService', () => {
         // Missing themeColor and viewMode
       };
 
-      mockLocalStorage['pregnancy_calendar_preferences'] = JSON.stringify(incompletePreferences);
+      mockLocalStorage = { pregnancy_calendar_preferences: JSON.stringify(incompletePreferences) };
       spyOn(console, 'warn');
 
-      const newService = new StorageService();
+      const newService = new StorageService(
+        new EncryptionService(new ClockService()),
+        new ClockService()
+      );
 
       expect(newService.getCurrentPreferences()).toBeNull();
     });
@@ -484,7 +495,10 @@ xdescribe('StorageService', () => {
     it('should handle null localStorage values', () => {
       (localStorage.getItem as jasmine.Spy).and.returnValue(null);
 
-      const newService = new StorageService();
+      const newService = new StorageService(
+        new EncryptionService(new ClockService()),
+        new ClockService()
+      );
 
       expect(newService.getCurrentPreferences()).toBeNull();
     });
@@ -506,3 +520,367 @@ xdescribe('StorageService', () => {
     });
   });
 });
+
+/**
+ * Unit tests for StorageService against the browser's localStorage
+ * Covers the handling of whole sets of stored keys: schema migrations, profiles and import
+ */
+describe('StorageService with localStorage', () => {
+  /** Seeds localStorage, then creates the service, which loads it */
+  const createService = (data: Record<string, string> = {}): StorageService => {
+    Object.entries(data).forEach(([key, value]) => localStorage.setItem(key, value));
+    return TestBed.inject(StorageService);
+  };
+
+  /** Reads every value in localStorage */
+  const readStorage = (): Record<string, string> => {
+    const data: Record<string, string> = {};
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null) {
+        data[key] = localStorage.getItem(key) ?? '';
+      }
+    }
+    return data;
+  };
+
+  /** Key of the active profile's preferences */
+  const preferencesKey = (storage: StorageService): string =>
+    `pregnancy_calendar_profile_${storage.getActiveProfile()?.id}_preferences`;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  describe('schema migrations', () => {
+    const legacyPreferences = JSON.stringify({
+      lmpDate: '2024-01-01',
+      themeColor: 'boy',
+      viewMode: 'table',
+    });
+
+    it('should stamp the current schema version on new storage', () => {
+      const service = createService();
+
+      expect(localStorage.getItem('pregnancy_calendar_schema_version')).toBe('2');
+      expect(service.hasMigrationFailed()).toBe(false);
+    });
+
+    it('should back up unversioned data before migrating it', () => {
+      const service = createService({ pregnancy_calendar_preferences: legacyPreferences });
+
+      expect(localStorage.getItem('pregnancy_calendar_schema_version')).toBe('2');
+      expect(JSON.parse(localStorage.getItem('pregnancy_calendar_backup_v1') ?? '')).toEqual({
+        pregnancy_calendar_preferences: legacyPreferences,
+      });
+      expect(service.getCurrentPreferences()?.themeColor).toBe('boy');
+    });
+
+    it('should keep the original data when a migration fails', () => {
+      /** Storage service whose migration to version 2 fails */
+      class BrokenMigrationStorageService extends StorageService {
+        protected override get migrations(): StorageMigration[] {
+          return [
+            {
+              version: 2,
+              description: 'Broken migration',
+              migrate: (): Record<string, string> => {
+                throw new Error('Broken');
+              },
+            },
+          ];
+        }
+      }
+      localStorage.setItem('pregnancy_calendar_preferences', legacyPreferences);
+      spyOn(console, 'error');
+
+      const service = new BrokenMigrationStorageService(
+        TestBed.inject(EncryptionService),
+        TestBed.inject(ClockService)
+      );
+
+      expect(service.hasMigrationFailed()).toBe(true);
+      expect(service.getCurrentPreferences()).toBeNull();
+      expect(service.savePreferences(JSON.parse(legacyPreferences))).toBe(false);
+      expect(readStorage()).toEqual({ pregnancy_calendar_preferences: legacyPreferences });
+
+      // The kept data is migrated once the migration works, backing up the original first
+      const fixedService = createService();
+      expect(fixedService.hasMigrationFailed()).toBe(false);
+      expect(JSON.parse(localStorage.getItem('pregnancy_calendar_backup_v1') ?? '')).toEqual({
+        pregnancy_calendar_preferences: legacyPreferences,
+      });
+      expect(fixedService.getCurrentPreferences()?.themeColor).toBe('boy');
+    });
+
+    it('should put the original data back when writing the migration fails', () => {
+      localStorage.setItem('pregnancy_calendar_preferences', legacyPreferences);
+      const storagePrototype = Object.getPrototypeOf(localStorage) as Storage;
+      const setItem = storagePrototype.setItem;
+      spyOn(storagePrototype, 'setItem').and.callFake((key: string, value: string) => {
+        if (key === 'pregnancy_calendar_schema_version') {
+          throw new DOMException('Not enough space', 'QuotaExceededError');
+        }
+        setItem.call(localStorage, key, value);
+      });
+      spyOn(console, 'error');
+
+      const service = createService();
+
+      expect(service.hasMigrationFailed()).toBe(true);
+      expect(Object.keys(readStorage()).sort()).toEqual([
+        'pregnancy_calendar_backup_v1',
+        'pregnancy_calendar_preferences',
+      ]);
+    });
+
+    it('should move preferences that cannot be loaded to the backup', () => {
+      const key = preferencesKey(
+        createService({ pregnancy_calendar_preferences: legacyPreferences })
+      );
+      TestBed.resetTestingModule();
+      localStorage.setItem(key, 'invalid json');
+      spyOn(console, 'error');
+
+      const service = createService();
+
+      expect(service.getCurrentPreferences()).toBeNull();
+      expect(localStorage.getItem(key)).toBeNull();
+      expect(JSON.parse(localStorage.getItem('pregnancy_calendar_backup_v2') ?? '')).toEqual({
+        [key]: 'invalid json',
+      });
+    });
+
+    it('should keep preferences that cannot be loaded when backing them up fails', () => {
+      const key = preferencesKey(
+        createService({ pregnancy_calendar_preferences: legacyPreferences })
+      );
+      TestBed.resetTestingModule();
+      localStorage.setItem(key, 'invalid json');
+      spyOn(Object.getPrototypeOf(localStorage) as Storage, 'setItem').and.throwError(
+        new DOMException('Not enough space', 'QuotaExceededError')
+      );
+      spyOn(console, 'error');
+
+      const service = createService();
+
+      expect(service.getCurrentPreferences()).toBeNull();
+      expect(localStorage.getItem(key)).toBe('invalid json');
+    });
+
+    it('should leave data from a newer version of the app untouched', () => {
+      spyOn(console, 'error');
+
+      const service = createService({
+        pregnancy_calendar_schema_version: '99',
+        pregnancy_calendar_preferences: legacyPreferences,
+      });
+
+      expect(service.hasMigrationFailed()).toBe(true);
+      expect(service.clearPreferences()).toBe(false);
+      expect(localStorage.getItem('pregnancy_calendar_preferences')).toBe(legacyPreferences);
+    });
+  });
+
+  describe('profiles', () => {
+    const preferences: UserPreferences = {
+      lmpDate: '2024-01-01',
+      themeColor: 'girl',
+      viewMode: 'summary',
+    };
+
+    it('should move preferences saved before profiles into an unnamed profile', () => {
+      const service = createService({
+        pregnancy_calendar_preferences: JSON.stringify(preferences),
+      });
+
+      expect(service.getActiveProfile()?.name).toBe('');
+      expect(service.getCurrentPreferences()).toEqual(preferences);
+      expect(localStorage.getItem('pregnancy_calendar_preferences')).toBeNull();
+      expect(localStorage.getItem(preferencesKey(service))).toBe(JSON.stringify(preferences));
+    });
+
+    it('should keep the preferences of each profile apart', () => {
+      const service = createService();
+      service.savePreferences(preferences);
+      const firstProfileId = service.getActiveProfile()?.id ?? '';
+
+      expect(service.createProfile('  Maria  ')).toBe(true);
+      expect(service.getActiveProfile()?.name).toBe('Maria');
+      expect(service.getCurrentPreferences()).toBeNull();
+
+      service.savePreferences({ ...preferences, themeColor: 'boy' });
+      expect(service.switchProfile(firstProfileId)).toBe(true);
+
+      expect(service.getCurrentPreferences()).toEqual(preferences);
+      expect(
+        JSON.parse(localStorage.getItem('pregnancy_calendar_profiles') ?? '').profiles.length
+      ).toBe(2);
+    });
+
+    it('should stamp new profiles with the real time, not the preview date', () => {
+      const clockService = TestBed.inject(ClockService);
+      spyOn(clockService, 'systemNow').and.returnValue(new Date('2025-03-01T10:00:00.000Z'));
+      clockService.setPreviewDate(new Date(2026, 0, 1));
+      const service = createService();
+
+      service.createProfile('Maria');
+
+      expect(service.getActiveProfile()?.createdAt).toBe('2025-03-01T10:00:00.000Z');
+    });
+
+    it('should rename and archive a profile', () => {
+      const service = createService();
+      const profileId = service.getActiveProfile()?.id ?? '';
+
+      expect(service.renameProfile(profileId, 'First pregnancy')).toBe(true);
+      expect(service.setProfileArchived(profileId, true)).toBe(true);
+
+      expect(service.getActiveProfile()).toEqual(
+        jasmine.objectContaining({ name: 'First pregnancy', archived: true })
+      );
+      expect(service.switchProfile('unknown')).toBe(false);
+    });
+
+    it('should delete a profile with its preferences and switch to a remaining one', () => {
+      const service = createService();
+      const firstProfileId = service.getActiveProfile()?.id ?? '';
+      service.savePreferences(preferences);
+      service.createProfile('Maria');
+      service.savePreferences({ ...preferences, themeColor: 'boy' });
+      const secondProfileId = service.getActiveProfile()?.id ?? '';
+      const secondPreferencesKey = preferencesKey(service);
+
+      expect(service.deleteProfile(secondProfileId)).toBe(true);
+      expect(localStorage.getItem(secondPreferencesKey)).toBeNull();
+      expect(service.getActiveProfile()?.id).toBe(firstProfileId);
+      expect(service.getCurrentPreferences()).toEqual(preferences);
+      expect(service.deleteProfile(firstProfileId)).toBe(false);
+    });
+  });
+
+  describe('import', () => {
+    const importedPreferences = JSON.stringify({
+      lmpDate: '2024-03-01',
+      themeColor: 'girl',
+      viewMode: 'table',
+      periodLog: ['2024-01-05', '2024-02-02'],
+    });
+
+    it('should import valid storage data and ignore unknown keys', () => {
+      const service = createService();
+
+      const result = service.importStorageData({
+        pregnancy_calendar_preferences: importedPreferences,
+        pregnancy_calendar_other: '{"test": "value"}',
+        invalid_key: 'should be ignored',
+      });
+
+      expect(result).toBe(true);
+      expect(service.getCurrentPreferences()?.lmpDate).toBe('2024-03-01');
+      expect(localStorage.getItem('pregnancy_calendar_schema_version')).toBe('2');
+      expect(localStorage.getItem(preferencesKey(service))).toBe(importedPreferences);
+      expect(localStorage.getItem('pregnancy_calendar_other')).toBeNull();
+      expect(localStorage.getItem('invalid_key')).toBeNull();
+    });
+
+    it('should reject invalid or newer storage data without writing it', () => {
+      spyOn(console, 'error');
+      const service = createService();
+      service.savePreferences({ lmpDate: '2024-05-01', themeColor: 'boy', viewMode: 'table' });
+      const stored = readStorage();
+
+      expect(
+        service.importStorageData({ pregnancy_calendar_preferences: '{"lmpDate": "2024-01-01"}' })
+      ).toBe(false);
+      expect(
+        service.importStorageData({
+          pregnancy_calendar_schema_version: '99',
+          pregnancy_calendar_preferences: importedPreferences,
+        })
+      ).toBe(false);
+
+      expect(service.getCurrentPreferences()?.lmpDate).toBe('2024-05-01');
+      expect(readStorage()).toEqual(stored);
+    });
+
+    it('should summarize storage data as it would be after import', () => {
+      const service = createService();
+
+      expect(
+        service.summarizeStorageData({ pregnancy_calendar_preferences: importedPreferences })
+      ).toEqual({
+        profileCount: 1,
+        lmpDate: '2024-03-01',
+        themeColor: 'girl',
+        logEntryCount: 2,
+      });
+      expect(service.summarizeStorageData({ pregnancy_calendar_schema_version: '99' })).toBeNull();
+    });
+  });
+
+  describe('preferences validation', () => {
+    /** Loads preferences saved before profiles, which are moved into the first profile */
+    const loadPreferences = (stored: object): UserPreferences | null => {
+      TestBed.resetTestingModule();
+      localStorage.clear();
+      return createService({
+        pregnancy_calendar_preferences: JSON.stringify(stored),
+      }).getCurrentPreferences();
+    };
+
+    const preferences: UserPreferences = {
+      lmpDate: '2024-01-01',
+      themeColor: 'neutral',
+      viewMode: 'summary',
+    };
+
+    beforeEach(() => {
+      spyOn(console, 'warn');
+    });
+
+    it('should reject preferences with an unsupported language', () => {
+      expect(loadPreferences({ ...preferences, language: 'fr' })).toBeNull();
+      expect(console.warn).toHaveBeenCalled();
+      expect(loadPreferences({ ...preferences, language: 'es' })?.language).toBe('es');
+    });
+
+    it('should reject preferences with unknown leave rules', () => {
+      expect(loadPreferences({ ...preferences, leave: { jurisdiction: 'fr-conge' } })).toBeNull();
+      expect(console.warn).toHaveBeenCalled();
+      expect(loadPreferences({ ...preferences, leave: { jurisdiction: 'uk-sml' } })?.leave).toEqual(
+        { jurisdiction: 'uk-sml' }
+      );
+    });
+
+    it('should reject a birth record without a delivery date', () => {
+      expect(loadPreferences({ ...preferences, birth: { birthType: 'vaginal' } })).toBeNull();
+      expect(console.warn).toHaveBeenCalled();
+
+      const birth: BirthRecord = { deliveryDate: '2024-10-05', birthType: 'vaginal' };
+      expect(loadPreferences({ ...preferences, birth })?.birth).toEqual(birth);
+    });
+
+    it('should load cycle tracking preferences without an LMP date', () => {
+      const preconceptionPreferences: UserPreferences = {
+        ...preferences,
+        lmpDate: '',
+        periodLog: ['2025-01-03', '2025-01-31'],
+      };
+
+      expect(loadPreferences(preconceptionPreferences)).toEqual(preconceptionPreferences);
+    });
+
+    it('should reject a period log with malformed dates', () => {
+      expect(
+        loadPreferences({ ...preferences, lmpDate: '', periodLog: ['03/01/2025'] })
+      ).toBeNull();
+      expect(console.warn).toHaveBeenCalled();
+    });
+  });
+});
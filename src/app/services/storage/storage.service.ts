@@ -1,17 +1,59 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
-import { ThemeColor, UserPreferences, ViewMode } from '../../models/pregnancy.models';
+import {
+  Profile,
+  ProfileRegistry,
+  StorageSummary,
+  ThemeColor,
+  UserPreferences,
+  ViewMode,
+} from '../../models/pregnancy.models';
+import { EncryptionService, KeyValueStorage } from '../encryption/encryption.service';
+import { ClockService } from '../clock/clock.service';
+
+/**
+ * Step of the storage schema migration registry
+ */
+export interface StorageMigration {
+  /** Schema version the stored data follows after this migration */
+  version: number;
+  /** What the migration changes */
+  description: string;
+  /** Transforms the stored values by key; throws to abort and keep the original data */
+  migrate: (data: Record<string, string>) => Record<string, string>;
+}
 
 /**
  * Service responsible for managing browser localStorage operations
- * Handles user preferences persistence and retrieval
+ * Handles the profile registry and persistence of each profile's preferences,
+ * stored under a per-profile key namespace. Stored data carries a schema version and
+ * is migrated to the current version on load. While encryption is on, values are read
+ * from and written to the decrypted copy EncryptionService keeps.
  */
 @Injectable({
   providedIn: 'root',
 })
 export class StorageService {
-  /** LocalStorage key for user preferences */
-  private readonly PREFERENCES_KEY = 'pregnancy_calendar_preferences';
+  /** Prefix shared by every localStorage key of the app */
+  private readonly KEY_PREFIX = 'pregnancy_calendar_';
+
+  /** LocalStorage key of the schema version the stored data follows */
+  private readonly SCHEMA_VERSION_KEY = 'pregnancy_calendar_schema_version';
+
+  /** LocalStorage key prefix of the data backed up before a migration, by schema version */
+  private readonly BACKUP_KEY_PREFIX = 'pregnancy_calendar_backup_v';
+
+  /** LocalStorage key of the single preferences object saved before profiles existed */
+  private readonly LEGACY_PREFERENCES_KEY = 'pregnancy_calendar_preferences';
+
+  /** LocalStorage key for the profile registry */
+  private readonly PROFILES_KEY = 'pregnancy_calendar_profiles';
+
+  /** LocalStorage key prefix of the per-profile namespaces */
+  private readonly PROFILE_KEY_PREFIX = 'pregnancy_calendar_profile_';
+
+  /** Schema version of the data written by this version of the app */
+  private readonly SCHEMA_VERSION = this.migrations[this.migrations.length - 1].version;
 
   /** Default user preferences */
   private readonly DEFAULT_PREFERENCES: UserPreferences = {
@@ -24,9 +66,63 @@ export class StorageService {
   /** BehaviorSubject to emit preference changes to subscribers */
   private preferencesSubject = new BehaviorSubject<UserPreferences | null>(null);
 
-  constructor() {
-    // Load preferences on service initialization
+  /** BehaviorSubject to emit profile registry changes to subscribers */
+  private profileRegistrySubject = new BehaviorSubject<ProfileRegistry>({
+    activeProfileId: '',
+    profiles: [],
+  });
+
+  /** Whether stored data could not be migrated and is kept unchanged */
+  private migrationFailed = false;
+
+  constructor(
+    private encryptionService: EncryptionService,
+    private clockService: ClockService
+  ) {
+    this.reload();
+  }
+
+  /**
+   * Reloads stored data, migrating it to the current schema version first
+   * While migration fails, nothing is loaded and writes are refused to keep the original data;
+   * while encrypted data is locked, nothing is loaded until it is unlocked
+   * @returns boolean indicating whether the data could be loaded
+   */
+  reload(): boolean {
+    if (this.encryptionService.isLocked()) {
+      this.migrationFailed = false;
+      this.profileRegistrySubject.next({ activeProfileId: '', profiles: [] });
+      this.preferencesSubject.next(null);
+      return false;
+    }
+
+    this.migrationFailed = !this.runMigrations();
+    if (this.migrationFailed) {
+      this.profileRegistrySubject.next({ activeProfileId: '', profiles: [] });
+      this.preferencesSubject.next(null);
+      return false;
+    }
+
+    // Load the profiles, then the preferences of the profile in use
+    this.loadProfiles();
     this.loadPreferences();
+    return true;
+  }
+
+  /**
+   * Checks whether stored data could not be migrated to the current schema version
+   * @returns boolean indicating if the original data is kept unchanged and unloaded
+   */
+  hasMigrationFailed(): boolean {
+    return this.migrationFailed;
+  }
+
+  /**
+   * Gets the schema version of the data written by this version of the app
+   * @returns Current schema version
+   */
+  getSchemaVersion(): number {
+    return this.SCHEMA_VERSION;
   }
 
   /**
@@ -46,14 +142,32 @@ export class StorageService {
   }
 
   /**
-   * Saves user preferences to localStorage
+   * Gets the profile registry as an Observable
+   * @returns Observable of the profiles and the one in use
+   */
+  getProfileRegistry(): Observable<ProfileRegistry> {
+    return this.profileRegistrySubject.asObservable();
+  }
+
+  /**
+   * Gets the profile in use synchronously
+   * @returns Active profile, or null if the registry could not be loaded
+   */
+  getActiveProfile(): Profile | null {
+    const registry = this.profileRegistrySubject.value;
+    return registry.profiles.find(profile => profile.id === registry.activeProfileId) ?? null;
+  }
+
+  /**
+   * Saves user preferences of the active profile to localStorage
    * @param preferences - User preferences to save
    * @returns boolean indicating success/failure
    */
   savePreferences(preferences: UserPreferences): boolean {
     try {
+      this.assertWritable();
       const preferencesJson = JSON.stringify(preferences);
-      localStorage.setItem(this.PREFERENCES_KEY, preferencesJson);
+      this.storage.setItem(this.getActivePreferencesKey(), preferencesJson);
       this.preferencesSubject.next(preferences);
       return true;
     } catch (error) {
@@ -116,12 +230,110 @@ export class StorageService {
   }
 
   /**
-   * Clears all stored preferences
+   * Creates a named profile and switches to it
+   * The new profile has no preferences yet, so setup is shown for it
+   * @param name - Display name of the profile
+   * @returns boolean indicating success/failure
+   */
+  createProfile(name: string): boolean {
+    const registry = this.profileRegistrySubject.value;
+    const profile = this.createProfileRecord(name.trim());
+
+    if (
+      !this.saveProfileRegistry({
+        activeProfileId: profile.id,
+        profiles: [...registry.profiles, profile],
+      })
+    ) {
+      return false;
+    }
+
+    this.loadPreferences();
+    return true;
+  }
+
+  /**
+   * Switches to another profile and loads its preferences
+   * @param profileId - Identifier of the profile to switch to
+   * @returns boolean indicating success/failure
+   */
+  switchProfile(profileId: string): boolean {
+    const registry = this.profileRegistrySubject.value;
+    if (!registry.profiles.some(profile => profile.id === profileId)) {
+      return false;
+    }
+
+    if (!this.saveProfileRegistry({ ...registry, activeProfileId: profileId })) {
+      return false;
+    }
+
+    this.loadPreferences();
+    return true;
+  }
+
+  /**
+   * Renames a profile
+   * @param profileId - Identifier of the profile to rename
+   * @param name - New display name
+   * @returns boolean indicating success/failure
+   */
+  renameProfile(profileId: string, name: string): boolean {
+    return this.updateProfile(profileId, { name: name.trim() });
+  }
+
+  /**
+   * Archives a completed pregnancy or brings it back from the archive
+   * @param profileId - Identifier of the profile
+   * @param archived - Whether the profile is archived
+   * @returns boolean indicating success/failure
+   */
+  setProfileArchived(profileId: string, archived: boolean): boolean {
+    return this.updateProfile(profileId, { archived });
+  }
+
+  /**
+   * Deletes a profile and its stored data
+   * Deleting the profile in use switches to the first remaining profile, preferring
+   * one that is not archived; the last profile cannot be deleted
+   * @param profileId - Identifier of the profile to delete
+   * @returns boolean indicating success/failure
+   */
+  deleteProfile(profileId: string): boolean {
+    const registry = this.profileRegistrySubject.value;
+    const profiles = registry.profiles.filter(profile => profile.id !== profileId);
+    if (profiles.length === 0 || profiles.length === registry.profiles.length) {
+      return false;
+    }
+
+    const isActive = registry.activeProfileId === profileId;
+    const activeProfileId = isActive
+      ? (profiles.find(profile => !profile.archived) ?? profiles[0]).id
+      : registry.activeProfileId;
+
+    if (!this.saveProfileRegistry({ activeProfileId, profiles })) {
+      return false;
+    }
+
+    try {
+      this.storage.removeItem(this.getPreferencesKey(profileId));
+    } catch (error) {
+      console.error('Failed to remove profile data from localStorage:', error);
+    }
+
+    if (isActive) {
+      this.loadPreferences();
+    }
+    return true;
+  }
+
+  /**
+   * Clears the stored preferences of the active profile
    * @returns boolean indicating success/failure
    */
   clearPreferences(): boolean {
     try {
-      localStorage.removeItem(this.PREFERENCES_KEY);
+      this.assertWritable();
+      this.storage.removeItem(this.getActivePreferencesKey());
       this.preferencesSubject.next(null);
       return true;
     } catch (error) {
@@ -131,25 +343,337 @@ export class StorageService {
   }
 
   /**
-   * Loads preferences from localStorage and updates the subject
+   * Gets the migrations in version order; data stored without a version follows version 1
+   * Every change to the stored shape needs a migration here rather than looser validation.
+   * A getter rather than a field, so it is in place while the constructor migrates
+   * @returns Migrations of the stored data
+   */
+  protected get migrations(): StorageMigration[] {
+    return [
+      {
+        version: 2,
+        description: 'Move the single preferences object into an unnamed profile',
+        migrate: data => this.migrateToProfiles(data),
+      },
+    ];
+  }
+
+  /**
+   * Gets the storage values are kept in
+   * @returns localStorage, or the decrypted copy while encryption is on
+   * @throws Error while encrypted data is locked
    * @private
    */
-  private loadPreferences(): void {
+  private get storage(): KeyValueStorage {
+    return this.encryptionService.getStorage();
+  }
+
+  /**
+   * Migrates stored data to the current schema version
+   * The original data is backed up first and the version is stamped last; when a migration
+   * fails, anything already written is put back so the original data is kept
+   * @returns boolean indicating whether the stored data follows the current schema version
+   * @private
+   */
+  private runMigrations(): boolean {
+    let original: Record<string, string> = {};
+    let migrated: Record<string, string> = {};
+
     try {
-      const preferencesJson = localStorage.getItem(this.PREFERENCES_KEY);
-      if (preferencesJson) {
-        const preferences = JSON.parse(preferencesJson) as UserPreferences;
-        // Validate that the loaded preferences have required fields
-        if (this.validatePreferences(preferences)) {
-          this.preferencesSubject.next(preferences);
-        } else {
-          console.warn('Invalid preferences found in localStorage, clearing...');
-          this.clearPreferences();
+      const storedVersion = Number(this.storage.getItem(this.SCHEMA_VERSION_KEY) ?? 1);
+      if (storedVersion === this.SCHEMA_VERSION) {
+        return true;
+      }
+      if (!Number.isInteger(storedVersion) || storedVersion > this.SCHEMA_VERSION) {
+        console.error(`Unsupported storage schema version ${storedVersion}, keeping data as is`);
+        return false;
+      }
+
+      original = this.readStoredData();
+      migrated = original;
+      for (const migration of this.migrations.filter(step => step.version > storedVersion)) {
+        try {
+          migrated = migration.migrate(migrated);
+        } catch (error) {
+          throw new Error(
+            `Migration to version ${migration.version} failed: ${migration.description}`,
+            {
+              cause: error,
+            }
+          );
         }
       }
+
+      if (Object.keys(original).length > 0) {
+        this.storage.setItem(`${this.BACKUP_KEY_PREFIX}${storedVersion}`, JSON.stringify(original));
+      }
+      this.writeStoredData(original, migrated);
+      this.storage.setItem(this.SCHEMA_VERSION_KEY, String(this.SCHEMA_VERSION));
+      return true;
+    } catch (error) {
+      console.error('Failed to migrate stored data, keeping the original data:', error);
+      try {
+        this.writeStoredData(migrated, original);
+      } catch (restoreError) {
+        console.error('Failed to restore the original data:', restoreError);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Moves the preferences saved before profiles existed into a new unnamed profile,
+   * which becomes active (schema version 2)
+   * @param data - Stored values by localStorage key
+   * @returns Stored values with the preferences in the profile's namespace
+   * @private
+   */
+  private migrateToProfiles(data: Record<string, string>): Record<string, string> {
+    const legacyPreferencesJson = data[this.LEGACY_PREFERENCES_KEY];
+    if (legacyPreferencesJson === undefined) {
+      return data;
+    }
+
+    const registry =
+      this.parseProfileRegistry(data[this.PROFILES_KEY]) ??
+      this.recoverProfileRegistry(Object.keys(data));
+    const profile = this.createProfileRecord('');
+    const migrated = { ...data };
+    delete migrated[this.LEGACY_PREFERENCES_KEY];
+    migrated[this.getPreferencesKey(profile.id)] = legacyPreferencesJson;
+    migrated[this.PROFILES_KEY] = JSON.stringify({
+      activeProfileId: profile.id,
+      profiles: [...registry.profiles, profile],
+    });
+
+    return migrated;
+  }
+
+  /**
+   * Reads the app's stored values, leaving out the schema version and migration backups
+   * @returns Stored values by localStorage key
+   * @private
+   */
+  private readStoredData(): Record<string, string> {
+    const data: Record<string, string> = {};
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      const value = key === null ? null : this.storage.getItem(key);
+      if (
+        key?.startsWith(this.KEY_PREFIX) &&
+        !key.startsWith(this.BACKUP_KEY_PREFIX) &&
+        key !== this.SCHEMA_VERSION_KEY &&
+        value !== null
+      ) {
+        data[key] = value;
+      }
+    }
+    return data;
+  }
+
+  /**
+   * Replaces stored values, removing keys that are no longer present
+   * @param current - Values currently stored by localStorage key
+   * @param next - Values to store by localStorage key
+   * @private
+   */
+  private writeStoredData(current: Record<string, string>, next: Record<string, string>): void {
+    Object.keys(current)
+      .filter(key => !(key in next))
+      .forEach(key => this.storage.removeItem(key));
+    Object.entries(next)
+      .filter(([key, value]) => current[key] !== value)
+      .forEach(([key, value]) => this.storage.setItem(key, value));
+  }
+
+  /**
+   * Throws when stored data could not be migrated, so it is not overwritten
+   * @private
+   */
+  private assertWritable(): void {
+    if (this.migrationFailed) {
+      throw new Error('Stored data was not migrated to the current schema version.');
+    }
+  }
+
+  /**
+   * Loads the profile registry from localStorage and updates the subject
+   * Without a valid registry, one is rebuilt from the stored profile namespaces
+   * @private
+   */
+  private loadProfiles(): void {
+    try {
+      let registry =
+        this.parseProfileRegistry(this.storage.getItem(this.PROFILES_KEY)) ??
+        this.recoverProfileRegistry(Object.keys(this.readStoredData()));
+
+      if (registry.profiles.length === 0) {
+        const profile = this.createProfileRecord('');
+        registry = { activeProfileId: profile.id, profiles: [profile] };
+      }
+
+      this.saveProfileRegistry(registry);
+    } catch (error) {
+      console.error('Failed to load profiles from localStorage:', error);
+    }
+  }
+
+  /**
+   * Parses a stored profile registry
+   * @param registryJson - Stored registry JSON
+   * @returns Registry, or null when missing or invalid
+   * @private
+   */
+  private parseProfileRegistry(registryJson: string | null | undefined): ProfileRegistry | null {
+    try {
+      const registry: unknown = registryJson ? JSON.parse(registryJson) : null;
+      return this.validateProfileRegistry(registry) ? registry : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Rebuilds the profile registry from stored profile namespaces
+   * @param keys - Stored localStorage keys
+   * @returns Registry of unnamed profiles, the first one active
+   * @private
+   */
+  private recoverProfileRegistry(keys: string[]): ProfileRegistry {
+    const suffix = '_preferences';
+    const profiles = keys
+      .filter(key => key.startsWith(this.PROFILE_KEY_PREFIX) && key.endsWith(suffix))
+      .map(key => ({
+        ...this.createProfileRecord(''),
+        id: key.slice(this.PROFILE_KEY_PREFIX.length, -suffix.length),
+      }));
+
+    return { activeProfileId: profiles[0]?.id ?? '', profiles };
+  }
+
+  /**
+   * Saves the profile registry to localStorage and updates the subject
+   * @param registry - Profile registry to save
+   * @returns boolean indicating success/failure
+   * @private
+   */
+  private saveProfileRegistry(registry: ProfileRegistry): boolean {
+    try {
+      this.assertWritable();
+      this.storage.setItem(this.PROFILES_KEY, JSON.stringify(registry));
+      this.profileRegistrySubject.next(registry);
+      return true;
+    } catch (error) {
+      console.error('Failed to save profiles to localStorage:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Updates fields of a stored profile
+   * @param profileId - Identifier of the profile
+   * @param updates - Profile fields to change
+   * @returns boolean indicating success/failure
+   * @private
+   */
+  private updateProfile(profileId: string, updates: Partial<Omit<Profile, 'id'>>): boolean {
+    const registry = this.profileRegistrySubject.value;
+    if (!registry.profiles.some(profile => profile.id === profileId)) {
+      return false;
+    }
+
+    return this.saveProfileRegistry({
+      ...registry,
+      profiles: registry.profiles.map(profile =>
+        profile.id === profileId ? { ...profile, ...updates } : profile
+      ),
+    });
+  }
+
+  /**
+   * Creates a new profile record
+   * @param name - Display name of the profile
+   * @returns Profile with a new identifier
+   * @private
+   */
+  private createProfileRecord(name: string): Profile {
+    return {
+      id: crypto.randomUUID(),
+      name,
+      archived: false,
+      createdAt: this.clockService.systemNow().toISOString(),
+    };
+  }
+
+  /**
+   * Gets the localStorage key of a profile's preferences
+   * @param profileId - Identifier of the profile
+   * @returns Key within the profile's namespace
+   * @private
+   */
+  private getPreferencesKey(profileId: string): string {
+    return `${this.PROFILE_KEY_PREFIX}${profileId}_preferences`;
+  }
+
+  /**
+   * Gets the localStorage key of the active profile's preferences
+   * @returns Key within the active profile's namespace
+   * @private
+   */
+  private getActivePreferencesKey(): string {
+    return this.getPreferencesKey(this.profileRegistrySubject.value.activeProfileId);
+  }
+
+  /**
+   * Loads the active profile's preferences from localStorage and updates the subject
+   * Preferences that cannot be loaded are moved to the backup instead of being deleted
+   * @private
+   */
+  private loadPreferences(): void {
+    let preferencesJson: string | null = null;
+    try {
+      preferencesJson = this.storage.getItem(this.getActivePreferencesKey());
+      if (!preferencesJson) {
+        this.preferencesSubject.next(null);
+        return;
+      }
+
+      const preferences: unknown = JSON.parse(preferencesJson);
+      // Validate that the loaded preferences have required fields
+      if (this.validatePreferences(preferences)) {
+        this.preferencesSubject.next(preferences);
+        return;
+      }
+      console.warn('Invalid preferences found in localStorage, moving them to the backup...');
     } catch (error) {
       console.error('Failed to load preferences from localStorage:', error);
-      this.clearPreferences();
+    }
+
+    this.backUpInvalidPreferences(preferencesJson);
+  }
+
+  /**
+   * Moves preferences that cannot be loaded into the backup of the current schema version,
+   * alongside any values backed up by migrations, and starts over without preferences
+   * When the backup cannot be written, the preferences are kept where they are
+   * @param preferencesJson - Stored preferences JSON, or null when it could not be read
+   * @private
+   */
+  private backUpInvalidPreferences(preferencesJson: string | null): void {
+    this.preferencesSubject.next(null);
+    if (preferencesJson === null) {
+      return;
+    }
+
+    try {
+      this.assertWritable();
+      const key = this.getActivePreferencesKey();
+      const backupKey = `${this.BACKUP_KEY_PREFIX}${this.SCHEMA_VERSION}`;
+      const backup: Record<string, string> = JSON.parse(this.storage.getItem(backupKey) ?? '{}');
+      this.storage.setItem(backupKey, JSON.stringify({ ...backup, [key]: preferencesJson }));
+      this.storage.removeItem(key);
+    } catch (error) {
+      console.error('Failed to back up invalid preferences, keeping them:', error);
     }
   }
 
@@ -171,10 +695,258 @@ export class StorageService {
       typeof pref['themeColor'] === 'string' &&
       typeof pref['viewMode'] === 'string' &&
       ['neutral', 'boy', 'girl'].includes(pref['themeColor'] as string) &&
-      ['summary', 'table'].includes(pref['viewMode'] as string)
+      ['summary', 'table'].includes(pref['viewMode'] as string) &&
+      (pref['dating'] === undefined || this.validateDating(pref['dating'])) &&
+      (pref['cycleLengthDays'] === undefined || typeof pref['cycleLengthDays'] === 'number') &&
+      (pref['lutealPhaseDays'] === undefined || typeof pref['lutealPhaseDays'] === 'number') &&
+      (pref['periodLog'] === undefined || this.validatePeriodLog(pref['periodLog'])) &&
+      (pref['datingScan'] === undefined || this.validateDatingScan(pref['datingScan'])) &&
+      (pref['biometry'] === undefined || this.validateBiometry(pref['biometry'])) &&
+      (pref['plurality'] === undefined ||
+        ['singleton', 'twins', 'triplets'].includes(pref['plurality'] as string)) &&
+      (pref['guidelineProfile'] === undefined ||
+        ['acog', 'nice', 'who'].includes(pref['guidelineProfile'] as string)) &&
+      (pref['dateFormat'] === undefined ||
+        ['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD', 'long', 'locale'].includes(
+          pref['dateFormat'] as string
+        )) &&
+      (pref['language'] === undefined || ['en', 'es', 'ar'].includes(pref['language'] as string)) &&
+      (pref['leave'] === undefined || this.validateLeave(pref['leave'])) &&
+      (pref['birth'] === undefined || this.validateBirth(pref['birth']))
     );
   }
 
+  /**
+   * Validates that a profile registry lists profiles and names one of them as active
+   * @param registry - Registry object to validate
+   * @returns boolean indicating if the registry is valid
+   * @private
+   */
+  private validateProfileRegistry(registry: unknown): registry is ProfileRegistry {
+    if (!registry || typeof registry !== 'object') {
+      return false;
+    }
+
+    const value = registry as Record<string, unknown>;
+    const profiles = value['profiles'];
+
+    return (
+      Array.isArray(profiles) &&
+      profiles.every(item => {
+        const profile = item as Record<string, unknown> | null;
+        return (
+          !!profile &&
+          typeof profile['id'] === 'string' &&
+          typeof profile['name'] === 'string' &&
+          typeof profile['archived'] === 'boolean' &&
+          typeof profile['createdAt'] === 'string'
+        );
+      }) &&
+      profiles.some(profile => profile.id === value['activeProfileId'])
+    );
+  }
+
+  /**
+   * Validates that dating information has the required structure
+   * @param dating - Dating object to validate
+   * @returns boolean indicating if dating information is valid
+   * @private
+   */
+  private validateDating(dating: unknown): boolean {
+    if (!dating || typeof dating !== 'object') {
+      return false;
+    }
+
+    const value = dating as Record<string, unknown>;
+
+    return (
+      typeof value['referenceDate'] === 'string' &&
+      ['lmp', 'conception', 'ivf-day3', 'ivf-day5', 'ultrasound-crl'].includes(
+        value['method'] as string
+      ) &&
+      (value['crownRumpLengthMm'] === undefined || typeof value['crownRumpLengthMm'] === 'number')
+    );
+  }
+
+  /**
+   * Validates that a dating scan has a date and at least one measurement
+   * @param datingScan - Dating scan object to validate
+   * @returns boolean indicating if the dating scan is valid
+   * @private
+   */
+  private validateDatingScan(datingScan: unknown): boolean {
+    if (!datingScan || typeof datingScan !== 'object') {
+      return false;
+    }
+
+    const scan = datingScan as Record<string, unknown>;
+
+    return (
+      typeof scan['scanDate'] === 'string' &&
+      (typeof scan['crownRumpLengthMm'] === 'number' ||
+        typeof scan['gestationalAgeDays'] === 'number')
+    );
+  }
+
+  /**
+   * Validates that every biometry entry has a date, an id and the required measurements
+   * @param biometry - Biometry log to validate
+   * @returns boolean indicating if the biometry log is valid
+   * @private
+   */
+  private validateBiometry(biometry: unknown): boolean {
+    if (!Array.isArray(biometry)) {
+      return false;
+    }
+
+    return biometry.every(item => {
+      if (!item || typeof item !== 'object') {
+        return false;
+      }
+
+      const entry = item as Record<string, unknown>;
+      return (
+        typeof entry['id'] === 'string' &&
+        typeof entry['scanDate'] === 'string' &&
+        typeof entry['acMm'] === 'number' &&
+        typeof entry['flMm'] === 'number' &&
+        (entry['bpdMm'] === undefined || typeof entry['bpdMm'] === 'number') &&
+        (entry['hcMm'] === undefined || typeof entry['hcMm'] === 'number') &&
+        (entry['babyLabel'] === undefined || typeof entry['babyLabel'] === 'string')
+      );
+    });
+  }
+
+  /**
+   * Validates that leave settings name known leave rules
+   * @param leave - Leave settings to validate
+   * @returns boolean indicating if the leave settings are valid
+   * @private
+   */
+  private validateLeave(leave: unknown): boolean {
+    if (!leave || typeof leave !== 'object') {
+      return false;
+    }
+
+    const value = leave as Record<string, unknown>;
+
+    return (
+      ['us-fmla', 'uk-sml', 'de-mutterschutz'].includes(value['jurisdiction'] as string) &&
+      (value['plannedStartDate'] === undefined || typeof value['plannedStartDate'] === 'string')
+    );
+  }
+
+  /**
+   * Validates that a birth record has a delivery date and a known birth type
+   * @param birth - Birth record to validate
+   * @returns boolean indicating if the birth record is valid
+   * @private
+   */
+  private validateBirth(birth: unknown): boolean {
+    if (!birth || typeof birth !== 'object') {
+      return false;
+    }
+
+    const value = birth as Record<string, unknown>;
+
+    return (
+      typeof value['deliveryDate'] === 'string' &&
+      ['vaginal', 'assisted-vaginal', 'caesarean'].includes(value['birthType'] as string) &&
+      (value['birthWeightGrams'] === undefined || typeof value['birthWeightGrams'] === 'number') &&
+      (value['birthLengthCm'] === undefined || typeof value['birthLengthCm'] === 'number')
+    );
+  }
+
+  /**
+   * Validates that a period log is a list of YYYY-MM-DD dates
+   * @param periodLog - Period log to validate
+   * @returns boolean indicating if the period log is valid
+   * @private
+   */
+  private validatePeriodLog(periodLog: unknown): boolean {
+    return (
+      Array.isArray(periodLog) &&
+      periodLog.every(date => typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date))
+    );
+  }
+
+  /**
+   * Checks stored values for import, migrating them to the current schema version in memory
+   * Only the profile registry and the preferences of its profiles are kept
+   * @param data - Stored values by localStorage key, with their schema version
+   * @returns Values to store, or null when they are invalid or from a newer schema version
+   * @private
+   */
+  private prepareImportData(data: Record<string, unknown>): Record<string, string> | null {
+    const version = Number(data[this.SCHEMA_VERSION_KEY] ?? 1);
+    if (!Number.isInteger(version) || version < 1 || version > this.SCHEMA_VERSION) {
+      return null;
+    }
+
+    let migrated: Record<string, string> = {};
+    Object.entries(data).forEach(([key, value]) => {
+      if (
+        key.startsWith(this.KEY_PREFIX) &&
+        !key.startsWith(this.BACKUP_KEY_PREFIX) &&
+        key !== this.SCHEMA_VERSION_KEY &&
+        typeof value === 'string'
+      ) {
+        migrated[key] = value;
+      }
+    });
+
+    try {
+      for (const migration of this.migrations.filter(step => step.version > version)) {
+        migrated = migration.migrate(migrated);
+      }
+
+      const registry = this.parseProfileRegistry(migrated[this.PROFILES_KEY]);
+      if (!registry) {
+        return null;
+      }
+
+      const prepared: Record<string, string> = { [this.PROFILES_KEY]: migrated[this.PROFILES_KEY] };
+      for (const profile of registry.profiles) {
+        const key = this.getPreferencesKey(profile.id);
+        if (migrated[key] === undefined) {
+          continue;
+        }
+        if (!this.validatePreferences(JSON.parse(migrated[key]))) {
+          return null;
+        }
+        prepared[key] = migrated[key];
+      }
+      return prepared;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Summarizes values prepared for import
+   * @param data - Values returned by prepareImportData
+   * @returns Summary of the profiles and the active profile's preferences
+   * @private
+   */
+  private summarizePreparedData(data: Record<string, string>): StorageSummary {
+    const registry = JSON.parse(data[this.PROFILES_KEY]) as ProfileRegistry;
+    const preferencesOf = (profileId: string): UserPreferences | null => {
+      const preferencesJson = data[this.getPreferencesKey(profileId)];
+      return preferencesJson ? (JSON.parse(preferencesJson) as UserPreferences) : null;
+    };
+    const activePreferences = preferencesOf(registry.activeProfileId);
+
+    return {
+      profileCount: registry.profiles.length,
+      lmpDate: activePreferences?.lmpDate ?? '',
+      themeColor: activePreferences?.themeColor ?? this.DEFAULT_PREFERENCES.themeColor,
+      logEntryCount: registry.profiles.reduce((count, profile) => {
+        const preferences = preferencesOf(profile.id);
+        return count + (preferences?.periodLog?.length ?? 0) + (preferences?.biometry?.length ?? 0);
+      }, 0),
+    };
+  }
+
   /**
    * Exports all stored data for backup purposes
    * @returns Object containing all localStorage data
@@ -182,10 +954,10 @@ export class StorageService {
   exportStorageData(): Record<string, unknown> {
     try {
       const data: Record<string, unknown> = {};
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key?.startsWith('pregnancy_calendar_')) {
-          data[key] = localStorage.getItem(key);
+      for (let i = 0; i < this.storage.length; i++) {
+        const key = this.storage.key(i);
+        if (key?.startsWith(this.KEY_PREFIX)) {
+          data[key] = this.storage.getItem(key);
         }
       }
       return data;
@@ -196,19 +968,45 @@ export class StorageService {
   }
 
   /**
-   * Imports storage data from backup
+   * Summarizes stored data as it would be after importing it
+   * @param data - Data object to check, as exported
+   * @returns Summary, or null when the data cannot be imported
+   */
+  summarizeStorageData(data: Record<string, unknown>): StorageSummary | null {
+    const prepared = this.prepareImportData(data);
+    return prepared ? this.summarizePreparedData(prepared) : null;
+  }
+
+  /**
+   * Summarizes the stored data in use
+   * @returns Summary, or null when nothing is loaded
+   */
+  getStorageSummary(): StorageSummary | null {
+    if (this.migrationFailed || this.encryptionService.isLocked()) {
+      return null;
+    }
+    return this.summarizeStorageData(this.exportStorageData());
+  }
+
+  /**
+   * Imports storage data from backup, replacing the stored profiles and preferences
+   * Backups made before the schema was versioned are migrated as version 1; nothing is
+   * written when the data is invalid or from a newer schema version
    * @param data - Data object to import
    * @returns boolean indicating success/failure
    */
   importStorageData(data: Record<string, unknown>): boolean {
     try {
-      Object.entries(data).forEach(([key, value]) => {
-        if (key.startsWith('pregnancy_calendar_') && typeof value === 'string') {
-          localStorage.setItem(key, value);
-        }
-      });
-      this.loadPreferences(); // Reload preferences after import
-      return true;
+      const prepared = this.prepareImportData(data);
+      if (!prepared) {
+        console.error('Rejected invalid storage data for import');
+        return false;
+      }
+
+      this.writeStoredData(this.readStoredData(), prepared);
+      this.storage.setItem(this.SCHEMA_VERSION_KEY, String(this.SCHEMA_VERSION));
+      // Reload profiles and preferences after import
+      return this.reload();
     } catch (error) {
       console.error('Failed to import storage data:', error);
       return false;
@@ -1,6 +1,7 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject, Observable } from 'rxjs';
 import { ThemeColor } from '../../models/pregnancy.models';
+import { I18nService } from '../i18n/i18n.service';
 
 /**
  * Service responsible for managing application themes and colors
@@ -103,7 +104,7 @@ export class ThemeService {
     '--z-toast': '1080',
   };
 
-  constructor() {
+  constructor(private i18nService: I18nService) {
     // Initialize with default theme
     this.initializeTheme();
   }
@@ -193,20 +194,20 @@ export class ThemeService {
     return [
       {
         value: 'neutral',
-        label: 'Neutral',
-        description: 'Warm, gender-neutral tones',
+        label: this.i18nService.translate('theme.neutral'),
+        description: this.i18nService.translate('theme.neutralDescription'),
         primaryColor: this.THEME_PROPERTIES.neutral['--color-primary'],
       },
       {
         value: 'boy',
-        label: 'Boy',
-        description: 'Soft blue accents',
+        label: this.i18nService.translate('theme.boy'),
+        description: this.i18nService.translate('theme.boyDescription'),
         primaryColor: this.THEME_PROPERTIES.boy['--color-primary'],
       },
       {
         value: 'girl',
-        label: 'Girl',
-        description: 'Gentle pink accents',
+        label: this.i18nService.translate('theme.girl'),
+        description: this.i18nService.translate('theme.girlDescription'),
         primaryColor: this.THEME_PROPERTIES.girl['--color-primary'],
       },
     ];
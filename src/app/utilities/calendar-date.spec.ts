@@ -0,0 +1,92 @@
+import { CalendarDate } from './calendar-date';
+import { formatLocalDate, parseLocalDate } from './parse-date';
+
+describe('CalendarDate', () => {
+  it('should parse and format YYYY-MM-DD strings', () => {
+    const date = CalendarDate.parse('2025-03-09');
+
+    expect(date.year).toBe(2025);
+    expect(date.month).toBe(3);
+    expect(date.day).toBe(9);
+    expect(date.toString()).toBe('2025-03-09');
+  });
+
+  it('should reject malformed and impossible dates', () => {
+    expect(() => CalendarDate.parse('2025-3-9')).toThrowError(/Expected YYYY-MM-DD/);
+    expect(() => CalendarDate.parse('not a date')).toThrowError(/Expected YYYY-MM-DD/);
+    expect(() => CalendarDate.parse('2025-02-29')).toThrowError(/Invalid calendar date/);
+    expect(() => CalendarDate.parse('2025-13-01')).toThrowError(/Invalid calendar date/);
+  });
+
+  it('should add days across month, year and leap-day boundaries', () => {
+    expect(CalendarDate.parse('2024-02-28').addDays(1).toString()).toBe('2024-02-29');
+    expect(CalendarDate.parse('2025-02-28').addDays(1).toString()).toBe('2025-03-01');
+    expect(CalendarDate.parse('2025-12-31').addDays(1).toString()).toBe('2026-01-01');
+    expect(CalendarDate.parse('2025-01-01').addDays(-1).toString()).toBe('2024-12-31');
+    expect(CalendarDate.parse('2025-01-01').addDays(280).toString()).toBe('2025-10-08');
+  });
+
+  it('should count whole days across daylight saving changes', () => {
+    // Spring forward and fall back fall inside these ranges in both the US and Europe
+    expect(CalendarDate.parse('2025-03-01').daysUntil(CalendarDate.parse('2025-04-01'))).toBe(31);
+    expect(CalendarDate.parse('2025-10-01').daysUntil(CalendarDate.parse('2025-11-15'))).toBe(45);
+    expect(CalendarDate.parse('2025-11-15').daysUntil(CalendarDate.parse('2025-10-01'))).toBe(-45);
+  });
+
+  it('should add years, moving 29 February to 28 February in common years', () => {
+    expect(CalendarDate.parse('2025-06-15').addYears(-1).toString()).toBe('2024-06-15');
+    expect(CalendarDate.parse('2024-02-29').addYears(1).toString()).toBe('2025-02-28');
+  });
+
+  it('should add months, moving days past the end of the month to its last day', () => {
+    expect(CalendarDate.parse('2025-11-15').addMonths(3).toString()).toBe('2026-02-15');
+    expect(CalendarDate.parse('2025-01-31').addMonths(1).toString()).toBe('2025-02-28');
+    expect(CalendarDate.parse('2024-01-31').addMonths(1).toString()).toBe('2024-02-29');
+    expect(CalendarDate.parse('2025-03-10').addMonths(-3).toString()).toBe('2024-12-10');
+  });
+
+  it('should count whole months between dates', () => {
+    const birth = CalendarDate.parse('2025-01-31');
+
+    expect(birth.monthsUntil(CalendarDate.parse('2025-02-27'))).toBe(0);
+    expect(birth.monthsUntil(CalendarDate.parse('2025-02-28'))).toBe(1);
+    expect(birth.monthsUntil(CalendarDate.parse('2026-01-30'))).toBe(11);
+    expect(birth.monthsUntil(CalendarDate.parse('2026-01-31'))).toBe(12);
+    expect(CalendarDate.parse('2025-06-15').monthsUntil(CalendarDate.parse('2025-04-20'))).toBe(-1);
+  });
+
+  it('should compare dates', () => {
+    const earlier = CalendarDate.parse('2025-03-09');
+    const later = CalendarDate.parse('2025-03-10');
+
+    expect(earlier.isBefore(later)).toBe(true);
+    expect(later.isAfter(earlier)).toBe(true);
+    expect(earlier.equals(CalendarDate.of(2025, 3, 9))).toBe(true);
+    expect(earlier.compareTo(later)).toBeLessThan(0);
+  });
+
+  it('should give the day of the week', () => {
+    expect(CalendarDate.parse('2025-03-09').dayOfWeek).toBe(0); // Sunday
+    expect(CalendarDate.parse('2025-10-08').dayOfWeek).toBe(3); // Wednesday
+  });
+
+  it('should round-trip through local dates in the current timezone', () => {
+    for (let offset = 0; offset < 366; offset++) {
+      const date = CalendarDate.parse('2025-01-01').addDays(offset);
+      const local = date.toDate();
+
+      expect(local.getHours()).toBeLessThanOrEqual(1); // Midnight, or 1am where midnight is skipped
+      expect(CalendarDate.fromDate(local).equals(date)).toBe(true);
+    }
+  });
+
+  it('should read the local calendar date of a Date regardless of the time of day', () => {
+    expect(CalendarDate.fromDate(new Date(2025, 2, 9, 0, 0)).toString()).toBe('2025-03-09');
+    expect(CalendarDate.fromDate(new Date(2025, 2, 9, 23, 59)).toString()).toBe('2025-03-09');
+  });
+
+  it('should back the local date parsing helpers', () => {
+    expect(parseLocalDate('2025-03-09')).toEqual(new Date(2025, 2, 9));
+    expect(formatLocalDate(new Date(2025, 2, 9, 23, 30))).toBe('2025-03-09');
+  });
+});
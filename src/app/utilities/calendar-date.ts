@@ -0,0 +1,232 @@
+/** Milliseconds in a day on the UTC timeline (which has no daylight saving changes) */
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * @description Calendar date (year, month, day) with no time of day or timezone
+ * * Day arithmetic counts whole days on the UTC timeline, so the results are the same
+ * in every timezone and across daylight saving changes. Convert to a local Date only
+ * at the edges (display and date pickers).
+ */
+export class CalendarDate {
+  /**
+   * @param year Full year (e.g. 2025)
+   * @param month Month of the year, 1-12
+   * @param day Day of the month, 1-31
+   */
+  private constructor(
+    readonly year: number,
+    readonly month: number,
+    readonly day: number
+  ) {}
+
+  /**
+   * @description Creates a calendar date from its parts
+   *
+   * @param year Full year (e.g. 2025)
+   * @param month Month of the year, 1-12
+   * @param day Day of the month, 1-31
+   * @returns Calendar date
+   * @throws Error when the parts do not form a real date (e.g. 2025-02-30)
+   */
+  static of(year: number, month: number, day: number): CalendarDate {
+    const date = CalendarDate.fromEpochDay(CalendarDate.toEpochDay(year, month, day));
+    if (date.year !== year || date.month !== month || date.day !== day) {
+      throw new Error(`Invalid calendar date: ${year}-${month}-${day}.`);
+    }
+    return date;
+  }
+
+  /**
+   * @description Parses a date string in 'YYYY-MM-DD' format
+   *
+   * @param yyyyMmDd Date string in 'YYYY-MM-DD' format
+   * @returns Calendar date
+   * @throws Error when the string is not a valid 'YYYY-MM-DD' date
+   */
+  static parse(yyyyMmDd: string): CalendarDate {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(yyyyMmDd.trim());
+    if (!match) {
+      throw new Error('Invalid date format. Expected YYYY-MM-DD.');
+    }
+
+    return CalendarDate.of(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+
+  /**
+   * @description Gets the local calendar date of a Date (its time of day is ignored)
+   *
+   * @param date Date to read
+   * @returns Calendar date in the user's timezone
+   */
+  static fromDate(date: Date): CalendarDate {
+    return new CalendarDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  }
+
+  /**
+   * @description Creates a calendar date from a count of days since 1970-01-01
+   *
+   * @param epochDay Days since 1970-01-01
+   * @returns Calendar date
+   */
+  static fromEpochDay(epochDay: number): CalendarDate {
+    const utc = new Date(epochDay * MS_PER_DAY);
+    return new CalendarDate(utc.getUTCFullYear(), utc.getUTCMonth() + 1, utc.getUTCDate());
+  }
+
+  /**
+   * @description Counts the days from 1970-01-01 to a calendar date
+   *
+   * @param year Full year
+   * @param month Month of the year, 1-12 (out-of-range values roll over)
+   * @param day Day of the month (out-of-range values roll over)
+   * @returns Days since 1970-01-01
+   * @private
+   */
+  private static toEpochDay(year: number, month: number, day: number): number {
+    const utc = new Date(0);
+    utc.setUTCFullYear(year, month - 1, day); // Unlike Date.UTC, keeps years 0-99 as-is
+    return Math.round(utc.getTime() / MS_PER_DAY);
+  }
+
+  /**
+   * @description Days since 1970-01-01
+   */
+  get epochDay(): number {
+    return CalendarDate.toEpochDay(this.year, this.month, this.day);
+  }
+
+  /**
+   * @description Day of the week, 0 (Sunday) to 6 (Saturday)
+   */
+  get dayOfWeek(): number {
+    return new Date(this.epochDay * MS_PER_DAY).getUTCDay();
+  }
+
+  /**
+   * @description Adds a number of days
+   *
+   * @param days Days to add (negative to subtract)
+   * @returns New calendar date
+   */
+  addDays(days: number): CalendarDate {
+    return CalendarDate.fromEpochDay(this.epochDay + days);
+  }
+
+  /**
+   * @description Adds a number of years, moving 29 February to 28 February in common years
+   *
+   * @param years Years to add (negative to subtract)
+   * @returns New calendar date
+   */
+  addYears(years: number): CalendarDate {
+    return this.addMonths(years * 12);
+  }
+
+  /**
+   * @description Adds a number of months, moving days past the end of the target month to its
+   * last day (e.g. 31 January + 1 month is 28 or 29 February)
+   *
+   * @param months Months to add (negative to subtract)
+   * @returns New calendar date
+   */
+  addMonths(months: number): CalendarDate {
+    const monthIndex = this.year * 12 + (this.month - 1) + months;
+    const year = Math.floor(monthIndex / 12);
+    const month = monthIndex - year * 12 + 1;
+    const lastDayOfMonth = CalendarDate.fromEpochDay(
+      CalendarDate.toEpochDay(year, month + 1, 0)
+    ).day;
+    return CalendarDate.of(year, month, Math.min(this.day, lastDayOfMonth));
+  }
+
+  /**
+   * @description Counts the days from this date to another
+   *
+   * @param other Later (or earlier) calendar date
+   * @returns Whole days between the dates, negative when the other date is earlier
+   */
+  daysUntil(other: CalendarDate): number {
+    return other.epochDay - this.epochDay;
+  }
+
+  /**
+   * @description Counts the whole calendar months from this date to another
+   *
+   * @param other Later (or earlier) calendar date
+   * @returns Whole months between the dates, negative when the other date is earlier
+   */
+  monthsUntil(other: CalendarDate): number {
+    let months = (other.year - this.year) * 12 + (other.month - this.month);
+    if (months > 0 && this.addMonths(months).isAfter(other)) {
+      months--;
+    } else if (months < 0 && this.addMonths(months).isBefore(other)) {
+      months++;
+    }
+    return months;
+  }
+
+  /**
+   * @description Compares two calendar dates
+   *
+   * @param other Calendar date to compare with
+   * @returns Negative, zero or positive when this date is before, the same as or after the other
+   */
+  compareTo(other: CalendarDate): number {
+    return this.epochDay - other.epochDay;
+  }
+
+  /**
+   * @description Checks whether two calendar dates are the same day
+   *
+   * @param other Calendar date to compare with
+   * @returns Boolean indicating if the dates are equal
+   */
+  equals(other: CalendarDate): boolean {
+    return this.compareTo(other) === 0;
+  }
+
+  /**
+   * @description Checks whether this date is before another
+   *
+   * @param other Calendar date to compare with
+   * @returns Boolean indicating if this date is earlier
+   */
+  isBefore(other: CalendarDate): boolean {
+    return this.compareTo(other) < 0;
+  }
+
+  /**
+   * @description Checks whether this date is after another
+   *
+   * @param other Calendar date to compare with
+   * @returns Boolean indicating if this date is later
+   */
+  isAfter(other: CalendarDate): boolean {
+    return this.compareTo(other) > 0;
+  }
+
+  /**
+   * @description Converts to a Date at local midnight, for display and date pickers
+   *
+   * @returns Date at the start of this day in the user's timezone
+   */
+  toDate(): Date {
+    const date = new Date(0);
+    date.setFullYear(this.year, this.month - 1, this.day);
+    date.setHours(0, 0, 0, 0);
+    return date;
+  }
+
+  /**
+   * @description Formats the date as a 'YYYY-MM-DD' string
+   *
+   * @returns Date string in 'YYYY-MM-DD' format
+   */
+  toString(): string {
+    const year = this.year.toString().padStart(4, '0');
+    const month = this.month.toString().padStart(2, '0');
+    const day = this.day.toString().padStart(2, '0');
+
+    return `${year}-${month}-${day}`;
+  }
+}
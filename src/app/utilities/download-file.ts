@@ -0,0 +1,15 @@
+/**
+ * @description Saves text as a file through the browser's download prompt
+ *
+ * @param content File contents
+ * @param filename Suggested file name
+ * @param mimeType MIME type of the contents
+ */
+export const downloadFile = (content: string, filename: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
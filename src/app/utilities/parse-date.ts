@@ -1,21 +1,19 @@
+import { CalendarDate } from './calendar-date';
+
 /**
  * @description Parses a date string in 'YYYY-MM-DD' format and returns a Date object
- * * If the input is empty, it returns today's date at midnight.
+ * * Callers without a date use the ClockService's today, so previews apply
  *
  * @param yyyyMmDd Date string in 'YYYY-MM-DD' format
  * @returns Date object representing the local date at midnight
+ * @throws Error when the string is not a valid 'YYYY-MM-DD' date
  */
-export const parseLocalDate = (yyyyMmDd?: string): Date => {
-  if (!yyyyMmDd) {
-    const today = new Date();
-    return new Date(today.getFullYear(), today.getMonth(), today.getDate());
-  }
-
-  const [year, month, day] = yyyyMmDd.split('-').map(Number);
-
-  if (isNaN(year) || isNaN(month) || isNaN(day)) {
-    throw new Error('Invalid date format. Expected YYYY-MM-DD.');
-  }
+export const parseLocalDate = (yyyyMmDd: string): Date => CalendarDate.parse(yyyyMmDd).toDate();
 
-  return new Date(year, month - 1, day); // Local midnight
-};
+/**
+ * @description Formats a Date as a 'YYYY-MM-DD' string using its local calendar date
+ *
+ * @param date Date to format
+ * @returns Date string in 'YYYY-MM-DD' format
+ */
+export const formatLocalDate = (date: Date): string => CalendarDate.fromDate(date).toString();